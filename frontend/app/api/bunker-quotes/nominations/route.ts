@@ -0,0 +1,37 @@
+/**
+ * Stem Nominations API
+ *
+ * GET - List draft nominations, or export one (query: id, format=json|csv)
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supplierQuoteService } from '@/lib/services/supplier-quote-service';
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get('id');
+  if (!id) {
+    return NextResponse.json({ nominations: supplierQuoteService.listNominations() });
+  }
+
+  const nomination = supplierQuoteService.getNomination(id);
+  if (!nomination) {
+    return NextResponse.json({ error: `Nomination ${id} not found` }, { status: 404 });
+  }
+
+  const format = searchParams.get('format') ?? 'json';
+  if (format === 'csv') {
+    return new NextResponse(supplierQuoteService.exportNominationCsv(id), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="stem-nomination-${id}.csv"`,
+      },
+    });
+  }
+  if (format !== 'json') {
+    return NextResponse.json({ error: 'format must be json or csv' }, { status: 400 });
+  }
+  return NextResponse.json(nomination);
+}
@@ -0,0 +1,59 @@
+/**
+ * Bunker Supplier Quotes API
+ *
+ * GET    - List quotes (query: port, fuel_type, valid_at)
+ * POST   - Ingest quotes: JSON ({ quotes: [...] } or an array) or CSV (Content-Type text/csv)
+ * DELETE - Remove quotes (query: port; all quotes when omitted)
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { supplierQuoteService, SupplierQuoteError } from '@/lib/services/supplier-quote-service';
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url);
+  const quotes = supplierQuoteService.getQuotes({
+    port: searchParams.get('port') ?? undefined,
+    fuel_type: searchParams.get('fuel_type') ?? undefined,
+    valid_at: searchParams.get('valid_at') ?? undefined,
+  });
+  return NextResponse.json({ quotes, count: quotes.length });
+}
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const contentType = request.headers.get('content-type') ?? '';
+    let result;
+    if (contentType.includes('text/csv')) {
+      result = supplierQuoteService.ingestCsv(await request.text());
+    } else {
+      const body: unknown = await request.json();
+      const rows = Array.isArray(body) ? body : (body as { quotes?: unknown })?.quotes;
+      if (!Array.isArray(rows)) {
+        return NextResponse.json(
+          { error: 'Body must be an array of quotes or { quotes: [...] }' },
+          { status: 400 }
+        );
+      }
+      result = supplierQuoteService.ingestQuotes(rows);
+    }
+
+    console.log(`📥 [BUNKER-QUOTES-API] Accepted ${result.accepted.length}, rejected ${result.rejected.length}`);
+    return NextResponse.json(
+      { accepted: result.accepted.length, rejected: result.rejected, quotes: result.accepted },
+      { status: result.accepted.length > 0 ? 201 : 400 }
+    );
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const status = error instanceof SupplierQuoteError || error instanceof SyntaxError ? 400 : 500;
+    console.error('❌ [BUNKER-QUOTES-API] POST error:', message);
+    return NextResponse.json({ error: 'Failed to ingest quotes', details: message }, { status });
+  }
+}
+
+export async function DELETE(request: NextRequest): Promise<NextResponse> {
+  const { searchParams } = new URL(request.url);
+  const removed = supplierQuoteService.clearQuotes(searchParams.get('port') ?? undefined);
+  return NextResponse.json({ ok: true, removed });
+}
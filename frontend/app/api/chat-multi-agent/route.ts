@@ -41,6 +41,7 @@ import {
   recordABTestResult,
 } from '@/lib/utils/ab-testing';
 import { registerAllTools, verifyToolRegistration } from '@/lib/registry/tools';
+import { BusinessRulesEngine } from '@/lib/engines/business-rules-engine';
 import { registerAllAgents, verifyAgentRegistration } from '@/lib/registry/agents';
 import {
   initializeConfigurations,
@@ -336,6 +337,8 @@ export async function POST(req: Request) {
             multi_bunker_plan: null,
             hull_performance: null,
             hull_performance_charts: null,
+            cii_rating: null,
+            cp_performance: null,
             final_recommendation: null,
             formatted_response: null,
             synthesized_insights: null,
@@ -343,6 +346,7 @@ export async function POST(req: Request) {
             synthesis_data: null,
             agent_errors: {},
             agent_status: {},
+            business_rules_trace: [],
           };
 
           // Keep-alive interval
@@ -381,11 +385,12 @@ export async function POST(req: Request) {
             }
           }
 
-          // Build input: resume from HITL, or normal/continuation
+          // Build input: resume from HITL, or normal/continuation. A new request resets the
+          // business rules trace (null), which otherwise carries over from earlier turns of the thread.
           const streamInput = isResume
             ? new Command({ resume })
             : isContinuation
-              ? { messages: [humanMessage] }
+              ? { messages: [humanMessage], business_rules_trace: null }
               : {
                   messages: [humanMessage],
                   correlation_id,
@@ -402,6 +407,7 @@ export async function POST(req: Request) {
                   final_recommendation: null,
                   agent_errors: {},
                   agent_status: {},
+                  business_rules_trace: null,
                   agent_context: null,
                   selected_route_id: selectedRouteId || null,
                 };
@@ -472,6 +478,8 @@ export async function POST(req: Request) {
             if (event.multi_bunker_plan) accumulatedState.multi_bunker_plan = event.multi_bunker_plan;
             if (event.hull_performance != null) accumulatedState.hull_performance = event.hull_performance;
             if (event.hull_performance_charts != null) accumulatedState.hull_performance_charts = event.hull_performance_charts;
+            if (event.cii_rating != null) accumulatedState.cii_rating = event.cii_rating;
+            if (event.cp_performance != null) accumulatedState.cp_performance = event.cp_performance;
             if (event.final_recommendation) accumulatedState.final_recommendation = event.final_recommendation;
             if (event.formatted_response) accumulatedState.formatted_response = event.formatted_response;
             if (event.synthesized_response) accumulatedState.synthesized_response = event.synthesized_response;
@@ -485,6 +493,7 @@ export async function POST(req: Request) {
               accumulatedState.hull_performance_charts = event.hull_performance_charts;
             }
             if (event.agent_errors) accumulatedState.agent_errors = { ...accumulatedState.agent_errors, ...event.agent_errors };
+            if (event.business_rules_trace) accumulatedState.business_rules_trace = event.business_rules_trace;
 
             // Send hull_performance_charts as soon as available (normalized so all keys present for JSON)
             if (accumulatedState.hull_performance_charts != null && !lastSentHullCharts) {
@@ -665,6 +674,7 @@ export async function POST(req: Request) {
                 : null;
               const finalChartsKeys = finalChartsPayload ? Object.keys(finalChartsPayload) : [];
               console.log('📤 [STREAM] final_complete hull_performance_charts keys:', finalChartsKeys, 'hasSpeedLoss:', !!finalChartsPayload?.speedLoss, 'hasSpeedConsumption:', !!finalChartsPayload?.speedConsumption);
+              const ruleNotices = BusinessRulesEngine.summarize(accumulatedState.business_rules_trace ?? []);
               controller.enqueue(
                 encoder.encode(
                   `data: ${JSON.stringify({
@@ -674,16 +684,22 @@ export async function POST(req: Request) {
                     synthesis_data: accumulatedState.synthesis_data || accumulatedState.synthesized_response || null,
                     hull_performance: accumulatedState.hull_performance ?? null,
                     hull_performance_charts: finalChartsPayload,
+                    cii_rating: accumulatedState.cii_rating ?? null,
+                    cp_performance: accumulatedState.cp_performance ?? null,
                     errors: Object.keys(accumulatedState.agent_errors).length > 0 ? {
                       agent_errors: accumulatedState.agent_errors,
                       agent_status: accumulatedState.agent_status,
                     } : undefined,
-                    warnings: Object.entries(accumulatedState.agent_status || {})
-                      .filter(([_, status]) => status === 'failed' || status === 'skipped')
-                      .map(([agent, status]) => {
-                        const error = accumulatedState.agent_errors[agent];
-                        return `${agent} ${status}: ${error?.error || 'Unknown error'}`;
-                      }),
+                    warnings: [
+                      ...Object.entries(accumulatedState.agent_status || {})
+                        .filter(([_, status]) => status === 'failed' || status === 'skipped')
+                        .map(([agent, status]) => {
+                          const error = accumulatedState.agent_errors[agent];
+                          return `${agent} ${status}: ${error?.error || 'Unknown error'}`;
+                        }),
+                      ...ruleNotices.warnings,
+                    ],
+                    business_rules: { ...ruleNotices, trace: accumulatedState.business_rules_trace },
                   })}\n\n`
                 )
               );
@@ -702,6 +718,7 @@ export async function POST(req: Request) {
             if (finalChartsPayload) {
               console.log('📤 [STREAM] final_complete (final check) hull_performance_charts keys:', Object.keys(finalChartsPayload));
             }
+            const ruleNotices = BusinessRulesEngine.summarize(accumulatedState.business_rules_trace ?? []);
             controller.enqueue(
               encoder.encode(
                 `data: ${JSON.stringify({
@@ -711,16 +728,22 @@ export async function POST(req: Request) {
                   synthesis_data: accumulatedState.synthesis_data || accumulatedState.synthesized_response || null,
                   hull_performance: accumulatedState.hull_performance ?? null,
                   hull_performance_charts: finalChartsPayload,
+                  cii_rating: accumulatedState.cii_rating ?? null,
+                  cp_performance: accumulatedState.cp_performance ?? null,
                   errors: Object.keys(accumulatedState.agent_errors).length > 0 ? {
                     agent_errors: accumulatedState.agent_errors,
                     agent_status: accumulatedState.agent_status,
                   } : undefined,
-                  warnings: Object.entries(accumulatedState.agent_status || {})
-                    .filter(([_, status]) => status === 'failed' || status === 'skipped')
-                    .map(([agent, status]) => {
-                      const error = accumulatedState.agent_errors[agent];
-                      return `${agent} ${status}: ${error?.error || 'Unknown error'}`;
-                    }),
+                  warnings: [
+                    ...Object.entries(accumulatedState.agent_status || {})
+                      .filter(([_, status]) => status === 'failed' || status === 'skipped')
+                      .map(([agent, status]) => {
+                        const error = accumulatedState.agent_errors[agent];
+                        return `${agent} ${status}: ${error?.error || 'Unknown error'}`;
+                      }),
+                    ...ruleNotices.warnings,
+                  ],
+                  business_rules: { ...ruleNotices, trace: accumulatedState.business_rules_trace },
                 })}\n\n`
               )
             );
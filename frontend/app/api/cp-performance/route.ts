@@ -0,0 +1,123 @@
+/**
+ * Charter-Party Performance API
+ *
+ * POST - Evaluate performance against the CP speed/consumption warranty (good-weather method).
+ * Body:
+ *   warranty: CPWarranty object, or clause text ("about 14 kn on 30 mt VLSFO")
+ *   reports: noon reports ({ date, steaming_hours, distance_nm, consumption_mt, beaufort?, wave_height_m? }),
+ *            or imo + start_date + end_date to read them from hull performance data
+ *   good_weather?: { max_beaufort?, max_wave_height_m? }
+ *   daily_hire_usd?, fuel_price_usd_per_mt?
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { cpPerformanceEngine, type CPWarranty } from '@/lib/engines/cp-performance-engine';
+import { getCPReportsFromHullPerformance } from '@/lib/services/cp-performance-data-service';
+import { extractCharterPartyTerms } from '@/lib/utils/charter-party-extractor';
+
+const isDate = (v: string) => !Number.isNaN(Date.parse(v));
+
+const warrantySchema = z.object({
+  speed_knots: z.coerce.number().positive('speed_knots must be positive'),
+  consumption_mt_per_day: z.coerce.number().positive('consumption_mt_per_day must be positive'),
+  fuel_grade: z.enum(['HSFO', 'VLSFO', 'ULSFO', 'LSMGO', 'MGO', 'MDO', 'LNG']).default('VLSFO'),
+  about: z.boolean().default(true),
+  load_condition: z.enum(['laden', 'ballast']).optional(),
+  speed_tolerance_knots: z.coerce.number().min(0).optional(),
+  consumption_tolerance_percent: z.coerce.number().min(0).optional(),
+});
+
+const reportSchema = z.object({
+  date: z.string().trim().refine(isDate, 'date must be a date'),
+  steaming_hours: z.coerce.number().min(0),
+  distance_nm: z.coerce.number().min(0),
+  consumption_mt: z.coerce.number().min(0),
+  beaufort: z.coerce.number().min(0).max(12).optional(),
+  wave_height_m: z.coerce.number().min(0).optional(),
+  load_condition: z.enum(['laden', 'ballast']).optional(),
+});
+
+const requestSchema = z
+  .object({
+    warranty: z.union([z.string().trim().min(1), warrantySchema]),
+    reports: z.array(reportSchema).optional(),
+    imo: z.string().trim().regex(/^\d{7}$/, 'imo must be 7 digits').optional(),
+    start_date: z.string().trim().refine(isDate, 'start_date must be a date').optional(),
+    end_date: z.string().trim().refine(isDate, 'end_date must be a date').optional(),
+    good_weather: z
+      .object({
+        max_beaufort: z.coerce.number().min(0).max(12).optional(),
+        max_wave_height_m: z.coerce.number().min(0).optional(),
+      })
+      .optional(),
+    daily_hire_usd: z.coerce.number().positive().optional(),
+    fuel_price_usd_per_mt: z.coerce.number().positive().optional(),
+  })
+  .refine((b) => (b.reports?.length ?? 0) > 0 || (b.imo && b.start_date && b.end_date), {
+    message: 'Provide reports, or imo with start_date and end_date',
+  });
+
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const parsed = requestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`) },
+        { status: 400 }
+      );
+    }
+    const body = parsed.data;
+
+    let warranty: CPWarranty;
+    let terms: ReturnType<typeof extractCharterPartyTerms> | null = null;
+    if (typeof body.warranty === 'string') {
+      terms = extractCharterPartyTerms(body.warranty);
+      if (!terms.warranty) {
+        return NextResponse.json(
+          { error: 'Could not read the warranty', details: 'Expected e.g. "about 14 kn on 30 mt VLSFO"' },
+          { status: 400 }
+        );
+      }
+      warranty = terms.warranty;
+    } else {
+      warranty = body.warranty;
+    }
+
+    const reports =
+      body.reports && body.reports.length > 0
+        ? body.reports
+        : await getCPReportsFromHullPerformance(body.imo!, {
+            start: new Date(body.start_date!).toISOString(),
+            end: new Date(body.end_date!).toISOString(),
+          });
+
+    let result;
+    try {
+      result = cpPerformanceEngine.evaluate({
+        warranty,
+        reports,
+        good_weather: body.good_weather,
+        daily_hire_usd: body.daily_hire_usd ?? terms?.daily_hire_usd,
+        fuel_price_usd_per_mt: body.fuel_price_usd_per_mt ?? terms?.fuel_price_usd_per_mt,
+      });
+    } catch (error: unknown) {
+      // Warranty or reports cannot be evaluated (e.g. no sea passage in the period)
+      const message = error instanceof Error ? error.message : String(error);
+      return NextResponse.json({ error: 'Cannot evaluate CP performance', details: message }, { status: 422 });
+    }
+
+    console.log(
+      `📜 [CP-PERFORMANCE-API] ${result.summary.verdict}: ${result.time_lost_hours.toFixed(1)} h lost, ` +
+        `${result.over_consumption_mt.toFixed(1)} MT over-consumed`
+    );
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const status = error instanceof SyntaxError ? 400 : 500;
+    console.error('❌ [CP-PERFORMANCE-API] POST error:', message);
+    return NextResponse.json({ error: 'Failed to evaluate CP performance', details: message }, { status });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * MCP API (Streamable HTTP transport)
+ *
+ * POST - One JSON-RPC message, or a batch, for the tool registry MCP server
+ *        (initialize, ping, tools/list, tools/call). Requests get a JSON response;
+ *        notifications and client responses only get 202. An empty batch is an Invalid Request.
+ * GET  - 405; the server sends no server-initiated messages, so there is no SSE stream.
+ *
+ * Auth: "Authorization: Bearer <MCP_AUTH_TOKEN>" authenticates the session, which makes tools
+ * with requiresAuth available. Without MCP_AUTH_TOKEN set, every session is unauthenticated.
+ */
+
+export const runtime = 'nodejs';
+
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getToolRegistryMCPServer } from '@/lib/mcp/tool-registry-mcp-server';
+import { JSONRPC_ERROR_CODES, type JSONRPCResponse, type MCPSession } from '@/lib/mcp/types';
+
+function isAuthenticated(req: NextRequest): boolean {
+  const expected = process.env.MCP_AUTH_TOKEN?.trim();
+  const header = req.headers.get('authorization') ?? '';
+  if (!expected || !header.startsWith('Bearer ')) return false;
+
+  const provided = Buffer.from(header.slice('Bearer '.length).trim());
+  const token = Buffer.from(expected);
+  return provided.length === token.length && timingSafeEqual(provided, token);
+}
+
+export async function POST(req: NextRequest): Promise<NextResponse> {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json(
+      { jsonrpc: '2.0', id: null, error: { code: JSONRPC_ERROR_CODES.PARSE_ERROR, message: 'Parse error' } },
+      { status: 400 }
+    );
+  }
+
+  if (Array.isArray(body) && body.length === 0) {
+    return NextResponse.json(
+      {
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: JSONRPC_ERROR_CODES.INVALID_REQUEST, message: 'Invalid Request: empty batch' },
+      },
+      { status: 400 }
+    );
+  }
+
+  const session: MCPSession = { authenticated: isAuthenticated(req) };
+  const server = await getToolRegistryMCPServer();
+
+  const messages = Array.isArray(body) ? body : [body];
+  const responses = (await Promise.all(messages.map((message) => server.handleMessage(message, session)))).filter(
+    (response): response is JSONRPCResponse => response !== null
+  );
+
+  if (responses.length === 0) {
+    return new NextResponse(null, { status: 202 });
+  }
+  return NextResponse.json(Array.isArray(body) ? responses : responses[0]);
+}
+
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(
+    { error: 'This MCP server does not offer a server-to-client stream; use POST' },
+    { status: 405, headers: { Allow: 'POST' } }
+  );
+}
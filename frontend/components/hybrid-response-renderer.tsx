@@ -133,7 +133,7 @@ function adaptWeatherTimelineProps(props: Record<string, unknown>) {
   const events: TimelineData['events'] = timeline.map((entry: any, i: number) => ({
     hourFromStart: entry.hour_from_start ?? entry.hour ?? i,
     hourFormatted: entry.hour_formatted ?? `${entry.hour ?? i}h`,
-    type: (entry.type ?? 'ARRIVAL') as 'DEPARTURE' | 'BUNKER' | 'SWITCH_FUEL' | 'ARRIVAL',
+    type: (entry.type ?? 'ARRIVAL') as TimelineData['events'][number]['type'],
     icon: entry.icon ?? '📍',
     title: entry.title ?? entry.description ?? `Waypoint ${i + 1}`,
     description: entry.description ?? '',
@@ -7,6 +7,7 @@
  */
 
 import { RequestQueryBuilder, CondOperator } from '@nestjsx/crud-request';
+import { normalizeFuelType } from '@/lib/utils/fuel-grade';
 
 /** API row shape: API returns camelCase (fuelType, priceUsdPerMt); DB/snake_case also supported */
 export interface BunkerPricingRow {
@@ -60,7 +61,7 @@ function mapRowToInternal(row: BunkerPricingRow): BunkerPriceMapped {
   );
   const portName = (row.port != null && String(row.port).trim() !== '') ? String(row.port).trim() : '';
   const portCode = (row.port_code != null && String(row.port_code).trim() !== '') ? String(row.port_code).trim() : '';
-  const fuelType = row.fuel_type ?? row.fuelType ?? '';
+  const fuelType = normalizeFuelType(row.fuel_type ?? row.fuelType ?? '');
   return {
     portCode,
     portName,
@@ -30,6 +30,16 @@ export interface DatalogRow {
   TO_PORT?: string;
   /** Load condition from latest report (e.g. Ballast, Laden) - used for current voyage consumption */
   LOAD_TYPE?: string;
+  VESSEL_ACTIVITY?: string;
+  /** Hours steamed since the previous report */
+  STEAMING_TIME_HRS?: number;
+  /** Fuel consumed since the previous report (mt) */
+  TOTAL_CONSUMPTION_VLSFO?: number;
+  TOTAL_CONSUMPTION_LSMGO?: number;
+  TOTAL_CONSUMPTION_HSFO?: number;
+  TOTAL_CONSUMPTION_ULSFO?: number;
+  TOTAL_CONSUMPTION_MDO?: number;
+  TOTAL_CONSUMPTION_LNG?: number;
   [key: string]: unknown;
 }
 
@@ -42,7 +52,10 @@ function toNum(v: unknown): number {
   return Number.isFinite(n) ? n : 0;
 }
 
-function mapRowToNoonReport(row: DatalogRow): NoonReportData {
+/**
+ * Map one datalog row to a noon report
+ */
+export function mapRowToNoonReport(row: DatalogRow): NoonReportData {
   const lat = toNum(row.LATITUDE);
   const lon = toNum(row.LONGITUDE);
   const timestamp = row.REPORT_DATE || row.UTC_DATE_TIME || new Date().toISOString();
@@ -116,6 +129,32 @@ export class DatalogsClient {
     return rows.length > 0 ? rows[0] : null;
   }
 
+  /**
+   * Fetch the most recent raw datalog rows for a vessel by IMO, newest first.
+   * Used to validate the latest report against the vessel's recent history.
+   */
+  async getRecentRawByIMO(imo: string, limit: number): Promise<DatalogRow[]> {
+    if (!imo || String(imo).trim() === '') return [];
+    const normalizedIMO = String(imo).trim();
+    const url = `${this.baseURL}/datalogs?filter=VESSEL_IMO||$eq||${encodeURIComponent(normalizedIMO)}&limit=${Math.max(1, Math.floor(limit))}&sort=REPORT_DATE,DESC`;
+    return this.fetchUrl(url);
+  }
+
+  /**
+   * Fetch raw datalog rows for a vessel by IMO within a date range, oldest first.
+   * Used for period aggregates (e.g. CII year-to-date consumption and distance).
+   */
+  async getRawByIMOInRange(imo: string, from: Date, to: Date): Promise<DatalogRow[]> {
+    if (!imo || String(imo).trim() === '') return [];
+    const normalizedIMO = String(imo).trim();
+    const url =
+      `${this.baseURL}/datalogs?filter=VESSEL_IMO||$eq||${encodeURIComponent(normalizedIMO)}` +
+      `&filter=REPORT_DATE||$gte||${encodeURIComponent(from.toISOString())}` +
+      `&filter=REPORT_DATE||$lte||${encodeURIComponent(to.toISOString())}` +
+      `&sort=REPORT_DATE,ASC`;
+    return this.fetchUrl(url);
+  }
+
   /**
    * Fetch latest noon report(s) for a vessel by name (fuzzy match).
    * Uses VESSEL_NAME filter; returns most recent.
@@ -0,0 +1,101 @@
+/**
+ * EUA price client
+ *
+ * Fetches the latest EU Allowance (EUA) price in EUR per t CO2 from the REST endpoint
+ * configured by EUA_PRICE_API_URL (optional bearer token EUA_PRICE_API_KEY).
+ * Accepts a single object or an array / { data: [...] } of rows; the most recent row wins.
+ */
+
+/** API row shape: snake_case and camelCase both supported */
+export interface EUAPriceRow {
+  price_eur?: number | string;
+  priceEur?: number | string;
+  price?: number | string;
+  date?: string;
+  timestamp?: string;
+  [key: string]: unknown;
+}
+
+/** Mapped internal shape for callers */
+export interface EUAPriceQuote {
+  priceEur: number;
+  date: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+function toNumber(v: number | string | undefined | null): number {
+  if (v == null) return 0;
+  if (typeof v === 'number' && Number.isFinite(v)) return v;
+  const n = typeof v === 'string' ? parseFloat(v) : Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+function normalizeResponse(body: unknown): EUAPriceRow[] {
+  if (Array.isArray(body)) return body as EUAPriceRow[];
+  if (body && typeof body === 'object' && 'data' in body && Array.isArray((body as { data: unknown }).data)) {
+    return (body as { data: EUAPriceRow[] }).data;
+  }
+  if (body && typeof body === 'object') return [body as EUAPriceRow];
+  return [];
+}
+
+function mapRowToQuote(row: EUAPriceRow): EUAPriceQuote | null {
+  const priceEur = toNumber(row.price_eur ?? row.priceEur ?? row.price);
+  if (priceEur <= 0) return null;
+  const parsed = new Date(row.date ?? row.timestamp ?? '');
+  const date = Number.isFinite(parsed.getTime()) ? parsed : new Date();
+  return { priceEur, date: date.toISOString().split('T')[0] };
+}
+
+export class EUAPriceClient {
+  private readonly baseURL: string | null;
+  private readonly timeout: number;
+
+  constructor() {
+    const url = process.env.EUA_PRICE_API_URL;
+    this.baseURL = url && url.trim() !== '' ? url.trim() : null;
+    this.timeout = DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Whether a price endpoint is configured
+   */
+  isConfigured(): boolean {
+    return this.baseURL !== null;
+  }
+
+  /**
+   * Fetch the latest EUA price; null when not configured or the response has no usable price.
+   */
+  async getLatestPrice(): Promise<EUAPriceQuote | null> {
+    if (!this.baseURL) return null;
+
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (process.env.EUA_PRICE_API_KEY) {
+      headers['Authorization'] = `Bearer ${process.env.EUA_PRICE_API_KEY}`;
+    }
+
+    const response = await fetch(this.baseURL, {
+      method: 'GET',
+      headers,
+      signal: AbortSignal.timeout(this.timeout),
+    });
+    if (!response.ok) {
+      throw new Error(`EUA price API error: ${response.status} - ${response.statusText || 'request failed'}`);
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      throw new Error('EUA price API returned invalid JSON');
+    }
+
+    const quotes = normalizeResponse(body)
+      .map(mapRowToQuote)
+      .filter((q): q is EUAPriceQuote => q !== null)
+      .sort((a, b) => b.date.localeCompare(a.date));
+    return quotes[0] ?? null;
+  }
+}
@@ -49,6 +49,7 @@ function mapRowToVesselBasicInfo(row: VesselDetailRow): VesselBasicInfo {
     name: String(row.vesselName || ''),
     type: String(row.vesselType || row.vesselSubType || 'Unknown'),
     dwt: toNum(row.deadweight),
+    ...(toNum(row.grossTonnage) > 0 && { gt: toNum(row.grossTonnage) }),
     flag: String(row.flag || ''),
     built,
     operator: operator ? String(operator).trim() : undefined,
@@ -0,0 +1,506 @@
+/**
+ * Condition Expression Language
+ *
+ * One parser and evaluator for the `condition:` and `render_conditions:` expressions in YAML
+ * config: response template sections and business rules, insight extraction rules, the
+ * component registry and config/business-rules. Expressions are compiled once (and validated
+ * when config is loaded), then evaluated against a plain scope object such as agent state.
+ *
+ * Supported:
+ * - Paths: `bunker_analysis.best_option.port_name` (null-safe: a missing step yields undefined;
+ *   `?.` is accepted as `.`). Only own properties are read, so prototypes are not reachable.
+ * - Literals: numbers, 'single' or "double" quoted strings, true, false, null, undefined
+ * - Comparison: === !== == != < <= > >= (relational comparisons with null/undefined are false)
+ * - Boolean logic: && || ! and parentheses (&& and || return an operand, as in JavaScript)
+ * - Arithmetic: + - * / % and unary minus (undefined when an operand is null/undefined)
+ * - Arrays: `.length`, `.some(x => expr)` and `.every(x => expr)` (false when not an array)
+ *
+ * Anything else (function calls, assignment, indexing, templates) is a syntax error.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ConditionScope = Record<string, unknown>;
+
+type BinaryOperator = '===' | '!==' | '==' | '!=' | '<' | '<=' | '>' | '>=' | '+' | '-' | '*' | '/' | '%';
+
+type ConditionNode =
+  | { type: 'literal'; value: string | number | boolean | null | undefined }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: ConditionNode; property: string }
+  | { type: 'unary'; operator: '!' | '-'; argument: ConditionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ConditionNode; right: ConditionNode }
+  | { type: 'logical'; operator: '&&' | '||'; left: ConditionNode; right: ConditionNode }
+  | { type: 'array_predicate'; method: 'some' | 'every'; object: ConditionNode; param: string; body: ConditionNode };
+
+export interface CompiledCondition {
+  source: string;
+  /** Root names the expression reads from the scope (lambda parameters excluded) */
+  identifiers: string[];
+  /** Raw expression value */
+  evaluate(scope: ConditionScope): unknown;
+  /** Expression value as a boolean */
+  test(scope: ConditionScope): boolean;
+}
+
+/**
+ * Error class for conditions that do not parse
+ */
+export class ConditionSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly expression: string,
+    public readonly position: number
+  ) {
+    super(`${message} at position ${position} in condition "${expression}"`);
+    this.name = 'ConditionSyntaxError';
+  }
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type TokenType = 'number' | 'string' | 'identifier' | 'punctuator' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+/** Longest first so that `===` is not read as `==` then `=` */
+const PUNCTUATORS = [
+  '===', '!==', '==', '!=', '<=', '>=', '&&', '||', '=>', '?.',
+  '<', '>', '!', '+', '-', '*', '/', '%', '(', ')', '.',
+];
+
+const KEYWORD_LITERALS = new Map<string, boolean | null | undefined>([
+  ['true', true],
+  ['false', false],
+  ['null', null],
+  ['undefined', undefined],
+]);
+
+const ARRAY_PREDICATES = new Set(['some', 'every']);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = source.slice(i).match(/^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/);
+      const text = match![0];
+      tokens.push({ type: 'number', value: text, position: i });
+      i += text.length;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch) {
+        if (source[j] === '\\' && j + 1 < source.length) {
+          j++;
+        }
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) {
+        throw new ConditionSyntaxError('Unterminated string', source, i);
+      }
+      tokens.push({ type: 'string', value, position: i });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const text = source.slice(i).match(/^[A-Za-z_$][\w$]*/)![0];
+      tokens.push({ type: 'identifier', value: text, position: i });
+      i += text.length;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((p) => source.startsWith(p, i));
+    if (!punctuator) {
+      throw new ConditionSyntaxError(`Unexpected character '${ch}'`, source, i);
+    }
+    tokens.push({ type: 'punctuator', value: punctuator, position: i });
+    i += punctuator.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// Parser (recursive descent, lowest precedence first)
+// ============================================================================
+
+class ConditionParser {
+  private index = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly tokens: Token[]
+  ) {}
+
+  parse(): ConditionNode {
+    if (this.peek().type === 'end') {
+      throw new ConditionSyntaxError('Empty condition', this.source, 0);
+    }
+    const node = this.parseOr();
+    if (this.peek().type !== 'end') {
+      throw this.unexpected();
+    }
+    return node;
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.match('||')) {
+      left = { type: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseEquality();
+    while (this.match('&&')) {
+      left = { type: 'logical', operator: '&&', left, right: this.parseEquality() };
+    }
+    return left;
+  }
+
+  private parseEquality(): ConditionNode {
+    let left = this.parseRelational();
+    let operator: string | null;
+    while ((operator = this.matchAny('===', '!==', '==', '!='))) {
+      left = { type: 'binary', operator: operator as BinaryOperator, left, right: this.parseRelational() };
+    }
+    return left;
+  }
+
+  private parseRelational(): ConditionNode {
+    let left = this.parseAdditive();
+    let operator: string | null;
+    while ((operator = this.matchAny('<=', '>=', '<', '>'))) {
+      left = { type: 'binary', operator: operator as BinaryOperator, left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): ConditionNode {
+    let left = this.parseMultiplicative();
+    let operator: string | null;
+    while ((operator = this.matchAny('+', '-'))) {
+      left = { type: 'binary', operator: operator as BinaryOperator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ConditionNode {
+    let left = this.parseUnary();
+    let operator: string | null;
+    while ((operator = this.matchAny('*', '/', '%'))) {
+      left = { type: 'binary', operator: operator as BinaryOperator, left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ConditionNode {
+    const operator = this.matchAny('!', '-');
+    if (operator) {
+      return { type: 'unary', operator: operator as '!' | '-', argument: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ConditionNode {
+    let node = this.parsePrimary();
+
+    while (this.matchAny('.', '?.')) {
+      const name = this.next();
+      if (name.type !== 'identifier') {
+        throw this.unexpected(name);
+      }
+
+      if (this.peek().value === '(' && this.peek().type === 'punctuator') {
+        if (!ARRAY_PREDICATES.has(name.value)) {
+          throw new ConditionSyntaxError(
+            `Method '${name.value}' is not supported (only ${[...ARRAY_PREDICATES].join(', ')})`,
+            this.source,
+            name.position
+          );
+        }
+        this.expect('(');
+        const { param, body } = this.parseLambda();
+        this.expect(')');
+        node = { type: 'array_predicate', method: name.value as 'some' | 'every', object: node, param, body };
+        continue;
+      }
+
+      node = { type: 'member', object: node, property: name.value };
+    }
+
+    if (this.peek().type === 'punctuator' && this.peek().value === '(') {
+      throw new ConditionSyntaxError('Function calls are not supported', this.source, this.peek().position);
+    }
+    return node;
+  }
+
+  /** `x => expr` or `(x) => expr` */
+  private parseLambda(): { param: string; body: ConditionNode } {
+    const parenthesised = this.match('(');
+    const param = this.next();
+    if (param.type !== 'identifier' || KEYWORD_LITERALS.has(param.value)) {
+      throw new ConditionSyntaxError('Expected a parameter name', this.source, param.position);
+    }
+    if (parenthesised) this.expect(')');
+    this.expect('=>');
+    return { param: param.value, body: this.parseOr() };
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        if (KEYWORD_LITERALS.has(token.value)) {
+          return { type: 'literal', value: KEYWORD_LITERALS.get(token.value) };
+        }
+        return { type: 'identifier', name: token.value };
+      case 'punctuator':
+        if (token.value === '(') {
+          const inner = this.parseOr();
+          this.expect(')');
+          return inner;
+        }
+        throw this.unexpected(token);
+      default:
+        throw new ConditionSyntaxError('Unexpected end of condition', this.source, token.position);
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'end') this.index++;
+    return token;
+  }
+
+  private match(value: string): boolean {
+    return this.matchAny(value) !== null;
+  }
+
+  private matchAny(...values: string[]): string | null {
+    const token = this.peek();
+    if (token.type === 'punctuator' && values.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private expect(value: string): void {
+    if (!this.match(value)) {
+      const token = this.peek();
+      throw new ConditionSyntaxError(
+        token.type === 'end' ? `Expected '${value}' before end of condition` : `Expected '${value}' but found '${token.value}'`,
+        this.source,
+        token.position
+      );
+    }
+  }
+
+  private unexpected(token: Token = this.peek()): ConditionSyntaxError {
+    if (token.type === 'end') {
+      return new ConditionSyntaxError('Unexpected end of condition', this.source, token.position);
+    }
+    return new ConditionSyntaxError(`Unexpected token '${token.value}'`, this.source, token.position);
+  }
+}
+
+// ============================================================================
+// Evaluator
+// ============================================================================
+
+/** Own property only, so `constructor`, `__proto__` and prototype methods are never reached */
+function readProperty(target: unknown, property: string): unknown {
+  if (target === null || target === undefined) return undefined;
+  if (typeof target !== 'object' && typeof target !== 'string') return undefined;
+  return Object.prototype.hasOwnProperty.call(target, property)
+    ? (target as Record<string, unknown>)[property]
+    : undefined;
+}
+
+function isNullish(value: unknown): value is null | undefined {
+  return value === null || value === undefined;
+}
+
+function evaluateBinary(operator: BinaryOperator, left: unknown, right: unknown): unknown {
+  switch (operator) {
+    case '===':
+      return left === right;
+    case '!==':
+      return left !== right;
+    case '==':
+      return left == right;
+    case '!=':
+      return left != right;
+  }
+
+  if (isNullish(left) || isNullish(right)) {
+    return ['<', '<=', '>', '>='].includes(operator) ? false : undefined;
+  }
+
+  const a = left as number;
+  const b = right as number;
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    case '+':
+      return a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    case '/':
+      return a / b;
+    case '%':
+      return a % b;
+  }
+}
+
+function evaluateNode(node: ConditionNode, scope: ConditionScope, locals: Record<string, unknown>): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'identifier':
+      return Object.prototype.hasOwnProperty.call(locals, node.name)
+        ? locals[node.name]
+        : readProperty(scope, node.name);
+    case 'member':
+      return readProperty(evaluateNode(node.object, scope, locals), node.property);
+    case 'unary': {
+      const value = evaluateNode(node.argument, scope, locals);
+      if (node.operator === '!') return !value;
+      return isNullish(value) ? undefined : -(value as number);
+    }
+    case 'binary':
+      return evaluateBinary(
+        node.operator,
+        evaluateNode(node.left, scope, locals),
+        evaluateNode(node.right, scope, locals)
+      );
+    case 'logical': {
+      const left = evaluateNode(node.left, scope, locals);
+      if (node.operator === '&&') return left ? evaluateNode(node.right, scope, locals) : left;
+      return left ? left : evaluateNode(node.right, scope, locals);
+    }
+    case 'array_predicate': {
+      const items = evaluateNode(node.object, scope, locals);
+      if (!Array.isArray(items)) return false;
+      const predicate = (item: unknown) =>
+        Boolean(evaluateNode(node.body, scope, { ...locals, [node.param]: item }));
+      return node.method === 'some' ? items.some(predicate) : items.every(predicate);
+    }
+  }
+}
+
+function collectIdentifiers(node: ConditionNode, bound: Set<string>, found: Set<string>): void {
+  switch (node.type) {
+    case 'identifier':
+      if (!bound.has(node.name)) found.add(node.name);
+      return;
+    case 'member':
+      collectIdentifiers(node.object, bound, found);
+      return;
+    case 'unary':
+      collectIdentifiers(node.argument, bound, found);
+      return;
+    case 'binary':
+    case 'logical':
+      collectIdentifiers(node.left, bound, found);
+      collectIdentifiers(node.right, bound, found);
+      return;
+    case 'array_predicate':
+      collectIdentifiers(node.object, bound, found);
+      collectIdentifiers(node.body, new Set([...bound, node.param]), found);
+      return;
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+const compiledCache = new Map<string, CompiledCondition>();
+
+/**
+ * Parse a condition once; throws ConditionSyntaxError when it is not valid.
+ * Compiled conditions are cached by source text.
+ */
+export function compileCondition(source: string): CompiledCondition {
+  const cached = compiledCache.get(source);
+  if (cached) return cached;
+
+  const ast = new ConditionParser(source, tokenize(source)).parse();
+  const identifiers = new Set<string>();
+  collectIdentifiers(ast, new Set(), identifiers);
+
+  const compiled: CompiledCondition = {
+    source,
+    identifiers: Array.from(identifiers),
+    evaluate: (scope) => evaluateNode(ast, scope, {}),
+    test: (scope) => Boolean(evaluateNode(ast, scope, {})),
+  };
+  compiledCache.set(source, compiled);
+  return compiled;
+}
+
+/**
+ * Validation message for a condition, or null when it parses. For config loaders.
+ */
+export function validateCondition(source: unknown): string | null {
+  if (typeof source !== 'string') {
+    return 'Condition must be a string';
+  }
+  try {
+    compileCondition(source);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Evaluate a condition against a scope (e.g. agent state) as a boolean.
+ * Throws ConditionSyntaxError when the condition does not parse.
+ */
+export function evaluateCondition(source: string, scope: ConditionScope): boolean {
+  return compileCondition(source).test(scope);
+}
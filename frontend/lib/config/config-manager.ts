@@ -23,6 +23,7 @@ import type {
   FuelSenseConfig,
   DataPolicyConfig,
 } from '@/lib/types/config';
+import { validateCondition } from './condition-expression';
 
 // ============================================================================
 // Configuration Manager
@@ -134,32 +135,40 @@ export class ConfigManager {
    * Load business rules
    */
   async loadBusinessRules(): Promise<void> {
+    const rules: BusinessRule[] = [];
     try {
       // Load rules from business-rules directory
       const ruleFiles = loadAllYAMLFromDirectory<BusinessRule | BusinessRulesConfig>(
         'business-rules'
       );
 
-      let ruleCount = 0;
       ruleFiles.forEach((content, filename) => {
         // Handle both single rule and rules array format
         if ('rules' in content && Array.isArray(content.rules)) {
           // Multiple rules in one file
-          content.rules.forEach((rule: BusinessRule) => {
-            this.configs.set(`rule:${rule.id}`, rule);
-            ruleCount++;
-          });
+          rules.push(...content.rules);
         } else if ('id' in content) {
           // Single rule file
-          this.configs.set(`rule:${content.id}`, content);
-          ruleCount++;
+          rules.push(content);
         }
       });
-
-      console.log(`   📋 Business rules: ${ruleCount} loaded`);
     } catch (error) {
       console.log(`   📋 Business rules: 0 loaded (directory may not exist)`);
+      return;
     }
+
+    // Invalid conditions fail loading instead of never firing
+    const invalid = rules
+      .map((rule) => ({ id: rule.id, error: validateCondition(rule.rule?.condition) }))
+      .filter((result) => result.error !== null);
+    if (invalid.length > 0) {
+      throw new Error(
+        `Business rules validation failed: ${invalid.map((r) => `${r.id}: ${r.error}`).join('; ')}`
+      );
+    }
+
+    rules.forEach((rule) => this.configs.set(`rule:${rule.id}`, rule));
+    console.log(`   📋 Business rules: ${rules.length} loaded`);
   }
 
   /**
@@ -49,6 +49,15 @@ export {
   clearComponentRegistryCache,
 } from './component-loader';
 
+// Condition Expressions
+export {
+  compileCondition,
+  evaluateCondition,
+  validateCondition,
+  ConditionSyntaxError,
+} from './condition-expression';
+export type { CompiledCondition, ConditionScope } from './condition-expression';
+
 // Schemas
 export {
   agentConfigSchema,
@@ -0,0 +1,188 @@
+/**
+ * Regulatory Zone Registry
+ *
+ * Emission control areas, at-berth sulfur rules, NOx Tier III areas and scrubber washwater
+ * discharge bans, loaded from the GeoJSON files in config/regulatory-zones/. Every zone has
+ * effective dates, so callers ask for the zones in force when the ship is actually in the
+ * zone rather than today. Adding or retiring a zone is a config change.
+ *
+ * GeoJSON: one FeatureCollection per file; each Feature has an `id`, a Polygon or
+ * MultiPolygon geometry ([longitude, latitude], closed rings) and properties
+ * { name, code, description, effective_from, effective_to?, extends_from_coast_nm?, rules }.
+ * Dates are UTC days; effective_to is the last day the rules apply.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import * as turf from '@turf/turf';
+import { getConfigDir } from './yaml-loader';
+import {
+  regulatoryZoneCollectionSchema,
+  type RegulatoryZoneRules,
+} from './schemas/regulatory-zone-schema';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type { RegulatoryZoneRules } from './schemas/regulatory-zone-schema';
+
+export interface RegulatoryZone {
+  id: string;
+  name: string;
+  code: string;
+  description: string;
+  /** First day the rules apply (YYYY-MM-DD) */
+  effective_from: string;
+  /** Last day the rules apply (YYYY-MM-DD); open-ended when undefined */
+  effective_to?: string;
+  extends_from_coast_nm?: number;
+  rules: RegulatoryZoneRules;
+  /** Outer ring of each polygon, [longitude, latitude] */
+  boundaries: number[][][];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Zones with a sulfur cap while in the zone (SOx emission control areas) */
+export const isEmissionControlArea = (zone: RegulatoryZone): boolean => zone.rules.sulfur_limit_percent !== undefined;
+
+/** Zones where some scrubber types may not discharge washwater */
+export const isScrubberDischargeBan = (zone: RegulatoryZone): boolean => !!zone.rules.scrubber_discharge_ban?.length;
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export class RegulatoryZoneRegistry {
+  constructor(private readonly zones: RegulatoryZone[]) {}
+
+  /**
+   * Load and validate every *.geojson file in a directory (default config/regulatory-zones)
+   *
+   * @throws Error naming the file and feature when a file fails validation, or on duplicate zone ids
+   */
+  static fromDirectory(dir: string = join(getConfigDir(), 'regulatory-zones')): RegulatoryZoneRegistry {
+    if (!existsSync(dir)) {
+      throw new Error(`Regulatory zone directory not found: ${dir}`);
+    }
+
+    const zones: RegulatoryZone[] = [];
+    const files = readdirSync(dir).filter((file) => file.endsWith('.geojson')).sort();
+    for (const file of files) {
+      const raw = JSON.parse(readFileSync(join(dir, file), 'utf-8'));
+      const result = regulatoryZoneCollectionSchema.safeParse(raw);
+      if (!result.success) {
+        const errors = result.error.issues
+          .map((e) => `${e.path.map((p) => String(p)).join('.')}: ${e.message}`)
+          .join('; ');
+        throw new Error(`Regulatory zones validation failed (${file}): ${errors}`);
+      }
+
+      for (const feature of result.data.features) {
+        if (zones.some((zone) => zone.id === feature.id)) {
+          throw new Error(`Regulatory zones validation failed (${file}): duplicate zone id ${feature.id}`);
+        }
+        const polygons =
+          feature.geometry.type === 'Polygon' ? [feature.geometry.coordinates] : feature.geometry.coordinates;
+        zones.push({
+          id: feature.id,
+          ...feature.properties,
+          boundaries: polygons.map((rings) => rings[0]),
+        });
+      }
+    }
+
+    console.log(`🗺️ [ZONE-REGISTRY] Loaded ${zones.length} regulatory zones from ${files.length} files`);
+    return new RegulatoryZoneRegistry(zones);
+  }
+
+  /**
+   * All zones, whatever their dates
+   */
+  getAllZones(): RegulatoryZone[] {
+    return [...this.zones];
+  }
+
+  getZone(id: string): RegulatoryZone | undefined {
+    return this.zones.find((zone) => zone.id === id);
+  }
+
+  /**
+   * Whether the zone's rules apply at a moment
+   */
+  isInForce(zone: RegulatoryZone, at: Date): boolean {
+    return this.isInForceDuring(zone, at, at);
+  }
+
+  /**
+   * Whether the zone's rules apply at any moment between from and to (e.g. a zone transit)
+   */
+  isInForceDuring(zone: RegulatoryZone, from: Date, to: Date): boolean {
+    const start = Date.parse(`${zone.effective_from}T00:00:00Z`);
+    const end = zone.effective_to ? Date.parse(`${zone.effective_to}T00:00:00Z`) + DAY_MS : Infinity;
+    return to.getTime() >= start && from.getTime() < end;
+  }
+
+  /**
+   * Whether the zone's rules only start after a moment (adopted, not yet applicable)
+   */
+  isUpcoming(zone: RegulatoryZone, at: Date): boolean {
+    return Date.parse(`${zone.effective_from}T00:00:00Z`) > at.getTime();
+  }
+
+  /**
+   * Zones in force at a moment, optionally of one kind (see isEmissionControlArea / isScrubberDischargeBan)
+   */
+  getZonesInForce(at: Date = new Date(), kind?: (zone: RegulatoryZone) => boolean): RegulatoryZone[] {
+    return this.zones.filter((zone) => (!kind || kind(zone)) && this.isInForce(zone, at));
+  }
+
+  /**
+   * Emission control areas in force at a moment
+   */
+  getEmissionControlAreas(at: Date = new Date()): RegulatoryZone[] {
+    return this.getZonesInForce(at, isEmissionControlArea);
+  }
+
+  /**
+   * Scrubber discharge-ban areas in force at a moment
+   */
+  getScrubberDischargeBans(at: Date = new Date()): RegulatoryZone[] {
+    return this.getZonesInForce(at, isScrubberDischargeBan);
+  }
+
+  /**
+   * Zones containing a position, in force at a moment
+   */
+  findZonesAt(
+    position: { lat: number; lon: number },
+    at: Date = new Date(),
+    kind?: (zone: RegulatoryZone) => boolean
+  ): RegulatoryZone[] {
+    const point = turf.point([position.lon, position.lat]);
+    return this.getZonesInForce(at, kind).filter((zone) =>
+      zone.boundaries.some((ring) => turf.booleanPointInPolygon(point, turf.polygon([ring])))
+    );
+  }
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let registryInstance: RegulatoryZoneRegistry | null = null;
+
+export function getRegulatoryZoneRegistry(): RegulatoryZoneRegistry {
+  if (!registryInstance) {
+    registryInstance = RegulatoryZoneRegistry.fromDirectory();
+  }
+  return registryInstance;
+}
+
+/**
+ * Reset the singleton (useful for testing and after editing the GeoJSON files)
+ */
+export function resetRegulatoryZoneRegistry(): void {
+  registryInstance = null;
+}
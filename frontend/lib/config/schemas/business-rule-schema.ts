@@ -67,6 +67,7 @@ export const businessRuleSchema: JSONSchema = {
 
     // Status
     enabled: { type: 'boolean' },
+    featureFlag: { type: 'string' },
 
     // Metadata
     metadata: {
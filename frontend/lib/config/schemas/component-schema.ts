@@ -1,4 +1,11 @@
 import { z } from 'zod';
+import { validateCondition } from '../condition-expression';
+
+/** A render condition in the shared condition expression language */
+const renderConditionSchema = z.string().superRefine((condition, ctx) => {
+  const error = validateCondition(condition);
+  if (error) ctx.addIssue({ code: 'custom', message: error });
+});
 
 export const componentDefinitionSchema = z.object({
   id: z.string(),
@@ -7,7 +14,7 @@ export const componentDefinitionSchema = z.object({
   description: z.string(),
   required_state_fields: z.array(z.string()),
   optional_state_fields: z.array(z.string()).optional(),
-  render_conditions: z.array(z.string()).optional(),
+  render_conditions: z.array(renderConditionSchema).optional(),
   produced_by: z.array(z.string()),
   priority: z.number().int().min(0),
   tier: z.union([z.literal(0), z.literal(1), z.literal(2), z.literal(3)]),
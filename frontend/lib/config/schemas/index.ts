@@ -15,3 +15,11 @@ export {
   type ComponentDefinition,
   type ComponentRegistryConfig,
 } from './component-schema';
+export {
+  regulatoryZoneRulesSchema,
+  regulatoryZoneFeatureSchema,
+  regulatoryZoneCollectionSchema,
+  type RegulatoryZoneRules,
+  type RegulatoryZoneFeature,
+  type RegulatoryZoneCollection,
+} from './regulatory-zone-schema';
@@ -0,0 +1,64 @@
+import { z } from 'zod';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD');
+
+/** [longitude, latitude] */
+const position = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]);
+
+/** Closed ring: at least four positions, first equals last */
+const linearRing = z
+  .array(position)
+  .min(4)
+  .refine((ring) => ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1], {
+    message: 'Polygon ring must be closed (first point = last point)',
+  });
+
+const zoneGeometrySchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Polygon'), coordinates: z.array(linearRing).min(1) }),
+  z.object({ type: z.literal('MultiPolygon'), coordinates: z.array(z.array(linearRing).min(1)).min(1) }),
+]);
+
+export const regulatoryZoneRulesSchema = z
+  .object({
+    /** Maximum fuel sulfur content while in the zone (%) */
+    sulfur_limit_percent: z.number().positive().optional(),
+    /** Maximum fuel sulfur content at berth in the zone's ports (%) */
+    at_berth_sulfur_limit_percent: z.number().positive().optional(),
+    /** NOx Tier III for ships constructed (keel laid) on or after the date */
+    nox_tier_iii: z.object({ ships_constructed_from: isoDate }).optional(),
+    /** Scrubber types that may not discharge washwater (operate) in the zone */
+    scrubber_discharge_ban: z.array(z.enum(['open_loop', 'closed_loop', 'hybrid'])).min(1).optional(),
+  })
+  .refine((rules) => Object.values(rules).some((rule) => rule !== undefined), {
+    message: 'A zone needs at least one rule',
+  });
+
+export const regulatoryZoneFeatureSchema = z
+  .object({
+    type: z.literal('Feature'),
+    id: z.string().min(1),
+    properties: z.object({
+      name: z.string().min(1),
+      code: z.string().min(1),
+      description: z.string(),
+      effective_from: isoDate,
+      /** Last day the zone's rules apply; open-ended when omitted */
+      effective_to: isoDate.optional(),
+      extends_from_coast_nm: z.number().positive().optional(),
+      rules: regulatoryZoneRulesSchema,
+    }),
+    geometry: zoneGeometrySchema,
+  })
+  .refine(
+    (feature) => !feature.properties.effective_to || feature.properties.effective_to >= feature.properties.effective_from,
+    { message: 'effective_to must not be before effective_from' }
+  );
+
+export const regulatoryZoneCollectionSchema = z.object({
+  type: z.literal('FeatureCollection'),
+  features: z.array(regulatoryZoneFeatureSchema),
+});
+
+export type RegulatoryZoneRules = z.infer<typeof regulatoryZoneRulesSchema>;
+export type RegulatoryZoneFeature = z.infer<typeof regulatoryZoneFeatureSchema>;
+export type RegulatoryZoneCollection = z.infer<typeof regulatoryZoneCollectionSchema>;
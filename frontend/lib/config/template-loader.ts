@@ -8,6 +8,7 @@
 import fs from 'fs';
 import path from 'path';
 import yaml from 'js-yaml';
+import { validateCondition } from './condition-expression';
 
 // ============================================================================
 // Types
@@ -219,6 +220,10 @@ export class TemplateLoader {
       if (!section.content_source) {
         throw new Error(`Section ${section.id} missing content_source`);
       }
+      if (section.condition !== undefined) {
+        const conditionError = validateCondition(section.condition);
+        if (conditionError) throw new Error(`Section ${section.id} invalid condition: ${conditionError}`);
+      }
     });
     
     // Validate business rules
@@ -226,6 +231,8 @@ export class TemplateLoader {
       t.business_rules.forEach((rule, index) => {
         if (!rule.name) throw new Error(`Rule ${index} missing name`);
         if (!rule.condition) throw new Error(`Rule ${rule.name} missing condition`);
+        const conditionError = validateCondition(rule.condition);
+        if (conditionError) throw new Error(`Rule ${rule.name} invalid condition: ${conditionError}`);
         if (!rule.action) throw new Error(`Rule ${rule.name} missing action`);
         if (!rule.target) throw new Error(`Rule ${rule.name} missing target`);
       });
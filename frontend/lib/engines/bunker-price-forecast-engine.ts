@@ -0,0 +1,351 @@
+/**
+ * Bunker Price Forecast Engine
+ *
+ * Projects a port's bunker price for one grade from the spot quote to the vessel's
+ * estimated arrival date, with a confidence band:
+ * - candidate models fitted to the historical price series: last value (random walk),
+ *   Holt linear exponential smoothing, exponential regression and quadratic regression
+ * - model selected by error on the most recent points held out of the fit
+ * - projection anchored on the spot price (spot + modelled change from quote date to ETA)
+ * - band from the holdout RMSE, widened with the square root of the horizon
+ * - short or missing history: spot price with a volatility band
+ *
+ * Parameters come from config/engine-params/bunker-price-forecast.yaml with fallbacks.
+ */
+
+import { getConfigManager } from '@/lib/config/config-manager';
+import { bunkerDataService } from '@/lib/services/bunker-data-service';
+import type { PriceHistory } from '@/lib/types/bunker';
+import { calculateExponentialRegression, type DataPoint } from '@/lib/utils/exponential-regression';
+import { calculatePolynomialRegression } from '@/lib/utils/polynomial-regression';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '📈 [BUNKER-PRICE-FORECAST-ENGINE]';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const DEFAULT_PARAMETERS: BunkerPriceForecastParameters = {
+  lookback_days: 90,
+  min_history_points: 8,
+  holdout_points: 5,
+  holt_alpha: 0.5,
+  holt_beta: 0.1,
+  confidence_level_percent: 90,
+  confidence_z: 1.645,
+  fallback_daily_volatility_percent: 1,
+  min_band_percent: 0.5,
+  max_horizon_days: 60,
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BunkerPriceForecastParameters {
+  /** Days of price history fetched per port and grade */
+  lookback_days: number;
+  /** Fewer history points than this → spot price with a volatility band */
+  min_history_points: number;
+  /** Most recent points held out of the fit to select the model */
+  holdout_points: number;
+  /** Holt smoothing factors for level and trend (0–1) */
+  holt_alpha: number;
+  holt_beta: number;
+  /** Confidence level of the band and its normal quantile */
+  confidence_level_percent: number;
+  confidence_z: number;
+  /** Daily price volatility (%) assumed when history is too short */
+  fallback_daily_volatility_percent: number;
+  /** Minimum band half-width (% of expected price) for a forward horizon */
+  min_band_percent: number;
+  /** Horizons beyond this are capped */
+  max_horizon_days: number;
+}
+
+export type PriceForecastMethod =
+  | 'last_value'
+  | 'holt'
+  | 'exponential_regression'
+  | 'polynomial_regression'
+  | 'spot_only';
+
+export interface BunkerPriceForecastInput {
+  port: string;
+  fuel_type: string;
+  /** Latest quoted price (USD/MT) */
+  spot_price: number;
+  /** Date of the spot quote (ISO 8601); defaults to now */
+  as_of?: string;
+  /** Estimated arrival date at the port (ISO 8601) */
+  target_date: string;
+  history: PriceHistory[];
+}
+
+export interface BunkerPriceForecast {
+  port: string;
+  fuel_type: string;
+  as_of: string;
+  target_date: string;
+  horizon_days: number;
+  spot_price: number;
+  /** Expected price (USD/MT) at the target date */
+  expected_price: number;
+  lower_price: number;
+  upper_price: number;
+  confidence_level_percent: number;
+  method: PriceForecastMethod;
+  history_points: number;
+  /** RMSE (USD/MT) of the selected model on the held-out points */
+  holdout_rmse?: number;
+  warnings: string[];
+}
+
+/** Fitted model: price level at x (days since first history point) */
+type PriceModel = (x: number) => number;
+
+// ============================================================================
+// Bunker Price Forecast Engine
+// ============================================================================
+
+export class BunkerPriceForecastEngine {
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from engine params on each call
+   */
+  constructor(private overrides?: Partial<BunkerPriceForecastParameters>) {}
+
+  /**
+   * Resolve parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): BunkerPriceForecastParameters {
+    const p = getConfigManager().getEngineParams('bunker_price_forecast')?.parameters ?? {};
+    const resolve = (key: keyof BunkerPriceForecastParameters) =>
+      this.overrides?.[key] ?? p[key] ?? DEFAULT_PARAMETERS[key];
+    return {
+      lookback_days: resolve('lookback_days'),
+      min_history_points: resolve('min_history_points'),
+      holdout_points: resolve('holdout_points'),
+      holt_alpha: resolve('holt_alpha'),
+      holt_beta: resolve('holt_beta'),
+      confidence_level_percent: resolve('confidence_level_percent'),
+      confidence_z: resolve('confidence_z'),
+      fallback_daily_volatility_percent: resolve('fallback_daily_volatility_percent'),
+      min_band_percent: resolve('min_band_percent'),
+      max_horizon_days: resolve('max_horizon_days'),
+    };
+  }
+
+  /**
+   * Fetch the port's price history (BunkerDataService) and forecast the price at arrival.
+   * A failed history fetch falls back to the spot price with a volatility band.
+   */
+  async forecastAtArrival(
+    port: string,
+    fuelType: string,
+    spotPrice: number,
+    targetDate: string,
+    asOf?: string
+  ): Promise<BunkerPriceForecast> {
+    const params = this.getParameters();
+    let history: PriceHistory[] = [];
+    try {
+      history = await bunkerDataService.fetchHistoricalBunkerPrices(port, fuelType, params.lookback_days);
+    } catch (error) {
+      console.warn(
+        `${LOG_PREFIX} Price history unavailable for ${port} ${fuelType}:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    return this.forecast({
+      port,
+      fuel_type: fuelType,
+      spot_price: spotPrice,
+      as_of: asOf,
+      target_date: targetDate,
+      history,
+    });
+  }
+
+  /**
+   * Forecast the price at the target date from the spot price and a price history.
+   */
+  forecast(input: BunkerPriceForecastInput): BunkerPriceForecast {
+    const params = this.getParameters();
+    const warnings: string[] = [];
+
+    const asOf = input.as_of ? new Date(input.as_of) : new Date();
+    const target = new Date(input.target_date);
+    if (Number.isNaN(target.getTime())) {
+      throw new Error(`Invalid forecast target date: ${input.target_date}`);
+    }
+    let horizonDays = Math.max(0, (target.getTime() - asOf.getTime()) / MS_PER_DAY);
+    if (horizonDays > params.max_horizon_days) {
+      warnings.push(`Horizon of ${horizonDays.toFixed(0)} days capped at ${params.max_horizon_days} days`);
+      horizonDays = params.max_horizon_days;
+    }
+
+    const { points, origin } = this.toSeries(input.history);
+    const base = {
+      port: input.port,
+      fuel_type: input.fuel_type,
+      as_of: asOf.toISOString(),
+      target_date: target.toISOString(),
+      horizon_days: horizonDays,
+      spot_price: input.spot_price,
+      confidence_level_percent: params.confidence_level_percent,
+      history_points: points.length,
+    };
+
+    if (points.length < params.min_history_points) {
+      warnings.push(
+        `${points.length} price history point(s) (< ${params.min_history_points}); using spot price with a volatility band`
+      );
+      const halfWidth = this.bandHalfWidth(
+        params.confidence_z *
+          input.spot_price *
+          (params.fallback_daily_volatility_percent / 100) *
+          Math.sqrt(horizonDays),
+        input.spot_price,
+        horizonDays,
+        params
+      );
+      return {
+        ...base,
+        expected_price: input.spot_price,
+        lower_price: Math.max(0, input.spot_price - halfWidth),
+        upper_price: input.spot_price + halfWidth,
+        method: 'spot_only',
+        warnings,
+      };
+    }
+
+    // Select the model by error on the most recent points, each projected from the last fitted point
+    const holdoutCount = Math.max(1, Math.min(params.holdout_points, Math.floor(points.length / 3)));
+    const train = points.slice(0, points.length - holdoutCount);
+    const holdout = points.slice(points.length - holdoutCount);
+    const lastTrain = train[train.length - 1];
+    const meanHoldoutHorizon =
+      holdout.reduce((sum, p) => sum + (p.x - lastTrain.x), 0) / holdout.length;
+
+    let best: { method: Exclude<PriceForecastMethod, 'spot_only'>; rmse: number } | null = null;
+    for (const method of ['last_value', 'holt', 'exponential_regression', 'polynomial_regression'] as const) {
+      const model = this.fitModel(method, train, params);
+      if (!model) continue;
+      const squaredErrors = holdout.map((p) => (lastTrain.y + model(p.x) - model(lastTrain.x) - p.y) ** 2);
+      const rmse = Math.sqrt(squaredErrors.reduce((a, b) => a + b, 0) / squaredErrors.length);
+      if (Number.isFinite(rmse) && (!best || rmse < best.rmse)) {
+        best = { method, rmse };
+      }
+    }
+    const selected = best ?? { method: 'last_value' as const, rmse: 0 };
+
+    // Refit on the full history and project the change from the quote date to arrival
+    const model = this.fitModel(selected.method, points, params) ?? (() => 0);
+    const xAsOf = (asOf.getTime() - origin) / MS_PER_DAY;
+    const change = model(xAsOf + horizonDays) - model(xAsOf);
+    const expected = Math.max(0, input.spot_price + (Number.isFinite(change) ? change : 0));
+
+    const horizonScale = meanHoldoutHorizon > 0 ? Math.sqrt(horizonDays / meanHoldoutHorizon) : 0;
+    const halfWidth = this.bandHalfWidth(
+      params.confidence_z * selected.rmse * horizonScale,
+      expected,
+      horizonDays,
+      params
+    );
+
+    console.log(
+      `${LOG_PREFIX} ${input.port} ${input.fuel_type}: $${input.spot_price.toFixed(0)} → $${expected.toFixed(0)}/MT ` +
+        `in ${horizonDays.toFixed(1)} days (${selected.method}, ±$${halfWidth.toFixed(0)})`
+    );
+
+    return {
+      ...base,
+      expected_price: expected,
+      lower_price: Math.max(0, expected - halfWidth),
+      upper_price: expected + halfWidth,
+      method: selected.method,
+      holdout_rmse: selected.rmse,
+      warnings,
+    };
+  }
+
+  /**
+   * Price history as (days since first point, price), sorted by date; one point per date.
+   * origin is the time (ms) of the first point.
+   */
+  private toSeries(history: PriceHistory[]): { points: DataPoint[]; origin: number } {
+    const byDate = new Map<number, number>();
+    for (const h of history) {
+      const time = new Date(h.date).getTime();
+      if (Number.isFinite(time) && Number.isFinite(h.price) && h.price > 0) {
+        byDate.set(time, h.price);
+      }
+    }
+    const times = [...byDate.keys()].sort((a, b) => a - b);
+    if (times.length === 0) return { points: [], origin: 0 };
+    return {
+      points: times.map((t) => ({ x: (t - times[0]) / MS_PER_DAY, y: byDate.get(t) as number })),
+      origin: times[0],
+    };
+  }
+
+  private fitModel(
+    method: Exclude<PriceForecastMethod, 'spot_only'>,
+    points: DataPoint[],
+    params: BunkerPriceForecastParameters
+  ): PriceModel | null {
+    switch (method) {
+      case 'last_value':
+        return () => points[points.length - 1].y;
+      case 'holt':
+        return this.fitHolt(points, params.holt_alpha, params.holt_beta);
+      case 'exponential_regression': {
+        const fit = calculateExponentialRegression(points);
+        return fit ? (x) => fit.a * Math.exp(fit.b * x) : null;
+      }
+      case 'polynomial_regression': {
+        const fit = calculatePolynomialRegression(points);
+        if (!fit) return null;
+        const [a, b, c] = fit.coefficients;
+        return (x) => a * x * x + b * x + c;
+      }
+    }
+  }
+
+  /**
+   * Holt linear exponential smoothing over the observations in order; the trend per
+   * observation is converted to per day with the mean spacing of the series.
+   */
+  private fitHolt(points: DataPoint[], alpha: number, beta: number): PriceModel | null {
+    if (points.length < 2) return null;
+    let level = points[0].y;
+    let trend = points[1].y - points[0].y;
+    for (let i = 1; i < points.length; i++) {
+      const previousLevel = level;
+      level = alpha * points[i].y + (1 - alpha) * (level + trend);
+      trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    }
+    const last = points[points.length - 1];
+    const spacingDays = (last.x - points[0].x) / (points.length - 1);
+    if (spacingDays <= 0) return null;
+    return (x) => level + ((x - last.x) / spacingDays) * trend;
+  }
+
+  /**
+   * Band half-width with the configured minimum for a forward horizon
+   */
+  private bandHalfWidth(
+    halfWidth: number,
+    expectedPrice: number,
+    horizonDays: number,
+    params: BunkerPriceForecastParameters
+  ): number {
+    if (horizonDays <= 0) return 0;
+    return Math.max(halfWidth, expectedPrice * (params.min_band_percent / 100));
+  }
+}
+
+// Export singleton instance
+export const bunkerPriceForecastEngine = new BunkerPriceForecastEngine();
@@ -0,0 +1,274 @@
+/**
+ * Business Rules Engine
+ *
+ * Evaluates the YAML rules in config/business-rules/ against agent state at runtime.
+ * A rule runs for an agent when it is enabled, its feature flag (if any) is on, the agent
+ * is listed in appliesTo (or appliesTo contains 'all') and its timing matches
+ * (pre_execution, post_execution or always).
+ *
+ * Conditions are in the shared condition expression language and reference facts derived
+ * from state (see buildFacts), e.g. "rob_after_bunker < (total_consumption * 0.15)". A rule
+ * whose condition references a fact that is not available yet is skipped and recorded as
+ * such in the trace.
+ *
+ * Actions: add_warning / add_info / require_approval attach notices to the response;
+ * block_operation with blocking severity blocks the agent (see withBusinessRules).
+ */
+
+import type { MultiAgentState } from '@/lib/multi-agent/state';
+import type { BusinessRule, RuleAction, RuleSeverity } from '@/lib/types/config';
+import { getConfigManager } from '@/lib/config/config-manager';
+import { compileCondition, type CompiledCondition } from '@/lib/config/condition-expression';
+import { isEUETSPort } from './eu-ets-engine';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '📏 [BUSINESS-RULES-ENGINE]';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RuleTiming = 'pre_execution' | 'post_execution';
+
+export type RuleOutcomeStatus =
+  | 'fired'
+  | 'not_fired'
+  | 'skipped_missing_facts'
+  | 'error';
+
+export type RuleFacts = Record<string, number | undefined>;
+
+export interface BusinessRuleOutcome {
+  rule_id: string;
+  rule_name: string;
+  agent_id: string;
+  timing: RuleTiming;
+  status: RuleOutcomeStatus;
+  action: RuleAction;
+  severity: RuleSeverity;
+  /** Notice shown to the user when the rule fired */
+  message?: string;
+  /** Fact values the condition was evaluated with */
+  facts_used?: Record<string, number>;
+  /** Facts referenced by the condition but not available */
+  missing_facts?: string[];
+  error?: string;
+  correlation_id?: string;
+  evaluated_at: string;
+}
+
+export interface BusinessRulesEvaluation {
+  agent_id: string;
+  timing: RuleTiming;
+  /** One entry per applicable rule, in priority order */
+  outcomes: BusinessRuleOutcome[];
+  /** True when a fired rule blocks the agent */
+  blocked: boolean;
+  block_reason?: string;
+}
+
+export interface RuleNotices {
+  warnings: string[];
+  infos: string[];
+  approvals: string[];
+}
+
+// ============================================================================
+// Business Rules Engine
+// ============================================================================
+
+export class BusinessRulesEngine {
+  /**
+   * @param rulesOverride - Fixed rule set (e.g. tests); when omitted, rules are read from config on each call
+   * @param isFeatureEnabled - Feature flag lookup (default: ConfigManager.isFeatureEnabled)
+   */
+  constructor(
+    private rulesOverride?: BusinessRule[],
+    private isFeatureEnabled: (flagId: string) => boolean = (flagId) =>
+      getConfigManager().isFeatureEnabled(flagId)
+  ) {}
+
+  /**
+   * Rules that run for an agent at the given timing, highest priority first
+   */
+  public getApplicableRules(agentId: string, timing: RuleTiming): BusinessRule[] {
+    const rules = this.rulesOverride ?? getConfigManager().getAllBusinessRules();
+    return rules
+      .filter((rule) => rule.enabled)
+      .filter((rule) => !rule.featureFlag || this.isFeatureEnabled(rule.featureFlag))
+      .filter((rule) => {
+        const appliesTo = rule.appliesTo ?? ['all'];
+        return appliesTo.includes('all') || appliesTo.includes(agentId);
+      })
+      .filter((rule) => (rule.timing ?? 'post_execution') === timing || rule.timing === 'always')
+      .sort((a, b) => a.rule.priority - b.rule.priority);
+  }
+
+  /**
+   * Evaluate all applicable rules for an agent against state
+   */
+  public evaluate(agentId: string, timing: RuleTiming, state: MultiAgentState): BusinessRulesEvaluation {
+    const rules = this.getApplicableRules(agentId, timing);
+    if (rules.length === 0) {
+      return { agent_id: agentId, timing, outcomes: [], blocked: false };
+    }
+
+    const facts = this.buildFacts(state);
+    const outcomes = rules.map((rule) => this.evaluateRule(rule, agentId, timing, facts, state.correlation_id));
+    const blocking = outcomes.find(
+      (o) => o.status === 'fired' && o.action === 'block_operation' && o.severity === 'blocking'
+    );
+
+    const fired = outcomes.filter((o) => o.status === 'fired').map((o) => o.rule_id);
+    console.log(
+      `${LOG_PREFIX} ${agentId} ${timing}: ${outcomes.length} rules evaluated, fired: ${fired.join(', ') || 'none'}` +
+        (blocking ? ` — BLOCKED by ${blocking.rule_id}` : '')
+    );
+
+    return {
+      agent_id: agentId,
+      timing,
+      outcomes,
+      blocked: blocking !== undefined,
+      block_reason: blocking?.message,
+    };
+  }
+
+  /**
+   * Derive the facts rule conditions are written against from agent state
+   */
+  public buildFacts(state: MultiAgentState): RuleFacts {
+    const bunker = state.bunker_analysis;
+    const eca = state.compliance_data?.eca_zones;
+    const profile = state.vessel_profile;
+    const robTracking = state.rob_tracking;
+
+    const vlsfoPrices = Object.values(state.port_prices?.prices_by_port ?? {})
+      .flat()
+      .filter((p) => p.price.fuel_type === 'VLSFO')
+      .map((p) => p.price.price_per_mt);
+    const bestPortPrice = bunker?.best_option
+      ? state.port_prices?.prices_by_port[bunker.best_option.port_code]?.find((p) => p.price.fuel_type === 'VLSFO')
+          ?.price.price_per_mt
+      : undefined;
+
+    const portCalls = [state.route_data?.origin_port_code, state.route_data?.destination_port_code].filter(
+      (code): code is string => typeof code === 'string' && code.length >= 2
+    );
+    const portWeather = state.port_weather_status ?? [];
+
+    return {
+      // Bunker quantities and costs
+      total_consumption:
+        bunker?.fuel_requirement?.voyageFuelConsumption ?? state.weather_consumption?.weather_adjusted_consumption_mt,
+      rob_after_bunker: bunker?.vessel_context?.rob_after_bunkering ?? bunker?.recommended_ports?.[0]?.rob_after_mt,
+      total_bunker_cost: bunker?.best_option?.total_cost_usd,
+      deviation_cost: bunker?.best_option?.deviation_cost_usd,
+      fuel_savings: bunker?.max_savings_usd,
+      fuel_price: bestPortPrice,
+      average_regional_price:
+        vlsfoPrices.length > 0 ? vlsfoPrices.reduce((sum, p) => sum + p, 0) / vlsfoPrices.length : undefined,
+
+      // ROB
+      min_rob_during_voyage: robTracking
+        ? robTracking.minimum_rob_reached.VLSFO + robTracking.minimum_rob_reached.LSMGO
+        : undefined,
+      daily_consumption: profile ? profile.consumption_vlsfo_per_day + profile.consumption_lsmgo_per_day : undefined,
+
+      // Compliance
+      eca_transit_distance: eca?.total_eca_distance_nm,
+      required_mgo: eca?.fuel_requirements.mgo_with_safety_margin_mt,
+      mgo_quantity: robTracking?.waypoints[0]?.rob_after_action.LSMGO ?? profile?.initial_rob.LSMGO,
+      eu_port_calls: state.route_data
+        ? portCalls.filter((code) => isEUETSPort(code)).length
+        : undefined,
+      projected_cii_impact: state.cii_rating?.projection?.impact_percent,
+
+      // Weather at bunker ports
+      wind_speed:
+        portWeather.length > 0
+          ? Math.max(...portWeather.map((p) => p.weather_during_bunkering.max_wind_speed_kt))
+          : undefined,
+      wave_height:
+        portWeather.length > 0
+          ? Math.max(...portWeather.map((p) => p.weather_during_bunkering.max_wave_height_m))
+          : undefined,
+    };
+  }
+
+  /**
+   * Group fired outcomes into user-facing notices
+   */
+  public static summarize(outcomes: BusinessRuleOutcome[]): RuleNotices {
+    const notices: RuleNotices = { warnings: [], infos: [], approvals: [] };
+    for (const outcome of outcomes) {
+      if (outcome.status !== 'fired' || !outcome.message) continue;
+      if (outcome.action === 'add_info') notices.infos.push(outcome.message);
+      else if (outcome.action === 'require_approval') notices.approvals.push(outcome.message);
+      else notices.warnings.push(outcome.message);
+    }
+    return notices;
+  }
+
+  /**
+   * Evaluate one rule's condition against facts
+   */
+  private evaluateRule(
+    rule: BusinessRule,
+    agentId: string,
+    timing: RuleTiming,
+    facts: RuleFacts,
+    correlationId?: string
+  ): BusinessRuleOutcome {
+    const base = {
+      rule_id: rule.id,
+      rule_name: rule.name,
+      agent_id: agentId,
+      timing,
+      action: rule.rule.action,
+      severity: rule.rule.severity,
+      correlation_id: correlationId,
+      evaluated_at: new Date().toISOString(),
+    };
+
+    const condition = rule.rule.condition;
+    let compiled: CompiledCondition;
+    try {
+      compiled = compileCondition(condition);
+    } catch (error) {
+      console.warn(`${LOG_PREFIX} Rule ${rule.id} condition failed: ${condition}`, error);
+      return {
+        ...base,
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const identifiers = compiled.identifiers;
+    const missing = identifiers.filter((id) => typeof facts[id] !== 'number' || Number.isNaN(facts[id]));
+    if (missing.length > 0) {
+      return { ...base, status: 'skipped_missing_facts', missing_facts: missing };
+    }
+
+    const factsUsed: Record<string, number> = {};
+    for (const id of identifiers) factsUsed[id] = facts[id] as number;
+
+    if (!compiled.test(factsUsed)) {
+      return { ...base, status: 'not_fired', facts_used: factsUsed };
+    }
+
+    const values = identifiers.map((id) => `${id}=${Number(factsUsed[id].toFixed(2))}`).join(', ');
+    return {
+      ...base,
+      status: 'fired',
+      facts_used: factsUsed,
+      message: `${rule.name}: ${rule.description}${values ? ` (${values})` : ''}`,
+    };
+  }
+}
+
+// Export singleton instance
+export const businessRulesEngine = new BusinessRulesEngine();
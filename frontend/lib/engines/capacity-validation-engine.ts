@@ -1,8 +1,244 @@
 /**
  * Capacity Validation Engine
- * TODO: Implement in Prompt 11
+ *
+ * Checks proposed bunker quantities against vessel tank capacity per fuel grade.
+ * Usable capacity is the nominal tank capacity reduced by a fill limit (tanks are
+ * never filled to 100%); fuel below the unpumpable level is not counted as usable ROB.
+ *
+ * Limits come from config/engine-params/capacity-validation.yaml with fallbacks.
  */
 
+import type { BunkerAnalysis } from '@/lib/multi-agent/state';
+import { getConfigManager } from '@/lib/config/config-manager';
+import type { FuelQuantity } from './rob-tracking-engine';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '🛢️ [CAPACITY-ENGINE]';
+const DEFAULT_MAX_FILL_PERCENT = 98;
+const DEFAULT_UNPUMPABLE_PERCENT = 2;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CapacityFuelGrade = keyof FuelQuantity;
+
+export interface CapacityLimits {
+  /** Maximum fill level as % of nominal tank capacity */
+  max_fill_percent: number;
+  /** Unpumpable fuel as % of nominal tank capacity */
+  unpumpable_percent: number;
+}
+
+export interface GradeCapacityCheck {
+  fuel_type: CapacityFuelGrade;
+  nominal_capacity_mt: number;
+  /** Nominal capacity × fill limit */
+  max_fill_mt: number;
+  unpumpable_mt: number;
+  rob_before_mt: number;
+  /** Space left before reaching the fill limit */
+  available_space_mt: number;
+  requested_mt: number;
+  /** Requested quantity capped to available space */
+  capped_mt: number;
+  rob_after_mt: number;
+  /** ROB after bunkering minus unpumpable fuel */
+  usable_rob_after_mt: number;
+  within_capacity: boolean;
+}
+
+export interface CapacityViolation {
+  fuel_type: CapacityFuelGrade;
+  location?: string;
+  issue: string;
+  requested_mt: number;
+  available_space_mt: number;
+  excess_mt: number;
+}
+
+export interface CapacityValidationInput {
+  vessel_capacity: FuelQuantity;
+  current_rob: FuelQuantity;
+  /** Quantity to bunker; only grades present are validated */
+  requested_quantity: Partial<FuelQuantity>;
+  /** Port or waypoint name used in violation messages */
+  location?: string;
+}
+
+export interface CapacityValidationOutput {
+  location?: string;
+  grades: GradeCapacityCheck[];
+  violations: CapacityViolation[];
+  /** Quantity that fits per grade (0 for grades not requested) */
+  capped_quantity: FuelQuantity;
+  within_capacity: boolean;
+  limits_applied: CapacityLimits;
+}
+
+export type RecommendedBunkerPort = NonNullable<BunkerAnalysis['recommended_ports']>[number];
+
+export interface RecommendedPortsCapacityOutput {
+  /** Recommended ports with bunker quantity and ROB after bunkering reshaped to fit */
+  ports: RecommendedBunkerPort[];
+  violations: CapacityViolation[];
+  within_capacity: boolean;
+  limits_applied: CapacityLimits;
+}
+
+// ============================================================================
+// Capacity Validation Engine
+// ============================================================================
+
 export class CapacityValidationEngine {
-  // TODO: Implement
+  /**
+   * @param overrides - Fixed limits (e.g. tests); when omitted, limits are read from engine params on each call
+   */
+  constructor(private overrides?: Partial<CapacityLimits>) {}
+
+  /**
+   * Resolve fill limit and unpumpable allowance (overrides → YAML → defaults)
+   */
+  public getLimits(): CapacityLimits {
+    const p = getConfigManager().getEngineParams('capacity_validation')?.parameters;
+    return {
+      max_fill_percent: this.overrides?.max_fill_percent ?? p?.max_fill_percent ?? DEFAULT_MAX_FILL_PERCENT,
+      unpumpable_percent: this.overrides?.unpumpable_percent ?? p?.unpumpable_percent ?? DEFAULT_UNPUMPABLE_PERCENT,
+    };
+  }
+
+  /**
+   * Space left per grade before reaching the fill limit (quantity for a "fill up" stem)
+   */
+  public getAvailableSpace(vesselCapacity: FuelQuantity, currentROB: FuelQuantity): FuelQuantity {
+    const limits = this.getLimits();
+    return {
+      VLSFO: this.checkGrade('VLSFO', vesselCapacity.VLSFO, currentROB.VLSFO, 0, limits).available_space_mt,
+      LSMGO: this.checkGrade('LSMGO', vesselCapacity.LSMGO, currentROB.LSMGO, 0, limits).available_space_mt,
+    };
+  }
+
+  /**
+   * Validate a bunker quantity per fuel grade and cap it to the usable space
+   */
+  public validateBunkerQuantity(input: CapacityValidationInput): CapacityValidationOutput {
+    const limits = this.getLimits();
+    const grades: GradeCapacityCheck[] = [];
+    const violations: CapacityViolation[] = [];
+    const capped: FuelQuantity = { VLSFO: 0, LSMGO: 0 };
+
+    for (const fuelType of Object.keys(input.requested_quantity) as CapacityFuelGrade[]) {
+      const requested = Math.max(0, input.requested_quantity[fuelType] ?? 0);
+      const check = this.checkGrade(
+        fuelType,
+        input.vessel_capacity[fuelType] ?? 0,
+        input.current_rob[fuelType] ?? 0,
+        requested,
+        limits
+      );
+      grades.push(check);
+      capped[fuelType] = check.capped_mt;
+
+      if (!check.within_capacity) {
+        const excess = requested - check.available_space_mt;
+        violations.push({
+          fuel_type: fuelType,
+          location: input.location,
+          issue:
+            `${fuelType} bunker of ${requested.toFixed(0)} MT exceeds usable tank space of ` +
+            `${check.available_space_mt.toFixed(0)} MT (${limits.max_fill_percent}% fill limit)`,
+          requested_mt: requested,
+          available_space_mt: check.available_space_mt,
+          excess_mt: excess,
+        });
+        console.warn(
+          `${LOG_PREFIX} ${input.location ?? 'Bunker'}: ${fuelType} capped ${requested.toFixed(1)} → ${check.capped_mt.toFixed(1)} MT`
+        );
+      }
+    }
+
+    return {
+      location: input.location,
+      grades,
+      violations,
+      capped_quantity: capped,
+      within_capacity: violations.length === 0,
+      limits_applied: limits,
+    };
+  }
+
+  /**
+   * Validate BunkerAnalysis.recommended_ports for a single fuel grade.
+   * Each port keeps its own ROB before bunkering; quantities that do not fit are capped
+   * and rob_after_mt is recomputed so over-capacity options are never shown as-is.
+   */
+  public validateRecommendedPorts(
+    ports: RecommendedBunkerPort[],
+    vesselCapacity: FuelQuantity,
+    fuelType: CapacityFuelGrade = 'VLSFO'
+  ): RecommendedPortsCapacityOutput {
+    const violations: CapacityViolation[] = [];
+
+    const reshaped = ports.map((port) => {
+      const result = this.validateBunkerQuantity({
+        vessel_capacity: vesselCapacity,
+        current_rob: { VLSFO: 0, LSMGO: 0, [fuelType]: port.rob_before_mt },
+        requested_quantity: { [fuelType]: port.bunker_quantity_mt },
+        location: port.port_name,
+      });
+      violations.push(...result.violations);
+      const check = result.grades[0];
+      return {
+        ...port,
+        bunker_quantity_mt: check.capped_mt,
+        rob_after_mt: check.rob_after_mt,
+        ...(result.within_capacity ? {} : { capacity_capped: true }),
+      };
+    });
+
+    return {
+      ports: reshaped,
+      violations,
+      within_capacity: violations.length === 0,
+      limits_applied: this.getLimits(),
+    };
+  }
+
+  /**
+   * Capacity check for one fuel grade
+   */
+  private checkGrade(
+    fuelType: CapacityFuelGrade,
+    nominalCapacity: number,
+    robBefore: number,
+    requested: number,
+    limits: CapacityLimits
+  ): GradeCapacityCheck {
+    const maxFill = Math.max(0, nominalCapacity) * (limits.max_fill_percent / 100);
+    const unpumpable = Math.max(0, nominalCapacity) * (limits.unpumpable_percent / 100);
+    const rob = Math.max(0, robBefore);
+    const availableSpace = Math.max(0, maxFill - rob);
+    const cappedQty = Math.min(requested, availableSpace);
+    const robAfter = rob + cappedQty;
+
+    return {
+      fuel_type: fuelType,
+      nominal_capacity_mt: nominalCapacity,
+      max_fill_mt: maxFill,
+      unpumpable_mt: unpumpable,
+      rob_before_mt: rob,
+      available_space_mt: availableSpace,
+      requested_mt: requested,
+      capped_mt: cappedQty,
+      rob_after_mt: robAfter,
+      usable_rob_after_mt: Math.max(0, robAfter - unpumpable),
+      within_capacity: requested <= availableSpace,
+    };
+  }
 }
+
+// Export singleton instance
+export const capacityValidationEngine = new CapacityValidationEngine();
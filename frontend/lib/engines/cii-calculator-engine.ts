@@ -0,0 +1,514 @@
+/**
+ * CII Calculator Engine
+ *
+ * IMO Carbon Intensity Indicator (MARPOL Annex VI, Reg. 28):
+ * - attained CII = Σ(fuel × CO2 factor) / (capacity × distance) in gCO2/capacity·nm
+ *   (AER with DWT for cargo ships, cgDIST with GT for vehicle carriers, ro-ro passenger and cruise ships)
+ * - reference CII = a × capacity^(-c) by ship type and size band (G2)
+ * - required CII = (1 − Z/100) × reference, Z = reduction factor for the rating year (G3)
+ * - rating A–E from attained / required against the d1–d4 boundary vector (G4)
+ *
+ * Also projects the end-of-year rating with and without a planned voyage, so chartering
+ * decisions can account for the voyage's CII impact.
+ *
+ * Reduction factors come from config/engine-params/cii-rating.yaml with fallbacks.
+ */
+
+import { getConfigManager } from '@/lib/config/config-manager';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '📉 [CII-ENGINE]';
+
+const DEFAULT_PARAMETERS: CIIParameters = {
+  reduction_factors: {
+    2023: 5,
+    2024: 7,
+    2025: 9,
+    2026: 11,
+    2027: 13.625,
+    2028: 16.25,
+    2029: 18.875,
+    2030: 21.5,
+  },
+  min_days_for_extrapolation: 30,
+};
+
+/** Fuel-to-CO2 conversion factors Cf (t CO2 / t fuel), IMO MEPC.364(79) */
+export const CO2_EMISSION_FACTORS: Record<CIIFuelGrade, number> = {
+  HSFO: 3.114,
+  VLSFO: 3.151,
+  ULSFO: 3.151,
+  LSMGO: 3.206,
+  MGO: 3.206,
+  MDO: 3.206,
+  LNG: 2.75,
+};
+
+interface ShipTypeBand {
+  /** Band applies to capacity >= min_capacity */
+  min_capacity: number;
+  /** Capacity used in the reference line is capped at this value (when set) */
+  capacity_cap?: number;
+  /** Capacity used in the reference line is raised to this value (when set) */
+  capacity_floor?: number;
+  a: number;
+  c: number;
+  /** exp(d1..d4) rating boundary vector */
+  boundaries: [number, number, number, number];
+}
+
+interface ShipTypeDefinition {
+  capacity_metric: 'dwt' | 'gt';
+  /** Bands ordered by descending min_capacity */
+  bands: ShipTypeBand[];
+}
+
+/** Reference line (G2) and rating boundaries (G4) by ship type */
+const SHIP_TYPES: Record<CIIShipType, ShipTypeDefinition> = {
+  bulk_carrier: {
+    capacity_metric: 'dwt',
+    bands: [{ min_capacity: 0, capacity_cap: 279000, a: 4745, c: 0.622, boundaries: [0.86, 0.94, 1.06, 1.18] }],
+  },
+  gas_carrier: {
+    capacity_metric: 'dwt',
+    bands: [
+      { min_capacity: 65000, a: 14405e7, c: 2.071, boundaries: [0.81, 0.91, 1.12, 1.44] },
+      { min_capacity: 0, a: 8104, c: 0.639, boundaries: [0.85, 0.95, 1.06, 1.25] },
+    ],
+  },
+  tanker: {
+    capacity_metric: 'dwt',
+    bands: [{ min_capacity: 0, a: 5247, c: 0.61, boundaries: [0.82, 0.93, 1.08, 1.28] }],
+  },
+  container_ship: {
+    capacity_metric: 'dwt',
+    bands: [{ min_capacity: 0, a: 1984, c: 0.489, boundaries: [0.83, 0.94, 1.07, 1.19] }],
+  },
+  general_cargo: {
+    capacity_metric: 'dwt',
+    bands: [
+      { min_capacity: 20000, a: 31948, c: 0.792, boundaries: [0.83, 0.94, 1.06, 1.19] },
+      { min_capacity: 0, a: 588, c: 0.3885, boundaries: [0.83, 0.94, 1.06, 1.19] },
+    ],
+  },
+  refrigerated_cargo: {
+    capacity_metric: 'dwt',
+    bands: [{ min_capacity: 0, a: 4600, c: 0.557, boundaries: [0.78, 0.91, 1.07, 1.2] }],
+  },
+  combination_carrier: {
+    capacity_metric: 'dwt',
+    bands: [{ min_capacity: 0, a: 5119, c: 0.622, boundaries: [0.87, 0.96, 1.06, 1.14] }],
+  },
+  lng_carrier: {
+    capacity_metric: 'dwt',
+    bands: [
+      { min_capacity: 100000, a: 9.827, c: 0, boundaries: [0.89, 0.98, 1.06, 1.13] },
+      { min_capacity: 0, capacity_floor: 65000, a: 14479e10, c: 2.673, boundaries: [0.78, 0.92, 1.1, 1.37] },
+    ],
+  },
+  ro_ro_cargo: {
+    capacity_metric: 'dwt',
+    bands: [{ min_capacity: 0, a: 10952, c: 0.637, boundaries: [0.66, 0.9, 1.11, 1.37] }],
+  },
+  // Ro-ro cargo ship (vehicle carrier): its own reference line on GT
+  ro_ro_vehicle: {
+    capacity_metric: 'gt',
+    bands: [
+      { min_capacity: 30000, capacity_cap: 57700, a: 3627, c: 0.59, boundaries: [0.86, 0.94, 1.06, 1.16] },
+      { min_capacity: 0, a: 330, c: 0.329, boundaries: [0.86, 0.94, 1.06, 1.16] },
+    ],
+  },
+  ro_ro_passenger: {
+    capacity_metric: 'gt',
+    bands: [{ min_capacity: 0, a: 7540, c: 0.587, boundaries: [0.72, 0.9, 1.12, 1.41] }],
+  },
+  cruise_passenger: {
+    capacity_metric: 'gt',
+    bands: [{ min_capacity: 0, a: 930, c: 0.383, boundaries: [0.87, 0.95, 1.06, 1.16] }],
+  },
+};
+
+/** Vessel type strings (lowercased) → CII ship type; first match wins */
+const SHIP_TYPE_PATTERNS: Array<[RegExp, CIIShipType]> = [
+  [/lng/, 'lng_carrier'],
+  [/lpg|gas carrier/, 'gas_carrier'],
+  [/bulk/, 'bulk_carrier'],
+  [/container/, 'container_ship'],
+  [/tanker|crude|product|chemical/, 'tanker'],
+  [/reefer|refrigerated/, 'refrigerated_cargo'],
+  [/combination|obo/, 'combination_carrier'],
+  [/cruise/, 'cruise_passenger'],
+  [/ro-?ro passenger|ro-?pax|ferry/, 'ro_ro_passenger'],
+  [/vehicle|car carrier|pctc|\bpcc\b/, 'ro_ro_vehicle'],
+  [/ro-?ro/, 'ro_ro_cargo'],
+  [/general cargo|multi-?purpose|cargo/, 'general_cargo'],
+];
+
+const RATINGS: CIIRatingLetter[] = ['A', 'B', 'C', 'D', 'E'];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CIIShipType =
+  | 'bulk_carrier'
+  | 'gas_carrier'
+  | 'tanker'
+  | 'container_ship'
+  | 'general_cargo'
+  | 'refrigerated_cargo'
+  | 'combination_carrier'
+  | 'lng_carrier'
+  | 'ro_ro_cargo'
+  | 'ro_ro_vehicle'
+  | 'ro_ro_passenger'
+  | 'cruise_passenger';
+
+export type CIIFuelGrade = 'HSFO' | 'VLSFO' | 'ULSFO' | 'LSMGO' | 'MGO' | 'MDO' | 'LNG';
+
+export type CIIRatingLetter = 'A' | 'B' | 'C' | 'D' | 'E';
+
+export type FuelConsumption = Partial<Record<CIIFuelGrade, number>>;
+
+export interface CIIParameters {
+  /** Reduction factor Z (%) by rating year */
+  reduction_factors: Record<number, number>;
+  min_days_for_extrapolation: number;
+}
+
+/** One noon report period: distance sailed and fuel burnt since the previous report */
+export interface CIIReportRecord {
+  date: string;
+  distance_nm: number;
+  fuel_consumed_mt: FuelConsumption;
+}
+
+export interface CIIPlannedVoyage {
+  distance_nm: number;
+  duration_days: number;
+  fuel_consumed_mt: FuelConsumption;
+}
+
+export interface CIIInput {
+  /** Vessel type as stored in vessel master data (e.g. 'Bulk Carrier') */
+  ship_type: string;
+  dwt: number;
+  /** Gross tonnage; required for vehicle carriers, ro-ro passenger and cruise ships (cgDIST) */
+  gt?: number;
+  year: number;
+  /** Year-to-date reports for the rating year */
+  reports: CIIReportRecord[];
+  planned_voyage?: CIIPlannedVoyage;
+  vessel_name?: string;
+  imo?: string;
+}
+
+export interface CIIRatingBoundaries {
+  /** Upper attained CII (gCO2/capacity·nm) for each rating; E is open-ended */
+  A: number;
+  B: number;
+  C: number;
+  D: number;
+}
+
+export interface CIIProjectionScenario {
+  annual_co2_tonnes: number;
+  annual_distance_nm: number;
+  attained_cii: number;
+  rating: CIIRatingLetter;
+}
+
+export interface CIIProjection {
+  year: number;
+  /** Days left in the year after the last report */
+  remaining_days: number;
+  /** Whether the rest of the year was extrapolated at the year-to-date daily rate */
+  extrapolated: boolean;
+  planned_voyage: CIIPlannedVoyage & { co2_tonnes: number };
+  without_voyage: CIIProjectionScenario;
+  with_voyage: CIIProjectionScenario;
+  /** CII change from the voyage in % (negative = voyage worsens the CII) */
+  impact_percent: number;
+  rating_changed: boolean;
+}
+
+export interface CIIRatingResult {
+  vessel_name?: string;
+  imo?: string;
+  ship_type: CIIShipType;
+  metric: 'AER' | 'cgDIST';
+  capacity_metric: 'dwt' | 'gt';
+  capacity: number;
+  year: number;
+  period_start: string | null;
+  period_end: string | null;
+  report_count: number;
+  annual_co2_tonnes: number;
+  annual_distance_nm: number;
+  /** Attained CII (gCO2/capacity·nm) */
+  attained_cii: number;
+  /** Alias of attained_cii used by response templates */
+  cii_value: number;
+  coefficient_a: number;
+  coefficient_c: number;
+  reference_cii: number;
+  /** Reduction factor Z (%) for the rating year */
+  reduction_factor: number;
+  required_cii: number;
+  cii_ratio: number;
+  rating_boundaries: CIIRatingBoundaries;
+  rating: CIIRatingLetter;
+  /** D or E: corrective action plan territory */
+  improvement_needed: boolean;
+  projection?: CIIProjection;
+  warnings: string[];
+}
+
+// ============================================================================
+// CII Calculator Engine
+// ============================================================================
+
+export class CIICalculatorEngine {
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from engine params on each call
+   */
+  constructor(private overrides?: Partial<CIIParameters>) {}
+
+  /**
+   * Resolve parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): CIIParameters {
+    const p = getConfigManager().getEngineParams('cii_rating')?.parameters ?? {};
+    const fromYaml: Record<number, number> = {};
+    for (const [key, value] of Object.entries(p)) {
+      const match = key.match(/^reduction_factor_(\d{4})$/);
+      if (match && typeof value === 'number') fromYaml[Number(match[1])] = value;
+    }
+    return {
+      reduction_factors:
+        this.overrides?.reduction_factors ??
+        (Object.keys(fromYaml).length > 0 ? fromYaml : DEFAULT_PARAMETERS.reduction_factors),
+      min_days_for_extrapolation:
+        this.overrides?.min_days_for_extrapolation ??
+        p.min_days_for_extrapolation ??
+        DEFAULT_PARAMETERS.min_days_for_extrapolation,
+    };
+  }
+
+  /**
+   * Map a vessel type string to a CII ship type (null when not covered by CII)
+   */
+  public normalizeShipType(type: string): CIIShipType | null {
+    const normalized = type.trim().toLowerCase().replace(/_/g, ' ');
+    if (normalized in SHIP_TYPES) return normalized as CIIShipType;
+    if (normalized.replace(/ /g, '_') in SHIP_TYPES) return normalized.replace(/ /g, '_') as CIIShipType;
+    for (const [pattern, shipType] of SHIP_TYPE_PATTERNS) {
+      if (pattern.test(normalized)) return shipType;
+    }
+    return null;
+  }
+
+  /**
+   * CO2 emitted (t) for fuel burnt by grade
+   */
+  public calculateCO2(fuel: FuelConsumption): number {
+    return Object.entries(fuel).reduce(
+      (sum, [grade, mt]) => sum + (mt ?? 0) * (CO2_EMISSION_FACTORS[grade as CIIFuelGrade] ?? 0),
+      0
+    );
+  }
+
+  /**
+   * Attained CII in gCO2/capacity·nm
+   */
+  public calculateAttainedCII(co2Tonnes: number, capacity: number, distanceNm: number): number {
+    if (capacity <= 0 || distanceNm <= 0) return 0;
+    return (co2Tonnes * 1_000_000) / (capacity * distanceNm);
+  }
+
+  /**
+   * Reduction factor Z (%) for a year; years past the table use the last known factor
+   */
+  public getReductionFactor(year: number): number {
+    const factors = this.getParameters().reduction_factors;
+    if (factors[year] !== undefined) return factors[year];
+    const years = Object.keys(factors).map(Number).sort((a, b) => a - b);
+    if (years.length === 0 || year < years[0]) return 0;
+    const lastKnown = years.filter((y) => y <= year).pop()!;
+    return factors[lastKnown];
+  }
+
+  /**
+   * Required CII = (1 − Z/100) × a × capacity^(-c)
+   */
+  public calculateRequiredCII(
+    shipType: CIIShipType,
+    capacity: number,
+    year: number
+  ): { reference_cii: number; reduction_factor: number; required_cii: number; a: number; c: number } {
+    const band = this.getShipTypeBand(shipType, capacity);
+    const reference = band.a * Math.pow(band.capacity, -band.c);
+    const reduction = this.getReductionFactor(year);
+    return {
+      reference_cii: reference,
+      reduction_factor: reduction,
+      required_cii: reference * (1 - reduction / 100),
+      a: band.a,
+      c: band.c,
+    };
+  }
+
+  /**
+   * Rating boundaries (upper attained CII per rating) for a required CII
+   */
+  public calculateBoundaries(shipType: CIIShipType, capacity: number, requiredCII: number): CIIRatingBoundaries {
+    const [d1, d2, d3, d4] = this.getShipTypeBand(shipType, capacity).boundaries;
+    return { A: d1 * requiredCII, B: d2 * requiredCII, C: d3 * requiredCII, D: d4 * requiredCII };
+  }
+
+  /**
+   * Rate an attained CII against boundaries
+   */
+  public rate(attainedCII: number, boundaries: CIIRatingBoundaries): CIIRatingLetter {
+    const limits = [boundaries.A, boundaries.B, boundaries.C, boundaries.D];
+    const index = limits.findIndex((limit) => attainedCII <= limit);
+    return RATINGS[index === -1 ? 4 : index]!;
+  }
+
+  /**
+   * Year-to-date attained CII and rating, with end-of-year projection when a voyage is planned
+   */
+  public calculateRating(input: CIIInput): CIIRatingResult {
+    const shipType = this.normalizeShipType(input.ship_type);
+    if (!shipType) {
+      throw new Error(`Ship type "${input.ship_type}" is not covered by CII regulations`);
+    }
+    const definition = SHIP_TYPES[shipType];
+    const capacity = definition.capacity_metric === 'gt' ? input.gt : input.dwt;
+    if (!capacity || capacity <= 0) {
+      throw new Error(`CII for ${shipType} requires ${definition.capacity_metric.toUpperCase()} > 0`);
+    }
+
+    const warnings: string[] = [];
+    const reports = [...input.reports].sort((a, b) => a.date.localeCompare(b.date));
+    const co2 = reports.reduce((sum, r) => sum + this.calculateCO2(r.fuel_consumed_mt), 0);
+    const distance = reports.reduce((sum, r) => sum + Math.max(0, r.distance_nm), 0);
+    if (reports.length === 0 || distance <= 0) {
+      warnings.push(`No sailed distance in ${input.year} reports; attained CII cannot be computed from history`);
+    }
+
+    const required = this.calculateRequiredCII(shipType, capacity, input.year);
+    const boundaries = this.calculateBoundaries(shipType, capacity, required.required_cii);
+    const attained = this.calculateAttainedCII(co2, capacity, distance);
+    const rating = this.rate(attained, boundaries);
+
+    const result: CIIRatingResult = {
+      vessel_name: input.vessel_name,
+      imo: input.imo,
+      ship_type: shipType,
+      metric: definition.capacity_metric === 'gt' ? 'cgDIST' : 'AER',
+      capacity_metric: definition.capacity_metric,
+      capacity,
+      year: input.year,
+      period_start: reports[0]?.date ?? null,
+      period_end: reports[reports.length - 1]?.date ?? null,
+      report_count: reports.length,
+      annual_co2_tonnes: co2,
+      annual_distance_nm: distance,
+      attained_cii: attained,
+      cii_value: attained,
+      coefficient_a: required.a,
+      coefficient_c: required.c,
+      reference_cii: required.reference_cii,
+      reduction_factor: required.reduction_factor,
+      required_cii: required.required_cii,
+      cii_ratio: required.required_cii > 0 ? attained / required.required_cii : 0,
+      rating_boundaries: boundaries,
+      rating,
+      improvement_needed: rating === 'D' || rating === 'E',
+      warnings,
+    };
+
+    if (input.planned_voyage) {
+      result.projection = this.projectEndOfYear(result, input.planned_voyage, boundaries, capacity);
+    }
+
+    console.log(
+      `${LOG_PREFIX} ${input.vessel_name ?? input.imo ?? shipType} ${input.year}: ${result.metric} ${attained.toFixed(2)} ` +
+        `vs required ${required.required_cii.toFixed(2)} → ${rating}` +
+        (result.projection
+          ? `; with voyage → ${result.projection.with_voyage.rating} (${result.projection.impact_percent.toFixed(1)}%)`
+          : '')
+    );
+
+    return result;
+  }
+
+  /**
+   * End-of-year rating with and without the planned voyage
+   */
+  private projectEndOfYear(
+    ytd: CIIRatingResult,
+    voyage: CIIPlannedVoyage,
+    boundaries: CIIRatingBoundaries,
+    capacity: number
+  ): CIIProjection {
+    const params = this.getParameters();
+    const yearEnd = Date.UTC(ytd.year + 1, 0, 1);
+    const yearStart = Date.UTC(ytd.year, 0, 1);
+    const lastReport = ytd.period_end ? new Date(ytd.period_end).getTime() : yearStart;
+    const firstReport = ytd.period_start ? new Date(ytd.period_start).getTime() : yearStart;
+    const remainingDays = Math.max(0, (yearEnd - lastReport) / 86_400_000);
+    const coveredDays = Math.max(0, (lastReport - firstReport) / 86_400_000);
+
+    // Rest of the year at the year-to-date daily rate, when history is long enough to trust it
+    const extrapolated = coveredDays >= params.min_days_for_extrapolation && ytd.annual_distance_nm > 0;
+    const dailyCO2 = extrapolated ? ytd.annual_co2_tonnes / coveredDays : 0;
+    const dailyDistance = extrapolated ? ytd.annual_distance_nm / coveredDays : 0;
+
+    const scenario = (co2: number, distance: number): CIIProjectionScenario => {
+      const attained = this.calculateAttainedCII(co2, capacity, distance);
+      return { annual_co2_tonnes: co2, annual_distance_nm: distance, attained_cii: attained, rating: this.rate(attained, boundaries) };
+    };
+
+    const voyageCO2 = this.calculateCO2(voyage.fuel_consumed_mt);
+    const voyageDays = Math.min(remainingDays, Math.max(0, voyage.duration_days));
+    const without = scenario(
+      ytd.annual_co2_tonnes + dailyCO2 * remainingDays,
+      ytd.annual_distance_nm + dailyDistance * remainingDays
+    );
+    const withVoyage = scenario(
+      ytd.annual_co2_tonnes + dailyCO2 * (remainingDays - voyageDays) + voyageCO2,
+      ytd.annual_distance_nm + dailyDistance * (remainingDays - voyageDays) + voyage.distance_nm
+    );
+
+    return {
+      year: ytd.year,
+      remaining_days: remainingDays,
+      extrapolated,
+      planned_voyage: { ...voyage, co2_tonnes: voyageCO2 },
+      without_voyage: without,
+      with_voyage: withVoyage,
+      impact_percent:
+        without.attained_cii > 0 ? ((without.attained_cii - withVoyage.attained_cii) / without.attained_cii) * 100 : 0,
+      rating_changed: without.rating !== withVoyage.rating,
+    };
+  }
+
+  /**
+   * Reference line coefficients and rating boundaries for a ship type and capacity
+   */
+  private getShipTypeBand(shipType: CIIShipType, capacity: number): ShipTypeBand & { capacity: number } {
+    const band = SHIP_TYPES[shipType].bands.find((b) => capacity >= b.min_capacity)!;
+    let effective = capacity;
+    if (band.capacity_cap !== undefined) effective = Math.min(effective, band.capacity_cap);
+    if (band.capacity_floor !== undefined) effective = Math.max(effective, band.capacity_floor);
+    return { ...band, capacity: effective };
+  }
+}
+
+// Export singleton instance
+export const ciiCalculatorEngine = new CIICalculatorEngine();
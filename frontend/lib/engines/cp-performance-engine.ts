@@ -0,0 +1,461 @@
+/**
+ * Charter-Party Performance Engine
+ *
+ * Checks a vessel's performance against the charter-party (CP) speed and consumption warranty
+ * with the good-weather method:
+ * - good-weather reports: Beaufort and significant wave height within the CP thresholds
+ * - good-weather speed and daily consumption, applied to the whole voyage distance
+ * - time lost vs the warranted speed, and over-consumption vs the warranted consumption over the
+ *   same sea time, after the "about" tolerances
+ * - claim (charterers) and defence (owners) points with the claim value at hire and fuel price
+ *
+ * Used by the CP performance agent and the /api/cp-performance route.
+ * Parameters come from config/engine-params/cp-performance.yaml with fallbacks.
+ */
+
+import { getConfigManager } from '@/lib/config/config-manager';
+import type { CIIFuelGrade } from '@/lib/engines/cii-calculator-engine';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '📜 [CP-PERFORMANCE-ENGINE]';
+
+const HOURS_PER_DAY = 24;
+
+/** Upper wind speed (knots) of Beaufort forces 0-11; above the last bound is force 12 */
+const BEAUFORT_UPPER_KNOTS = [1, 3, 6, 10, 16, 21, 27, 33, 40, 47, 55, 63];
+
+const DEFAULT_PARAMETERS: CPPerformanceParameters = {
+  max_beaufort: 4,
+  max_wave_height_m: 1.25,
+  about_speed_tolerance_knots: 0.5,
+  about_consumption_tolerance_percent: 5,
+  min_good_weather_hours: 24,
+  default_daily_hire_usd: 15000,
+  default_fuel_price_usd_per_mt: 600,
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CPPerformanceParameters {
+  /** Good weather: wind force at or below this Beaufort number */
+  max_beaufort: number;
+  /** Good weather: significant wave height at or below this (m); Douglas sea state 3 */
+  max_wave_height_m: number;
+  /** "About" speed allowance (knots below the warranted speed) */
+  about_speed_tolerance_knots: number;
+  /** "About" consumption allowance (% above the warranted consumption) */
+  about_consumption_tolerance_percent: number;
+  /** Less good-weather sea time than this is not a basis for a claim */
+  min_good_weather_hours: number;
+  /** Hire used to value time lost when none is given */
+  default_daily_hire_usd: number;
+  /** Bunker price used to value over-consumption when none is given */
+  default_fuel_price_usd_per_mt: number;
+}
+
+export type CPLoadCondition = 'laden' | 'ballast';
+
+export interface CPWarranty {
+  speed_knots: number;
+  consumption_mt_per_day: number;
+  fuel_grade: CIIFuelGrade;
+  /** "About" warranty: the speed and consumption tolerances apply */
+  about: boolean;
+  /** Warranty applies to this condition only; reports in the other condition are left out */
+  load_condition?: CPLoadCondition;
+  /** Overrides about_speed_tolerance_knots (e.g. a CP that defines "about" as 0.25 kn) */
+  speed_tolerance_knots?: number;
+  /** Overrides about_consumption_tolerance_percent */
+  consumption_tolerance_percent?: number;
+}
+
+/** One noon report (sea passage since the previous report) */
+export interface CPPerformanceReport {
+  /** ISO 8601 */
+  date: string;
+  steaming_hours: number;
+  distance_nm: number;
+  /** Main engine consumption of the warranted grade since the previous report */
+  consumption_mt: number;
+  beaufort?: number;
+  wave_height_m?: number;
+  load_condition?: CPLoadCondition;
+}
+
+export interface GoodWeatherCriteria {
+  max_beaufort: number;
+  max_wave_height_m: number;
+}
+
+export interface CPPerformanceInput {
+  warranty: CPWarranty;
+  reports: CPPerformanceReport[];
+  /** CP good-weather definition; defaults from parameters */
+  good_weather?: Partial<GoodWeatherCriteria>;
+  daily_hire_usd?: number;
+  fuel_price_usd_per_mt?: number;
+}
+
+export interface CPPassagePerformance {
+  distance_nm: number;
+  steaming_hours: number;
+  consumption_mt: number;
+  speed_knots: number;
+  consumption_mt_per_day: number;
+}
+
+export interface CPClaimSummary {
+  verdict: 'claim' | 'no_claim' | 'insufficient_data';
+  time_lost_cost_usd: number;
+  over_consumption_cost_usd: number;
+  total_claim_usd: number;
+  /** Charterers' case */
+  claim_points: string[];
+  /** Owners' case */
+  defence_points: string[];
+}
+
+export interface CPPerformanceResult {
+  warranty: CPWarranty;
+  good_weather_criteria: GoodWeatherCriteria;
+  /** Tolerances applied (zero for a warranty without "about") */
+  speed_tolerance_knots: number;
+  consumption_tolerance_percent: number;
+  period: { start: string; end: string };
+  report_count: number;
+  good_weather_report_count: number;
+  /** Reports without wind force, left out of good weather */
+  no_weather_report_count: number;
+  voyage: CPPassagePerformance;
+  good_weather: CPPassagePerformance | null;
+  /** Good-weather consumption compared at the warranted speed when the vessel sailed faster */
+  speed_corrected_consumption_mt_per_day?: number;
+  /** Voyage distance at good-weather speed vs at the minimum warranted speed */
+  time_lost_hours: number;
+  /** Voyage fuel at good-weather performance */
+  performance_fuel_mt: number;
+  /** Maximum warranted consumption over the same sea time */
+  allowed_fuel_mt: number;
+  over_consumption_mt: number;
+  /** Under-consumption vs the warranty (owners' set-off against time lost) */
+  fuel_saved_mt: number;
+  daily_hire_usd: number;
+  fuel_price_usd_per_mt: number;
+  /** Hire or fuel price taken from parameters rather than given */
+  prices_assumed: boolean;
+  summary: CPClaimSummary;
+  warnings: string[];
+}
+
+// ============================================================================
+// CP Performance Engine
+// ============================================================================
+
+export class CPPerformanceEngine {
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from engine params on each call
+   */
+  constructor(private overrides?: Partial<CPPerformanceParameters>) {}
+
+  /**
+   * Resolve parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): CPPerformanceParameters {
+    const p = getConfigManager().getEngineParams('cp_performance')?.parameters ?? {};
+    const resolve = (key: keyof CPPerformanceParameters) =>
+      this.overrides?.[key] ?? p[key] ?? DEFAULT_PARAMETERS[key];
+    return {
+      max_beaufort: resolve('max_beaufort'),
+      max_wave_height_m: resolve('max_wave_height_m'),
+      about_speed_tolerance_knots: resolve('about_speed_tolerance_knots'),
+      about_consumption_tolerance_percent: resolve('about_consumption_tolerance_percent'),
+      min_good_weather_hours: resolve('min_good_weather_hours'),
+      default_daily_hire_usd: resolve('default_daily_hire_usd'),
+      default_fuel_price_usd_per_mt: resolve('default_fuel_price_usd_per_mt'),
+    };
+  }
+
+  /**
+   * Whether a report counts as good weather. Reports without wind force do not;
+   * wave height is checked when reported.
+   */
+  public isGoodWeather(report: CPPerformanceReport, criteria: GoodWeatherCriteria): boolean {
+    if (report.beaufort == null || !Number.isFinite(report.beaufort)) return false;
+    if (report.beaufort > criteria.max_beaufort) return false;
+    return report.wave_height_m == null || report.wave_height_m <= criteria.max_wave_height_m;
+  }
+
+  /**
+   * Evaluate performance against the warranty and build the claim / defence summary.
+   *
+   * @throws Error when the warranty is incomplete or no report has sea passage
+   */
+  public evaluate(input: CPPerformanceInput): CPPerformanceResult {
+    const params = this.getParameters();
+    const { warranty } = input;
+    if (!(warranty.speed_knots > 0) || !(warranty.consumption_mt_per_day > 0)) {
+      throw new Error('CP performance needs a warranted speed and consumption');
+    }
+    const warnings: string[] = [];
+
+    const sea = input.reports
+      .filter((r) => r.steaming_hours > 0 && r.distance_nm > 0)
+      .filter((r) => !warranty.load_condition || !r.load_condition || r.load_condition === warranty.load_condition)
+      .sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+    if (sea.length === 0) {
+      throw new Error(
+        `CP performance needs noon reports with steaming hours and distance` +
+          (warranty.load_condition ? ` in ${warranty.load_condition} condition` : '')
+      );
+    }
+    if (sea.length < input.reports.length) {
+      warnings.push(`${input.reports.length - sea.length} report(s) without sea passage or in the other load condition left out`);
+    }
+
+    const criteria: GoodWeatherCriteria = {
+      max_beaufort: input.good_weather?.max_beaufort ?? params.max_beaufort,
+      max_wave_height_m: input.good_weather?.max_wave_height_m ?? params.max_wave_height_m,
+    };
+    const speedTolerance = warranty.about ? (warranty.speed_tolerance_knots ?? params.about_speed_tolerance_knots) : 0;
+    const consumptionTolerance = warranty.about
+      ? (warranty.consumption_tolerance_percent ?? params.about_consumption_tolerance_percent)
+      : 0;
+    const minSpeed = warranty.speed_knots - speedTolerance;
+    const maxConsumption = warranty.consumption_mt_per_day * (1 + consumptionTolerance / 100);
+
+    const voyage = passage(sea);
+    const goodReports = sea.filter((r) => this.isGoodWeather(r, criteria));
+    const noWeather = sea.filter((r) => r.beaufort == null || !Number.isFinite(r.beaufort)).length;
+    const good = goodReports.length > 0 ? passage(goodReports) : null;
+
+    const dailyHire = input.daily_hire_usd ?? params.default_daily_hire_usd;
+    const fuelPrice = input.fuel_price_usd_per_mt ?? params.default_fuel_price_usd_per_mt;
+    const pricesAssumed = input.daily_hire_usd == null || input.fuel_price_usd_per_mt == null;
+
+    let timeLost = 0;
+    let performanceFuel = 0;
+    let allowedFuel = 0;
+    let correctedConsumption: number | undefined;
+    const enoughGoodWeather = !!good && good.steaming_hours >= params.min_good_weather_hours;
+
+    if (good && enoughGoodWeather) {
+      // Good-weather performance over the whole voyage distance
+      const performanceHours = voyage.distance_nm / good.speed_knots;
+      const warrantedHours = voyage.distance_nm / minSpeed;
+      timeLost = Math.max(0, performanceHours - warrantedHours);
+
+      // Faster than warranted: compare consumption at the warranted speed (cubic law)
+      let goodConsumption = good.consumption_mt_per_day;
+      let goodHours = performanceHours;
+      if (good.speed_knots > warranty.speed_knots) {
+        correctedConsumption = goodConsumption * Math.pow(warranty.speed_knots / good.speed_knots, 3);
+        goodConsumption = correctedConsumption;
+        goodHours = voyage.distance_nm / warranty.speed_knots;
+      }
+      // Same sea time for both, so slow steaming is not counted again as over-consumption
+      performanceFuel = (goodHours / HOURS_PER_DAY) * goodConsumption;
+      allowedFuel = (goodHours / HOURS_PER_DAY) * maxConsumption;
+    }
+
+    const overConsumption = Math.max(0, performanceFuel - allowedFuel);
+    const fuelSaved = Math.max(0, allowedFuel - performanceFuel);
+
+    const summary = this.buildSummary({
+      warranty,
+      criteria,
+      speedTolerance,
+      consumptionTolerance,
+      minSpeed,
+      maxConsumption,
+      voyage,
+      good,
+      enoughGoodWeather,
+      minGoodWeatherHours: params.min_good_weather_hours,
+      noWeather,
+      correctedConsumption,
+      timeLost,
+      overConsumption,
+      fuelSaved,
+      dailyHire,
+      fuelPrice,
+    });
+    if (pricesAssumed && summary.total_claim_usd > 0) {
+      warnings.push(
+        `Claim valued at ${input.daily_hire_usd == null ? `assumed hire $${dailyHire.toLocaleString()}/day` : 'given hire'}` +
+          ` and ${input.fuel_price_usd_per_mt == null ? `assumed fuel price $${fuelPrice}/MT` : 'given fuel price'}`
+      );
+    }
+
+    console.log(
+      `${LOG_PREFIX} ${goodReports.length}/${sea.length} good-weather reports: ` +
+        `${timeLost.toFixed(1)} h lost, ${overConsumption.toFixed(1)} MT over-consumed (${summary.verdict})`
+    );
+
+    return {
+      warranty,
+      good_weather_criteria: criteria,
+      speed_tolerance_knots: speedTolerance,
+      consumption_tolerance_percent: consumptionTolerance,
+      period: { start: sea[0]!.date, end: sea[sea.length - 1]!.date },
+      report_count: sea.length,
+      good_weather_report_count: goodReports.length,
+      no_weather_report_count: noWeather,
+      voyage,
+      good_weather: good,
+      ...(correctedConsumption !== undefined && { speed_corrected_consumption_mt_per_day: correctedConsumption }),
+      time_lost_hours: timeLost,
+      performance_fuel_mt: performanceFuel,
+      allowed_fuel_mt: allowedFuel,
+      over_consumption_mt: overConsumption,
+      fuel_saved_mt: fuelSaved,
+      daily_hire_usd: dailyHire,
+      fuel_price_usd_per_mt: fuelPrice,
+      prices_assumed: pricesAssumed,
+      summary,
+      warnings,
+    };
+  }
+
+  /**
+   * Claim and defence points for the evaluated performance.
+   */
+  private buildSummary(c: {
+    warranty: CPWarranty;
+    criteria: GoodWeatherCriteria;
+    speedTolerance: number;
+    consumptionTolerance: number;
+    minSpeed: number;
+    maxConsumption: number;
+    voyage: CPPassagePerformance;
+    good: CPPassagePerformance | null;
+    enoughGoodWeather: boolean;
+    minGoodWeatherHours: number;
+    noWeather: number;
+    correctedConsumption?: number;
+    timeLost: number;
+    overConsumption: number;
+    fuelSaved: number;
+    dailyHire: number;
+    fuelPrice: number;
+  }): CPClaimSummary {
+    const claimPoints: string[] = [];
+    const defencePoints: string[] = [];
+    const grade = c.warranty.fuel_grade;
+    const goodWeatherText = `BF ≤ ${c.criteria.max_beaufort}, waves ≤ ${c.criteria.max_wave_height_m} m`;
+
+    if (c.noWeather > 0) {
+      defencePoints.push(`${c.noWeather} report(s) without wind force cannot be counted as good weather`);
+    }
+    if (!c.good || !c.enoughGoodWeather) {
+      const hours = c.good?.steaming_hours ?? 0;
+      defencePoints.push(
+        `Only ${hours.toFixed(0)} h of good weather (${goodWeatherText}); at least ${c.minGoodWeatherHours} h ` +
+          'needed for a representative sample'
+      );
+      return {
+        verdict: 'insufficient_data',
+        time_lost_cost_usd: 0,
+        over_consumption_cost_usd: 0,
+        total_claim_usd: 0,
+        claim_points: claimPoints,
+        defence_points: defencePoints,
+      };
+    }
+
+    const share = c.good.steaming_hours / c.voyage.steaming_hours;
+    if (share < 0.25) {
+      defencePoints.push(
+        `Good weather (${goodWeatherText}) is only ${(share * 100).toFixed(0)}% of sea time; ` +
+          'extrapolating it to the whole voyage is open to challenge'
+      );
+    }
+
+    const warrantyText = `${c.warranty.about ? 'about ' : ''}${c.warranty.speed_knots} kn`;
+    if (c.timeLost > 0) {
+      claimPoints.push(
+        `Good-weather speed ${c.good.speed_knots.toFixed(2)} kn is below ${warrantyText}` +
+          (c.speedTolerance > 0 ? ` less ${c.speedTolerance} kn` : '') +
+          `: ${c.timeLost.toFixed(1)} h lost over ${Math.round(c.voyage.distance_nm).toLocaleString()} nm`
+      );
+    } else {
+      defencePoints.push(
+        `Good-weather speed ${c.good.speed_knots.toFixed(2)} kn meets ${warrantyText}` +
+          (c.speedTolerance > 0 ? ` within the ${c.speedTolerance} kn allowance` : '')
+      );
+    }
+
+    if (c.correctedConsumption !== undefined) {
+      defencePoints.push(
+        `Vessel sailed faster than warranted; good-weather consumption ${c.good.consumption_mt_per_day.toFixed(1)} MT/day ` +
+          `corrects to ${c.correctedConsumption.toFixed(1)} MT/day at ${c.warranty.speed_knots} kn`
+      );
+    }
+    const consumptionText =
+      `${c.maxConsumption.toFixed(1)} MT/day ${grade} allowed` +
+      (c.consumptionTolerance > 0 ? ` (${c.warranty.consumption_mt_per_day} + ${c.consumptionTolerance}%)` : '');
+    if (c.overConsumption > 0) {
+      claimPoints.push(
+        `Good-weather consumption ${(c.correctedConsumption ?? c.good.consumption_mt_per_day).toFixed(1)} MT/day vs ` +
+          `${consumptionText}: ${c.overConsumption.toFixed(1)} MT over-consumed`
+      );
+    } else {
+      defencePoints.push(`Good-weather consumption within ${consumptionText}`);
+    }
+    if (c.timeLost > 0 && c.fuelSaved > 0) {
+      defencePoints.push(`${c.fuelSaved.toFixed(1)} MT under-consumption to set off against the time lost`);
+    }
+
+    const timeLostCost = (c.timeLost / HOURS_PER_DAY) * c.dailyHire;
+    const overConsumptionCost = c.overConsumption * c.fuelPrice;
+    const total = timeLostCost + overConsumptionCost;
+    if (total > 0) {
+      claimPoints.push(
+        `Claim $${Math.round(total).toLocaleString()}: time lost $${Math.round(timeLostCost).toLocaleString()} ` +
+          `at $${c.dailyHire.toLocaleString()}/day, over-consumption $${Math.round(overConsumptionCost).toLocaleString()} ` +
+          `at $${c.fuelPrice}/MT`
+      );
+    }
+
+    return {
+      verdict: total > 0 ? 'claim' : 'no_claim',
+      time_lost_cost_usd: timeLostCost,
+      over_consumption_cost_usd: overConsumptionCost,
+      total_claim_usd: total,
+      claim_points: claimPoints,
+      defence_points: defencePoints,
+    };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Beaufort force for a wind speed in knots.
+ */
+export function beaufortFromWindKnots(windKnots: number): number {
+  const force = BEAUFORT_UPPER_KNOTS.findIndex((upper) => windKnots < upper);
+  return force === -1 ? 12 : force;
+}
+
+function passage(reports: CPPerformanceReport[]): CPPassagePerformance {
+  const distance = reports.reduce((sum, r) => sum + r.distance_nm, 0);
+  const hours = reports.reduce((sum, r) => sum + r.steaming_hours, 0);
+  const consumption = reports.reduce((sum, r) => sum + r.consumption_mt, 0);
+  return {
+    distance_nm: distance,
+    steaming_hours: hours,
+    consumption_mt: consumption,
+    speed_knots: distance / hours,
+    consumption_mt_per_day: (consumption / hours) * HOURS_PER_DAY,
+  };
+}
+
+// Export singleton instance
+export const cpPerformanceEngine = new CPPerformanceEngine();
@@ -0,0 +1,586 @@
+/**
+ * Dual-Fuel Economics Engine
+ *
+ * Gas (LNG) vs oil fuel strategy for an LNG-capable dual-fuel vessel on a planned voyage:
+ * - diesel-mode consumption by grade from ECAConsumptionEngine; gas mode burns the same energy
+ *   scaled by the gas-mode curve at the engine load, split into LNG and pilot LSMGO
+ * - LNG on board is simulated segment by segment: boil-off at sea that the engine does not burn
+ *   and all boil-off at anchor goes to the gas combustion unit (lost); the tank heel stays on board,
+ *   so gas mode falls back to diesel mode when only the heel is left
+ * - LNG bunker quantity to finish the voyage on heel, within the tank filling limit, priced at
+ *   the cheapest LNG port on the route (no LNG port: gas mode only on the LNG already on board)
+ * - compliance cost per strategy: EU ETS on CO2 plus methane slip (from the year ETS covers
+ *   methane) and the FuelEU Maritime penalty from the well-to-wake intensity including slip
+ * - savings, recommended strategy and the breakeven LNG price
+ *
+ * Parameters come from config/engine-params/dual-fuel-economics.yaml with fallbacks.
+ */
+
+import { getConfigManager } from '@/lib/config/config-manager';
+import type { DualFuelCapability, DualFuelEngineType } from '@/lib/types/bunker';
+import { CO2_EMISSION_FACTORS, type CIIFuelGrade } from './cii-calculator-engine';
+import {
+  ecaConsumptionEngine,
+  type ConsumptionProfile,
+  type ECAConsumptionOutput,
+  type GasModeFactors,
+  type RouteSegment,
+} from './eca-consumption-engine';
+import { euEtsEngine } from './eu-ets-engine';
+import { fuelEUMaritimeEngine } from './fueleu-maritime-engine';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '🔥 [DUAL-FUEL-ECONOMICS-ENGINE]';
+
+const DEFAULT_PARAMETERS: DualFuelEconomicsParameters = {
+  gas_mode_energy_ratio_by_load: { 25: 1.08, 50: 1.03, 75: 1.0, 100: 0.99 },
+  default_engine_load_percent: 75,
+  default_pilot_fuel_percent: 1,
+  default_boil_off_percent_per_day_sea: 0.15,
+  default_boil_off_percent_per_day_anchor: 0.1,
+  default_heel_percent: 10,
+  lng_max_fill_percent: 95,
+  lng_density_t_per_m3: 0.45,
+  methane_slip_percent: {
+    otto_slow_speed: 1.7,
+    otto_medium_speed: 3.1,
+    diesel_slow_speed: 0.2,
+    lbsi: 2.6,
+  },
+  eu_ets_methane_from_year: 2026,
+  eu_ets_methane_gwp: 28,
+  lng_vlsfo_energy_price_ratio: 1.0,
+  lsmgo_vlsfo_price_ratio: 1.4,
+};
+
+const DEFAULT_ENGINE_TYPE: DualFuelEngineType = 'otto_slow_speed';
+
+const ENGINE_TYPES: DualFuelEngineType[] = ['otto_slow_speed', 'otto_medium_speed', 'diesel_slow_speed', 'lbsi'];
+
+/** Lower calorific values (MJ/kg), FuelEU Maritime Annex II */
+const LCV_MJ_PER_KG = { VLSFO: 41.0, LSMGO: 42.7, LNG: 49.1 } as const;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DualFuelEconomicsParameters {
+  /** Gas-mode energy relative to diesel mode, by main engine load (%) */
+  gas_mode_energy_ratio_by_load: Record<number, number>;
+  default_engine_load_percent: number;
+  default_pilot_fuel_percent: number;
+  default_boil_off_percent_per_day_sea: number;
+  default_boil_off_percent_per_day_anchor: number;
+  default_heel_percent: number;
+  lng_max_fill_percent: number;
+  lng_density_t_per_m3: number;
+  /** Methane slip (% of LNG mass) by engine type */
+  methane_slip_percent: Record<DualFuelEngineType, number>;
+  eu_ets_methane_from_year: number;
+  eu_ets_methane_gwp: number;
+  /** LNG price per unit of energy relative to VLSFO when no LNG price is quoted */
+  lng_vlsfo_energy_price_ratio: number;
+  lsmgo_vlsfo_price_ratio: number;
+}
+
+export type DualFuelStrategy = 'GAS' | 'OIL';
+
+/** A port on the route quoting LNG */
+export interface LNGBunkerPort {
+  port_code: string;
+  port_name?: string;
+  price_usd_per_mt: number;
+}
+
+export interface DualFuelEconomicsInput {
+  dual_fuel: DualFuelCapability;
+  /** Diesel-mode consumption (the vessel's oil consumption at the voyage speed) */
+  base_consumption: ConsumptionProfile;
+  /** ECA segments (see ScrubberEconomicsEngine.buildRouteSegments) */
+  route_segments: RouteSegment[];
+  speed_knots: number;
+  weather_factor?: number;
+  /** Main engine load (% MCR); default from engine params */
+  engine_load_percent?: number;
+  /** Days at anchor after the passage (waiting for berth) */
+  anchor_days?: number;
+  /** LNG on board at departure (MT) */
+  lng_rob_mt?: number;
+  /** USD/MT; LSMGO and LNG are estimated from VLSFO when missing */
+  prices: {
+    VLSFO: number;
+    LSMGO?: number;
+    LNG?: number;
+  };
+  /**
+   * Ports on the route quoting LNG. When given, LNG can only be bunkered if one quotes a price;
+   * when omitted, a quoted prices.LNG means LNG can be bunkered.
+   */
+  lng_ports?: LNGBunkerPort[];
+  /** EU ETS cost per MT burned by grade (compliance_data.eu_ets.voyage_cost_per_mt_fuel_usd) */
+  eu_ets_cost_per_mt_usd?: Partial<Record<CIIFuelGrade, number>>;
+  /** Reporting year for EU ETS methane and the FuelEU target (default: current year) */
+  year?: number;
+  /** Share (%) of the voyage energy in FuelEU scope; omit to leave the FuelEU penalty out */
+  fueleu_coverage_percent?: number;
+}
+
+export interface DualFuelConsumption {
+  VLSFO: number;
+  LSMGO: number;
+  /** LNG burned in the engines plus boil-off lost */
+  LNG: number;
+  total: number;
+}
+
+export interface DualFuelStrategyCost {
+  strategy: DualFuelStrategy;
+  consumption_mt: DualFuelConsumption;
+  /** Share (%) of the main engine fuel (diesel-mode equivalent) replaced by gas */
+  gas_mode_percent: number;
+  /** Part of the LSMGO burned as pilot fuel */
+  pilot_fuel_mt: number;
+  /** Boil-off burned in the gas combustion unit, at sea and at anchor */
+  boil_off_loss_mt: number;
+  lng_bunker_mt: number;
+  lng_rob_on_arrival_mt: number;
+  methane_slip_t: number;
+  fuel_cost_usd: number;
+  /** EU ETS cost on CO2 (engines and GCU) */
+  eu_ets_cost_usd: number;
+  /** EU ETS cost on methane slip (0 before ETS covers methane) */
+  eu_ets_methane_cost_usd: number;
+  fueleu_ghg_intensity_gco2e_per_mj: number;
+  /** FuelEU compliance balance (negative = deficit); null without fueleu_coverage_percent */
+  fueleu_balance_tco2e: number | null;
+  fueleu_penalty_usd: number;
+  total_cost_usd: number;
+}
+
+export interface DualFuelComparison {
+  engine_type: DualFuelEngineType;
+  engine_load_percent: number;
+  pilot_fuel_percent: number;
+  methane_slip_percent: number;
+  gas: DualFuelStrategyCost;
+  oil: DualFuelStrategyCost;
+  prices_usd_per_mt: {
+    VLSFO: number;
+    LSMGO: number;
+    LNG: number;
+  };
+  lng_price_estimated: boolean;
+  /** Whether LNG can be bunkered for this voyage */
+  lng_available: boolean;
+  /** Cheapest LNG port on the route */
+  lng_bunker_port: LNGBunkerPort | null;
+  lng_ports: LNGBunkerPort[];
+  /** Tank heel (MT); null when the LNG tank capacity is unknown */
+  lng_heel_mt: number | null;
+  /** Oil total minus gas total (positive = gas cheaper) */
+  savings_usd: number;
+  recommended: DualFuelStrategy;
+  /** LNG price at which both strategies cost the same; null when gas mode is not used */
+  breakeven_lng_price_usd_per_mt: number | null;
+  warnings: string[];
+}
+
+interface LNGTank {
+  heel_mt: number;
+  max_fill_mt: number;
+  known: boolean;
+}
+
+interface LNGPassage {
+  /** LNG burned in the engines (MT) */
+  burned_mt: number;
+  boil_off_loss_mt: number;
+  gas_mode_share: number;
+  /** Oil burned by grade, with diesel mode wherever gas ran short */
+  VLSFO: number;
+  LSMGO: number;
+  pilot_mt: number;
+  arrival_mt: number;
+}
+
+// ============================================================================
+// Dual-Fuel Economics Engine
+// ============================================================================
+
+export class DualFuelEconomicsEngine {
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from engine params on each call
+   */
+  constructor(private overrides?: Partial<DualFuelEconomicsParameters>) {}
+
+  /**
+   * Resolve parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): DualFuelEconomicsParameters {
+    const p = getConfigManager().getEngineParams('dual_fuel_economics')?.parameters ?? {};
+    const curveFromYaml: Record<number, number> = {};
+    const slipFromYaml: Partial<Record<DualFuelEngineType, number>> = {};
+    for (const [key, value] of Object.entries(p)) {
+      if (typeof value !== 'number') continue;
+      const load = key.match(/^gas_mode_energy_ratio_load_(\d+)$/);
+      if (load) curveFromYaml[Number(load[1])] = value;
+      const slip = key.match(/^methane_slip_percent_(\w+)$/);
+      if (slip && ENGINE_TYPES.includes(slip[1] as DualFuelEngineType)) {
+        slipFromYaml[slip[1] as DualFuelEngineType] = value;
+      }
+    }
+    const resolve = (
+      key: Exclude<keyof DualFuelEconomicsParameters, 'gas_mode_energy_ratio_by_load' | 'methane_slip_percent'>
+    ): number => this.overrides?.[key] ?? p[key] ?? DEFAULT_PARAMETERS[key];
+    return {
+      gas_mode_energy_ratio_by_load:
+        this.overrides?.gas_mode_energy_ratio_by_load ??
+        (Object.keys(curveFromYaml).length > 0 ? curveFromYaml : DEFAULT_PARAMETERS.gas_mode_energy_ratio_by_load),
+      default_engine_load_percent: resolve('default_engine_load_percent'),
+      default_pilot_fuel_percent: resolve('default_pilot_fuel_percent'),
+      default_boil_off_percent_per_day_sea: resolve('default_boil_off_percent_per_day_sea'),
+      default_boil_off_percent_per_day_anchor: resolve('default_boil_off_percent_per_day_anchor'),
+      default_heel_percent: resolve('default_heel_percent'),
+      lng_max_fill_percent: resolve('lng_max_fill_percent'),
+      lng_density_t_per_m3: resolve('lng_density_t_per_m3'),
+      methane_slip_percent: this.overrides?.methane_slip_percent ?? {
+        ...DEFAULT_PARAMETERS.methane_slip_percent,
+        ...slipFromYaml,
+      },
+      eu_ets_methane_from_year: resolve('eu_ets_methane_from_year'),
+      eu_ets_methane_gwp: resolve('eu_ets_methane_gwp'),
+      lng_vlsfo_energy_price_ratio: resolve('lng_vlsfo_energy_price_ratio'),
+      lsmgo_vlsfo_price_ratio: resolve('lsmgo_vlsfo_price_ratio'),
+    };
+  }
+
+  /**
+   * Gas-mode energy relative to diesel mode at a main engine load (%), interpolated on the curve
+   * and held flat beyond its ends
+   */
+  public getGasModeEnergyRatio(loadPercent: number): number {
+    const curve = this.getParameters().gas_mode_energy_ratio_by_load;
+    const loads = Object.keys(curve).map(Number).sort((a, b) => a - b);
+    if (loads.length === 0) return 1;
+    if (loadPercent <= loads[0]) return curve[loads[0]];
+    if (loadPercent >= loads[loads.length - 1]) return curve[loads[loads.length - 1]];
+    const upper = loads.findIndex((load) => load >= loadPercent);
+    const [x0, x1] = [loads[upper - 1], loads[upper]];
+    return curve[x0] + ((curve[x1] - curve[x0]) * (loadPercent - x0)) / (x1 - x0);
+  }
+
+  /**
+   * LNG and pilot LSMGO burned per MT of diesel-mode main engine fuel (VLSFO energy basis)
+   */
+  public getGasModeFactors(loadPercent: number, pilotFuelPercent: number): GasModeFactors {
+    const gasEnergyPerOilMt = LCV_MJ_PER_KG.VLSFO * this.getGasModeEnergyRatio(loadPercent);
+    const pilotShare = pilotFuelPercent / 100;
+    return {
+      lng_per_oil_mt: (gasEnergyPerOilMt * (1 - pilotShare)) / LCV_MJ_PER_KG.LNG,
+      pilot_per_oil_mt: (gasEnergyPerOilMt * pilotShare) / LCV_MJ_PER_KG.LSMGO,
+    };
+  }
+
+  /**
+   * LNG price estimate from VLSFO on an energy basis when no LNG price is quoted
+   */
+  public estimateLngPrice(vlsfoPrice: number): number {
+    return vlsfoPrice * (LCV_MJ_PER_KG.LNG / LCV_MJ_PER_KG.VLSFO) * this.getParameters().lng_vlsfo_energy_price_ratio;
+  }
+
+  /**
+   * Compare burning LNG in gas mode against diesel mode on oil for the voyage
+   */
+  public compareStrategies(input: DualFuelEconomicsInput): DualFuelComparison {
+    const params = this.getParameters();
+    const warnings: string[] = [];
+    const dualFuel = input.dual_fuel;
+    const engineType = dualFuel.engine_type ?? DEFAULT_ENGINE_TYPE;
+    const engineLoad = input.engine_load_percent ?? params.default_engine_load_percent;
+    const pilotPercent = dualFuel.pilot_fuel_percent ?? params.default_pilot_fuel_percent;
+    const slipPercent = params.methane_slip_percent[engineType];
+    const borSea = (dualFuel.boil_off_percent_per_day_sea ?? params.default_boil_off_percent_per_day_sea) / 100;
+    const borAnchor =
+      (dualFuel.boil_off_percent_per_day_anchor ?? params.default_boil_off_percent_per_day_anchor) / 100;
+    const anchorDays = Math.max(0, input.anchor_days ?? 0);
+    const lngRob = Math.max(0, input.lng_rob_mt ?? 0);
+    const year = input.year ?? new Date().getUTCFullYear();
+
+    const tank = this.getTank(dualFuel, params);
+    if (!tank.known) {
+      warnings.push('LNG tank capacity unknown; heel and filling limit not applied');
+    }
+
+    // LNG availability and price: cheapest quoting port on the route, else a quoted price
+    const lngPorts = (input.lng_ports ?? [])
+      .filter((port) => port.price_usd_per_mt > 0)
+      .sort((a, b) => a.price_usd_per_mt - b.price_usd_per_mt);
+    const lngBunkerPort = lngPorts[0] ?? null;
+    const quotedLng = lngBunkerPort?.price_usd_per_mt ?? (input.prices.LNG && input.prices.LNG > 0 ? input.prices.LNG : 0);
+    const lngAvailable = input.lng_ports !== undefined ? lngBunkerPort !== null : quotedLng > 0;
+    const lngPriceEstimated = quotedLng <= 0;
+    const prices = {
+      VLSFO: input.prices.VLSFO,
+      LSMGO: input.prices.LSMGO && input.prices.LSMGO > 0
+        ? input.prices.LSMGO
+        : input.prices.VLSFO * params.lsmgo_vlsfo_price_ratio,
+      LNG: lngPriceEstimated ? this.estimateLngPrice(input.prices.VLSFO) : quotedLng,
+    };
+    if (!lngAvailable) {
+      warnings.push(
+        lngRob > tank.heel_mt
+          ? 'No LNG bunkering on the route; gas mode limited to the LNG on board'
+          : 'No LNG bunkering on the route and no usable LNG on board; gas mode not possible'
+      );
+    }
+    if (lngPriceEstimated) {
+      warnings.push(`No LNG price quoted; estimated on VLSFO energy parity ($${prices.LNG.toFixed(0)}/MT)`);
+    }
+
+    const common = {
+      base_consumption: input.base_consumption,
+      route_segments: input.route_segments,
+      speed_knots: input.speed_knots,
+      weather_factor: input.weather_factor,
+    };
+    const oilRun = ecaConsumptionEngine.calculateConsumption(common);
+    const gasRun = ecaConsumptionEngine.calculateConsumption({
+      ...common,
+      gas_mode: this.getGasModeFactors(engineLoad, pilotPercent),
+    });
+    const sail = (departureLng: number, gasMode: boolean) =>
+      this.simulatePassage(oilRun, gasRun, departureLng, tank.heel_mt, borSea, borAnchor, anchorDays, gasMode);
+
+    // LNG to bunker: the whole passage in gas mode, arriving with the heel after the anchor stay.
+    // Boil-off depends on what is on board, so later passes top up what the estimate left short.
+    let lngBunker = 0;
+    if (lngAvailable) {
+      const maxDepartureLng = Math.max(lngRob, tank.max_fill_mt);
+      const fullGasLng = gasRun.total_consumption_mt.LNG;
+      let departureLng = Math.min(maxDepartureLng, Math.max(lngRob, fullGasLng + tank.heel_mt));
+      for (let pass = 0; pass < 3 && departureLng < maxDepartureLng; pass++) {
+        const passage = sail(departureLng, true);
+        const missing =
+          fullGasLng * (1 - passage.gas_mode_share) + Math.max(0, tank.heel_mt - passage.arrival_mt);
+        if (missing < 0.01) break;
+        departureLng = Math.min(maxDepartureLng, departureLng + missing);
+      }
+      lngBunker = departureLng - lngRob;
+      if (departureLng >= maxDepartureLng && sail(departureLng, true).gas_mode_share < 1) {
+        warnings.push(
+          `LNG tanks (${tank.max_fill_mt.toFixed(0)} MT at ${params.lng_max_fill_percent}% fill) too small for the whole passage in gas mode`
+        );
+      }
+    }
+
+    const gasPassage = sail(lngRob + lngBunker, true);
+    const oilPassage = sail(lngRob, false);
+    if (gasPassage.gas_mode_share > 0 && gasPassage.gas_mode_share < 1) {
+      warnings.push(
+        `Gas mode covers ${(gasPassage.gas_mode_share * 100).toFixed(0)}% of the passage; the rest in diesel mode`
+      );
+    }
+    if (tank.known && lngRob > 0 && oilPassage.arrival_mt < tank.heel_mt) {
+      warnings.push(
+        `On oil, boil-off takes LNG below the tank heel (${oilPassage.arrival_mt.toFixed(0)} of ${tank.heel_mt.toFixed(0)} MT); tanks may need cooling down before the next LNG bunkering`
+      );
+    }
+
+    const compliance = { input, params, year, slipPercent, prices };
+    const gas = this.costStrategy('GAS', gasPassage, lngBunker, compliance);
+    const oil = this.costStrategy('OIL', oilPassage, 0, compliance);
+
+    const savings = oil.total_cost_usd - gas.total_cost_usd;
+    // Each extra $1/MT of LNG raises the gas strategy by the extra LNG it consumes
+    const extraLng = gas.consumption_mt.LNG - oil.consumption_mt.LNG;
+    const breakeven = gasPassage.gas_mode_share > 0 && extraLng > 0 ? prices.LNG + savings / extraLng : null;
+
+    const result: DualFuelComparison = {
+      engine_type: engineType,
+      engine_load_percent: engineLoad,
+      pilot_fuel_percent: pilotPercent,
+      methane_slip_percent: slipPercent,
+      gas,
+      oil,
+      prices_usd_per_mt: prices,
+      lng_price_estimated: lngPriceEstimated,
+      lng_available: lngAvailable,
+      lng_bunker_port: lngBunker > 0 ? lngBunkerPort : null,
+      lng_ports: lngPorts,
+      lng_heel_mt: tank.known ? tank.heel_mt : null,
+      savings_usd: savings,
+      recommended: gasPassage.gas_mode_share > 0 && savings > 0 ? 'GAS' : 'OIL',
+      breakeven_lng_price_usd_per_mt: breakeven,
+      warnings,
+    };
+
+    console.log(
+      `${LOG_PREFIX} ${engineType}: gas $${gas.total_cost_usd.toFixed(0)} (${gas.gas_mode_percent.toFixed(0)}% gas mode, ` +
+        `${gas.methane_slip_t.toFixed(1)} t CH4 slip) vs oil $${oil.total_cost_usd.toFixed(0)}; LNG ` +
+        `$${prices.LNG.toFixed(0)}/MT${lngPriceEstimated ? ' (est.)' : ''} → ${result.recommended}`
+    );
+    return result;
+  }
+
+  // ==========================================================================
+  // Private helpers
+  // ==========================================================================
+
+  /**
+   * Heel and filling limit (MT) of the LNG tanks; without a capacity, no heel and no limit
+   */
+  private getTank(dualFuel: DualFuelCapability, params: DualFuelEconomicsParameters): LNGTank {
+    if (!dualFuel.lng_tank_capacity_m3 || dualFuel.lng_tank_capacity_m3 <= 0) {
+      return { heel_mt: 0, max_fill_mt: Infinity, known: false };
+    }
+    const capacityMt = dualFuel.lng_tank_capacity_m3 * params.lng_density_t_per_m3;
+    const heelPercent = dualFuel.heel_percent ?? params.default_heel_percent;
+    return {
+      heel_mt: capacityMt * (heelPercent / 100),
+      max_fill_mt: capacityMt * (params.lng_max_fill_percent / 100),
+      known: true,
+    };
+  }
+
+  /**
+   * Sail the segments with departureLng on board. In gas mode each segment runs on gas as far
+   * as the LNG above heel allows and on oil for the rest; boil-off the engine does not burn is lost.
+   * The anchor stay after the passage loses its boil-off too.
+   */
+  private simulatePassage(
+    oilRun: ECAConsumptionOutput,
+    gasRun: ECAConsumptionOutput,
+    departureLng: number,
+    heelMt: number,
+    borSea: number,
+    borAnchor: number,
+    anchorDays: number,
+    gasMode: boolean
+  ): LNGPassage {
+    let lng = departureLng;
+    let burned = 0;
+    let lost = 0;
+    let vlsfo = 0;
+    let lsmgo = 0;
+    let pilot = 0;
+    let gasMainFuel = 0;
+    let totalMainFuel = 0;
+
+    oilRun.segments.forEach((oilSeg, i) => {
+      const gasSeg = gasRun.segments[i];
+      const need = gasSeg.consumption_mt.LNG;
+      const share = gasMode && need > 0 ? Math.min(1, Math.max(0, (lng - heelMt) / need)) : 0;
+      const boilOff = lng * borSea * oilSeg.duration_days;
+      const loss = Math.min(lng, Math.max(0, boilOff - share * need));
+      lng -= share * need + loss;
+      burned += share * need;
+      lost += loss;
+
+      const segmentPilot =
+        gasSeg.consumption_mt.LSMGO - gasSeg.auxiliary_engine.consumption_mt_per_day * gasSeg.duration_days;
+      vlsfo += (1 - share) * oilSeg.consumption_mt.VLSFO;
+      lsmgo += share * gasSeg.consumption_mt.LSMGO + (1 - share) * oilSeg.consumption_mt.LSMGO;
+      pilot += share * segmentPilot;
+
+      const mainFuel = oilSeg.main_engine.consumption_mt_per_day * oilSeg.duration_days;
+      gasMainFuel += share * mainFuel;
+      totalMainFuel += mainFuel;
+    });
+
+    const anchorLoss = Math.min(lng, lng * borAnchor * anchorDays);
+    lng -= anchorLoss;
+    lost += anchorLoss;
+
+    return {
+      burned_mt: burned,
+      boil_off_loss_mt: lost,
+      gas_mode_share: totalMainFuel > 0 ? gasMainFuel / totalMainFuel : 0,
+      VLSFO: vlsfo,
+      LSMGO: lsmgo,
+      pilot_mt: pilot,
+      arrival_mt: lng,
+    };
+  }
+
+  /**
+   * Fuel, EU ETS (CO2 and methane) and FuelEU cost of one strategy
+   */
+  private costStrategy(
+    strategy: DualFuelStrategy,
+    passage: LNGPassage,
+    lngBunker: number,
+    compliance: {
+      input: DualFuelEconomicsInput;
+      params: DualFuelEconomicsParameters;
+      year: number;
+      slipPercent: number;
+      prices: { VLSFO: number; LSMGO: number; LNG: number };
+    }
+  ): DualFuelStrategyCost {
+    const { input, params, year, slipPercent, prices } = compliance;
+    const slip = slipPercent / 100;
+    const lngConsumed = passage.burned_mt + passage.boil_off_loss_mt;
+    const consumption: DualFuelConsumption = {
+      VLSFO: passage.VLSFO,
+      LSMGO: passage.LSMGO,
+      LNG: lngConsumed,
+      total: passage.VLSFO + passage.LSMGO + lngConsumed,
+    };
+    const fuelCost = consumption.VLSFO * prices.VLSFO + consumption.LSMGO * prices.LSMGO + lngConsumed * prices.LNG;
+
+    // EU ETS: slipped methane is not combusted; GCU boil-off is
+    const ets = input.eu_ets_cost_per_mt_usd;
+    const methaneSlip = passage.burned_mt * slip;
+    const etsCost =
+      consumption.VLSFO * (ets?.VLSFO ?? 0) +
+      consumption.LSMGO * (ets?.LSMGO ?? 0) +
+      (passage.burned_mt - methaneSlip + passage.boil_off_loss_mt) * (ets?.LNG ?? 0);
+    const etsCostPerTCO2 = (ets?.LNG ?? 0) / CO2_EMISSION_FACTORS.LNG;
+    const etsMethaneCost =
+      year >= params.eu_ets_methane_from_year ? methaneSlip * params.eu_ets_methane_gwp * etsCostPerTCO2 : 0;
+
+    // FuelEU: energy used in the engines, with the engine type's methane slip
+    const { energy_mj, ghg_intensity_gco2e_per_mj } = fuelEUMaritimeEngine.calculateIntensity(
+      { VLSFO: passage.VLSFO, LSMGO: passage.LSMGO, LNG: passage.burned_mt },
+      { lng_slip_percent: slipPercent }
+    );
+    let balance: number | null = null;
+    let penaltyUsd = 0;
+    if (input.fueleu_coverage_percent !== undefined) {
+      const fuelEU = fuelEUMaritimeEngine.getParameters();
+      const energyInScope = energy_mj * (input.fueleu_coverage_percent / 100);
+      const balanceG = (fuelEUMaritimeEngine.getTargetIntensity(year) - ghg_intensity_gco2e_per_mj) * energyInScope;
+      balance = balanceG / 1_000_000;
+      if (balanceG < 0 && ghg_intensity_gco2e_per_mj > 0) {
+        const penaltyEur =
+          (Math.abs(balanceG) / (ghg_intensity_gco2e_per_mj * fuelEU.vlsfo_energy_mj_per_t)) *
+          fuelEU.penalty_eur_per_t_vlsfo_eq;
+        penaltyUsd = penaltyEur * euEtsEngine.getParameters().eur_usd_rate;
+      }
+    }
+
+    return {
+      strategy,
+      consumption_mt: consumption,
+      gas_mode_percent: passage.gas_mode_share * 100,
+      pilot_fuel_mt: passage.pilot_mt,
+      boil_off_loss_mt: passage.boil_off_loss_mt,
+      lng_bunker_mt: lngBunker,
+      lng_rob_on_arrival_mt: passage.arrival_mt,
+      methane_slip_t: methaneSlip,
+      fuel_cost_usd: fuelCost,
+      eu_ets_cost_usd: etsCost,
+      eu_ets_methane_cost_usd: etsMethaneCost,
+      fueleu_ghg_intensity_gco2e_per_mj: ghg_intensity_gco2e_per_mj,
+      fueleu_balance_tco2e: balance,
+      fueleu_penalty_usd: penaltyUsd,
+      total_cost_usd: fuelCost + etsCost + etsMethaneCost + penaltyUsd,
+    };
+  }
+}
+
+// Export singleton instance
+export const dualFuelEconomicsEngine = new DualFuelEconomicsEngine();
@@ -3,8 +3,13 @@
  * 
  * Calculates fuel consumption with proper ECA fuel switching logic.
  * CRITICAL: Inside ECA, main engine SWITCHES to LSMGO (not add).
+ * Scrubber-fitted vessels keep burning HSFO on the main engine (inside and outside ECA)
+ * unless the segment is in a discharge-ban area for their scrubber type.
+ * Dual-fuel vessels in gas mode burn LNG plus pilot LSMGO on the main engine everywhere.
  */
 
+import type { ScrubberFitment, ScrubberType } from '@/lib/types/bunker';
+
 export interface ECAZone {
   zone_name: string;
   start_distance: number;  // Nautical miles from origin
@@ -25,6 +30,18 @@ export interface RouteSegment {
   distance_nm: number;
   is_eca: boolean;
   eca_zone_name?: string;
+  /** Scrubber washwater discharge is banned here for the listed scrubber types */
+  scrubber_discharge_ban?: {
+    area: string;
+    applies_to: ScrubberType[];
+  };
+}
+
+/** Gas-mode main engine fuel per MT of the diesel-mode fuel it replaces (see DualFuelEconomicsEngine) */
+export interface GasModeFactors {
+  lng_per_oil_mt: number;
+  /** Pilot LSMGO */
+  pilot_per_oil_mt: number;
 }
 
 export interface ECAConsumptionInput {
@@ -41,11 +58,19 @@ export interface ECAConsumptionInput {
   weather_factor?: number;  // 1.0 to 1.5
   fouling_factor?: number;  // 1.0 to 1.3
   loading_factor?: number;  // 0.85 to 1.15
+
+  // Exhaust gas scrubber (main engine burns HSFO where it may operate)
+  scrubber?: ScrubberFitment;
+
+  // Dual-fuel vessel in gas mode (takes precedence over the scrubber)
+  gas_mode?: GasModeFactors;
 }
 
 export interface FuelConsumptionByType {
   VLSFO: number;
   LSMGO: number;
+  HSFO: number;
+  LNG: number;
   total: number;
 }
 
@@ -56,6 +81,10 @@ export interface SegmentConsumption {
   distance_nm: number;
   duration_days: number;
   is_eca: boolean;
+  /** Main engine burned HSFO through the scrubber on this segment */
+  scrubber_in_use: boolean;
+  /** Main engine burned LNG (with pilot LSMGO) on this segment */
+  gas_mode: boolean;
   
   // Consumption by fuel type
   consumption_mt: FuelConsumptionByType;
@@ -63,7 +92,7 @@ export interface SegmentConsumption {
   
   // Breakdown
   main_engine: {
-    fuel_type: 'VLSFO' | 'LSMGO';
+    fuel_type: 'VLSFO' | 'LSMGO' | 'HSFO' | 'LNG';
     consumption_mt_per_day: number;
   };
   auxiliary_engine: {
@@ -109,9 +138,23 @@ export class ECAConsumptionEngine {
       
       let vlsfoPerDay = 0;
       let lsmgoPerDay = 0;
-      let mainEngineFuelType: 'VLSFO' | 'LSMGO';
+      let hsfoPerDay = 0;
+      let lngPerDay = 0;
+      let mainEngineFuelType: 'VLSFO' | 'LSMGO' | 'HSFO' | 'LNG';
+      const gasMode = input.gas_mode !== undefined;
+      const scrubberInUse = !gasMode && this.canUseScrubber(input.scrubber, segment);
       
-      if (segment.is_eca) {
+      if (input.gas_mode) {
+        // Gas mode: LNG plus pilot oil (sulphur-free, so also inside ECA)
+        mainEngineFuelType = 'LNG';
+        lngPerDay = adjustedMainEngine * input.gas_mode.lng_per_oil_mt;
+        lsmgoPerDay = adjustedMainEngine * input.gas_mode.pilot_per_oil_mt + adjustedAuxiliary;
+      } else if (scrubberInUse) {
+        // Scrubber running: main engine burns HSFO (equivalent to compliant fuel, also inside ECA)
+        mainEngineFuelType = 'HSFO';
+        hsfoPerDay = adjustedMainEngine;
+        lsmgoPerDay = adjustedAuxiliary;
+      } else if (segment.is_eca) {
         // Inside ECA: Main engine switches to LSMGO
         mainEngineFuelType = 'LSMGO';
         vlsfoPerDay = 0;
@@ -123,7 +166,7 @@ export class ECAConsumptionEngine {
         lsmgoPerDay = adjustedAuxiliary;
       }
       
-      const totalPerDay = vlsfoPerDay + lsmgoPerDay;
+      const totalPerDay = vlsfoPerDay + lsmgoPerDay + hsfoPerDay + lngPerDay;
       
       segments.push({
         segment_id: segment.segment_id,
@@ -132,22 +175,28 @@ export class ECAConsumptionEngine {
         distance_nm: segment.distance_nm,
         duration_days: durationDays,
         is_eca: segment.is_eca,
+        scrubber_in_use: scrubberInUse,
+        gas_mode: gasMode,
         
         consumption_mt: {
           VLSFO: vlsfoPerDay * durationDays,
           LSMGO: lsmgoPerDay * durationDays,
+          HSFO: hsfoPerDay * durationDays,
+          LNG: lngPerDay * durationDays,
           total: totalPerDay * durationDays,
         },
         
         consumption_mt_per_day: {
           VLSFO: vlsfoPerDay,
           LSMGO: lsmgoPerDay,
+          HSFO: hsfoPerDay,
+          LNG: lngPerDay,
           total: totalPerDay,
         },
         
         main_engine: {
           fuel_type: mainEngineFuelType,
-          consumption_mt_per_day: adjustedMainEngine,
+          consumption_mt_per_day: gasMode ? lngPerDay : adjustedMainEngine,
         },
         
         auxiliary_engine: {
@@ -160,6 +209,8 @@ export class ECAConsumptionEngine {
     // Calculate totals
     const totalVLSFO = segments.reduce((sum, s) => sum + s.consumption_mt.VLSFO, 0);
     const totalLSMGO = segments.reduce((sum, s) => sum + s.consumption_mt.LSMGO, 0);
+    const totalHSFO = segments.reduce((sum, s) => sum + s.consumption_mt.HSFO, 0);
+    const totalLNG = segments.reduce((sum, s) => sum + s.consumption_mt.LNG, 0);
     const totalDistance = segments.reduce((sum, s) => sum + s.distance_nm, 0);
     const totalDuration = segments.reduce((sum, s) => sum + s.duration_days, 0);
     
@@ -174,7 +225,9 @@ export class ECAConsumptionEngine {
       total_consumption_mt: {
         VLSFO: totalVLSFO,
         LSMGO: totalLSMGO,
-        total: totalVLSFO + totalLSMGO,
+        HSFO: totalHSFO,
+        LNG: totalLNG,
+        total: totalVLSFO + totalLSMGO + totalHSFO + totalLNG,
       },
       total_duration_days: totalDuration,
       total_distance_nm: totalDistance,
@@ -212,12 +265,16 @@ export class ECAConsumptionEngine {
       return {
         VLSFO: 0,
         LSMGO: (adjustedMain + adjustedAux) * durationDays,
+        HSFO: 0,
+        LNG: 0,
         total: (adjustedMain + adjustedAux) * durationDays,
       };
     } else {
       return {
         VLSFO: adjustedMain * durationDays,
         LSMGO: adjustedAux * durationDays,
+        HSFO: 0,
+        LNG: 0,
         total: (adjustedMain + adjustedAux) * durationDays,
       };
     }
@@ -238,6 +295,15 @@ export class ECAConsumptionEngine {
     // Check that no segment has both VLSFO and LSMGO > 0 for main engine
     // (main engine uses only one fuel type at a time)
     for (const segment of consumption.segments) {
+      if (segment.scrubber_in_use || segment.gas_mode) {
+        if (segment.consumption_mt_per_day.VLSFO > 0) {
+          issues.push(
+            `${segment.gas_mode ? 'Gas-mode' : 'Scrubber'} segment ${segment.segment_id} has VLSFO consumption (should be 0)`
+          );
+        }
+        continue;
+      }
+      
       if (segment.is_eca && segment.consumption_mt_per_day.VLSFO > 0) {
         issues.push(
           `ECA segment ${segment.segment_id} has VLSFO consumption (should be 0)`
@@ -256,6 +322,16 @@ export class ECAConsumptionEngine {
       issues,
     };
   }
+  
+  /**
+   * Whether the scrubber may run on a segment: fitted, and not in a discharge-ban area
+   * for its type (an unspecified type is treated as open loop)
+   */
+  private canUseScrubber(scrubber: ScrubberFitment | undefined, segment: RouteSegment): boolean {
+    if (!scrubber?.fitted) return false;
+    const ban = segment.scrubber_discharge_ban;
+    return !ban || !ban.applies_to.includes(scrubber.type ?? 'open_loop');
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,292 @@
+/**
+ * EU ETS Engine
+ *
+ * EU Emissions Trading System cost of a voyage (Directive 2003/87/EC as amended for maritime):
+ * - each leg is classified by its port calls: intra-EU (100% of emissions in scope),
+ *   extra-EU (one end outside the EU/EEA, 50%) or at berth in an EU port (100%)
+ * - CO2 = Σ(fuel burnt by grade × CO2 factor), same factors as the CII calculator
+ * - allowances to surrender = CO2 in scope × phase-in % for the reporting year (40% 2024, 70% 2025, 100% 2026+)
+ * - cost = allowances × EUA price (EUR per t CO2), converted to USD for comparison with fuel cost
+ *
+ * Phase-in, coverage, EUA price fallback and at-berth assumptions come from
+ * config/engine-params/eu-ets.yaml with fallbacks.
+ */
+
+import { getConfigManager } from '@/lib/config/config-manager';
+import { CO2_EMISSION_FACTORS, type CIIFuelGrade, type FuelConsumption } from './cii-calculator-engine';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '💶 [EU-ETS-ENGINE]';
+
+const DEFAULT_PARAMETERS: EUETSParameters = {
+  phase_in_percent: { 2024: 40, 2025: 70, 2026: 100 },
+  intra_eu_coverage_percent: 100,
+  extra_eu_coverage_percent: 50,
+  at_berth_coverage_percent: 100,
+  eua_price_eur: 70,
+  eur_usd_rate: 1.08,
+  berth_days_at_destination: 1,
+};
+
+/** EU/EEA country prefixes of UN/LOCODE port codes (EU ETS scope) */
+const EU_EEA_COUNTRY_CODES = new Set([
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE', 'IT',
+  'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE', 'IS', 'NO', 'LI',
+]);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EUETSLegType = 'intra_eu' | 'extra_eu' | 'at_berth' | 'out_of_scope';
+
+export interface EUETSParameters {
+  /** Phase-in (%) of covered emissions by reporting year */
+  phase_in_percent: Record<number, number>;
+  intra_eu_coverage_percent: number;
+  extra_eu_coverage_percent: number;
+  at_berth_coverage_percent: number;
+  /** Fallback EUA price (EUR per t CO2) when no price source is available */
+  eua_price_eur: number;
+  eur_usd_rate: number;
+  berth_days_at_destination: number;
+}
+
+export interface EUETSLegInput {
+  /** Departure port (UN/LOCODE); for an at-berth stay, the berth port */
+  from_port_code: string;
+  /** Arrival port (UN/LOCODE); omitted for at-berth stays */
+  to_port_code?: string;
+  at_berth?: boolean;
+  fuel_consumed_mt: FuelConsumption;
+}
+
+export interface EUETSInput {
+  /** Reporting year (selects the phase-in percentage) */
+  year: number;
+  legs: EUETSLegInput[];
+  /** EUA price (EUR per t CO2); defaults to eua_price_eur from engine params */
+  eua_price_eur?: number;
+  eur_usd_rate?: number;
+  /** Where the EUA price came from (e.g. 'api', 'config') */
+  price_source?: string;
+  price_date?: string;
+}
+
+export interface EUETSLegResult {
+  from_port_code: string;
+  to_port_code?: string;
+  leg_type: EUETSLegType;
+  /** Share (%) of the leg's emissions in scope */
+  coverage_percent: number;
+  fuel_consumed_mt: FuelConsumption;
+  co2_tonnes: number;
+  /** CO2 in scope (co2 × coverage) */
+  covered_co2_tonnes: number;
+  /** EUAs to surrender (covered CO2 × phase-in) */
+  allowances: number;
+  cost_eur: number;
+  cost_usd: number;
+}
+
+export interface EUETSResult {
+  year: number;
+  phase_in_percent: number;
+  /** Whether any leg falls under EU ETS */
+  in_scope: boolean;
+  legs: EUETSLegResult[];
+  total_co2_tonnes: number;
+  covered_co2_tonnes: number;
+  allowances_required: number;
+  eua_price_eur: number;
+  eur_usd_rate: number;
+  price_source: string;
+  price_date?: string;
+  total_cost_eur: number;
+  total_cost_usd: number;
+  /** Allowance cost (USD) per t of fuel burnt on the sea passage, for pricing extra fuel (e.g. bunker deviations) */
+  voyage_cost_per_mt_fuel_usd: Partial<Record<CIIFuelGrade, number>>;
+  warnings: string[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Whether a UN/LOCODE port code is in an EU/EEA country
+ */
+export function isEUETSPort(portCode: string | null | undefined): boolean {
+  if (!portCode) return false;
+  return EU_EEA_COUNTRY_CODES.has(portCode.trim().slice(0, 2).toUpperCase());
+}
+
+// ============================================================================
+// EU ETS Engine
+// ============================================================================
+
+export class EUETSEngine {
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from engine params on each call
+   */
+  constructor(private overrides?: Partial<EUETSParameters>) {}
+
+  /**
+   * Resolve parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): EUETSParameters {
+    const p = getConfigManager().getEngineParams('eu_ets')?.parameters ?? {};
+    const phaseInFromYaml: Record<number, number> = {};
+    for (const [key, value] of Object.entries(p)) {
+      const match = key.match(/^phase_in_(\d{4})$/);
+      if (match && typeof value === 'number') phaseInFromYaml[Number(match[1])] = value;
+    }
+    const resolve = (key: Exclude<keyof EUETSParameters, 'phase_in_percent'>): number =>
+      this.overrides?.[key] ?? p[key] ?? DEFAULT_PARAMETERS[key];
+    return {
+      phase_in_percent:
+        this.overrides?.phase_in_percent ??
+        (Object.keys(phaseInFromYaml).length > 0 ? phaseInFromYaml : DEFAULT_PARAMETERS.phase_in_percent),
+      intra_eu_coverage_percent: resolve('intra_eu_coverage_percent'),
+      extra_eu_coverage_percent: resolve('extra_eu_coverage_percent'),
+      at_berth_coverage_percent: resolve('at_berth_coverage_percent'),
+      eua_price_eur: resolve('eua_price_eur'),
+      eur_usd_rate: resolve('eur_usd_rate'),
+      berth_days_at_destination: resolve('berth_days_at_destination'),
+    };
+  }
+
+  /**
+   * Phase-in (%) for a reporting year; 0 before the first year, last known value after the table ends
+   */
+  public getPhaseInPercent(year: number): number {
+    const table = this.getParameters().phase_in_percent;
+    if (table[year] !== undefined) return table[year];
+    const years = Object.keys(table).map(Number).sort((a, b) => a - b);
+    if (years.length === 0 || year < years[0]) return 0;
+    return table[years.filter((y) => y <= year).pop()!];
+  }
+
+  /**
+   * Classify a leg and return the share (%) of its emissions in scope
+   */
+  public classifyLeg(leg: Pick<EUETSLegInput, 'from_port_code' | 'to_port_code' | 'at_berth'>): {
+    leg_type: EUETSLegType;
+    coverage_percent: number;
+  } {
+    const params = this.getParameters();
+    const fromEU = isEUETSPort(leg.from_port_code);
+
+    if (leg.at_berth) {
+      return fromEU
+        ? { leg_type: 'at_berth', coverage_percent: params.at_berth_coverage_percent }
+        : { leg_type: 'out_of_scope', coverage_percent: 0 };
+    }
+
+    const toEU = isEUETSPort(leg.to_port_code);
+    if (fromEU && toEU) return { leg_type: 'intra_eu', coverage_percent: params.intra_eu_coverage_percent };
+    if (fromEU || toEU) return { leg_type: 'extra_eu', coverage_percent: params.extra_eu_coverage_percent };
+    return { leg_type: 'out_of_scope', coverage_percent: 0 };
+  }
+
+  /**
+   * CO2 emitted (t) for fuel burnt by grade
+   */
+  public calculateCO2(fuel: FuelConsumption): number {
+    return Object.entries(fuel).reduce(
+      (sum, [grade, mt]) => sum + (mt ?? 0) * (CO2_EMISSION_FACTORS[grade as CIIFuelGrade] ?? 0),
+      0
+    );
+  }
+
+  /**
+   * Allowance cost (USD) of burning one tonne of a fuel grade on a leg with the given coverage
+   */
+  public getCostPerTonneFuel(
+    grade: CIIFuelGrade,
+    coveragePercent: number,
+    year: number,
+    euaPriceEur: number,
+    eurUsdRate: number
+  ): number {
+    const factor = CO2_EMISSION_FACTORS[grade] ?? 0;
+    return factor * (coveragePercent / 100) * (this.getPhaseInPercent(year) / 100) * euaPriceEur * eurUsdRate;
+  }
+
+  /**
+   * Emissions, allowances and cost per leg and for the whole voyage
+   */
+  public calculateVoyage(input: EUETSInput): EUETSResult {
+    const params = this.getParameters();
+    const phaseIn = this.getPhaseInPercent(input.year);
+    const euaPrice = input.eua_price_eur ?? params.eua_price_eur;
+    const fxRate = input.eur_usd_rate ?? params.eur_usd_rate;
+    const warnings: string[] = [];
+
+    if (phaseIn === 0) {
+      warnings.push(`EU ETS does not apply to shipping emissions in ${input.year}`);
+    }
+
+    const legs: EUETSLegResult[] = input.legs.map((leg) => {
+      if (!leg.from_port_code || (!leg.at_berth && !leg.to_port_code)) {
+        warnings.push('Leg without port codes treated as out of EU ETS scope');
+      }
+      const { leg_type, coverage_percent } = this.classifyLeg(leg);
+      const co2 = this.calculateCO2(leg.fuel_consumed_mt);
+      const covered = co2 * (coverage_percent / 100);
+      const allowances = covered * (phaseIn / 100);
+      const costEur = allowances * euaPrice;
+      return {
+        from_port_code: leg.from_port_code,
+        to_port_code: leg.to_port_code,
+        leg_type,
+        coverage_percent,
+        fuel_consumed_mt: leg.fuel_consumed_mt,
+        co2_tonnes: co2,
+        covered_co2_tonnes: covered,
+        allowances,
+        cost_eur: costEur,
+        cost_usd: costEur * fxRate,
+      };
+    });
+
+    const sum = (pick: (leg: EUETSLegResult) => number) => legs.reduce((total, leg) => total + pick(leg), 0);
+    const totalCostEur = sum((leg) => leg.cost_eur);
+
+    const seaLeg = legs.find((leg) => leg.leg_type !== 'at_berth');
+    const voyageCostPerMt: Partial<Record<CIIFuelGrade, number>> = {};
+    for (const grade of Object.keys(CO2_EMISSION_FACTORS) as CIIFuelGrade[]) {
+      voyageCostPerMt[grade] = this.getCostPerTonneFuel(grade, seaLeg?.coverage_percent ?? 0, input.year, euaPrice, fxRate);
+    }
+
+    const result: EUETSResult = {
+      year: input.year,
+      phase_in_percent: phaseIn,
+      in_scope: legs.some((leg) => leg.coverage_percent > 0) && phaseIn > 0,
+      legs,
+      total_co2_tonnes: sum((leg) => leg.co2_tonnes),
+      covered_co2_tonnes: sum((leg) => leg.covered_co2_tonnes),
+      allowances_required: sum((leg) => leg.allowances),
+      eua_price_eur: euaPrice,
+      eur_usd_rate: fxRate,
+      price_source: input.price_source ?? 'config',
+      price_date: input.price_date,
+      total_cost_eur: totalCostEur,
+      total_cost_usd: totalCostEur * fxRate,
+      voyage_cost_per_mt_fuel_usd: voyageCostPerMt,
+      warnings,
+    };
+
+    console.log(
+      `${LOG_PREFIX} ${input.year}: ${result.allowances_required.toFixed(1)} EUAs ` +
+        `(${result.covered_co2_tonnes.toFixed(1)} t CO2 in scope × ${phaseIn}%) = €${totalCostEur.toFixed(0)}`
+    );
+    return result;
+  }
+}
+
+// Export singleton instance
+export const euEtsEngine = new EUETSEngine();
@@ -0,0 +1,395 @@
+/**
+ * FuelEU Maritime Engine
+ *
+ * Regulation (EU) 2023/1805 for a planned voyage:
+ * - well-to-wake GHG intensity = Σ(energy × (WtT + TtW)) / Σ energy in gCO2e/MJ, with energy =
+ *   fuel mass × LCV and TtW from the CO2/CH4/N2O factors (GWP100: CH4 25, N2O 298) incl. LNG slip
+ * - energy in scope by leg: intra-EU 100%, extra-EU 50%, at berth in an EU port 100%
+ *   (same port-call classification as the EU ETS engine)
+ * - target = 91.16 × (1 − reduction for the year), compliance balance = (target − actual) × energy in scope
+ * - penalty (deficit only) = |balance| / (actual × 41,000) × €2,400
+ *
+ * Biofuel blends (e.g. B30) replace that share (by mass) of residual fuel with FAME, so a
+ * "what if I bunker B30" scenario can be compared against the planned fuel mix.
+ *
+ * Targets, coverage, penalty rate and biofuel WtT come from
+ * config/engine-params/fueleu-maritime.yaml with fallbacks.
+ */
+
+import { getConfigManager } from '@/lib/config/config-manager';
+import type { CIIFuelGrade } from './cii-calculator-engine';
+import { euEtsEngine, type EUETSLegType } from './eu-ets-engine';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '🌱 [FUELEU-ENGINE]';
+
+const DEFAULT_PARAMETERS: FuelEUParameters = {
+  reference_ghg_intensity: 91.16,
+  reduction_percent: { 2025: 2, 2030: 6, 2035: 14.5, 2040: 31, 2045: 62, 2050: 80 },
+  intra_eu_coverage_percent: 100,
+  extra_eu_coverage_percent: 50,
+  at_berth_coverage_percent: 100,
+  penalty_eur_per_t_vlsfo_eq: 2400,
+  vlsfo_energy_mj_per_t: 41000,
+  biofuel_wtt_gco2e_per_mj: 14,
+};
+
+const GWP_CH4 = 25;
+const GWP_N2O = 298;
+
+/** Residual fuels a biofuel blend replaces */
+const BLENDABLE_FUELS: FuelEUFuelType[] = ['HSFO', 'VLSFO', 'ULSFO'];
+
+interface FuelPathway {
+  /** Lower calorific value (MJ/g) */
+  lcv_mj_per_g: number;
+  /** Well-to-tank intensity (gCO2e/MJ); biofuel WtT comes from engine params */
+  wtt_gco2e_per_mj: number | null;
+  /** Tank-to-wake emission factors (g/g fuel) */
+  cf_co2: number;
+  cf_ch4: number;
+  cf_n2o: number;
+  /** Methane slip (% of fuel mass) */
+  slip_percent?: number;
+}
+
+/** Default fuel pathways (Annex II); biofuel CO2 is biogenic (Cf CO2 = 0) */
+const FUEL_PATHWAYS: Record<FuelEUFuelType, FuelPathway> = {
+  HSFO: { lcv_mj_per_g: 0.0405, wtt_gco2e_per_mj: 13.5, cf_co2: 3.114, cf_ch4: 0.00005, cf_n2o: 0.00018 },
+  VLSFO: { lcv_mj_per_g: 0.041, wtt_gco2e_per_mj: 13.2, cf_co2: 3.151, cf_ch4: 0.00005, cf_n2o: 0.00018 },
+  ULSFO: { lcv_mj_per_g: 0.041, wtt_gco2e_per_mj: 13.2, cf_co2: 3.151, cf_ch4: 0.00005, cf_n2o: 0.00018 },
+  LSMGO: { lcv_mj_per_g: 0.0427, wtt_gco2e_per_mj: 14.4, cf_co2: 3.206, cf_ch4: 0.00005, cf_n2o: 0.00018 },
+  MGO: { lcv_mj_per_g: 0.0427, wtt_gco2e_per_mj: 14.4, cf_co2: 3.206, cf_ch4: 0.00005, cf_n2o: 0.00018 },
+  MDO: { lcv_mj_per_g: 0.0427, wtt_gco2e_per_mj: 14.4, cf_co2: 3.206, cf_ch4: 0.00005, cf_n2o: 0.00018 },
+  // LNG Otto (medium speed), 3.1% methane slip
+  LNG: { lcv_mj_per_g: 0.0491, wtt_gco2e_per_mj: 18.5, cf_co2: 2.75, cf_ch4: 0, cf_n2o: 0.00011, slip_percent: 3.1 },
+  // FAME biodiesel
+  B100: { lcv_mj_per_g: 0.037, wtt_gco2e_per_mj: null, cf_co2: 0, cf_ch4: 0.00005, cf_n2o: 0.00018 },
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FuelEUFuelType = CIIFuelGrade | 'B100';
+
+export type FuelEUFuelMix = Partial<Record<FuelEUFuelType, number>>;
+
+export interface FuelEUParameters {
+  reference_ghg_intensity: number;
+  /** Reduction (%) below the reference applying from each year */
+  reduction_percent: Record<number, number>;
+  intra_eu_coverage_percent: number;
+  extra_eu_coverage_percent: number;
+  at_berth_coverage_percent: number;
+  penalty_eur_per_t_vlsfo_eq: number;
+  vlsfo_energy_mj_per_t: number;
+  biofuel_wtt_gco2e_per_mj: number;
+}
+
+export interface FuelEULegInput {
+  /** Departure port (UN/LOCODE); for an at-berth stay, the berth port */
+  from_port_code: string;
+  /** Arrival port (UN/LOCODE); omitted for at-berth stays */
+  to_port_code?: string;
+  at_berth?: boolean;
+  fuel_consumed_mt: FuelEUFuelMix;
+}
+
+/** Biofuel blend what-if, e.g. B30 bunkered at Rotterdam */
+export interface FuelEUBlendScenario {
+  /** Biofuel share (%) by mass of the blend, e.g. 30 for B30 */
+  blend_percent: number;
+  /** Port where the blend is bunkered (informational) */
+  bunker_port?: string;
+}
+
+export interface FuelEUInput {
+  year: number;
+  legs: FuelEULegInput[];
+  scenario?: FuelEUBlendScenario;
+}
+
+export interface FuelEULegResult {
+  from_port_code: string;
+  to_port_code?: string;
+  leg_type: EUETSLegType;
+  /** Share (%) of the leg's energy in scope */
+  coverage_percent: number;
+  fuel_consumed_mt: FuelEUFuelMix;
+  energy_mj: number;
+  energy_in_scope_mj: number;
+  ghg_intensity_gco2e_per_mj: number;
+}
+
+export interface FuelEUBalance {
+  /** Well-to-wake GHG intensity of the energy in scope (gCO2e/MJ) */
+  ghg_intensity_gco2e_per_mj: number;
+  energy_in_scope_mj: number;
+  /** Compliance balance in gCO2e (negative = deficit) */
+  compliance_balance_gco2e: number;
+  compliance_balance_tco2e: number;
+  penalty_eur: number;
+}
+
+export interface FuelEUScenarioResult extends FuelEUBalance {
+  blend_label: string;
+  blend_percent: number;
+  bunker_port?: string;
+  fuel_mix_mt: FuelEUFuelMix;
+  /** Scenario minus planned intensity (gCO2e/MJ; negative = cleaner) */
+  intensity_change_gco2e_per_mj: number;
+  /** Scenario minus planned penalty (EUR) */
+  penalty_change_eur: number;
+}
+
+export interface FuelEUResult extends FuelEUBalance {
+  year: number;
+  reference_ghg_intensity: number;
+  reduction_percent: number;
+  target_ghg_intensity_gco2e_per_mj: number;
+  /** Whether any energy falls in FuelEU scope */
+  in_scope: boolean;
+  /** Balance is a surplus (or zero) */
+  compliant: boolean;
+  fuel_mix_mt: FuelEUFuelMix;
+  legs: FuelEULegResult[];
+  scenario?: FuelEUScenarioResult;
+  warnings: string[];
+}
+
+// ============================================================================
+// FuelEU Maritime Engine
+// ============================================================================
+
+export class FuelEUMaritimeEngine {
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from engine params on each call
+   */
+  constructor(private overrides?: Partial<FuelEUParameters>) {}
+
+  /**
+   * Resolve parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): FuelEUParameters {
+    const p = getConfigManager().getEngineParams('fueleu_maritime')?.parameters ?? {};
+    const reductionFromYaml: Record<number, number> = {};
+    for (const [key, value] of Object.entries(p)) {
+      const match = key.match(/^reduction_(\d{4})$/);
+      if (match && typeof value === 'number') reductionFromYaml[Number(match[1])] = value;
+    }
+    const resolve = (key: Exclude<keyof FuelEUParameters, 'reduction_percent'>): number =>
+      this.overrides?.[key] ?? p[key] ?? DEFAULT_PARAMETERS[key];
+    return {
+      reference_ghg_intensity: resolve('reference_ghg_intensity'),
+      reduction_percent:
+        this.overrides?.reduction_percent ??
+        (Object.keys(reductionFromYaml).length > 0 ? reductionFromYaml : DEFAULT_PARAMETERS.reduction_percent),
+      intra_eu_coverage_percent: resolve('intra_eu_coverage_percent'),
+      extra_eu_coverage_percent: resolve('extra_eu_coverage_percent'),
+      at_berth_coverage_percent: resolve('at_berth_coverage_percent'),
+      penalty_eur_per_t_vlsfo_eq: resolve('penalty_eur_per_t_vlsfo_eq'),
+      vlsfo_energy_mj_per_t: resolve('vlsfo_energy_mj_per_t'),
+      biofuel_wtt_gco2e_per_mj: resolve('biofuel_wtt_gco2e_per_mj'),
+    };
+  }
+
+  /**
+   * Reduction (%) for a year: the latest step at or before the year, 0 before the first step
+   */
+  public getReductionPercent(year: number): number {
+    const table = this.getParameters().reduction_percent;
+    const years = Object.keys(table).map(Number).sort((a, b) => a - b);
+    const step = years.filter((y) => y <= year).pop();
+    return step === undefined ? 0 : table[step];
+  }
+
+  /**
+   * Target GHG intensity (gCO2e/MJ) for a year
+   */
+  public getTargetIntensity(year: number): number {
+    return this.getParameters().reference_ghg_intensity * (1 - this.getReductionPercent(year) / 100);
+  }
+
+  /**
+   * Well-to-wake GHG intensity (gCO2e/MJ) of a fuel
+   *
+   * @param lngSlipPercent - Methane slip (% of LNG mass) of the engine burning it; default LNG Otto medium speed
+   */
+  public getWtWIntensity(fuel: FuelEUFuelType, lngSlipPercent?: number): number {
+    const pathway = FUEL_PATHWAYS[fuel];
+    const slip = ((fuel === 'LNG' ? lngSlipPercent : undefined) ?? pathway.slip_percent ?? 0) / 100;
+    const co2eCombusted = pathway.cf_co2 + pathway.cf_ch4 * GWP_CH4 + pathway.cf_n2o * GWP_N2O;
+    const ttw = ((1 - slip) * co2eCombusted + slip * GWP_CH4) / pathway.lcv_mj_per_g;
+    const wtt = pathway.wtt_gco2e_per_mj ?? this.getParameters().biofuel_wtt_gco2e_per_mj;
+    return wtt + ttw;
+  }
+
+  /**
+   * Energy (MJ) and well-to-wake GHG intensity of a fuel mix
+   */
+  public calculateIntensity(
+    fuel: FuelEUFuelMix,
+    options: { lng_slip_percent?: number } = {}
+  ): { energy_mj: number; ghg_intensity_gco2e_per_mj: number } {
+    let energy = 0;
+    let ghg = 0;
+    for (const [type, mt] of Object.entries(fuel) as Array<[FuelEUFuelType, number | undefined]>) {
+      const pathway = FUEL_PATHWAYS[type];
+      if (!pathway || !mt || mt <= 0) continue;
+      const fuelEnergy = mt * 1_000_000 * pathway.lcv_mj_per_g;
+      energy += fuelEnergy;
+      ghg += fuelEnergy * this.getWtWIntensity(type, options.lng_slip_percent);
+    }
+    return { energy_mj: energy, ghg_intensity_gco2e_per_mj: energy > 0 ? ghg / energy : 0 };
+  }
+
+  /**
+   * Replace blend_percent (by mass) of residual fuel with FAME biodiesel, e.g. B30
+   */
+  public applyBiofuelBlend(fuel: FuelEUFuelMix, blendPercent: number): FuelEUFuelMix {
+    const share = Math.min(100, Math.max(0, blendPercent)) / 100;
+    const blended: FuelEUFuelMix = { ...fuel };
+    let bio = blended.B100 ?? 0;
+    for (const type of BLENDABLE_FUELS) {
+      const mt = blended[type];
+      if (!mt) continue;
+      blended[type] = mt * (1 - share);
+      bio += mt * share;
+    }
+    if (bio > 0) blended.B100 = bio;
+    return blended;
+  }
+
+  /**
+   * GHG intensity, compliance balance and penalty for the voyage, with an optional blend scenario
+   */
+  public calculateVoyage(input: FuelEUInput): FuelEUResult {
+    const params = this.getParameters();
+    const reduction = this.getReductionPercent(input.year);
+    const target = this.getTargetIntensity(input.year);
+    const warnings: string[] = [];
+
+    const firstYear = Math.min(...Object.keys(params.reduction_percent).map(Number));
+    const applies = input.year >= firstYear;
+    if (!applies) {
+      warnings.push(`FuelEU Maritime does not apply before ${firstYear}`);
+    }
+
+    const legs = input.legs.map((leg) => this.calculateLeg(leg, params));
+    const balance = this.calculateBalance(legs, target, params);
+
+    const result: FuelEUResult = {
+      year: input.year,
+      reference_ghg_intensity: params.reference_ghg_intensity,
+      reduction_percent: reduction,
+      target_ghg_intensity_gco2e_per_mj: target,
+      ...balance,
+      in_scope: applies && balance.energy_in_scope_mj > 0,
+      compliant: balance.compliance_balance_gco2e >= 0,
+      fuel_mix_mt: this.sumFuel(legs),
+      legs,
+      warnings,
+    };
+    if (!result.in_scope) {
+      result.compliance_balance_gco2e = 0;
+      result.compliance_balance_tco2e = 0;
+      result.penalty_eur = 0;
+      result.compliant = true;
+    }
+
+    if (input.scenario && result.in_scope) {
+      const scenarioLegs = input.legs.map((leg) =>
+        this.calculateLeg(
+          { ...leg, fuel_consumed_mt: this.applyBiofuelBlend(leg.fuel_consumed_mt, input.scenario!.blend_percent) },
+          params
+        )
+      );
+      const scenarioBalance = this.calculateBalance(scenarioLegs, target, params);
+      result.scenario = {
+        blend_label: `B${Math.round(input.scenario.blend_percent)}`,
+        blend_percent: input.scenario.blend_percent,
+        bunker_port: input.scenario.bunker_port,
+        fuel_mix_mt: this.sumFuel(scenarioLegs),
+        ...scenarioBalance,
+        intensity_change_gco2e_per_mj: scenarioBalance.ghg_intensity_gco2e_per_mj - balance.ghg_intensity_gco2e_per_mj,
+        penalty_change_eur: scenarioBalance.penalty_eur - balance.penalty_eur,
+      };
+    }
+
+    console.log(
+      `${LOG_PREFIX} ${input.year}: ${result.ghg_intensity_gco2e_per_mj.toFixed(2)} vs target ${target.toFixed(2)} gCO2e/MJ, ` +
+        `balance ${result.compliance_balance_tco2e.toFixed(1)} tCO2e, penalty €${result.penalty_eur.toFixed(0)}` +
+        (result.scenario
+          ? `; ${result.scenario.blend_label}: ${result.scenario.ghg_intensity_gco2e_per_mj.toFixed(2)} gCO2e/MJ`
+          : '')
+    );
+    return result;
+  }
+
+  // ==========================================================================
+  // Private helpers
+  // ==========================================================================
+
+  private calculateLeg(leg: FuelEULegInput, params: FuelEUParameters): FuelEULegResult {
+    const { leg_type } = euEtsEngine.classifyLeg(leg);
+    const coverage =
+      leg_type === 'intra_eu'
+        ? params.intra_eu_coverage_percent
+        : leg_type === 'extra_eu'
+          ? params.extra_eu_coverage_percent
+          : leg_type === 'at_berth'
+            ? params.at_berth_coverage_percent
+            : 0;
+    const { energy_mj, ghg_intensity_gco2e_per_mj } = this.calculateIntensity(leg.fuel_consumed_mt);
+    return {
+      from_port_code: leg.from_port_code,
+      to_port_code: leg.to_port_code,
+      leg_type,
+      coverage_percent: coverage,
+      fuel_consumed_mt: leg.fuel_consumed_mt,
+      energy_mj,
+      energy_in_scope_mj: energy_mj * (coverage / 100),
+      ghg_intensity_gco2e_per_mj,
+    };
+  }
+
+  private calculateBalance(legs: FuelEULegResult[], target: number, params: FuelEUParameters): FuelEUBalance {
+    const energyInScope = legs.reduce((sum, leg) => sum + leg.energy_in_scope_mj, 0);
+    // Intensity of the energy in scope; of all energy when nothing is in scope (informational)
+    const weight = (leg: FuelEULegResult) => (energyInScope > 0 ? leg.energy_in_scope_mj : leg.energy_mj);
+    const totalWeight = legs.reduce((sum, leg) => sum + weight(leg), 0);
+    const intensity =
+      totalWeight > 0
+        ? legs.reduce((sum, leg) => sum + weight(leg) * leg.ghg_intensity_gco2e_per_mj, 0) / totalWeight
+        : 0;
+    const balance = (target - intensity) * energyInScope;
+    const penalty =
+      balance < 0 && intensity > 0
+        ? (Math.abs(balance) / (intensity * params.vlsfo_energy_mj_per_t)) * params.penalty_eur_per_t_vlsfo_eq
+        : 0;
+    return {
+      ghg_intensity_gco2e_per_mj: intensity,
+      energy_in_scope_mj: energyInScope,
+      compliance_balance_gco2e: balance,
+      compliance_balance_tco2e: balance / 1_000_000,
+      penalty_eur: penalty,
+    };
+  }
+
+  private sumFuel(legs: FuelEULegResult[]): FuelEUFuelMix {
+    const total: FuelEUFuelMix = {};
+    for (const leg of legs) {
+      for (const [type, mt] of Object.entries(leg.fuel_consumed_mt) as Array<[FuelEUFuelType, number | undefined]>) {
+        if (mt) total[type] = (total[type] ?? 0) + mt;
+      }
+    }
+    return total;
+  }
+}
+
+// Export singleton instance
+export const fuelEUMaritimeEngine = new FuelEUMaritimeEngine();
@@ -0,0 +1,248 @@
+/**
+ * JIT Arrival Engine
+ *
+ * Just-in-time arrival planning: instead of sailing at service speed and waiting at anchor
+ * for the berth, arrive when the berth is expected to be free:
+ * - target arrival = berth window opens + expected anchorage waiting (port congestion)
+ * - recommended speed = distance / time available from the planned departure, not below the
+ *   minimum speed; when even the minimum speed arrives early, departure is postponed instead
+ * - fuel and CO2 of the JIT plan vs arriving early at service speed and waiting at anchor
+ *
+ * Used by the route agent (JIT mode when an arrival window is given) and the voyage timeline.
+ * Parameters come from config/engine-params/jit-arrival.yaml with fallbacks.
+ */
+
+import { getConfigManager } from '@/lib/config/config-manager';
+import { CO2_EMISSION_FACTORS, type CIIFuelGrade } from '@/lib/engines/cii-calculator-engine';
+import { interpolateConsumption } from '@/lib/services/vessel-specs-from-performance';
+import type { VesselPosition } from '@/lib/multi-agent/state';
+import type { SpeedConsumptionPoint } from './speed-optimizer-engine';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '⏱️ [JIT-ARRIVAL-ENGINE]';
+
+const HOURS_PER_DAY = 24;
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+const DEFAULT_PARAMETERS: JitArrivalParameters = {
+  min_speed_knots: 10,
+  anchorage_consumption_mt_per_day: 3,
+  default_service_consumption_mt_per_day: 35,
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface JitArrivalParameters {
+  /** Slowest sustainable speed; below it the vessel waits in port before departing instead */
+  min_speed_knots: number;
+  /** Auxiliary engines and boiler at anchor or idle alongside */
+  anchorage_consumption_mt_per_day: number;
+  /** Main engine consumption at service speed when the vessel is not known */
+  default_service_consumption_mt_per_day: number;
+}
+
+export interface JitArrivalInput {
+  distance_nm: number;
+  /** ISO 8601 */
+  planned_departure: string;
+  service_speed_knots: number;
+  /** Main engine consumption at service speed (cubic law for other speeds when no curve is given) */
+  service_consumption_mt_per_day?: number;
+  consumption_curve?: SpeedConsumptionPoint[];
+  /** Auxiliary consumption at sea */
+  auxiliary_mt_per_day?: number;
+  /** Time between departure and arrival not spent sailing (intermediate port stays) */
+  port_stay_hours?: number;
+  /** Berth window at the destination (ISO 8601) */
+  window_start: string;
+  window_end?: string;
+  /** Expected anchorage waiting after the window opens (port congestion) */
+  anchorage_waiting_hours?: number;
+  fuel_grade?: CIIFuelGrade;
+  /** Postpone departure when slow steaming alone cannot absorb the time (default true) */
+  departure_flexible?: boolean;
+}
+
+export interface JitVoyagePlan {
+  departure: string;
+  arrival: string;
+  speed_knots: number;
+  sea_hours: number;
+  /** Idle in port between the planned and actual departure */
+  idle_hours_before_departure: number;
+  /** At anchor between arrival and berthing */
+  anchorage_hours: number;
+  fuel_mt: number;
+  co2_t: number;
+}
+
+export interface JitArrivalPlan {
+  window_start: string;
+  window_end?: string;
+  anchorage_waiting_hours: number;
+  /** Where the waiting estimate came from (set by the caller) */
+  anchorage_waiting_source?: 'port_capabilities' | 'port_table';
+  /** Expected berthing time the JIT plan arrives for */
+  target_arrival: string;
+  recommended: JitVoyagePlan;
+  /** Service speed from the planned departure, waiting at anchor for the berth */
+  arrive_early: JitVoyagePlan;
+  fuel_saved_mt: number;
+  co2_reduction_t: number;
+  speed_reduction_knots: number;
+  departure_delay_hours: number;
+  /** The target cannot be reached even at service speed */
+  late: boolean;
+  warnings: string[];
+}
+
+// ============================================================================
+// JIT Arrival Engine
+// ============================================================================
+
+export class JitArrivalEngine {
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from engine params on each call
+   */
+  constructor(private overrides?: Partial<JitArrivalParameters>) {}
+
+  /**
+   * Resolve parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): JitArrivalParameters {
+    const p = getConfigManager().getEngineParams('jit_arrival')?.parameters ?? {};
+    const resolve = (key: keyof JitArrivalParameters) =>
+      this.overrides?.[key] ?? p[key] ?? DEFAULT_PARAMETERS[key];
+    return {
+      min_speed_knots: resolve('min_speed_knots'),
+      anchorage_consumption_mt_per_day: resolve('anchorage_consumption_mt_per_day'),
+      default_service_consumption_mt_per_day: resolve('default_service_consumption_mt_per_day'),
+    };
+  }
+
+  /**
+   * Plan a just-in-time arrival and compare it with arriving early.
+   */
+  public plan(input: JitArrivalInput): JitArrivalPlan {
+    const params = this.getParameters();
+    const warnings: string[] = [];
+    const departureMs = Date.parse(input.planned_departure);
+    const windowStartMs = Date.parse(input.window_start);
+    const windowEndMs = input.window_end ? Date.parse(input.window_end) : NaN;
+    if (!Number.isFinite(departureMs) || !Number.isFinite(windowStartMs)) {
+      throw new Error('JIT arrival planning needs a planned departure and berth window start');
+    }
+    if (!(input.distance_nm > 0) || !(input.service_speed_knots > 0)) {
+      throw new Error('JIT arrival planning needs a route distance and service speed');
+    }
+
+    const waitingHours = Math.max(0, input.anchorage_waiting_hours ?? 0);
+    const targetMs = windowStartMs + waitingHours * MS_PER_HOUR;
+    if (Number.isFinite(windowEndMs) && targetMs > windowEndMs) {
+      warnings.push(
+        `Expected anchorage waiting (${waitingHours.toFixed(0)} h) runs past the berth window end`
+      );
+    }
+
+    const serviceConsumption = input.service_consumption_mt_per_day ?? params.default_service_consumption_mt_per_day;
+    const consumptionAt = (speed: number) =>
+      input.consumption_curve && input.consumption_curve.length > 0
+        ? (interpolateConsumption(input.consumption_curve, speed) ?? serviceConsumption)
+        : serviceConsumption * Math.pow(speed / input.service_speed_knots, 3);
+    const fuelGrade = input.fuel_grade ?? 'VLSFO';
+    const stayHours = Math.max(0, input.port_stay_hours ?? 0);
+
+    const voyage = (speed: number, idleHours: number): JitVoyagePlan => {
+      const seaHours = input.distance_nm / speed;
+      const departure = departureMs + idleHours * MS_PER_HOUR;
+      const arrival = departure + (seaHours + stayHours) * MS_PER_HOUR;
+      const anchorageHours = Math.max(0, (targetMs - arrival) / MS_PER_HOUR);
+      const fuel =
+        (seaHours / HOURS_PER_DAY) * (consumptionAt(speed) + (input.auxiliary_mt_per_day ?? 0)) +
+        ((idleHours + anchorageHours) / HOURS_PER_DAY) * params.anchorage_consumption_mt_per_day;
+      return {
+        departure: new Date(departure).toISOString(),
+        arrival: new Date(arrival).toISOString(),
+        speed_knots: speed,
+        sea_hours: seaHours,
+        idle_hours_before_departure: idleHours,
+        anchorage_hours: anchorageHours,
+        fuel_mt: fuel,
+        co2_t: fuel * CO2_EMISSION_FACTORS[fuelGrade],
+      };
+    };
+
+    const arriveEarly = voyage(input.service_speed_knots, 0);
+    const availableSeaHours = (targetMs - departureMs) / MS_PER_HOUR - stayHours;
+    const requiredSpeed = availableSeaHours > 0 ? input.distance_nm / availableSeaHours : Infinity;
+    const late = requiredSpeed > input.service_speed_knots + 1e-9;
+
+    let recommended: JitVoyagePlan;
+    if (late) {
+      recommended = arriveEarly;
+      warnings.push(
+        `Berth target cannot be reached at ${input.service_speed_knots} kn ` +
+          `(needs ${Number.isFinite(requiredSpeed) ? requiredSpeed.toFixed(1) : '∞'} kn)`
+      );
+    } else if (requiredSpeed >= params.min_speed_knots || input.departure_flexible === false) {
+      const speed = Math.max(requiredSpeed, Math.min(params.min_speed_knots, input.service_speed_knots));
+      recommended = voyage(speed, 0);
+      if (speed > requiredSpeed + 1e-9) {
+        warnings.push(
+          `Minimum speed ${params.min_speed_knots} kn still arrives early; ${recommended.anchorage_hours.toFixed(0)} h at anchor`
+        );
+      }
+    } else {
+      // Slowest sustainable speed, departing later
+      const speed = Math.min(params.min_speed_knots, input.service_speed_knots);
+      const idleHours = availableSeaHours - input.distance_nm / speed;
+      recommended = voyage(speed, idleHours);
+    }
+
+    const fuelSaved = arriveEarly.fuel_mt - recommended.fuel_mt;
+    console.log(
+      `${LOG_PREFIX} ${recommended.speed_knots.toFixed(1)} kn departing ${recommended.departure}: ` +
+        `saves ${fuelSaved.toFixed(1)} MT vs ${arriveEarly.anchorage_hours.toFixed(0)} h at anchor`
+    );
+
+    return {
+      window_start: new Date(windowStartMs).toISOString(),
+      ...(Number.isFinite(windowEndMs) && { window_end: new Date(windowEndMs).toISOString() }),
+      anchorage_waiting_hours: waitingHours,
+      target_arrival: new Date(targetMs).toISOString(),
+      recommended,
+      arrive_early: arriveEarly,
+      fuel_saved_mt: fuelSaved,
+      co2_reduction_t: arriveEarly.co2_t - recommended.co2_t,
+      speed_reduction_knots: input.service_speed_knots - recommended.speed_knots,
+      departure_delay_hours: recommended.idle_hours_before_departure,
+      late,
+      warnings,
+    };
+  }
+
+  /**
+   * Re-time timeline positions for the recommended departure and speed (port stays are not included).
+   */
+  public retimeTimeline(timeline: VesselPosition[], plan: JitArrivalPlan, distanceNm: number): VesselPosition[] {
+    if (timeline.length === 0) return timeline;
+    const departureMs = Date.parse(plan.recommended.departure);
+    // Timeline and route distances come from different samplings of the same route
+    const timelineNm = timeline[timeline.length - 1].distance_from_start_nm;
+    const scale = timelineNm > 0 ? distanceNm / timelineNm : 1;
+    return timeline.map((position) => ({
+      ...position,
+      datetime: new Date(
+        departureMs + ((position.distance_from_start_nm * scale) / plan.recommended.speed_knots) * MS_PER_HOUR
+      ).toISOString(),
+    }));
+  }
+}
+
+// Export singleton instance
+export const jitArrivalEngine = new JitArrivalEngine();
@@ -1,84 +1,142 @@
 /**
  * Multi-Port Bunker Planner Engine
- * 
+ *
  * Plans multi-stop bunkering strategies when voyage fuel consumption
- * exceeds vessel capacity (single stop is insufficient).
- * 
- * Phase 1 Constraints:
- * - Maximum 2 bunker stops (departure + 1 mid-voyage port)
- * - Mid-voyage port must be within 100nm of route
- * - Only considers ports with available pricing data
- * 
- * Algorithm:
+ * exceeds vessel capacity (single stop is insufficient), e.g. long ballast legs.
+ *
+ * Constraints:
+ * - Up to max_stops bunker stops (config/engine-params/multi-port-bunker-planner.yaml)
+ * - Stops must be within max_stop_deviation_nm of the route
+ * - Only considers ports with available VLSFO pricing (LSMGO estimated from VLSFO when missing)
+ *
+ * Algorithm (dynamic programming over candidate ports ordered along the route):
  * 1. Detect if multi-port is needed (consumption > capacity)
- * 2. Find departure port (closest to origin)
- * 3. Find mid-voyage ports (30-80% along route, within 100nm)
- * 4. For each mid-voyage candidate, calculate 2-stop plan
- * 5. Validate ROB at all checkpoints (departure, mid-voyage arrival, mid-voyage departure, destination)
- * 6. Rank valid plans by total cost
- * 7. Return top 3 options
+ * 2. Order candidate ports by distance along the route
+ * 3. States are (port, stops made, arrival ROB per grade), starting at the origin with the initial ROB.
+ *    From each stop, every grade either fills to usable capacity or takes just enough to reach the
+ *    next stop (or destination) with the safety margin; with linear prices one of the two is optimal,
+ *    so the optimal stop set and quantities are among these states
+ * 4. ROB must stay at or above the safety margin on arrival at every stop and at the destination
+ * 5. Cost per stop: fuel at that port's per-grade prices plus the port call (PortCallCostEngine);
+ *    deviation is sailed on the fuel bought. Dominated states (higher cost, lower ROB) are pruned
+ * 6. Rank the cheapest plan of each stop set by total cost and return the top plans
  */
 
 import type { RouteData, FuelQuantityMT, MultiBunkerStop, MultiBunkerPlan, MultiBunkerAnalysis } from '../multi-agent/state';
 import type { FoundPort } from '../tools/port-finder';
 import type { PriceFetcherOutput } from '../tools/price-fetcher';
 import type { VesselProfile } from '../services/vessel-service';
-import type { FuelQuantity, ROBTrackingInput } from './rob-tracking-engine';
-import { ROBTrackingEngine } from './rob-tracking-engine';
+import { getConfigManager } from '../config/config-manager';
+import { haversineDistance } from '../utils/coordinate-validator';
+import { capacityValidationEngine } from './capacity-validation-engine';
+import { portCallCostEngine, type PortCallCost } from './port-call-cost-engine';
+import { safetyMarginEngine } from './safety-margin-engine';
 
 // ============================================================================
 // Configuration Constants
 // ============================================================================
 
-/** Minimum route progress for mid-voyage port (30%) */
-const MIN_MIDPOINT_PROGRESS = 0.30;
+const DEFAULT_PARAMETERS: MultiPortPlannerParameters = {
+  max_stops: 4,
+  max_stop_deviation_nm: 100,
+  departure_progress_percent: 20,
+  plans_returned: 3,
+  lsmgo_vlsfo_price_ratio: 1.4,
+};
 
-/** Maximum route progress for mid-voyage port (80%) */
-const MAX_MIDPOINT_PROGRESS = 0.80;
-
-/** Maximum deviation for mid-voyage port in nautical miles */
-const MAX_MIDPOINT_DEVIATION_NM = 100;
-
-/** Default safety margin in days */
-const DEFAULT_SAFETY_MARGIN_DAYS = 3;
-
-/** Default vessel speed in knots (for time calculations) */
-const DEFAULT_VESSEL_SPEED_KNOTS = 14;
+/** Grades planned per stop */
+const GRADES = ['VLSFO', 'LSMGO'] as const;
 
 // ============================================================================
 // Input/Output Types
 // ============================================================================
 
+export interface MultiPortPlannerParameters {
+  /** Maximum number of bunker stops in a plan */
+  max_stops: number;
+  /** Maximum distance of a bunker port from the route (nm) */
+  max_stop_deviation_nm: number;
+  /** A first stop within this share of the route (%) is shown as the departure bunker */
+  departure_progress_percent: number;
+  /** Number of ranked plans returned */
+  plans_returned: number;
+  /** LSMGO price relative to VLSFO when a port quotes no LSMGO */
+  lsmgo_vlsfo_price_ratio: number;
+}
+
 export interface MultiPortPlannerInput {
   /** Route data with waypoints and distance */
   route_data: RouteData;
-  
+
   /** Vessel profile with capacity, consumption, ROB */
   vessel_profile: VesselProfile;
-  
+
   /** Total voyage consumption (weather-adjusted if available) */
   voyage_consumption: FuelQuantityMT;
-  
+
   /** Candidate bunker ports along route */
   candidate_ports: FoundPort[];
-  
+
   /** Port pricing data */
   port_prices: PriceFetcherOutput;
-  
+
   /** Weather consumption adjustment factor (default: 1.0) */
   weather_factor?: number;
-  
-  /** Safety margin in days (default: 3) */
+
+  /** Safety margin in days (default: from SafetyMarginEngine / safety-rules.yaml) */
   safety_margin_days?: number;
+
+  /** Maximum number of bunker stops (default: max_stops from engine params) */
+  max_stops?: number;
+}
+
+/** Candidate bunker port with its position along the route and per-grade prices */
+interface CandidateStop {
+  found: FoundPort;
+  distance_along_route_nm: number;
+  progress: number;
+  prices: { VLSFO: number; LSMGO: number };
+}
+
+/** Bunkering decision at one stop */
+interface StopDecision {
+  candidate: number;
+  arrival_rob: FuelQuantityMT;
+  bunker_quantity: FuelQuantityMT;
+  departure_rob: FuelQuantityMT;
+  fuel_cost_usd: number;
+  port_call: PortCallCost;
+}
+
+/** DP state: arrival at a candidate (or the destination) after the stops in path */
+interface PlanLabel {
+  arrival_rob: FuelQuantityMT;
+  cost_usd: number;
+  path: StopDecision[];
 }
 
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+/**
+ * Resolve planner parameters (YAML → defaults)
+ */
+function getPlannerParameters(): MultiPortPlannerParameters {
+  const p = getConfigManager().getEngineParams('multi_port_bunker_planner')?.parameters ?? {};
+  const resolve = (key: keyof MultiPortPlannerParameters) => p[key] ?? DEFAULT_PARAMETERS[key];
+  return {
+    max_stops: resolve('max_stops'),
+    max_stop_deviation_nm: resolve('max_stop_deviation_nm'),
+    departure_progress_percent: resolve('departure_progress_percent'),
+    plans_returned: resolve('plans_returned'),
+    lsmgo_vlsfo_price_ratio: resolve('lsmgo_vlsfo_price_ratio'),
+  };
+}
+
 /**
  * Get price for a port and fuel type
- * 
+ *
  * PriceFetcherOutput structure:
  * - prices_by_port: Record<port_code, PriceData[]>
  * - PriceData: { price: FuelPrice, is_fresh, ... }
@@ -91,295 +149,224 @@ function getPortPrice(
 ): number | null {
   const portPrices = prices.prices_by_port?.[port_code];
   if (!portPrices || portPrices.length === 0) return null;
-  
+
   // PriceData has a nested `price` field with FuelPrice
   const priceData = portPrices.find(p => p.price?.fuel_type === fuel_type);
   return priceData?.price?.price_per_mt ?? null;
 }
 
 /**
- * Calculate route progress (0-1) for a waypoint index
+ * Distance along the route (nm) at each waypoint, scaled to the route distance
  */
-function calculateRouteProgress(
-  waypointIndex: number,
-  totalWaypoints: number
-): number {
-  if (totalWaypoints <= 1) return 0;
-  return waypointIndex / (totalWaypoints - 1);
+function cumulativeRouteDistances(routeData: RouteData): number[] {
+  const waypoints = routeData.waypoints;
+  const cumulative: number[] = [0];
+  for (let i = 1; i < waypoints.length; i++) {
+    cumulative.push(cumulative[i - 1] + haversineDistance(waypoints[i - 1], waypoints[i]));
+  }
+  const measured = cumulative[cumulative.length - 1];
+  if (measured <= 0) {
+    // Degenerate geometry: spread the route distance evenly over the waypoints
+    return cumulative.map((_, i) => (waypoints.length > 1 ? (i / (waypoints.length - 1)) * routeData.distance_nm : 0));
+  }
+  return cumulative.map((nm) => (nm / measured) * routeData.distance_nm);
 }
 
 /**
- * Calculate distance along route for a waypoint index
- * Approximation based on linear interpolation
+ * Candidate stops: priced ports within the deviation limit, one per port, ordered along the route
  */
-function calculateDistanceAlongRoute(
-  waypointIndex: number,
-  totalWaypoints: number,
-  totalDistance: number
-): number {
-  const progress = calculateRouteProgress(waypointIndex, totalWaypoints);
-  return progress * totalDistance;
+function buildCandidateStops(
+  candidatePorts: FoundPort[],
+  routeData: RouteData,
+  prices: PriceFetcherOutput,
+  params: MultiPortPlannerParameters
+): CandidateStop[] {
+  const alongRoute = cumulativeRouteDistances(routeData);
+  const seen = new Set<string>();
+  const candidates: CandidateStop[] = [];
+
+  for (const found of candidatePorts) {
+    const code = found.port?.port_code;
+    if (!code || seen.has(code)) continue;
+    if (found.distance_from_route_nm > params.max_stop_deviation_nm) continue;
+    const vlsfo = getPortPrice(code, 'VLSFO', prices);
+    if (vlsfo === null) continue;
+    seen.add(code);
+
+    const index = Math.min(Math.max(0, found.nearest_waypoint_index), alongRoute.length - 1);
+    const distanceAlong = alongRoute[index] ?? 0;
+    candidates.push({
+      found,
+      distance_along_route_nm: distanceAlong,
+      progress: routeData.distance_nm > 0 ? distanceAlong / routeData.distance_nm : 0,
+      prices: {
+        VLSFO: vlsfo,
+        LSMGO: getPortPrice(code, 'LSMGO', prices) ?? vlsfo * params.lsmgo_vlsfo_price_ratio,
+      },
+    });
+  }
+
+  return candidates.sort((a, b) => a.distance_along_route_nm - b.distance_along_route_nm);
 }
 
 /**
- * Calculate travel time in days
+ * True when label a is at least as good as b (no more cost, no less ROB in any grade)
  */
-function calculateTravelDays(
-  distance_nm: number,
-  speed_knots: number = DEFAULT_VESSEL_SPEED_KNOTS
-): number {
-  return distance_nm / (speed_knots * 24);
+function dominates(a: PlanLabel, b: PlanLabel): boolean {
+  return (
+    a.cost_usd <= b.cost_usd + 1e-6 &&
+    a.arrival_rob.VLSFO >= b.arrival_rob.VLSFO - 1e-6 &&
+    a.arrival_rob.LSMGO >= b.arrival_rob.LSMGO - 1e-6
+  );
 }
 
 /**
- * Find the best departure port (closest to origin)
+ * Add a label to a bucket unless dominated; drop labels it dominates
  */
-function findDeparturePort(
-  candidatePorts: FoundPort[],
-  routeData: RouteData,
-  prices: PriceFetcherOutput
-): FoundPort | null {
-  const totalWaypoints = routeData.waypoints.length;
-  
-  // Filter ports near the start of route (first 20%)
-  const departureCandidates = candidatePorts.filter(port => {
-    const progress = calculateRouteProgress(port.nearest_waypoint_index, totalWaypoints);
-    // Within first 20% of route, AND has pricing
-    return progress <= 0.20 && getPortPrice(port.port.port_code, 'VLSFO', prices) !== null;
-  });
-  
-  if (departureCandidates.length === 0) {
-    // Fallback: use any port with pricing within 100nm deviation
-    const fallback = candidatePorts.find(port => 
-      port.distance_from_route_nm < 100 && 
-      getPortPrice(port.port.port_code, 'VLSFO', prices) !== null
-    );
-    return fallback || null;
+function addLabel(bucket: PlanLabel[], label: PlanLabel): void {
+  if (bucket.some((existing) => dominates(existing, label))) return;
+  for (let i = bucket.length - 1; i >= 0; i--) {
+    if (dominates(label, bucket[i])) bucket.splice(i, 1);
   }
-  
-  // Sort by distance from route (prefer closer ports)
-  departureCandidates.sort((a, b) => a.distance_from_route_nm - b.distance_from_route_nm);
-  
-  return departureCandidates[0];
+  bucket.push(label);
 }
 
 /**
- * Find valid mid-voyage ports (30-80% along route, within 100nm, with pricing)
+ * Build a ranked-plan stop from a bunkering decision
  */
-function findMidVoyagePorts(
-  candidatePorts: FoundPort[],
-  routeData: RouteData,
-  prices: PriceFetcherOutput,
-  departurePortCode?: string
-): FoundPort[] {
-  const totalWaypoints = routeData.waypoints.length;
-  
-  const midVoyagePorts = candidatePorts.filter(port => {
-    const progress = calculateRouteProgress(port.nearest_waypoint_index, totalWaypoints);
-    
-    // Must be in mid-voyage range (30-80% of route)
-    if (progress < MIN_MIDPOINT_PROGRESS || progress > MAX_MIDPOINT_PROGRESS) {
-      return false;
-    }
-    
-    // Must be within 100nm of route
-    if (port.distance_from_route_nm > MAX_MIDPOINT_DEVIATION_NM) {
-      return false;
-    }
-    
-    // Must have VLSFO pricing
-    if (getPortPrice(port.port.port_code, 'VLSFO', prices) === null) {
-      return false;
-    }
-    
-    // Must not be the same as departure port
-    if (departurePortCode && port.port.port_code === departurePortCode) {
-      return false;
-    }
-    
-    return true;
-  });
-  
-  // Sort by route progress (prefer ports closer to middle of route)
-  midVoyagePorts.sort((a, b) => {
-    const progressA = calculateRouteProgress(a.nearest_waypoint_index, totalWaypoints);
-    const progressB = calculateRouteProgress(b.nearest_waypoint_index, totalWaypoints);
-    // Prefer ports closer to 50% mark
-    return Math.abs(progressA - 0.5) - Math.abs(progressB - 0.5);
-  });
-  
-  return midVoyagePorts;
+function toMultiBunkerStop(
+  decision: StopDecision,
+  candidate: CandidateStop,
+  isFirst: boolean,
+  params: MultiPortPlannerParameters
+): MultiBunkerStop {
+  const isDeparture = isFirst && candidate.progress * 100 <= params.departure_progress_percent;
+  return {
+    port_code: candidate.found.port.port_code,
+    port_name: candidate.found.port.name,
+    position_on_route: isDeparture ? 'departure' : 'midpoint',
+    segment_index: isDeparture ? -1 : candidate.found.nearest_waypoint_index,
+    distance_along_route_nm: candidate.distance_along_route_nm,
+    deviation_nm: candidate.found.deviation_nm,
+    bunker_quantity: decision.bunker_quantity,
+    arrival_rob: decision.arrival_rob,
+    departure_rob: decision.departure_rob,
+    estimated_cost_usd: decision.fuel_cost_usd,
+    port_call_cost_usd: decision.port_call.total_cost_usd,
+    fuel_prices: { VLSFO: candidate.prices.VLSFO, LSMGO: candidate.prices.LSMGO },
+  };
 }
 
 /**
- * Calculate a 2-stop bunker plan for given departure and mid-voyage ports
+ * Optimal plans over candidate stops (dynamic programming along the route).
+ * Returns the cheapest plan per distinct stop set, cheapest first.
  */
-function calculate2StopPlan(
-  departurePort: FoundPort,
-  midVoyagePort: FoundPort,
-  input: MultiPortPlannerInput
-): MultiBunkerPlan | null {
-  const { route_data, vessel_profile, voyage_consumption, port_prices, safety_margin_days = DEFAULT_SAFETY_MARGIN_DAYS } = input;
-  
-  const vp = vessel_profile;
-  const totalDistance = route_data.distance_nm;
-  const totalWaypoints = route_data.waypoints.length;
-  
-  // Get port positions on route
-  const departureProgress = calculateRouteProgress(departurePort.nearest_waypoint_index, totalWaypoints);
-  const midVoyageProgress = calculateRouteProgress(midVoyagePort.nearest_waypoint_index, totalWaypoints);
-  
-  const departureDistanceNm = calculateDistanceAlongRoute(departurePort.nearest_waypoint_index, totalWaypoints, totalDistance);
-  const midVoyageDistanceNm = calculateDistanceAlongRoute(midVoyagePort.nearest_waypoint_index, totalWaypoints, totalDistance);
-  
-  // Calculate segment distances
-  const distanceToMidVoyage = midVoyageDistanceNm - departureDistanceNm + departurePort.distance_from_route_nm + midVoyagePort.distance_from_route_nm;
-  const distanceFromMidVoyageToDestination = totalDistance - midVoyageDistanceNm + midVoyagePort.distance_from_route_nm;
-  
-  // Calculate travel times
-  const daysToMidVoyage = calculateTravelDays(distanceToMidVoyage);
-  const daysToDestination = calculateTravelDays(distanceFromMidVoyageToDestination);
-  const totalDays = daysToMidVoyage + daysToDestination;
-  
-  // Calculate consumption rates per day (apply weather factor if provided)
+function solveStopPlans(
+  candidates: CandidateStop[],
+  input: MultiPortPlannerInput,
+  safetyBuffer: FuelQuantityMT,
+  maxStops: number
+): PlanLabel[] {
+  const { route_data, vessel_profile, voyage_consumption } = input;
   const weatherFactor = input.weather_factor ?? 1.0;
-  const dailyVlsfo = (voyage_consumption.VLSFO / totalDays) * weatherFactor;
-  const dailyLsmgo = (voyage_consumption.LSMGO / totalDays) * weatherFactor;
-  
-  // Calculate segment consumption
-  const consumptionToMidVoyage: FuelQuantityMT = {
-    VLSFO: dailyVlsfo * daysToMidVoyage,
-    LSMGO: dailyLsmgo * daysToMidVoyage,
-  };
-  
-  const consumptionToDestination: FuelQuantityMT = {
-    VLSFO: dailyVlsfo * daysToDestination,
-    LSMGO: dailyLsmgo * daysToDestination,
+  const capacity = vessel_profile.capacity;
+
+  // Consumption per nm sailed (deviation legs included)
+  const perNm: FuelQuantityMT = {
+    VLSFO: route_data.distance_nm > 0 ? (voyage_consumption.VLSFO / route_data.distance_nm) * weatherFactor : 0,
+    LSMGO: route_data.distance_nm > 0 ? (voyage_consumption.LSMGO / route_data.distance_nm) * weatherFactor : 0,
   };
-  
-  // Get fuel prices
-  const departurePriceVlsfo = getPortPrice(departurePort.port.port_code, 'VLSFO', port_prices) ?? 600;
-  const departurePriceLsmgo = getPortPrice(departurePort.port.port_code, 'LSMGO', port_prices) ?? departurePriceVlsfo * 1.4;
-  const midVoyagePriceVlsfo = getPortPrice(midVoyagePort.port.port_code, 'VLSFO', port_prices) ?? 600;
-  const midVoyagePriceLsmgo = getPortPrice(midVoyagePort.port.port_code, 'LSMGO', port_prices) ?? midVoyagePriceVlsfo * 1.4;
-  
-  // Safety margin buffer (3 days of fuel)
-  const safetyBufferVlsfo = dailyVlsfo * safety_margin_days;
-  const safetyBufferLsmgo = dailyLsmgo * safety_margin_days;
-  
-  // === STOP 1: Departure - Fill to capacity ===
-  const initialRob = vp.initial_rob;
-  const capacity = vp.capacity;
-  
-  // Calculate how much we can bunker at departure (fill to capacity)
-  const departureBunkerVlsfo = Math.max(0, capacity.VLSFO - initialRob.VLSFO);
-  const departureBunkerLsmgo = Math.max(0, capacity.LSMGO - initialRob.LSMGO);
-  
-  const departureAfterBunker: FuelQuantityMT = {
-    VLSFO: initialRob.VLSFO + departureBunkerVlsfo,
-    LSMGO: initialRob.LSMGO + departureBunkerLsmgo,
+
+  // Node positions: candidates, then the destination (index candidates.length)
+  const destination = candidates.length;
+  const alongOf = (node: number) => (node === destination ? route_data.distance_nm : candidates[node].distance_along_route_nm);
+  const halfDeviationOf = (node: number) => (node === destination || node < 0 ? 0 : candidates[node].found.deviation_nm / 2);
+  const legConsumption = (from: number, to: number): FuelQuantityMT => {
+    const fromAlong = from < 0 ? 0 : alongOf(from);
+    const nm = Math.max(0, alongOf(to) - fromAlong) + halfDeviationOf(from) + halfDeviationOf(to);
+    return { VLSFO: nm * perNm.VLSFO, LSMGO: nm * perNm.LSMGO };
   };
-  
-  // ROB when arriving at mid-voyage port
-  const arrivalAtMidVoyage: FuelQuantityMT = {
-    VLSFO: departureAfterBunker.VLSFO - consumptionToMidVoyage.VLSFO,
-    LSMGO: departureAfterBunker.LSMGO - consumptionToMidVoyage.LSMGO,
+  const arrives = (rob: FuelQuantityMT, leg: FuelQuantityMT): FuelQuantityMT | null => {
+    const arrival = { VLSFO: rob.VLSFO - leg.VLSFO, LSMGO: rob.LSMGO - leg.LSMGO };
+    const safe = GRADES.every((g) => arrival[g] >= safetyBuffer[g] - 1e-6);
+    return safe ? arrival : null;
   };
-  
-  // Validation checkpoint 1: Can we reach mid-voyage port?
-  if (arrivalAtMidVoyage.VLSFO < safetyBufferVlsfo || arrivalAtMidVoyage.LSMGO < safetyBufferLsmgo) {
-    // Cannot safely reach mid-voyage port even at full capacity
-    console.log(`⚠️ [MULTI-PORT] Cannot reach ${midVoyagePort.port.name}: arrival ROB would be ${arrivalAtMidVoyage.VLSFO.toFixed(0)} VLSFO, ${arrivalAtMidVoyage.LSMGO.toFixed(0)} LSMGO`);
-    return null;
+
+  // labels[node][stops] = non-dominated arrival states
+  const labels: PlanLabel[][][] = Array.from({ length: candidates.length + 1 }, () =>
+    Array.from({ length: maxStops + 1 }, () => [])
+  );
+
+  // From the origin: sail to any candidate (or straight to the destination) on the initial ROB
+  const initialRob: FuelQuantityMT = { VLSFO: vessel_profile.initial_rob.VLSFO, LSMGO: vessel_profile.initial_rob.LSMGO };
+  for (let to = 0; to <= destination; to++) {
+    const arrival = arrives(initialRob, legConsumption(-1, to));
+    if (arrival) addLabel(labels[to][0], { arrival_rob: arrival, cost_usd: 0, path: [] });
   }
-  
-  // === STOP 2: Mid-Voyage - Calculate required bunker quantity ===
-  // Need enough fuel to reach destination with safety margin. Also ensure after bunkering we have at least the buffer (safety_margin_days) before the next leg.
-  const fuelNeededToDestination: FuelQuantityMT = {
-    VLSFO: consumptionToDestination.VLSFO + safetyBufferVlsfo,
-    LSMGO: consumptionToDestination.LSMGO + safetyBufferLsmgo,
-  };
-  const minBunkerToMeetBufferVlsfo = Math.max(0, safetyBufferVlsfo - arrivalAtMidVoyage.VLSFO);
-  const minBunkerToMeetBufferLsmgo = Math.max(0, safetyBufferLsmgo - arrivalAtMidVoyage.LSMGO);
-
-  // How much to bunker at mid-voyage: at least (required to destination) and at least (buffer - arrival) so ROB after bunker >= buffer
-  const midVoyageBunkerVlsfo = Math.max(0, Math.min(
-    Math.max(
-      fuelNeededToDestination.VLSFO - arrivalAtMidVoyage.VLSFO,
-      minBunkerToMeetBufferVlsfo
-    ),
-    capacity.VLSFO - arrivalAtMidVoyage.VLSFO  // Don't exceed capacity
-  ));
-  const midVoyageBunkerLsmgo = Math.max(0, Math.min(
-    Math.max(
-      fuelNeededToDestination.LSMGO - arrivalAtMidVoyage.LSMGO,
-      minBunkerToMeetBufferLsmgo
-    ),
-    capacity.LSMGO - arrivalAtMidVoyage.LSMGO  // Don't exceed capacity
-  ));
-
-  const midVoyageAfterBunker: FuelQuantityMT = {
-    VLSFO: arrivalAtMidVoyage.VLSFO + midVoyageBunkerVlsfo,
-    LSMGO: arrivalAtMidVoyage.LSMGO + midVoyageBunkerLsmgo,
-  };
-  
-  // Final ROB at destination
-  const finalRob: FuelQuantityMT = {
-    VLSFO: midVoyageAfterBunker.VLSFO - consumptionToDestination.VLSFO,
-    LSMGO: midVoyageAfterBunker.LSMGO - consumptionToDestination.LSMGO,
-  };
-  
-  // Validation checkpoint 2: Is final ROB safe?
-  const isSafe = finalRob.VLSFO >= safetyBufferVlsfo && finalRob.LSMGO >= safetyBufferLsmgo;
-  
-  // === Calculate costs ===
-  const departureFuelCost = (departureBunkerVlsfo * departurePriceVlsfo) + (departureBunkerLsmgo * departurePriceLsmgo);
-  const midVoyageFuelCost = (midVoyageBunkerVlsfo * midVoyagePriceVlsfo) + (midVoyageBunkerLsmgo * midVoyagePriceLsmgo);
-  
-  // Deviation cost (fuel consumed during deviation)
-  const deviationConsumptionMt = (departurePort.distance_from_route_nm + midVoyagePort.distance_from_route_nm) / (DEFAULT_VESSEL_SPEED_KNOTS * 24) * dailyVlsfo;
-  const deviationCost = deviationConsumptionMt * ((departurePriceVlsfo + midVoyagePriceVlsfo) / 2);
-  
-  const totalCost = departureFuelCost + midVoyageFuelCost + deviationCost;
-  
-  // Build the plan
-  const stops: MultiBunkerStop[] = [
-    {
-      port_code: departurePort.port.port_code,
-      port_name: departurePort.port.name,
-      position_on_route: 'departure',
-      segment_index: -1,
-      distance_along_route_nm: departureDistanceNm,
-      deviation_nm: departurePort.distance_from_route_nm,
-      bunker_quantity: { VLSFO: departureBunkerVlsfo, LSMGO: departureBunkerLsmgo },
-      arrival_rob: { VLSFO: initialRob.VLSFO, LSMGO: initialRob.LSMGO },
-      departure_rob: departureAfterBunker,
-      estimated_cost_usd: departureFuelCost,
-      fuel_prices: { VLSFO: departurePriceVlsfo, LSMGO: departurePriceLsmgo },
-    },
-    {
-      port_code: midVoyagePort.port.port_code,
-      port_name: midVoyagePort.port.name,
-      position_on_route: 'midpoint',
-      segment_index: Math.floor(midVoyageProgress * (totalWaypoints - 1)),
-      distance_along_route_nm: midVoyageDistanceNm,
-      deviation_nm: midVoyagePort.distance_from_route_nm,
-      bunker_quantity: { VLSFO: midVoyageBunkerVlsfo, LSMGO: midVoyageBunkerLsmgo },
-      arrival_rob: arrivalAtMidVoyage,
-      departure_rob: midVoyageAfterBunker,
-      estimated_cost_usd: midVoyageFuelCost,
-      fuel_prices: { VLSFO: midVoyagePriceVlsfo, LSMGO: midVoyagePriceLsmgo },
-    },
-  ];
-  
-  return {
-    stops,
-    total_cost_usd: totalCost,
-    final_rob: finalRob,
-    is_safe: isSafe,
-    rank: 0, // Will be set after ranking
-    limitation_note: 'Only 2-stop solutions evaluated in Phase 1',
-  };
+
+  for (let node = 0; node < candidates.length; node++) {
+    const candidate = candidates[node];
+    for (let stops = 0; stops < maxStops; stops++) {
+      for (const label of labels[node][stops]) {
+        const space = capacityValidationEngine.getAvailableSpace(capacity, label.arrival_rob);
+
+        for (let to = node + 1; to <= destination; to++) {
+          const leg = legConsumption(node, to);
+
+          // Per grade: just enough for the next leg with the safety margin, or fill to usable capacity
+          const options = GRADES.map((g) => {
+            const needed = Math.max(0, leg[g] + safetyBuffer[g] - label.arrival_rob[g]);
+            return needed > space[g] + 1e-6 ? [] : Array.from(new Set([needed, space[g]]));
+          });
+          if (options.some((o) => o.length === 0)) continue;
+
+          for (const vlsfo of options[0]) {
+            for (const lsmgo of options[1]) {
+              if (vlsfo + lsmgo <= 0) continue;
+              const bunker: FuelQuantityMT = { VLSFO: vlsfo, LSMGO: lsmgo };
+              const departureRob = { VLSFO: label.arrival_rob.VLSFO + vlsfo, LSMGO: label.arrival_rob.LSMGO + lsmgo };
+              const arrival = arrives(departureRob, leg);
+              if (!arrival) continue;
+
+              const fuelCost = vlsfo * candidate.prices.VLSFO + lsmgo * candidate.prices.LSMGO;
+              const portCall = portCallCostEngine.estimate({
+                port_code: candidate.found.port.port_code,
+                port_name: candidate.found.port.name,
+                quantity_mt: vlsfo + lsmgo,
+              });
+              addLabel(labels[to][stops + 1], {
+                arrival_rob: arrival,
+                cost_usd: label.cost_usd + fuelCost + portCall.total_cost_usd,
+                path: [
+                  ...label.path,
+                  {
+                    candidate: node,
+                    arrival_rob: label.arrival_rob,
+                    bunker_quantity: bunker,
+                    departure_rob: departureRob,
+                    fuel_cost_usd: fuelCost,
+                    port_call: portCall,
+                  },
+                ],
+              });
+            }
+          }
+        }
+      }
+    }
+  }
+
+  // Cheapest arrival at the destination per stop set (plans with at least one stop)
+  const bestBySet = new Map<string, PlanLabel>();
+  for (const bucket of labels[destination]) {
+    for (const label of bucket) {
+      if (label.path.length === 0) continue;
+      const key = label.path.map((d) => d.candidate).join('>');
+      const current = bestBySet.get(key);
+      if (!current || label.cost_usd < current.cost_usd) bestBySet.set(key, label);
+    }
+  }
+  return [...bestBySet.values()].sort((a, b) => a.cost_usd - b.cost_usd);
 }
 
 // ============================================================================
@@ -388,7 +375,7 @@ function calculate2StopPlan(
 
 /**
  * Plan multi-port bunkering strategy
- * 
+ *
  * @param input - Planner input with route, vessel, ports, and prices
  * @param forceRequired - Force multi-port planning even if capacity check passes (e.g., when voyage is still unsafe after single-stop bunker)
  * @returns Multi-port bunker analysis with ranked plans
@@ -401,34 +388,50 @@ export function planMultiPortBunker(
   if (forceRequired) {
     console.log('   ⚠️ Force required: voyage still unsafe after single-stop bunker');
   }
-  
-  const { route_data, vessel_profile, voyage_consumption, candidate_ports, port_prices, safety_margin_days = DEFAULT_SAFETY_MARGIN_DAYS } = input;
-  
+
+  const { route_data, vessel_profile, voyage_consumption, candidate_ports, port_prices } = input;
+  const params = getPlannerParameters();
+  const maxStops = Math.max(1, Math.floor(input.max_stops ?? params.max_stops));
+
   // Calculate voyage duration and daily consumption rates
   const totalDays = route_data.estimated_hours / 24;
-  
+
   // Check each fuel type independently (not combined totals)
   const vlsfoConsumption = voyage_consumption.VLSFO;
   const lsmgoConsumption = voyage_consumption.LSMGO;
   const vlsfoDailyConsumption = vlsfoConsumption / totalDays;
   const lsmgoDailyConsumption = lsmgoConsumption / totalDays;
-  
+
+  // Safety margin: caller override, else the shared SafetyMarginEngine reserve for this voyage
+  const safetyMargin = input.safety_margin_days == null
+    ? safetyMarginEngine.calculateSafetyMargin({
+        voyage_days: totalDays,
+        daily_consumption: { VLSFO: vlsfoDailyConsumption, LSMGO: lsmgoDailyConsumption },
+        voyage_consumption,
+      })
+    : null;
+  const safety_margin_days = safetyMargin?.required_days ?? input.safety_margin_days ?? 0;
+  const safetyMarginSummary = {
+    required_days: safety_margin_days,
+    explanation: safetyMargin?.explanation ?? `Safety margin of ${safety_margin_days} days set by caller`,
+  };
+
   // Safety buffers per fuel type
   const vlsfoSafetyBuffer = vlsfoDailyConsumption * safety_margin_days;
   const lsmgoSafetyBuffer = lsmgoDailyConsumption * safety_margin_days;
-  
+
   // Check if single stop can meet requirements WITH safety buffer at destination
   // After filling to capacity and consuming voyage fuel, what's left?
   const vlsfoAfterSingleStop = vessel_profile.capacity.VLSFO - vlsfoConsumption;
   const lsmgoAfterSingleStop = vessel_profile.capacity.LSMGO - lsmgoConsumption;
-  
+
   // Need multi-port if final ROB would be below safety buffer for either fuel type
   const vlsfoNeedsMultiPort = vlsfoAfterSingleStop < vlsfoSafetyBuffer;
   const lsmgoNeedsMultiPort = lsmgoAfterSingleStop < lsmgoSafetyBuffer;
-  
+
   // Determine if multi-port is needed
   const needsMultiPort = forceRequired || vlsfoNeedsMultiPort || lsmgoNeedsMultiPort;
-  
+
   if (needsMultiPort) {
     console.log('📊 [MULTI-PORT-PLANNER] Per-fuel analysis:');
     console.log(`   VLSFO: after single stop = ${vlsfoAfterSingleStop.toFixed(0)} MT, safety buffer = ${vlsfoSafetyBuffer.toFixed(0)} MT → ${vlsfoNeedsMultiPort ? '⚠️ Needs multi-port' : '✅ OK'}`);
@@ -437,125 +440,106 @@ export function planMultiPortBunker(
       console.log('   Force required: planning multi-port despite capacity being technically sufficient');
     }
   }
-  
+
   if (!needsMultiPort) {
     console.log('✅ [MULTI-PORT-PLANNER] Single bunker stop is sufficient');
     return {
       required: false,
+      safety_margin: safetyMarginSummary,
       plans: [],
     };
   }
-  
+
   const shortfall: FuelQuantityMT = {
     VLSFO: Math.max(0, voyage_consumption.VLSFO - vessel_profile.capacity.VLSFO),
     LSMGO: Math.max(0, voyage_consumption.LSMGO - vessel_profile.capacity.LSMGO),
   };
-  
+
   // Calculate totals for error messages and reason strings
   const totalConsumption = vlsfoConsumption + lsmgoConsumption;
   const totalCapacity = vessel_profile.capacity.VLSFO + vessel_profile.capacity.LSMGO;
   const singleStopMaxFuel = totalCapacity; // Max fuel with single full refuel
-  
+  const capacityConstraint = {
+    voyage_consumption_mt: voyage_consumption,
+    vessel_capacity_mt: vessel_profile.capacity,
+    shortfall_mt: shortfall,
+  };
+
   console.log('⚠️ [MULTI-PORT-PLANNER] Multi-port bunkering required!');
   console.log(`   Voyage consumption: ${voyage_consumption.VLSFO.toFixed(0)} MT VLSFO, ${voyage_consumption.LSMGO.toFixed(0)} MT LSMGO`);
   console.log(`   Vessel capacity: ${vessel_profile.capacity.VLSFO.toFixed(0)} MT VLSFO, ${vessel_profile.capacity.LSMGO.toFixed(0)} MT LSMGO`);
   console.log(`   Initial ROB: ${vessel_profile.initial_rob.VLSFO.toFixed(0)} MT VLSFO, ${vessel_profile.initial_rob.LSMGO.toFixed(0)} MT LSMGO`);
   console.log(`   Shortfall: ${shortfall.VLSFO.toFixed(0)} MT VLSFO, ${shortfall.LSMGO.toFixed(0)} MT LSMGO`);
-  
-  // 2. Find departure port
-  const departurePort = findDeparturePort(candidate_ports, route_data, port_prices);
-  
-  if (!departurePort) {
-    console.log('❌ [MULTI-PORT-PLANNER] No valid departure port found');
+
+  // 2. Candidate stops ordered along the route
+  const candidates = buildCandidateStops(candidate_ports, route_data, port_prices, params);
+
+  console.log(`📍 [MULTI-PORT-PLANNER] Found ${candidates.length} candidate bunker ports (max ${maxStops} stops)`);
+
+  if (candidates.length === 0) {
+    console.log(`❌ [MULTI-PORT-PLANNER] No bunker ports with pricing within ${params.max_stop_deviation_nm}nm of route`);
     return {
       required: true,
+      safety_margin: safetyMarginSummary,
       reason: `Voyage requires ${totalConsumption.toFixed(0)} MT but capacity is ${totalCapacity.toFixed(0)} MT`,
-      capacity_constraint: {
-        voyage_consumption_mt: voyage_consumption,
-        vessel_capacity_mt: vessel_profile.capacity,
-        shortfall_mt: shortfall,
-      },
+      capacity_constraint: capacityConstraint,
       plans: [],
-      error_message: 'No departure port with pricing found. Contact operations team.',
+      error_message: `No bunker ports with pricing found within ${params.max_stop_deviation_nm}nm of route. Contact operations team.`,
     };
   }
-  
-  console.log(`✅ [MULTI-PORT-PLANNER] Departure port: ${departurePort.port.name}`);
-  
-  // 3. Find mid-voyage ports
-  const midVoyagePorts = findMidVoyagePorts(candidate_ports, route_data, port_prices, departurePort.port.port_code);
-  
-  console.log(`📍 [MULTI-PORT-PLANNER] Found ${midVoyagePorts.length} mid-voyage port candidates`);
-  
-  if (midVoyagePorts.length === 0) {
-    console.log('❌ [MULTI-PORT-PLANNER] No valid mid-voyage ports found within 100nm of route');
+
+  // 3-5. Optimal stop sets and quantities
+  const solved = solveStopPlans(
+    candidates,
+    input,
+    { VLSFO: vlsfoSafetyBuffer, LSMGO: lsmgoSafetyBuffer },
+    maxStops
+  );
+
+  if (solved.length === 0) {
+    console.log(`❌ [MULTI-PORT-PLANNER] No safe plans with up to ${maxStops} stops found`);
     return {
       required: true,
+      safety_margin: safetyMarginSummary,
       reason: `Voyage requires ${totalConsumption.toFixed(0)} MT but capacity is ${totalCapacity.toFixed(0)} MT`,
-      capacity_constraint: {
-        voyage_consumption_mt: voyage_consumption,
-        vessel_capacity_mt: vessel_profile.capacity,
-        shortfall_mt: shortfall,
-      },
+      capacity_constraint: capacityConstraint,
       plans: [],
-      error_message: 'No mid-voyage bunker ports found within 100nm of route with pricing. This voyage may require 3+ stops or route modification. Contact operations team.',
+      error_message: `No safe bunker plans with up to ${maxStops} stops found among ${candidates.length} candidate ports. This voyage may require route modification. Contact operations team.`,
     };
   }
-  
-  // 4. Calculate 2-stop plans for each mid-voyage candidate
-  const validPlans: MultiBunkerPlan[] = [];
-  
-  for (const midPort of midVoyagePorts) {
-    const plan = calculate2StopPlan(departurePort, midPort, input);
-    
-    if (plan && plan.is_safe) {
-      validPlans.push(plan);
-      console.log(`   ✅ ${midPort.port.name}: $${plan.total_cost_usd.toLocaleString()} (safe)`);
-    } else if (plan) {
-      console.log(`   ⚠️ ${midPort.port.name}: Plan calculated but unsafe`);
-    }
-  }
-  
-  if (validPlans.length === 0) {
-    console.log('❌ [MULTI-PORT-PLANNER] No safe 2-stop plans found');
+
+  // 6. Rank by total cost and return the top plans
+  const topPlans: MultiBunkerPlan[] = solved.slice(0, Math.max(1, params.plans_returned)).map((label) => {
+    const stops = label.path.map((decision, i) =>
+      toMultiBunkerStop(decision, candidates[decision.candidate], i === 0, params)
+    );
+    stops.forEach((stop) => console.log(`   ${stop.port_name}: ${stop.bunker_quantity.VLSFO.toFixed(0)} MT VLSFO, ${stop.bunker_quantity.LSMGO.toFixed(0)} MT LSMGO`));
     return {
-      required: true,
-      reason: `Voyage requires ${totalConsumption.toFixed(0)} MT but capacity is ${totalCapacity.toFixed(0)} MT`,
-      capacity_constraint: {
-        voyage_consumption_mt: voyage_consumption,
-        vessel_capacity_mt: vessel_profile.capacity,
-        shortfall_mt: shortfall,
-      },
-      plans: [],
-      error_message: 'No safe 2-stop bunker plans found. This voyage may require 3+ stops or route modification. Contact operations team.',
+      stops,
+      total_cost_usd: label.cost_usd,
+      final_rob: label.arrival_rob,
+      is_safe: true,
+      rank: 0, // Will be set after ranking
+      limitation_note: `Optimal ${stops.length}-stop plan over ${candidates.length} candidate ports within ${params.max_stop_deviation_nm}nm of route (up to ${maxStops} stops evaluated)`,
     };
-  }
-  
-  // 5. Rank by total cost
-  validPlans.sort((a, b) => a.total_cost_usd - b.total_cost_usd);
-  
+  });
+
   // Set ranks and calculate savings
-  const worstCost = validPlans[validPlans.length - 1].total_cost_usd;
-  validPlans.forEach((plan, index) => {
+  const worstCost = topPlans[topPlans.length - 1].total_cost_usd;
+  topPlans.forEach((plan, index) => {
     plan.rank = index + 1;
     plan.savings_vs_worst = worstCost - plan.total_cost_usd;
   });
-  
-  // 6. Return top 3
-  const topPlans = validPlans.slice(0, 3);
-  
-  console.log(`\n🏆 [MULTI-PORT-PLANNER] Best option: ${topPlans[0].stops[0].port_name} → ${topPlans[0].stops[1].port_name}`);
+
+  console.log(`\n🏆 [MULTI-PORT-PLANNER] Best option: ${topPlans[0].stops.map((s) => s.port_name).join(' → ')}`);
   console.log(`   Total cost: $${topPlans[0].total_cost_usd.toLocaleString()}`);
   console.log(`   Final ROB: ${topPlans[0].final_rob.VLSFO.toFixed(0)} MT VLSFO, ${topPlans[0].final_rob.LSMGO.toFixed(0)} MT LSMGO`);
-  
+
   return {
     required: true,
+    safety_margin: safetyMarginSummary,
     reason: `Voyage requires ${totalConsumption.toFixed(0)} MT but single-stop capacity is ${singleStopMaxFuel.toFixed(0)} MT`,
-    capacity_constraint: {
-      voyage_consumption_mt: voyage_consumption,
-      vessel_capacity_mt: vessel_profile.capacity,
-      shortfall_mt: shortfall,
-    },
+    capacity_constraint: capacityConstraint,
     plans: topPlans,
     best_plan: topPlans[0],
     analyzed_at: new Date().toISOString(),
@@ -564,7 +548,7 @@ export function planMultiPortBunker(
 
 /**
  * Check if multi-port bunkering is needed (quick check without full planning)
- * 
+ *
  * Use this for early detection before running full analysis.
  * Checks each fuel type independently - if EITHER fuel type has insufficient
  * capacity to maintain safety margin, multi-port is needed.
@@ -573,21 +557,32 @@ export function needsMultiPortBunkering(
   voyageConsumption: FuelQuantityMT,
   vesselCapacity: FuelQuantityMT,
   initialRob: FuelQuantityMT,
-  safetyMarginDays: number = DEFAULT_SAFETY_MARGIN_DAYS,
+  safetyMarginDays?: number,
   voyageDays: number = 14
 ): boolean {
+  if (safetyMarginDays == null) {
+    safetyMarginDays = safetyMarginEngine.calculateSafetyMargin({
+      voyage_days: voyageDays,
+      daily_consumption: {
+        VLSFO: voyageConsumption.VLSFO / voyageDays,
+        LSMGO: voyageConsumption.LSMGO / voyageDays,
+      },
+      voyage_consumption: voyageConsumption,
+    }).required_days;
+  }
+
   // Check VLSFO independently
   const vlsfoDailyConsumption = voyageConsumption.VLSFO / voyageDays;
   const vlsfoSafetyBuffer = vlsfoDailyConsumption * safetyMarginDays;
   const vlsfoAfterSingleStop = vesselCapacity.VLSFO - voyageConsumption.VLSFO;
   const vlsfoNeedsMultiPort = vlsfoAfterSingleStop < vlsfoSafetyBuffer;
-  
+
   // Check LSMGO independently
   const lsmgoDailyConsumption = voyageConsumption.LSMGO / voyageDays;
   const lsmgoSafetyBuffer = lsmgoDailyConsumption * safetyMarginDays;
   const lsmgoAfterSingleStop = vesselCapacity.LSMGO - voyageConsumption.LSMGO;
   const lsmgoNeedsMultiPort = lsmgoAfterSingleStop < lsmgoSafetyBuffer;
-  
+
   // Need multi-port if EITHER fuel type has insufficient capacity
   return vlsfoNeedsMultiPort || lsmgoNeedsMultiPort;
 }
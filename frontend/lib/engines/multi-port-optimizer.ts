@@ -3,6 +3,8 @@
  *
  * Determines when multi-port bunkering is beneficial and computes optimal
  * 2-port (or 3-port) strategies: capacity split, price optimization, strategic.
+ * With includePortCallCost, every stop also pays its port call (waiting and bunkering time,
+ * port dues, agency fee), so splitting is only chosen when the price gain covers the extra call.
  * All calculations are deterministic and auditable.
  */
 
@@ -12,6 +14,7 @@ import type {
   PortBunkerPlan,
   BunkerPortOption,
 } from '@/lib/types/bunker';
+import { portCallCostEngine, type PortCallCost } from './port-call-cost-engine';
 
 const DEVIATION_COST_PER_NM = 2;
 const MIN_PRICE_DIFF_PERCENT = 5;
@@ -19,6 +22,20 @@ const CAPACITY_THRESHOLD = 0.8;
 const MIN_VOYAGE_DAYS_FOR_MULTI = 20;
 const HOURS_PER_DEVIATION_NM = 0.5;
 
+/**
+ * Port call cost of one stop, or null when port call costs are not included.
+ */
+function portCallFor(params: MultiPortParams, port: BunkerPortOption, quantityMt: number): PortCallCost | null {
+  if (!params.includePortCallCost) return null;
+  return portCallCostEngine.estimate({
+    port_code: port.port_code,
+    port_name: port.port_name,
+    quantity_mt: quantityMt,
+    capabilities: port.port_capabilities,
+    arrival_date: port.arrival_date,
+  });
+}
+
 /**
  * Decide whether to consider multi-port bunkering.
  * Returns true if:
@@ -70,6 +87,9 @@ function capacitySplitStrategy(
   const cost1 = fillAtFirst * port1.price_per_mt;
   const cost2 = fillAtSecond * port2.price_per_mt;
   const devCost = (port1.deviation_nm + port2.deviation_nm) * (params.deviationCostPerNm ?? DEVIATION_COST_PER_NM);
+  const call1 = portCallFor(params, port1, fillAtFirst);
+  const call2 = portCallFor(params, port2, fillAtSecond);
+  const portCallCost = (call1?.total_cost_usd ?? 0) + (call2?.total_cost_usd ?? 0);
   const robAfterFirst = params.currentROB + fillAtFirst;
   const robAfterSecond = robAfterFirst + fillAtSecond;
 
@@ -84,6 +104,7 @@ function capacitySplitStrategy(
       rob_before: params.currentROB,
       rob_after: robAfterFirst,
       reasoning: `Fill to capacity (${fillAtFirst.toFixed(0)} MT) at best-priced port.`,
+      ...(call1 && { port_call_cost: call1.total_cost_usd }),
     },
     {
       port_name: port2.port_name,
@@ -95,21 +116,27 @@ function capacitySplitStrategy(
       rob_before: robAfterFirst,
       rob_after: robAfterSecond,
       reasoning: `Top-up ${fillAtSecond.toFixed(0)} MT at second port.`,
+      ...(call2 && { port_call_cost: call2.total_cost_usd }),
     },
   ];
 
   const totalBunker = cost1 + cost2;
-  const timeImpact = (port1.deviation_nm + port2.deviation_nm) * HOURS_PER_DEVIATION_NM;
+  const totalCost = totalBunker + devCost + portCallCost;
+  const timeImpact =
+    (port1.deviation_nm + port2.deviation_nm) * HOURS_PER_DEVIATION_NM +
+    (call1?.delay_hours ?? 0) +
+    (call2?.delay_hours ?? 0);
 
   return {
     strategy_type: 'CAPACITY_SPLIT',
     ports: plans,
     total_bunker_cost: totalBunker,
     total_deviation_cost: devCost,
-    total_cost: totalBunker + devCost,
+    ...(params.includePortCallCost && { total_port_call_cost: portCallCost }),
+    total_cost: totalCost,
     savings_vs_single_port: 0,
     time_impact_hours: timeImpact,
-    recommendation: `Split bunkering required: ${fillAtFirst.toFixed(0)} MT at ${port1.port_name}, ${fillAtSecond.toFixed(0)} MT at ${port2.port_name}. Total cost $${(totalBunker + devCost).toFixed(0)}.`,
+    recommendation: `Split bunkering required: ${fillAtFirst.toFixed(0)} MT at ${port1.port_name}, ${fillAtSecond.toFixed(0)} MT at ${port2.port_name}. Total cost $${totalCost.toFixed(0)}.`,
   };
 }
 
@@ -132,6 +159,9 @@ function priceOptimizationStrategy(
   const cost1 = q1 * port1.price_per_mt;
   const cost2 = q2 * port2.price_per_mt;
   const devCost = (port1.deviation_nm + port2.deviation_nm) * (params.deviationCostPerNm ?? DEVIATION_COST_PER_NM);
+  const call1 = portCallFor(params, port1, q1);
+  const call2 = portCallFor(params, port2, q2);
+  const portCallCost = (call1?.total_cost_usd ?? 0) + (call2?.total_cost_usd ?? 0);
   const robAfterFirst = params.currentROB + q1;
   const robAfterSecond = robAfterFirst + q2;
 
@@ -146,6 +176,7 @@ function priceOptimizationStrategy(
       rob_before: params.currentROB,
       rob_after: robAfterFirst,
       reasoning: `Maximize at cheapest port ($${port1.price_per_mt.toFixed(0)}/MT).`,
+      ...(call1 && { port_call_cost: call1.total_cost_usd }),
     },
     {
       port_name: port2.port_name,
@@ -157,21 +188,27 @@ function priceOptimizationStrategy(
       rob_before: robAfterFirst,
       rob_after: robAfterSecond,
       reasoning: `Remaining ${q2.toFixed(0)} MT at second port.`,
+      ...(call2 && { port_call_cost: call2.total_cost_usd }),
     },
   ];
 
   const totalBunker = cost1 + cost2;
-  const timeImpact = (port1.deviation_nm + port2.deviation_nm) * HOURS_PER_DEVIATION_NM;
+  const totalCost = totalBunker + devCost + portCallCost;
+  const timeImpact =
+    (port1.deviation_nm + port2.deviation_nm) * HOURS_PER_DEVIATION_NM +
+    (call1?.delay_hours ?? 0) +
+    (call2?.delay_hours ?? 0);
 
   return {
     strategy_type: 'PRICE_OPTIMIZATION',
     ports: plans,
     total_bunker_cost: totalBunker,
     total_deviation_cost: devCost,
-    total_cost: totalBunker + devCost,
+    ...(params.includePortCallCost && { total_port_call_cost: portCallCost }),
+    total_cost: totalCost,
     savings_vs_single_port: 0,
     time_impact_hours: timeImpact,
-    recommendation: `Price-optimized split: ${q1.toFixed(0)} MT at ${port1.port_name}, ${q2.toFixed(0)} MT at ${port2.port_name}. Total $${(totalBunker + devCost).toFixed(0)}.`,
+    recommendation: `Price-optimized split: ${q1.toFixed(0)} MT at ${port1.port_name}, ${q2.toFixed(0)} MT at ${port2.port_name}. Total $${totalCost.toFixed(0)}.`,
   };
 }
 
@@ -0,0 +1,539 @@
+/**
+ * Noon Report Validation Engine
+ *
+ * Scores noon reports against physical consistency rules and the vessel's own history:
+ * - ROB rising without a bunkering report, and ROB drop vs reported consumption; a rise the
+ *   next report confirms is an unreported bunkering and becomes the new ROB level
+ * - impossible speed, position jumps faster than the vessel can sail
+ * - reported speed vs distance / steaming time, steaming time longer than the report interval
+ * - daily consumption vs the performance model and vs the vessel's history (median / MAD)
+ *
+ * Each anomaly deducts from a score of 100. Reports scoring below exclude_below_score are
+ * excluded (ROB takes the latest usable report); the rest are weighted by score in hull
+ * performance trends. The data-quality badge summarises the reports for responses.
+ *
+ * Parameters come from config/engine-params/noon-report-validation.yaml with fallbacks.
+ */
+
+import { getConfigManager } from '@/lib/config/config-manager';
+import { haversineDistance } from '@/lib/utils/coordinate-validator';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '🧪 [NOON-REPORT-VALIDATION]';
+
+const HOURS_PER_DAY = 24;
+
+/** Scales MAD to the standard deviation of a normal distribution */
+const MAD_TO_SIGMA = 1.4826;
+
+/** Report events that may raise ROB */
+const BUNKERING_EVENT = /bunker/i;
+
+const DEFAULT_PARAMETERS: NoonReportValidationParameters = {
+  history_report_count: 30,
+  max_speed_knots: 30,
+  rob_increase_tolerance_mt: 1,
+  rob_balance_tolerance_mt: 2,
+  rob_balance_tolerance_percent: 10,
+  distance_speed_tolerance_percent: 15,
+  steaming_interval_tolerance_hours: 1,
+  model_deviation_percent: 30,
+  history_z_score: 3.5,
+  history_min_reports: 5,
+  penalty_high: 60,
+  penalty_medium: 25,
+  penalty_low: 10,
+  exclude_below_score: 50,
+  good_score: 85,
+  fair_score: 60,
+};
+
+const ANOMALY_SEVERITY: Record<NoonReportAnomalyCode, NoonReportAnomalySeverity> = {
+  negative_value: 'high',
+  rob_increase_without_bunkering: 'high',
+  unreported_bunkering: 'medium',
+  impossible_speed: 'high',
+  position_jump: 'high',
+  rob_consumption_mismatch: 'medium',
+  distance_time_mismatch: 'medium',
+  consumption_vs_model: 'medium',
+  steaming_exceeds_interval: 'low',
+  consumption_vs_history: 'low',
+};
+
+const ANOMALY_LABELS: Record<NoonReportAnomalyCode, string> = {
+  negative_value: 'negative values',
+  rob_increase_without_bunkering: 'ROB increase without bunkering',
+  unreported_bunkering: 'unreported bunkering',
+  impossible_speed: 'impossible speed',
+  position_jump: 'position jump',
+  rob_consumption_mismatch: 'ROB vs consumption mismatch',
+  distance_time_mismatch: 'distance / time mismatch',
+  consumption_vs_model: 'consumption vs performance model',
+  steaming_exceeds_interval: 'steaming time longer than report interval',
+  consumption_vs_history: 'consumption outlier vs history',
+};
+
+const BADGE_INDICATORS: Record<NoonReportDataQualityLevel, '🟢' | '🟡' | '🔴'> = {
+  GOOD: '🟢',
+  FAIR: '🟡',
+  POOR: '🔴',
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface NoonReportValidationParameters {
+  /** Recent reports fetched as history when validating the latest report */
+  history_report_count: number;
+  max_speed_knots: number;
+  /** ROB may rise this much without a bunkering report (MT) */
+  rob_increase_tolerance_mt: number;
+  /** ROB drop vs reported consumption: the larger of the MT and % tolerances */
+  rob_balance_tolerance_mt: number;
+  rob_balance_tolerance_percent: number;
+  /** Reported speed vs distance / steaming time (%) */
+  distance_speed_tolerance_percent: number;
+  /** Steaming time may exceed the report interval by this much (hours) */
+  steaming_interval_tolerance_hours: number;
+  /** Daily consumption vs the performance model prediction (%) */
+  model_deviation_percent: number;
+  /** Robust z-score of daily consumption vs the vessel's history */
+  history_z_score: number;
+  /** At-sea reports needed before the history check applies */
+  history_min_reports: number;
+  penalty_high: number;
+  penalty_medium: number;
+  penalty_low: number;
+  /** Reports scoring below this are excluded */
+  exclude_below_score: number;
+  /** Badge thresholds on the average report score */
+  good_score: number;
+  fair_score: number;
+}
+
+export type NoonReportAnomalyCode =
+  | 'negative_value'
+  | 'rob_increase_without_bunkering'
+  | 'unreported_bunkering'
+  | 'impossible_speed'
+  | 'position_jump'
+  | 'rob_consumption_mismatch'
+  | 'distance_time_mismatch'
+  | 'consumption_vs_model'
+  | 'steaming_exceeds_interval'
+  | 'consumption_vs_history';
+
+export type NoonReportAnomalySeverity = 'high' | 'medium' | 'low';
+
+export interface NoonReportAnomaly {
+  code: NoonReportAnomalyCode;
+  severity: NoonReportAnomalySeverity;
+  message: string;
+}
+
+/** One noon report in source-independent form (datalogs row or hull performance record) */
+export interface NoonReportObservation {
+  /** ISO 8601 */
+  date: string;
+  event?: string;
+  latitude?: number;
+  longitude?: number;
+  speed_knots?: number;
+  steaming_hours?: number;
+  /** Observed distance since the previous report; omitted when the source derives it from speed */
+  distance_nm?: number;
+  /** ROB by fuel grade (MT) */
+  rob_mt?: Partial<Record<string, number>>;
+  /** Fuel consumed since the previous report by grade (MT) */
+  consumption_mt?: Partial<Record<string, number>>;
+  /** Daily consumption (MT/day); derived from consumption_mt and steaming hours when omitted */
+  consumption_mt_per_day?: number;
+  /** Performance model prediction at the report's speed and condition (MT/day) */
+  predicted_consumption_mt_per_day?: number;
+}
+
+export type NoonReportStatus = 'valid' | 'suspect' | 'excluded';
+
+export interface NoonReportValidation {
+  /** Index in the input array */
+  index: number;
+  date: string;
+  /** 100 minus anomaly penalties, floored at 0 */
+  score: number;
+  status: NoonReportStatus;
+  /** Weight for trends: 0 when excluded, else score / 100 */
+  weight: number;
+  anomalies: NoonReportAnomaly[];
+}
+
+export type NoonReportDataQualityLevel = 'GOOD' | 'FAIR' | 'POOR';
+
+export interface NoonReportDataQuality {
+  level: NoonReportDataQualityLevel;
+  indicator: '🟢' | '🟡' | '🔴';
+  /** Average report score (0-100) */
+  score: number;
+  report_count: number;
+  valid_count: number;
+  suspect_count: number;
+  excluded_count: number;
+  /** Latest report that is not excluded (ISO 8601), null when all are */
+  latest_usable_date: string | null;
+  /** The most recent report was excluded, so an older one is used */
+  latest_excluded: boolean;
+  anomaly_counts: Partial<Record<NoonReportAnomalyCode, number>>;
+  message: string;
+}
+
+export interface NoonReportValidationResult {
+  /** In input order */
+  reports: NoonReportValidation[];
+  data_quality: NoonReportDataQuality;
+}
+
+// ============================================================================
+// Noon Report Validation Engine
+// ============================================================================
+
+export class NoonReportValidationEngine {
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from engine params on each call
+   */
+  constructor(private overrides?: Partial<NoonReportValidationParameters>) {}
+
+  /**
+   * Resolve parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): NoonReportValidationParameters {
+    const p = getConfigManager().getEngineParams('noon_report_validation')?.parameters ?? {};
+    const resolved = {} as NoonReportValidationParameters;
+    for (const key of Object.keys(DEFAULT_PARAMETERS) as Array<keyof NoonReportValidationParameters>) {
+      resolved[key] = this.overrides?.[key] ?? p[key] ?? DEFAULT_PARAMETERS[key];
+    }
+    return resolved;
+  }
+
+  /**
+   * Validate a vessel's reports (any order). Each report is checked against the latest
+   * earlier report that is not excluded, so one bad report does not condemn the next.
+   * A ROB rise outside a bunkering report is only suspect when the next report carries on
+   * from the new level (a bunkering logged under another event), so later reports are
+   * checked against it instead of being excluded.
+   */
+  public validate(reports: NoonReportObservation[]): NoonReportValidationResult {
+    const params = this.getParameters();
+    const order = reports
+      .map((report, index) => ({ report, index }))
+      .sort((a, b) => Date.parse(a.report.date) - Date.parse(b.report.date));
+
+    const history = this.consumptionHistory(reports, params);
+    const results: NoonReportValidation[] = new Array(reports.length);
+    let previous: NoonReportObservation | null = null;
+
+    for (const [position, { report, index }] of order.entries()) {
+      const next = order[position + 1]?.report;
+      const anomalies = [
+        ...this.checkValues(report, params),
+        ...(previous ? this.checkAgainstPrevious(report, previous, next, params) : []),
+        ...this.checkConsumption(report, history, params),
+      ];
+      const penalty = anomalies.reduce((sum, a) => sum + this.penalty(a.severity, params), 0);
+      const score = Math.max(0, 100 - penalty);
+      const status: NoonReportStatus =
+        score < params.exclude_below_score ? 'excluded' : anomalies.length > 0 ? 'suspect' : 'valid';
+      results[index] = {
+        index,
+        date: report.date,
+        score,
+        status,
+        weight: status === 'excluded' ? 0 : score / 100,
+        anomalies,
+      };
+      if (status !== 'excluded') previous = report;
+    }
+
+    const dataQuality = this.summarize(
+      order.map(({ index }) => results[index]!),
+      params
+    );
+    console.log(
+      `${LOG_PREFIX} ${reports.length} report(s): ${dataQuality.level} (score ${dataQuality.score.toFixed(0)}, ` +
+        `${dataQuality.suspect_count} suspect, ${dataQuality.excluded_count} excluded)`
+    );
+    return { reports: results, data_quality: dataQuality };
+  }
+
+  /**
+   * One-line badge for responses
+   */
+  public formatBadge(quality: NoonReportDataQuality): string {
+    return `${quality.indicator} Noon report data quality: ${quality.level} (score ${quality.score.toFixed(0)}/100). ${quality.message}`;
+  }
+
+  // ==========================================================================
+  // Rules
+  // ==========================================================================
+
+  private checkValues(report: NoonReportObservation, params: NoonReportValidationParameters): NoonReportAnomaly[] {
+    const anomalies: NoonReportAnomaly[] = [];
+    const negatives = [
+      ...Object.entries(report.rob_mt ?? {}).map(([grade, mt]) => [`ROB ${grade}`, mt] as const),
+      ...Object.entries(report.consumption_mt ?? {}).map(([grade, mt]) => [`${grade} consumption`, mt] as const),
+      ['speed', report.speed_knots] as const,
+      ['steaming time', report.steaming_hours] as const,
+      ['distance', report.distance_nm] as const,
+    ].filter(([, value]) => value != null && value < 0);
+    if (negatives.length > 0) {
+      anomalies.push(this.anomaly('negative_value', `Negative ${negatives.map(([name]) => name).join(', ')}`));
+    }
+
+    const speed = report.speed_knots;
+    if (speed != null && speed > params.max_speed_knots) {
+      anomalies.push(
+        this.anomaly('impossible_speed', `Speed ${speed.toFixed(1)} kn above ${params.max_speed_knots} kn`)
+      );
+    }
+
+    const hours = report.steaming_hours ?? 0;
+    if (speed != null && speed > 0 && report.distance_nm != null && report.distance_nm > 0 && hours > 0) {
+      const implied = report.distance_nm / hours;
+      const deviation = (Math.abs(implied - speed) / speed) * 100;
+      if (deviation > params.distance_speed_tolerance_percent) {
+        anomalies.push(
+          this.anomaly(
+            'distance_time_mismatch',
+            `${report.distance_nm.toFixed(0)} nm in ${hours.toFixed(1)} h is ${implied.toFixed(1)} kn, ` +
+              `reported ${speed.toFixed(1)} kn`
+          )
+        );
+      }
+    }
+    return anomalies;
+  }
+
+  private checkAgainstPrevious(
+    report: NoonReportObservation,
+    previous: NoonReportObservation,
+    next: NoonReportObservation | undefined,
+    params: NoonReportValidationParameters
+  ): NoonReportAnomaly[] {
+    const anomalies: NoonReportAnomaly[] = [];
+    const intervalHours = (Date.parse(report.date) - Date.parse(previous.date)) / 3_600_000;
+    const bunkering = BUNKERING_EVENT.test(report.event ?? '');
+
+    for (const [grade, rob] of Object.entries(report.rob_mt ?? {})) {
+      const before = previous.rob_mt?.[grade];
+      if (rob == null || before == null || bunkering) continue;
+      if (rob - before > params.rob_increase_tolerance_mt) {
+        const rise = `${grade} ROB rose ${(rob - before).toFixed(1)} MT (${before.toFixed(1)} → ${rob.toFixed(1)})`;
+        // The next report carries on from the new level rather than the old one
+        const after = next?.rob_mt?.[grade];
+        const confirmed =
+          after != null &&
+          after - rob <= params.rob_increase_tolerance_mt &&
+          Math.abs(after - rob) < Math.abs(after - before);
+        anomalies.push(
+          confirmed
+            ? this.anomaly('unreported_bunkering', `${rise} outside a bunkering report; next report confirms the new level`)
+            : this.anomaly('rob_increase_without_bunkering', `${rise} without a bunkering report`)
+        );
+        continue;
+      }
+      const consumed = report.consumption_mt?.[grade];
+      if (consumed == null) continue;
+      const expected = before - consumed;
+      const tolerance = Math.max(params.rob_balance_tolerance_mt, (consumed * params.rob_balance_tolerance_percent) / 100);
+      if (Math.abs(rob - expected) > tolerance) {
+        anomalies.push(
+          this.anomaly(
+            'rob_consumption_mismatch',
+            `${grade} ROB ${rob.toFixed(1)} MT vs ${expected.toFixed(1)} MT expected from ${consumed.toFixed(1)} MT consumed`
+          )
+        );
+      }
+    }
+
+    if (intervalHours > 0) {
+      const hours = report.steaming_hours ?? 0;
+      if (hours > intervalHours + params.steaming_interval_tolerance_hours) {
+        anomalies.push(
+          this.anomaly(
+            'steaming_exceeds_interval',
+            `${hours.toFixed(1)} h steaming in ${intervalHours.toFixed(1)} h since the previous report`
+          )
+        );
+      }
+
+      if (hasPosition(report) && hasPosition(previous)) {
+        const distance = haversineDistance(
+          { lat: previous.latitude!, lon: previous.longitude! },
+          { lat: report.latitude!, lon: report.longitude! }
+        );
+        const impliedSpeed = distance / intervalHours;
+        if (impliedSpeed > params.max_speed_knots) {
+          anomalies.push(
+            this.anomaly(
+              'position_jump',
+              `Position moved ${distance.toFixed(0)} nm in ${intervalHours.toFixed(1)} h (${impliedSpeed.toFixed(0)} kn)`
+            )
+          );
+        }
+      }
+    }
+    return anomalies;
+  }
+
+  private checkConsumption(
+    report: NoonReportObservation,
+    history: { median: number; sigma: number } | null,
+    params: NoonReportValidationParameters
+  ): NoonReportAnomaly[] {
+    const daily = dailyConsumption(report);
+    if (daily == null) return [];
+    const anomalies: NoonReportAnomaly[] = [];
+
+    const predicted = report.predicted_consumption_mt_per_day;
+    if (predicted != null && predicted > 0) {
+      const deviation = ((daily - predicted) / predicted) * 100;
+      if (Math.abs(deviation) > params.model_deviation_percent) {
+        anomalies.push(
+          this.anomaly(
+            'consumption_vs_model',
+            `${daily.toFixed(1)} MT/day is ${deviation > 0 ? '+' : ''}${deviation.toFixed(0)}% vs ${predicted.toFixed(1)} MT/day predicted`
+          )
+        );
+      }
+    }
+
+    if (history && history.sigma > 0) {
+      const z = (daily - history.median) / history.sigma;
+      if (Math.abs(z) > params.history_z_score) {
+        anomalies.push(
+          this.anomaly(
+            'consumption_vs_history',
+            `${daily.toFixed(1)} MT/day vs ${history.median.toFixed(1)} MT/day typical for the vessel (z ${z.toFixed(1)})`
+          )
+        );
+      }
+    }
+    return anomalies;
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  /**
+   * Median and robust spread of at-sea daily consumption; null with too few reports
+   */
+  private consumptionHistory(
+    reports: NoonReportObservation[],
+    params: NoonReportValidationParameters
+  ): { median: number; sigma: number } | null {
+    const daily = reports.map(dailyConsumption).filter((v): v is number => v != null && v > 0);
+    if (daily.length < params.history_min_reports) return null;
+    const med = median(daily);
+    const mad = median(daily.map((v) => Math.abs(v - med)));
+    return { median: med, sigma: mad * MAD_TO_SIGMA };
+  }
+
+  private summarize(ordered: NoonReportValidation[], params: NoonReportValidationParameters): NoonReportDataQuality {
+    const count = (status: NoonReportStatus) => ordered.filter((r) => r.status === status).length;
+    const score = ordered.length > 0 ? ordered.reduce((sum, r) => sum + r.score, 0) / ordered.length : 0;
+    const latest = ordered[ordered.length - 1];
+    const latestUsable = [...ordered].reverse().find((r) => r.status !== 'excluded');
+    const latestExcluded = latest?.status === 'excluded';
+
+    let level: NoonReportDataQualityLevel =
+      ordered.length === 0 ? 'POOR' : score >= params.good_score ? 'GOOD' : score >= params.fair_score ? 'FAIR' : 'POOR';
+    if (latestExcluded && level === 'GOOD') level = 'FAIR';
+    if (!latestUsable) level = 'POOR';
+
+    const anomalyCounts: Partial<Record<NoonReportAnomalyCode, number>> = {};
+    for (const anomaly of ordered.flatMap((r) => r.anomalies)) {
+      anomalyCounts[anomaly.code] = (anomalyCounts[anomaly.code] ?? 0) + 1;
+    }
+
+    const flagged = ordered.length - count('valid');
+    const reasons = Object.entries(anomalyCounts)
+      .sort(([, a], [, b]) => b - a)
+      .map(([code, n]) => `${ANOMALY_LABELS[code as NoonReportAnomalyCode]} ×${n}`);
+    const message =
+      ordered.length === 0
+        ? 'No noon reports to validate.'
+        : flagged === 0
+          ? `All ${ordered.length} noon report(s) consistent.`
+          : `${flagged} of ${ordered.length} noon report(s) flagged (${count('excluded')} excluded): ${reasons.join(', ')}.` +
+            (latestExcluded
+              ? latestUsable
+                ? ` Latest report excluded; using ${latestUsable.date}.`
+                : ' No usable report.'
+              : '');
+
+    return {
+      level,
+      indicator: BADGE_INDICATORS[level],
+      score,
+      report_count: ordered.length,
+      valid_count: count('valid'),
+      suspect_count: count('suspect'),
+      excluded_count: count('excluded'),
+      latest_usable_date: latestUsable?.date ?? null,
+      latest_excluded: latestExcluded,
+      anomaly_counts: anomalyCounts,
+      message,
+    };
+  }
+
+  private anomaly(code: NoonReportAnomalyCode, message: string): NoonReportAnomaly {
+    return { code, severity: ANOMALY_SEVERITY[code], message };
+  }
+
+  private penalty(severity: NoonReportAnomalySeverity, params: NoonReportValidationParameters): number {
+    return severity === 'high' ? params.penalty_high : severity === 'medium' ? params.penalty_medium : params.penalty_low;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Positions of 0, 0 are treated as missing (unset columns) */
+function hasPosition(report: NoonReportObservation): boolean {
+  const { latitude, longitude } = report;
+  return (
+    latitude != null &&
+    longitude != null &&
+    Number.isFinite(latitude) &&
+    Number.isFinite(longitude) &&
+    !(latitude === 0 && longitude === 0)
+  );
+}
+
+/** Daily consumption at sea (MT/day); null without steaming time or consumption */
+function dailyConsumption(report: NoonReportObservation): number | null {
+  if (report.consumption_mt_per_day != null) {
+    return report.consumption_mt_per_day > 0 ? report.consumption_mt_per_day : null;
+  }
+  const hours = report.steaming_hours ?? 0;
+  if (hours < 1 || !report.consumption_mt) return null;
+  const total = Object.values(report.consumption_mt).reduce((sum: number, mt) => sum + (mt ?? 0), 0);
+  return total > 0 ? (total / hours) * HOURS_PER_DAY : null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+export const noonReportValidationEngine = new NoonReportValidationEngine();
@@ -0,0 +1,219 @@
+/**
+ * Port Call Cost Engine
+ *
+ * Cost of calling at a bunker port beyond the fuel itself:
+ * - bunkering duration: hose handling plus stem quantity / supply rate
+ *   (PortCapabilities.maxSupplyRate, else the port table, else the default rate)
+ * - waiting time for a berth or barge (PortCapabilities.berthAvailability, else the port table, else default)
+ * - port dues and agency fee per port (port_call_costs table in config/data-policies/bunker.yaml)
+ * - daily hire and opex of the time spent waiting and bunkering
+ *
+ * Parameters come from config/engine-params/port-call-cost.yaml with fallbacks.
+ */
+
+import { getConfigManager } from '@/lib/config/config-manager';
+import type { PortCapabilities } from '@/lib/types/bunker';
+import type { PortCallCostTableEntry } from '@/lib/types/config';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '⚓ [PORT-CALL-COST-ENGINE]';
+
+const HOURS_PER_DAY = 24;
+
+const DEFAULT_PARAMETERS: PortCallCostParameters = {
+  default_supply_rate_mt_per_hour: 300,
+  hose_handling_hours: 3,
+  default_waiting_hours: 6,
+  daily_hire_usd: 15000,
+  daily_opex_usd: 6000,
+  default_port_dues_usd: 4000,
+  default_agency_fee_usd: 2000,
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PortCallCostParameters {
+  /** Supply rate (MT/h) when neither port capabilities nor the port table give one */
+  default_supply_rate_mt_per_hour: number;
+  /** Hose connection, sampling, disconnection and paperwork per call */
+  hose_handling_hours: number;
+  /** Waiting time for a berth or barge when not known for the port */
+  default_waiting_hours: number;
+  /** Daily hire (time-charter equivalent) and operating cost of the vessel */
+  daily_hire_usd: number;
+  daily_opex_usd: number;
+  /** Port dues and agency fee for ports not in the port table */
+  default_port_dues_usd: number;
+  default_agency_fee_usd: number;
+}
+
+/** Where a supply rate or waiting time came from */
+export type PortCallCostSource = 'port_capabilities' | 'port_table' | 'default';
+
+export interface PortCallCostInput {
+  port_code: string;
+  port_name?: string;
+  /** Total stem (all grades) in MT */
+  quantity_mt: number;
+  capabilities?: PortCapabilities | null;
+  /** Estimated arrival (ISO 8601); resolves a berth availability date into waiting hours */
+  arrival_date?: string;
+}
+
+export interface PortCallCost {
+  port_code: string;
+  quantity_mt: number;
+  supply_rate_mt_per_hour: number;
+  supply_rate_source: PortCallCostSource;
+  /** Hose handling plus pumping time */
+  bunkering_hours: number;
+  waiting_hours: number;
+  waiting_source: PortCallCostSource;
+  berth_availability?: string;
+  /** Waiting plus bunkering hours */
+  delay_hours: number;
+  /** Hire and opex of the delay */
+  delay_cost_usd: number;
+  port_dues_usd: number;
+  agency_fee_usd: number;
+  /** Delay cost + port dues + agency fee */
+  total_cost_usd: number;
+}
+
+// ============================================================================
+// Port Call Cost Engine
+// ============================================================================
+
+export class PortCallCostEngine {
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from engine params on each call
+   * @param portTable - Fixed port table (e.g. tests); when omitted, read from the bunker data policy
+   */
+  constructor(
+    private overrides?: Partial<PortCallCostParameters>,
+    private portTable?: Record<string, PortCallCostTableEntry>
+  ) {}
+
+  /**
+   * Resolve parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): PortCallCostParameters {
+    const p = getConfigManager().getEngineParams('port_call_cost')?.parameters ?? {};
+    const resolve = (key: keyof PortCallCostParameters) =>
+      this.overrides?.[key] ?? p[key] ?? DEFAULT_PARAMETERS[key];
+    return {
+      default_supply_rate_mt_per_hour: resolve('default_supply_rate_mt_per_hour'),
+      hose_handling_hours: resolve('hose_handling_hours'),
+      default_waiting_hours: resolve('default_waiting_hours'),
+      daily_hire_usd: resolve('daily_hire_usd'),
+      daily_opex_usd: resolve('daily_opex_usd'),
+      default_port_dues_usd: resolve('default_port_dues_usd'),
+      default_agency_fee_usd: resolve('default_agency_fee_usd'),
+    };
+  }
+
+  /**
+   * Port table entry by port code, then port name (case-insensitive)
+   */
+  public getPortEntry(portCode: string, portName?: string): PortCallCostTableEntry | undefined {
+    const table = this.portTable ?? getConfigManager().getDataPolicy('bunker')?.port_call_costs ?? {};
+    const keys = [portCode, portName].filter((k): k is string => !!k && k.trim() !== '').map((k) => k.trim().toUpperCase());
+    for (const [key, entry] of Object.entries(table)) {
+      if (keys.includes(key.trim().toUpperCase())) return entry;
+    }
+    return undefined;
+  }
+
+  /**
+   * Estimate the cost of one bunker call.
+   */
+  public estimate(input: PortCallCostInput): PortCallCost {
+    const params = this.getParameters();
+    const entry = this.getPortEntry(input.port_code, input.port_name);
+    const quantity = Math.max(0, input.quantity_mt || 0);
+
+    const capabilityRate = input.capabilities?.maxSupplyRate;
+    let supplyRate = params.default_supply_rate_mt_per_hour;
+    let supplyRateSource: PortCallCostSource = 'default';
+    if (typeof capabilityRate === 'number' && capabilityRate > 0) {
+      supplyRate = capabilityRate;
+      supplyRateSource = 'port_capabilities';
+    } else if (entry?.supply_rate_mt_per_hour != null && entry.supply_rate_mt_per_hour > 0) {
+      supplyRate = entry.supply_rate_mt_per_hour;
+      supplyRateSource = 'port_table';
+    }
+
+    const berthAvailability = input.capabilities?.berthAvailability;
+    const berthWaitingHours = parseBerthAvailabilityHours(berthAvailability, input.arrival_date);
+    let waitingHours = params.default_waiting_hours;
+    let waitingSource: PortCallCostSource = 'default';
+    if (berthWaitingHours !== undefined) {
+      waitingHours = berthWaitingHours;
+      waitingSource = 'port_capabilities';
+    } else if (entry?.waiting_hours != null && entry.waiting_hours >= 0) {
+      waitingHours = entry.waiting_hours;
+      waitingSource = 'port_table';
+    }
+
+    const bunkeringHours = quantity > 0 ? params.hose_handling_hours + quantity / supplyRate : 0;
+    const delayHours = waitingHours + bunkeringHours;
+    const delayCost = (delayHours / HOURS_PER_DAY) * (params.daily_hire_usd + params.daily_opex_usd);
+    const portDues = entry?.port_dues_usd ?? params.default_port_dues_usd;
+    const agencyFee = entry?.agency_fee_usd ?? params.default_agency_fee_usd;
+
+    const result: PortCallCost = {
+      port_code: input.port_code,
+      quantity_mt: quantity,
+      supply_rate_mt_per_hour: supplyRate,
+      supply_rate_source: supplyRateSource,
+      bunkering_hours: bunkeringHours,
+      waiting_hours: waitingHours,
+      waiting_source: waitingSource,
+      ...(berthAvailability && { berth_availability: berthAvailability }),
+      delay_hours: delayHours,
+      delay_cost_usd: delayCost,
+      port_dues_usd: portDues,
+      agency_fee_usd: agencyFee,
+      total_cost_usd: delayCost + portDues + agencyFee,
+    };
+
+    console.log(
+      `${LOG_PREFIX} ${input.port_code}: ${quantity.toFixed(0)} MT @ ${supplyRate} MT/h (${supplyRateSource}), ` +
+        `waiting ${waitingHours.toFixed(1)}h (${waitingSource}) → $${result.total_cost_usd.toFixed(0)}`
+    );
+    return result;
+  }
+}
+
+/**
+ * Waiting hours from a berth availability string: "immediate" / "available" → 0,
+ * "36 hours", "2 days", "1.5d" → hours, or an ISO date → hours from arrival (or now) until then.
+ * Returns undefined when the text cannot be interpreted.
+ */
+export function parseBerthAvailabilityHours(availability?: string, arrivalDate?: string): number | undefined {
+  const text = availability?.trim().toLowerCase();
+  if (!text) return undefined;
+  if (/^(immediate(ly)?|available|open|no wait(ing)?|none)$/.test(text)) return 0;
+
+  const duration = text.match(/^(\d+(?:\.\d+)?)\s*(h|hr|hrs|hour|hours|d|day|days)$/);
+  if (duration) {
+    const value = parseFloat(duration[1]);
+    return duration[2].startsWith('d') ? value * HOURS_PER_DAY : value;
+  }
+
+  const availableFrom = Date.parse(availability as string);
+  if (Number.isFinite(availableFrom)) {
+    const arrival = arrivalDate ? Date.parse(arrivalDate) : Date.now();
+    const from = Number.isFinite(arrival) ? arrival : Date.now();
+    return Math.max(0, (availableFrom - from) / (60 * 60 * 1000));
+  }
+  return undefined;
+}
+
+// Export singleton instance
+export const portCallCostEngine = new PortCallCostEngine();
@@ -10,8 +10,14 @@ import type { VesselProfile } from '@/lib/services/vessel-service';
 export interface FuelQuantity {
   VLSFO: number;  // Metric tons
   LSMGO: number;  // Metric tons
+  HSFO?: number;  // Metric tons (scrubber-fitted vessels; tracked when set on any input)
+  LNG?: number;   // Metric tons (dual-fuel vessels; tracked when set on any input)
 }
 
+/** Grades tracked only when some input carries them */
+type OptionalGrade = 'HSFO' | 'LNG';
+const OPTIONAL_GRADES: OptionalGrade[] = ['HSFO', 'LNG'];
+
 export interface ROBWaypoint {
   location: string;
   distance_from_previous: number;  // Nautical miles
@@ -48,6 +54,10 @@ export interface ROBTrackingInput {
   
   // Safety parameters
   safety_margin_days: number;  // Typically 3-5 days
+  
+  // LNG that must stay in the tanks to keep them cold (dual-fuel vessels); LNG segment
+  // consumption should include boil-off that is not burned
+  lng_heel_mt?: number;
 }
 
 export interface ROBTrackingOutput {
@@ -70,8 +80,12 @@ export class ROBTrackingEngine {
    */
   public calculateROBTracking(input: ROBTrackingInput): ROBTrackingOutput {
     const waypoints: ROBWaypoint[] = [];
-    let currentROB = { ...input.initial_rob };
-    let minROB = { ...input.initial_rob };
+    const tracked = this.trackedOptionalGrades(input);
+    let currentROB: FuelQuantity = { ...input.initial_rob };
+    for (const grade of tracked) {
+      currentROB[grade] = input.initial_rob[grade] ?? 0;
+    }
+    let minROB = { ...currentROB };
     let minROBLocation = 'Departure';
     const violations: Array<{
       location: string;
@@ -99,7 +113,8 @@ export class ROBTrackingEngine {
       const availableLSMGO = input.vessel_capacity.LSMGO - currentROB.LSMGO;
       
       if (bunkerAtDeparture.quantity_to_bunker.VLSFO > availableVLSFO || 
-          bunkerAtDeparture.quantity_to_bunker.LSMGO > availableLSMGO) {
+          bunkerAtDeparture.quantity_to_bunker.LSMGO > availableLSMGO ||
+          this.exceedsOptionalCapacity(currentROB, input.vessel_capacity, bunkerAtDeparture.quantity_to_bunker)) {
         violations.push({
           location: bunkerAtDeparture.port_name,
           issue: 'Bunker quantity exceeds available tank capacity',
@@ -119,6 +134,12 @@ export class ROBTrackingEngine {
         currentROB.LSMGO + bunkerAtDeparture.quantity_to_bunker.LSMGO,
         input.vessel_capacity.LSMGO
       );
+      for (const grade of tracked) {
+        currentROB[grade] = Math.min(
+          (currentROB[grade] ?? 0) + (bunkerAtDeparture.quantity_to_bunker[grade] ?? 0),
+          input.vessel_capacity[grade] ?? Infinity
+        );
+      }
       
       // Add bunker waypoint (at departure, after bunkering)
       const safetyMarginAfterBunker = this.calculateSafetyMarginDays(currentROB, defaultConsumption);
@@ -151,18 +172,36 @@ export class ROBTrackingEngine {
       // Deduct consumption
       currentROB.VLSFO -= consumptionVLSFO;
       currentROB.LSMGO -= consumptionLSMGO;
+      for (const grade of tracked) {
+        currentROB[grade] = (currentROB[grade] ?? 0) - (segment.consumption_mt_per_day[grade] ?? 0) * segment.duration_days;
+      }
+      const optionalNegative = tracked.some((grade) => (currentROB[grade] ?? 0) < 0);
       
       // Check if ROB went negative (CRITICAL VIOLATION)
-      if (currentROB.VLSFO < 0 || currentROB.LSMGO < 0) {
+      if (currentROB.VLSFO < 0 || currentROB.LSMGO < 0 || optionalNegative) {
         violations.push({
           location: segment.to,
           issue: 'Negative ROB - vessel cannot reach destination',
           rob_at_violation: { ...currentROB },
         });
+      } else if (
+        tracked.includes('LNG') &&
+        input.lng_heel_mt !== undefined &&
+        (currentROB.LNG ?? 0) < input.lng_heel_mt
+      ) {
+        violations.push({
+          location: segment.to,
+          issue: `LNG below tank heel (${(currentROB.LNG ?? 0).toFixed(1)} of ${input.lng_heel_mt.toFixed(1)} MT)`,
+          rob_at_violation: { ...currentROB },
+        });
       }
       
       // Track minimum ROB
-      if (currentROB.VLSFO < minROB.VLSFO || currentROB.LSMGO < minROB.LSMGO) {
+      if (
+        currentROB.VLSFO < minROB.VLSFO ||
+        currentROB.LSMGO < minROB.LSMGO ||
+        tracked.some((grade) => (currentROB[grade] ?? 0) < (minROB[grade] ?? 0))
+      ) {
         minROB = { ...currentROB };
         minROBLocation = segment.to;
       }
@@ -175,7 +214,8 @@ export class ROBTrackingEngine {
       
       const isSafe = safetyMarginDays >= input.safety_margin_days && 
                      currentROB.VLSFO >= 0 && 
-                     currentROB.LSMGO >= 0;
+                     currentROB.LSMGO >= 0 &&
+                     !optionalNegative;
       
       if (!isSafe && safetyMarginDays < input.safety_margin_days) {
         violations.push({
@@ -203,7 +243,8 @@ export class ROBTrackingEngine {
         const availableLSMGO = input.vessel_capacity.LSMGO - currentROB.LSMGO;
         
         if (bunkerStop.quantity_to_bunker.VLSFO > availableVLSFO || 
-            bunkerStop.quantity_to_bunker.LSMGO > availableLSMGO) {
+            bunkerStop.quantity_to_bunker.LSMGO > availableLSMGO ||
+            this.exceedsOptionalCapacity(currentROB, input.vessel_capacity, bunkerStop.quantity_to_bunker)) {
           violations.push({
             location: bunkerStop.port_name,
             issue: 'Bunker quantity exceeds available tank capacity',
@@ -214,6 +255,9 @@ export class ROBTrackingEngine {
         // Add fuel from bunkering
         currentROB.VLSFO += bunkerStop.quantity_to_bunker.VLSFO;
         currentROB.LSMGO += bunkerStop.quantity_to_bunker.LSMGO;
+        for (const grade of tracked) {
+          currentROB[grade] = (currentROB[grade] ?? 0) + (bunkerStop.quantity_to_bunker[grade] ?? 0);
+        }
         
         // Add bunker waypoint
         const safetyMarginAfterBunker = this.calculateSafetyMarginDays(
@@ -262,7 +306,41 @@ export class ROBTrackingEngine {
       ? currentROB.LSMGO / dailyConsumption.LSMGO 
       : Infinity;
     
-    return Math.min(vlsfoDays, lsmgoDays);
+    const optionalDays = OPTIONAL_GRADES.map((grade) =>
+      (dailyConsumption[grade] ?? 0) > 0
+        ? (currentROB[grade] ?? 0) / (dailyConsumption[grade] ?? 0)
+        : Infinity
+    );
+    
+    return Math.min(vlsfoDays, lsmgoDays, ...optionalDays);
+  }
+
+  /**
+   * HSFO and LNG are tracked only when some input carries them, so VLSFO/LSMGO-only voyages keep their shape
+   */
+  private trackedOptionalGrades(input: ROBTrackingInput): OptionalGrade[] {
+    return OPTIONAL_GRADES.filter(
+      (grade) =>
+        input.initial_rob[grade] !== undefined ||
+        input.segments.some((seg) => seg.consumption_mt_per_day[grade] !== undefined) ||
+        (input.bunker_stops ?? []).some((stop) => stop.quantity_to_bunker[grade] !== undefined)
+    );
+  }
+
+  /**
+   * HSFO or LNG bunker does not fit (only checked when the vessel's capacity for the grade is known)
+   */
+  private exceedsOptionalCapacity(
+    currentROB: FuelQuantity,
+    vesselCapacity: FuelQuantity,
+    bunkerQuantity: FuelQuantity
+  ): boolean {
+    return OPTIONAL_GRADES.some((grade) => {
+      const capacity = vesselCapacity[grade];
+      const quantity = bunkerQuantity[grade];
+      if (capacity === undefined || !quantity) return false;
+      return quantity > capacity - (currentROB[grade] ?? 0);
+    });
   }
 
   /**
@@ -0,0 +1,163 @@
+/**
+ * Route Comparison Engine
+ *
+ * Compares total voyage cost across route alternatives for the same origin/destination
+ * (e.g. via Suez vs via Cape of Good Hope): fuel, canal tolls, EU ETS allowances,
+ * FuelEU Maritime penalty and time (daily vessel cost × voyage days).
+ *
+ * Parameters come from config/engine-params/route-comparison.yaml with fallbacks.
+ */
+
+import { getConfigManager } from '@/lib/config/config-manager';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '🔀 [ROUTE-COMPARISON-ENGINE]';
+
+const DEFAULT_PARAMETERS: RouteComparisonParameters = {
+  daily_vessel_cost_usd: 25000,
+  default_fuel_price_usd_per_mt: 600,
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RouteComparisonParameters {
+  /** Time charter equivalent / daily running cost charged per voyage day */
+  daily_vessel_cost_usd: number;
+  /** Fuel price when no bunker price is available */
+  default_fuel_price_usd_per_mt: number;
+}
+
+export interface RouteCostInput {
+  route_id: string;
+  route_type: string;
+  distance_nm: number;
+  estimated_hours: number;
+  fuel_consumption_mt: number;
+  /** Defaults to default_fuel_price_usd_per_mt */
+  fuel_price_usd_per_mt?: number;
+  canal_toll_usd?: number;
+  eu_ets_cost_usd?: number;
+  fueleu_penalty_usd?: number;
+}
+
+export interface RouteCostBreakdown {
+  route_id: string;
+  route_type: string;
+  distance_nm: number;
+  voyage_days: number;
+  fuel_consumption_mt: number;
+  fuel_cost_usd: number;
+  canal_toll_usd: number;
+  eu_ets_cost_usd: number;
+  fueleu_penalty_usd: number;
+  time_cost_usd: number;
+  total_cost_usd: number;
+  /** Extra cost vs the cheapest alternative (0 for the cheapest) */
+  cost_vs_cheapest_usd: number;
+  cheapest: boolean;
+}
+
+export interface RouteComparisonResult {
+  /** Alternatives ordered cheapest first */
+  routes: RouteCostBreakdown[];
+  cheapest_route_id: string;
+  daily_vessel_cost_usd: number;
+  /** Cost difference between the most expensive and the cheapest alternative */
+  max_savings_usd: number;
+}
+
+// ============================================================================
+// Route Comparison Engine
+// ============================================================================
+
+export class RouteComparisonEngine {
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from engine params on each call
+   */
+  constructor(private overrides?: Partial<RouteComparisonParameters>) {}
+
+  /**
+   * Resolve parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): RouteComparisonParameters {
+    const p = getConfigManager().getEngineParams('route_comparison')?.parameters ?? {};
+    const resolve = (key: keyof RouteComparisonParameters) =>
+      this.overrides?.[key] ?? p[key] ?? DEFAULT_PARAMETERS[key];
+    return {
+      daily_vessel_cost_usd: resolve('daily_vessel_cost_usd'),
+      default_fuel_price_usd_per_mt: resolve('default_fuel_price_usd_per_mt'),
+    };
+  }
+
+  /**
+   * Cost breakdown of one route alternative (cost_vs_cheapest filled in by compareRoutes)
+   */
+  public calculateRouteCost(input: RouteCostInput): RouteCostBreakdown {
+    const params = this.getParameters();
+    const voyageDays = input.estimated_hours / 24;
+    const fuelPrice = input.fuel_price_usd_per_mt ?? params.default_fuel_price_usd_per_mt;
+
+    const fuelCost = input.fuel_consumption_mt * fuelPrice;
+    const canalToll = input.canal_toll_usd ?? 0;
+    const euEtsCost = input.eu_ets_cost_usd ?? 0;
+    const fuelEUPenalty = input.fueleu_penalty_usd ?? 0;
+    const timeCost = voyageDays * params.daily_vessel_cost_usd;
+
+    return {
+      route_id: input.route_id,
+      route_type: input.route_type,
+      distance_nm: input.distance_nm,
+      voyage_days: voyageDays,
+      fuel_consumption_mt: input.fuel_consumption_mt,
+      fuel_cost_usd: fuelCost,
+      canal_toll_usd: canalToll,
+      eu_ets_cost_usd: euEtsCost,
+      fueleu_penalty_usd: fuelEUPenalty,
+      time_cost_usd: timeCost,
+      total_cost_usd: fuelCost + canalToll + euEtsCost + fuelEUPenalty + timeCost,
+      cost_vs_cheapest_usd: 0,
+      cheapest: false,
+    };
+  }
+
+  /**
+   * Compare total voyage cost across route alternatives
+   *
+   * @throws Error when no alternatives are given
+   */
+  public compareRoutes(alternatives: RouteCostInput[]): RouteComparisonResult {
+    if (alternatives.length === 0) {
+      throw new Error('At least one route alternative is required for comparison');
+    }
+
+    const routes = alternatives
+      .map((alternative) => this.calculateRouteCost(alternative))
+      .sort((a, b) => a.total_cost_usd - b.total_cost_usd);
+    const cheapest = routes[0];
+    for (const route of routes) {
+      route.cost_vs_cheapest_usd = route.total_cost_usd - cheapest.total_cost_usd;
+    }
+    cheapest.cheapest = true;
+
+    const result: RouteComparisonResult = {
+      routes,
+      cheapest_route_id: cheapest.route_id,
+      daily_vessel_cost_usd: this.getParameters().daily_vessel_cost_usd,
+      max_savings_usd: routes[routes.length - 1].total_cost_usd - cheapest.total_cost_usd,
+    };
+
+    console.log(
+      `${LOG_PREFIX} ${routes.length} route(s): cheapest ${cheapest.route_type} ` +
+        `$${cheapest.total_cost_usd.toFixed(0)}, max savings $${result.max_savings_usd.toFixed(0)}`
+    );
+    return result;
+  }
+}
+
+// Export singleton instance
+export const routeComparisonEngine = new RouteComparisonEngine();
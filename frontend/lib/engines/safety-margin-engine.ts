@@ -1,8 +1,232 @@
 /**
  * Safety Margin Engine
- * TODO: Implement in Prompt 12
+ *
+ * Single source for the fuel reserve a voyage must keep on board.
+ * Parameters come from the `bunker_safety_margin` rule in
+ * config/business-rules/safety-rules.yaml (min_safety_days, min_safety_percentage,
+ * critical_threshold_days, weather_risk_extra_days, eca_margin_percentage).
+ *
+ * Per fuel grade the reserve is the larger of:
+ * - days-based: daily consumption × (min_safety_days + weather risk extra days)
+ * - percentage-based: voyage consumption × min_safety_percentage
+ * LSMGO additionally carries eca_margin_percentage of the fuel burned inside ECA zones.
  */
 
+import type { WeatherConsumption } from '@/lib/multi-agent/state';
+import { getConfigManager } from '@/lib/config/config-manager';
+import type { FuelQuantity } from './rob-tracking-engine';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '🛟 [SAFETY-MARGIN-ENGINE]';
+const SAFETY_RULE_ID = 'bunker_safety_margin';
+
+const DEFAULT_PARAMETERS: SafetyRuleParameters = {
+  min_safety_days: 3,
+  min_safety_percentage: 15,
+  critical_threshold_days: 1,
+  weather_risk_extra_days: { low: 0, medium: 0.5, high: 1 },
+  eca_margin_percentage: 12,
+};
+
+/** Weather consumption increase (%) / max wave height (m) at which risk is medium or high */
+const WEATHER_RISK_THRESHOLDS = {
+  medium: { consumption_increase_percent: 5, max_wave_height_m: 2.5 },
+  high: { consumption_increase_percent: 15, max_wave_height_m: 4 },
+} as const;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WeatherRiskLevel = 'low' | 'medium' | 'high';
+
+export type SafetyMarginRule = 'min_safety_days' | 'min_safety_percentage';
+
+export interface SafetyRuleParameters {
+  min_safety_days: number;
+  min_safety_percentage: number;
+  critical_threshold_days: number;
+  weather_risk_extra_days: Record<WeatherRiskLevel, number>;
+  eca_margin_percentage: number;
+}
+
+export interface SafetyMarginInput {
+  /** Voyage duration in days */
+  voyage_days: number;
+  /** Daily consumption by grade (weather-adjusted where available) */
+  daily_consumption: FuelQuantity;
+  /** Total voyage consumption by grade; defaults to daily_consumption × voyage_days */
+  voyage_consumption?: FuelQuantity;
+  /** Weather risk for the voyage (default: low) */
+  weather_risk?: WeatherRiskLevel;
+  /** LSMGO burned inside ECA zones in MT (default: 0) */
+  eca_consumption_mt?: number;
+}
+
+export interface GradeSafetyMargin {
+  /** Reserve to keep on board in MT */
+  required_mt: number;
+  /** Reserve expressed in days of this grade's consumption */
+  required_days: number;
+  driving_rule: SafetyMarginRule;
+  /** Part of required_mt added for ECA exposure (LSMGO only) */
+  eca_addition_mt: number;
+}
+
+export interface SafetyMarginOutput {
+  rule_id: string;
+  /** Governing reserve in days (largest across grades) */
+  required_days: number;
+  required_mt: FuelQuantity;
+  /** Total reserve as a fraction of total voyage consumption */
+  required_fraction: number;
+  critical_threshold_days: number;
+  /** ROB below which the voyage is critical (critical_threshold_days of consumption) */
+  critical_mt: FuelQuantity;
+  weather_risk: WeatherRiskLevel;
+  /** Rule that set the governing reserve */
+  driving_rule: SafetyMarginRule;
+  by_grade: Record<'VLSFO' | 'LSMGO', GradeSafetyMargin>;
+  /** Human-readable explanation of which rule drove the margin */
+  explanation: string;
+  parameters: SafetyRuleParameters;
+}
+
+// ============================================================================
+// Safety Margin Engine
+// ============================================================================
+
 export class SafetyMarginEngine {
-  // TODO: Implement
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from safety-rules.yaml on each call
+   */
+  constructor(private overrides?: Partial<SafetyRuleParameters>) {}
+
+  /**
+   * Resolve rule parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): SafetyRuleParameters {
+    const p = (getConfigManager().getBusinessRule(SAFETY_RULE_ID)?.parameters ?? {}) as Partial<SafetyRuleParameters>;
+    return {
+      min_safety_days: this.overrides?.min_safety_days ?? p.min_safety_days ?? DEFAULT_PARAMETERS.min_safety_days,
+      min_safety_percentage:
+        this.overrides?.min_safety_percentage ?? p.min_safety_percentage ?? DEFAULT_PARAMETERS.min_safety_percentage,
+      critical_threshold_days:
+        this.overrides?.critical_threshold_days ?? p.critical_threshold_days ?? DEFAULT_PARAMETERS.critical_threshold_days,
+      weather_risk_extra_days: {
+        ...DEFAULT_PARAMETERS.weather_risk_extra_days,
+        ...p.weather_risk_extra_days,
+        ...this.overrides?.weather_risk_extra_days,
+      },
+      eca_margin_percentage:
+        this.overrides?.eca_margin_percentage ?? p.eca_margin_percentage ?? DEFAULT_PARAMETERS.eca_margin_percentage,
+    };
+  }
+
+  /**
+   * Classify voyage weather risk from the weather agent's consumption analysis
+   */
+  public assessWeatherRisk(weather?: WeatherConsumption | null): WeatherRiskLevel {
+    if (!weather) return 'low';
+    const increase = weather.consumption_increase_percent ?? 0;
+    const maxWave = weather.voyage_weather_summary?.max_wave_height_m ?? 0;
+    const { high, medium } = WEATHER_RISK_THRESHOLDS;
+    if (increase >= high.consumption_increase_percent || maxWave >= high.max_wave_height_m) return 'high';
+    if (increase >= medium.consumption_increase_percent || maxWave >= medium.max_wave_height_m) return 'medium';
+    return 'low';
+  }
+
+  /**
+   * Calculate the required reserve for a voyage
+   */
+  public calculateSafetyMargin(input: SafetyMarginInput): SafetyMarginOutput {
+    const params = this.getParameters();
+    const weatherRisk = input.weather_risk ?? 'low';
+    const voyageDays = Math.max(0, input.voyage_days);
+    const voyageConsumption = input.voyage_consumption ?? {
+      VLSFO: input.daily_consumption.VLSFO * voyageDays,
+      LSMGO: input.daily_consumption.LSMGO * voyageDays,
+    };
+    const reserveDays = params.min_safety_days + (params.weather_risk_extra_days[weatherRisk] ?? 0);
+    const ecaAddition = Math.max(0, input.eca_consumption_mt ?? 0) * (params.eca_margin_percentage / 100);
+
+    const gradeMargin = (grade: 'VLSFO' | 'LSMGO', extraMt: number): GradeSafetyMargin => {
+      const daily = Math.max(0, input.daily_consumption[grade]);
+      const daysBased = daily * reserveDays;
+      const percentageBased = Math.max(0, voyageConsumption[grade]) * (params.min_safety_percentage / 100);
+      const drivingRule: SafetyMarginRule = percentageBased > daysBased ? 'min_safety_percentage' : 'min_safety_days';
+      const requiredMt = Math.max(daysBased, percentageBased) + extraMt;
+      return {
+        required_mt: requiredMt,
+        required_days: daily > 0 ? requiredMt / daily : 0,
+        driving_rule: drivingRule,
+        eca_addition_mt: extraMt,
+      };
+    };
+
+    const byGrade = {
+      VLSFO: gradeMargin('VLSFO', 0),
+      LSMGO: gradeMargin('LSMGO', ecaAddition),
+    };
+
+    const governing = byGrade.LSMGO.required_days > byGrade.VLSFO.required_days ? byGrade.LSMGO : byGrade.VLSFO;
+    const requiredDays = governing.required_days > 0 ? governing.required_days : reserveDays;
+    const totalReserve = byGrade.VLSFO.required_mt + byGrade.LSMGO.required_mt;
+    const totalVoyage = Math.max(0, voyageConsumption.VLSFO) + Math.max(0, voyageConsumption.LSMGO);
+
+    const result: SafetyMarginOutput = {
+      rule_id: SAFETY_RULE_ID,
+      required_days: requiredDays,
+      required_mt: { VLSFO: byGrade.VLSFO.required_mt, LSMGO: byGrade.LSMGO.required_mt },
+      required_fraction: totalVoyage > 0 ? totalReserve / totalVoyage : params.min_safety_percentage / 100,
+      critical_threshold_days: params.critical_threshold_days,
+      critical_mt: {
+        VLSFO: Math.max(0, input.daily_consumption.VLSFO) * params.critical_threshold_days,
+        LSMGO: Math.max(0, input.daily_consumption.LSMGO) * params.critical_threshold_days,
+      },
+      weather_risk: weatherRisk,
+      driving_rule: governing.driving_rule,
+      by_grade: byGrade,
+      explanation: '',
+      parameters: params,
+    };
+    result.explanation = this.explain(result, reserveDays, totalVoyage, ecaAddition);
+
+    console.log(`${LOG_PREFIX} ${result.explanation}`);
+    return result;
+  }
+
+  /**
+   * Build the human-readable explanation of the governing rule
+   */
+  private explain(
+    result: SafetyMarginOutput,
+    reserveDays: number,
+    totalVoyageMt: number,
+    ecaAdditionMt: number
+  ): string {
+    const p = result.parameters;
+    const weatherNote =
+      reserveDays > p.min_safety_days
+        ? ` + ${(reserveDays - p.min_safety_days).toFixed(1)} days for ${result.weather_risk} weather risk`
+        : '';
+    const ruleNote =
+      result.driving_rule === 'min_safety_percentage'
+        ? `${p.min_safety_percentage}% of ${totalVoyageMt.toFixed(0)} MT voyage consumption exceeds the ` +
+          `${reserveDays.toFixed(1)}-day minimum (${p.min_safety_days} days${weatherNote})`
+        : `${p.min_safety_days}-day minimum${weatherNote} exceeds ${p.min_safety_percentage}% of voyage consumption`;
+    const ecaNote =
+      ecaAdditionMt > 0 ? `; LSMGO includes ${ecaAdditionMt.toFixed(0)} MT (${p.eca_margin_percentage}% of ECA burn)` : '';
+    return (
+      `Safety reserve ${result.required_days.toFixed(1)} days ` +
+      `(${result.required_mt.VLSFO.toFixed(0)} MT VLSFO, ${result.required_mt.LSMGO.toFixed(0)} MT LSMGO) ` +
+      `set by ${result.driving_rule}: ${ruleNote}${ecaNote}`
+    );
+  }
 }
+
+// Export singleton instance
+export const safetyMarginEngine = new SafetyMarginEngine();
@@ -0,0 +1,364 @@
+/**
+ * Scrubber Economics Engine
+ *
+ * HSFO + scrubber vs VLSFO fuel strategy for a scrubber-fitted vessel on a planned voyage:
+ * - route segments by ECA and scrubber discharge-ban area (sampled along the waypoints, using
+ *   the zones in force when the ship passes when departure and speed are known)
+ * - consumption by grade with and without the scrubber (ECAConsumptionEngine); HSFO is burned
+ *   wherever the scrubber type may operate, plus a power penalty for running it
+ * - fuel cost, EU ETS cost by grade and scrubber operating cost per strategy
+ * - savings, recommended strategy and the breakeven HSFO/VLSFO spread
+ *
+ * Parameters come from config/engine-params/scrubber-economics.yaml with fallbacks.
+ */
+
+import * as turf from '@turf/turf';
+import { getConfigManager } from '@/lib/config/config-manager';
+import {
+  getRegulatoryZoneRegistry,
+  isEmissionControlArea,
+  isScrubberDischargeBan,
+  type RegulatoryZone,
+} from '@/lib/config/regulatory-zone-registry';
+import type { Coordinates } from '@/lib/types';
+import type { ScrubberFitment, ScrubberType } from '@/lib/types/bunker';
+import type { CIIFuelGrade } from './cii-calculator-engine';
+import {
+  ecaConsumptionEngine,
+  type ConsumptionProfile,
+  type FuelConsumptionByType,
+  type RouteSegment,
+} from './eca-consumption-engine';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '🧪 [SCRUBBER-ECONOMICS-ENGINE]';
+
+const DEFAULT_PARAMETERS: ScrubberEconomicsParameters = {
+  scrubber_power_penalty_percent: 2,
+  open_loop_opex_usd_per_day: 250,
+  closed_loop_opex_usd_per_day: 900,
+  hybrid_opex_usd_per_day: 400,
+  hsfo_discount_usd_per_mt: 110,
+  lsmgo_vlsfo_price_ratio: 1.4,
+  sample_interval_nm: 10,
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ScrubberEconomicsParameters {
+  /** Extra main engine fuel (%) to power the scrubber */
+  scrubber_power_penalty_percent: number;
+  /** Operating cost per day the scrubber runs, by type */
+  open_loop_opex_usd_per_day: number;
+  closed_loop_opex_usd_per_day: number;
+  hybrid_opex_usd_per_day: number;
+  /** HSFO discount to VLSFO when no HSFO price is quoted */
+  hsfo_discount_usd_per_mt: number;
+  /** LSMGO price relative to VLSFO when no LSMGO price is quoted */
+  lsmgo_vlsfo_price_ratio: number;
+  /** Route sampling interval (nm) for area membership */
+  sample_interval_nm: number;
+}
+
+export type FuelStrategy = 'HSFO_SCRUBBER' | 'VLSFO';
+
+export interface ScrubberEconomicsInput {
+  scrubber: ScrubberFitment;
+  base_consumption: ConsumptionProfile;
+  /** ECA / discharge-ban segments (see buildRouteSegments) */
+  route_segments: RouteSegment[];
+  speed_knots: number;
+  weather_factor?: number;
+  /** USD/MT at the bunker port; HSFO and LSMGO are estimated from VLSFO when missing */
+  prices: {
+    VLSFO: number;
+    LSMGO?: number;
+    HSFO?: number;
+  };
+  /** EU ETS cost per MT burned by grade (compliance_data.eu_ets.voyage_cost_per_mt_fuel_usd) */
+  eu_ets_cost_per_mt_usd?: Partial<Record<CIIFuelGrade, number>>;
+}
+
+export interface FuelStrategyCost {
+  strategy: FuelStrategy;
+  consumption_mt: FuelConsumptionByType;
+  fuel_cost_usd: number;
+  eu_ets_cost_usd: number;
+  scrubber_opex_usd: number;
+  total_cost_usd: number;
+  /** Days the scrubber runs (0 for VLSFO) */
+  scrubber_days: number;
+}
+
+export interface ScrubberComparison {
+  scrubber_type: ScrubberType;
+  hsfo_scrubber: FuelStrategyCost;
+  vlsfo: FuelStrategyCost;
+  prices_usd_per_mt: {
+    VLSFO: number;
+    LSMGO: number;
+    HSFO: number;
+  };
+  hsfo_price_estimated: boolean;
+  /** VLSFO minus HSFO price */
+  hsfo_vlsfo_spread_usd_per_mt: number;
+  /** VLSFO total minus HSFO+scrubber total (positive = scrubber cheaper) */
+  savings_usd: number;
+  recommended: FuelStrategy;
+  /** Spread at which both strategies cost the same; null when the scrubber never runs */
+  breakeven_spread_usd_per_mt: number | null;
+  /** Discharge-ban areas on the route that stop this scrubber type */
+  restricted_areas: string[];
+  restricted_distance_nm: number;
+  warnings: string[];
+}
+
+// ============================================================================
+// Scrubber Economics Engine
+// ============================================================================
+
+export class ScrubberEconomicsEngine {
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from engine params on each call
+   */
+  constructor(private overrides?: Partial<ScrubberEconomicsParameters>) {}
+
+  /**
+   * Resolve parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): ScrubberEconomicsParameters {
+    const p = getConfigManager().getEngineParams('scrubber_economics')?.parameters ?? {};
+    const resolve = (key: keyof ScrubberEconomicsParameters) =>
+      this.overrides?.[key] ?? p[key] ?? DEFAULT_PARAMETERS[key];
+    return {
+      scrubber_power_penalty_percent: resolve('scrubber_power_penalty_percent'),
+      open_loop_opex_usd_per_day: resolve('open_loop_opex_usd_per_day'),
+      closed_loop_opex_usd_per_day: resolve('closed_loop_opex_usd_per_day'),
+      hybrid_opex_usd_per_day: resolve('hybrid_opex_usd_per_day'),
+      hsfo_discount_usd_per_mt: resolve('hsfo_discount_usd_per_mt'),
+      lsmgo_vlsfo_price_ratio: resolve('lsmgo_vlsfo_price_ratio'),
+      sample_interval_nm: resolve('sample_interval_nm'),
+    };
+  }
+
+  /**
+   * HSFO price estimate from VLSFO when the port has no HSFO quote
+   */
+  public estimateHsfoPrice(vlsfoPrice: number): number {
+    return Math.max(0, vlsfoPrice - this.getParameters().hsfo_discount_usd_per_mt);
+  }
+
+  /**
+   * Split a route into segments by ECA and scrubber discharge-ban area.
+   * Each waypoint pair is sampled every sample_interval_nm; consecutive pieces in the same
+   * areas are merged. With timing, each piece uses the zones in force when the ship reaches it;
+   * without, the zones in force today.
+   */
+  public buildRouteSegments(
+    waypoints: Coordinates[],
+    originPortCode: string,
+    destinationPortCode: string,
+    timing?: { departure: Date; speed_knots: number }
+  ): RouteSegment[] {
+    const { sample_interval_nm } = this.getParameters();
+    const registry = getRegulatoryZoneRegistry();
+    const toArea = (zone: RegulatoryZone) => ({
+      zone,
+      polygons: zone.boundaries.map((ring) => turf.polygon([ring])),
+    });
+    const zones = registry.getAllZones();
+    const ecaAreas = zones.filter(isEmissionControlArea).map(toArea);
+    const banAreas = zones.filter(isScrubberDischargeBan).map(toArea);
+    const now = new Date();
+    const areaAt = (areas: ReturnType<typeof toArea>[], lon: number, lat: number, at: Date) =>
+      areas.find(
+        (area) =>
+          registry.isInForce(area.zone, at) &&
+          area.polygons.some((poly) => turf.booleanPointInPolygon(turf.point([lon, lat]), poly))
+      )?.zone;
+
+    type Piece = { distance_nm: number; eca?: string; ban?: { area: string; applies_to: ScrubberType[] } };
+    const pieces: Piece[] = [];
+    let distanceFromStartNm = 0;
+    for (let i = 0; i < waypoints.length - 1; i++) {
+      const from = turf.point([waypoints[i].lon, waypoints[i].lat]);
+      const to = turf.point([waypoints[i + 1].lon, waypoints[i + 1].lat]);
+      const legNm = turf.distance(from, to, { units: 'nauticalmiles' });
+      const steps = Math.max(1, Math.ceil(legNm / sample_interval_nm));
+      for (let k = 0; k < steps; k++) {
+        // Piece midpoint (linear in lat/lon is close enough at this spacing)
+        const t = (k + 0.5) / steps;
+        const lon = waypoints[i].lon + (waypoints[i + 1].lon - waypoints[i].lon) * t;
+        const lat = waypoints[i].lat + (waypoints[i + 1].lat - waypoints[i].lat) * t;
+        const at = timing
+          ? new Date(timing.departure.getTime() + ((distanceFromStartNm + legNm * t) / timing.speed_knots) * 3600000)
+          : now;
+        const ban = areaAt(banAreas, lon, lat, at);
+        pieces.push({
+          distance_nm: legNm / steps,
+          eca: areaAt(ecaAreas, lon, lat, at)?.name,
+          ban: ban ? { area: ban.name, applies_to: ban.rules.scrubber_discharge_ban ?? [] } : undefined,
+        });
+      }
+      distanceFromStartNm += legNm;
+    }
+
+    const merged: Piece[] = [];
+    for (const piece of pieces) {
+      const last = merged[merged.length - 1];
+      if (last && last.eca === piece.eca && last.ban?.area === piece.ban?.area) {
+        last.distance_nm += piece.distance_nm;
+      } else {
+        merged.push({ ...piece });
+      }
+    }
+
+    const lastIndex = merged.length - 1;
+    return merged.map((piece, i) => ({
+      segment_id: `seg_${i}`,
+      from: i === 0 ? originPortCode : `Boundary ${i}`,
+      to: i === lastIndex ? destinationPortCode : `Boundary ${i + 1}`,
+      distance_nm: piece.distance_nm,
+      is_eca: piece.eca !== undefined,
+      ...(piece.eca !== undefined && { eca_zone_name: piece.eca }),
+      ...(piece.ban && { scrubber_discharge_ban: piece.ban }),
+    }));
+  }
+
+  /**
+   * Compare HSFO + scrubber against VLSFO (no scrubber) for the voyage
+   */
+  public compareStrategies(input: ScrubberEconomicsInput): ScrubberComparison {
+    const params = this.getParameters();
+    const scrubberType: ScrubberType = input.scrubber.type ?? 'open_loop';
+    const warnings: string[] = [];
+
+    const hsfoPriceEstimated = input.prices.HSFO === undefined || input.prices.HSFO <= 0;
+    const prices = {
+      VLSFO: input.prices.VLSFO,
+      LSMGO: input.prices.LSMGO && input.prices.LSMGO > 0
+        ? input.prices.LSMGO
+        : input.prices.VLSFO * params.lsmgo_vlsfo_price_ratio,
+      HSFO: hsfoPriceEstimated ? this.estimateHsfoPrice(input.prices.VLSFO) : (input.prices.HSFO as number),
+    };
+    if (hsfoPriceEstimated) {
+      warnings.push(
+        `No HSFO price quoted; estimated at VLSFO - $${params.hsfo_discount_usd_per_mt}/MT ($${prices.HSFO.toFixed(0)}/MT)`
+      );
+    }
+
+    const common = {
+      base_consumption: input.base_consumption,
+      route_segments: input.route_segments,
+      speed_knots: input.speed_knots,
+      weather_factor: input.weather_factor,
+    };
+    const vlsfoRun = ecaConsumptionEngine.calculateConsumption(common);
+    const scrubberRun = ecaConsumptionEngine.calculateConsumption({
+      ...common,
+      scrubber: { fitted: true, type: scrubberType },
+    });
+
+    const penaltyFactor = 1 + params.scrubber_power_penalty_percent / 100;
+    const scrubberHsfo = scrubberRun.total_consumption_mt.HSFO * penaltyFactor;
+    const scrubberConsumption: FuelConsumptionByType = {
+      ...scrubberRun.total_consumption_mt,
+      HSFO: scrubberHsfo,
+      total: scrubberRun.total_consumption_mt.VLSFO + scrubberRun.total_consumption_mt.LSMGO + scrubberHsfo,
+    };
+    const scrubberDays = scrubberRun.segments
+      .filter((seg) => seg.scrubber_in_use)
+      .reduce((sum, seg) => sum + seg.duration_days, 0);
+    const opexPerDay =
+      scrubberType === 'closed_loop'
+        ? params.closed_loop_opex_usd_per_day
+        : scrubberType === 'hybrid'
+          ? params.hybrid_opex_usd_per_day
+          : params.open_loop_opex_usd_per_day;
+
+    const hsfoScrubber = this.costStrategy(
+      'HSFO_SCRUBBER',
+      scrubberConsumption,
+      prices,
+      input.eu_ets_cost_per_mt_usd,
+      scrubberDays,
+      scrubberDays * opexPerDay
+    );
+    const vlsfo = this.costStrategy('VLSFO', vlsfoRun.total_consumption_mt, prices, input.eu_ets_cost_per_mt_usd, 0, 0);
+
+    const restricted = scrubberRun.segments.filter((seg) => !seg.scrubber_in_use);
+    const restrictedAreas = [
+      ...new Set(
+        input.route_segments
+          .filter((seg) => seg.scrubber_discharge_ban?.applies_to.includes(scrubberType))
+          .map((seg) => seg.scrubber_discharge_ban!.area)
+      ),
+    ];
+    if (restrictedAreas.length > 0) {
+      warnings.push(`Scrubber (${scrubberType}) may not operate in: ${restrictedAreas.join(', ')}`);
+    }
+
+    const spread = prices.VLSFO - prices.HSFO;
+    const savings = vlsfo.total_cost_usd - hsfoScrubber.total_cost_usd;
+    // Each extra $1/MT of spread lowers the scrubber strategy by its HSFO tonnage
+    const breakeven = scrubberHsfo > 0 ? spread - savings / scrubberHsfo : null;
+    if (breakeven === null) {
+      warnings.push('Scrubber cannot run on any part of this route; HSFO strategy equals VLSFO');
+    }
+
+    const result: ScrubberComparison = {
+      scrubber_type: scrubberType,
+      hsfo_scrubber: hsfoScrubber,
+      vlsfo,
+      prices_usd_per_mt: prices,
+      hsfo_price_estimated: hsfoPriceEstimated,
+      hsfo_vlsfo_spread_usd_per_mt: spread,
+      savings_usd: savings,
+      recommended: savings > 0 ? 'HSFO_SCRUBBER' : 'VLSFO',
+      breakeven_spread_usd_per_mt: breakeven,
+      restricted_areas: restrictedAreas,
+      restricted_distance_nm: restricted.reduce((sum, seg) => sum + seg.distance_nm, 0),
+      warnings,
+    };
+
+    console.log(
+      `${LOG_PREFIX} ${scrubberType}: HSFO+scrubber $${hsfoScrubber.total_cost_usd.toFixed(0)} vs VLSFO ` +
+        `$${vlsfo.total_cost_usd.toFixed(0)} (spread $${spread.toFixed(0)}/MT, breakeven ` +
+        `${breakeven === null ? 'n/a' : `$${breakeven.toFixed(0)}/MT`}) → ${result.recommended}`
+    );
+    return result;
+  }
+
+  /**
+   * Fuel, EU ETS and scrubber operating cost of one strategy
+   */
+  private costStrategy(
+    strategy: FuelStrategy,
+    consumption: FuelConsumptionByType,
+    prices: { VLSFO: number; LSMGO: number; HSFO: number },
+    etsCostPerMt: Partial<Record<CIIFuelGrade, number>> | undefined,
+    scrubberDays: number,
+    scrubberOpex: number
+  ): FuelStrategyCost {
+    const grades = ['VLSFO', 'LSMGO', 'HSFO'] as const;
+    const fuelCost = grades.reduce((sum, grade) => sum + consumption[grade] * prices[grade], 0);
+    const etsCost = grades.reduce((sum, grade) => sum + consumption[grade] * (etsCostPerMt?.[grade] ?? 0), 0);
+    return {
+      strategy,
+      consumption_mt: consumption,
+      fuel_cost_usd: fuelCost,
+      eu_ets_cost_usd: etsCost,
+      scrubber_opex_usd: scrubberOpex,
+      total_cost_usd: fuelCost + etsCost + scrubberOpex,
+      scrubber_days: scrubberDays,
+    };
+  }
+}
+
+// Export singleton instance
+export const scrubberEconomicsEngine = new ScrubberEconomicsEngine();
@@ -0,0 +1,393 @@
+/**
+ * Sea Routing Engine
+ *
+ * Offline route calculation over a maritime lane graph (lib/data/sea-lanes.json):
+ * waypoints on major shipping lanes, the Suez and Panama canals and the main straits,
+ * joined by great-circle edges. Origin and destination are connected to their nearest
+ * lane node and the shortest path is found with A* (great-circle distance heuristic).
+ *
+ * Returns the same shape as SeaRouteAPIClient.calculateRoute, so RouteService can use
+ * it when the SeaRoute API is unavailable or when enable_offline_sea_routing is on.
+ * Lane waypoints are approximate; distances are typically within a few percent of
+ * published port-to-port tables.
+ *
+ * Nodes tagged with a passage (canals, Red Sea, straits, capes) can be avoided, which
+ * gives route alternatives such as Suez vs Cape of Good Hope. Canal tolls are flat
+ * per-transit estimates.
+ *
+ * Parameters come from config/engine-params/sea-routing.yaml with fallbacks.
+ */
+
+import seaLanes from '@/lib/data/sea-lanes.json';
+import type { SeaRouteCalculateRouteResult } from '@/lib/services/sea-route-api-client';
+import { getConfigManager } from '@/lib/config/config-manager';
+import { haversineDistance, validateCoordinates } from '@/lib/utils/coordinate-validator';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '🧭 [SEA-ROUTING-ENGINE]';
+
+const DEFAULT_PARAMETERS: SeaRoutingParameters = {
+  max_snap_distance_nm: 800,
+  geometry_step_nm: 100,
+  default_speed_knots: 14,
+  passage_detection_radius_nm: 100,
+  max_alternatives: 3,
+  suez_canal_toll_usd: 450000,
+  panama_canal_toll_usd: 350000,
+};
+
+export const SEA_PASSAGES = [
+  'suez_canal',
+  'panama_canal',
+  'red_sea',
+  'strait_of_hormuz',
+  'malacca_strait',
+  'cape_of_good_hope',
+  'cape_horn',
+] as const;
+
+export const SEA_PASSAGE_LABELS: Record<SeaPassage, string> = {
+  suez_canal: 'Suez Canal',
+  panama_canal: 'Panama Canal',
+  red_sea: 'Red Sea / Gulf of Aden',
+  strait_of_hormuz: 'Strait of Hormuz',
+  malacca_strait: 'Malacca Strait',
+  cape_of_good_hope: 'Cape of Good Hope',
+  cape_horn: 'Cape Horn',
+};
+
+/** Passages that distinguish route alternatives (avoiding a canal gives the cape route) */
+export const CANAL_PASSAGES: SeaPassage[] = ['suez_canal', 'panama_canal'];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SeaRoutingParameters {
+  /** Maximum distance from origin/destination to the nearest lane node */
+  max_snap_distance_nm: number;
+  /** Maximum spacing of interpolated points along each great-circle leg */
+  geometry_step_nm: number;
+  /** Speed used for duration when none is given */
+  default_speed_knots: number;
+  /** A route passes a passage when its geometry comes this close to one of the passage's nodes */
+  passage_detection_radius_nm: number;
+  /** Maximum number of route alternatives (including the shortest route) */
+  max_alternatives: number;
+  /** Flat per-transit canal toll estimates */
+  suez_canal_toll_usd: number;
+  panama_canal_toll_usd: number;
+}
+
+export type SeaPassage = (typeof SEA_PASSAGES)[number];
+
+export interface SeaLaneNode {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  /** Canal, sea area, strait or cape this node belongs to */
+  passage?: SeaPassage;
+}
+
+export interface SeaLaneGraph {
+  nodes: SeaLaneNode[];
+  /** Undirected edges as pairs of node ids */
+  edges: Array<[string, string]>;
+}
+
+export interface SeaRoutingInput {
+  /** Origin [lat, lon] */
+  from: [number, number];
+  /** Destination [lat, lon] */
+  to: [number, number];
+  /** Knots; duration uses default_speed_knots when omitted */
+  speed?: number;
+  /** Passages the route must not use */
+  avoid?: SeaPassage[];
+}
+
+export interface SeaRoutingResult extends SeaRouteCalculateRouteResult {
+  /** Passages used, in voyage order */
+  passages: SeaPassage[];
+}
+
+export interface SeaRoutingPath {
+  /** Lane nodes passed, in order */
+  nodes: SeaLaneNode[];
+  /** Distance over lane nodes only (excludes the legs to/from origin and destination) */
+  distance_nm: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+
+/**
+ * Points along the great circle from a to b (excluding a, including b), spaced at most stepNm apart.
+ * Returned as [lon, lat] with longitude normalised to -180..180.
+ */
+function interpolateGreatCircle(
+  a: { lat: number; lon: number },
+  b: { lat: number; lon: number },
+  stepNm: number
+): [number, number][] {
+  const distance = haversineDistance(a, b);
+  const steps = Math.max(1, Math.ceil(distance / stepNm));
+  const lat1 = toRad(a.lat);
+  const lon1 = toRad(a.lon);
+  const lat2 = toRad(b.lat);
+  const lon2 = toRad(b.lon);
+  const angle = distance / 3440.065;
+
+  const points: [number, number][] = [];
+  for (let i = 1; i <= steps; i++) {
+    if (i === steps || angle === 0) {
+      points.push([b.lon, b.lat]);
+      continue;
+    }
+    const f = i / steps;
+    const wa = Math.sin((1 - f) * angle) / Math.sin(angle);
+    const wb = Math.sin(f * angle) / Math.sin(angle);
+    const x = wa * Math.cos(lat1) * Math.cos(lon1) + wb * Math.cos(lat2) * Math.cos(lon2);
+    const y = wa * Math.cos(lat1) * Math.sin(lon1) + wb * Math.cos(lat2) * Math.sin(lon2);
+    const z = wa * Math.sin(lat1) + wb * Math.sin(lat2);
+    const lat = toDeg(Math.atan2(z, Math.sqrt(x * x + y * y)));
+    const lon = toDeg(Math.atan2(y, x));
+    points.push([Number(lon.toFixed(4)), Number(lat.toFixed(4))]);
+  }
+  return points;
+}
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+export class SeaRoutingEngine {
+  private readonly nodes: Map<string, SeaLaneNode>;
+  private readonly adjacency: Map<string, Array<{ id: string; distance_nm: number }>>;
+
+  constructor(
+    private overrides?: Partial<SeaRoutingParameters>,
+    graph: SeaLaneGraph = seaLanes as unknown as SeaLaneGraph
+  ) {
+    this.nodes = new Map(graph.nodes.map((node) => [node.id, node]));
+    this.adjacency = new Map(graph.nodes.map((node) => [node.id, []]));
+
+    for (const [fromId, toId] of graph.edges) {
+      const from = this.nodes.get(fromId);
+      const to = this.nodes.get(toId);
+      if (!from || !to) {
+        throw new Error(`Sea lane edge references unknown node: ${fromId} - ${toId}`);
+      }
+      const distance = haversineDistance(from, to);
+      this.adjacency.get(fromId)!.push({ id: toId, distance_nm: distance });
+      this.adjacency.get(toId)!.push({ id: fromId, distance_nm: distance });
+    }
+  }
+
+  /**
+   * Resolve parameters: overrides → YAML → defaults
+   */
+  public getParameters(): SeaRoutingParameters {
+    const p = getConfigManager().getEngineParams('sea_routing')?.parameters ?? {};
+    const resolve = (key: keyof SeaRoutingParameters) =>
+      this.overrides?.[key] ?? p[key] ?? DEFAULT_PARAMETERS[key];
+    return {
+      max_snap_distance_nm: resolve('max_snap_distance_nm'),
+      geometry_step_nm: resolve('geometry_step_nm'),
+      default_speed_knots: resolve('default_speed_knots'),
+      passage_detection_radius_nm: resolve('passage_detection_radius_nm'),
+      max_alternatives: resolve('max_alternatives'),
+      suez_canal_toll_usd: resolve('suez_canal_toll_usd'),
+      panama_canal_toll_usd: resolve('panama_canal_toll_usd'),
+    };
+  }
+
+  /**
+   * Nearest lane node to a position
+   */
+  public findNearestNode(position: { lat: number; lon: number }): { node: SeaLaneNode; distance_nm: number } {
+    let nearest: { node: SeaLaneNode; distance_nm: number } | null = null;
+    for (const node of this.nodes.values()) {
+      const distance = haversineDistance(position, node);
+      if (!nearest || distance < nearest.distance_nm) {
+        nearest = { node, distance_nm: distance };
+      }
+    }
+    if (!nearest) {
+      throw new Error('Sea lane graph has no nodes');
+    }
+    return nearest;
+  }
+
+  /**
+   * Shortest path between two lane nodes (A* with great-circle heuristic), skipping nodes
+   * of avoided passages. Returns null when the nodes are not connected.
+   */
+  public findPath(fromId: string, toId: string, avoid: SeaPassage[] = []): SeaRoutingPath | null {
+    const goal = this.nodes.get(toId);
+    if (!this.nodes.has(fromId) || !goal) {
+      throw new Error(`Unknown sea lane node: ${this.nodes.has(fromId) ? toId : fromId}`);
+    }
+
+    const gScore = new Map<string, number>([[fromId, 0]]);
+    const fScore = new Map<string, number>([[fromId, haversineDistance(this.nodes.get(fromId)!, goal)]]);
+    const cameFrom = new Map<string, string>();
+    const open = new Set<string>([fromId]);
+    const closed = new Set<string>();
+
+    while (open.size > 0) {
+      // Graph is small; a linear scan keeps ordering deterministic (first inserted wins ties)
+      let current = '';
+      let best = Infinity;
+      for (const id of open) {
+        const f = fScore.get(id)!;
+        if (f < best) {
+          best = f;
+          current = id;
+        }
+      }
+
+      if (current === toId) {
+        const ids = [current];
+        while (cameFrom.has(ids[0])) {
+          ids.unshift(cameFrom.get(ids[0])!);
+        }
+        return {
+          nodes: ids.map((id) => this.nodes.get(id)!),
+          distance_nm: gScore.get(current)!,
+        };
+      }
+
+      open.delete(current);
+      closed.add(current);
+
+      for (const edge of this.adjacency.get(current)!) {
+        if (closed.has(edge.id)) continue;
+        const passage = this.nodes.get(edge.id)!.passage;
+        if (passage && avoid.includes(passage)) continue;
+        const tentative = gScore.get(current)! + edge.distance_nm;
+        if (tentative < (gScore.get(edge.id) ?? Infinity)) {
+          cameFrom.set(edge.id, current);
+          gScore.set(edge.id, tentative);
+          fScore.set(edge.id, tentative + haversineDistance(this.nodes.get(edge.id)!, goal));
+          open.add(edge.id);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Calculate a sea route between two positions.
+   * Geometry is GeoJSON [lon, lat]; duration is in hours.
+   */
+  public calculateRoute(input: SeaRoutingInput): SeaRoutingResult {
+    const params = this.getParameters();
+    const avoid = input.avoid ?? [];
+    const [fromLat, fromLon] = input.from;
+    const [toLat, toLon] = input.to;
+    const origin = { lat: fromLat, lon: fromLon };
+    const destination = { lat: toLat, lon: toLon };
+
+    if (!validateCoordinates(origin) || !validateCoordinates(destination)) {
+      throw new Error(
+        `Invalid coordinates for offline routing: [${fromLat}, ${fromLon}] → [${toLat}, ${toLon}]`
+      );
+    }
+
+    const start = this.findNearestNode(origin);
+    const end = this.findNearestNode(destination);
+    for (const [label, snap] of [['Origin', start], ['Destination', end]] as const) {
+      if (snap.distance_nm > params.max_snap_distance_nm) {
+        throw new Error(
+          `${label} is ${snap.distance_nm.toFixed(0)}nm from the nearest sea lane ` +
+            `(max ${params.max_snap_distance_nm}nm); cannot route offline.`
+        );
+      }
+      if (snap.node.passage && avoid.includes(snap.node.passage)) {
+        throw new Error(`${label} lies within avoided passage: ${SEA_PASSAGE_LABELS[snap.node.passage]}`);
+      }
+    }
+
+    // Both ends share a lane node: sail direct
+    const path: SeaRoutingPath | null =
+      start.node.id === end.node.id
+        ? { nodes: [], distance_nm: 0 }
+        : this.findPath(start.node.id, end.node.id, avoid);
+    if (!path) {
+      const avoiding = avoid.length > 0 ? ` avoiding ${avoid.map((p) => SEA_PASSAGE_LABELS[p]).join(', ')}` : '';
+      throw new Error(`No sea lane connection between ${start.node.name} and ${end.node.name}${avoiding}`);
+    }
+
+    const stops = [...path.nodes, destination];
+    const geometry: [number, number][] = [[fromLon, fromLat]];
+    let distance = 0;
+    let previous = origin;
+    for (const stop of stops) {
+      distance += haversineDistance(previous, stop);
+      geometry.push(...interpolateGreatCircle(previous, stop, params.geometry_step_nm));
+      previous = stop;
+    }
+
+    const passages: SeaPassage[] = [];
+    for (const node of path.nodes) {
+      if (node.passage && !passages.includes(node.passage)) passages.push(node.passage);
+    }
+
+    const speed = input.speed && input.speed > 0 ? input.speed : params.default_speed_knots;
+    console.log(
+      `${LOG_PREFIX} ${start.node.name} → ${end.node.name}: ${path.nodes.length} lane nodes, ` +
+        `${distance.toFixed(0)}nm${passages.length > 0 ? ` via ${passages.join(', ')}` : ''}`
+    );
+
+    return {
+      distance: Math.round(distance * 100) / 100,
+      geometry,
+      duration: Math.round((distance / speed) * 100) / 100,
+      passages,
+    };
+  }
+
+  /**
+   * Passages a route geometry ([lon, lat]) comes within passage_detection_radius_nm of,
+   * in voyage order. Used for routes from the SeaRoute API.
+   */
+  public detectPassages(geometry: [number, number][]): SeaPassage[] {
+    const radius = this.getParameters().passage_detection_radius_nm;
+    const tagged = [...this.nodes.values()].filter((node) => node.passage);
+    const passages: SeaPassage[] = [];
+
+    for (const [lon, lat] of geometry) {
+      for (const node of tagged) {
+        if (passages.includes(node.passage!)) continue;
+        if (haversineDistance({ lat, lon }, node) <= radius) {
+          passages.push(node.passage!);
+        }
+      }
+    }
+    return passages;
+  }
+
+  /**
+   * Canal toll estimate (USD) for the passages of a route
+   */
+  public estimateCanalTolls(passages: SeaPassage[]): number {
+    const params = this.getParameters();
+    let tolls = 0;
+    if (passages.includes('suez_canal')) tolls += params.suez_canal_toll_usd;
+    if (passages.includes('panama_canal')) tolls += params.panama_canal_toll_usd;
+    return tolls;
+  }
+}
+
+// Export singleton instance
+export const seaRoutingEngine = new SeaRoutingEngine();
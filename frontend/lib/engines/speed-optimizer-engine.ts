@@ -0,0 +1,408 @@
+/**
+ * Speed Optimizer Engine
+ *
+ * Cost-minimising speed profile for a voyage (slow steaming trade-off):
+ * - fuel cost per leg from the vessel's speed-consumption curve (main engine MT/day at speed),
+ *   burning LSMGO inside ECA legs and VLSFO outside
+ * - time cost of the voyage at the daily hire rate
+ * - optional required arrival (laycan end / required-by date): when the cheapest profile arrives
+ *   late, speed is bought where it costs least per hour saved
+ * - one speed per leg (e.g. slower in ECA, faster outside) or one speed for the whole voyage
+ *
+ * The result feeds the route timeline, ROB projection and bunker quantity.
+ * Parameters come from config/engine-params/speed-optimizer.yaml with fallbacks.
+ */
+
+import { getConfigManager } from '@/lib/config/config-manager';
+import { interpolateConsumption } from '@/lib/services/vessel-specs-from-performance';
+import type { VesselPosition } from '@/lib/multi-agent/state';
+import type { RouteSegment } from './eca-consumption-engine';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '🐢 [SPEED-OPTIMIZER-ENGINE]';
+
+const HOURS_PER_DAY = 24;
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/** Bisection steps on the price of an hour saved when the required arrival binds */
+const TIME_PRICE_ITERATIONS = 60;
+
+const DEFAULT_PARAMETERS: SpeedOptimizerParameters = {
+  min_speed_knots: 10,
+  max_speed_knots: 16,
+  speed_step_knots: 0.5,
+  daily_hire_usd: 15000,
+  lsmgo_vlsfo_price_ratio: 1.4,
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SpeedOptimizerParameters {
+  /** Slowest and fastest speeds considered (clamped to the vessel's curve) */
+  min_speed_knots: number;
+  max_speed_knots: number;
+  /** Spacing of the candidate speeds */
+  speed_step_knots: number;
+  /** Time cost of the voyage when the caller gives none */
+  daily_hire_usd: number;
+  /** LSMGO price relative to VLSFO when no LSMGO price is given */
+  lsmgo_vlsfo_price_ratio: number;
+}
+
+/** Point of a speed-consumption curve (same shape as BaselineCurves) */
+export interface SpeedConsumptionPoint {
+  speed: number;
+  /** Main engine consumption (MT/day) at this speed */
+  consumption: number;
+}
+
+export type SpeedOptimizerLeg = Pick<RouteSegment, 'distance_nm' | 'is_eca'> & { label?: string };
+
+export interface SpeedOptimizerInput {
+  /** Route legs in sailing order (e.g. ECA / non-ECA segments from buildRouteSegments) */
+  legs: SpeedOptimizerLeg[];
+  consumption_curve: SpeedConsumptionPoint[];
+  auxiliary_mt_per_day?: number;
+  /** Multiplier on main engine consumption (weather / fouling) */
+  weather_factor?: number;
+  /** USD/MT; LSMGO is estimated from VLSFO when missing */
+  prices: {
+    VLSFO: number;
+    LSMGO?: number;
+  };
+  daily_hire_usd?: number;
+  /** ISO 8601; defaults to now when a required arrival is given */
+  departure_date?: string;
+  /** Latest arrival at the destination (ISO 8601) */
+  required_arrival_date?: string;
+  /** Planned speed the optimum is compared against (e.g. the user's input) */
+  reference_speed_knots?: number;
+  /** Optimise each leg's speed separately (default true); false = one speed for the voyage */
+  vary_speed_per_leg?: boolean;
+}
+
+export interface LegSpeedPlan {
+  label: string;
+  distance_nm: number;
+  is_eca: boolean;
+  speed_knots: number;
+  duration_hours: number;
+  /** Main engine consumption at this speed, weather factor applied */
+  main_engine_mt_per_day: number;
+  fuel_grade: 'VLSFO' | 'LSMGO';
+  fuel_mt: number;
+  fuel_cost_usd: number;
+  hire_cost_usd: number;
+}
+
+export interface SpeedProfileCost {
+  legs: LegSpeedPlan[];
+  total_hours: number;
+  /** Distance over sailing time */
+  average_speed_knots: number;
+  /** Fuel burned per sea day (main + auxiliary engines, weather factor applied) */
+  average_consumption_mt_per_day: number;
+  fuel_mt: {
+    VLSFO: number;
+    LSMGO: number;
+  };
+  fuel_cost_usd: number;
+  hire_cost_usd: number;
+  total_cost_usd: number;
+}
+
+export interface SpeedOptimizationResult extends SpeedProfileCost {
+  speed_range_knots: {
+    min: number;
+    max: number;
+  };
+  vary_speed_per_leg: boolean;
+  daily_hire_usd: number;
+  prices_usd_per_mt: {
+    VLSFO: number;
+    LSMGO: number;
+  };
+  estimated_arrival?: string;
+  required_arrival?: string;
+  meets_arrival_constraint: boolean;
+  /** True when the required arrival forces faster sailing than the cost optimum */
+  arrival_constraint_binding: boolean;
+  /** Same voyage at the planned speed */
+  reference?: SpeedProfileCost & { speed_knots: number };
+  /** Reference total minus optimised total */
+  savings_vs_reference_usd?: number;
+  warnings: string[];
+}
+
+// ============================================================================
+// Speed Optimizer Engine
+// ============================================================================
+
+export class SpeedOptimizerEngine {
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from engine params on each call
+   */
+  constructor(private overrides?: Partial<SpeedOptimizerParameters>) {}
+
+  /**
+   * Resolve parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): SpeedOptimizerParameters {
+    const p = getConfigManager().getEngineParams('speed_optimizer')?.parameters ?? {};
+    const resolve = (key: keyof SpeedOptimizerParameters) =>
+      this.overrides?.[key] ?? p[key] ?? DEFAULT_PARAMETERS[key];
+    return {
+      min_speed_knots: resolve('min_speed_knots'),
+      max_speed_knots: resolve('max_speed_knots'),
+      speed_step_knots: resolve('speed_step_knots'),
+      daily_hire_usd: resolve('daily_hire_usd'),
+      lsmgo_vlsfo_price_ratio: resolve('lsmgo_vlsfo_price_ratio'),
+    };
+  }
+
+  /**
+   * Curve from one known point when the vessel has no performance model:
+   * consumption scales with the cube of speed (admiralty law).
+   */
+  public buildCubicCurve(referenceSpeedKnots: number, referenceConsumption: number): SpeedConsumptionPoint[] {
+    const { min_speed_knots, max_speed_knots, speed_step_knots } = this.getParameters();
+    const step = speed_step_knots > 0 ? speed_step_knots : DEFAULT_PARAMETERS.speed_step_knots;
+    const points: SpeedConsumptionPoint[] = [];
+    for (let v = min_speed_knots; v <= max_speed_knots + 1e-9; v += step) {
+      points.push({ speed: v, consumption: referenceConsumption * Math.pow(v / referenceSpeedKnots, 3) });
+    }
+    return points;
+  }
+
+  /**
+   * Find the cost-minimising speed profile for the voyage.
+   */
+  public optimize(input: SpeedOptimizerInput): SpeedOptimizationResult {
+    const params = this.getParameters();
+    const warnings: string[] = [];
+    const legs = input.legs.filter((leg) => leg.distance_nm > 0);
+    const curve = input.consumption_curve.filter((p) => p.speed > 0 && p.consumption >= 0);
+    if (legs.length === 0) {
+      throw new Error('Speed optimisation needs at least one route leg with distance');
+    }
+    if (curve.length === 0) {
+      throw new Error('Speed optimisation needs a speed-consumption curve');
+    }
+    if (!(input.prices.VLSFO > 0)) {
+      throw new Error('Speed optimisation needs a VLSFO price');
+    }
+
+    const speeds = this.candidateSpeeds(params, curve);
+    const prices = {
+      VLSFO: input.prices.VLSFO,
+      LSMGO: input.prices.LSMGO && input.prices.LSMGO > 0
+        ? input.prices.LSMGO
+        : input.prices.VLSFO * params.lsmgo_vlsfo_price_ratio,
+    };
+    const dailyHire = input.daily_hire_usd ?? params.daily_hire_usd;
+    const varyPerLeg = input.vary_speed_per_leg ?? true;
+    const costLeg = (leg: SpeedOptimizerLeg, speed: number) =>
+      this.costLeg(leg, speed, curve, prices, dailyHire, input.auxiliary_mt_per_day ?? 0, input.weather_factor ?? 1);
+
+    const departureMs = input.departure_date ? Date.parse(input.departure_date) : Date.now();
+    const requiredMs = input.required_arrival_date ? Date.parse(input.required_arrival_date) : NaN;
+    const availableHours =
+      Number.isFinite(requiredMs) && Number.isFinite(departureMs) ? (requiredMs - departureMs) / MS_PER_HOUR : Infinity;
+    if (input.required_arrival_date && !Number.isFinite(requiredMs)) {
+      warnings.push(`Required arrival "${input.required_arrival_date}" is not a date; optimised without it`);
+    }
+
+    // Leg cost at each candidate speed
+    const options = legs.map((leg) => speeds.map((speed) => costLeg(leg, speed)));
+
+    const hoursOf = (plan: LegSpeedPlan[]) => plan.reduce((sum, leg) => sum + leg.duration_hours, 0);
+    const costOf = (plan: LegSpeedPlan[]) => plan.reduce((sum, leg) => sum + leg.fuel_cost_usd + leg.hire_cost_usd, 0);
+
+    let unconstrained: LegSpeedPlan[];
+    let chosen: LegSpeedPlan[];
+    if (varyPerLeg) {
+      // Each leg minimises cost + timePrice × hours; a higher time price buys speed where it is cheapest
+      const pick = (timePrice: number) =>
+        options.map((legOptions) =>
+          legOptions.reduce((best, option) =>
+            costOf([option]) + timePrice * option.duration_hours < costOf([best]) + timePrice * best.duration_hours - 1e-9
+              ? option
+              : best
+          )
+        );
+
+      unconstrained = pick(0);
+      chosen = unconstrained;
+      if (hoursOf(chosen) > availableHours) {
+        const fastest = options.map((legOptions) => legOptions[legOptions.length - 1]);
+        if (hoursOf(fastest) > availableHours) {
+          chosen = fastest;
+        } else {
+          let low = 0;
+          let high = 1;
+          while (hoursOf(pick(high)) > availableHours && high < 1e12) high *= 2;
+          for (let i = 0; i < TIME_PRICE_ITERATIONS; i++) {
+            const mid = (low + high) / 2;
+            if (hoursOf(pick(mid)) > availableHours) low = mid;
+            else high = mid;
+          }
+          chosen = pick(high);
+        }
+      }
+    } else {
+      const uniform = speeds.map((_, s) => options.map((legOptions) => legOptions[s]));
+      const cheapest = (plans: LegSpeedPlan[][]) =>
+        plans.reduce((best, plan) => (costOf(plan) < costOf(best) - 1e-9 ? plan : best));
+      unconstrained = cheapest(uniform);
+      const feasible = uniform.filter((plan) => hoursOf(plan) <= availableHours + 1e-9);
+      chosen = feasible.length > 0 ? cheapest(feasible) : uniform[uniform.length - 1];
+    }
+
+    const best = this.summarise(chosen);
+    const meetsArrival = best.total_hours <= availableHours + 1e-6;
+    if (!meetsArrival) {
+      warnings.push(
+        `Required arrival cannot be met even at ${speeds[speeds.length - 1]} kn ` +
+          `(${(best.total_hours - availableHours).toFixed(1)} h late)`
+      );
+    }
+    const binding = hoursOf(unconstrained) > availableHours + 1e-6;
+
+    let reference: SpeedOptimizationResult['reference'];
+    if (input.reference_speed_knots && input.reference_speed_knots > 0) {
+      reference = {
+        speed_knots: input.reference_speed_knots,
+        ...this.summarise(legs.map((leg) => costLeg(leg, input.reference_speed_knots as number))),
+      };
+    }
+
+    const estimatedArrival = input.departure_date || Number.isFinite(availableHours)
+      ? new Date(departureMs + best.total_hours * MS_PER_HOUR).toISOString()
+      : undefined;
+
+    console.log(
+      `${LOG_PREFIX} ${best.average_speed_knots.toFixed(1)} kn average over ${legs.length} leg(s): ` +
+        `$${best.total_cost_usd.toFixed(0)}` +
+        (reference ? ` vs $${reference.total_cost_usd.toFixed(0)} at ${reference.speed_knots} kn` : '')
+    );
+
+    return {
+      ...best,
+      speed_range_knots: { min: speeds[0], max: speeds[speeds.length - 1] },
+      vary_speed_per_leg: varyPerLeg,
+      daily_hire_usd: dailyHire,
+      prices_usd_per_mt: prices,
+      ...(estimatedArrival && { estimated_arrival: estimatedArrival }),
+      ...(Number.isFinite(requiredMs) && { required_arrival: new Date(requiredMs).toISOString() }),
+      meets_arrival_constraint: meetsArrival,
+      arrival_constraint_binding: binding,
+      ...(reference && {
+        reference,
+        savings_vs_reference_usd: reference.total_cost_usd - best.total_cost_usd,
+      }),
+      warnings,
+    };
+  }
+
+  /**
+   * Re-time timeline positions for the optimised leg speeds (port stays are not included).
+   */
+  public retimeTimeline(timeline: VesselPosition[], profile: SpeedProfileCost): VesselPosition[] {
+    if (timeline.length === 0 || profile.legs.length === 0) return timeline;
+    const startMs = Date.parse(timeline[0].datetime);
+    if (!Number.isFinite(startMs)) return timeline;
+
+    // Timeline and leg distances come from different samplings of the same route
+    const timelineNm = timeline[timeline.length - 1].distance_from_start_nm;
+    const legsNm = profile.legs.reduce((sum, leg) => sum + leg.distance_nm, 0);
+    const scale = timelineNm > 0 ? legsNm / timelineNm : 1;
+
+    return timeline.map((position) => {
+      let remainingNm = position.distance_from_start_nm * scale;
+      let hours = 0;
+      for (const leg of profile.legs) {
+        const nm = Math.min(remainingNm, leg.distance_nm);
+        hours += nm / leg.speed_knots;
+        remainingNm -= nm;
+        if (remainingNm <= 0) break;
+      }
+      return { ...position, datetime: new Date(startMs + hours * MS_PER_HOUR).toISOString() };
+    });
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  /**
+   * Candidate speeds on the parameter grid, within the range the curve covers
+   * (interpolation clamps outside it, which would make speed look free).
+   */
+  private candidateSpeeds(params: SpeedOptimizerParameters, curve: SpeedConsumptionPoint[]): number[] {
+    const curveSpeeds = curve.map((p) => p.speed);
+    const min = curve.length > 1 ? Math.max(params.min_speed_knots, Math.min(...curveSpeeds)) : curveSpeeds[0];
+    const max = curve.length > 1 ? Math.min(params.max_speed_knots, Math.max(...curveSpeeds)) : curveSpeeds[0];
+    if (max <= min) return [min];
+
+    const step = params.speed_step_knots > 0 ? params.speed_step_knots : DEFAULT_PARAMETERS.speed_step_knots;
+    const speeds: number[] = [];
+    for (let v = min; v < max - 1e-9; v += step) speeds.push(Math.round(v * 100) / 100);
+    speeds.push(max);
+    return speeds;
+  }
+
+  private costLeg(
+    leg: SpeedOptimizerLeg,
+    speed: number,
+    curve: SpeedConsumptionPoint[],
+    prices: { VLSFO: number; LSMGO: number },
+    dailyHire: number,
+    auxiliaryPerDay: number,
+    weatherFactor: number
+  ): LegSpeedPlan {
+    const mainEngine = (interpolateConsumption(curve, speed) ?? 0) * weatherFactor;
+    const hours = leg.distance_nm / speed;
+    const days = hours / HOURS_PER_DAY;
+    const grade = leg.is_eca ? 'LSMGO' : 'VLSFO';
+    const fuel = days * (mainEngine + auxiliaryPerDay);
+    return {
+      label: leg.label ?? (leg.is_eca ? 'ECA' : 'Open sea'),
+      distance_nm: leg.distance_nm,
+      is_eca: leg.is_eca,
+      speed_knots: speed,
+      duration_hours: hours,
+      main_engine_mt_per_day: mainEngine,
+      fuel_grade: grade,
+      fuel_mt: fuel,
+      fuel_cost_usd: fuel * prices[grade],
+      hire_cost_usd: days * dailyHire,
+    };
+  }
+
+  private summarise(legs: LegSpeedPlan[]): SpeedProfileCost {
+    const hours = legs.reduce((sum, leg) => sum + leg.duration_hours, 0);
+    const distance = legs.reduce((sum, leg) => sum + leg.distance_nm, 0);
+    const fuel = { VLSFO: 0, LSMGO: 0 };
+    for (const leg of legs) fuel[leg.fuel_grade] += leg.fuel_mt;
+    const fuelCost = legs.reduce((sum, leg) => sum + leg.fuel_cost_usd, 0);
+    const hireCost = legs.reduce((sum, leg) => sum + leg.hire_cost_usd, 0);
+    return {
+      legs,
+      total_hours: hours,
+      average_speed_knots: hours > 0 ? distance / hours : 0,
+      average_consumption_mt_per_day: hours > 0 ? ((fuel.VLSFO + fuel.LSMGO) / hours) * HOURS_PER_DAY : 0,
+      fuel_mt: fuel,
+      fuel_cost_usd: fuelCost,
+      hire_cost_usd: hireCost,
+      total_cost_usd: fuelCost + hireCost,
+    };
+  }
+}
+
+// Export singleton instance
+export const speedOptimizerEngine = new SpeedOptimizerEngine();
@@ -18,6 +18,7 @@ import type {
   VesselAnalysisResult,
   VesselComparisonAnalysis,
   VesselRanking,
+  VesselRankingBasis,
   CostBreakdown,
   BunkerPlan,
 } from '@/lib/types/vessel-selection';
@@ -31,6 +32,9 @@ import { resolveVesselIdentifier } from '@/lib/services/vessel-identifier-servic
 import { getConfigManager } from '@/lib/config/config-manager';
 import { ServiceContainer } from '@/lib/repositories/service-container';
 import { bunkerDataService } from '@/lib/services/bunker-data-service';
+import { safetyMarginEngine } from './safety-margin-engine';
+import { euEtsEngine } from './eu-ets-engine';
+import { voyageEstimateEngine, type VoyageEstimate, type VoyageRevenueTerms } from './voyage-estimate-engine';
 
 // ============================================================================
 // Constants
@@ -111,8 +115,13 @@ export class VesselSelectionEngine {
     bunker_analysis?: any;
     /** When set, ROB at start of next voyage = current ROB − consumption to this date (12 kn, load from data_logs) */
     current_voyage_end_date?: string;
+    /** EUA price (EUR per t CO2) for EU ETS cost; defaults to the eu_ets engine params price */
+    eua_price_eur?: number;
+    /** Freight, lumpsum or hire terms; when set, the result carries the voyage P&L and TCE */
+    revenue?: VoyageRevenueTerms;
   }): Promise<VesselAnalysisResult> {
-    const { vessel_name, next_voyage, route_data, bunker_analysis, current_voyage_end_date } = params;
+    const { vessel_name, next_voyage, route_data, bunker_analysis, current_voyage_end_date, eua_price_eur, revenue } =
+      params;
 
     console.log(`${LOG_PREFIX} Analyzing vessel: ${vessel_name}`);
 
@@ -303,13 +312,23 @@ export class VesselSelectionEngine {
         LSMGO: consumptionLsmgo * durationDays,
       };
 
+      const safetyMargin = safetyMarginEngine.calculateSafetyMargin({
+        voyage_days: durationDays,
+        daily_consumption: { VLSFO: consumptionVlsfo, LSMGO: consumptionLsmgo },
+        voyage_consumption: nextVoyageRequirements,
+      });
+      const requiredWithReserve: FuelQuantityMT = {
+        VLSFO: nextVoyageRequirements.VLSFO + safetyMargin.required_mt.VLSFO,
+        LSMGO: nextVoyageRequirements.LSMGO + safetyMargin.required_mt.LSMGO,
+      };
+
       const canProceedWithoutBunker =
-        projectedROB.VLSFO >= nextVoyageRequirements.VLSFO &&
-        projectedROB.LSMGO >= nextVoyageRequirements.LSMGO;
+        projectedROB.VLSFO >= requiredWithReserve.VLSFO &&
+        projectedROB.LSMGO >= requiredWithReserve.LSMGO;
 
       const bunkerQuantityWhenNeeded: FuelQuantityMT = {
-        VLSFO: Math.max(0, nextVoyageRequirements.VLSFO - projectedROB.VLSFO),
-        LSMGO: Math.max(0, nextVoyageRequirements.LSMGO - projectedROB.LSMGO),
+        VLSFO: Math.max(0, requiredWithReserve.VLSFO - projectedROB.VLSFO),
+        LSMGO: Math.max(0, requiredWithReserve.LSMGO - projectedROB.LSMGO),
       };
       let bunkerPlan: BunkerPlan | undefined;
       let baseFuelCost = 0;
@@ -342,7 +361,23 @@ export class VesselSelectionEngine {
         }
       }
 
-      const totalVoyageCost = baseFuelCost + bunkerFuelCost + bunkerPortFees + deviationCost + timeCost;
+      // EU ETS allowances for this vessel's voyage burn, so EU-bound options compare on full cost
+      let euEtsCost = 0;
+      if (getConfigManager().isFeatureEnabled('enable_eu_ets_agent')) {
+        euEtsCost = euEtsEngine.calculateVoyage({
+          year: currentVoyageEndEta.getUTCFullYear(),
+          legs: [
+            {
+              from_port_code: next_voyage.origin,
+              to_port_code: next_voyage.destination,
+              fuel_consumed_mt: nextVoyageRequirements,
+            },
+          ],
+          eua_price_eur,
+        }).total_cost_usd;
+      }
+
+      const totalVoyageCost = baseFuelCost + bunkerFuelCost + bunkerPortFees + deviationCost + timeCost + euEtsCost;
 
       const costBreakdown: CostBreakdown = {
         base_fuel_cost: baseFuelCost,
@@ -350,9 +385,40 @@ export class VesselSelectionEngine {
         bunker_port_fees: bunkerPortFees,
         deviation_cost: deviationCost,
         time_cost: timeCost,
+        ...(euEtsCost > 0 && { eu_ets_cost: euEtsCost }),
         total_cost: totalVoyageCost,
       };
 
+      // Voyage P&L: fuel burnt at the best option's prices, bunker stop, canal tolls and allowances
+      let voyageEstimate: VoyageEstimate | undefined;
+      if (revenue) {
+        const best = canProceedWithoutBunker ? undefined : bunker_analysis?.best_option;
+        try {
+          voyageEstimate = voyageEstimateEngine.estimate({
+            revenue,
+            sea_days: durationDays,
+            sea_consumption_mt: { ...nextVoyageRequirements },
+            fuel_prices_usd_per_mt: {
+              ...(bunker_analysis?.best_option?.fuel_price_per_mt > 0 && {
+                VLSFO: bunker_analysis.best_option.fuel_price_per_mt,
+              }),
+              ...(bunker_analysis?.best_option?.mgo_price_per_mt > 0 && {
+                LSMGO: bunker_analysis.best_option.mgo_price_per_mt,
+              }),
+            },
+            bunker_call_cost_usd: best ? (best.deviation_cost_usd ?? 0) + (best.port_call_cost_usd ?? 0) : 0,
+            canal_tolls_usd: route_data?.canal_toll_usd,
+            eu_ets_cost_usd: euEtsCost,
+            deadweight_mt: vesselProfile.vessel_data?.dwt || undefined,
+          });
+        } catch (error) {
+          console.warn(
+            `${LOG_PREFIX} Voyage estimate skipped for ${vessel_name}:`,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      }
+
       const feasibilityScore = VesselSelectionEngine.calculateFeasibilityScore({
         vessel_name,
         vessel_profile: vesselProfile,
@@ -387,10 +453,16 @@ export class VesselSelectionEngine {
         projected_rob_at_start: projectedROB,
         next_voyage_requirements: nextVoyageRequirements,
         next_voyage_destination_eta: nextVoyageDestinationEta,
+        safety_margin: {
+          required_mt: safetyMargin.required_mt,
+          required_days: safetyMargin.required_days,
+          explanation: safetyMargin.explanation,
+        },
         can_proceed_without_bunker: canProceedWithoutBunker,
         bunker_plan: bunkerPlan,
         total_voyage_cost: totalVoyageCost,
         cost_breakdown: costBreakdown,
+        ...(voyageEstimate && { voyage_estimate: voyageEstimate }),
         feasibility_score: feasibilityScore,
         risks,
       };
@@ -413,8 +485,13 @@ export class VesselSelectionEngine {
     constraints?: VesselSelectionConstraints;
     route_data?: RouteData;
     bunker_analysis?: any;
+    eua_price_eur?: number;
+    /** Freight, lumpsum or hire terms; vessels are then ranked on TCE unless rank_by says otherwise */
+    revenue?: VoyageRevenueTerms;
+    rank_by?: VesselRankingBasis;
   }): Promise<VesselComparisonAnalysis> {
-    const { vessel_names, next_voyage, constraints, route_data, bunker_analysis } = params;
+    const { vessel_names, next_voyage, constraints, route_data, bunker_analysis, eua_price_eur, revenue } = params;
+    const rankBy = params.rank_by ?? (revenue ? 'tce' : 'cost');
 
     console.log(`${LOG_PREFIX} Comparing ${vessel_names.length} vessel(s)`);
 
@@ -440,6 +517,8 @@ export class VesselSelectionEngine {
             next_voyage,
             route_data,
             bunker_analysis,
+            eua_price_eur,
+            revenue,
           })
         )
       );
@@ -450,7 +529,7 @@ export class VesselSelectionEngine {
         console.log(`${LOG_PREFIX} Filtered by max_bunker_cost: ${analyses.length} -> ${filtered.length}`);
       }
 
-      const rankings = VesselSelectionEngine.rankVessels(filtered);
+      const rankings = VesselSelectionEngine.rankVessels(filtered, rankBy);
       const comparisonMatrix = VesselSelectionEngine.generateComparisonMatrix(filtered);
 
       const recommendedVessel = rankings[0]?.vessel_name ?? vessel_names[0];
@@ -461,6 +540,7 @@ export class VesselSelectionEngine {
       return {
         vessels_analyzed: filtered,
         rankings,
+        ranked_by: rankBy,
         recommended_vessel: recommendedVessel,
         analysis_summary: analysisSummary,
         comparison_matrix: comparisonMatrix,
@@ -473,10 +553,11 @@ export class VesselSelectionEngine {
   }
 
   /**
-   * Rank vessels by feasibility and cost
+   * Rank vessels by feasibility and cost, or by TCE (highest first; vessels without a voyage estimate last)
    */
-  static rankVessels(analyses: VesselAnalysisResult[]): VesselRanking[] {
+  static rankVessels(analyses: VesselAnalysisResult[], rankBy: VesselRankingBasis = 'cost'): VesselRanking[] {
     if (analyses.length === 0) return [];
+    if (rankBy === 'tce') return VesselSelectionEngine.rankVesselsByTCE(analyses);
 
     const costs = analyses.map((a) => a.total_voyage_cost);
     const minCost = Math.min(...costs);
@@ -512,6 +593,51 @@ export class VesselSelectionEngine {
     }));
   }
 
+  /**
+   * Rank vessels on time charter equivalent. Score is the TCE's position between the lowest and
+   * highest TCE (0-100); the cost ranking breaks ties and orders vessels without an estimate.
+   */
+  static rankVesselsByTCE(analyses: VesselAnalysisResult[]): VesselRanking[] {
+    const costOrder = new Map(
+      VesselSelectionEngine.rankVessels(analyses, 'cost').map((r) => [r.vessel_name, r.rank])
+    );
+    const tces = analyses
+      .map((a) => a.voyage_estimate?.tce_usd_per_day)
+      .filter((t): t is number => t != null && Number.isFinite(t));
+    const minTce = Math.min(...tces);
+    const tceRange = Math.max(...tces) - minTce;
+
+    const sorted = [...analyses].sort((a, b) => {
+      const tceA = a.voyage_estimate?.tce_usd_per_day ?? Number.NEGATIVE_INFINITY;
+      const tceB = b.voyage_estimate?.tce_usd_per_day ?? Number.NEGATIVE_INFINITY;
+      if (tceA !== tceB) return tceB - tceA;
+      return (costOrder.get(a.vessel_name) ?? 0) - (costOrder.get(b.vessel_name) ?? 0);
+    });
+
+    return sorted.map((a, i) => {
+      const estimate = a.voyage_estimate;
+      if (!estimate) {
+        return {
+          rank: i + 1,
+          vessel_name: a.vessel_name,
+          score: 0,
+          recommendation_reason: 'No voyage estimate - TCE not available',
+        };
+      }
+      const reason =
+        `TCE $${Math.round(estimate.tce_usd_per_day).toLocaleString()}/day over ${estimate.duration.total_days.toFixed(1)} days, ` +
+        `net result $${Math.round(estimate.net_result_usd).toLocaleString()}` +
+        (a.can_proceed_without_bunker ? '' : ` (bunkering at ${a.bunker_plan?.port_name ?? 'TBD'})`);
+      return {
+        rank: i + 1,
+        vessel_name: a.vessel_name,
+        score: tceRange > 0 ? 100 * ((estimate.tce_usd_per_day - minTce) / tceRange) : 100,
+        recommendation_reason: reason,
+        tce_usd_per_day: estimate.tce_usd_per_day,
+      };
+    });
+  }
+
   /**
    * Calculate feasibility score 0-100
    */
@@ -555,6 +681,11 @@ export class VesselSelectionEngine {
         bunker_quantity_vlsfo: a.bunker_plan?.bunker_quantity?.VLSFO ?? null,
         bunker_quantity_lsmgo: a.bunker_plan?.bunker_quantity?.LSMGO ?? null,
         deviation_nm: a.bunker_plan?.deviation_nm ?? null,
+        ...(a.voyage_estimate && {
+          tce_usd_per_day: a.voyage_estimate.tce_usd_per_day,
+          voyage_net_result_usd: a.voyage_estimate.net_result_usd,
+          voyage_days: a.voyage_estimate.duration.total_days,
+        }),
         next_voyage_destination_eta: eta instanceof Date ? eta.toISOString() : eta ?? null,
         risks: a.risks,
       };
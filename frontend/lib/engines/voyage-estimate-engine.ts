@@ -0,0 +1,335 @@
+/**
+ * Voyage Estimate Engine
+ *
+ * Voyage P&L for a vessel on a voyage, the way the chartering desk compares fixtures:
+ * - revenue: freight (rate × cargo quantity), lumpsum freight or time-charter hire
+ * - less address commission and brokerage on the gross revenue
+ * - less voyage costs: bunkers (sea and port consumption), bunker call and deviation costs,
+ *   port costs, canal tolls and EU ETS allowances
+ * - time charter equivalent (TCE) = voyage result per day of voyage duration (sea + port days)
+ * - net result = voyage result less the daily vessel cost (running cost or hire paid) over the voyage
+ *
+ * On hire, bunkers, port costs, canal tolls and allowances are for charterers' account, so the TCE
+ * is the net hire. Used by the bunker agent (vessel-specific TCE) and VesselSelectionEngine (TCE ranking).
+ * Parameters come from config/engine-params/voyage-estimate.yaml with fallbacks.
+ */
+
+import { getConfigManager } from '@/lib/config/config-manager';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '💼 [VOYAGE-ESTIMATE-ENGINE]';
+
+/** Grades priced at the distillate price when no price is given */
+const DISTILLATE_GRADES = new Set(['LSMGO', 'MGO', 'MDO', 'ULSFO']);
+
+const DEFAULT_PARAMETERS: VoyageEstimateParameters = {
+  address_commission_percent: 3.75,
+  brokerage_percent: 1.25,
+  default_port_days: 4,
+  default_port_calls: 2,
+  default_port_cost_usd_per_call: 40000,
+  port_consumption_mt_per_day: 3,
+  default_fuel_price_usd_per_mt: 600,
+  default_distillate_price_usd_per_mt: 800,
+  cargo_intake_percent_of_dwt: 95,
+  daily_vessel_cost_usd: 25000,
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface VoyageEstimateParameters {
+  /** Address commission (% of gross freight or hire) when none is given */
+  address_commission_percent: number;
+  /** Brokerage (% of gross freight or hire) when none is given */
+  brokerage_percent: number;
+  /** Load and discharge port time (days) when none is given */
+  default_port_days: number;
+  /** Load and discharge calls costed when no port costs are given */
+  default_port_calls: number;
+  /** Port disbursements per load or discharge call (USD) when no port costs are given */
+  default_port_cost_usd_per_call: number;
+  /** Fuel burnt in port (MT/day of port time), priced as distillate */
+  port_consumption_mt_per_day: number;
+  /** Residual fuel (VLSFO, HSFO) price when none is given (USD/MT) */
+  default_fuel_price_usd_per_mt: number;
+  /** Distillate (LSMGO, MGO, MDO) price when none is given (USD/MT) */
+  default_distillate_price_usd_per_mt: number;
+  /** Cargo intake as % of deadweight when a freight rate comes without a cargo quantity */
+  cargo_intake_percent_of_dwt: number;
+  /** Running cost or hire paid for the vessel (USD/day) when none is given */
+  daily_vessel_cost_usd: number;
+}
+
+export type VoyageRevenueBasis = 'freight' | 'lumpsum' | 'hire';
+
+/** Revenue terms of the voyage; exactly one of freight rate, lumpsum or hire is used (in that order) */
+export interface VoyageRevenueTerms {
+  /** Freight rate (USD per MT of cargo) */
+  freight_usd_per_mt?: number;
+  /** Cargo quantity (MT); defaults to deadweight × cargo intake for a freight rate */
+  cargo_mt?: number;
+  /** Lumpsum freight (USD) */
+  lumpsum_usd?: number;
+  /** Time-charter hire (USD/day) */
+  daily_hire_usd?: number;
+  address_commission_percent?: number;
+  brokerage_percent?: number;
+}
+
+export interface VoyageEstimateInput {
+  revenue: VoyageRevenueTerms;
+  /** Steaming time (days) */
+  sea_days: number;
+  /** Load and discharge port time (days) */
+  port_days?: number;
+  /** Fuel burnt at sea by grade (MT) */
+  sea_consumption_mt: Record<string, number>;
+  /** Fuel prices by grade (USD/MT) */
+  fuel_prices_usd_per_mt?: Record<string, number>;
+  /** Load and discharge port costs (USD) */
+  port_costs_usd?: number;
+  /** Bunker stop: port call and deviation cost (USD) */
+  bunker_call_cost_usd?: number;
+  canal_tolls_usd?: number;
+  eu_ets_cost_usd?: number;
+  other_costs_usd?: number;
+  /** Deadweight (MT) for the cargo quantity when only a freight rate is given */
+  deadweight_mt?: number;
+  /** Running cost or hire paid for the vessel (USD/day) */
+  daily_vessel_cost_usd?: number;
+}
+
+export interface VoyageCostBreakdown {
+  bunkers_usd: number;
+  bunker_call_usd: number;
+  port_costs_usd: number;
+  canal_tolls_usd: number;
+  eu_ets_usd: number;
+  other_usd: number;
+  total_usd: number;
+}
+
+export interface VoyageEstimate {
+  revenue_basis: VoyageRevenueBasis;
+  freight_usd_per_mt?: number;
+  cargo_mt?: number;
+  daily_hire_usd?: number;
+  gross_revenue_usd: number;
+  commission_percent: number;
+  commissions_usd: number;
+  net_revenue_usd: number;
+  /** Owners' voyage costs (all zero on hire) */
+  costs: VoyageCostBreakdown;
+  /** Fuel burnt at sea and in port by grade (MT) */
+  fuel_consumption_mt: Record<string, number>;
+  duration: {
+    sea_days: number;
+    port_days: number;
+    total_days: number;
+  };
+  /** Net revenue less voyage costs (USD) */
+  voyage_result_usd: number;
+  /** Time charter equivalent (USD/day) */
+  tce_usd_per_day: number;
+  daily_vessel_cost_usd: number;
+  /** Voyage result less the daily vessel cost over the voyage (USD) */
+  net_result_usd: number;
+  /** Freight rate at which the TCE equals the daily vessel cost (freight basis with a cargo quantity) */
+  breakeven_freight_usd_per_mt?: number;
+  /** True when a fuel price, port cost or port time default was used */
+  defaults_applied: boolean;
+  warnings: string[];
+}
+
+// ============================================================================
+// Voyage Estimate Engine
+// ============================================================================
+
+export class VoyageEstimateEngine {
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from engine params on each call
+   */
+  constructor(private overrides?: Partial<VoyageEstimateParameters>) {}
+
+  /**
+   * Resolve parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): VoyageEstimateParameters {
+    const p = getConfigManager().getEngineParams('voyage_estimate')?.parameters ?? {};
+    const resolve = (key: keyof VoyageEstimateParameters) =>
+      this.overrides?.[key] ?? p[key] ?? DEFAULT_PARAMETERS[key];
+    return {
+      address_commission_percent: resolve('address_commission_percent'),
+      brokerage_percent: resolve('brokerage_percent'),
+      default_port_days: resolve('default_port_days'),
+      default_port_calls: resolve('default_port_calls'),
+      default_port_cost_usd_per_call: resolve('default_port_cost_usd_per_call'),
+      port_consumption_mt_per_day: resolve('port_consumption_mt_per_day'),
+      default_fuel_price_usd_per_mt: resolve('default_fuel_price_usd_per_mt'),
+      default_distillate_price_usd_per_mt: resolve('default_distillate_price_usd_per_mt'),
+      cargo_intake_percent_of_dwt: resolve('cargo_intake_percent_of_dwt'),
+      daily_vessel_cost_usd: resolve('daily_vessel_cost_usd'),
+    };
+  }
+
+  /**
+   * Estimate the voyage P&L and time charter equivalent.
+   *
+   * @throws Error when there is no revenue, no sea time, or a freight rate without a cargo quantity or deadweight
+   */
+  public estimate(input: VoyageEstimateInput): VoyageEstimate {
+    const params = this.getParameters();
+    if (!(input.sea_days > 0)) {
+      throw new Error('Voyage estimate needs the sea passage time');
+    }
+    const warnings: string[] = [];
+    let defaultsApplied = false;
+
+    const portDays = input.port_days ?? params.default_port_days;
+    if (input.port_days == null) {
+      defaultsApplied = true;
+      warnings.push(`Port time not given; assumed ${params.default_port_days} days`);
+    }
+    const totalDays = input.sea_days + portDays;
+
+    // Revenue
+    const { revenue } = input;
+    let basis: VoyageRevenueBasis;
+    let gross: number;
+    let cargoMt: number | undefined;
+    if (revenue.freight_usd_per_mt != null && revenue.freight_usd_per_mt > 0) {
+      basis = 'freight';
+      cargoMt = revenue.cargo_mt;
+      if (!(cargoMt != null && cargoMt > 0)) {
+        if (!(input.deadweight_mt != null && input.deadweight_mt > 0)) {
+          throw new Error('Voyage estimate needs the cargo quantity for a freight rate');
+        }
+        cargoMt = (input.deadweight_mt * params.cargo_intake_percent_of_dwt) / 100;
+        defaultsApplied = true;
+        warnings.push(
+          `Cargo quantity not given; assumed ${Math.round(cargoMt).toLocaleString()} MT ` +
+            `(${params.cargo_intake_percent_of_dwt}% of ${input.deadweight_mt.toLocaleString()} DWT)`
+        );
+      }
+      gross = revenue.freight_usd_per_mt * cargoMt;
+    } else if (revenue.lumpsum_usd != null && revenue.lumpsum_usd > 0) {
+      basis = 'lumpsum';
+      gross = revenue.lumpsum_usd;
+    } else if (revenue.daily_hire_usd != null && revenue.daily_hire_usd > 0) {
+      basis = 'hire';
+      gross = revenue.daily_hire_usd * totalDays;
+    } else {
+      throw new Error('Voyage estimate needs a freight rate, lumpsum freight or daily hire');
+    }
+
+    const commissionPercent =
+      (revenue.address_commission_percent ?? params.address_commission_percent) +
+      (revenue.brokerage_percent ?? params.brokerage_percent);
+    const commissions = (gross * commissionPercent) / 100;
+    const netRevenue = gross - commissions;
+
+    // Fuel burnt at sea and in port (port fuel is distillate)
+    const fuel: Record<string, number> = {};
+    for (const [grade, mt] of Object.entries(input.sea_consumption_mt)) {
+      if (mt > 0) fuel[grade] = (fuel[grade] ?? 0) + mt;
+    }
+    const portFuelMt = portDays * params.port_consumption_mt_per_day;
+    if (portFuelMt > 0) fuel.LSMGO = (fuel.LSMGO ?? 0) + portFuelMt;
+
+    // Owners' voyage costs (charterers' account on hire)
+    let costs: VoyageCostBreakdown;
+    if (basis === 'hire') {
+      costs = { bunkers_usd: 0, bunker_call_usd: 0, port_costs_usd: 0, canal_tolls_usd: 0, eu_ets_usd: 0, other_usd: 0, total_usd: 0 };
+      warnings.push("On hire, bunkers, port costs, canal tolls and EU allowances are for charterers' account");
+    } else {
+      let bunkers = 0;
+      const assumedGrades: string[] = [];
+      for (const [grade, mt] of Object.entries(fuel)) {
+        const quoted = input.fuel_prices_usd_per_mt?.[grade];
+        if (!(quoted != null && quoted > 0)) assumedGrades.push(grade);
+        bunkers += mt * (quoted != null && quoted > 0 ? quoted : this.defaultPrice(grade, params));
+      }
+      if (assumedGrades.length > 0) {
+        defaultsApplied = true;
+        warnings.push(`No price for ${assumedGrades.join(', ')}; default bunker prices used`);
+      }
+
+      let portCosts = input.port_costs_usd;
+      if (portCosts == null) {
+        portCosts = params.default_port_calls * params.default_port_cost_usd_per_call;
+        defaultsApplied = true;
+        warnings.push(
+          `Port costs not given; assumed $${params.default_port_cost_usd_per_call.toLocaleString()} per call ` +
+            `for ${params.default_port_calls} calls`
+        );
+      }
+
+      const bunkerCall = input.bunker_call_cost_usd ?? 0;
+      const canal = input.canal_tolls_usd ?? 0;
+      const euEts = input.eu_ets_cost_usd ?? 0;
+      const other = input.other_costs_usd ?? 0;
+      costs = {
+        bunkers_usd: bunkers,
+        bunker_call_usd: bunkerCall,
+        port_costs_usd: portCosts,
+        canal_tolls_usd: canal,
+        eu_ets_usd: euEts,
+        other_usd: other,
+        total_usd: bunkers + bunkerCall + portCosts + canal + euEts + other,
+      };
+    }
+
+    const voyageResult = netRevenue - costs.total_usd;
+    const tce = voyageResult / totalDays;
+    const dailyVesselCost = input.daily_vessel_cost_usd ?? params.daily_vessel_cost_usd;
+    const netResult = voyageResult - dailyVesselCost * totalDays;
+
+    let breakevenFreight: number | undefined;
+    if (basis === 'freight' && cargoMt != null && commissionPercent < 100) {
+      const breakevenGross = (costs.total_usd + dailyVesselCost * totalDays) / (1 - commissionPercent / 100);
+      breakevenFreight = breakevenGross / cargoMt;
+    }
+    if (tce < 0) {
+      warnings.push('Voyage costs exceed net revenue (negative TCE)');
+    }
+
+    console.log(
+      `${LOG_PREFIX} ${basis}: gross $${gross.toFixed(0)}, costs $${costs.total_usd.toFixed(0)}, ` +
+        `${totalDays.toFixed(1)} days → TCE $${tce.toFixed(0)}/day`
+    );
+
+    return {
+      revenue_basis: basis,
+      ...(basis === 'freight' && { freight_usd_per_mt: revenue.freight_usd_per_mt, cargo_mt: cargoMt }),
+      ...(basis === 'hire' && { daily_hire_usd: revenue.daily_hire_usd }),
+      gross_revenue_usd: gross,
+      commission_percent: commissionPercent,
+      commissions_usd: commissions,
+      net_revenue_usd: netRevenue,
+      costs,
+      fuel_consumption_mt: fuel,
+      duration: { sea_days: input.sea_days, port_days: portDays, total_days: totalDays },
+      voyage_result_usd: voyageResult,
+      tce_usd_per_day: tce,
+      daily_vessel_cost_usd: dailyVesselCost,
+      net_result_usd: netResult,
+      ...(breakevenFreight !== undefined && { breakeven_freight_usd_per_mt: breakevenFreight }),
+      defaults_applied: defaultsApplied,
+      warnings,
+    };
+  }
+
+  private defaultPrice(grade: string, params: VoyageEstimateParameters): number {
+    return DISTILLATE_GRADES.has(grade.toUpperCase())
+      ? params.default_distillate_price_usd_per_mt
+      : params.default_fuel_price_usd_per_mt;
+  }
+}
+
+// Export singleton instance
+export const voyageEstimateEngine = new VoyageEstimateEngine();
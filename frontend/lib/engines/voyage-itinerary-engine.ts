@@ -0,0 +1,182 @@
+/**
+ * Voyage Itinerary Engine
+ *
+ * Time and fuel profile of a multi-port itinerary route:
+ * - default port stays by call purpose (load, discharge, bunker, canal transit) when not given
+ * - a sea segment per leg, with main engine consumption reduced in ballast
+ * - a port segment per intermediate call stay (auxiliary engines only)
+ *
+ * Used by the route agent (port stays), compliance agent (EU ETS / FuelEU legs) and ROB tracking.
+ * Parameters come from config/engine-params/voyage-itinerary.yaml with fallbacks.
+ */
+
+import { getConfigManager } from '@/lib/config/config-manager';
+import type {
+  CargoCondition,
+  ItineraryPortCall,
+  ItineraryRouteLeg,
+  PortCallPurpose,
+  VoyageItinerary,
+} from '@/lib/types/itinerary';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '🧭 [VOYAGE-ITINERARY-ENGINE]';
+
+const DEFAULT_PARAMETERS: VoyageItineraryParameters = {
+  ballast_consumption_factor: 0.85,
+  port_stay_hours_load: 48,
+  port_stay_hours_discharge: 48,
+  port_stay_hours_bunker: 12,
+  port_stay_hours_canal_transit: 12,
+  port_stay_hours_other: 24,
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface VoyageItineraryParameters {
+  /** Main engine consumption in ballast relative to the laden / design rate */
+  ballast_consumption_factor: number;
+  /** Default stay (hours) at an intermediate call by purpose */
+  port_stay_hours_load: number;
+  port_stay_hours_discharge: number;
+  port_stay_hours_bunker: number;
+  port_stay_hours_canal_transit: number;
+  /** Calls without a purpose */
+  port_stay_hours_other: number;
+}
+
+export interface ConsumptionRates {
+  main_engine_mt_per_day: number;
+  auxiliary_mt_per_day: number;
+}
+
+export interface ItinerarySegment {
+  /** 'sea' = a leg between calls; 'port' = the stay at the leg's arrival call */
+  type: 'sea' | 'port';
+  leg_index: number;
+  from_port_code: string;
+  /** Same as from_port_code for port segments */
+  to_port_code: string;
+  distance_nm: number;
+  duration_days: number;
+  cargo_condition?: CargoCondition;
+  main_engine_mt_per_day: number;
+  auxiliary_mt_per_day: number;
+}
+
+// ============================================================================
+// Voyage Itinerary Engine
+// ============================================================================
+
+export class VoyageItineraryEngine {
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from engine params on each call
+   */
+  constructor(private overrides?: Partial<VoyageItineraryParameters>) {}
+
+  /**
+   * Resolve parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): VoyageItineraryParameters {
+    const p = getConfigManager().getEngineParams('voyage_itinerary')?.parameters ?? {};
+    const resolve = (key: keyof VoyageItineraryParameters) =>
+      this.overrides?.[key] ?? p[key] ?? DEFAULT_PARAMETERS[key];
+    return {
+      ballast_consumption_factor: resolve('ballast_consumption_factor'),
+      port_stay_hours_load: resolve('port_stay_hours_load'),
+      port_stay_hours_discharge: resolve('port_stay_hours_discharge'),
+      port_stay_hours_bunker: resolve('port_stay_hours_bunker'),
+      port_stay_hours_canal_transit: resolve('port_stay_hours_canal_transit'),
+      port_stay_hours_other: resolve('port_stay_hours_other'),
+    };
+  }
+
+  /**
+   * Default stay (hours) at a call with the given purpose
+   */
+  public getDefaultPortStayHours(purpose?: PortCallPurpose): number {
+    const params = this.getParameters();
+    switch (purpose) {
+      case 'load':
+        return params.port_stay_hours_load;
+      case 'discharge':
+        return params.port_stay_hours_discharge;
+      case 'bunker':
+        return params.port_stay_hours_bunker;
+      case 'canal_transit':
+        return params.port_stay_hours_canal_transit;
+      default:
+        return params.port_stay_hours_other;
+    }
+  }
+
+  /**
+   * Fill in port stays for intermediate calls that have none (first and last calls are
+   * outside the voyage's sea time and keep their values)
+   */
+  public applyDefaultPortStays(itinerary: VoyageItinerary): VoyageItinerary {
+    const last = itinerary.port_calls.length - 1;
+    const port_calls = itinerary.port_calls.map(
+      (call: ItineraryPortCall, i): ItineraryPortCall =>
+        i === 0 || i === last || call.port_stay_hours !== undefined
+          ? call
+          : { ...call, port_stay_hours: this.getDefaultPortStayHours(call.purpose) }
+    );
+    return { ...itinerary, port_calls };
+  }
+
+  /**
+   * Sea and port segments of an itinerary route, in voyage order
+   *
+   * @param legs - Route legs (route_data.legs)
+   * @param rates - Laden / design consumption at the voyage speed
+   */
+  public buildSegments(legs: ItineraryRouteLeg[], rates: ConsumptionRates): ItinerarySegment[] {
+    const { ballast_consumption_factor } = this.getParameters();
+    const segments: ItinerarySegment[] = [];
+
+    for (const leg of legs) {
+      const mainFactor = leg.cargo_condition === 'ballast' ? ballast_consumption_factor : 1;
+      segments.push({
+        type: 'sea',
+        leg_index: leg.leg_index,
+        from_port_code: leg.from_port_code,
+        to_port_code: leg.to_port_code,
+        distance_nm: leg.distance_nm,
+        duration_days: leg.estimated_hours / 24,
+        cargo_condition: leg.cargo_condition,
+        main_engine_mt_per_day: rates.main_engine_mt_per_day * mainFactor,
+        auxiliary_mt_per_day: rates.auxiliary_mt_per_day,
+      });
+
+      const stayHours = leg.port_stay_hours ?? 0;
+      if (stayHours > 0) {
+        segments.push({
+          type: 'port',
+          leg_index: leg.leg_index,
+          from_port_code: leg.to_port_code,
+          to_port_code: leg.to_port_code,
+          distance_nm: 0,
+          duration_days: stayHours / 24,
+          main_engine_mt_per_day: 0,
+          auxiliary_mt_per_day: rates.auxiliary_mt_per_day,
+        });
+      }
+    }
+
+    const portDays = segments.filter((s) => s.type === 'port').reduce((sum, s) => sum + s.duration_days, 0);
+    const seaDays = segments.filter((s) => s.type === 'sea').reduce((sum, s) => sum + s.duration_days, 0);
+    console.log(
+      `${LOG_PREFIX} ${legs.length} legs: ${seaDays.toFixed(1)} days at sea, ${portDays.toFixed(1)} days in port`
+    );
+    return segments;
+  }
+}
+
+// Export singleton instance
+export const voyageItineraryEngine = new VoyageItineraryEngine();
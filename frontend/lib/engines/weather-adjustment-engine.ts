@@ -1,8 +1,323 @@
 /**
  * Weather Adjustment Engine
- * TODO: Implement in Prompt 10
+ *
+ * Per-segment weather impact on fuel consumption. Each leg of the vessel timeline gets
+ * the ship's heading, the forecast nearest to it, and a consumption factor from a
+ * heading-aware added-resistance model:
+ * - waves: wave_coefficient × Hs² × directional weight
+ * - wind: wind_coefficient × ((wind speed − calm threshold) / 10)² × directional weight
+ *
+ * The directional weight is interpolated on the angle between heading and the direction
+ * weather comes from (head → beam → following). Forecasts carry wind direction only, so
+ * waves are assumed to run with the wind.
+ *
+ * Parameters come from config/engine-params/weather-adjustment.yaml with fallbacks.
  */
 
+import type { Coordinates } from '@/lib/types';
+import type { VesselPosition } from '@/lib/multi-agent/state';
+import { getConfigManager } from '@/lib/config/config-manager';
+import { haversineDistance } from '@/lib/utils/coordinate-validator';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '🌊 [WEATHER-ADJUSTMENT-ENGINE]';
+
+const DEFAULT_PARAMETERS: WeatherAdjustmentParameters = {
+  wave_coefficient: 0.01,
+  wind_coefficient: 0.01,
+  wind_calm_threshold_knots: 10,
+  head_weight: 1.0,
+  beam_weight: 0.5,
+  following_weight: 0.15,
+  max_consumption_factor: 1.6,
+};
+
+/** Upper bound of relative angle (deg) for each encounter class */
+const ENCOUNTER_LIMITS: Array<[number, SeaEncounter]> = [
+  [30, 'head'],
+  [60, 'bow'],
+  [120, 'beam'],
+  [150, 'quartering'],
+  [180, 'following'],
+];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SeaEncounter = 'head' | 'bow' | 'beam' | 'quartering' | 'following';
+
+export interface WeatherAdjustmentParameters {
+  wave_coefficient: number;
+  wind_coefficient: number;
+  wind_calm_threshold_knots: number;
+  head_weight: number;
+  beam_weight: number;
+  following_weight: number;
+  max_consumption_factor: number;
+}
+
+/** Forecast point (compatible with WeatherPoint and the weather consumption tool input) */
+export interface WeatherObservation {
+  datetime: string;
+  position?: Coordinates;
+  weather: {
+    wave_height_m: number;
+    wind_speed_knots: number;
+    /** Direction the wind comes from (0-360) */
+    wind_direction_deg: number;
+  };
+}
+
+export interface WeatherAdjustmentInput {
+  /** Vessel positions along the route (from the weather timeline) */
+  vessel_timeline: VesselPosition[];
+  /** Forecast points along the route */
+  weather_points: WeatherObservation[];
+  /** Calm-water consumption for the voyage in MT; distributed over segments by distance */
+  base_consumption_mt: number;
+}
+
+export interface SegmentWeatherAdjustment {
+  segment_index: number;
+  from: Coordinates;
+  to: Coordinates;
+  start_datetime: string;
+  end_datetime: string;
+  distance_nm: number;
+  duration_hours: number;
+  /** Initial great-circle bearing of the leg */
+  heading_deg: number;
+  wave_height_m: number;
+  wind_speed_knots: number;
+  wind_direction_deg: number;
+  /** Angle between heading and the direction weather comes from (0 = head on, 180 = astern) */
+  relative_direction_deg: number;
+  encounter: SeaEncounter;
+  wave_added_resistance_percent: number;
+  wind_added_resistance_percent: number;
+  consumption_factor: number;
+  base_consumption_mt: number;
+  adjusted_consumption_mt: number;
+}
+
+export interface WeatherAdjustmentOutput {
+  segments: SegmentWeatherAdjustment[];
+  base_consumption_mt: number;
+  adjusted_consumption_mt: number;
+  /** Consumption-weighted factor across the voyage */
+  consumption_factor: number;
+  consumption_increase_percent: number;
+  /** Segment with the highest consumption factor (null when no segments) */
+  worst_segment_index: number | null;
+}
+
+// ============================================================================
+// Weather Adjustment Engine
+// ============================================================================
+
 export class WeatherAdjustmentEngine {
-  // TODO: Implement
+  /**
+   * @param overrides - Fixed parameters (e.g. tests); when omitted, parameters are read from engine params on each call
+   */
+  constructor(private overrides?: Partial<WeatherAdjustmentParameters>) {}
+
+  /**
+   * Resolve model parameters (overrides → YAML → defaults)
+   */
+  public getParameters(): WeatherAdjustmentParameters {
+    const p = getConfigManager().getEngineParams('weather_adjustment')?.parameters ?? {};
+    const resolve = (key: keyof WeatherAdjustmentParameters) =>
+      this.overrides?.[key] ?? p[key] ?? DEFAULT_PARAMETERS[key];
+    return {
+      wave_coefficient: resolve('wave_coefficient'),
+      wind_coefficient: resolve('wind_coefficient'),
+      wind_calm_threshold_knots: resolve('wind_calm_threshold_knots'),
+      head_weight: resolve('head_weight'),
+      beam_weight: resolve('beam_weight'),
+      following_weight: resolve('following_weight'),
+      max_consumption_factor: resolve('max_consumption_factor'),
+    };
+  }
+
+  /**
+   * Initial great-circle bearing from one position to the next (0-360)
+   */
+  public calculateHeading(from: Coordinates, to: Coordinates): number {
+    const lat1 = (from.lat * Math.PI) / 180;
+    const lat2 = (to.lat * Math.PI) / 180;
+    const dLon = ((to.lon - from.lon) * Math.PI) / 180;
+    const y = Math.sin(dLon) * Math.cos(lat2);
+    const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+    return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+  }
+
+  /**
+   * Angle between heading and the direction weather comes from (0 = head on, 180 = astern)
+   */
+  public relativeDirection(headingDeg: number, fromDirectionDeg: number): number {
+    const diff = Math.abs((((fromDirectionDeg - headingDeg) % 360) + 360) % 360);
+    return diff > 180 ? 360 - diff : diff;
+  }
+
+  /**
+   * Classify the encounter for a relative weather direction
+   */
+  public classifyEncounter(relativeDeg: number): SeaEncounter {
+    for (const [limit, encounter] of ENCOUNTER_LIMITS) {
+      if (relativeDeg <= limit) return encounter;
+    }
+    return 'following';
+  }
+
+  /**
+   * Added resistance and consumption factor for one heading and weather condition
+   */
+  public calculateAddedResistance(
+    headingDeg: number,
+    weather: WeatherObservation['weather']
+  ): Pick<
+    SegmentWeatherAdjustment,
+    | 'relative_direction_deg'
+    | 'encounter'
+    | 'wave_added_resistance_percent'
+    | 'wind_added_resistance_percent'
+    | 'consumption_factor'
+  > {
+    const params = this.getParameters();
+    const relative = this.relativeDirection(headingDeg, weather.wind_direction_deg);
+    const weight = this.directionalWeight(relative, params);
+
+    const waveHeight = Math.max(0, weather.wave_height_m);
+    const windExcess = Math.max(0, weather.wind_speed_knots - params.wind_calm_threshold_knots);
+    const waveAdded = params.wave_coefficient * waveHeight ** 2 * weight;
+    const windAdded = params.wind_coefficient * (windExcess / 10) ** 2 * weight;
+
+    return {
+      relative_direction_deg: relative,
+      encounter: this.classifyEncounter(relative),
+      wave_added_resistance_percent: waveAdded * 100,
+      wind_added_resistance_percent: windAdded * 100,
+      consumption_factor: Math.min(params.max_consumption_factor, 1 + waveAdded + windAdded),
+    };
+  }
+
+  /**
+   * Per-segment weather adjustment along the vessel timeline
+   */
+  public calculateVoyageAdjustment(input: WeatherAdjustmentInput): WeatherAdjustmentOutput {
+    const timeline = input.vessel_timeline;
+    const legs: Array<{ from: VesselPosition; to: VesselPosition; distance: number }> = [];
+    for (let i = 0; i < timeline.length - 1; i++) {
+      const from = timeline[i]!;
+      const to = timeline[i + 1]!;
+      const byTimeline = to.distance_from_start_nm - from.distance_from_start_nm;
+      const distance = byTimeline > 0 ? byTimeline : haversineDistance(from, to);
+      legs.push({ from, to, distance });
+    }
+
+    const totalDistance = legs.reduce((sum, leg) => sum + leg.distance, 0);
+    const segments: SegmentWeatherAdjustment[] = legs.map((leg, i) => {
+      const share = totalDistance > 0 ? leg.distance / totalDistance : 1 / legs.length;
+      const base = input.base_consumption_mt * share;
+      const heading = this.calculateHeading(leg.from, leg.to);
+      const observation = this.findNearestObservation(leg.from, leg.to, input.weather_points);
+      const weather = observation?.weather ?? { wave_height_m: 0, wind_speed_knots: 0, wind_direction_deg: 0 };
+      const resistance = this.calculateAddedResistance(heading, weather);
+      const durationMs = new Date(leg.to.datetime).getTime() - new Date(leg.from.datetime).getTime();
+
+      return {
+        segment_index: i,
+        from: { lat: leg.from.lat, lon: leg.from.lon },
+        to: { lat: leg.to.lat, lon: leg.to.lon },
+        start_datetime: leg.from.datetime,
+        end_datetime: leg.to.datetime,
+        distance_nm: leg.distance,
+        duration_hours: Number.isFinite(durationMs) ? Math.max(0, durationMs / 3_600_000) : 0,
+        heading_deg: heading,
+        wave_height_m: weather.wave_height_m,
+        wind_speed_knots: weather.wind_speed_knots,
+        wind_direction_deg: weather.wind_direction_deg,
+        ...resistance,
+        base_consumption_mt: base,
+        adjusted_consumption_mt: base * resistance.consumption_factor,
+      };
+    });
+
+    const adjusted = segments.reduce((sum, seg) => sum + seg.adjusted_consumption_mt, 0);
+    const base = segments.length > 0 ? input.base_consumption_mt : 0;
+    const factor = base > 0 ? adjusted / base : 1;
+    const worst = segments.reduce<SegmentWeatherAdjustment | null>(
+      (w, seg) => (w === null || seg.consumption_factor > w.consumption_factor ? seg : w),
+      null
+    );
+
+    console.log(
+      `${LOG_PREFIX} ${segments.length} segments: factor ${factor.toFixed(3)}` +
+        (worst ? `, worst segment ${worst.segment_index} (${worst.encounter} seas, ×${worst.consumption_factor.toFixed(3)})` : '')
+    );
+
+    return {
+      segments,
+      base_consumption_mt: base,
+      adjusted_consumption_mt: adjusted,
+      consumption_factor: factor,
+      consumption_increase_percent: (factor - 1) * 100,
+      worst_segment_index: worst?.segment_index ?? null,
+    };
+  }
+
+  /**
+   * Directional weight interpolated head → beam → following on the relative angle
+   */
+  private directionalWeight(relativeDeg: number, params: WeatherAdjustmentParameters): number {
+    if (relativeDeg <= 90) {
+      return params.head_weight + (params.beam_weight - params.head_weight) * (relativeDeg / 90);
+    }
+    return params.beam_weight + (params.following_weight - params.beam_weight) * ((relativeDeg - 90) / 90);
+  }
+
+  /**
+   * Forecast closest in time to the segment midpoint; falls back to closest in position
+   */
+  private findNearestObservation(
+    from: VesselPosition,
+    to: VesselPosition,
+    observations: WeatherObservation[]
+  ): WeatherObservation | null {
+    if (observations.length === 0) return null;
+
+    const midTime = (new Date(from.datetime).getTime() + new Date(to.datetime).getTime()) / 2;
+    if (Number.isFinite(midTime)) {
+      let best: WeatherObservation | null = null;
+      let bestDiff = Infinity;
+      for (const obs of observations) {
+        const diff = Math.abs(new Date(obs.datetime).getTime() - midTime);
+        if (diff < bestDiff) {
+          best = obs;
+          bestDiff = diff;
+        }
+      }
+      if (best) return best;
+    }
+
+    const mid = { lat: (from.lat + to.lat) / 2, lon: (from.lon + to.lon) / 2 };
+    let best: WeatherObservation | null = null;
+    let bestDistance = Infinity;
+    for (const obs of observations) {
+      if (!obs.position) continue;
+      const distance = haversineDistance(mid, obs.position);
+      if (distance < bestDistance) {
+        best = obs;
+        bestDistance = distance;
+      }
+    }
+    return best ?? observations[0]!;
+  }
 }
+
+// Export singleton instance
+export const weatherAdjustmentEngine = new WeatherAdjustmentEngine();
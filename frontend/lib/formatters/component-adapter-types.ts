@@ -34,7 +34,7 @@ export interface TimelineData {
   events: Array<{
     hourFromStart: number;
     hourFormatted: string;
-    type: 'DEPARTURE' | 'BUNKER' | 'SWITCH_FUEL' | 'ARRIVAL';
+    type: 'DEPARTURE' | 'BUNKER' | 'SWITCH_FUEL' | 'ARRIVAL' | 'BERTH';
     icon: string;
     title: string;
     description: string;
@@ -9,6 +9,7 @@ import type { MultiAgentState } from '../multi-agent/state';
 import fs from 'fs';
 import path from 'path';
 import yaml from 'js-yaml';
+import { compileCondition, validateCondition, type ConditionScope } from '../config/condition-expression';
 
 // ============================================================================
 // Types
@@ -56,15 +57,29 @@ export class InsightExtractor {
       return;
     }
     
+    let rules: InsightRule[];
     try {
       const content = fs.readFileSync(rulesPath, 'utf8');
       const data = yaml.load(content) as InsightRulesConfig;
-      this.rules = data.insights || [];
-      console.log(`✅ [INSIGHTS] Loaded ${this.rules.length} insight rules`);
+      rules = data.insights || [];
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : String(error);
       console.error('❌ [INSIGHTS] Error loading rules:', message);
+      return;
+    }
+    
+    // Invalid conditions fail loading instead of never matching
+    const invalid = rules
+      .map((rule) => ({ id: rule.id, error: validateCondition(rule.condition) }))
+      .filter((result) => result.error !== null);
+    if (invalid.length > 0) {
+      throw new Error(
+        `Insight rules validation failed: ${invalid.map((r) => `${r.id}: ${r.error}`).join('; ')}`
+      );
     }
+    
+    this.rules = rules;
+    console.log(`✅ [INSIGHTS] Loaded ${this.rules.length} insight rules`);
   }
   
   /**
@@ -112,94 +127,7 @@ export class InsightExtractor {
    * Evaluate a condition expression against state
    */
   private evaluateCondition(condition: string, state: MultiAgentState): boolean {
-    try {
-      // Handle bunker analysis conditions
-      if (condition.includes('bunker_analysis.max_savings_usd')) {
-        const threshold = this.extractNumber(condition);
-        return (state.bunker_analysis?.max_savings_usd || 0) > threshold;
-      }
-      
-      if (condition.includes('bunker_analysis.best_option.deviation_cost_usd')) {
-        const threshold = this.extractNumber(condition);
-        return ((state.bunker_analysis?.best_option as any)?.deviation_cost_usd || 999999) < threshold;
-      }
-      
-      if (condition.includes('bunker_analysis.best_option.distance_from_route_nm')) {
-        const threshold = this.extractNumber(condition);
-        return (state.bunker_analysis?.best_option?.distance_from_route_nm || 999) < threshold;
-      }
-      
-      // Handle ROB tracking conditions
-      if (condition.includes('rob_tracking.minimum_rob_mt < 0')) {
-        return ((state.rob_tracking as any)?.minimum_rob_mt || 0) < 0;
-      }
-      
-      // Handle ROB safety status conditions
-      if (condition.includes('rob_safety_status.minimum_rob_days')) {
-        const margin = state.rob_safety_status?.minimum_rob_days;
-        if (margin === undefined) return false;
-        
-        if (condition.includes('>= 3') && condition.includes('< 5')) {
-          return margin >= 3 && margin < 5;
-        }
-        if (condition.includes('< 3')) {
-          return margin < 3;
-        }
-        if (condition.includes('< 5')) {
-          return margin < 5;
-        }
-      }
-      
-      if (condition.includes('rob_safety_status.violations.length > 0')) {
-        return (state.rob_safety_status?.violations?.length || 0) > 0;
-      }
-      
-      // Handle compliance conditions
-      if (condition.includes('compliance_data.eca_zones.has_eca_zones')) {
-        return state.compliance_data?.eca_zones?.has_eca_zones === true;
-      }
-      
-      if (condition.includes('compliance_data.eca_zones.fuel_requirements.switching_points.length')) {
-        const threshold = this.extractNumber(condition);
-        const switchCount = state.compliance_data?.eca_zones?.fuel_requirements?.switching_points?.length || 0;
-        return switchCount > threshold;
-      }
-      
-      // Handle weather conditions
-      if (condition.includes('weather_consumption.additional_fuel_needed_mt')) {
-        const threshold = this.extractNumber(condition);
-        return (state.weather_consumption?.additional_fuel_needed_mt || 0) > threshold;
-      }
-      
-      if (condition.includes('port_weather_status.unsafe_count')) {
-        const unsafeCount = state.port_weather_status?.filter(p => !p.bunkering_feasible).length || 0;
-        return unsafeCount > 0;
-      }
-      
-      // Handle route conditions
-      if (condition.includes('route_data.estimated_hours')) {
-        const threshold = this.extractNumber(condition);
-        return (state.route_data?.estimated_hours || 0) > threshold;
-      }
-      
-      // Handle bunker ports count
-      if (condition.includes('bunker_ports.length')) {
-        const threshold = this.extractNumber(condition);
-        return (state.bunker_ports?.length || 0) > threshold;
-      }
-      
-      return false;
-    } catch (error) {
-      return false;
-    }
-  }
-  
-  /**
-   * Extract numeric threshold from condition string
-   */
-  private extractNumber(condition: string): number {
-    const match = condition.match(/[<>=]+\s*(\d+(?:\.\d+)?)/);
-    return match ? parseFloat(match[1]) : 0;
+    return compileCondition(condition).test(state as unknown as ConditionScope);
   }
   
   /**
@@ -10,7 +10,7 @@
  */
 
 import type { MultiAgentState } from '../multi-agent/state';
-import { ECA_ZONES } from '../tools/eca-config';
+import { getRegulatoryZoneRegistry } from '../config/regulatory-zone-registry';
 import type { SynthesisContext, ExtractedData } from '../multi-agent/synthesis/auto-synthesis-engine';
 import { ContextAwareTemplateSelector } from './context-aware-template-selector';
 import { formatResponseWithTemplate } from './template-aware-formatter';
@@ -144,7 +144,7 @@ export interface TimelineData {
   events: Array<{
     hourFromStart: number;
     hourFormatted: string;
-    type: 'DEPARTURE' | 'BUNKER' | 'SWITCH_FUEL' | 'ARRIVAL';
+    type: 'DEPARTURE' | 'BUNKER' | 'SWITCH_FUEL' | 'ARRIVAL' | 'BERTH';
     icon: string;
     title: string;
     description: string;
@@ -450,17 +450,25 @@ export { formatBunkerTable } from './format-bunker-table';
  */
 function formatTimeline(state: MultiAgentState): TimelineData | null {
   const events: TimelineData['events'] = [];
+  // JIT arrival: hours from the planned departure
+  const jit = state.jit_arrival_plan;
+  const jitHour = (iso: string) =>
+    jit ? (Date.parse(iso) - Date.parse(jit.arrive_early.departure)) / (60 * 60 * 1000) : 0;
   
   // Event 1: Departure
   if (state.route_data) {
+    const departureHour = jit ? jitHour(jit.recommended.departure) : 0;
     events.push({
-      hourFromStart: 0,
-      hourFormatted: '0h',
+      hourFromStart: departureHour,
+      hourFormatted: `${Math.floor(departureHour)}h`,
       type: 'DEPARTURE',
       icon: '⚓',
       title: `Depart ${state.route_data.origin_port_name ?? state.route_data.origin_port_code}`,
-      description: 'Starting voyage with VLSFO',
-      actionRequired: false,
+      description: jit
+        ? `JIT: sail at ${jit.recommended.speed_knots.toFixed(1)} kn` +
+          (jit.departure_delay_hours > 0 ? ` after ${jit.departure_delay_hours.toFixed(0)}h in port` : '')
+        : 'Starting voyage with VLSFO',
+      actionRequired: !!jit && jit.departure_delay_hours > 0,
     });
   }
   
@@ -500,13 +508,30 @@ function formatTimeline(state: MultiAgentState): TimelineData | null {
   
   // Final Event: Arrival
   if (state.route_data) {
+    const arrivalHour = jit ? jitHour(jit.recommended.arrival) : state.route_data.estimated_hours;
     events.push({
-      hourFromStart: state.route_data.estimated_hours,
-      hourFormatted: `${Math.floor(state.route_data.estimated_hours)}h`,
+      hourFromStart: arrivalHour,
+      hourFormatted: `${Math.floor(arrivalHour)}h`,
       type: 'ARRIVAL',
       icon: '🏁',
       title: `Arrive ${state.route_data.destination_port_name ?? state.route_data.destination_port_code}`,
-      description: 'Voyage complete',
+      description: jit
+        ? `Just in time; arriving early would wait ${jit.arrive_early.anchorage_hours.toFixed(0)}h at anchor`
+        : 'Voyage complete',
+      actionRequired: false,
+    });
+  }
+  
+  // JIT arrival: expected berthing
+  if (jit) {
+    const berthHour = jitHour(jit.target_arrival);
+    events.push({
+      hourFromStart: berthHour,
+      hourFormatted: `${Math.floor(berthHour)}h`,
+      type: 'BERTH',
+      icon: '🛳️',
+      title: 'Berth',
+      description: `Saves ${jit.fuel_saved_mt.toFixed(1)} MT fuel and ${jit.co2_reduction_t.toFixed(1)} t CO2`,
       actionRequired: false,
     });
   }
@@ -626,15 +651,14 @@ export function formatMapOverlays(state: MultiAgentState): MapOverlaysData | nul
   const ecaZones: MapOverlaysData['ecaZones'] = [];
   
   if (eca.has_eca_zones && eca.eca_zones_crossed.length > 0) {
+    const zoneDefs = getRegulatoryZoneRegistry().getAllZones();
     for (const crossedZone of eca.eca_zones_crossed) {
-      // Find the zone definition in ECA_ZONES config
-      const zoneKey = Object.keys(ECA_ZONES).find(
-        key => ECA_ZONES[key as keyof typeof ECA_ZONES].code === crossedZone.zone_code ||
-               ECA_ZONES[key as keyof typeof ECA_ZONES].name === crossedZone.zone_name
+      // Find the zone definition in the regulatory zone registry
+      const zoneDef = zoneDefs.find(
+        zone => zone.code === crossedZone.zone_code || zone.name === crossedZone.zone_name
       );
       
-      if (zoneKey) {
-        const zoneDef = ECA_ZONES[zoneKey as keyof typeof ECA_ZONES];
+      if (zoneDef) {
         // Use first boundary polygon (most zones have one)
         if (zoneDef.boundaries && zoneDef.boundaries.length > 0) {
           const polygon = zoneDef.boundaries[0]; // [lon, lat] format
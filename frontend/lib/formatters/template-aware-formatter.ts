@@ -16,6 +16,10 @@ import {
   type TemplateSection,
   type BusinessRule
 } from '../config/template-loader';
+import {
+  evaluateCondition as evaluateConditionExpression,
+  type ConditionScope
+} from '../config/condition-expression';
 import { 
   extractContent, 
   getNestedValue as extractNestedValue,
@@ -266,20 +270,30 @@ function applyBusinessRules(
 }
 
 /**
- * Get value from state object using dot notation path
+ * Scope that template conditions are evaluated against: state, with legacy synthesis field
+ * names (executive_insight → response, risk_alerts → critical_risks) and the query type
+ * inferred for vessel info queries, whose decoupled synthesis does not set synthesized_insights.
  */
-function getValueByPath(obj: any, path: string): any {
-  const parts = path.split('.');
-  let current = obj;
-  
-  for (const part of parts) {
-    if (current === null || current === undefined) {
-      return undefined;
-    }
-    current = current[part];
+function buildConditionScope(state: MultiAgentState): ConditionScope {
+  const insights = state.synthesized_insights;
+  const inferredInformational =
+    insights?.query_type == null &&
+    state.agent_status?.vessel_info_agent === 'success' &&
+    !!state.vessel_specs?.length;
+
+  if (!insights && !inferredInformational) {
+    return state as unknown as ConditionScope;
   }
-  
-  return current;
+
+  return {
+    ...(state as unknown as ConditionScope),
+    synthesized_insights: {
+      ...insights,
+      query_type: insights?.query_type ?? (inferredInformational ? 'informational' : undefined),
+      executive_insight: insights?.response,
+      risk_alerts: insights?.critical_risks,
+    },
+  };
 }
 
 /**
@@ -287,365 +301,7 @@ function getValueByPath(obj: any, path: string): any {
  */
 function evaluateCondition(condition: string, state: MultiAgentState): boolean {
   try {
-    // ========================================================================
-    // QUERY TYPE CONDITIONS (v4 template)
-    // ========================================================================
-    
-    // Pattern: "synthesized_insights.query_type === 'informational'"
-    if (condition.includes('synthesized_insights.query_type')) {
-      const queryType = state.synthesized_insights?.query_type;
-
-      if (condition.includes("=== 'informational'")) {
-        if (queryType === 'informational') return true;
-        // Fallback: vessel info queries use decoupled synthesis which doesn't set
-        // synthesized_insights; infer informational from vessel_info_agent success.
-        if (
-          queryType == null &&
-          state.agent_status?.vessel_info_agent === 'success' &&
-          state.vessel_specs?.length
-        ) {
-          return true;
-        }
-        return false;
-      }
-      if (condition.includes("=== 'decision-required'")) {
-        return queryType === 'decision-required';
-      }
-      if (condition.includes("=== 'validation'")) {
-        return queryType === 'validation';
-      }
-      if (condition.includes("=== 'comparison'")) {
-        return queryType === 'comparison';
-      }
-    }
-    
-    // ========================================================================
-    // DETAILS TO SURFACE FLAGS (v4 template)
-    // ========================================================================
-    
-    // Pattern: "synthesized_insights.details_to_surface.show_X && something"
-    if (condition.includes('details_to_surface.show_')) {
-      const flags = state.synthesized_insights?.details_to_surface;
-      if (!flags) return false;
-      
-      // Check each flag
-      if (condition.includes('show_multi_port_analysis')) {
-        const flagValue = flags.show_multi_port_analysis;
-        // If condition has && check both parts
-        if (condition.includes('&&')) {
-          const secondPart = condition.split('&&')[1]?.trim();
-          if (secondPart) {
-            const secondValue = getValueByPath(state, secondPart);
-            return flagValue && !!secondValue;
-          }
-        }
-        return flagValue;
-      }
-      if (condition.includes('show_alternatives')) {
-        const flagValue = flags.show_alternatives;
-        if (condition.includes('&&')) {
-          const secondPart = condition.split('&&')[1]?.trim();
-          if (secondPart && secondPart.includes('.length')) {
-            // Handle array length check
-            const pathMatch = secondPart.match(/([a-zA-Z_.]+)\.length/);
-            if (pathMatch) {
-              const arr = getValueByPath(state, pathMatch[1]);
-              return flagValue && Array.isArray(arr) && arr.length > 0;
-            }
-          }
-        }
-        return flagValue;
-      }
-      if (condition.includes('show_rob_waypoints')) {
-        const flagValue = flags.show_rob_waypoints;
-        if (condition.includes('&&')) {
-          const secondPart = condition.split('&&')[1]?.trim();
-          if (secondPart) {
-            const secondValue = getValueByPath(state, secondPart);
-            return flagValue && !!secondValue;
-          }
-        }
-        return flagValue;
-      }
-      if (condition.includes('show_weather_details')) {
-        const flagValue = flags.show_weather_details;
-        if (condition.includes('&&')) {
-          const secondPart = condition.split('&&')[1]?.trim();
-          if (secondPart) {
-            const secondValue = getValueByPath(state, secondPart);
-            return flagValue && !!secondValue;
-          }
-        }
-        return flagValue;
-      }
-      if (condition.includes('show_eca_details')) {
-        const flagValue = flags.show_eca_details;
-        if (condition.includes('&&')) {
-          const secondPart = condition.split('&&')[1]?.trim();
-          if (secondPart) {
-            const secondValue = getValueByPath(state, secondPart);
-            return flagValue && !!secondValue;
-          }
-        }
-        return flagValue;
-      }
-    }
-    
-    // ========================================================================
-    // NEGATION PATTERNS (v4 template)
-    // ========================================================================
-    
-    // Pattern: "!synthesized_insights && bunker_analysis"
-    if (condition.startsWith('!synthesized_insights') && condition.includes('&&')) {
-      const hasSynthesis = !!state.synthesized_insights;
-      if (hasSynthesis) return false;
-      
-      const secondPart = condition.split('&&')[1]?.trim();
-      if (secondPart) {
-        const secondValue = getValueByPath(state, secondPart);
-        return !!secondValue;
-      }
-      return !hasSynthesis;
-    }
-    
-    // ========================================================================
-    // ARRAY LENGTH PATTERNS (v4 template)
-    // ========================================================================
-    
-    // Pattern: "something.length > 0"
-    if (condition.includes('.length > 0') && !condition.includes('&&')) {
-      const match = condition.match(/^([a-zA-Z_.]+)\.length\s*>\s*0$/);
-      if (match) {
-        const path = match[1];
-        const value = getValueByPath(state, path);
-        return Array.isArray(value) && value.length > 0;
-      }
-    }
-    
-    // ========================================================================
-    // SIMPLE PATH EXISTENCE (v4 template)
-    // ========================================================================
-    
-    // Pattern: "route_data" or "bunker_analysis" (simple existence check)
-    if (/^[a-zA-Z_][a-zA-Z0-9_.]*$/.test(condition) && !condition.includes('===')) {
-      const value = getValueByPath(state, condition);
-      return !!value;
-    }
-    
-    // ========================================================================
-    // LEGACY PATTERNS (existing conditions)
-    // ========================================================================
-    
-    // Pattern: "rob_safety_status && !rob_safety_status.overall_safe"
-    if (condition.includes('rob_safety_status') && condition.includes('!') && condition.includes('overall_safe')) {
-      return !!(state.rob_safety_status && !state.rob_safety_status.overall_safe);
-    }
-    
-    // Pattern: "rob_safety_status && rob_safety_status.overall_safe"
-    if (condition.includes('rob_safety_status') && condition.includes('overall_safe') && !condition.includes('!')) {
-      return !!(state.rob_safety_status && state.rob_safety_status.overall_safe);
-    }
-    
-    // Pattern: "bunker_analysis && bunker_analysis.alternatives && bunker_analysis.alternatives.length > 0"
-    if (condition.includes('bunker_analysis.alternatives') && condition.includes('length')) {
-      const alternatives = (state.bunker_analysis as any)?.alternatives;
-      return !!(alternatives && alternatives.length > 0);
-    }
-    
-    // Pattern: "!bunker_analysis || !bunker_analysis.alternatives || bunker_analysis.alternatives.length === 0"
-    if (condition.includes('!bunker_analysis') || condition.includes('=== 0')) {
-      const alternatives = (state.bunker_analysis as any)?.alternatives;
-      return !(alternatives && alternatives.length > 0);
-    }
-    
-    // Pattern: "compliance_data && compliance_data.eca_zones && compliance_data.eca_zones.has_eca_zones"
-    if (condition.includes('compliance_data') && condition.includes('eca_zones') && condition.includes('has_eca_zones') && !condition.includes('!')) {
-      return !!(state.compliance_data?.eca_zones?.has_eca_zones);
-    }
-    
-    // Pattern: "!compliance_data || !compliance_data.eca_zones || !compliance_data.eca_zones.has_eca_zones"
-    if (condition.includes('!compliance_data') || condition.includes('!eca_zones') || condition.includes('!has_eca_zones')) {
-      return !(state.compliance_data?.eca_zones?.has_eca_zones);
-    }
-    
-    // Pattern: "rob_tracking"
-    if (condition === 'rob_tracking') {
-      return !!state.rob_tracking;
-    }
-    
-    // Pattern: "rob_waypoints && rob_waypoints.length > 0"
-    if (condition.includes('rob_waypoints') && condition.includes('length')) {
-      return !!(state.rob_waypoints && state.rob_waypoints.length > 0);
-    }
-    
-    // Pattern: "bunker_ports && bunker_ports.length > 2"
-    if (condition.includes('bunker_ports') && condition.includes('length > 2')) {
-      return !!(state.bunker_ports && state.bunker_ports.length > 2);
-    }
-    
-    // Pattern: "weather_forecast"
-    if (condition === 'weather_forecast') {
-      return !!state.weather_forecast;
-    }
-    
-    // ========================================================================
-    // SYNTHESIZED INSIGHTS CONDITIONS
-    // ========================================================================
-    
-    // Pattern: "synthesized_insights && synthesized_insights.executive_insight" (legacy - now maps to response)
-    if (condition.includes('synthesized_insights') && condition.includes('executive_insight') && !condition.includes('some(')) {
-      // V3: executive_insight is now derived from response object
-      return !!(state.synthesized_insights?.response);
-    }
-    
-    // Pattern: "synthesized_insights && synthesized_insights.response" (v3)
-    if (condition.includes('synthesized_insights') && condition.includes('response') && !condition.includes('length')) {
-      return !!(state.synthesized_insights?.response);
-    }
-    
-    // Pattern: "synthesized_insights && synthesized_insights.strategic_priorities && synthesized_insights.strategic_priorities.length > 0"
-    if (condition.includes('synthesized_insights') && condition.includes('strategic_priorities') && condition.includes('length')) {
-      return !!(state.synthesized_insights?.strategic_priorities && 
-                state.synthesized_insights.strategic_priorities.length > 0);
-    }
-    
-    // Pattern: "synthesized_insights && synthesized_insights.cross_agent_connections && synthesized_insights.cross_agent_connections.length > 0"
-    if (condition.includes('synthesized_insights') && condition.includes('cross_agent_connections') && condition.includes('length')) {
-      return !!(state.synthesized_insights?.cross_agent_connections && 
-                state.synthesized_insights.cross_agent_connections.length > 0);
-    }
-    
-    // Pattern: "synthesized_insights && synthesized_insights.hidden_opportunities && synthesized_insights.hidden_opportunities.length > 0"
-    if (condition.includes('synthesized_insights') && condition.includes('hidden_opportunities') && condition.includes('length')) {
-      return !!(state.synthesized_insights?.hidden_opportunities && 
-                state.synthesized_insights.hidden_opportunities.length > 0);
-    }
-    
-    // Pattern: "synthesized_insights && synthesized_insights.risk_alerts && synthesized_insights.risk_alerts.length > 0" (legacy - now critical_risks)
-    if (condition.includes('synthesized_insights') && condition.includes('risk_alerts') && condition.includes('length') && !condition.includes('some(')) {
-      // V3: risk_alerts renamed to critical_risks
-      return !!(state.synthesized_insights?.critical_risks && 
-                state.synthesized_insights.critical_risks.length > 0);
-    }
-    
-    // Pattern: "synthesized_insights && synthesized_insights.critical_risks && synthesized_insights.critical_risks.length > 0" (v3)
-    if (condition.includes('synthesized_insights') && condition.includes('critical_risks') && condition.includes('length') && !condition.includes('some(')) {
-      return !!(state.synthesized_insights?.critical_risks && 
-                state.synthesized_insights.critical_risks.length > 0);
-    }
-    
-    // Pattern: "synthesized_insights && synthesized_insights.risk_alerts && synthesized_insights.risk_alerts.some(r => r.severity === 'critical')" (legacy)
-    if (condition.includes('synthesized_insights') && condition.includes('risk_alerts') && condition.includes("severity === 'critical'")) {
-      // V3: risk_alerts renamed to critical_risks
-      const criticalRisks = state.synthesized_insights?.critical_risks;
-      if (!criticalRisks || !Array.isArray(criticalRisks)) {
-        return false;
-      }
-      return criticalRisks.some((r: { severity: string }) => r.severity === 'critical');
-    }
-    
-    // Pattern: "synthesized_insights && synthesized_insights.critical_risks && synthesized_insights.critical_risks.some(r => r.severity === 'critical')" (v3)
-    if (condition.includes('synthesized_insights') && condition.includes('critical_risks') && condition.includes("severity === 'critical'")) {
-      const criticalRisks = state.synthesized_insights?.critical_risks;
-      if (!criticalRisks || !Array.isArray(criticalRisks)) {
-        return false;
-      }
-      return criticalRisks.some((r: { severity: string }) => r.severity === 'critical');
-    }
-    
-    // Pattern: "synthesized_insights && synthesized_insights.synthesis_metadata"
-    if (condition.includes('synthesized_insights') && condition.includes('synthesis_metadata')) {
-      return !!(state.synthesized_insights?.synthesis_metadata);
-    }
-    
-    // Pattern: "synthesized_insights && synthesized_insights.details_to_surface" (v3)
-    if (condition.includes('synthesized_insights') && condition.includes('details_to_surface')) {
-      return !!(state.synthesized_insights?.details_to_surface);
-    }
-    
-    // ========================================================================
-    // ROB TRACKING CONDITIONS (P0-5)
-    // ========================================================================
-    // Note: rob_tracking can be either ROBTrackingOutput or enhanced structure
-    // Cast to any for dynamic property access
-    
-    // Pattern: "rob_tracking" - simple check for existence
-    if (condition === 'rob_tracking') {
-      return !!(state.rob_tracking);
-    }
-    
-    // Cast to any for enhanced properties
-    const robTracking = state.rob_tracking as any;
-    
-    // Pattern: "rob_tracking && !rob_tracking.overall_safe"
-    if (condition.includes('rob_tracking') && condition.includes('!rob_tracking.overall_safe')) {
-      return !!(robTracking && !robTracking.overall_safe);
-    }
-    
-    // Pattern: "rob_tracking && rob_tracking.overall_safe"
-    if (condition.includes('rob_tracking') && condition.includes('rob_tracking.overall_safe') && !condition.includes('!')) {
-      return !!(robTracking?.overall_safe);
-    }
-    
-    // Pattern: "rob_tracking && rob_tracking.with_bunker_still_unsafe"
-    if (condition.includes('rob_tracking') && condition.includes('with_bunker_still_unsafe')) {
-      return !!(robTracking?.with_bunker_still_unsafe);
-    }
-    
-    // Pattern: "rob_tracking && rob_tracking.without_bunker"
-    if (condition.includes('rob_tracking') && condition.includes('without_bunker') && !condition.includes('overall_safe')) {
-      return !!(robTracking?.without_bunker);
-    }
-    
-    // Pattern: "rob_tracking && !rob_tracking.without_bunker.overall_safe"
-    if (condition.includes('rob_tracking') && condition.includes('without_bunker') && condition.includes('!') && condition.includes('overall_safe')) {
-      return !!(robTracking?.without_bunker && !robTracking.without_bunker.overall_safe);
-    }
-    
-    // Pattern: "rob_tracking && rob_tracking.without_bunker.overall_safe"
-    if (condition.includes('rob_tracking') && condition.includes('without_bunker') && condition.includes('overall_safe') && !condition.includes('!')) {
-      return !!(robTracking?.without_bunker?.overall_safe);
-    }
-    
-    // Pattern: "rob_tracking && rob_tracking.with_bunker"
-    if (condition.includes('rob_tracking') && condition.includes('with_bunker') && !condition.includes('still_unsafe') && !condition.includes('overall_safe')) {
-      return !!(robTracking?.with_bunker);
-    }
-    
-    // Pattern: "rob_tracking && !rob_tracking.with_bunker.overall_safe"
-    if (condition.includes('rob_tracking') && condition.includes('with_bunker') && condition.includes('!') && condition.includes('overall_safe')) {
-      return !!(robTracking?.with_bunker && !robTracking.with_bunker.overall_safe);
-    }
-    
-    // Pattern: "rob_tracking && rob_tracking.days_until_empty"
-    if (condition.includes('rob_tracking') && condition.includes('days_until_empty')) {
-      return !!(robTracking?.days_until_empty || robTracking?.without_bunker?.days_until_empty);
-    }
-    
-    // ========================================================================
-    // MULTI-BUNKER PLAN CONDITIONS
-    // ========================================================================
-    
-    // Pattern: "multi_bunker_plan && multi_bunker_plan.required && multi_bunker_plan.best_plan"
-    // Note: Check for best_plan first (more specific pattern)
-    if (condition.includes('multi_bunker_plan') && condition.includes('required') && condition.includes('best_plan')) {
-      return !!(state.multi_bunker_plan && state.multi_bunker_plan.required && state.multi_bunker_plan.best_plan);
-    }
-    
-    // Pattern: "multi_bunker_plan && multi_bunker_plan.required"
-    if (condition.includes('multi_bunker_plan') && condition.includes('required')) {
-      return !!(state.multi_bunker_plan && state.multi_bunker_plan.required);
-    }
-    
-    // Pattern: "multi_bunker_plan" (simple existence check)
-    if (condition === 'multi_bunker_plan') {
-      return !!state.multi_bunker_plan;
-    }
-    
-    // Default: false for safety
-    console.warn(`⚠️ [CONDITION] Unknown pattern: ${condition}`);
-    return false;
-    
+    return evaluateConditionExpression(condition, buildConditionScope(state));
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : String(error);
     console.error(`Error evaluating condition: ${condition}`, message);
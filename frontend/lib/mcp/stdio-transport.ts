@@ -0,0 +1,59 @@
+/**
+ * MCP stdio Transport
+ *
+ * Newline-delimited JSON-RPC messages on stdin, responses on stdout. stdout carries only
+ * protocol messages, so console.log is redirected to stderr while serving.
+ *
+ * The stdio server runs as the local user with the application's environment, so the
+ * session is authenticated (tools with requiresAuth are available).
+ */
+
+import { createInterface } from 'readline';
+import type { Readable, Writable } from 'stream';
+import { JSONRPC_ERROR_CODES, type JSONRPCResponse, type MCPSession } from './types';
+import type { ToolRegistryMCPServer } from './tool-registry-mcp-server';
+
+export interface StdioTransportOptions {
+  input?: Readable;
+  output?: Writable;
+  session?: MCPSession;
+}
+
+/**
+ * Serve MCP over stdio until the input closes
+ */
+export async function serveStdio(server: ToolRegistryMCPServer, options: StdioTransportOptions = {}): Promise<void> {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+  const session = options.session ?? { authenticated: true };
+
+  if (output === process.stdout) {
+    console.log = (...args: unknown[]) => console.error(...args);
+  }
+
+  const write = (response: JSONRPCResponse) => {
+    output.write(`${JSON.stringify(response)}\n`);
+  };
+
+  const pending: Promise<void>[] = [];
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+
+    let message: unknown;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      write({ jsonrpc: '2.0', id: null, error: { code: JSONRPC_ERROR_CODES.PARSE_ERROR, message: 'Parse error' } });
+      continue;
+    }
+
+    // Requests run concurrently; each response carries its request id
+    pending.push(
+      server.handleMessage(message, session).then((response) => {
+        if (response) write(response);
+      })
+    );
+  }
+  await Promise.all(pending);
+}
@@ -0,0 +1,298 @@
+/**
+ * Tool Registry MCP Server
+ *
+ * Exposes the Tool Registry over the Model Context Protocol so other agent clients can use
+ * FuelSense tools (calculate_route, find_bunker_ports, fetch_marine_weather, ...).
+ * Transport-agnostic: handleMessage() takes one parsed JSON-RPC message and returns the
+ * response (null for notifications). See stdio-transport.ts and app/api/mcp/route.ts.
+ *
+ * - tools/list: registry tools that are enabled in config/tools/*.yaml (tools without a YAML
+ *   config are enabled), not deprecated, with their input/output JSON schemas
+ * - tools/call: runs the tool through its circuit breaker (shared with the agents) wrapped
+ *   with withMetrics, so calls show up in the registry metrics and health endpoint
+ * - requiresAuth (registry definition or YAML): hidden and refused unless the session is
+ *   authenticated
+ * - Fails closed: until the YAML configs have loaded, tools/list and tools/call return an error
+ *   rather than exposing tools whose enabled/requiresAuth settings are unknown
+ */
+
+import { ToolRegistry } from '@/lib/registry/tool-registry';
+import { withMetrics } from '@/lib/registry/tool-execution-wrapper';
+import { registerAllTools } from '@/lib/registry/tools';
+import { getConfigManager } from '@/lib/config/config-manager';
+import { loadConfigurations } from '@/lib/config/registry-loader';
+import {
+  createToolCircuitBreaker,
+  getToolCircuitBreaker,
+  type ToolType,
+} from '@/lib/resilience/circuit-breaker';
+import type { ToolCategory, ToolDefinition, ToolFunction } from '@/lib/types/tool-registry';
+import {
+  JSONRPC_ERROR_CODES,
+  type JSONRPCId,
+  type JSONRPCResponse,
+  type MCPCallToolResult,
+  type MCPSession,
+  type MCPTool,
+} from './types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LOG_PREFIX = '🔌 [MCP-SERVER]';
+
+/** Newest first; the server answers initialize with the client's version when supported */
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+const SERVER_INFO = { name: 'fuelsense-tools', title: 'FuelSense 360 Tools', version: '1.0.0' };
+
+/** Circuit breaker fallback type by tool category (get_fuel_prices is 'price', as in the agents) */
+const BREAKER_TYPES: Record<ToolCategory, ToolType> = {
+  routing: 'route',
+  weather: 'weather',
+  bunker: 'analysis',
+  compliance: 'analysis',
+  vessel: 'vessel',
+  calculation: 'analysis',
+  validation: 'analysis',
+};
+const BREAKER_TYPE_OVERRIDES: Record<string, ToolType> = { get_fuel_prices: 'price' };
+
+class MCPError extends Error {
+  constructor(public readonly code: number, message: string) {
+    super(message);
+    this.name = 'MCPError';
+  }
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+export class ToolRegistryMCPServer {
+  private executors = new Map<string, ToolFunction>();
+
+  /**
+   * @param registry - Tool registry to expose (default: the global registry)
+   */
+  constructor(private readonly registry: ToolRegistry = ToolRegistry.getInstance()) {}
+
+  /**
+   * Handle one JSON-RPC message
+   *
+   * @returns The response, or null for notifications
+   */
+  async handleMessage(message: unknown, session: MCPSession): Promise<JSONRPCResponse | null> {
+    if (!isRecord(message) || message.jsonrpc !== '2.0' || typeof message.method !== 'string') {
+      // Client responses (we send no requests) are ignored; anything else is malformed
+      if (isRecord(message) && message.jsonrpc === '2.0' && ('result' in message || 'error' in message)) return null;
+      return errorResponse(requestId(message), JSONRPC_ERROR_CODES.INVALID_REQUEST, 'Invalid JSON-RPC request');
+    }
+
+    const id = requestId(message);
+    if (!('id' in message) || id === null) {
+      // Notification (notifications/initialized, notifications/cancelled, ...)
+      return null;
+    }
+
+    const params = isRecord(message.params) ? message.params : {};
+    try {
+      const result = await this.dispatch(message.method, params, session);
+      return { jsonrpc: '2.0', id, result };
+    } catch (error) {
+      if (error instanceof MCPError) {
+        return errorResponse(id, error.code, error.message);
+      }
+      console.error(`${LOG_PREFIX} ${message.method} failed:`, error);
+      return errorResponse(id, JSONRPC_ERROR_CODES.INTERNAL_ERROR, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Tools the session may see
+   */
+  listTools(session: MCPSession): MCPTool[] {
+    return this.getAvailableTools(session).map((tool) => ({
+      name: tool.id,
+      title: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+      outputSchema: tool.outputSchema,
+    }));
+  }
+
+  /**
+   * Run a tool; execution failures are returned as isError results
+   */
+  async callTool(name: string, args: Record<string, unknown>, session: MCPSession): Promise<MCPCallToolResult> {
+    const tool = this.registry.getById(name);
+    if (!tool || !this.isEnabled(tool)) {
+      throw new MCPError(JSONRPC_ERROR_CODES.INVALID_PARAMS, `Unknown tool: ${name}`);
+    }
+    if (this.requiresAuth(tool) && !session.authenticated) {
+      throw new MCPError(JSONRPC_ERROR_CODES.UNAUTHORIZED, `Tool ${name} requires authentication`);
+    }
+
+    const missing = tool.inputSchema.required.filter((field) => args[field] === undefined);
+    if (missing.length > 0) {
+      return toolError(`Missing required argument(s): ${missing.join(', ')}`);
+    }
+
+    console.log(`${LOG_PREFIX} Calling ${name}`);
+    try {
+      const result = await this.getExecutor(tool)(args);
+      // Circuit breaker fallbacks return { error } instead of throwing
+      if (isRecord(result) && typeof result.error === 'string' && result.success !== true) {
+        return toolError(result.error);
+      }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result) }],
+        ...(isRecord(result) && { structuredContent: result }),
+      };
+    } catch (error) {
+      console.error(`${LOG_PREFIX} ${name} failed:`, error instanceof Error ? error.message : error);
+      return toolError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // ==========================================================================
+  // Internals
+  // ==========================================================================
+
+  private async dispatch(
+    method: string,
+    params: Record<string, unknown>,
+    session: MCPSession
+  ): Promise<Record<string, unknown>> {
+    switch (method) {
+      case 'initialize': {
+        const requested = typeof params.protocolVersion === 'string' ? params.protocolVersion : undefined;
+        return {
+          protocolVersion:
+            requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested) ? requested : SUPPORTED_PROTOCOL_VERSIONS[0],
+          capabilities: { tools: { listChanged: false } },
+          serverInfo: SERVER_INFO,
+          instructions:
+            'FuelSense 360 maritime tools: routes, weather, bunker ports, fuel prices and bunker analysis. ' +
+            'Port codes are UN/LOCODEs (e.g. SGSIN, NLRTM).',
+        };
+      }
+      case 'ping':
+        return {};
+      case 'tools/list':
+        this.assertConfigsLoaded();
+        // Every tool fits in one page
+        return { tools: this.listTools(session) };
+      case 'tools/call': {
+        this.assertConfigsLoaded();
+        if (typeof params.name !== 'string') {
+          throw new MCPError(JSONRPC_ERROR_CODES.INVALID_PARAMS, 'tools/call requires a tool name');
+        }
+        const args = isRecord(params.arguments) ? params.arguments : {};
+        return this.callTool(params.name, args, session);
+      }
+      default:
+        throw new MCPError(JSONRPC_ERROR_CODES.METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private assertConfigsLoaded(): void {
+    if (!getConfigManager().isLoaded()) {
+      throw new MCPError(JSONRPC_ERROR_CODES.INTERNAL_ERROR, 'Tool configurations are not loaded; try again later');
+    }
+  }
+
+  private getAvailableTools(session: MCPSession): ToolDefinition[] {
+    return this.registry
+      .getAll()
+      .filter((tool) => this.isEnabled(tool) && (session.authenticated || !this.requiresAuth(tool)));
+  }
+
+  private isEnabled(tool: ToolDefinition): boolean {
+    return !tool.deprecated && getConfigManager().getToolConfig(tool.id)?.enabled !== false;
+  }
+
+  private requiresAuth(tool: ToolDefinition): boolean {
+    return tool.requiresAuth || getConfigManager().getToolConfig(tool.id)?.requiresAuth === true;
+  }
+
+  /**
+   * withMetrics(circuit breaker(tool)); reuses the breaker the agents created for the tool
+   */
+  private getExecutor(tool: ToolDefinition): ToolFunction {
+    let executor = this.executors.get(tool.id);
+    if (!executor) {
+      const breaker =
+        getToolCircuitBreaker(tool.id) ??
+        createToolCircuitBreaker(
+          tool.id,
+          (input) => tool.implementation(input),
+          BREAKER_TYPE_OVERRIDES[tool.id] ?? BREAKER_TYPES[tool.category]
+        );
+      executor = withMetrics(tool.id, (input) => breaker.fire(input));
+      this.executors.set(tool.id, executor);
+    }
+    return executor;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requestId(message: unknown): JSONRPCId | null {
+  const id = isRecord(message) ? message.id : undefined;
+  return typeof id === 'string' || typeof id === 'number' ? id : null;
+}
+
+function errorResponse(id: JSONRPCId | null, code: number, message: string): JSONRPCResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+function toolError(message: string): MCPCallToolResult {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+// ============================================================================
+// Singleton Instance
+// ============================================================================
+
+let serverInstance: ToolRegistryMCPServer | null = null;
+let initialization: Promise<void> | null = null;
+
+/**
+ * Load YAML configs and register the tools once per process (as the chat API does on its
+ * first request), then return the shared server. Configs that failed to load are retried on
+ * the next call; until then the server refuses tools/list and tools/call.
+ */
+export async function getToolRegistryMCPServer(): Promise<ToolRegistryMCPServer> {
+  if (!getConfigManager().isLoaded()) {
+    try {
+      await loadConfigurations();
+    } catch (error) {
+      console.error(`${LOG_PREFIX} Failed to load configurations; tools are unavailable:`, error);
+    }
+  }
+  if (!initialization) {
+    initialization = (async () => {
+      if (ToolRegistry.getInstance().getCount() === 0) {
+        registerAllTools();
+      }
+    })();
+    // Retry on the next call rather than caching a failed registration
+    initialization.catch(() => {
+      initialization = null;
+    });
+  }
+  await initialization;
+
+  if (!serverInstance) {
+    serverInstance = new ToolRegistryMCPServer();
+  }
+  return serverInstance;
+}
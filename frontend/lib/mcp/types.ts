@@ -0,0 +1,94 @@
+/**
+ * Model Context Protocol Types
+ *
+ * The JSON-RPC 2.0 messages and MCP tool shapes used by the tool registry MCP server
+ * (initialize, ping, tools/list, tools/call). See https://modelcontextprotocol.io/specification
+ */
+
+import type { JSONSchema } from '@/lib/types/tool-registry';
+
+// ============================================================================
+// JSON-RPC 2.0
+// ============================================================================
+
+export type JSONRPCId = string | number;
+
+export interface JSONRPCRequest {
+  jsonrpc: '2.0';
+  id: JSONRPCId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/** A request without an id; never answered */
+export interface JSONRPCNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JSONRPCSuccessResponse {
+  jsonrpc: '2.0';
+  id: JSONRPCId;
+  result: Record<string, unknown>;
+}
+
+export interface JSONRPCErrorResponse {
+  jsonrpc: '2.0';
+  id: JSONRPCId | null;
+  error: {
+    code: number;
+    message: string;
+    data?: unknown;
+  };
+}
+
+export type JSONRPCResponse = JSONRPCSuccessResponse | JSONRPCErrorResponse;
+
+/** Standard JSON-RPC error codes, plus the server-defined range used for auth */
+export const JSONRPC_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  UNAUTHORIZED: -32001,
+} as const;
+
+// ============================================================================
+// MCP
+// ============================================================================
+
+/**
+ * Who is on the other end of a transport
+ */
+export interface MCPSession {
+  /** Whether the client may list and call tools with requiresAuth */
+  authenticated: boolean;
+}
+
+/**
+ * A tool as listed by tools/list
+ */
+export interface MCPTool {
+  name: string;
+  title?: string;
+  description: string;
+  inputSchema: JSONSchema;
+  outputSchema?: JSONSchema;
+}
+
+export interface MCPTextContent {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * tools/call result; tool failures are results with isError, not JSON-RPC errors
+ */
+export interface MCPCallToolResult {
+  content: MCPTextContent[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+  [key: string]: unknown;
+}
@@ -47,20 +47,30 @@ import { isFallbackResponse } from '@/lib/resilience/fallback-strategies';
 import { planBasedSupervisor } from '@/lib/orchestration/plan-based-supervisor';
 
 // Import tool execute functions
-import { executeRouteCalculatorTool } from '@/lib/tools/route-calculator';
+import {
+  executeRouteCalculatorTool,
+  calculateRouteAlternatives,
+  calculateItineraryRoute,
+  type RouteCalculatorOutput,
+} from '@/lib/tools/route-calculator';
 import { executeWeatherTimelineTool } from '@/lib/tools/weather-timeline';
 import { executeMarineWeatherTool } from '@/lib/tools/marine-weather';
 import { executeWeatherConsumptionTool } from '@/lib/tools/weather-consumption';
 import { executePortWeatherTool } from '@/lib/tools/port-weather';
 import { executePortFinderTool } from '@/lib/tools/port-finder';
 import { executePriceFetcherTool } from '@/lib/tools/price-fetcher';
-import { executeBunkerAnalyzerTool } from '@/lib/tools/bunker-analyzer';
+import { executeBunkerAnalyzerTool, type BunkerRecommendation } from '@/lib/tools/bunker-analyzer';
 import { complianceAgentNode } from './compliance-agent-node';
 import {
   calculateROBForVoyage,
   formatROBSafetyStatus,
   type VesselROBProfile,
 } from './helpers/rob-calculator';
+import { estimatePortArrivalDates } from './helpers/port-eta';
+import { fetchBunkerPortCapabilities } from './helpers/port-capabilities';
+import { optimizeVoyageSpeed } from './helpers/speed-optimization';
+import { planJitArrivalForRoute } from './helpers/jit-arrival';
+import { estimateVoyage, findVoyageRevenue, formatVoyageEstimate } from './helpers/voyage-estimate';
 import {
   getVesselProfile,
   getDefaultVesselProfile,
@@ -76,6 +86,15 @@ import type { ECAConsumptionOutput, RouteSegment as ECARouteSegment } from '@/li
 import type { ROBTrackingOutput } from '@/lib/engines/rob-tracking-engine';
 import type { ECAZoneValidatorOutput } from '@/lib/tools/eca-zone-validator';
 import { planMultiPortBunker, needsMultiPortBunkering } from '@/lib/engines/multi-port-bunker-planner';
+import { capacityValidationEngine } from '@/lib/engines/capacity-validation-engine';
+import { safetyMarginEngine } from '@/lib/engines/safety-margin-engine';
+import { routeComparisonEngine, type RouteComparisonResult } from '@/lib/engines/route-comparison-engine';
+import { euEtsEngine } from '@/lib/engines/eu-ets-engine';
+import { scrubberEconomicsEngine, type ScrubberComparison } from '@/lib/engines/scrubber-economics-engine';
+import { dualFuelEconomicsEngine, type DualFuelComparison } from '@/lib/engines/dual-fuel-economics-engine';
+import { noonReportValidationEngine, type NoonReportDataQuality } from '@/lib/engines/noon-report-validation-engine';
+import { speedOptimizerEngine, type SpeedOptimizationResult } from '@/lib/engines/speed-optimizer-engine';
+import { jitArrivalEngine, type JitArrivalPlan } from '@/lib/engines/jit-arrival-engine';
 import type { MultiBunkerAnalysis } from './state';
 import { formatResponse, formatMapOverlays } from '../formatters/response-formatter';
 import { render as templateRender } from '../formatters/template-renderer';
@@ -100,16 +119,20 @@ import type {
   BunkerRequirement,
   FleetComparisonParams,
   RelaxedConstraints,
+  StemNomination,
   VesselComparison,
   VesselContext,
   VoyageTarget,
 } from '@/lib/types/bunker';
 import { interrupt, isGraphInterrupt } from '@langchain/langgraph';
 import { bunkerDataService } from '@/lib/services/bunker-data-service';
+import { supplierQuoteService } from '@/lib/services/supplier-quote-service';
 import { resolveVesselIdentifier } from '@/lib/services/vessel-identifier-service';
-import { getRobFromDatalogs } from '@/lib/services/rob-from-datalogs-service';
+import { getValidatedRobFromDatalogs } from '@/lib/services/rob-from-datalogs-service';
 import {
   buildVesselSpecsFromPerformance,
+  getDualFuelCapabilityDefault,
+  getScrubberFitmentDefault,
   getTankCapacityDefault,
 } from '@/lib/services/vessel-specs-from-performance';
 import { getConfigManager } from '@/lib/config/config-manager';
@@ -119,6 +142,10 @@ import type { PriceFetcherOutput, PriceData } from '@/lib/tools/price-fetcher';
 import { calculateBunkerRequirement } from '@/lib/engines/rob-calculator';
 import { compareVesselsForVoyage } from '@/lib/engines/fleet-optimizer';
 import { extractBunkerConstraints } from '@/lib/utils/constraint-extractor';
+import { extractRouteConstraints } from '@/lib/utils/route-constraint-extractor';
+import { extractItinerary, type ExtractedPortCall } from '@/lib/utils/itinerary-extractor';
+import type { ItineraryPortCall, ItineraryRouteLeg, VoyageItinerary } from '@/lib/types/itinerary';
+import { voyageItineraryEngine } from '@/lib/engines/voyage-itinerary-engine';
 import {
   validatePortAgainstConstraints,
   rankByConstraintMatch,
@@ -1114,9 +1141,11 @@ export async function supervisorAgentNode(
           destination: executionPlan.resolved_codes.destination,
           origin_coordinates: executionPlan.resolved_codes.origin_coordinates,
           destination_coordinates: executionPlan.resolved_codes.destination_coordinates,
+          via: executionPlan.extracted_entities?.via_ports,
         } : executionPlan.extracted_entities ? {
           origin: executionPlan.extracted_entities.origin,
           destination: executionPlan.extracted_entities.destination,
+          via: executionPlan.extracted_entities.via_ports,
         } : undefined,
         vessel_speed: executionPlan.extracted_entities?.vessel_speed,
         departure_date: executionPlan.extracted_entities?.departure_date,
@@ -2170,6 +2199,110 @@ async function extractVesselNameFromQuery(query: string): Promise<string | null>
   return null;
 }
 
+/**
+ * Resolve a multi-port itinerary (3+ calls) for the route agent: state.itinerary, else
+ * next_voyage_details.port_calls, else calls from the query ("A → B → C", "via B") or
+ * supervisor port overrides with via ports. Port names are resolved to codes and coordinates;
+ * intermediate calls without a stay get the default for their purpose. Intermediate calls that
+ * cannot be resolved are dropped with a warning.
+ *
+ * @returns null for a single origin → destination voyage, including when an endpoint or every
+ *   intermediate call cannot be resolved (the route agent then routes origin → destination)
+ */
+async function resolveVoyageItinerary(
+  state: MultiAgentState,
+  userQuery: string
+): Promise<VoyageItinerary | null> {
+  if (state.itinerary && state.itinerary.port_calls.length > 2) {
+    return voyageItineraryEngine.applyDefaultPortStays(state.itinerary);
+  }
+
+  const routeContext = state.agent_context?.route_agent;
+  const overrides = routeContext?.port_overrides ?? state.port_overrides;
+  let calls: Array<ExtractedPortCall & Pick<ItineraryPortCall, 'port_name' | 'coordinates'>>;
+
+  const voyageCalls = state.next_voyage_details?.port_calls;
+  if (voyageCalls && voyageCalls.length > 2) {
+    calls = voyageCalls.map(({ port_code, ...call }) => ({ ...call, port: port_code }));
+  } else {
+    const extracted = extractItinerary(userQuery);
+    const aiParams = state.routing_metadata?.extracted_params;
+    const originName =
+      (typeof aiParams?.origin_port === 'string' ? aiParams.origin_port : undefined) ?? overrides?.origin;
+    const destName =
+      (typeof aiParams?.destination_port === 'string' ? aiParams.destination_port : undefined) ?? overrides?.destination;
+    const via = extracted?.via ?? overrides?.via?.map((port) => ({ port })) ?? [];
+    const origin = extracted?.origin ?? (originName ? { port: originName } : undefined);
+    const destination = extracted?.destination ?? (destName ? { port: destName } : undefined);
+    if (!origin || !destination || via.length === 0) return null;
+
+    // Override coordinates belong to the endpoints they were resolved for
+    calls = [
+      { ...origin, coordinates: origin.port === overrides?.origin ? overrides.origin_coordinates : undefined },
+      ...via,
+      { ...destination, coordinates: destination.port === overrides?.destination ? overrides.destination_coordinates : undefined },
+    ];
+  }
+
+  const { ServiceContainer } = await import('@/lib/repositories/service-container');
+  const portResolutionService = ServiceContainer.getInstance().getPortResolutionService();
+  const portCalls: ItineraryPortCall[] = [];
+  for (const [i, { port, ...call }] of calls.entries()) {
+    const resolved = call.coordinates ? null : await portResolutionService.resolvePort(port);
+    if (!call.coordinates && !resolved) {
+      if (i === 0 || i === calls.length - 1) {
+        console.warn(`⚠️ [ROUTE-WORKFLOW] Could not resolve itinerary endpoint "${port}"; routing origin → destination`);
+        return null;
+      }
+      console.warn(`⚠️ [ROUTE-WORKFLOW] Could not resolve port call "${port}"; dropping it from the itinerary`);
+      continue;
+    }
+    portCalls.push({
+      ...call,
+      port_code: resolved?.code ?? port,
+      port_name: call.port_name ?? resolved?.name ?? port,
+      coordinates: call.coordinates ?? resolved?.coordinates,
+    });
+  }
+  if (portCalls.length < 3) return null;
+
+  const departureDate = routeContext?.departure_date ?? state.next_voyage_details?.departure_date;
+  return voyageItineraryEngine.applyDefaultPortStays({
+    port_calls: portCalls,
+    ...(departureDate && { departure_date: departureDate }),
+    speed_knots: routeContext?.vessel_speed ?? state.next_voyage_details?.speed ?? 14,
+  });
+}
+
+/**
+ * Port codes of every call of a multi-port itinerary route (undefined for single-leg routes)
+ */
+function getItineraryPortCallCodes(route: MultiAgentState['route_data']): string[] | undefined {
+  const legs = route?.legs;
+  if (!legs?.length) return undefined;
+  return [legs[0].from_port_code, ...legs.map((leg) => leg.to_port_code)];
+}
+
+/**
+ * Shift timeline positions by the port stays before them: positions after a call's
+ * waypoint are reached only after the vessel leaves that call.
+ */
+function applyPortStaysToTimeline(
+  timeline: NonNullable<MultiAgentState['vessel_timeline']>,
+  legs: ItineraryRouteLeg[]
+): NonNullable<MultiAgentState['vessel_timeline']> {
+  return timeline.map((position) => {
+    const stayHours = legs
+      .filter((leg) => leg.end_waypoint_index <= position.segment_index)
+      .reduce((sum, leg) => sum + (leg.port_stay_hours ?? 0), 0);
+    if (stayHours === 0) return position;
+    return {
+      ...position,
+      datetime: new Date(new Date(position.datetime).getTime() + stayHours * 3600000).toISOString(),
+    };
+  });
+}
+
 /**
  * Route Agent Node - DETERMINISTIC WORKFLOW (No LLM)
  * 
@@ -2203,10 +2336,34 @@ export async function routeAgentNode(
     }
     
     // ========================================================================
-    // STEP 1: Calculate Route (if missing)
+    // STEP 1: Calculate Route (if missing) - whole itinerary for multi-port voyages
     // ========================================================================
     
-    if (!state.route_data) {
+    const queryText = state.messages.find(msg => msg instanceof HumanMessage)?.content?.toString() || '';
+    const itinerary = state.route_data ? null : await resolveVoyageItinerary(state, queryText);
+    
+    if (itinerary) {
+      console.log(`🧭 [ROUTE-WORKFLOW] Multi-port itinerary: ${itinerary.port_calls.map((call) => call.port_code).join(' → ')}`);
+      const routeConstraints = extractRouteConstraints(queryText);
+      const itineraryInput = {
+        port_calls: itinerary.port_calls,
+        vessel_speed_knots: itinerary.speed_knots ?? 14,
+        ...(itinerary.departure_date && { departure_date: new Date(itinerary.departure_date).toISOString() }),
+        ...(routeConstraints.avoid.length > 0 && { avoid_passages: routeConstraints.avoid }),
+      };
+      
+      const t0Itinerary = Date.now();
+      logToolCall('calculate_route', extractCorrelationId(state), sanitizeToolInput(itineraryInput), undefined, 0, 'started');
+      try {
+        const routeResult = await calculateItineraryRoute(itineraryInput);
+        logToolCall('calculate_route', extractCorrelationId(state), sanitizeToolInput(itineraryInput), sanitizeToolOutput(routeResult), Date.now() - t0Itinerary, 'success');
+        console.log(`✅ [ROUTE-WORKFLOW] Itinerary route calculated: ${routeResult.legs?.length ?? 0} legs, ${routeResult.distance_nm.toFixed(0)} nm`);
+        state = { ...state, route_data: routeResult, itinerary };
+      } catch (error) {
+        logToolCall('calculate_route', extractCorrelationId(state), sanitizeToolInput(itineraryInput), { error: error instanceof Error ? error.message : String(error) }, Date.now() - t0Itinerary, 'failed');
+        throw error;
+      }
+    } else if (!state.route_data) {
       console.log('📍 [ROUTE-WORKFLOW] Route data missing - calculating route...');
       
       let origin: string | undefined;
@@ -2361,6 +2518,12 @@ export async function routeAgentNode(
         // Continue with route calculation even if validation fails
       }
       
+      // Route constraints from the query ("avoid the Red Sea", "Suez vs Cape of Good Hope")
+      const routeConstraints = extractRouteConstraints(userQuery);
+      if (routeConstraints.avoid.length > 0) {
+        console.log(`🚫 [ROUTE-WORKFLOW] Avoiding: ${routeConstraints.avoid.join(', ')}`);
+      }
+      
       // Try primary API, with fallback to cached routes
       const routeInput = { 
         origin_port_code: origin, 
@@ -2368,6 +2531,7 @@ export async function routeAgentNode(
         vessel_speed_knots: 14,
         origin_coordinates: originCoords,
         destination_coordinates: destCoords,
+        ...(routeConstraints.avoid.length > 0 && { avoid_passages: routeConstraints.avoid }),
       };
       
       // Log coordinate availability (SeaRoute API prefers coordinates for reliable routing)
@@ -2378,7 +2542,17 @@ export async function routeAgentNode(
       const t0Route = Date.now();
       logToolCall('calculate_route', extractCorrelationId(state), sanitizeToolInput(routeInput), undefined, 0, 'started');
       try {
-        const routeResult = await executeRouteCalculatorTool(routeInput);
+        // Route alternatives when comparing (route_data is the selected one, else the shortest)
+        let routeAlternatives: RouteCalculatorOutput[] | null = null;
+        let routeResult: RouteCalculatorOutput;
+        if (routeConstraints.compare_alternatives) {
+          routeAlternatives = await calculateRouteAlternatives(routeInput);
+          routeResult =
+            routeAlternatives.find((alt) => alt.route_id === state.selected_route_id) ?? routeAlternatives[0];
+          console.log(`🔀 [ROUTE-WORKFLOW] ${routeAlternatives.length} route alternative(s): ${routeAlternatives.map((alt) => alt.route_type).join(', ')}`);
+        } else {
+          routeResult = await executeRouteCalculatorTool(routeInput);
+        }
         logToolCall('calculate_route', extractCorrelationId(state), sanitizeToolInput(routeInput), sanitizeToolOutput(routeResult), Date.now() - t0Route, 'success');
         console.log(`✅ [ROUTE-WORKFLOW] Route calculated: ${routeResult.distance_nm} nm`);
         
@@ -2409,6 +2583,7 @@ export async function routeAgentNode(
         state = {
           ...state,
           route_data: routeResult,
+          route_alternatives: routeAlternatives,
         };
         
         // Stream route data to frontend
@@ -2457,17 +2632,24 @@ export async function routeAgentNode(
       const userMessage = state.messages.find(msg => msg instanceof HumanMessage);
       const userQuery = userMessage?.content?.toString() || '';
       const dateMatch = userQuery.match(/(?:december|dec)\s+(\d+)/i);
-      const departureTime = dateMatch 
+      const departureTime = state.itinerary?.departure_date
+        ? new Date(state.itinerary.departure_date).toISOString()
+        : dateMatch 
         ? `2024-12-${dateMatch[1].padStart(2, '0')}T08:00:00Z`
         : new Date().toISOString();
       
-      const timelineInput = { waypoints: state.route_data.waypoints, vessel_speed_knots: 14, departure_datetime: departureTime, sampling_interval_hours: 12 };
+      const timelineInput = { waypoints: state.route_data.waypoints, vessel_speed_knots: state.itinerary?.speed_knots ?? 14, departure_datetime: departureTime, sampling_interval_hours: 12 };
       const t0Timeline = Date.now();
       logToolCall('calculate_weather_timeline', extractCorrelationId(state), sanitizeToolInput(timelineInput), undefined, 0, 'started');
-      const timelineResult = await executeWeatherTimelineTool(timelineInput);
+      let timelineResult = await executeWeatherTimelineTool(timelineInput);
       logToolCall('calculate_weather_timeline', extractCorrelationId(state), sanitizeToolInput(timelineInput), sanitizeToolOutput(timelineResult), Date.now() - t0Timeline, 'success');
       console.log(`✅ [ROUTE-WORKFLOW] Timeline calculated: ${timelineResult.length} positions`);
       
+      // Multi-port itinerary: time in port delays every position after the call
+      if (state.route_data.legs?.length) {
+        timelineResult = applyPortStaysToTimeline(timelineResult, state.route_data.legs);
+      }
+      
       // Update state with timeline
       state = {
         ...state,
@@ -2477,6 +2659,36 @@ export async function routeAgentNode(
       console.log('✅ [ROUTE-WORKFLOW] Vessel timeline already exists - skipping calculation');
     }
     
+    // ========================================================================
+    // JIT ARRIVAL - berth window at destination: recommended speed and departure
+    // ========================================================================
+    
+    let jitArrivalPlan: JitArrivalPlan | null = null;
+    try {
+      const userQuery = state.messages.find((msg) => msg instanceof HumanMessage)?.content?.toString() ?? '';
+      jitArrivalPlan = await planJitArrivalForRoute(state, userQuery);
+    } catch (error) {
+      console.warn(
+        '⚠️ [ROUTE-WORKFLOW] JIT arrival planning failed:',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    if (jitArrivalPlan && state.route_data && state.vessel_timeline?.length) {
+      console.log(
+        `⏱️ [ROUTE-WORKFLOW] JIT arrival: ${jitArrivalPlan.recommended.speed_knots.toFixed(1)} kn, ` +
+          `saves ${jitArrivalPlan.fuel_saved_mt.toFixed(1)} MT vs waiting at anchor`
+      );
+      // Timeline follows the recommended departure and speed
+      let jitTimeline = jitArrivalEngine.retimeTimeline(state.vessel_timeline, jitArrivalPlan, state.route_data.distance_nm);
+      if (state.route_data.legs?.length) {
+        jitTimeline = applyPortStaysToTimeline(jitTimeline, state.route_data.legs);
+      }
+      state = {
+        ...state,
+        vessel_timeline: jitTimeline,
+      };
+    }
+    
     // ========================================================================
     // SUCCESS - Mark agent as complete
     // ========================================================================
@@ -2495,7 +2707,10 @@ export async function routeAgentNode(
     
     return {
       route_data: state.route_data,
+      route_alternatives: state.route_alternatives,
+      itinerary: state.itinerary,
       vessel_timeline: state.vessel_timeline,
+      ...(jitArrivalPlan && { jit_arrival_plan: jitArrivalPlan }),
       agent_status: { 
         ...(state.agent_status || {}), 
         route_agent: 'success' 
@@ -2508,6 +2723,7 @@ export async function routeAgentNode(
           additional_kwargs: {
             route_update: state.route_data,
             timeline_update: state.vessel_timeline,
+            ...(jitArrivalPlan && { jit_arrival_update: jitArrivalPlan }),
           }
         })
       ],
@@ -2825,10 +3041,11 @@ export async function weatherAgentNode(
       const baseConsumptionMt = (vesselSpecs.fuel_capacity_mt.VLSFO || 650) * 0.5; // Rough estimate
       
       const consumptionInput = {
-        weather_data: state.weather_forecast.map((w: any) => ({ datetime: w.datetime || w.position?.datetime, weather: w.weather || w.position?.weather })),
+        weather_data: state.weather_forecast.map((w: any) => ({ datetime: w.datetime || w.position?.datetime, weather: w.weather || w.position?.weather, position: w.position?.lat != null ? { lat: w.position.lat, lon: w.position.lon } : undefined })),
         base_consumption_mt: baseConsumptionMt,
         vessel_heading_deg: 90,
         fuel_type_breakdown: vesselSpecs.fuel_capacity_mt,
+        vessel_timeline: state.vessel_timeline ?? undefined,
       };
       const t0Consumption = Date.now();
       logToolCall('calculate_weather_consumption', extractCorrelationId(state), sanitizeToolInput(consumptionInput), undefined, 0, 'started');
@@ -3452,10 +3669,27 @@ async function handleVesselSpecific(state: MultiAgentState): Promise<Partial<Mul
     }
   }
 
+  // Scrubber fitment: from vessel specs API, else data policy (scrubber_fitment by IMO)
+  const scrubber = vesselSpecs.scrubber ?? getScrubberFitmentDefault(imo, policy);
+  // LNG dual-fuel engine: from vessel specs API, else data policy (dual_fuel_vessels by IMO)
+  const dualFuel = vesselSpecs.dual_fuel ?? getDualFuelCapabilityDefault(imo, policy);
+
   // ROB: from datalogs when policy says rob_source datalogs, else bunker API
-  let currentROB: { totalROB: number; vesselId: string; timestamp: string; robVLSFO?: number; robLSMGO?: number; robMGO?: number };
+  let currentROB: {
+    totalROB: number;
+    vesselId: string;
+    timestamp: string;
+    robVLSFO?: number;
+    robLSMGO?: number;
+    robMGO?: number;
+    robHSFO?: number;
+    robLNG?: number;
+  };
+  // Data quality of the noon reports behind the datalogs ROB (latest report excluded when inconsistent)
+  let robDataQuality: NoonReportDataQuality | null = null;
   if (policy?.rob_source === 'datalogs') {
-    const datalogsRob = await getRobFromDatalogs(imo, policy);
+    const { rob: datalogsRob, data_quality } = await getValidatedRobFromDatalogs(imo, policy);
+    robDataQuality = data_quality;
     if (datalogsRob) {
       const totalROB = Object.values(datalogsRob).reduce((a, b) => a + b, 0);
       currentROB = {
@@ -3465,6 +3699,8 @@ async function handleVesselSpecific(state: MultiAgentState): Promise<Partial<Mul
         robVLSFO: datalogsRob.VLSFO,
         robLSMGO: datalogsRob.LSMGO,
         robMGO: datalogsRob.MDO,
+        robHSFO: datalogsRob.HSFO,
+        robLNG: datalogsRob.LNG,
       };
     } else {
       currentROB = { vesselId: imo, timestamp: new Date().toISOString(), totalROB: 0 };
@@ -3494,18 +3730,98 @@ async function handleVesselSpecific(state: MultiAgentState): Promise<Partial<Mul
     }
   }
 
+  const portFinderInput = {
+    route_waypoints: waypoints,
+    max_deviation_nm: 150,
+    port_call_codes: getItineraryPortCallCodes(route),
+  };
+  const bunkerPortsResult = await withTimeout(
+    executePortFinderTool(portFinderInput),
+    TIMEOUTS.PORT_FINDER,
+    'Port finder timed out'
+  );
+  const portsArray = Array.isArray(bunkerPortsResult)
+    ? bunkerPortsResult
+    : (bunkerPortsResult?.ports ?? []);
+
+  const requiredFuelType = 'VLSFO';
+  const compatiblePorts = portsArray.filter((p: any) => {
+    const fuels = p.port?.fuel_capabilities ?? p.port?.fuelsAvailable ?? [];
+    return fuels.some((f: string) => f.toUpperCase().includes(requiredFuelType) || f === requiredFuelType);
+  });
+  const portsToUse = compatiblePorts.length > 0 ? compatiblePorts : portsArray;
+
+  const portCodesOrNames = portsToUse
+    .map((p: any) =>
+      (p.port?.port_code && String(p.port.port_code).trim()) ||
+      (p.port?.name && String(p.port.name).trim()) ||
+      p.port?.port_code ||
+      p.port?.name ||
+      ''
+    )
+    .filter(Boolean);
+  const fuelTypes = [
+    requiredFuelType,
+    ...(scrubber.fitted ? ['HSFO'] : []),
+    ...(dualFuel.capable ? ['LNG'] : []),
+  ];
+  const pricings = portsToUse.length > 0 ? await bunkerDataService.fetchBunkerPricing(portCodesOrNames, fuelTypes) : [];
+  const port_prices = bunkerPricingToPriceFetcherOutput(pricings);
+  const averagePrice = (grade: string) => {
+    const quotes = pricings.filter((p) => p.fuelType === grade && p.pricePerMT > 0).map((p) => p.pricePerMT);
+    return quotes.length > 0 ? quotes.reduce((a, b) => a + b, 0) / quotes.length : 0;
+  };
+
   const weatherFactor =
     state.weather_consumption?.consumption_increase_percent != null
       ? 1 + state.weather_consumption.consumption_increase_percent / 100
       : 1.1;
+
+  // Speed optimisation: the cost-minimising speed profile replaces the planned speed for voyage time,
+  // consumption, ROB and bunker quantity
+  let speedOptimization: SpeedOptimizationResult | null = null;
+  if (getConfigManager().isFeatureEnabled('enable_speed_optimization')) {
+    const userMessage = state.messages?.find((m) => m instanceof HumanMessage);
+    speedOptimization = await optimizeVoyageSpeed({
+      imo,
+      load_condition: bunkerLoadCondition ?? state.bunker_analysis_load_condition ?? 'laden',
+      waypoints,
+      origin_port_code: route.origin_port_code,
+      destination_port_code: route.destination_port_code,
+      reference_speed_knots: speedKnots,
+      reference_consumption_mt_per_day: vesselSpecs.consumptionRate,
+      weather_factor: weatherFactor,
+      prices: { VLSFO: averagePrice(requiredFuelType) },
+      departure_date: departureDateRaw ?? state.itinerary?.departure_date,
+      required_arrival_date:
+        state.next_voyage_details?.required_arrival_date ??
+        extractBunkerConstraints(userMessage?.content?.toString() ?? '', state).requiredByDate,
+    });
+  }
+  const voyageSpeedKnots = speedOptimization?.average_speed_knots ?? speedKnots;
+  const voyageDeparture = departureDateRaw ?? state.itinerary?.departure_date;
+  // Main engine rate before weather (the requirement applies the weather factor)
+  const voyageConsumptionRate = speedOptimization
+    ? speedOptimization.average_consumption_mt_per_day / weatherFactor
+    : vesselSpecs.consumptionRate;
+  const voyageHours = speedOptimization?.total_hours ?? route.estimated_hours;
+
+  // Reserve comes from the bunker_safety_margin rule (safety-rules.yaml), expressed as a fraction of voyage fuel
+  const voyageDaysForMargin =
+    voyageHours > 0 ? voyageHours / 24 : route.distance_nm / (voyageSpeedKnots * 24);
+  const safetyMargin = safetyMarginEngine.calculateSafetyMargin({
+    voyage_days: voyageDaysForMargin,
+    daily_consumption: { VLSFO: voyageConsumptionRate * weatherFactor, LSMGO: 0 },
+    weather_risk: safetyMarginEngine.assessWeatherRisk(state.weather_consumption),
+  });
   const bunkerRequirement = calculateBunkerRequirement({
     currentROB: robForCalculation,
-    vesselConsumption: vesselSpecs.consumptionRate,
+    vesselConsumption: voyageConsumptionRate,
     routeDistance: route.distance_nm,
-    routeEstimatedHours: route.estimated_hours,
+    routeEstimatedHours: voyageHours,
     weatherFactor,
-    safetyMargin: 0.15,
-    speedKnots,
+    safetyMargin: safetyMargin.required_fraction,
+    speedKnots: voyageSpeedKnots,
   });
 
   const tankCapacity = vesselSpecs.tankCapacity;
@@ -3514,32 +3830,12 @@ async function handleVesselSpecific(state: MultiAgentState): Promise<Partial<Mul
     tankCapacity
   );
   const exceedsCapacity = robForCalculation + bunkerRequirement.bunkerQuantity > tankCapacity;
-  const tankValidation = exceedsCapacity
+  let tankValidation = exceedsCapacity
     ? 'split_or_multi_port'
     : robAfterBunkering >= tankCapacity * 0.95
       ? 'near_full'
       : 'ok';
 
-  const portFinderInput = {
-    route_waypoints: waypoints,
-    max_deviation_nm: 150,
-  };
-  const bunkerPortsResult = await withTimeout(
-    executePortFinderTool(portFinderInput),
-    TIMEOUTS.PORT_FINDER,
-    'Port finder timed out'
-  );
-  const portsArray = Array.isArray(bunkerPortsResult)
-    ? bunkerPortsResult
-    : (bunkerPortsResult?.ports ?? []);
-
-  const requiredFuelType = 'VLSFO';
-  const compatiblePorts = portsArray.filter((p: any) => {
-    const fuels = p.port?.fuel_capabilities ?? p.port?.fuelsAvailable ?? [];
-    return fuels.some((f: string) => f.toUpperCase().includes(requiredFuelType) || f === requiredFuelType);
-  });
-  const portsToUse = compatiblePorts.length > 0 ? compatiblePorts : portsArray;
-
   if (portsToUse.length === 0) {
     const analysisSummary = [
       `Vessel: ${vesselSpecs.vesselName}`,
@@ -3548,6 +3844,7 @@ async function handleVesselSpecific(state: MultiAgentState): Promise<Partial<Mul
       `Bunker required: ${bunkerRequirement.bunkerQuantity.toFixed(1)} MT`,
       `Tank capacity: ${tankCapacity} MT`,
       ...(usePerformanceModel && policy?.tank_capacity_note ? [policy.tank_capacity_note] : []),
+      ...(robDataQuality ? [noonReportValidationEngine.formatBadge(robDataQuality)] : []),
       'No bunker ports found within 150 nm of the route.',
     ].join('\n');
     const vesselContext: VesselContext = {
@@ -3585,28 +3882,128 @@ async function handleVesselSpecific(state: MultiAgentState): Promise<Partial<Mul
     };
   }
 
-  const portCodesOrNames = portsToUse
-    .map((p: any) =>
-      (p.port?.port_code && String(p.port.port_code).trim()) ||
-      (p.port?.name && String(p.port.name).trim()) ||
-      p.port?.port_code ||
-      p.port?.name ||
-      ''
-    )
-    .filter(Boolean);
-  const fuelTypes = [requiredFuelType];
-  const pricings = await bunkerDataService.fetchBunkerPricing(portCodesOrNames, fuelTypes);
-  const port_prices = bunkerPricingToPriceFetcherOutput(pricings);
-
   const bunkerQuantityMt = Math.min(bunkerRequirement.bunkerQuantity, tankCapacity - robForCalculation);
+
+  // Scrubber-fitted vessels: HSFO + scrubber vs VLSFO on this route, at average prices of the candidate ports
+  let scrubberComparison: ScrubberComparison | null = null;
+  let hsfoQuantityMt = 0;
+  if (scrubber.fitted) {
+    const vlsfoPrice = averagePrice(requiredFuelType);
+    if (vlsfoPrice > 0) {
+      try {
+        scrubberComparison = scrubberEconomicsEngine.compareStrategies({
+          scrubber,
+          base_consumption: {
+            main_engine_mt_per_day: voyageConsumptionRate,
+            auxiliary_mt_per_day: 0,
+            total_mt_per_day: voyageConsumptionRate,
+          },
+          route_segments: scrubberEconomicsEngine.buildRouteSegments(
+            waypoints,
+            route.origin_port_code,
+            route.destination_port_code,
+            voyageDeparture ? { departure: new Date(voyageDeparture), speed_knots: voyageSpeedKnots } : undefined
+          ),
+          speed_knots: voyageSpeedKnots,
+          weather_factor: weatherFactor,
+          prices: { VLSFO: vlsfoPrice, HSFO: averagePrice('HSFO') || undefined },
+          eu_ets_cost_per_mt_usd: state.compliance_data?.eu_ets?.voyage_cost_per_mt_fuel_usd,
+        });
+        if (scrubberComparison.recommended === 'HSFO_SCRUBBER') {
+          const consumption = scrubberComparison.hsfo_scrubber.consumption_mt;
+          const hsfoShare = consumption.total > 0 ? consumption.HSFO / consumption.total : 0;
+          hsfoQuantityMt = Math.round(Math.max(0, bunkerQuantityMt) * hsfoShare);
+        }
+      } catch (error) {
+        console.warn(
+          '[BUNKER-WORKFLOW] Scrubber comparison failed:',
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+  }
+
+  // LNG dual-fuel vessels: gas mode vs oil on this route, LNG at the cheapest candidate port quoting it
+  let dualFuelComparison: DualFuelComparison | null = null;
+  let gasOilReductionMt = 0;
+  if (dualFuel.capable) {
+    const vlsfoPrice = averagePrice(requiredFuelType);
+    if (vlsfoPrice > 0) {
+      try {
+        const fueleu = state.compliance_data?.fueleu;
+        const fueleuEnergy = fueleu?.legs.reduce((sum, leg) => sum + leg.energy_mj, 0) ?? 0;
+        dualFuelComparison = dualFuelEconomicsEngine.compareStrategies({
+          dual_fuel: dualFuel,
+          base_consumption: {
+            main_engine_mt_per_day: voyageConsumptionRate,
+            auxiliary_mt_per_day: 0,
+            total_mt_per_day: voyageConsumptionRate,
+          },
+          route_segments: scrubberEconomicsEngine.buildRouteSegments(
+            waypoints,
+            route.origin_port_code,
+            route.destination_port_code,
+            voyageDeparture ? { departure: new Date(voyageDeparture), speed_knots: voyageSpeedKnots } : undefined
+          ),
+          speed_knots: voyageSpeedKnots,
+          weather_factor: weatherFactor,
+          lng_rob_mt: currentROB.robLNG,
+          prices: { VLSFO: vlsfoPrice, LSMGO: averagePrice('LSMGO') || undefined },
+          lng_ports: pricings
+            .filter((p) => p.fuelType === 'LNG' && p.pricePerMT > 0)
+            .map((p) => ({ port_code: p.portCode ?? p.port, port_name: p.port, price_usd_per_mt: p.pricePerMT })),
+          eu_ets_cost_per_mt_usd: state.compliance_data?.eu_ets?.voyage_cost_per_mt_fuel_usd,
+          year: fueleu?.year ?? (voyageDeparture ? new Date(voyageDeparture).getUTCFullYear() : undefined),
+          fueleu_coverage_percent:
+            fueleu && fueleuEnergy > 0 ? (fueleu.energy_in_scope_mj / fueleuEnergy) * 100 : undefined,
+        });
+        if (dualFuelComparison.recommended === 'GAS') {
+          // Oil still burned in gas mode (pilot fuel, legs without LNG) replaces the oil-only quantity
+          const oilOnly = dualFuelComparison.oil.consumption_mt;
+          const onGas = dualFuelComparison.gas.consumption_mt;
+          const oilShare =
+            oilOnly.VLSFO + oilOnly.LSMGO > 0 ? (onGas.VLSFO + onGas.LSMGO) / (oilOnly.VLSFO + oilOnly.LSMGO) : 1;
+          gasOilReductionMt = Math.round(Math.max(0, bunkerQuantityMt - hsfoQuantityMt) * (1 - Math.min(1, oilShare)));
+        }
+      } catch (error) {
+        console.warn(
+          '[BUNKER-WORKFLOW] Dual-fuel comparison failed:',
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+  }
+
+  // Optimised speeds move every position on the timeline (port stays re-applied after re-timing)
+  let vesselTimeline = state.vessel_timeline;
+  if (speedOptimization && vesselTimeline?.length) {
+    vesselTimeline = speedOptimizerEngine.retimeTimeline(vesselTimeline, speedOptimization);
+    if (route.legs?.length) {
+      vesselTimeline = applyPortStaysToTimeline(vesselTimeline, route.legs);
+    }
+  }
+
+  // Supply rate and berth availability for port call cost (waiting, bunkering time, dues)
+  const portCapabilities = await fetchBunkerPortCapabilities(portsToUse);
   const analyzerInput = {
     bunker_ports: portsToUse,
     port_prices,
-    fuel_quantity_mt: Math.max(100, Math.max(0, bunkerQuantityMt)),
+    fuel_quantity_mt: Math.max(100, Math.max(0, bunkerQuantityMt - hsfoQuantityMt - gasOilReductionMt)),
+    ...(hsfoQuantityMt > 0 && { hsfo_quantity_mt: hsfoQuantityMt }),
     fuel_type: 'VLSFO' as const,
-    vessel_speed_knots: state.bunker_analysis_speed ?? 14,
-    vessel_consumption_mt_per_day: vesselSpecs.consumptionRate,
+    vessel_speed_knots: speedOptimization ? voyageSpeedKnots : (state.bunker_analysis_speed ?? 14),
+    vessel_consumption_mt_per_day: voyageConsumptionRate,
     port_weather: [],
+    eu_ets_cost_per_mt_usd: state.compliance_data?.eu_ets?.voyage_cost_per_mt_fuel_usd,
+    // Rank on expected price at each port's ETA
+    port_arrival_dates: estimatePortArrivalDates({
+      ports: portsToUse,
+      waypoints,
+      speed_knots: voyageSpeedKnots,
+      departure_date: departureDateRaw ?? state.itinerary?.departure_date,
+      vessel_timeline: vesselTimeline,
+    }),
+    port_capabilities: portCapabilities,
   };
   let bunkerAnalysis: any = null;
   try {
@@ -3620,26 +4017,62 @@ async function handleVesselSpecific(state: MultiAgentState): Promise<Partial<Mul
   }
 
   const robBefore = robForCalculation;
-  const recommendedPorts = (bunkerAnalysis?.recommendations ?? []).slice(0, 3).map((rec: any, idx: number) => ({
-    port_code: rec.port_code,
-    port_name: rec.port_name,
-    total_cost_usd: rec.total_cost_usd ?? rec.total_cost ?? 0,
-    bunker_quantity_mt: bunkerQuantityMt,
-    rob_before_mt: robBefore,
-    rob_after_mt: Math.min(robBefore + bunkerQuantityMt, tankCapacity),
-    deviation_nm: rec.distance_from_route_nm ?? 0,
-  }));
+  // Validate the required quantity per recommended port against usable tank capacity (fill limit).
+  // The vessel-specific path models a single VLSFO tank group sized by vesselSpecs.tankCapacity.
+  const capacityCheck = capacityValidationEngine.validateRecommendedPorts(
+    (bunkerAnalysis?.recommendations ?? []).slice(0, 3).map((rec: any) => ({
+      port_code: rec.port_code,
+      port_name: rec.port_name,
+      total_cost_usd: rec.total_cost_usd ?? rec.total_cost ?? 0,
+      bunker_quantity_mt: bunkerRequirement.bunkerQuantity,
+      rob_before_mt: robBefore,
+      rob_after_mt: robBefore + bunkerRequirement.bunkerQuantity,
+      deviation_nm: rec.distance_from_route_nm ?? 0,
+    })),
+    { VLSFO: tankCapacity, LSMGO: 0 },
+    'VLSFO'
+  );
+  const recommendedPorts =
+    hsfoQuantityMt > 0
+      ? capacityCheck.ports.map((p) => ({ ...p, hsfo_quantity_mt: hsfoQuantityMt }))
+      : capacityCheck.ports;
+  if (!capacityCheck.within_capacity) {
+    tankValidation = 'split_or_multi_port';
+  }
+
+  // Voyage P&L when the query gives freight, lumpsum or hire: fuel burnt at the best option's price
+  const voyageRevenue = findVoyageRevenue(state);
+  const bestBunkerOption = bunkerAnalysis?.best_option;
+  const voyageEstimate = voyageRevenue
+    ? estimateVoyage({
+        revenue: voyageRevenue,
+        sea_days: voyageDaysForMargin,
+        sea_consumption_mt: { [requiredFuelType]: bunkerRequirement.voyageFuelConsumption },
+        fuel_prices_usd_per_mt: {
+          [requiredFuelType]: bestBunkerOption?.fuel_price_per_mt || averagePrice(requiredFuelType),
+          LSMGO: bestBunkerOption?.mgo_price_per_mt || averagePrice('LSMGO'),
+        },
+        bunker_call_cost_usd:
+          bunkerRequirement.needsBunkering && bestBunkerOption
+            ? (bestBunkerOption.deviation_cost_usd ?? 0) + (bestBunkerOption.port_call_cost_usd ?? 0)
+            : 0,
+        canal_tolls_usd: route.canal_toll_usd,
+        eu_ets_cost_usd: state.compliance_data?.eu_ets?.total_cost_usd,
+      })
+    : null;
 
   const analysisSummaryParts = [
     `Vessel: ${vesselSpecs.vesselName}`,
     `Current ROB: ${robBefore.toFixed(1)} MT`,
+    robDataQuality ? noonReportValidationEngine.formatBadge(robDataQuality) : '',
     `Voyage consumption: ${bunkerRequirement.voyageFuelConsumption.toFixed(1)} MT (weather factor ${bunkerRequirement.weatherFactorApplied})`,
     `Required fuel (incl. ${(bunkerRequirement.safetyMarginApplied * 100).toFixed(0)}% safety): ${bunkerRequirement.requiredFuel.toFixed(1)} MT`,
+    safetyMargin.explanation,
     `Bunker quantity: ${bunkerRequirement.bunkerQuantity.toFixed(1)} MT`,
     `Tank capacity: ${tankCapacity} MT`,
     ...(usePerformanceModel && policy?.tank_capacity_note ? [policy.tank_capacity_note] : []),
-    exceedsCapacity
-      ? 'Single port cannot supply full quantity; consider split or multi-port bunkering.'
+    tankValidation === 'split_or_multi_port'
+      ? `Single port cannot supply full quantity within the ${capacityCheck.limits_applied.max_fill_percent}% tank fill limit; consider split or multi-port bunkering.`
       : tankValidation === 'near_full'
         ? 'Tank will be near full after bunkering.'
         : 'Tank capacity OK.',
@@ -3647,13 +4080,47 @@ async function handleVesselSpecific(state: MultiAgentState): Promise<Partial<Mul
     bunkerAnalysis?.best_option
       ? `Best option: ${bunkerAnalysis.best_option.port_name} ($${bunkerAnalysis.best_option.total_cost_usd?.toFixed(2) ?? 'N/A'})`
       : '',
+    scrubberComparison
+      ? `Scrubber (${scrubberComparison.scrubber_type}): HSFO+scrubber $${scrubberComparison.hsfo_scrubber.total_cost_usd.toFixed(0)} ` +
+        `vs VLSFO $${scrubberComparison.vlsfo.total_cost_usd.toFixed(0)} → ${scrubberComparison.recommended === 'HSFO_SCRUBBER' ? `HSFO (${hsfoQuantityMt} MT)` : 'VLSFO'}` +
+        (scrubberComparison.breakeven_spread_usd_per_mt !== null
+          ? `; breakeven spread $${scrubberComparison.breakeven_spread_usd_per_mt.toFixed(0)}/MT`
+          : '')
+      : '',
+    dualFuelComparison
+      ? `Dual-fuel (${dualFuelComparison.engine_type}): gas $${dualFuelComparison.gas.total_cost_usd.toFixed(0)} ` +
+        `vs oil $${dualFuelComparison.oil.total_cost_usd.toFixed(0)} → ` +
+        (dualFuelComparison.recommended === 'GAS'
+          ? `GAS (LNG ${dualFuelComparison.gas.lng_bunker_mt.toFixed(0)} MT` +
+            (dualFuelComparison.lng_bunker_port
+              ? ` at ${dualFuelComparison.lng_bunker_port.port_name ?? dualFuelComparison.lng_bunker_port.port_code}`
+              : ' from ROB') +
+            ')'
+          : 'OIL') +
+        (dualFuelComparison.breakeven_lng_price_usd_per_mt !== null
+          ? `; breakeven LNG $${dualFuelComparison.breakeven_lng_price_usd_per_mt.toFixed(0)}/MT`
+          : '')
+      : '',
+    ...(dualFuelComparison?.warnings ?? []),
+    speedOptimization
+      ? `Optimised speed: ${speedOptimization.average_speed_knots.toFixed(1)} kn average ` +
+        `(${speedOptimization.legs.map((leg) => `${leg.speed_knots} kn`).join(' / ')}), ` +
+        `${(speedOptimization.total_hours / 24).toFixed(1)} days` +
+        (speedOptimization.savings_vs_reference_usd !== undefined
+          ? `; saves $${speedOptimization.savings_vs_reference_usd.toFixed(0)} in fuel and hire vs ${speedKnots} kn`
+          : '') +
+        (speedOptimization.arrival_constraint_binding ? '; set by required arrival' : '')
+      : '',
+    ...(speedOptimization?.warnings ?? []),
+    voyageEstimate ? formatVoyageEstimate(voyageEstimate) : '',
+    ...(voyageEstimate?.warnings ?? []),
   ];
   const vesselContext: VesselContext = {
     vessel_id: imo,
     vessel_name: vesselSpecs.vesselName,
     current_rob: robBefore,
     tank_capacity: tankCapacity,
-    rob_after_bunkering: Math.min(robBefore + bunkerQuantityMt, tankCapacity),
+    rob_after_bunkering: recommendedPorts[0]?.rob_after_mt ?? Math.min(robBefore + bunkerQuantityMt, tankCapacity),
   };
 
   let fullAnalysis = bunkerAnalysis
@@ -3673,15 +4140,52 @@ async function handleVesselSpecific(state: MultiAgentState): Promise<Partial<Mul
         analysisSummary: analysisSummaryParts.filter(Boolean).join('\n'),
       });
 
+  fullAnalysis.capacity_validation = {
+    within_capacity: capacityCheck.within_capacity,
+    limits_applied: capacityCheck.limits_applied,
+    violations: capacityCheck.violations,
+  };
+  fullAnalysis.safety_margin = {
+    required_days: safetyMargin.required_days,
+    required_mt: safetyMargin.required_mt.VLSFO,
+    driving_rule: safetyMargin.driving_rule,
+    explanation: safetyMargin.explanation,
+  };
+  if (scrubberComparison) {
+    fullAnalysis.scrubber_comparison = scrubberComparison;
+  }
+  if (dualFuelComparison) {
+    fullAnalysis.dual_fuel_comparison = dualFuelComparison;
+  }
+  if (robDataQuality) {
+    fullAnalysis.data_quality = robDataQuality;
+  }
+  if (speedOptimization) {
+    fullAnalysis.speed_optimization = speedOptimization;
+  }
+  if (voyageEstimate) {
+    fullAnalysis.voyage_estimate = voyageEstimate;
+  }
+  const stemNomination = buildStemNomination(bunkerAnalysis?.best_option, { imo, name: vesselSpecs.vesselName });
+  if (stemNomination) {
+    fullAnalysis.stem_nomination = stemNomination;
+  }
+
   const singlePortBestCost = fullAnalysis.best_option?.total_cost_usd ?? 0;
+  // Port call cost is left out of the per-MT price: the optimizer costs each stop's call for its quantity
   const vesselPortOptions: BunkerPortOption[] = (bunkerAnalysis?.recommendations ?? []).map((r: any) => ({
     port_code: r.port_code,
     port_name: r.port_name,
-    price_per_mt: bunkerQuantityMt > 0 ? (r.total_cost_usd ?? r.fuel_cost_usd ?? 0) / bunkerQuantityMt : 0,
+    price_per_mt:
+      bunkerQuantityMt > 0
+        ? ((r.total_cost_usd ?? r.fuel_cost_usd ?? 0) - (r.port_call_cost_usd ?? 0)) / bunkerQuantityMt
+        : 0,
     deviation_nm: r.distance_from_route_nm ?? 0,
+    port_capabilities: portCapabilities[r.port_code] ?? portCapabilities[r.port_name],
+    arrival_date: r.arrival_date,
   })).filter((o: BunkerPortOption) => o.price_per_mt > 0);
 
-  const voyageDurationDaysV = (route.estimated_hours || 0) / 24;
+  const voyageDurationDaysV = (voyageHours || 0) / 24;
   if (
     shouldConsiderMultiPort(
       { bunkerQuantity: bunkerRequirement.bunkerQuantity, requiredFuel: bunkerRequirement.requiredFuel },
@@ -3695,8 +4199,9 @@ async function handleVesselSpecific(state: MultiAgentState): Promise<Partial<Mul
       tankCapacity,
       currentROB: robBefore,
       availablePorts: vesselPortOptions,
-      route: { distance_nm: route.distance_nm, estimated_hours: route.estimated_hours },
+      route: { distance_nm: route.distance_nm, estimated_hours: voyageHours },
       deviationCostPerNm: 2,
+      includePortCallCost: true,
     });
     if (multiPortStrategyV && singlePortBestCost > 0) {
       const withSavings = attachSavingsVsSingle(multiPortStrategyV, singlePortBestCost);
@@ -3724,6 +4229,14 @@ async function handleVesselSpecific(state: MultiAgentState): Promise<Partial<Mul
     recommendations_count: fullAnalysis.recommendations?.length ?? 0,
     best_port: fullAnalysis.best_option?.port_name ?? null,
   };
+  if (speedOptimization) {
+    vesselMessagePayload.optimised_speed_knots = Number(speedOptimization.average_speed_knots.toFixed(1));
+    vesselMessagePayload.speed_savings_usd = speedOptimization.savings_vs_reference_usd;
+  }
+  if (voyageEstimate) {
+    vesselMessagePayload.tce_usd_per_day = Math.round(voyageEstimate.tce_usd_per_day);
+    vesselMessagePayload.voyage_net_result_usd = Math.round(voyageEstimate.net_result_usd);
+  }
   if (fullAnalysis.multi_port_strategy) {
     vesselMessagePayload.multi_port_considered = true;
     vesselMessagePayload.recommended_strategy = fullAnalysis.single_vs_multi_comparison?.recommended ?? 'SINGLE_PORT';
@@ -3745,6 +4258,7 @@ async function handleVesselSpecific(state: MultiAgentState): Promise<Partial<Mul
         content: JSON.stringify(vesselMessagePayload),
       }),
     ],
+    ...(vesselTimeline !== state.vessel_timeline && { vessel_timeline: vesselTimeline }),
   };
   if (imo !== vesselId && state.vessel_identifiers) {
     const existingImos = state.vessel_identifiers.imos ?? [];
@@ -3763,6 +4277,27 @@ async function handleVesselSpecific(state: MultiAgentState): Promise<Partial<Mul
   return stateUpdate;
 }
 
+/**
+ * Draft stem nomination for the best option's grades bought on supplier quotes (null when none are).
+ */
+function buildStemNomination(
+  bestOption: BunkerRecommendation | undefined,
+  vessel?: { imo?: string; name?: string }
+): StemNomination | null {
+  if (!bestOption?.fuels?.some((fuel) => fuel.supplier)) return null;
+  return supplierQuoteService.createNomination({
+    port_code: bestOption.port_code,
+    port_name: bestOption.port_name,
+    delivery_date: bestOption.arrival_date ?? new Date().toISOString(),
+    grades: bestOption.fuels.map((fuel) => ({
+      fuel_type: fuel.type,
+      quantity_mt: fuel.quantity,
+      supplier: fuel.supplier,
+    })),
+    ...(vessel && { vessel }),
+  });
+}
+
 /** Build vessel-specific bunker analysis object (recommendations + vessel fields). */
 function buildVesselSpecificBunkerAnalysis(params: {
   vesselContext: VesselContext;
@@ -3905,12 +4440,20 @@ async function handleFleetComparison(state: MultiAgentState): Promise<Partial<Mu
       ? 1 + state.weather_consumption.consumption_increase_percent / 100
       : 1.1;
 
+  // Fleet-level reserve fraction from the bunker_safety_margin rule; a reference 1 MT/day
+  // consumption suffices because the fraction depends only on voyage days and weather risk
+  const fleetSafetyMargin = safetyMarginEngine.calculateSafetyMargin({
+    voyage_days: route.estimated_hours > 0 ? route.estimated_hours / 24 : route.distance_nm / (14 * 24),
+    daily_consumption: { VLSFO: weatherFactor, LSMGO: 0 },
+    weather_risk: safetyMarginEngine.assessWeatherRisk(state.weather_consumption),
+  });
+
   const comparisons = compareVesselsForVoyage({
     vessels,
     voyage,
     averagePricePerMT,
     weatherFactor,
-    safetyMargin: 0.15,
+    safetyMargin: fleetSafetyMargin.required_fraction,
     speedKnots: 14,
   });
 
@@ -4200,6 +4743,36 @@ async function handleConstraintFirst(state: MultiAgentState): Promise<Partial<Mu
   };
 }
 
+/**
+ * Total voyage cost per route alternative, with EU ETS / FuelEU figures from the compliance agent
+ */
+function compareRouteAlternatives(
+  state: MultiAgentState,
+  consumptionMtPerDay: number,
+  fuelPriceUsdPerMt: number | undefined
+): RouteComparisonResult {
+  const compliance = state.compliance_data?.route_alternatives ?? [];
+  const eurUsdRate = euEtsEngine.getParameters().eur_usd_rate;
+  return routeComparisonEngine.compareRoutes(
+    state.route_alternatives!.map((route) => {
+      const routeId = route.route_id ?? route.route_type;
+      const routeCompliance = compliance.find((c) => c.route_id === routeId);
+      return {
+        route_id: routeId,
+        route_type: route.route_type,
+        distance_nm: route.distance_nm,
+        estimated_hours: route.estimated_hours,
+        fuel_consumption_mt: (route.estimated_hours / 24) * consumptionMtPerDay,
+        fuel_price_usd_per_mt: fuelPriceUsdPerMt,
+        canal_toll_usd: route.canal_toll_usd,
+        eu_ets_cost_usd: routeCompliance?.eu_ets_cost_usd,
+        fueleu_penalty_usd:
+          routeCompliance?.fueleu_penalty_eur !== undefined ? routeCompliance.fueleu_penalty_eur * eurUsdRate : undefined,
+      };
+    })
+  );
+}
+
 /**
  * Simple port-to-port workflow: find bunker ports along route, fetch pricing via bunkerDataService,
  * analyze and rank options, set bunker_analysis.
@@ -4213,6 +4786,7 @@ async function handleSimplePortToPort(state: MultiAgentState): Promise<Partial<M
   const portFinderInput = {
     route_waypoints: waypoints,
     max_deviation_nm: 150,
+    port_call_codes: getItineraryPortCallCodes(route),
   };
   const bunkerPortsResult = await withTimeout(
     executePortFinderTool(portFinderInput),
@@ -4254,6 +4828,8 @@ async function handleSimplePortToPort(state: MultiAgentState): Promise<Partial<M
   const voyageDurationDays = (route.estimated_hours || 0) / 24;
   const vlsfoRequired = Math.max(0, Math.ceil(voyageDurationDays * consumptionVlsfo * 1.15));
 
+  // Supply rate and berth availability for port call cost (waiting, bunkering time, dues)
+  const portCapabilities = await fetchBunkerPortCapabilities(portsArray);
   const analyzerInput = {
     bunker_ports: portsArray,
     port_prices,
@@ -4262,6 +4838,16 @@ async function handleSimplePortToPort(state: MultiAgentState): Promise<Partial<M
     vessel_speed_knots: 14,
     vessel_consumption_mt_per_day: consumptionVlsfo,
     port_weather: [],
+    eu_ets_cost_per_mt_usd: state.compliance_data?.eu_ets?.voyage_cost_per_mt_fuel_usd,
+    // Rank on expected price at each port's ETA
+    port_arrival_dates: estimatePortArrivalDates({
+      ports: portsArray,
+      waypoints,
+      speed_knots: state.itinerary?.speed_knots ?? 14,
+      departure_date: state.itinerary?.departure_date ?? state.next_voyage_details?.departure_date,
+      vessel_timeline: state.vessel_timeline,
+    }),
+    port_capabilities: portCapabilities,
   };
   let bunkerAnalysis: any = null;
   try {
@@ -4286,6 +4872,8 @@ async function handleSimplePortToPort(state: MultiAgentState): Promise<Partial<M
     port_name: r.port_name,
     price_per_mt: r.fuel_cost_usd > 0 && vlsfoRequired > 0 ? r.fuel_cost_usd / vlsfoRequired : r.fuel_cost_usd,
     deviation_nm: r.distance_from_route_nm ?? 0,
+    port_capabilities: portCapabilities[r.port_code] ?? portCapabilities[r.port_name],
+    arrival_date: r.arrival_date,
   })).filter((o: BunkerPortOption) => o.price_per_mt > 0);
 
   if (
@@ -4304,6 +4892,7 @@ async function handleSimplePortToPort(state: MultiAgentState): Promise<Partial<M
       availablePorts: portOptions,
       route: { distance_nm: route.distance_nm, estimated_hours: route.estimated_hours },
       deviationCostPerNm: 2,
+      includePortCallCost: true,
     });
     if (multiPortStrategy && singlePortBestCost > 0) {
       multiPortStrategy = attachSavingsVsSingle(multiPortStrategy, singlePortBestCost);
@@ -4312,6 +4901,10 @@ async function handleSimplePortToPort(state: MultiAgentState): Promise<Partial<M
 
   const useMultiPort = multiPortStrategy != null && multiPortStrategy.total_cost < singlePortBestCost;
   if (bunkerAnalysis) {
+    const stemNomination = buildStemNomination(bunkerAnalysis.best_option);
+    if (stemNomination) {
+      bunkerAnalysis.stem_nomination = stemNomination;
+    }
     bunkerAnalysis.strategy = useMultiPort ? 'MULTI_PORT' : 'SINGLE_PORT';
     bunkerAnalysis.multi_port_available = multiPortStrategy != null;
     if (multiPortStrategy) {
@@ -4325,6 +4918,31 @@ async function handleSimplePortToPort(state: MultiAgentState): Promise<Partial<M
     }
   }
 
+  // N-stop plan when one fill cannot cover the voyage (e.g. long ballast legs)
+  let multiBunkerPlan: MultiBunkerAnalysis | null = null;
+  if (getConfigManager().isFeatureEnabled('enable_multi_port_bunker') && voyageDurationDays > 0) {
+    const voyageConsumption = {
+      VLSFO: voyageDurationDays * consumptionVlsfo,
+      LSMGO: voyageDurationDays * (vp.consumption_lsmgo_per_day ?? 0),
+    };
+    if (needsMultiPortBunkering(voyageConsumption, vp.capacity, vp.initial_rob, undefined, voyageDurationDays)) {
+      multiBunkerPlan = planMultiPortBunker({
+        route_data: { ...route, waypoints },
+        vessel_profile: vp,
+        voyage_consumption: voyageConsumption,
+        candidate_ports: portsArray,
+        port_prices,
+      });
+    }
+  }
+
+  // Total voyage cost per route alternative (fuel at the best bunker price, tolls, EU ETS, FuelEU, time)
+  if (bunkerAnalysis && (state.route_alternatives?.length ?? 0) > 1) {
+    const bestFuelCost = bunkerAnalysis.best_option?.fuel_cost_usd ?? 0;
+    const fuelPrice = bestFuelCost > 0 ? bestFuelCost / analyzerInput.fuel_quantity_mt : undefined;
+    bunkerAnalysis.route_comparison = compareRouteAlternatives(state, consumptionVlsfo, fuelPrice);
+  }
+
   const messagePayload: Record<string, unknown> = {
     type: 'bunker_workflow_complete',
     ports_found: portsArray.length,
@@ -4342,10 +4960,22 @@ async function handleSimplePortToPort(state: MultiAgentState): Promise<Partial<M
       : 'Single port remains best option.';
   }
 
+  if (multiBunkerPlan?.best_plan) {
+    messagePayload.multi_stop_required = true;
+    messagePayload.multi_stop_plan = multiBunkerPlan.best_plan.stops.map((stop) => stop.port_name).join(' → ');
+  }
+
+  if (bunkerAnalysis?.route_comparison) {
+    const comparison: RouteComparisonResult = bunkerAnalysis.route_comparison;
+    messagePayload.routes_compared = comparison.routes.length;
+    messagePayload.cheapest_route = comparison.routes[0].route_type;
+  }
+
   return {
     bunker_ports: portsArray as any,
     port_prices,
     bunker_analysis: bunkerAnalysis ?? null,
+    ...(multiBunkerPlan && { multi_bunker_plan: multiBunkerPlan }),
     agent_status: { ...(state.agent_status || {}), bunker_agent: 'success' },
     messages: [
       ...state.messages,
@@ -5053,6 +5683,8 @@ export async function vesselSelectionAgentNode(
       speed,
       cargo_type: loadCondition,
     };
+    // Freight, lumpsum or hire in the query: rank on TCE instead of bunker cost
+    const voyageRevenue = findVoyageRevenue(state) ?? undefined;
 
     // ========================================================================
     // Step 2: Parallel vessel analysis
@@ -5070,6 +5702,8 @@ export async function vesselSelectionAgentNode(
             route_data: state.route_data ?? undefined,
             bunker_analysis: state.bunker_analysis ?? undefined,
             current_voyage_end_date: currentVoyageEndDate,
+            eua_price_eur: state.compliance_data?.eu_ets?.eua_price_eur,
+            revenue: voyageRevenue,
           });
           return { result, duration_ms: Date.now() - start };
         })()
@@ -5148,7 +5782,8 @@ export async function vesselSelectionAgentNode(
     // ========================================================================
 
     const rankStart = Date.now();
-    const rankings = VesselSelectionEngine.rankVessels(analyses);
+    const rankedBy: 'cost' | 'tce' = voyageRevenue && analyses.some((a) => a.voyage_estimate) ? 'tce' : 'cost';
+    const rankings = VesselSelectionEngine.rankVessels(analyses, rankedBy);
     const comparisonMatrix = VesselSelectionEngine.generateComparisonMatrix(analyses);
     const recommendedVessel = rankings[0]?.vessel_name ?? state.vessel_names[0];
     logVesselSelectionStep('ranking', Date.now() - rankStart);
@@ -5206,10 +5841,11 @@ export async function vesselSelectionAgentNode(
         recommendation_reason: r.recommendation_reason,
         total_cost_usd: analysis?.total_voyage_cost ?? 0,
         feasibility: vesselFeasibilityMatrix[r.vessel_name] ?? 'infeasible',
+        ...(r.tce_usd_per_day !== undefined && { tce_usd_per_day: r.tce_usd_per_day }),
       };
     });
 
-    const analysisSummary = `Compared ${analyses.length} vessel(s). Recommended: ${recommendedVessel} (${rankings[0]?.recommendation_reason ?? 'best cost/feasibility'}).`;
+    const analysisSummary = `Compared ${analyses.length} vessel(s)${rankedBy === 'tce' ? ' on TCE' : ''}. Recommended: ${recommendedVessel} (${rankings[0]?.recommendation_reason ?? 'best cost/feasibility'}).`;
 
     console.log(`📊 [VESSEL-SELECTION-AGENT] Analysis complete: ${vesselRankingsForState.length} vessel(s) ranked`);
     recordAgentTime('vessel_selection_agent', duration);
@@ -5242,6 +5878,7 @@ export async function vesselSelectionAgentNode(
     const vesselComparisonAnalysisAggregate = {
       vessels_analyzed: vesselComparisonAnalysisForState,
       rankings: vesselRankingsForState,
+      ranked_by: rankedBy,
       recommended_vessel: recommendedVessel,
       analysis_summary: analysisSummary,
       comparison_matrix: comparisonMatrix,
@@ -5437,6 +6074,8 @@ function extractRelevantStateData(state: MultiAgentState): Record<string, unknow
     'vessel_specs',
     'hull_performance',
     'hull_performance_charts',
+    'cii_rating',
+    'cp_performance',
     'standalone_port_weather',
     'port_prices',
     'final_recommendation',
@@ -5553,6 +6192,7 @@ export async function finalizeNode(state: MultiAgentState) {
       };
       analysis_period?: { days: number; start_date: string; end_date: string; total_records: number };
       metadata?: { fetched_at: string; data_source: string; cache_hit: boolean };
+      data_quality?: NoonReportDataQuality;
     };
 
     // Chart data is already prepared by hull_performance_agent using modular chart services
@@ -5581,7 +6221,7 @@ ${hp.condition_message ?? ''}
 
 ### Analysis period
 ${period.days} days (${period.start_date} to ${period.end_date}) · ${period.total_records} records  
-*Source: ${hp.metadata?.data_source ?? 'api'}${hp.metadata?.cache_hit ? ' (cached)' : ''}*
+*Source: ${hp.metadata?.data_source ?? 'api'}${hp.metadata?.cache_hit ? ' (cached)' : ''}*${hp.data_quality ? `  \n${noonReportValidationEngine.formatBadge(hp.data_quality)}` : ''}
 
 ---
 *Hull performance data from Hull Performance Engine. Chart data is available in the response payload for visualization.*
@@ -6049,7 +6689,7 @@ AgentRegistry.registerAgent({
 AgentRegistry.registerAgent({
   agent_name: 'vessel_selection_agent',
   description:
-    'Compares vessels for voyage planning, projects ROB at voyage end, checks feasibility, ranks vessels by cost. Deterministic workflow.',
+    'Compares vessels for voyage planning, projects ROB at voyage end, checks feasibility, ranks vessels by cost, or by TCE when the query gives freight, lumpsum or hire. Deterministic workflow.',
   available_tools: [],
   prerequisites: ['vessel_names', 'next_voyage_details'],
   outputs: ['vessel_comparison_analysis', 'vessel_rankings', 'recommended_vessel'],
@@ -6058,7 +6698,7 @@ AgentRegistry.registerAgent({
     'Validate vessel_names and next_voyage_details',
     'Fetch vessel specs and consumption profiles',
     'Calculate route and ROB projection per vessel',
-    'Rank vessels by total cost',
+    'Rank vessels by total cost (TCE when freight, lumpsum or hire is given)',
   ],
 });
 
@@ -6071,7 +6711,8 @@ AgentRegistry.registerAgent({
     '1. Find bunker ports along route (if needed)',
     '2. Check weather safety at ports (if requested)',
     '3. Fetch fuel prices for all required fuel types',
-    '4. Analyze and rank options by total cost'
+    '4. Analyze and rank options by total cost',
+    '5. Estimate voyage P&L and TCE when the query gives freight, lumpsum or hire (vessel-specific)'
   ],
   available_tools: [], // No tools - calls functions directly
   /*
@@ -6178,6 +6819,42 @@ AgentRegistry.registerAgent({
   ],
 });
 
+// Register CII Agent (deterministic: CII rating from noon reports + vessel_specs, end-of-year projection for the planned voyage)
+AgentRegistry.registerAgent({
+  agent_name: 'cii_agent',
+  description:
+    'Calculates the IMO CII rating (attained vs required CII, A–E) from year-to-date noon reports and vessel_specs, and projects the end-of-year rating if the planned voyage (route_data) is performed. Requires vessel_specs from vessel_info_agent; runs only when enable_cii_agent is on.',
+  available_tools: [],
+  prerequisites: ['vessel_specs'],
+  outputs: ['cii_rating'],
+  is_deterministic: true,
+  workflow_steps: [
+    'Select vessel from vessel_specs',
+    'Fetch year-to-date noon reports from Datalogs',
+    'Calculate attained and required CII and rating',
+    'Project end-of-year rating with the planned voyage when route_data exists',
+    'Store cii_rating in state',
+  ],
+});
+
+// Register CP Performance Agent (deterministic: charter-party warranty vs good-weather performance from noon records)
+AgentRegistry.registerAgent({
+  agent_name: 'cp_performance_agent',
+  description:
+    'Checks the vessel against the charter-party speed/consumption warranty stated in the query (e.g. "about 14 kn on 30 mt VLSFO"): good-weather days from noon reports (Beaufort / wave height), time lost, over-consumption and a claim/defence summary. Requires the vessel IMO (vessel_identifiers or vessel_specs).',
+  available_tools: [],
+  prerequisites: ['vessel_identifiers'],
+  outputs: ['cp_performance'],
+  is_deterministic: true,
+  workflow_steps: [
+    'Extract warranty, period, hire and fuel price from the query',
+    'Fetch noon records for the period from hull performance data',
+    'Select good-weather reports and calculate good-weather speed and consumption',
+    'Calculate time lost and over-consumption after the about tolerances',
+    'Store cp_performance (claim/defence summary) in state',
+  ],
+});
+
 // Register Finalize Agent (synthesizes results, always last in execution)
 AgentRegistry.registerAgent({
   agent_name: 'finalize',
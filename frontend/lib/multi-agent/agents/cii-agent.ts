@@ -0,0 +1,170 @@
+/**
+ * CII Agent Node
+ *
+ * Deterministic LangGraph node that rates the vessel's Carbon Intensity Indicator for the
+ * current year from year-to-date noon reports (Datalogs) and vessel_specs, and projects the
+ * end-of-year rating if the planned voyage (route_data) is performed.
+ * Gated by the enable_cii_agent feature flag. No LLM calls.
+ */
+
+import { AIMessage } from '@langchain/core/messages';
+import type { MultiAgentState } from '../state';
+import { getConfigManager } from '@/lib/config/config-manager';
+import { ciiCalculatorEngine, type CIIPlannedVoyage } from '@/lib/engines/cii-calculator-engine';
+import { getCIIReportsFromDatalogs } from '@/lib/services/cii-from-datalogs-service';
+import { logAgentExecution } from '@/lib/monitoring/axiom-logger';
+import { extractCorrelationId } from '@/lib/utils/correlation';
+import type { VesselBasicInfo } from '@/lib/types/vessel-performance';
+
+// ============================================================================
+// Agent Node
+// ============================================================================
+
+export async function ciiAgentNode(state: MultiAgentState): Promise<Partial<MultiAgentState>> {
+  const startTime = Date.now();
+  const correlationId = extractCorrelationId(state);
+
+  if (!getConfigManager().isFeatureEnabled('enable_cii_agent')) {
+    console.log('⏭️ [CII-AGENT] enable_cii_agent is off, skipping');
+    return {
+      agent_status: { ...(state.agent_status || {}), cii_agent: 'skipped' },
+      agent_errors: {
+        ...(state.agent_errors || {}),
+        cii_agent: { error: 'CII rating is disabled (feature flag enable_cii_agent)', timestamp: Date.now() },
+      },
+      messages: [
+        ...(state.messages ?? []),
+        new AIMessage({ content: '[CII-AGENT] CII rating is not enabled' }),
+      ],
+    };
+  }
+
+  try {
+    logAgentExecution('cii_agent', correlationId, 0, 'started', {
+      vessel: state.vessel_identifiers,
+    });
+
+    // 1. Vessel from vessel_specs (matching vessel_identifiers when several were fetched)
+    const spec = selectVessel(state);
+    if (!spec) {
+      throw new Error('No vessel specs in state. vessel_info_agent should run first.');
+    }
+
+    // 2. Year-to-date noon reports
+    const year = new Date().getUTCFullYear();
+    const reports = await getCIIReportsFromDatalogs(spec.imo, year);
+
+    // 3. Rating, with end-of-year projection when a voyage is planned
+    const plannedVoyage = buildPlannedVoyage(state);
+    const rating = ciiCalculatorEngine.calculateRating({
+      ship_type: spec.type,
+      dwt: spec.dwt,
+      gt: spec.gt,
+      year,
+      reports,
+      planned_voyage: plannedVoyage ?? undefined,
+      vessel_name: spec.name,
+      imo: spec.imo,
+    });
+    if (state.route_data && !plannedVoyage) {
+      rating.warnings.push('Planned voyage fuel unknown (no weather consumption or vessel profile); no projection');
+    }
+
+    const projection = rating.projection;
+    const summary =
+      `CII ${year} for ${spec.name}: ${rating.rating} (${rating.metric} ${rating.attained_cii.toFixed(2)} ` +
+      `vs required ${rating.required_cii.toFixed(2)})` +
+      (projection
+        ? `; end-of-year with planned voyage: ${projection.with_voyage.rating} ` +
+          `(without: ${projection.without_voyage.rating}, impact ${projection.impact_percent.toFixed(1)}%)`
+        : '');
+
+    const duration = Date.now() - startTime;
+    logAgentExecution('cii_agent', correlationId, duration, 'success', {
+      vessel: spec.imo,
+      rating: rating.rating,
+      projected_rating: projection?.with_voyage.rating,
+      report_count: rating.report_count,
+      duration_ms: duration,
+    });
+
+    return {
+      cii_rating: rating,
+      agent_status: { ...(state.agent_status || {}), cii_agent: 'success' },
+      messages: [...(state.messages ?? []), new AIMessage({ content: `[CII-AGENT] ${summary}` })],
+    };
+  } catch (error) {
+    const errMessage = error instanceof Error ? error.message : String(error);
+    const duration = Date.now() - startTime;
+
+    console.warn('[CII-AGENT] Failed:', errMessage);
+    logAgentExecution('cii_agent', correlationId, duration, 'failed', {
+      error: errMessage,
+      duration_ms: duration,
+    });
+
+    return {
+      agent_status: { ...(state.agent_status || {}), cii_agent: 'failed' },
+      agent_errors: {
+        ...(state.agent_errors || {}),
+        cii_agent: { error: errMessage, timestamp: Date.now() },
+      },
+    };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Vessel spec to rate: the one matching vessel_identifiers, else the first
+ */
+function selectVessel(state: MultiAgentState): VesselBasicInfo | null {
+  const specs = state.vessel_specs ?? [];
+  if (specs.length === 0) return null;
+
+  const imos = state.vessel_identifiers?.imos ?? [];
+  const names = (state.vessel_identifiers?.names ?? []).map((n) => n.toUpperCase());
+  return (
+    specs.find((s) => imos.includes(s.imo)) ??
+    specs.find((s) => names.includes(s.name.toUpperCase())) ??
+    specs[0]!
+  );
+}
+
+/**
+ * Planned voyage distance, duration and fuel from route_data and the best available
+ * consumption estimate (weather-adjusted consumption, else vessel profile daily rates)
+ */
+function buildPlannedVoyage(state: MultiAgentState): CIIPlannedVoyage | null {
+  const route = state.route_data;
+  if (!route || route.distance_nm <= 0) return null;
+  const durationDays = route.estimated_hours / 24;
+
+  const weather = state.weather_consumption;
+  if (weather) {
+    return {
+      distance_nm: route.distance_nm,
+      duration_days: durationDays,
+      fuel_consumed_mt: {
+        VLSFO: weather.breakdown_by_fuel_type?.VLSFO?.adjusted ?? weather.weather_adjusted_consumption_mt,
+        LSMGO: weather.breakdown_by_fuel_type?.LSGO?.adjusted ?? 0,
+      },
+    };
+  }
+
+  const profile = state.vessel_profile;
+  if (profile) {
+    return {
+      distance_nm: route.distance_nm,
+      duration_days: durationDays,
+      fuel_consumed_mt: {
+        VLSFO: profile.consumption_vlsfo_per_day * durationDays,
+        LSMGO: profile.consumption_lsmgo_per_day * durationDays,
+      },
+    };
+  }
+
+  return null;
+}
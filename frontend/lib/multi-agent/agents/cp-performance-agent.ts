@@ -0,0 +1,129 @@
+/**
+ * CP Performance Agent Node
+ *
+ * Deterministic LangGraph node that checks the vessel's performance against the charter-party
+ * speed/consumption warranty stated in the query ("about 14 kn on 30 mt VLSFO"): good-weather
+ * days from hull performance noon records (wave height from state.noon_reports), time lost,
+ * over-consumption and a claim/defence summary. No LLM calls.
+ */
+
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import type { MultiAgentState } from '../state';
+import { cpPerformanceEngine } from '@/lib/engines/cp-performance-engine';
+import { getCPReportsFromHullPerformance } from '@/lib/services/cp-performance-data-service';
+import { extractCharterPartyTerms, type CharterPartyTerms } from '@/lib/utils/charter-party-extractor';
+import { logAgentExecution } from '@/lib/monitoring/axiom-logger';
+import { extractCorrelationId } from '@/lib/utils/correlation';
+
+/** Performance period when the query gives none */
+const DEFAULT_PERIOD_DAYS = 30;
+
+// ============================================================================
+// Agent Node
+// ============================================================================
+
+export async function cpPerformanceAgentNode(state: MultiAgentState): Promise<Partial<MultiAgentState>> {
+  const startTime = Date.now();
+  const correlationId = extractCorrelationId(state);
+
+  try {
+    logAgentExecution('cp_performance_agent', correlationId, 0, 'started', {
+      vessel: state.vessel_identifiers,
+    });
+
+    // 1. Warranty, period, hire and fuel price from the conversation
+    const terms = findCharterPartyTerms(state);
+    if (!terms?.warranty) {
+      throw new Error('No charter-party warranty found. State it as e.g. "about 14 kn on 30 mt VLSFO".');
+    }
+
+    // 2. Vessel IMO from vessel_identifiers, else vessel_specs
+    const imo = selectImo(state);
+    if (!imo) {
+      throw new Error('No vessel IMO in state. entity_extractor or vessel_info_agent should run first.');
+    }
+
+    // 3. Noon records over the period and the good-weather evaluation
+    const end = new Date();
+    const period = terms.period ?? {
+      start: new Date(end.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      end: end.toISOString(),
+    };
+    const reports = await getCPReportsFromHullPerformance(imo, period, state.noon_reports ?? []);
+    const result = cpPerformanceEngine.evaluate({
+      warranty: terms.warranty,
+      reports,
+      daily_hire_usd: terms.daily_hire_usd,
+      fuel_price_usd_per_mt: terms.fuel_price_usd_per_mt,
+    });
+
+    const summary =
+      `CP performance for IMO ${imo} (${result.good_weather_report_count}/${result.report_count} good-weather reports): ` +
+      (result.summary.verdict === 'insufficient_data'
+        ? 'not enough good weather for a claim'
+        : `${result.time_lost_hours.toFixed(1)} h time lost, ${result.over_consumption_mt.toFixed(1)} MT over-consumed` +
+          (result.summary.total_claim_usd > 0 ? `, claim $${Math.round(result.summary.total_claim_usd).toLocaleString()}` : ''));
+
+    const duration = Date.now() - startTime;
+    logAgentExecution('cp_performance_agent', correlationId, duration, 'success', {
+      vessel: imo,
+      verdict: result.summary.verdict,
+      time_lost_hours: result.time_lost_hours,
+      over_consumption_mt: result.over_consumption_mt,
+      report_count: result.report_count,
+      duration_ms: duration,
+    });
+
+    return {
+      cp_performance: result,
+      agent_status: { ...(state.agent_status || {}), cp_performance_agent: 'success' },
+      messages: [...(state.messages ?? []), new AIMessage({ content: `[CP-PERFORMANCE-AGENT] ${summary}` })],
+    };
+  } catch (error) {
+    const errMessage = error instanceof Error ? error.message : String(error);
+    const duration = Date.now() - startTime;
+
+    console.warn('[CP-PERFORMANCE-AGENT] Failed:', errMessage);
+    logAgentExecution('cp_performance_agent', correlationId, duration, 'failed', {
+      error: errMessage,
+      duration_ms: duration,
+    });
+
+    return {
+      agent_status: { ...(state.agent_status || {}), cp_performance_agent: 'failed' },
+      agent_errors: {
+        ...(state.agent_errors || {}),
+        cp_performance_agent: { error: errMessage, timestamp: Date.now() },
+      },
+    };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Charter-party terms from the most recent user message that states a warranty
+ */
+function findCharterPartyTerms(state: MultiAgentState): CharterPartyTerms | null {
+  const userMessages = (state.messages ?? []).filter((m) => m instanceof HumanMessage).reverse();
+  for (const message of userMessages) {
+    const terms = extractCharterPartyTerms(message.content?.toString() ?? '');
+    if (terms.warranty) return terms;
+  }
+  return null;
+}
+
+/**
+ * IMO to evaluate: the first identified IMO, else the vessel_specs entry matching the identified name
+ */
+function selectImo(state: MultiAgentState): string | null {
+  const imo = state.vessel_identifiers?.imos?.[0];
+  if (imo) return imo;
+
+  const specs = state.vessel_specs ?? [];
+  const names = (state.vessel_identifiers?.names ?? []).map((n) => n.toUpperCase());
+  const spec = specs.find((s) => names.includes(s.name.toUpperCase())) ?? (specs.length === 1 ? specs[0] : undefined);
+  return spec?.imo ?? null;
+}
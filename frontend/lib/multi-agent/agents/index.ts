@@ -12,3 +12,7 @@ export {
 export {
   hullPerformanceAgentNode,
 } from './hull-performance-agent';
+
+export {
+  ciiAgentNode,
+} from './cii-agent';
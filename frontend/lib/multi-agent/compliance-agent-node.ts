@@ -4,23 +4,32 @@
  * Executes compliance checks without LLM decision-making.
  * Currently implements:
  * 1. ECA Zone Validation
+ * 2. EU ETS Calculation (enable_eu_ets_agent)
+ * 3. FuelEU Maritime Compliance (enable_fueleu_maritime), incl. biofuel blend what-ifs
+ * 4. Per-route ECA / EU ETS / FuelEU figures when route alternatives are being compared
+ * 
+ * Multi-port itineraries are evaluated per leg and per port stay (each call classified for EU ETS).
  * 
  * Future additions:
- * 2. EU ETS Calculation
- * 3. FuelEU Maritime Compliance
- * 4. CII Rating Impact
+ * 5. CII Rating Impact
  * 
  * This agent runs AFTER route_agent and BEFORE bunker_agent
  * to inform bunker planning with compliance requirements.
  */
 
-import { AIMessage } from '@langchain/core/messages';
-import type { MultiAgentState } from './state';
-import { executeECAZoneValidatorTool } from '../tools/eca-zone-validator';
+import { AIMessage, HumanMessage } from '@langchain/core/messages';
+import type { MultiAgentState, RouteAlternativeCompliance, RouteData } from './state';
+import { executeECAZoneValidatorTool, type ECAZoneValidatorOutput } from '../tools/eca-zone-validator';
 import { CONSUMPTION_CONFIG, SPEED_CONFIG } from '../tools/eca-config';
 import { extractCorrelationId } from '@/lib/utils/correlation';
 import { logAgentExecution, logError, logToolCall } from '@/lib/monitoring/axiom-logger';
 import { sanitizeToolInput, sanitizeToolOutput } from '@/lib/monitoring/sanitize';
+import { getConfigManager } from '@/lib/config/config-manager';
+import { euEtsEngine, type EUETSLegInput, type EUETSResult } from '@/lib/engines/eu-ets-engine';
+import { getEUAPrice, type ResolvedEUAPrice } from '@/lib/services/eua-price-service';
+import { fuelEUMaritimeEngine, type FuelEUResult } from '@/lib/engines/fueleu-maritime-engine';
+import { extractFuelEUScenario } from '@/lib/utils/fueleu-scenario-extractor';
+import { voyageItineraryEngine } from '@/lib/engines/voyage-itinerary-engine';
 
 /**
  * Compliance Agent Node
@@ -28,8 +37,11 @@ import { sanitizeToolInput, sanitizeToolOutput } from '@/lib/monitoring/sanitize
  * WORKFLOW:
  * 1. Check prerequisites (route_data required)
  * 2. Run ECA zone validation
- * 3. Store compliance data in state
- * 4. Return success
+ * 3. Calculate EU ETS allowance cost (when enabled)
+ * 4. Calculate FuelEU Maritime balance and penalty (when enabled)
+ * 5. Repeat 2-4 per route alternative (when comparing routes)
+ * 6. Store compliance data in state
+ * 7. Return success
  * 
  * NO LLM CALLS - Pure deterministic logic
  */
@@ -102,7 +114,8 @@ export async function complianceAgentNode(
       vessel_consumption: state.vessel_consumption || {
         main_engine_mt_per_day: CONSUMPTION_CONFIG.MAIN_ENGINE_MT_PER_DAY,
         auxiliary_mt_per_day: CONSUMPTION_CONFIG.AUXILIARY_MT_PER_DAY
-      }
+      },
+      departure_datetime: voyageDeparture(state)
     };
     
     const t0 = Date.now();
@@ -123,21 +136,67 @@ export async function complianceAgentNode(
     }
     
     // ========================================================================
-    // STEP 2: EU ETS CALCULATION (Future)
+    // STEP 2: EU ETS CALCULATION
     // ========================================================================
     
-    // TODO: Add EU ETS calculator when implemented
-    console.log('\n💰 [COMPLIANCE-AGENT] EU ETS calculation: Not yet implemented');
+    const voyageLegs = await buildVoyageLegs(state, state.route_data, ecaResult);
+    
+    let euEtsResult: EUETSResult | undefined;
+    let euaPrice: ResolvedEUAPrice | undefined;
+    if (getConfigManager().isFeatureEnabled('enable_eu_ets_agent')) {
+      console.log('\n💰 [COMPLIANCE-AGENT] Running EU ETS calculation...');
+      euaPrice = await getEUAPrice();
+      euEtsResult = euEtsEngine.calculateVoyage({
+        year: new Date().getUTCFullYear(),
+        legs: voyageLegs,
+        eua_price_eur: euaPrice.eua_price_eur,
+        price_source: euaPrice.price_source,
+        price_date: euaPrice.price_date,
+      });
+      console.log(`   Legs: ${euEtsResult.legs.map((leg) => leg.leg_type).join(', ')}`);
+      console.log(`   Allowances: ${euEtsResult.allowances_required.toFixed(1)} EUA @ €${euEtsResult.eua_price_eur.toFixed(2)} (${euEtsResult.price_source})`);
+      console.log(`   Cost: $${euEtsResult.total_cost_usd.toFixed(0)}`);
+    } else {
+      console.log('\n💰 [COMPLIANCE-AGENT] EU ETS calculation: disabled (enable_eu_ets_agent)');
+    }
     
     // ========================================================================
-    // STEP 3: FuelEU MARITIME (Future)
+    // STEP 3: FuelEU MARITIME
     // ========================================================================
     
-    // TODO: Add FuelEU calculator when implemented
-    console.log('📊 [COMPLIANCE-AGENT] FuelEU calculation: Not yet implemented');
+    let fuelEUResult: FuelEUResult | undefined;
+    if (getConfigManager().isFeatureEnabled('enable_fueleu_maritime')) {
+      console.log('📊 [COMPLIANCE-AGENT] Running FuelEU Maritime calculation...');
+      const scenario = extractFuelEUScenario(getLatestUserQuery(state)) ?? undefined;
+      fuelEUResult = fuelEUMaritimeEngine.calculateVoyage({
+        year: new Date().getUTCFullYear(),
+        legs: voyageLegs,
+        scenario,
+      });
+      console.log(`   GHG intensity: ${fuelEUResult.ghg_intensity_gco2e_per_mj.toFixed(2)} gCO2e/MJ (target ${fuelEUResult.target_ghg_intensity_gco2e_per_mj.toFixed(2)})`);
+      console.log(`   Balance: ${fuelEUResult.compliance_balance_tco2e.toFixed(1)} tCO2e, penalty €${fuelEUResult.penalty_eur.toFixed(0)}`);
+      if (fuelEUResult.scenario) {
+        console.log(`   ${fuelEUResult.scenario.blend_label} scenario: ${fuelEUResult.scenario.ghg_intensity_gco2e_per_mj.toFixed(2)} gCO2e/MJ`);
+      }
+    } else {
+      console.log('📊 [COMPLIANCE-AGENT] FuelEU calculation: disabled (enable_fueleu_maritime)');
+    }
     
     // ========================================================================
-    // STEP 4: CII RATING (Future)
+    // STEP 4: ROUTE ALTERNATIVES
+    // ========================================================================
+    
+    let routeAlternatives: RouteAlternativeCompliance[] | undefined;
+    if ((state.route_alternatives?.length ?? 0) > 1) {
+      console.log(`🔀 [COMPLIANCE-AGENT] Evaluating ${state.route_alternatives!.length} route alternatives...`);
+      routeAlternatives = [];
+      for (const route of state.route_alternatives!) {
+        routeAlternatives.push(await evaluateRouteAlternative(state, route, euaPrice));
+      }
+    }
+    
+    // ========================================================================
+    // STEP 5: CII RATING (Future)
     // ========================================================================
     
     // TODO: Add CII calculator when implemented
@@ -184,6 +243,52 @@ export async function complianceAgentNode(
       summaryMessage += `✅ No ECA zones crossed - VLSFO only required\n`;
     }
     
+    // EU ETS Summary
+    if (euEtsResult) {
+      if (euEtsResult.in_scope) {
+        summaryMessage += `\n💰 EU ETS (${euEtsResult.year}, ${euEtsResult.phase_in_percent}% phase-in):\n`;
+        for (const leg of euEtsResult.legs) {
+          const legLabel = leg.to_port_code ? `${leg.from_port_code} → ${leg.to_port_code}` : `${leg.from_port_code} (at berth)`;
+          summaryMessage += `   • ${legLabel}: ${leg.leg_type} (${leg.coverage_percent}%), ${leg.co2_tonnes.toFixed(1)} t CO2, ${leg.allowances.toFixed(1)} EUA\n`;
+        }
+        summaryMessage += `   Allowances: ${euEtsResult.allowances_required.toFixed(1)} EUA @ €${euEtsResult.eua_price_eur.toFixed(2)}\n`;
+        summaryMessage += `   Cost: €${euEtsResult.total_cost_eur.toFixed(0)} ($${euEtsResult.total_cost_usd.toFixed(0)})\n`;
+      } else {
+        summaryMessage += `\n✅ EU ETS: voyage not in scope (no EU/EEA port calls)\n`;
+      }
+    }
+    
+    // FuelEU Maritime Summary
+    if (fuelEUResult) {
+      if (fuelEUResult.in_scope) {
+        summaryMessage += `\n📊 FuelEU MARITIME (${fuelEUResult.year}):\n`;
+        summaryMessage += `   GHG intensity: ${fuelEUResult.ghg_intensity_gco2e_per_mj.toFixed(2)} gCO2e/MJ vs target ${fuelEUResult.target_ghg_intensity_gco2e_per_mj.toFixed(2)}\n`;
+        summaryMessage += `   Compliance balance: ${fuelEUResult.compliance_balance_tco2e.toFixed(1)} tCO2e (${fuelEUResult.compliant ? 'surplus' : 'deficit'})\n`;
+        if (fuelEUResult.penalty_eur > 0) {
+          summaryMessage += `   Estimated penalty: €${fuelEUResult.penalty_eur.toFixed(0)}\n`;
+        }
+        const scenario = fuelEUResult.scenario;
+        if (scenario) {
+          const where = scenario.bunker_port ? ` at ${scenario.bunker_port}` : '';
+          summaryMessage += `   🌱 With ${scenario.blend_label}${where}: ${scenario.ghg_intensity_gco2e_per_mj.toFixed(2)} gCO2e/MJ `;
+          summaryMessage += `(${scenario.intensity_change_gco2e_per_mj.toFixed(2)}), balance ${scenario.compliance_balance_tco2e.toFixed(1)} tCO2e, penalty €${scenario.penalty_eur.toFixed(0)}\n`;
+        }
+      } else {
+        summaryMessage += `\n✅ FuelEU Maritime: voyage not in scope\n`;
+      }
+    }
+    
+    // Route Alternatives Summary
+    if (routeAlternatives) {
+      summaryMessage += `\n🔀 ROUTE ALTERNATIVES:\n`;
+      for (const alt of routeAlternatives) {
+        summaryMessage += `   • ${alt.route_type} (${alt.distance_nm.toFixed(0)} nm): ECA ${alt.eca_distance_nm.toFixed(0)} nm, MGO ${alt.mgo_required_mt.toFixed(1)} MT`;
+        if (alt.eu_ets_cost_usd !== undefined) summaryMessage += `, EU ETS $${alt.eu_ets_cost_usd.toFixed(0)}`;
+        if (alt.fueleu_penalty_eur !== undefined) summaryMessage += `, FuelEU penalty €${alt.fueleu_penalty_eur.toFixed(0)}`;
+        summaryMessage += `\n`;
+      }
+    }
+    
     // ========================================================================
     // UPDATE STATE
     // ========================================================================
@@ -196,7 +301,9 @@ export async function complianceAgentNode(
       // Store compliance data
       compliance_data: {
         eca_zones: ecaResult,
-        // Future: eu_ets, fueleu, cii will be added here
+        ...(euEtsResult && { eu_ets: euEtsResult }),
+        ...(fuelEUResult && { fueleu: fuelEUResult }),
+        ...(routeAlternatives && { route_alternatives: routeAlternatives }),
       },
       
       // Update agent status
@@ -242,3 +349,175 @@ export async function complianceAgentNode(
   }
 }
 
+/**
+ * Latest user message text (follow-ups such as "what if I bunker B30" come last)
+ */
+function getLatestUserQuery(state: MultiAgentState): string {
+  const userMessage = [...state.messages].reverse().find((msg) => msg instanceof HumanMessage);
+  return userMessage?.content?.toString() || '';
+}
+
+/**
+ * ECA distance, MGO, EU ETS cost and FuelEU penalty for one route alternative
+ * (enabled calculations only; the EUA price is shared across alternatives)
+ */
+async function evaluateRouteAlternative(
+  state: MultiAgentState,
+  route: RouteData,
+  euaPrice: ResolvedEUAPrice | undefined
+): Promise<RouteAlternativeCompliance> {
+  const ecaResult = await executeECAZoneValidatorTool({
+    route_waypoints: route.waypoints,
+    vessel_speed_knots: SPEED_CONFIG.DEFAULT_VESSEL_SPEED_KNOTS,
+    vessel_consumption: state.vessel_consumption || {
+      main_engine_mt_per_day: CONSUMPTION_CONFIG.MAIN_ENGINE_MT_PER_DAY,
+      auxiliary_mt_per_day: CONSUMPTION_CONFIG.AUXILIARY_MT_PER_DAY,
+    },
+    departure_datetime: voyageDeparture(state),
+  });
+  const legs = await buildVoyageLegs(state, route, ecaResult);
+  const year = new Date().getUTCFullYear();
+
+  const result: RouteAlternativeCompliance = {
+    route_id: route.route_id ?? route.route_type,
+    route_type: route.route_type,
+    distance_nm: route.distance_nm,
+    eca_distance_nm: ecaResult.total_eca_distance_nm,
+    mgo_required_mt: ecaResult.fuel_requirements.mgo_with_safety_margin_mt,
+  };
+  if (euaPrice) {
+    result.eu_ets_cost_usd = euEtsEngine.calculateVoyage({
+      year,
+      legs,
+      eua_price_eur: euaPrice.eua_price_eur,
+      price_source: euaPrice.price_source,
+      price_date: euaPrice.price_date,
+    }).total_cost_usd;
+  }
+  if (getConfigManager().isFeatureEnabled('enable_fueleu_maritime')) {
+    result.fueleu_penalty_eur = fuelEUMaritimeEngine.calculateVoyage({ year, legs }).penalty_eur;
+  }
+
+  console.log(`   ${result.route_type}: ECA ${result.eca_distance_nm.toFixed(0)} nm, EU ETS $${(result.eu_ets_cost_usd ?? 0).toFixed(0)}`);
+  return result;
+}
+
+/**
+ * EU ETS / FuelEU legs for a routed voyage: the sea passage (weather-adjusted fuel when
+ * available for the selected route, else daily consumption × voyage days with ECA distance
+ * on LSMGO) and the at-berth stay at the destination (auxiliary consumption on LSMGO).
+ * Itinerary routes get a leg per sea leg and per intermediate port stay.
+ */
+async function buildVoyageLegs(
+  state: MultiAgentState,
+  route: RouteData,
+  ecaResult: ECAZoneValidatorOutput
+): Promise<EUETSLegInput[]> {
+  const consumption = state.vessel_consumption || {
+    main_engine_mt_per_day: CONSUMPTION_CONFIG.MAIN_ENGINE_MT_PER_DAY,
+    auxiliary_mt_per_day: CONSUMPTION_CONFIG.AUXILIARY_MT_PER_DAY,
+  };
+
+  // Weather consumption is calculated for route_data only
+  const weather = route.route_id === state.route_data?.route_id ? state.weather_consumption : null;
+  const legs = route.legs?.length
+    ? await buildItineraryLegs(route, consumption, weather, voyageDeparture(state))
+    : [buildSeaPassageLeg(route, consumption, weather, ecaResult)];
+
+  const berthDays = euEtsEngine.getParameters().berth_days_at_destination;
+  if (berthDays > 0) {
+    legs.push({
+      from_port_code: route.destination_port_code,
+      at_berth: true,
+      fuel_consumed_mt: { LSMGO: consumption.auxiliary_mt_per_day * berthDays },
+    });
+  }
+  return legs;
+}
+
+/**
+ * Single origin → destination sea passage
+ */
+function buildSeaPassageLeg(
+  route: RouteData,
+  consumption: NonNullable<MultiAgentState['vessel_consumption']>,
+  weather: MultiAgentState['weather_consumption'],
+  ecaResult: ECAZoneValidatorOutput
+): EUETSLegInput {
+  let seaFuel: EUETSLegInput['fuel_consumed_mt'];
+  if (weather) {
+    seaFuel = {
+      VLSFO: weather.breakdown_by_fuel_type?.VLSFO?.adjusted ?? weather.weather_adjusted_consumption_mt,
+      LSMGO: weather.breakdown_by_fuel_type?.LSGO?.adjusted ?? 0,
+    };
+  } else {
+    const voyageDays = route.estimated_hours / 24;
+    const totalFuel = (consumption.main_engine_mt_per_day + consumption.auxiliary_mt_per_day) * voyageDays;
+    const ecaMgo = Math.min(totalFuel, ecaResult.fuel_requirements.total_mgo_required_mt);
+    seaFuel = { VLSFO: totalFuel - ecaMgo, LSMGO: ecaMgo };
+  }
+  return { from_port_code: route.origin_port_code, to_port_code: route.destination_port_code, fuel_consumed_mt: seaFuel };
+}
+
+/**
+ * Voyage departure (ISO 8601) from the itinerary, route agent context or next voyage details;
+ * the ECA validator applies the zone rules in force at the transit dates
+ */
+function voyageDeparture(state: MultiAgentState): string | undefined {
+  const departure =
+    state.itinerary?.departure_date ??
+    state.agent_context?.route_agent?.departure_date ??
+    state.next_voyage_details?.departure_date;
+  return departure && !Number.isNaN(Date.parse(departure)) ? new Date(departure).toISOString() : undefined;
+}
+
+/**
+ * Itinerary legs: each sea leg (ballast-adjusted consumption, ECA distance of that leg on LSMGO,
+ * scaled by the voyage weather factor when available) and each intermediate port stay at berth
+ */
+async function buildItineraryLegs(
+  route: RouteData,
+  consumption: NonNullable<MultiAgentState['vessel_consumption']>,
+  weather: MultiAgentState['weather_consumption'],
+  departure?: string
+): Promise<EUETSLegInput[]> {
+  const routeLegs = route.legs ?? [];
+  const segments = voyageItineraryEngine.buildSegments(routeLegs, consumption);
+  const seaFuelTotal = segments
+    .filter((seg) => seg.type === 'sea')
+    .reduce((sum, seg) => sum + (seg.main_engine_mt_per_day + seg.auxiliary_mt_per_day) * seg.duration_days, 0);
+  const weatherFactor = weather && seaFuelTotal > 0 ? weather.weather_adjusted_consumption_mt / seaFuelTotal : 1;
+
+  const legs: EUETSLegInput[] = [];
+  let elapsedDays = 0;
+  for (const seg of segments) {
+    const segmentStart = departure
+      ? new Date(new Date(departure).getTime() + elapsedDays * 24 * 3600000).toISOString()
+      : undefined;
+    elapsedDays += seg.duration_days;
+    if (seg.type === 'port') {
+      legs.push({
+        from_port_code: seg.from_port_code,
+        at_berth: true,
+        fuel_consumed_mt: { LSMGO: seg.auxiliary_mt_per_day * seg.duration_days },
+      });
+      continue;
+    }
+
+    const leg = routeLegs[seg.leg_index];
+    const legEca = await executeECAZoneValidatorTool({
+      route_waypoints: route.waypoints.slice(leg.start_waypoint_index, leg.end_waypoint_index + 1),
+      vessel_speed_knots: SPEED_CONFIG.DEFAULT_VESSEL_SPEED_KNOTS,
+      vessel_consumption: consumption,
+      departure_datetime: segmentStart,
+    });
+    const totalFuel = (seg.main_engine_mt_per_day + seg.auxiliary_mt_per_day) * seg.duration_days * weatherFactor;
+    const ecaMgo = Math.min(totalFuel, legEca.fuel_requirements.total_mgo_required_mt);
+    legs.push({
+      from_port_code: seg.from_port_code,
+      to_port_code: seg.to_port_code,
+      fuel_consumed_mt: { VLSFO: totalFuel - ecaMgo, LSMGO: ecaMgo },
+    });
+  }
+  return legs;
+}
@@ -354,6 +354,14 @@ export function hasPrerequisites(agent: string, state: MultiAgentState): boolean
       // Route agent has no prerequisites
       return true;
       
+    case 'cii_agent':
+      // CII needs ship type and DWT from vessel_info_agent
+      return (state.vessel_specs?.length ?? 0) > 0;
+
+    case 'cp_performance_agent':
+      // CP performance needs the vessel IMO (entity extractor or vessel_info_agent)
+      return (state.vessel_identifiers?.imos?.length ?? 0) > 0 || (state.vessel_specs?.length ?? 0) > 0;
+
     case 'hull_performance_agent':
       // Hull performance needs vessel_identifiers from entity extractor
       return !!(
@@ -382,6 +390,16 @@ export function getMissingPrerequisites(agent: string, state: MultiAgentState):
       if (!state.route_data) missing.push('route_data');
       break;
       
+    case 'cii_agent':
+      if ((state.vessel_specs?.length ?? 0) === 0) missing.push('vessel_specs');
+      break;
+
+    case 'cp_performance_agent':
+      if ((state.vessel_identifiers?.imos?.length ?? 0) === 0 && (state.vessel_specs?.length ?? 0) === 0) {
+        missing.push('vessel_identifiers');
+      }
+      break;
+
     case 'hull_performance_agent':
       if (
         !state.vessel_identifiers ||
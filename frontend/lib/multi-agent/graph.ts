@@ -21,6 +21,8 @@ import {
 import './agent-nodes';
 import { entityExtractorAgentNode } from './agents/entity-extractor-agent';
 import { hullPerformanceAgentNode } from './agents/hull-performance-agent';
+import { ciiAgentNode } from './agents/cii-agent';
+import { cpPerformanceAgentNode } from './agents/cp-performance-agent';
 import {
   supervisorAgentNode,
   routeAgentNode,
@@ -31,6 +33,7 @@ import {
   finalizeNode,
 } from './agent-nodes';
 import { vesselInfoAgentNode } from './vessel-info-agent-node';
+import { withBusinessRules } from './helpers/business-rules';
 import { AgentRegistry } from './registry';
 import { getCheckpointer } from '@/lib/persistence/redis-checkpointer';
 
@@ -307,13 +310,15 @@ const workflow = new StateGraph(MultiAgentStateAnnotation)
   // ========================================================================
   .addNode('supervisor', supervisorAgentNode)
   .addNode('entity_extractor', entityExtractorAgentNode)  // Extracts vessel names/IMOs from query
-  .addNode('route_agent', routeAgentNode)      // Now deterministic workflow
-  .addNode('compliance_agent', complianceAgentNode)  // Deterministic workflow
-  .addNode('weather_agent', weatherAgentNode)  // Now deterministic workflow
-  .addNode('bunker_agent', bunkerAgentNode)    // Now deterministic workflow
-  .addNode('vessel_selection_agent', vesselSelectionAgentNode)  // Multi-vessel comparison
-  .addNode('vessel_info_agent', vesselInfoAgentNode)  // Vessel master data, count, list (VesselDetails API)
-  .addNode('hull_performance_agent', hullPerformanceAgentNode)  // Hull condition, fouling, excess power (fetch_hull_performance)
+  .addNode('route_agent', withBusinessRules('route_agent', routeAgentNode))      // Now deterministic workflow
+  .addNode('compliance_agent', withBusinessRules('compliance_agent', complianceAgentNode))  // Deterministic workflow
+  .addNode('weather_agent', withBusinessRules('weather_agent', weatherAgentNode))  // Now deterministic workflow
+  .addNode('bunker_agent', withBusinessRules('bunker_agent', bunkerAgentNode))    // Now deterministic workflow
+  .addNode('vessel_selection_agent', withBusinessRules('vessel_selection_agent', vesselSelectionAgentNode))  // Multi-vessel comparison
+  .addNode('vessel_info_agent', withBusinessRules('vessel_info_agent', vesselInfoAgentNode))  // Vessel master data, count, list (VesselDetails API)
+  .addNode('hull_performance_agent', withBusinessRules('hull_performance_agent', hullPerformanceAgentNode))  // Hull condition, fouling, excess power (fetch_hull_performance)
+  .addNode('cii_agent', withBusinessRules('cii_agent', ciiAgentNode))  // CII rating and end-of-year projection (enable_cii_agent)
+  .addNode('cp_performance_agent', withBusinessRules('cp_performance_agent', cpPerformanceAgentNode))  // Charter-party speed/consumption claim
   .addNode('finalize', finalizeNode)           // Still LLM-based
 
   // ========================================================================
@@ -339,6 +344,8 @@ const workflow = new StateGraph(MultiAgentStateAnnotation)
     vessel_selection_agent: 'vessel_selection_agent',
     vessel_info_agent: 'vessel_info_agent',
     hull_performance_agent: 'hull_performance_agent',
+    cii_agent: 'cii_agent',
+    cp_performance_agent: 'cp_performance_agent',
     finalize: 'finalize',
     supervisor: 'supervisor',  // AGENTIC: Allow supervisor self-loop for continued reasoning
     [END]: END,
@@ -384,6 +391,16 @@ const workflow = new StateGraph(MultiAgentStateAnnotation)
   // ========================================================================
   .addEdge('hull_performance_agent', 'supervisor')
 
+  // ========================================================================
+  // CII Agent Workflow (deterministic - goes back to supervisor)
+  // ========================================================================
+  .addEdge('cii_agent', 'supervisor')
+
+  // ========================================================================
+  // CP Performance Agent Workflow (deterministic - goes back to supervisor)
+  // ========================================================================
+  .addEdge('cp_performance_agent', 'supervisor')
+
   // ========================================================================
   // Finalize to End
   // ========================================================================
@@ -519,6 +536,10 @@ async function planExecutorNode(state: MultiAgentState): Promise<Partial<MultiAg
 
     return {
       ...result.finalState,
+      // The trace reducer appends: return only the outcomes recorded while executing the plan
+      business_rules_trace: (result.finalState.business_rules_trace ?? []).slice(
+        (state.business_rules_trace ?? []).length
+      ),
       execution_result: {
         planId: result.planId,
         success: result.success,
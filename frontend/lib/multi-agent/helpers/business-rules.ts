@@ -0,0 +1,61 @@
+/**
+ * Business Rules Hook
+ *
+ * Wraps an agent node so the Business Rules Engine runs around it:
+ * - pre_execution rules are evaluated on the incoming state; a blocking rule skips the agent
+ * - post_execution rules are evaluated on the state including the agent's update; a blocking
+ *   rule discards the agent's output
+ * The update carries only this agent's evaluations; the state reducer appends them to
+ * state.business_rules_trace.
+ */
+
+import { businessRulesEngine, type BusinessRuleOutcome } from '@/lib/engines/business-rules-engine';
+import type { MultiAgentState } from '@/lib/multi-agent/state';
+
+type AgentNode = (state: MultiAgentState) => Promise<Partial<MultiAgentState>>;
+
+/**
+ * State update that marks the agent as blocked by a business rule
+ */
+function blockedUpdate(
+  agentId: string,
+  state: MultiAgentState,
+  reason: string,
+  trace: BusinessRuleOutcome[],
+  agentUpdate?: Partial<MultiAgentState>
+): Partial<MultiAgentState> {
+  console.warn(`🚫 [BUSINESS-RULES] ${agentId} blocked: ${reason}`);
+  return {
+    agent_status: { ...(state.agent_status || {}), ...(agentUpdate?.agent_status || {}), [agentId]: 'failed' },
+    agent_errors: {
+      ...(state.agent_errors || {}),
+      [agentId]: { error: `Blocked by business rule: ${reason}`, timestamp: Date.now() },
+    },
+    business_rules_trace: trace,
+  };
+}
+
+/**
+ * Run business rules before and after an agent node
+ *
+ * @param agentId - Agent ID as used in rule appliesTo (e.g. 'bunker_agent')
+ * @param node - Agent node function
+ */
+export function withBusinessRules(agentId: string, node: AgentNode): AgentNode {
+  return async (state: MultiAgentState) => {
+    const pre = businessRulesEngine.evaluate(agentId, 'pre_execution', state);
+    if (pre.blocked) {
+      return blockedUpdate(agentId, state, pre.block_reason ?? 'pre-execution rule', pre.outcomes);
+    }
+
+    const update = await node(state);
+
+    const post = businessRulesEngine.evaluate(agentId, 'post_execution', { ...state, ...update } as MultiAgentState);
+    const trace = [...pre.outcomes, ...post.outcomes];
+    if (post.blocked) {
+      return blockedUpdate(agentId, state, post.block_reason ?? 'post-execution rule', trace, update);
+    }
+
+    return { ...update, business_rules_trace: trace };
+  };
+}
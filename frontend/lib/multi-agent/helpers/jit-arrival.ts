@@ -0,0 +1,49 @@
+/**
+ * JIT Arrival Helper
+ *
+ * Route agent JIT mode: when the voyage has a berth window at the destination (next_voyage_details
+ * or the query), plan the arrival for when the berth is expected to be free, using anchorage
+ * waiting from the port congestion source. Returns null when there is no window.
+ */
+
+import { jitArrivalEngine, type JitArrivalPlan } from '@/lib/engines/jit-arrival-engine';
+import { getAnchorageWaitingEstimate } from '@/lib/services/port-congestion-service';
+import { extractArrivalWindow } from '@/lib/utils/arrival-window-extractor';
+import type { MultiAgentState } from '../state';
+
+/**
+ * Plan a just-in-time arrival for the calculated route.
+ *
+ * @throws Error when the window or departure cannot be planned (see JitArrivalEngine.plan)
+ */
+export async function planJitArrivalForRoute(
+  state: MultiAgentState,
+  userQuery: string
+): Promise<JitArrivalPlan | null> {
+  const route = state.route_data;
+  if (!route || !(route.distance_nm > 0)) return null;
+
+  const voyage = state.next_voyage_details;
+  const window = voyage?.arrival_window_start
+    ? { start: voyage.arrival_window_start, end: voyage.required_arrival_date }
+    : extractArrivalWindow(userQuery);
+  if (!window) return null;
+
+  const waiting = await getAnchorageWaitingEstimate(route.destination_port_code, window.start);
+  const portStayHours = (route.legs ?? []).reduce((sum, leg) => sum + (leg.port_stay_hours ?? 0), 0);
+  const plan = jitArrivalEngine.plan({
+    distance_nm: route.distance_nm,
+    planned_departure:
+      state.itinerary?.departure_date ??
+      voyage?.departure_date ??
+      state.vessel_timeline?.[0]?.datetime ??
+      new Date().toISOString(),
+    service_speed_knots:
+      state.itinerary?.speed_knots ?? state.agent_context?.route_agent?.vessel_speed ?? voyage?.speed ?? 14,
+    port_stay_hours: portStayHours,
+    window_start: window.start,
+    ...(window.end && { window_end: window.end }),
+    anchorage_waiting_hours: waiting?.waiting_hours ?? 0,
+  });
+  return waiting ? { ...plan, anchorage_waiting_source: waiting.source } : plan;
+}
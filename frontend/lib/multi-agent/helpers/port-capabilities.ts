@@ -0,0 +1,42 @@
+/**
+ * Port Capabilities Helper
+ *
+ * Supply rate and berth availability of the bunker ports found along the route, used by the
+ * bunker analyzer and multi-port optimizer to cost each port call. Ports whose capabilities
+ * cannot be fetched are left out; the port call cost then falls back to the port table and defaults.
+ */
+
+import { bunkerDataService } from '@/lib/services/bunker-data-service';
+import type { FoundPort } from '@/lib/tools/port-finder';
+import type { PortCapabilities } from '@/lib/types/bunker';
+
+/**
+ * Fetch port capabilities for bunker ports.
+ *
+ * @returns Capabilities keyed by port code (port name when the code is missing)
+ */
+export async function fetchBunkerPortCapabilities(ports: FoundPort[]): Promise<Record<string, PortCapabilities>> {
+  const keys = Array.from(
+    new Set(
+      ports
+        .map((found) => (found.port?.port_code && String(found.port.port_code).trim()) || found.port?.name?.trim() || '')
+        .filter(Boolean)
+    )
+  );
+
+  const results = await Promise.allSettled(keys.map((key) => bunkerDataService.fetchPortCapabilities(key)));
+  const capabilities: Record<string, PortCapabilities> = {};
+  const failed: string[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled' && result.value) {
+      capabilities[keys[i]] = result.value;
+    } else {
+      failed.push(keys[i]);
+    }
+  });
+
+  if (failed.length > 0) {
+    console.warn(`[BUNKER-WORKFLOW] Port capabilities unavailable for ${failed.join(', ')}; using port table defaults`);
+  }
+  return capabilities;
+}
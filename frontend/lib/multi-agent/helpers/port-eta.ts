@@ -0,0 +1,71 @@
+/**
+ * Port ETA Helper
+ *
+ * Estimated arrival date at each bunker port found along the route, used by the bunker
+ * analyzer to project prices to the stem date. Uses the vessel timeline position nearest
+ * the port's route waypoint when a timeline exists; otherwise departure (or now) plus the
+ * distance sailed to that waypoint and the run off the route at service speed.
+ */
+
+import type { FoundPort } from '@/lib/tools/port-finder';
+import type { VesselPosition } from '@/lib/multi-agent/state';
+import type { Coordinates } from '@/lib/types';
+import { haversineDistance } from '@/lib/utils/coordinate-validator';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export interface PortArrivalParams {
+  ports: FoundPort[];
+  waypoints: Coordinates[];
+  speed_knots: number;
+  departure_date?: string | Date;
+  vessel_timeline?: VesselPosition[] | null;
+}
+
+/**
+ * Estimate arrival dates for bunker ports.
+ *
+ * @returns ISO arrival date keyed by port code (port name when the code is missing)
+ */
+export function estimatePortArrivalDates(params: PortArrivalParams): Record<string, string> {
+  const { ports, waypoints, speed_knots, vessel_timeline } = params;
+  const departure = params.departure_date ? new Date(params.departure_date) : new Date();
+  const departureMs = Number.isNaN(departure.getTime()) ? Date.now() : departure.getTime();
+
+  // Cumulative distance (nm) along the route to each waypoint
+  const cumulativeNm: number[] = [0];
+  for (let i = 1; i < waypoints.length; i++) {
+    cumulativeNm.push(cumulativeNm[i - 1] + haversineDistance(waypoints[i - 1], waypoints[i]));
+  }
+
+  const arrivals: Record<string, string> = {};
+  for (const found of ports) {
+    const key = found.port?.port_code || found.port?.name;
+    if (!key) continue;
+
+    const offRouteHours = speed_knots > 0 ? found.distance_from_route_nm / speed_knots : 0;
+    let routeMs: number | null = null;
+
+    if (vessel_timeline && vessel_timeline.length > 0 && found.nearest_waypoint) {
+      let nearest = vessel_timeline[0];
+      let nearestNm = Infinity;
+      for (const position of vessel_timeline) {
+        const nm = haversineDistance(position, found.nearest_waypoint);
+        if (nm < nearestNm) {
+          nearest = position;
+          nearestNm = nm;
+        }
+      }
+      const time = new Date(nearest.datetime).getTime();
+      if (Number.isFinite(time)) routeMs = time;
+    }
+
+    if (routeMs === null) {
+      const sailedNm = cumulativeNm[Math.min(Math.max(0, found.nearest_waypoint_index), cumulativeNm.length - 1)] ?? 0;
+      routeMs = departureMs + (speed_knots > 0 ? (sailedNm / speed_knots) * MS_PER_HOUR : 0);
+    }
+
+    arrivals[key] = new Date(routeMs + offRouteHours * MS_PER_HOUR).toISOString();
+  }
+  return arrivals;
+}
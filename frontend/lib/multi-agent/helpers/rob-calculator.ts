@@ -2,8 +2,8 @@
  * ROB Calculation Helper
  *
  * Integrates ROB Tracking Engine with bunker agent workflow.
- * Builds ROBTrackingInput from RouteData (single segment or derived from waypoints)
- * and optional weather/vessel profile.
+ * Builds ROBTrackingInput from RouteData (single segment, derived from waypoints, or one
+ * segment per itinerary leg and port stay) and optional weather/vessel profile.
  */
 
 import {
@@ -18,12 +18,17 @@ import {
   type ECAConsumptionOutput,
   type RouteSegment as ECARouteSegment,
 } from '@/lib/engines/eca-consumption-engine';
+import { safetyMarginEngine, type SafetyMarginOutput } from '@/lib/engines/safety-margin-engine';
+import { voyageItineraryEngine } from '@/lib/engines/voyage-itinerary-engine';
 import type { RouteData, WeatherConsumption } from '@/lib/multi-agent/state';
 import type { Port } from '@/lib/types';
+import type { ScrubberFitment } from '@/lib/types/bunker';
 
 export interface CalculateROBResult {
   rob: ROBTrackingOutput;
   ecaConsumption: ECAConsumptionOutput | null;
+  /** Reserve applied to the ROB safety checks (SafetyMarginEngine) */
+  safetyMargin: SafetyMarginOutput;
 }
 
 export interface VesselROBProfile {
@@ -31,6 +36,8 @@ export interface VesselROBProfile {
   capacity: FuelQuantity;
   consumption_vlsfo_per_day: number;
   consumption_lsmgo_per_day: number;
+  /** Scrubber-fitted vessels burn HSFO on ECA-aware routes where the scrubber may run */
+  scrubber?: ScrubberFitment;
 }
 
 /**
@@ -58,16 +65,77 @@ function buildSegmentsFromRoute(
   ];
 }
 
+/**
+ * Derive voyage segments from the weather agent's per-segment breakdown so consumption
+ * rises on the legs where bad weather is met. Segment durations are scaled to the route's
+ * estimated_hours by distance share.
+ */
+function buildSegmentsFromWeather(
+  route: RouteData,
+  weatherSegments: NonNullable<WeatherConsumption['segment_breakdown']>,
+  consumptionVlsfoPerDay: number,
+  consumptionLsmgoPerDay: number
+): ROBTrackingInput['segments'] {
+  const durationDays = route.estimated_hours / 24;
+  const totalDistance = weatherSegments.reduce((sum, seg) => sum + seg.distance_nm, 0);
+  const last = weatherSegments.length - 1;
+  return weatherSegments.map((seg, i) => {
+    const share = totalDistance > 0 ? seg.distance_nm / totalDistance : 1 / weatherSegments.length;
+    return {
+      from: i === 0 ? route.origin_port_code : `Segment ${i + 1}`,
+      to: i === last ? route.destination_port_code : `Segment ${i + 2}`,
+      distance_nm: route.distance_nm * share,
+      consumption_mt_per_day: {
+        VLSFO: consumptionVlsfoPerDay * seg.consumption_factor,
+        LSMGO: consumptionLsmgoPerDay * seg.consumption_factor,
+      },
+      duration_days: durationDays * share,
+    };
+  });
+}
+
+/**
+ * Derive voyage segments from an itinerary route: one per sea leg (ballast-adjusted main
+ * engine consumption × weather factor) and one per intermediate port stay (auxiliary only),
+ * so bunkering can be placed at any call.
+ */
+function buildSegmentsFromItinerary(
+  route: RouteData,
+  consumptionVlsfoPerDay: number,
+  consumptionLsmgoPerDay: number,
+  weatherFactor: number
+): ROBTrackingInput['segments'] {
+  return voyageItineraryEngine
+    .buildSegments(route.legs ?? [], {
+      main_engine_mt_per_day: consumptionVlsfoPerDay,
+      auxiliary_mt_per_day: consumptionLsmgoPerDay,
+    })
+    .map((seg) => {
+      const factor = seg.type === 'sea' ? weatherFactor : 1;
+      return {
+        from: seg.from_port_code,
+        to: seg.type === 'port' ? `${seg.to_port_code} (in port)` : seg.to_port_code,
+        distance_nm: seg.distance_nm,
+        consumption_mt_per_day: {
+          VLSFO: seg.main_engine_mt_per_day * factor,
+          LSMGO: seg.auxiliary_mt_per_day * factor,
+        },
+        duration_days: seg.duration_days,
+      };
+    });
+}
+
 /**
  * Calculate ROB for the voyage using the ROB Tracking Engine.
  * Uses vesselProfile.initial_rob as ROB at start of voyage (single input for voyage calculations).
  *
  * @param route - Route data (distance, duration, origin, destination)
- * @param weather - Optional weather consumption for avg_multiplier
+ * @param weather - Optional weather consumption (per-segment factors when available, else avg_multiplier)
  * @param vesselProfile - Initial ROB (at start of voyage), capacity, consumption rates
  * @param bunkerPort - Optional bunker port (uses name for waypoint)
  * @param bunkerQuantity - Optional fuel to add at bunker port
- * @param ecaSegments - Optional ECA-aware route segments (from compliance_data). When set, ECA engine is used.
+ * @param ecaSegments - Optional ECA-aware route segments (from compliance_data). When set, ECA engine is used
+ *   (except for itinerary routes, which are tracked per leg and port stay).
  */
 export function calculateROBForVoyage(
   route: RouteData,
@@ -79,6 +147,44 @@ export function calculateROBForVoyage(
 ): CalculateROBResult {
   const weatherFactor = weather?.voyage_weather_summary?.avg_multiplier ?? 1.0;
   const speedKnots = 14;
+  const weatherRisk = safetyMarginEngine.assessWeatherRisk(weather);
+  const dailyConsumption: FuelQuantity = {
+    VLSFO: vesselProfile.consumption_vlsfo_per_day * weatherFactor,
+    LSMGO: vesselProfile.consumption_lsmgo_per_day * weatherFactor,
+  };
+
+  if (route.legs && route.legs.length > 0) {
+    const segments = buildSegmentsFromItinerary(
+      route,
+      vesselProfile.consumption_vlsfo_per_day,
+      vesselProfile.consumption_lsmgo_per_day,
+      weatherFactor
+    );
+    // Bunker while at the call (after arriving there), or at departure for the first call / other ports
+    const arrivalIndex = bunkerPort
+      ? segments.findIndex((seg) => seg.to === bunkerPort.port_code)
+      : -1;
+    if (bunkerPort && bunkerQuantity) {
+      console.log(`📍 [ROB-CALC] Itinerary route: Bunker at ${bunkerPort.name} (segment_index: ${arrivalIndex})`);
+    }
+
+    const safetyMargin = safetyMarginEngine.calculateSafetyMargin({
+      voyage_days: segments.reduce((sum, seg) => sum + seg.duration_days, 0),
+      daily_consumption: dailyConsumption,
+      weather_risk: weatherRisk,
+    });
+    const rob = robTrackingEngine.calculateROBTracking({
+      initial_rob: vesselProfile.initial_rob,
+      vessel_capacity: vesselProfile.capacity,
+      segments,
+      bunker_stops:
+        bunkerPort && bunkerQuantity
+          ? [{ port_name: bunkerPort.name, quantity_to_bunker: bunkerQuantity, segment_index: arrivalIndex }]
+          : undefined,
+      safety_margin_days: safetyMargin.required_days,
+    });
+    return { rob, ecaConsumption: null, safetyMargin };
+  }
 
   if (ecaSegments && ecaSegments.length > 0) {
     const ecaInput: ECAConsumptionInput = {
@@ -91,19 +197,39 @@ export function calculateROBForVoyage(
       route_segments: ecaSegments,
       speed_knots: speedKnots,
       weather_factor: weatherFactor,
+      scrubber: vesselProfile.scrubber,
     };
     const ecaConsumption = ecaConsumptionEngine.calculateConsumption(ecaInput);
     console.log('📊 [ECA ENGINE] Consumption calculation:');
     console.log(`  - Total VLSFO: ${ecaConsumption.total_consumption_mt.VLSFO.toFixed(1)} MT`);
     console.log(`  - Total LSMGO: ${ecaConsumption.total_consumption_mt.LSMGO.toFixed(1)} MT`);
+    if (vesselProfile.scrubber?.fitted) {
+      console.log(`  - Total HSFO: ${ecaConsumption.total_consumption_mt.HSFO.toFixed(1)} MT`);
+    }
     console.log(
       `  - ECA distance: ${ecaConsumption.eca_distance_nm.toFixed(0)} nm (${ecaConsumption.eca_percentage.toFixed(1)}%)`
     );
+    const safetyMargin = safetyMarginEngine.calculateSafetyMargin({
+      voyage_days: ecaConsumption.total_duration_days,
+      daily_consumption: dailyConsumption,
+      voyage_consumption: {
+        VLSFO: ecaConsumption.total_consumption_mt.VLSFO,
+        LSMGO: ecaConsumption.total_consumption_mt.LSMGO,
+      },
+      weather_risk: weatherRisk,
+      eca_consumption_mt: ecaConsumption.segments
+        .filter((seg) => seg.is_eca)
+        .reduce((sum, seg) => sum + seg.consumption_mt.LSMGO, 0),
+    });
     const robSegments: ROBTrackingInput['segments'] = ecaConsumption.segments.map((seg) => ({
       from: seg.from,
       to: seg.to,
       distance_nm: seg.distance_nm,
-      consumption_mt_per_day: { VLSFO: seg.consumption_mt_per_day.VLSFO, LSMGO: seg.consumption_mt_per_day.LSMGO },
+      consumption_mt_per_day: {
+        VLSFO: seg.consumption_mt_per_day.VLSFO,
+        LSMGO: seg.consumption_mt_per_day.LSMGO,
+        ...(vesselProfile.scrubber?.fitted && { HSFO: seg.consumption_mt_per_day.HSFO }),
+      },
       duration_days: seg.duration_days,
     }));
     
@@ -130,17 +256,25 @@ export function calculateROBForVoyage(
       vessel_capacity: vesselProfile.capacity,
       segments: robSegments,
       bunker_stops: bunkerStopsECA,
-      safety_margin_days: 3,
+      safety_margin_days: safetyMargin.required_days,
     });
-    return { rob, ecaConsumption };
+    return { rob, ecaConsumption, safetyMargin };
   }
 
-  const segments = buildSegmentsFromRoute(
-    route,
-    vesselProfile.consumption_vlsfo_per_day,
-    vesselProfile.consumption_lsmgo_per_day,
-    weatherFactor
-  );
+  const segments =
+    weather?.segment_breakdown && weather.segment_breakdown.length > 0
+      ? buildSegmentsFromWeather(
+          route,
+          weather.segment_breakdown,
+          vesselProfile.consumption_vlsfo_per_day,
+          vesselProfile.consumption_lsmgo_per_day
+        )
+      : buildSegmentsFromRoute(
+          route,
+          vesselProfile.consumption_vlsfo_per_day,
+          vesselProfile.consumption_lsmgo_per_day,
+          weatherFactor
+        );
 
   // CRITICAL FIX: For single-segment routes, use segment_index: -1
   // This means bunker happens at departure (BEFORE sailing) not after destination.
@@ -168,15 +302,21 @@ export function calculateROBForVoyage(
         ]
       : undefined;
 
+  const safetyMargin = safetyMarginEngine.calculateSafetyMargin({
+    voyage_days: route.estimated_hours / 24,
+    daily_consumption: dailyConsumption,
+    weather_risk: weatherRisk,
+  });
+
   const input: ROBTrackingInput = {
     initial_rob: vesselProfile.initial_rob,
     vessel_capacity: vesselProfile.capacity,
     segments,
     bunker_stops: bunkerStops,
-    safety_margin_days: 3,
+    safety_margin_days: safetyMargin.required_days,
   };
 
-  return { rob: robTrackingEngine.calculateROBTracking(input), ecaConsumption: null };
+  return { rob: robTrackingEngine.calculateROBTracking(input), ecaConsumption: null, safetyMargin };
 }
 
 /**
@@ -185,11 +325,14 @@ export function calculateROBForVoyage(
 export function formatROBSafetyStatus(
   robTracking: ROBTrackingOutput,
   consumptionVlsfoPerDay: number = 30,
-  consumptionLsmgoPerDay: number = 3
+  consumptionLsmgoPerDay: number = 3,
+  safetyMargin?: SafetyMarginOutput
 ): {
   overall_safe: boolean;
   minimum_rob_days: number;
   violations: string[];
+  required_safety_days?: number;
+  safety_margin_explanation?: string;
 } {
   const vlsfoDays =
     consumptionVlsfoPerDay > 0
@@ -205,5 +348,9 @@ export function formatROBSafetyStatus(
     overall_safe: robTracking.overall_safe,
     minimum_rob_days,
     violations: robTracking.safety_violations.map((v) => `${v.location}: ${v.issue}`),
+    ...(safetyMargin && {
+      required_safety_days: safetyMargin.required_days,
+      safety_margin_explanation: safetyMargin.explanation,
+    }),
   };
 }
@@ -0,0 +1,83 @@
+/**
+ * Speed Optimization Helper
+ *
+ * Cost-minimising speed profile for the vessel-specific bunker workflow: the vessel's
+ * speed-consumption curve from the performance model (cubic law around the planned speed when
+ * there is none), ECA / non-ECA legs of the route, fuel prices at the candidate bunker ports
+ * and the required arrival. Returns null when the voyage cannot be optimised.
+ */
+
+import { scrubberEconomicsEngine } from '@/lib/engines/scrubber-economics-engine';
+import { speedOptimizerEngine, type SpeedOptimizationResult } from '@/lib/engines/speed-optimizer-engine';
+import { getBaselineCurvesForVessel, type LoadCondition } from '@/lib/services/vessel-specs-from-performance';
+import type { Coordinates } from '@/lib/types';
+
+export interface VoyageSpeedParams {
+  imo: string;
+  load_condition: LoadCondition;
+  waypoints: Coordinates[];
+  origin_port_code: string;
+  destination_port_code: string;
+  /** Planned speed and main engine consumption at it (cubic-law fallback and reference) */
+  reference_speed_knots: number;
+  reference_consumption_mt_per_day: number;
+  weather_factor: number;
+  /** Average quoted prices at the candidate bunker ports (USD/MT) */
+  prices: {
+    VLSFO: number;
+    LSMGO?: number;
+  };
+  departure_date?: string;
+  required_arrival_date?: string;
+}
+
+/**
+ * Optimise voyage speed per ECA / non-ECA leg.
+ */
+export async function optimizeVoyageSpeed(params: VoyageSpeedParams): Promise<SpeedOptimizationResult | null> {
+  if (!(params.prices.VLSFO > 0) || params.waypoints.length < 2) return null;
+
+  try {
+    const curves = await getBaselineCurvesForVessel(params.imo);
+    const modelCurve = params.load_condition === 'ballast' ? curves?.ballast : curves?.laden;
+    const curve =
+      modelCurve && modelCurve.length > 1
+        ? modelCurve
+        : speedOptimizerEngine.buildCubicCurve(params.reference_speed_knots, params.reference_consumption_mt_per_day);
+
+    const result = speedOptimizerEngine.optimize({
+      legs: scrubberEconomicsEngine
+        .buildRouteSegments(
+          params.waypoints,
+          params.origin_port_code,
+          params.destination_port_code,
+          params.departure_date
+            ? { departure: new Date(params.departure_date), speed_knots: params.reference_speed_knots }
+            : undefined
+        )
+        .map((segment) => ({
+          distance_nm: segment.distance_nm,
+          is_eca: segment.is_eca,
+          label: segment.eca_zone_name ?? `${segment.from} → ${segment.to}`,
+        })),
+      consumption_curve: curve,
+      weather_factor: params.weather_factor,
+      prices: params.prices,
+      departure_date: params.departure_date,
+      required_arrival_date: params.required_arrival_date,
+      reference_speed_knots: params.reference_speed_knots,
+    });
+    if (!modelCurve || modelCurve.length <= 1) {
+      result.warnings.push(
+        `No performance model curve for IMO ${params.imo}; consumption assumed to scale with the cube of speed`
+      );
+    }
+    return result;
+  } catch (error) {
+    console.warn(
+      '[BUNKER-WORKFLOW] Speed optimisation failed:',
+      error instanceof Error ? error.message : String(error)
+    );
+    return null;
+  }
+}
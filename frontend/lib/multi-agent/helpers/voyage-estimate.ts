@@ -0,0 +1,62 @@
+/**
+ * Voyage Estimate Helper
+ *
+ * Revenue terms from the conversation and the voyage P&L / TCE for the vessel-specific bunker
+ * workflow and the vessel selection agent. Returns null when the query states no freight,
+ * lumpsum or hire, or the voyage cannot be estimated.
+ */
+
+import { HumanMessage } from '@langchain/core/messages';
+import type { MultiAgentState } from '../state';
+import {
+  voyageEstimateEngine,
+  type VoyageEstimate,
+  type VoyageEstimateInput,
+  type VoyageRevenueTerms,
+} from '@/lib/engines/voyage-estimate-engine';
+import { extractVoyageRevenue } from '@/lib/utils/voyage-revenue-extractor';
+
+/**
+ * Revenue terms from the most recent user message that states a freight rate, lumpsum or hire
+ */
+export function findVoyageRevenue(state: MultiAgentState): VoyageRevenueTerms | null {
+  const userMessages = (state.messages ?? []).filter((m) => m instanceof HumanMessage).reverse();
+  for (const message of userMessages) {
+    const revenue = extractVoyageRevenue(message.content?.toString() ?? '');
+    if (revenue) return revenue;
+  }
+  return null;
+}
+
+/**
+ * Voyage P&L and TCE; null (with a warning logged) when the terms cannot be evaluated,
+ * e.g. a freight rate without a cargo quantity.
+ */
+export function estimateVoyage(input: VoyageEstimateInput): VoyageEstimate | null {
+  try {
+    return voyageEstimateEngine.estimate(input);
+  } catch (error) {
+    console.warn('[VOYAGE-ESTIMATE] Skipped:', error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
+/**
+ * One-line TCE summary for agent messages
+ */
+export function formatVoyageEstimate(estimate: VoyageEstimate): string {
+  const basis =
+    estimate.revenue_basis === 'freight'
+      ? `$${estimate.freight_usd_per_mt}/MT on ${Math.round(estimate.cargo_mt ?? 0).toLocaleString()} MT`
+      : estimate.revenue_basis === 'hire'
+        ? `hire $${Math.round(estimate.daily_hire_usd ?? 0).toLocaleString()}/day`
+        : `lumpsum $${Math.round(estimate.gross_revenue_usd).toLocaleString()}`;
+  return (
+    `TCE: $${Math.round(estimate.tce_usd_per_day).toLocaleString()}/day (${basis}, ` +
+    `${estimate.duration.total_days.toFixed(1)} days, voyage costs $${Math.round(estimate.costs.total_usd).toLocaleString()}); ` +
+    `net result $${Math.round(estimate.net_result_usd).toLocaleString()} after $${Math.round(estimate.daily_vessel_cost_usd).toLocaleString()}/day vessel cost` +
+    (estimate.breakeven_freight_usd_per_mt !== undefined
+      ? `; breakeven freight $${estimate.breakeven_freight_usd_per_mt.toFixed(2)}/MT`
+      : '')
+  );
+}
@@ -15,6 +15,26 @@ import type { ECAZoneValidatorOutput } from '../tools/eca-zone-validator';
 import type { FormattedResponse } from '../formatters/response-formatter';
 import type { ROBTrackingOutput, ROBWaypoint } from '@/lib/engines/rob-tracking-engine';
 import type { ECAConsumptionOutput } from '@/lib/engines/eca-consumption-engine';
+import type { CapacityLimits, CapacityViolation } from '@/lib/engines/capacity-validation-engine';
+import type { SafetyMarginRule } from '@/lib/engines/safety-margin-engine';
+import type { SegmentWeatherAdjustment } from '@/lib/engines/weather-adjustment-engine';
+import type { BusinessRuleOutcome } from '@/lib/engines/business-rules-engine';
+import type { CIIRatingResult } from '@/lib/engines/cii-calculator-engine';
+import type { CPPerformanceResult } from '@/lib/engines/cp-performance-engine';
+import type { EUETSResult } from '@/lib/engines/eu-ets-engine';
+import type { FuelEUResult } from '@/lib/engines/fueleu-maritime-engine';
+import type { SeaPassage } from '@/lib/engines/sea-routing-engine';
+import type { RouteComparisonResult } from '@/lib/engines/route-comparison-engine';
+import type { ScrubberComparison } from '@/lib/engines/scrubber-economics-engine';
+import type { DualFuelComparison } from '@/lib/engines/dual-fuel-economics-engine';
+import type { NoonReportDataQuality } from '@/lib/engines/noon-report-validation-engine';
+import type { BunkerPriceForecast } from '@/lib/engines/bunker-price-forecast-engine';
+import type { PortCallCost } from '@/lib/engines/port-call-cost-engine';
+import type { SpeedOptimizationResult } from '@/lib/engines/speed-optimizer-engine';
+import type { JitArrivalPlan } from '@/lib/engines/jit-arrival-engine';
+import type { VoyageEstimate } from '@/lib/engines/voyage-estimate-engine';
+import type { ItineraryPortCall, ItineraryRouteLeg, VoyageItinerary } from '@/lib/types/itinerary';
+import type { StemNomination } from '@/lib/types/bunker';
 import type { VesselProfile } from '@/lib/services/vessel-service';
 import type { HullPerformanceAnalysis, HullPerformanceChartData } from '@/lib/services/hull-performance-service';
 import type {
@@ -128,6 +148,8 @@ export interface AgentContext {
       destination?: string;
       origin_coordinates?: [number, number];
       destination_coordinates?: [number, number];
+      /** Intermediate calls between origin and destination, in order (names or codes) */
+      via?: string[];
     };
     /** Vessel speed extracted by supervisor */
     vessel_speed?: number;
@@ -213,6 +235,14 @@ export interface RouteData {
   origin_coordinates?: { lat: number; lon: number };
   /** Destination coordinates for map when port is not in ports.json */
   destination_coordinates?: { lat: number; lon: number };
+  /** Route id, unique per origin/destination/canal or cape passage (e.g. "SGSIN-NLRTM-suez_canal") */
+  route_id?: string;
+  /** Canals, straits, sea areas and capes passed, in voyage order */
+  passages?: SeaPassage[];
+  /** Estimated canal tolls (USD) */
+  canal_toll_usd?: number;
+  /** Sea legs between consecutive port calls (multi-port itinerary routes only) */
+  legs?: ItineraryRouteLeg[];
   /** Flag indicating if route came from cache */
   _from_cache?: boolean;
 }
@@ -295,6 +325,8 @@ export interface WeatherConsumption {
     avg_multiplier: number;
     worst_conditions_date: string;
   };
+  /** Per-segment heading-aware added resistance (when computed from the vessel timeline) */
+  segment_breakdown?: SegmentWeatherAdjustment[];
 }
 
 /**
@@ -355,7 +387,27 @@ export interface PortPrice {
  */
 export interface ComplianceData {
   eca_zones: ECAZoneValidatorOutput;
-  // Future: EU ETS, FuelEU, CII will be added here
+  /** EU ETS emissions cost for the voyage (when enable_eu_ets_agent is on) */
+  eu_ets?: EUETSResult;
+  /** FuelEU Maritime intensity, balance and penalty, with any blend what-if (when enable_fueleu_maritime is on) */
+  fueleu?: FuelEUResult;
+  /** Compliance per route alternative (when route_alternatives has more than one route) */
+  route_alternatives?: RouteAlternativeCompliance[];
+}
+
+/**
+ * ECA, EU ETS and FuelEU figures for one route alternative
+ */
+export interface RouteAlternativeCompliance {
+  route_id: string;
+  route_type: string;
+  distance_nm: number;
+  eca_distance_nm: number;
+  mgo_required_mt: number;
+  /** When enable_eu_ets_agent is on */
+  eu_ets_cost_usd?: number;
+  /** When enable_fueleu_maritime is on */
+  fueleu_penalty_eur?: number;
 }
 
 /**
@@ -379,8 +431,19 @@ export interface BunkerAnalysis {
     fuel_cost_usd: number;
     deviation_cost_usd: number;
     total_cost_usd: number;
+    /** EU ETS allowance cost of the deviation fuel (included in deviation and total cost) */
+    eu_ets_cost_usd?: number;
     rank: number;
     savings_vs_worst_usd?: number;
+    /** Estimated arrival date; fuel cost is at the expected price on arrival when set */
+    arrival_date?: string;
+    /** Primary fuel price projection to the ETA with confidence band */
+    price_forecast?: BunkerPriceForecast;
+    /** Fuel cost at the low and high end of the price confidence bands */
+    fuel_cost_range_usd?: { low: number; high: number };
+    /** Waiting, bunkering time, port dues and agency fee of the call (included in total cost) */
+    port_call_cost_usd?: number;
+    port_call?: PortCallCost;
   }>;
   /** Best (cheapest) option */
   best_option: {
@@ -390,8 +453,19 @@ export interface BunkerAnalysis {
     fuel_cost_usd: number;
     deviation_cost_usd: number;
     total_cost_usd: number;
+    /** EU ETS allowance cost of the deviation fuel (included in deviation and total cost) */
+    eu_ets_cost_usd?: number;
     rank: number;
     savings_vs_worst_usd?: number;
+    /** Estimated arrival date; fuel cost is at the expected price on arrival when set */
+    arrival_date?: string;
+    /** Primary fuel price projection to the ETA with confidence band */
+    price_forecast?: BunkerPriceForecast;
+    /** Fuel cost at the low and high end of the price confidence bands */
+    fuel_cost_range_usd?: { low: number; high: number };
+    /** Waiting, bunkering time, port dues and agency fee of the call (included in total cost) */
+    port_call_cost_usd?: number;
+    port_call?: PortCallCost;
   };
   /** Worst (most expensive) option */
   worst_option: {
@@ -401,13 +475,26 @@ export interface BunkerAnalysis {
     fuel_cost_usd: number;
     deviation_cost_usd: number;
     total_cost_usd: number;
+    /** EU ETS allowance cost of the deviation fuel (included in deviation and total cost) */
+    eu_ets_cost_usd?: number;
     rank: number;
     savings_vs_worst_usd?: number;
+    /** Estimated arrival date; fuel cost is at the expected price on arrival when set */
+    arrival_date?: string;
+    /** Primary fuel price projection to the ETA with confidence band */
+    price_forecast?: BunkerPriceForecast;
+    /** Fuel cost at the low and high end of the price confidence bands */
+    fuel_cost_range_usd?: { low: number; high: number };
+    /** Waiting, bunkering time, port dues and agency fee of the call (included in total cost) */
+    port_call_cost_usd?: number;
+    port_call?: PortCallCost;
   };
   /** Maximum potential savings */
   max_savings_usd: number;
   /** Human-readable analysis summary */
   analysis_summary: string;
+  /** Total voyage cost per route alternative (simple port-to-port, when route_alternatives has more than one route) */
+  route_comparison?: RouteComparisonResult;
   /** Query subtype when from vessel-specific workflow */
   query_type?: 'VESSEL_SPECIFIC' | 'SIMPLE_PORT_TO_PORT' | 'FLEET_COMPARISON' | 'CONSTRAINT_FIRST';
   /** Vessel context (vessel-specific only) */
@@ -437,7 +524,36 @@ export interface BunkerAnalysis {
     rob_before_mt: number;
     rob_after_mt: number;
     deviation_nm: number;
+    /** Set when the quantity was capped to fit usable tank capacity */
+    capacity_capped?: boolean;
+    /** HSFO part of the bunker quantity (scrubber-fitted vessels on the HSFO strategy) */
+    hsfo_quantity_mt?: number;
   }>;
+  /** Tank capacity check of recommended bunker quantities (vessel-specific only) */
+  capacity_validation?: {
+    within_capacity: boolean;
+    limits_applied: CapacityLimits;
+    violations: CapacityViolation[];
+  };
+  /** Safety reserve from the bunker_safety_margin rule (vessel-specific only) */
+  safety_margin?: {
+    required_days: number;
+    required_mt: number;
+    driving_rule: SafetyMarginRule;
+    explanation: string;
+  };
+  /** HSFO + scrubber vs VLSFO for the voyage (vessel-specific, scrubber-fitted vessels only) */
+  scrubber_comparison?: ScrubberComparison;
+  /** LNG gas mode vs oil for the voyage (vessel-specific, dual-fuel vessels only) */
+  dual_fuel_comparison?: DualFuelComparison;
+  /** Data quality of the noon reports behind the ROB (vessel-specific, ROB from datalogs only) */
+  data_quality?: NoonReportDataQuality;
+  /** Cost-minimising speed profile used for voyage time, ROB and bunker quantity (vessel-specific only) */
+  speed_optimization?: SpeedOptimizationResult;
+  /** Voyage P&L and TCE when the query gives freight, lumpsum or hire terms (vessel-specific only) */
+  voyage_estimate?: VoyageEstimate;
+  /** Draft stem nomination for the best option when its grades are bought on supplier quotes */
+  stem_nomination?: StemNomination;
   /** ISO timestamp when analysis was run */
   analysis_timestamp?: string;
   /** Constraint-first: extracted constraints */
@@ -473,6 +589,8 @@ export interface BunkerAnalysis {
 export interface FuelQuantityMT {
   VLSFO: number;
   LSMGO: number;
+  /** Scrubber-fitted vessels only */
+  HSFO?: number;
 }
 
 /**
@@ -497,24 +615,29 @@ export interface MultiBunkerStop {
   arrival_rob: FuelQuantityMT;
   /** ROB after bunkering (departure from this port) */
   departure_rob: FuelQuantityMT;
-  /** Estimated cost at this stop in USD */
+  /** Estimated fuel cost at this stop in USD */
   estimated_cost_usd: number;
+  /** Waiting, bunkering time, port dues and agency fee of the call (included in the plan total) */
+  port_call_cost_usd?: number;
   /** Fuel prices at this port */
   fuel_prices: {
     VLSFO: number;
     LSMGO: number;
+    HSFO?: number;
   };
   /** Estimated arrival time at this port */
   estimated_arrival?: string;
+  /** Set when the bunker quantity was reduced to fit usable tank capacity */
+  capacity_note?: string;
 }
 
 /**
- * A complete multi-port bunker plan (2-stop maximum in Phase 1)
+ * A complete multi-port bunker plan (up to max_stops bunker stops)
  */
 export interface MultiBunkerPlan {
-  /** Array of bunker stops (departure + mid-voyage) */
+  /** Array of bunker stops in route order (departure and/or en-route) */
   stops: MultiBunkerStop[];
-  /** Total cost across all stops in USD */
+  /** Total cost across all stops (fuel and port calls) in USD */
   total_cost_usd: number;
   /** Final ROB at destination */
   final_rob: FuelQuantityMT;
@@ -542,6 +665,11 @@ export interface MultiBunkerAnalysis {
   required: boolean;
   /** Reason multi-port is needed (human readable) */
   reason?: string;
+  /** Safety reserve used for ROB checks and which rule drove it */
+  safety_margin?: {
+    required_days: number;
+    explanation: string;
+  };
   /** Detailed capacity constraint info */
   capacity_constraint?: {
     voyage_consumption_mt: FuelQuantityMT;
@@ -570,9 +698,15 @@ export interface NextVoyageDetails {
   origin: string;
   destination: string;
   departure_date?: string;
+  /** Berth window opens at the destination (ISO 8601); with required_arrival_date as its end, enables JIT arrival planning */
+  arrival_window_start?: string;
+  /** Latest arrival at the destination (laycan end or required-by date, ISO 8601) */
+  required_arrival_date?: string;
   speed?: number;
   /** Cargo condition: 'ballast' or 'laden' - affects consumption */
   cargo_type?: string;
+  /** All calls in order when the voyage has intermediate calls (first = origin, last = destination) */
+  port_calls?: ItineraryPortCall[];
 }
 
 /**
@@ -597,8 +731,10 @@ export interface VesselComparisonAnalysis {
 export interface VesselComparisonAnalysisResult {
   /** Per-vessel analysis results (VesselAnalysisResult[] or VesselComparison[]) */
   vessels_analyzed: unknown[];
-  /** Vessels ranked by cost and feasibility */
+  /** Vessels ranked by cost and feasibility, or by TCE when revenue terms are given */
   rankings: unknown[];
+  /** Basis of the rankings (vessel selection agent) */
+  ranked_by?: 'cost' | 'tce';
   /** Recommended vessel name (best option) */
   recommended_vessel: string;
   /** Human-readable summary of the comparison */
@@ -792,6 +928,30 @@ export const MultiAgentStateAnnotation = Annotation.Root({
     default: () => null,
   }),
 
+  /**
+   * Route alternatives for the same origin/destination (e.g. via Suez vs via Cape of Good Hope);
+   * route_data is the selected alternative
+   */
+  route_alternatives: Annotation<RouteData[] | null>({
+    reducer: (x, y) => {
+      // New value overwrites old if provided
+      return y !== null && y !== undefined ? y : x;
+    },
+    default: () => null,
+  }),
+
+  /**
+   * Multi-port voyage itinerary (ordered port calls with port stays and cargo condition);
+   * route_data covers the whole itinerary with one leg per pair of calls
+   */
+  itinerary: Annotation<VoyageItinerary | null>({
+    reducer: (x, y) => {
+      // New value overwrites old if provided
+      return y !== null && y !== undefined ? y : x;
+    },
+    default: () => null,
+  }),
+
   /**
    * Vessel timeline positions from weather timeline tool
    */
@@ -807,6 +967,18 @@ export const MultiAgentStateAnnotation = Annotation.Root({
     default: () => null,
   }),
 
+  /**
+   * Just-in-time arrival plan for a berth window (recommended speed and departure,
+   * fuel and CO2 saved vs arriving early); vessel_timeline follows the recommended plan
+   */
+  jit_arrival_plan: Annotation<JitArrivalPlan | null>({
+    reducer: (x, y) => {
+      // New value overwrites old if provided
+      return y !== null && y !== undefined ? y : x;
+    },
+    default: () => null,
+  }),
+
   // ========================================================================
   // Weather Agent State
   // ========================================================================
@@ -1039,6 +1211,10 @@ export const MultiAgentStateAnnotation = Annotation.Root({
     overall_safe: boolean;
     minimum_rob_days: number;
     violations: string[];
+    /** Reserve required by SafetyMarginEngine (days of consumption) */
+    required_safety_days?: number;
+    /** Which safety rule drove the reserve */
+    safety_margin_explanation?: string;
   } | null>({
     reducer: (x, y) => (y != null ? y : x),
     default: () => null,
@@ -1138,6 +1314,25 @@ export const MultiAgentStateAnnotation = Annotation.Root({
     default: () => null,
   }),
 
+  /**
+   * CII rating (attained vs required, A–E) with end-of-year projection for the planned voyage.
+   * Populated by CII Agent from noon reports and vessel_specs.
+   */
+  cii_rating: Annotation<CIIRatingResult | null>({
+    reducer: (x, y) => (y !== undefined ? y : x),
+    default: () => null,
+  }),
+
+  /**
+   * Charter-party performance vs the speed/consumption warranty (good-weather method):
+   * time lost, over-consumption and claim/defence summary.
+   * Populated by CP Performance Agent from hull performance noon records.
+   */
+  cp_performance: Annotation<CPPerformanceResult | null>({
+    reducer: (x, y) => (y !== undefined ? y : x),
+    default: () => null,
+  }),
+
   // ========================================================================
   // Vessel Selection Agent State
   // ========================================================================
@@ -1411,6 +1606,16 @@ export const MultiAgentStateAnnotation = Annotation.Root({
     default: () => ({}),
   }),
 
+  /**
+   * Business rules evaluated during this request (fired, not fired and skipped), in evaluation order.
+   * Agents return only their new outcomes, which are appended, so parallel agents keep both traces.
+   * null resets the trace: each request sends it, since checkpointed threads keep earlier turns' outcomes.
+   */
+  business_rules_trace: Annotation<BusinessRuleOutcome[], BusinessRuleOutcome[] | null>({
+    reducer: (x, y) => (y === null ? [] : [...(x ?? []), ...(y ?? [])]),
+    default: () => [],
+  }),
+
   /**
    * Degraded mode flag - indicates system is operating with reduced functionality
    */
@@ -1566,6 +1771,7 @@ export const MultiAgentStateAnnotation = Annotation.Root({
     destination?: string; // UN/LOCODE format (e.g., "SGSIN")
     origin_coordinates?: [number, number];      // [latitude, longitude]
     destination_coordinates?: [number, number]; // [latitude, longitude]
+    via?: string[];       // Intermediate calls in order (names or codes)
   } | undefined>({
     reducer: (_, update) => update,
     default: () => undefined,
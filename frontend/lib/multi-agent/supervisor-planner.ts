@@ -23,6 +23,8 @@ export interface ExtractedEntities {
   origin?: string;
   /** Destination port name as mentioned in query */
   destination?: string;
+  /** Intermediate port calls between origin and destination, in voyage order (multi-port itineraries) */
+  via_ports?: string[];
   /** Vessel name if mentioned */
   vessel_name?: string;
   /** Fuel types requested */
@@ -594,7 +596,8 @@ Return a JSON object with this EXACT structure:
     "vessel_speed": null,
     "fuel_types": [{"type": "VLSFO", "quantity": 650, "unit": "MT"}],
     "departure_date": null,
-    "bunker_ports": []
+    "bunker_ports": [],
+    "via_ports": []
   },
   "execution_order": ["route_agent", "weather_agent", "bunker_agent"],
   "agent_tool_assignments": {
@@ -680,6 +683,7 @@ Example for hull performance by IMO ("Show hull performance for IMO 9876543"):
 }
 
 IMPORTANT: The extracted_entities field is MANDATORY. Always extract port names, query type, and other entities from the user's natural language query.
+For multi-port voyages ("Singapore → Colombo → Jeddah → Rotterdam", "from Santos to Qingdao calling at Cape Town"), put the first call in origin, the last in destination and the calls in between in via_ports, in order. Canals, straits and capes (e.g. "via Suez") are not port calls.
 For vessel-only queries (position, ROB, noon reports, vessel status), use execution_order: ["entity_extractor", "finalize"].
 For hull performance queries (hull condition, fouling, performance trends), use execution_order: ["entity_extractor", "hull_performance_agent", "finalize"] and assign fetch_hull_performance to hull_performance_agent.`;
 
@@ -463,6 +463,9 @@ Rules:
 - Respect dependencies (route_agent before bunker_agent, etc.)
 - Route to 'finalize' when all data is gathered
 - For hull performance, hull condition, fouling, or performance report queries, use hull_performance_agent (entity extraction runs first if needed).
+- For CII rating or carbon intensity queries, use cii_agent after vessel_info_agent has fetched vessel_specs (route_agent first if the user asks about a planned voyage's CII impact).
+- For charter-party performance, warranted speed/consumption, time lost or over-consumption claims, use cp_performance_agent (entity extraction runs first if the vessel IMO is missing).
+- For TCE or voyage P&L of one vessel at a freight rate, lumpsum or hire, use bunker_agent after route_agent (vessel-specific analysis estimates the TCE); for several vessels use vessel_selection_agent, which ranks on TCE.
 
 Set next_agent to the appropriate agent ID.`;
   }
@@ -30,7 +30,10 @@ function createEmptyState(): MultiAgentState {
     },
     selected_route_id: null,
     route_data: null,
+    route_alternatives: null,
+    itinerary: null,
     vessel_timeline: null,
+    jit_arrival_plan: null,
     weather_forecast: null,
     weather_consumption: null,
     port_weather_status: null,
@@ -51,6 +54,8 @@ function createEmptyState(): MultiAgentState {
     vessel_profile: null,
     hull_performance: null,
     hull_performance_charts: null,
+    cii_rating: null,
+    cp_performance: null,
     // Vessel performance (Hull/Machinery agents)
     vessel_identifiers: undefined,
     noon_reports: undefined,
@@ -74,6 +79,7 @@ function createEmptyState(): MultiAgentState {
     synthesis_data: null,
     agent_errors: {},
     agent_status: {},
+    business_rules_trace: [],
     // Agentic supervisor state
     reasoning_history: [],
     current_thought: null,
@@ -399,6 +399,8 @@ Input:
 - base_consumption_mt: Base fuel consumption estimate in metric tons
 - vessel_heading_deg: Average vessel heading in degrees (0-360)
 - fuel_type_breakdown: Optional breakdown by fuel type {VLSFO?: number, LSGO?: number}
+- vessel_timeline: Optional vessel positions from calculate_weather_timeline; when provided, impact is
+  calculated per segment from each leg's heading vs. wind/wave direction (head, beam, following seas)
 
 Output:
 - base_consumption_mt: Base consumption
@@ -408,6 +410,7 @@ Output:
 - breakdown_by_fuel_type: Optional fuel type breakdown
 - weather_alerts: Array of weather alerts for severe conditions
 - voyage_weather_summary: Summary statistics
+- segment_breakdown: Per-segment heading, encounter, added resistance and consumption (with vessel_timeline)
 
 Use this tool with weather data from fetch_marine_weather to calculate weather impact on fuel consumption.`,
     schema: weatherConsumptionInputSchema,
@@ -532,6 +535,7 @@ Input:
     ...
   ]
 - max_deviation_nm: Maximum deviation distance in nautical miles (default: 150)
+- port_call_codes: Port codes of the voyage's own calls for multi-port itineraries (optional)
 
 Output:
 - ports: Array of found ports with:
@@ -545,6 +549,7 @@ Output:
   - distance_from_route_nm: Distance from nearest waypoint
   - nearest_waypoint_index: Index of nearest waypoint
   - nearest_waypoint: {lat, lon}
+  - deviation_nm: Extra sea distance of calling at the port vs the direct route (0 for the voyage's own calls)
 - waypoints_analyzed: Number of waypoints analyzed
 - max_deviation_nm: Maximum deviation used
 - total_ports_found: Total number of ports found
@@ -587,7 +592,7 @@ export const getFuelPricesTool = tool(
     description: `Fetch current fuel prices for specified ports.
 
 This tool:
-- Retrieves prices for VLSFO, LSGO, and MGO fuel types
+- Retrieves prices for VLSFO, LSGO, MGO, HSFO and LNG fuel types
 - Includes price freshness indicators
 - Returns prices in USD per metric ton
 - Handles multiple ports in a single call
@@ -596,7 +601,7 @@ Input:
 - port_codes: Array of port codes in UNLOCODE format:
   ["SGSIN", "NLRTM", ...]
 - fuel_types: Optional array of fuel types to fetch (default: all types):
-  ["VLSFO", "LSGO", "MGO"]
+  ["VLSFO", "LSGO", "MGO", "HSFO", "LNG"]
 
 Output:
 - prices_by_port: Object mapping port codes to price arrays:
@@ -605,7 +610,7 @@ Output:
       {
         price: {
           port_code: string
-          fuel_type: "VLSFO" | "LSGO" | "MGO"
+          fuel_type: "VLSFO" | "LSGO" | "MGO" | "HSFO" | "LNG"
           price_per_mt: number (USD)
           currency: "USD"
           last_updated: "ISO 8601 format"
@@ -657,7 +662,7 @@ Input:
 - bunker_ports: Array of found ports from find_bunker_ports
 - port_prices: Price data from get_fuel_prices
 - fuel_quantity_mt: Fuel quantity needed in metric tons
-- fuel_type: Optional fuel type ("VLSFO", "LSGO", "MGO")
+- fuel_type: Optional fuel type ("VLSFO", "LSGO", "MGO", "HSFO")
 - vessel_speed_knots: Optional vessel speed for deviation time calculation (default: 14)
 - vessel_consumption_mt_per_day: Optional consumption for deviation fuel cost (default: 35)
 
@@ -24,6 +24,7 @@ import { ToolRegistry } from '@/lib/registry/tool-registry';
 import { recordAgentExecution } from '@/lib/multi-agent/monitoring';
 import { extractCorrelationId } from '@/lib/utils/correlation';
 import { logAgentExecution, logError } from '@/lib/monitoring/axiom-logger';
+import { withBusinessRules } from '@/lib/multi-agent/helpers/business-rules';
 
 // ============================================================================
 // Types
@@ -287,11 +288,17 @@ export class PlanExecutor {
           attempt: retryState.attempts + 1,
         });
 
-        // Execute the agent node function (NO LLM CALL - agent is deterministic)
-        const stateUpdate = await agent.nodeFunction(stateWithContext);
+        // Execute the agent node function (NO LLM CALL - agent is deterministic),
+        // with pre/post business rules evaluated around it
+        const stateUpdate = await withBusinessRules(stage.agentId, agent.nodeFunction)(stateWithContext);
 
-        // Merge state update into final state
-        Object.assign(result.finalState, stateUpdate);
+        // Merge state update into final state; business rule outcomes are appended like the
+        // state reducer does, so parallel stages keep each other's trace
+        const { business_rules_trace: ruleOutcomes, ...update } = stateUpdate;
+        Object.assign(result.finalState, update);
+        if (ruleOutcomes?.length) {
+          result.finalState.business_rules_trace = [...(result.finalState.business_rules_trace ?? []), ...ruleOutcomes];
+        }
 
         const duration = Date.now() - stageStartTime;
 
@@ -57,6 +57,7 @@ export const bunkerAgent: AgentDefinition = {
     'optimize_multi_port_bunkering',
     'extract_bunker_constraints',
     'validate_port_capabilities',
+    'estimate_voyage_tce',
   ],
   intents: [
     'bunker_costs',
@@ -69,6 +70,7 @@ export const bunkerAgent: AgentDefinition = {
     'fuel_stops',
     'refueling_options',
     'voyage_optimization',
+    'voyage_tce',
   ],
 
   produces: {
@@ -0,0 +1,95 @@
+/**
+ * CII Agent Definition
+ *
+ * Rates the vessel's IMO Carbon Intensity Indicator (A–E) from year-to-date noon
+ * reports and vessel specs, and projects the end-of-year rating if the planned
+ * voyage is performed. Gated by the enable_cii_agent feature flag.
+ *
+ * ## Capabilities
+ * - **cii_calculation**: Attained AER/cgDIST, required CII and rating
+ * - **rating_analysis**: End-of-year projection with and without the planned voyage
+ *
+ * ## Input Requirements
+ * - **vessel_specs**: Ship type and DWT (from vessel_info_agent)
+ * - **route_data** (optional): Planned voyage for the projection
+ * - **weather_consumption** / **vessel_profile** (optional): Planned voyage fuel
+ *
+ * ## Output Structure
+ * - **cii_rating**: CIIRatingResult (attained/required CII, rating, boundaries, projection)
+ *
+ * ## Example Queries
+ * - "What is the CII rating of MV Pacific Star?"
+ * - "How will a Singapore to Rotterdam voyage affect the CII of IMO 9123456?"
+ */
+
+import type { AgentDefinition } from '@/lib/types/agent-registry';
+import { ciiAgentNode } from '@/lib/multi-agent/agents/cii-agent';
+
+export const ciiAgent: AgentDefinition = {
+  // Identity
+  id: 'cii_agent',
+  name: 'CII Rating Agent',
+  description:
+    'Calculates the IMO Carbon Intensity Indicator (attained vs required CII, A–E rating) from year-to-date noon reports and vessel specs, and projects the end-of-year rating if the planned voyage is performed so chartering decisions account for CII.',
+  version: '1.0.0',
+
+  // Type (specialist = domain expert; deterministic workflow when no LLM)
+  type: 'specialist',
+
+  llm: undefined,
+
+  // Domain & capabilities (aligned with INTENT_CAPABILITY_MAP cii_compliance)
+  domain: ['compliance', 'emissions', 'cii'],
+  capabilities: ['cii_calculation', 'rating_analysis'],
+  intents: ['cii_rating', 'calculate_cii', 'carbon_intensity'],
+
+  // Contract: consumes vessel specs (and optionally the planned voyage), produces CII rating
+  produces: {
+    stateFields: ['cii_rating'],
+    messageTypes: ['cii_rated', 'cii_error'],
+  },
+  consumes: {
+    required: ['vessel_specs'],
+    optional: ['vessel_identifiers', 'route_data', 'weather_consumption', 'vessel_profile', 'correlation_id'],
+  },
+
+  // Tools (noon reports are read directly from Datalogs)
+  tools: {
+    required: [],
+    optional: ['fetch_vessel_specs', 'fetch_noon_report'],
+  },
+
+  // Dependencies (vessel_info_agent provides vessel_specs; route_agent the planned voyage)
+  dependencies: {
+    upstream: ['vessel_info_agent', 'route_agent'],
+    downstream: ['finalize'],
+  },
+
+  execution: {
+    canRunInParallel: true,
+    maxExecutionTimeMs: 15000,
+    retryPolicy: {
+      maxRetries: 2,
+      backoffMs: 500,
+    },
+  },
+
+  // Implementation
+  implementation: 'lib/multi-agent/agents/cii-agent.ts',
+  nodeFunction: ciiAgentNode,
+
+  // Monitoring
+  metrics: {
+    totalExecutions: 0,
+    successfulExecutions: 0,
+    failedExecutions: 0,
+    avgExecutionTimeMs: 0,
+  },
+
+  enabled: true,
+
+  // Metadata
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  deprecated: false,
+};
@@ -40,6 +40,8 @@ export const complianceAgent: AgentDefinition = {
     'emissions_calc',
     'regulatory_compliance',
     'sulphur_limits',
+    'fueleu_compliance',
+    'biofuel_blend_scenario',
   ],
   
   // Contract
@@ -49,7 +51,7 @@ export const complianceAgent: AgentDefinition = {
   },
   consumes: {
     required: ['route_data'],
-    optional: ['vessel_speed', 'vessel_consumption'],
+    optional: ['vessel_speed', 'vessel_consumption', 'weather_consumption'],
   },
   
   // Tools
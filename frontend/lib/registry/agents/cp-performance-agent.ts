@@ -0,0 +1,94 @@
+/**
+ * CP Performance Agent Definition
+ *
+ * Checks the vessel's performance against the charter-party speed/consumption warranty
+ * with the good-weather method and summarises the performance claim and its defence.
+ *
+ * ## Capabilities
+ * - **cp_warranty_check**: Good-weather speed and consumption vs the warranty ("about" tolerances)
+ * - **performance_claim**: Time lost, over-consumption, claim value and defence points
+ *
+ * ## Input Requirements
+ * - **vessel_identifiers** / **vessel_specs**: Vessel IMO
+ * - **noon_reports** (optional): Wave height for the good-weather check
+ * - Warranty, period, hire and fuel price from the user query
+ *
+ * ## Output Structure
+ * - **cp_performance**: CPPerformanceResult (good-weather performance, time lost, over-consumption, summary)
+ *
+ * ## Example Queries
+ * - "Check IMO 9123456 against about 14 kn on 30 mt VLSFO from 2026-03-01 to 2026-03-20"
+ * - "Is there a performance claim for MV Pacific Star, CP abt 13.5 knots on abt 28 mt laden, hire $14,500/day?"
+ */
+
+import type { AgentDefinition } from '@/lib/types/agent-registry';
+import { cpPerformanceAgentNode } from '@/lib/multi-agent/agents/cp-performance-agent';
+
+export const cpPerformanceAgent: AgentDefinition = {
+  // Identity
+  id: 'cp_performance_agent',
+  name: 'CP Performance Agent',
+  description:
+    'Checks good-weather speed and consumption from noon reports against the charter-party warranty (e.g. "about 14 kn on 30 mt VLSFO") and calculates time lost, over-consumption and a claim/defence summary.',
+  version: '1.0.0',
+
+  // Type (specialist = domain expert; deterministic workflow when no LLM)
+  type: 'specialist',
+
+  llm: undefined,
+
+  // Domain & capabilities (aligned with INTENT_CAPABILITY_MAP charter_party_performance)
+  domain: ['chartering', 'vessel_performance'],
+  capabilities: ['cp_warranty_check', 'performance_claim'],
+  intents: ['cp_performance', 'performance_claim', 'speed_consumption_claim'],
+
+  // Contract: consumes the vessel IMO (and noon reports for wave height), produces the CP performance result
+  produces: {
+    stateFields: ['cp_performance'],
+    messageTypes: ['cp_performance_evaluated', 'cp_performance_error'],
+  },
+  consumes: {
+    required: ['vessel_identifiers'],
+    optional: ['vessel_specs', 'noon_reports', 'correlation_id'],
+  },
+
+  // Tools (noon records are read directly from hull performance data)
+  tools: {
+    required: [],
+    optional: ['fetch_noon_report'],
+  },
+
+  // Dependencies (entity_extractor / vessel_info_agent provide the IMO)
+  dependencies: {
+    upstream: ['entity_extractor', 'vessel_info_agent'],
+    downstream: ['finalize'],
+  },
+
+  execution: {
+    canRunInParallel: true,
+    maxExecutionTimeMs: 15000,
+    retryPolicy: {
+      maxRetries: 2,
+      backoffMs: 500,
+    },
+  },
+
+  // Implementation
+  implementation: 'lib/multi-agent/agents/cp-performance-agent.ts',
+  nodeFunction: cpPerformanceAgentNode,
+
+  // Monitoring
+  metrics: {
+    totalExecutions: 0,
+    successfulExecutions: 0,
+    failedExecutions: 0,
+    avgExecutionTimeMs: 0,
+  },
+
+  enabled: true,
+
+  // Metadata
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  deprecated: false,
+};
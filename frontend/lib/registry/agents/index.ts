@@ -23,6 +23,8 @@ import { vesselSelectionAgent } from './vessel-selection-agent';
 import { vesselInfoAgent } from './vessel-info-agent';
 import { robTrackingAgent } from './rob-tracking-agent';
 import { hullPerformanceAgent } from './hull-performance-agent';
+import { ciiAgent } from './cii-agent';
+import { cpPerformanceAgent } from './cp-performance-agent';
 import { finalizeAgent } from './finalize-agent';
 
 /**
@@ -48,7 +50,7 @@ export const INTENT_CAPABILITY_MAP: Record<string, string[]> = {
   vessel_information: ['vessel_lookup', 'vessel_identifier_resolution', 'noon_report_fetch', 'vessel_list', 'consumption_profile'],
   
   // Vessel Selection (Multi-vessel comparison)
-  vessel_selection: ['vessel_comparison', 'multi_vessel_analysis', 'voyage_feasibility_check', 'vessel_ranking'],
+  vessel_selection: ['vessel_comparison', 'multi_vessel_analysis', 'voyage_feasibility_check', 'vessel_ranking', 'voyage_tce'],
   
   // ROB Management
   rob_projection: ['rob_calculation', 'fuel_tracking', 'consumption_monitoring'],
@@ -56,7 +58,9 @@ export const INTENT_CAPABILITY_MAP: Record<string, string[]> = {
   // Compliance (Future)
   hull_performance: ['hull_analysis', 'fouling_detection'],
   cii_compliance: ['cii_calculation', 'rating_analysis'],
+  charter_party_performance: ['cp_warranty_check', 'performance_claim'],
   eu_ets_compliance: ['ets_calculation', 'allowance_tracking'],
+  fueleu_compliance: ['validate_fueleu_maritime'],
 };
 
 /**
@@ -111,6 +115,7 @@ export const CAPABILITY_DESCRIPTIONS: Record<string, string> = {
   multi_vessel_analysis: 'Analyze multiple vessels in parallel',
   voyage_feasibility_check: 'Check if vessel has sufficient ROB for voyage',
   vessel_ranking: 'Rank vessels by total cost (bunker + deviation)',
+  voyage_tce: 'Estimate voyage P&L and time charter equivalent from freight, lumpsum or hire; rank vessels on TCE',
   
   // ROB Tracking
   rob_calculation: 'Calculate remaining fuel at specific time/location',
@@ -122,8 +127,11 @@ export const CAPABILITY_DESCRIPTIONS: Record<string, string> = {
   fouling_detection: 'Detect hull fouling from consumption patterns',
   cii_calculation: 'Calculate CII rating for vessel',
   rating_analysis: 'Analyze compliance rating trends',
+  cp_warranty_check: 'Check good-weather speed and consumption against the charter-party warranty',
+  performance_claim: 'Calculate time lost and over-consumption with a claim/defence summary',
   ets_calculation: 'Calculate EU ETS allowance requirements',
   allowance_tracking: 'Track allowance usage and costs',
+  validate_fueleu_maritime: 'Calculate FuelEU Maritime GHG intensity, compliance balance and penalty, incl. biofuel blend what-ifs',
 };
 
 /**
@@ -153,6 +161,8 @@ export function registerAllAgents(): void {
     bunkerAgent,            // Bunker port planning
     vesselSelectionAgent,   // Multi-vessel comparison and selection
     hullPerformanceAgent,   // Hull performance analysis
+    ciiAgent,               // CII rating and end-of-year projection
+    cpPerformanceAgent,     // Charter-party speed/consumption claim
 
     // Finalizer
     finalizeAgent,
@@ -180,7 +190,7 @@ export function registerAllAgents(): void {
   
   console.log(`✅ [AGENT-REGISTRY] Successfully registered ${registeredCount} agents`);
   console.log(`   Supervisor: 1 agent`);
-  console.log(`   Specialists: 8 agents (vessel_info, rob_tracking, route, compliance, weather, bunker, vessel_selection, hull_performance)`);
+  console.log(`   Specialists: 10 agents (vessel_info, rob_tracking, route, compliance, weather, bunker, vessel_selection, hull_performance, cii, cp_performance)`);
   console.log(`   Finalizer: 1 agent`);
 }
 
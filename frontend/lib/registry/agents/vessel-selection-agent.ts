@@ -52,6 +52,7 @@ export const vesselSelectionAgent: AgentDefinition = {
     'check_next_voyage_feasibility',
     'calculate_bunker_requirements_per_vessel',
     'rank_vessels_by_cost',
+    'rank_vessels_by_tce',
     'multi_vessel_analysis',
   ],
   intents: [
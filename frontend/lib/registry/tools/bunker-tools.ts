@@ -52,6 +52,11 @@ export const findBunkerPortsTool: ToolDefinition = {
         type: 'number',
         description: 'Maximum deviation distance in nautical miles (default: 150)',
       },
+      port_call_codes: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Port codes of the voyage calls (multi-port itinerary); bunkering there adds no deviation',
+      },
     },
     required: ['route_waypoints'],
   },
@@ -91,6 +96,8 @@ export const findBunkerPortsTool: ToolDefinition = {
                 lon: { type: 'number' },
               },
             },
+            deviation_nm: { type: 'number' },
+            deviation_method: { type: 'string', enum: ['sea_route', 'haversine', 'port_call'] },
           },
         },
         description: 'Array of found ports with distance information',
@@ -165,7 +172,7 @@ export const getFuelPricesTool: ToolDefinition = {
         type: 'array',
         items: {
           type: 'string',
-          enum: ['VLSFO', 'LSGO', 'MGO'],
+          enum: ['VLSFO', 'LSGO', 'MGO', 'HSFO', 'LNG'],
         },
         description: 'Optional array of fuel types to fetch (default: all types)',
       },
@@ -271,7 +278,7 @@ export const analyzeBunkerOptionsTool: ToolDefinition = {
       },
       fuel_type: {
         type: 'string',
-        enum: ['VLSFO', 'LSGO', 'MGO'],
+        enum: ['VLSFO', 'LSGO', 'MGO', 'HSFO'],
         description: 'Optional fuel type (default: VLSFO)',
       },
       vessel_speed_knots: {
@@ -97,6 +97,7 @@ export const fetchHullPerformanceTool: ToolDefinition = {
           baseline_curves: { type: 'object' },
           analysis_period: { type: 'object' },
           metadata: { type: 'object' },
+          data_quality: { type: 'object' },
         },
       },
       error: {
@@ -188,6 +188,20 @@ export const calculateWeatherConsumptionTool: ToolDefinition = {
         },
         description: 'Optional breakdown by fuel type',
       },
+      vessel_timeline: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            lat: { type: 'number' },
+            lon: { type: 'number' },
+            datetime: { type: 'string' },
+            distance_from_start_nm: { type: 'number' },
+            segment_index: { type: 'number' },
+          },
+        },
+        description: 'Optional vessel positions for per-segment, heading-aware weather impact',
+      },
     },
     required: ['weather_data', 'base_consumption_mt', 'vessel_heading_deg'],
   },
@@ -210,6 +224,10 @@ export const calculateWeatherConsumptionTool: ToolDefinition = {
         items: { type: 'object' },
       },
       voyage_weather_summary: { type: 'object' },
+      segment_breakdown: {
+        type: 'array',
+        items: { type: 'object' },
+      },
     },
     required: [],
   },
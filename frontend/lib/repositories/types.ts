@@ -2,6 +2,8 @@
  * Repository types and interfaces for FuelSense data access layer
  */
 
+import type { NoonReportDataQuality } from '@/lib/engines/noon-report-validation-engine';
+
 export interface RepositoryConfig {
   tableName: string;
   fallbackPath?: string;
@@ -46,7 +48,7 @@ export interface FuelPrice {
   /** Port code (UN/LOCODE) */
   portCode: string;
   /** Fuel type */
-  fuelType: 'VLSFO' | 'LSFO' | 'HSFO' | 'MGO' | 'LSMGO';
+  fuelType: 'VLSFO' | 'LSFO' | 'HSFO' | 'MGO' | 'LSMGO' | 'LNG';
   /** Price in USD per metric ton */
   priceUSD: number;
   /** Date of price (ISO date string) */
@@ -189,6 +191,8 @@ export interface VesselCurrentState {
     LSMGO: number;
   };
   last_report_date: Date;
+  /** Data quality of the recent noon reports the state was taken from (datalogs) */
+  data_quality?: NoonReportDataQuality;
 }
 
 /**
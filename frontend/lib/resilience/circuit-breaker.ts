@@ -138,6 +138,14 @@ export function createToolCircuitBreaker(
   return breaker;
 }
 
+/**
+ * Get the circuit breaker already created for a tool, so other callers (e.g. the MCP server)
+ * share its state instead of opening a second circuit on the same API.
+ */
+export function getToolCircuitBreaker(toolName: string): ReturnType<typeof createToolCircuitBreaker> | undefined {
+  return breakers.get(toolName) as ReturnType<typeof createToolCircuitBreaker> | undefined;
+}
+
 /**
  * Get status of all circuit breakers for the health endpoint.
  */
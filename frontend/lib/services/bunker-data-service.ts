@@ -17,6 +17,7 @@ import type {
   VesselSpecs,
   VesselStatus,
 } from '@/lib/types/bunker';
+import { normalizeFuelType } from '@/lib/utils/fuel-grade';
 
 const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 const REQUEST_TIMEOUT_MS = 30000;   // 30 seconds
@@ -111,7 +112,7 @@ function normalizeBunkerPricingRow(row: RawBunkerPricingRow): BunkerPricing {
       row.priceUsdPerMt ??
       (row as { price_per_mt?: number | string }).price_per_mt
   );
-  const fuelType = row.fuel_type ?? row.fuelType ?? '';
+  const fuelType = normalizeFuelType(row.fuel_type ?? row.fuelType ?? '');
   const port = (row.port != null && String(row.port).trim() !== '') ? String(row.port).trim() : 'unknown';
   const dateVal = row.date ?? row.last_updated ?? row.lastUpdated;
   const lastUpdated =
@@ -0,0 +1,67 @@
+/**
+ * CII from Datalogs Service
+ *
+ * Builds year-to-date CII report records (distance sailed and fuel burnt per grade)
+ * from the datalogs (noon report) API for the CII Calculator Engine.
+ *
+ * Datalogs carry no observed distance column, so distance per report is
+ * SPEED × STEAMING_TIME_HRS; fuel comes from the TOTAL_CONSUMPTION_* columns.
+ */
+
+import { DatalogsClient, type DatalogRow } from '@/lib/clients/datalogs-client';
+import type { CIIFuelGrade, CIIReportRecord, FuelConsumption } from '@/lib/engines/cii-calculator-engine';
+
+const datalogsClient = new DatalogsClient();
+
+const CONSUMPTION_COLUMN_TO_GRADE: Record<string, CIIFuelGrade> = {
+  TOTAL_CONSUMPTION_VLSFO: 'VLSFO',
+  TOTAL_CONSUMPTION_LSMGO: 'LSMGO',
+  TOTAL_CONSUMPTION_HSFO: 'HSFO',
+  TOTAL_CONSUMPTION_ULSFO: 'ULSFO',
+  TOTAL_CONSUMPTION_MDO: 'MDO',
+  TOTAL_CONSUMPTION_LNG: 'LNG',
+};
+
+function toNum(v: unknown): number {
+  if (v == null) return 0;
+  if (typeof v === 'number' && Number.isFinite(v)) return v;
+  const n = typeof v === 'string' ? parseFloat(v) : Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/**
+ * Map one datalog row to a CII report record
+ */
+export function mapDatalogRowToCIIReport(row: DatalogRow): CIIReportRecord {
+  const fuel: FuelConsumption = {};
+  for (const [column, grade] of Object.entries(CONSUMPTION_COLUMN_TO_GRADE)) {
+    const mt = toNum(row[column]);
+    if (mt > 0) fuel[grade] = mt;
+  }
+  return {
+    date: String(row.REPORT_DATE || row.UTC_DATE_TIME || ''),
+    distance_nm: Math.max(0, toNum(row.SPEED) * toNum(row.STEAMING_TIME_HRS)),
+    fuel_consumed_mt: fuel,
+  };
+}
+
+/**
+ * Get CII report records for a vessel from 1 January of the year up to now (or year end)
+ *
+ * @param imo - Vessel IMO
+ * @param year - Rating year
+ * @param now - Reference date (default: current date)
+ */
+export async function getCIIReportsFromDatalogs(
+  imo: string,
+  year: number,
+  now: Date = new Date()
+): Promise<CIIReportRecord[]> {
+  if (!imo?.trim()) return [];
+  const from = new Date(Date.UTC(year, 0, 1));
+  const yearEnd = new Date(Date.UTC(year + 1, 0, 1) - 1);
+  const to = now < yearEnd ? now : yearEnd;
+
+  const rows = await datalogsClient.getRawByIMOInRange(imo.trim(), from, to);
+  return rows.map(mapDatalogRowToCIIReport).filter((r) => r.date !== '');
+}
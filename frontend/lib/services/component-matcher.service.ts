@@ -9,6 +9,7 @@ import type {
   ComponentDefinition,
   MatchedComponent,
 } from '@/lib/types/component-registry';
+import { evaluateCondition, type ConditionScope } from '@/lib/config/condition-expression';
 
 export class ComponentMatcherService {
   constructor(private registry: ComponentRegistryConfig) {}
@@ -144,44 +145,21 @@ export class ComponentMatcherService {
   }
 
   /**
-   * Evaluate render conditions (safe JavaScript evaluation)
+   * Evaluate render conditions (all must hold)
    */
   private evaluateConditions(
     conditions: string[],
     state: MultiAgentState
   ): boolean {
     try {
-      for (const condition of conditions) {
-        const result = this.safeEval(condition, state);
-        if (!result) {
-          return false;
-        }
-      }
-      return true;
+      const scope = state as unknown as ConditionScope;
+      return conditions.every((condition) => evaluateCondition(condition, scope));
     } catch (error) {
       console.warn(`[COMPONENT-MATCHER] Condition evaluation failed:`, error);
       return false;
     }
   }
 
-  /**
-   * Safe evaluation of conditions against state
-   */
-  private safeEval(condition: string, state: MultiAgentState): boolean {
-    try {
-      const stateObj = state as Record<string, unknown>;
-      const keys = Object.keys(stateObj);
-      const values = Object.values(stateObj);
-
-      const func = new Function(...keys, `return ${condition}`);
-      const result = func(...values);
-
-      return Boolean(result);
-    } catch {
-      return false;
-    }
-  }
-
   /**
    * Get fallback strategy when no components match
    */
@@ -0,0 +1,74 @@
+/**
+ * CP Performance Data Service
+ *
+ * Builds charter-party performance reports (sea passage, consumption and weather per noon
+ * report) for the CP Performance Engine from hull performance records, which carry distance,
+ * steaming time, daily consumption and Beaufort wind force. Wave height comes from noon
+ * reports (state.noon_reports) of the same day when available.
+ */
+
+import { HullPerformanceClient, type HullPerformanceRecord } from '@/lib/api-clients/hull-performance-client';
+import type { CPLoadCondition, CPPerformanceReport } from '@/lib/engines/cp-performance-engine';
+import type { NoonReportData } from '@/lib/types/vessel-performance';
+
+const hullClient = new HullPerformanceClient();
+
+const NOON_AT_SEA = 'noon at sea';
+
+function toLoadCondition(text: string): CPLoadCondition | undefined {
+  if (/ballast/i.test(text)) return 'ballast';
+  if (/laden|loaded/i.test(text)) return 'laden';
+  return undefined;
+}
+
+/**
+ * Map one hull performance record to a CP performance report.
+ * Consumption on the record is MT/day; distance falls back to speed × steaming time.
+ */
+export function mapHullRecordToCPReport(
+  record: HullPerformanceRecord,
+  noonReport?: NoonReportData
+): CPPerformanceReport {
+  const hours = record.steaming_time_hrs;
+  const load = toLoadCondition(record.loading_condition);
+  const waveHeight = noonReport?.weather?.wave_height;
+  return {
+    date: record.utc_date_time || record.report_date,
+    steaming_hours: hours,
+    distance_nm: record.distance_travelled_actual > 0 ? record.distance_travelled_actual : record.speed * hours,
+    consumption_mt: (record.consumption * hours) / 24,
+    beaufort: record.windforce,
+    ...(waveHeight != null && Number.isFinite(waveHeight) && { wave_height_m: waveHeight }),
+    ...(load && { load_condition: load }),
+  };
+}
+
+/**
+ * Get CP performance reports for a vessel over a period (noon-at-sea records only when events are reported).
+ *
+ * @param imo - Vessel IMO
+ * @param period - Performance period (ISO 8601)
+ * @param noonReports - Noon reports for wave height by report date
+ */
+export async function getCPReportsFromHullPerformance(
+  imo: string,
+  period: { start: string; end: string },
+  noonReports: NoonReportData[] = []
+): Promise<CPPerformanceReport[]> {
+  const imoNum = parseInt(String(imo).trim(), 10);
+  if (!Number.isFinite(imoNum)) return [];
+
+  const records = (
+    await hullClient.getHullPerformance({
+      vessel_imo: imoNum,
+      start_date: period.start.slice(0, 10),
+      end_date: period.end.slice(0, 10),
+    })
+  ).filter((r) => Number(r.vessel_imo) === imoNum);
+
+  const hasEvent = records.some((r) => (r.event ?? '').trim() !== '');
+  const atSea = hasEvent ? records.filter((r) => (r.event ?? '').trim().toLowerCase() === NOON_AT_SEA) : records;
+
+  const noonByDay = new Map(noonReports.map((n) => [n.timestamp.slice(0, 10), n]));
+  return atSea.map((r) => mapHullRecordToCPReport(r, noonByDay.get((r.utc_date_time || r.report_date).slice(0, 10))));
+}
@@ -0,0 +1,37 @@
+/**
+ * EUA Price Service
+ *
+ * Resolves the EU Allowance price used for EU ETS cost: the live price from the
+ * configured EUA price API (EUA_PRICE_API_URL) when available, otherwise the
+ * eua_price_eur fallback from config/engine-params/eu-ets.yaml.
+ */
+
+import { EUAPriceClient } from '@/lib/clients/eua-price-client';
+import { euEtsEngine } from '@/lib/engines/eu-ets-engine';
+
+const euaPriceClient = new EUAPriceClient();
+
+export interface ResolvedEUAPrice {
+  eua_price_eur: number;
+  /** 'api' when fetched live, 'config' when the engine params fallback was used */
+  price_source: 'api' | 'config';
+  price_date?: string;
+}
+
+/**
+ * Current EUA price (EUR per t CO2) with its source
+ */
+export async function getEUAPrice(): Promise<ResolvedEUAPrice> {
+  if (euaPriceClient.isConfigured()) {
+    try {
+      const quote = await euaPriceClient.getLatestPrice();
+      if (quote) {
+        return { eua_price_eur: quote.priceEur, price_source: 'api', price_date: quote.date };
+      }
+      console.warn('[EUA-PRICE] API returned no price, using configured fallback');
+    } catch (error) {
+      console.warn('[EUA-PRICE] API fetch failed, using configured fallback:', error instanceof Error ? error.message : error);
+    }
+  }
+  return { eua_price_eur: euEtsEngine.getParameters().eua_price_eur, price_source: 'config' };
+}
@@ -16,25 +16,27 @@ export interface ExcessPowerAndSpeedLossResult {
 }
 
 /**
- * Linear regression over (timestamp, value) points; returns y at the last (max) x.
+ * Linear regression over (timestamp, value) points, weighted by w (default 1);
+ * returns y at the last (max) x.
  * If n < 2, returns the last point's value or 0 if no valid points.
  */
 function lastYFromLinearRegression(
-  points: Array<{ x: number; y: number }>
+  points: Array<{ x: number; y: number; w?: number }>
 ): number {
   const valid = points.filter(
-    (p) => typeof p.y === 'number' && Number.isFinite(p.y)
+    (p) => typeof p.y === 'number' && Number.isFinite(p.y) && (p.w ?? 1) > 0
   );
   if (valid.length === 0) return 0;
   if (valid.length === 1) return valid[0].y;
 
-  const n = valid.length;
   const xs = valid.map((p) => p.x);
   const ys = valid.map((p) => p.y);
-  const sumX = xs.reduce((a, b) => a + b, 0);
-  const sumY = ys.reduce((a, b) => a + b, 0);
-  const sumXY = xs.reduce((s, x, i) => s + x * ys[i], 0);
-  const sumX2 = xs.reduce((s, x) => s + x * x, 0);
+  const ws = valid.map((p) => p.w ?? 1);
+  const n = ws.reduce((a, b) => a + b, 0);
+  const sumX = xs.reduce((s, x, i) => s + ws[i] * x, 0);
+  const sumY = ys.reduce((s, y, i) => s + ws[i] * y, 0);
+  const sumXY = xs.reduce((s, x, i) => s + ws[i] * x * ys[i], 0);
+  const sumX2 = xs.reduce((s, x, i) => s + ws[i] * x * x, 0);
   const denom = n * sumX2 - sumX * sumX;
   const slope = denom !== 0 ? (n * sumXY - sumX * sumY) / denom : 0;
   const meanY = sumY / n;
@@ -64,10 +66,10 @@ function getOutlierBounds(values: number[], iqrMultiplier: number): { lower: num
  * Clean points the same way as the chart: remove zeros and outliers (IQR, 3x).
  * So the regression "last y" matches the chart's trend line end value.
  */
-function cleanPointsLikeChart(
-  points: Array<{ x: number; y: number }>,
+function cleanPointsLikeChart<P extends { x: number; y: number }>(
+  points: P[],
   options: { removeZeros?: boolean; removeOutliers?: boolean; outlierThreshold?: number }
-): Array<{ x: number; y: number }> {
+): P[] {
   const removeZeros = options.removeZeros ?? true;
   const removeOutliers = options.removeOutliers ?? true;
   const outlierThreshold = options.outlierThreshold ?? 3.0;
@@ -94,13 +96,14 @@ function cleanPointsLikeChart(
  * date" (e.g. HullPerformanceService passes recordsForMetrics for this).
  *
  * @param records - Hull performance records (already filtered for vessel; no extra I/O).
- * @param options - Optional; defaults to last 6 months.
+ * @param options - Optional; defaults to last 6 months. weights (e.g. noon report validation
+ *   scores) down-weight records in the fit; records without a weight count fully.
  * @returns excessPowerPct and speedLossPct. If after cleaning there are 0 or 1 valid
  *   points for a series, returns the last available value for that series (or 0 if none).
  */
 export function getExcessPowerAndSpeedLossFromBestFit(
   records: HullPerformanceRecord[],
-  options?: { months?: number }
+  options?: { months?: number; weights?: Map<HullPerformanceRecord, number> }
 ): ExcessPowerAndSpeedLossResult {
   const months = options?.months ?? 6;
   if (records.length === 0) {
@@ -130,6 +133,7 @@ export function getExcessPowerAndSpeedLossFromBestFit(
     .map((r) => ({
       x: new Date(r.report_date).getTime(),
       y: r.hull_roughness_power_loss,
+      w: options?.weights?.get(r) ?? 1,
     }));
 
   const speedLossPointsRaw = sorted
@@ -141,6 +145,7 @@ export function getExcessPowerAndSpeedLossFromBestFit(
     .map((r) => ({
       x: new Date(r.report_date).getTime(),
       y: r.hull_roughness_speed_loss,
+      w: options?.weights?.get(r) ?? 1,
     }));
 
   const excessPowerPoints = cleanPointsLikeChart(excessPowerPointsRaw, {
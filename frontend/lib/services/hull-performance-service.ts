@@ -13,6 +13,8 @@ import { ExcessPowerChartService, toExcessPowerChartData } from './charts/excess
 import { SpeedLossChartService, toSpeedLossChartData } from './charts/speed-loss-chart-service';
 import { SpeedConsumptionChartService } from './charts/speed-consumption-chart-service';
 import { getExcessPowerAndSpeedLossFromBestFit } from './hull-performance-metrics';
+import { validateHullRecords } from './noon-report-quality-service';
+import type { NoonReportDataQuality } from '@/lib/engines/noon-report-validation-engine';
 import type { ExcessPowerChartData } from './charts/excess-power-chart-service';
 import type { SpeedLossChartData } from './charts/speed-loss-chart-service';
 import type { SpeedConsumptionChartData } from './charts/speed-consumption-chart-service';
@@ -85,6 +87,9 @@ export interface HullPerformanceAnalysis {
     data_source: string;
     cache_hit: boolean;
   };
+
+  /** Noon report validation of the records: excluded ones are left out, suspect ones down-weighted in the trend */
+  data_quality?: NoonReportDataQuality;
 }
 
 /**
@@ -275,6 +280,24 @@ export class HullPerformanceService {
         }
       }
 
+      // Noon report validation: drop excluded records, weight the rest in the best-fit trend
+      const validation = validateHullRecords(recordsForVessel);
+      if (validation.records.length < recordsForVessel.length) {
+        logCustomEvent(
+          'hull_performance_noon_report_validation',
+          this.correlationId,
+          {
+            vessel_imo: vesselIdentifier.imo ?? undefined,
+            vessel_name: vesselIdentifier.name ?? undefined,
+            before: recordsForVessel.length,
+            after: validation.records.length,
+            data_quality: validation.data_quality.level,
+          },
+          'info'
+        );
+      }
+      recordsForVessel = validation.records;
+
       const lastReportDate =
         recordsForVessel.length > 0
           ? recordsForVessel.reduce(
@@ -384,6 +407,7 @@ export class HullPerformanceService {
 
       const bestFit = getExcessPowerAndSpeedLossFromBestFit(recordsForMetrics, {
         months: 6,
+        weights: validation.weights,
       });
       const { condition, indicator, message } = this.determineHullCondition(
         bestFit.excessPowerPct
@@ -476,6 +500,7 @@ export class HullPerformanceService {
           data_source: metadata.source,
           cache_hit: metadata.cache_hit,
         },
+        data_quality: validation.data_quality,
       };
 
       const durationMs = Date.now() - startMs;
@@ -0,0 +1,109 @@
+/**
+ * Noon Report Quality Service
+ *
+ * Maps datalogs rows and hull performance records to noon report observations and runs
+ * them through the Noon Report Validation Engine:
+ * - getLatestValidatedDatalog: latest datalog row that is not excluded, validated against
+ *   the vessel's recent reports (ROB from datalogs, noon report fetcher)
+ * - validateHullRecords: drops excluded hull performance records and weights the rest
+ */
+
+import { DatalogsClient, type DatalogRow } from '@/lib/clients/datalogs-client';
+import type { HullPerformanceRecord } from '@/lib/api-clients/hull-performance-client';
+import {
+  noonReportValidationEngine,
+  type NoonReportDataQuality,
+  type NoonReportObservation,
+} from '@/lib/engines/noon-report-validation-engine';
+
+const datalogsClient = new DatalogsClient();
+
+const FUEL_GRADES = ['VLSFO', 'LSMGO', 'HSFO', 'ULSFO', 'MDO', 'LNG'] as const;
+
+function toNumber(v: unknown): number | undefined {
+  if (v == null || v === '') return undefined;
+  if (typeof v === 'number') return Number.isFinite(v) ? v : undefined;
+  const n = typeof v === 'string' ? parseFloat(v) : Number(v);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/**
+ * Map one datalog row to a noon report observation. Datalogs carry no observed distance,
+ * so the distance / time check does not apply; positions give the position-jump check.
+ */
+export function mapDatalogRowToObservation(row: DatalogRow): NoonReportObservation {
+  const rob: Partial<Record<string, number>> = {};
+  const consumption: Partial<Record<string, number>> = {};
+  for (const grade of FUEL_GRADES) {
+    const robMt = toNumber(row[`ROB_${grade}`]);
+    if (robMt !== undefined) rob[grade] = robMt;
+    const consumedMt = toNumber(row[`TOTAL_CONSUMPTION_${grade}`]);
+    if (consumedMt !== undefined) consumption[grade] = consumedMt;
+  }
+  return {
+    date: String(row.REPORT_DATE || row.UTC_DATE_TIME || ''),
+    event: typeof row.EVENT === 'string' ? row.EVENT : undefined,
+    latitude: toNumber(row.LATITUDE),
+    longitude: toNumber(row.LONGITUDE),
+    speed_knots: toNumber(row.SPEED),
+    steaming_hours: toNumber(row.STEAMING_TIME_HRS),
+    rob_mt: rob,
+    consumption_mt: consumption,
+  };
+}
+
+/**
+ * Map one hull performance record (daily consumption and model prediction) to an observation
+ */
+export function mapHullRecordToObservation(record: HullPerformanceRecord): NoonReportObservation {
+  return {
+    date: record.utc_date_time || record.report_date,
+    event: record.event,
+    speed_knots: toNumber(record.speed),
+    steaming_hours: toNumber(record.steaming_time_hrs),
+    distance_nm: toNumber(record.distance_travelled_actual),
+    consumption_mt_per_day: toNumber(record.consumption),
+    predicted_consumption_mt_per_day: toNumber(record.predicted_consumption),
+  };
+}
+
+/**
+ * Latest datalog row for a vessel that passes validation against its recent reports.
+ *
+ * @param imo - Vessel IMO
+ * @returns The row (null when there are no reports or all are excluded) and the data quality
+ *   (null when there are no reports)
+ */
+export async function getLatestValidatedDatalog(
+  imo: string
+): Promise<{ row: DatalogRow | null; data_quality: NoonReportDataQuality | null }> {
+  const { history_report_count } = noonReportValidationEngine.getParameters();
+  const rows = (await datalogsClient.getRecentRawByIMO(imo.trim(), history_report_count)).filter(
+    (row) => row.REPORT_DATE || row.UTC_DATE_TIME
+  );
+  if (rows.length === 0) return { row: null, data_quality: null };
+
+  const { reports, data_quality } = noonReportValidationEngine.validate(rows.map(mapDatalogRowToObservation));
+  const usable = rows
+    .map((row, i) => ({ row, report: reports[i]! }))
+    .filter(({ report }) => report.status !== 'excluded')
+    .sort((a, b) => Date.parse(b.report.date) - Date.parse(a.report.date));
+  return { row: usable[0]?.row ?? null, data_quality };
+}
+
+/**
+ * Validate hull performance records of one vessel: excluded records are dropped and the
+ * rest carry a weight (score / 100) for trend fitting.
+ */
+export function validateHullRecords(records: HullPerformanceRecord[]): {
+  records: HullPerformanceRecord[];
+  weights: Map<HullPerformanceRecord, number>;
+  data_quality: NoonReportDataQuality;
+} {
+  const { reports, data_quality } = noonReportValidationEngine.validate(records.map(mapHullRecordToObservation));
+  const weights = new Map<HullPerformanceRecord, number>();
+  records.forEach((record, i) => {
+    if (reports[i]!.status !== 'excluded') weights.set(record, reports[i]!.weight);
+  });
+  return { records: records.filter((record) => weights.has(record)), weights, data_quality };
+}
@@ -0,0 +1,61 @@
+/**
+ * Port Congestion Service
+ *
+ * Anchorage waiting estimate for an arrival port, used by just-in-time arrival planning.
+ * The source comes from the route data-policy (port_congestion_source):
+ * - port_table: port_congestion hours by port code
+ * - port_capabilities: berth availability from the bunker API, port_congestion hours as fallback
+ */
+
+import { getConfigManager } from '@/lib/config/config-manager';
+import { parseBerthAvailabilityHours } from '@/lib/engines/port-call-cost-engine';
+import { bunkerDataService } from '@/lib/services/bunker-data-service';
+import type { DataPolicyConfig } from '@/lib/types/config';
+
+export interface AnchorageWaitingEstimate {
+  port_code: string;
+  waiting_hours: number;
+  source: 'port_capabilities' | 'port_table';
+}
+
+/**
+ * Anchorage waiting from the port_congestion table (case-insensitive port code).
+ */
+export function getTableWaitingHours(portCode: string, policy?: DataPolicyConfig | null): number | undefined {
+  const table = policy?.port_congestion ?? {};
+  const key = portCode.trim().toUpperCase();
+  const entry = Object.entries(table).find(([code]) => code.trim().toUpperCase() === key)?.[1];
+  return entry && Number.isFinite(entry.anchorage_waiting_hours) ? Math.max(0, entry.anchorage_waiting_hours) : undefined;
+}
+
+/**
+ * Estimate anchorage waiting at a port.
+ *
+ * @param portCode - Arrival port (UN/LOCODE)
+ * @param arrivalDate - Expected arrival (ISO 8601); resolves a berth availability date into hours
+ * @returns Estimate, or null when the configured source has nothing for the port
+ */
+export async function getAnchorageWaitingEstimate(
+  portCode: string,
+  arrivalDate?: string
+): Promise<AnchorageWaitingEstimate | null> {
+  const policy = getConfigManager().getDataPolicy('route');
+
+  if (policy?.port_congestion_source === 'port_capabilities') {
+    try {
+      const capabilities = await bunkerDataService.fetchPortCapabilities(portCode);
+      const hours = parseBerthAvailabilityHours(capabilities?.berthAvailability, arrivalDate);
+      if (hours !== undefined) {
+        return { port_code: portCode, waiting_hours: hours, source: 'port_capabilities' };
+      }
+    } catch (error) {
+      console.warn(
+        `[PORT-CONGESTION] Port capabilities unavailable for ${portCode}; using port table:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  const tableHours = getTableWaitingHours(portCode, policy);
+  return tableHours !== undefined ? { port_code: portCode, waiting_hours: tableHours, source: 'port_table' } : null;
+}
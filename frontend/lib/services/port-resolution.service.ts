@@ -34,6 +34,14 @@ export interface ResolvePortsResult {
   destination_coordinates?: [number, number];
 }
 
+export interface ResolvedPort {
+  /** UN/LOCODE or WPI_* id */
+  code: string;
+  name?: string;
+  /** [latitude, longitude] */
+  coordinates?: [number, number];
+}
+
 export class PortResolutionService {
   constructor(
     private worldPortRepo: IWorldPortRepository,
@@ -181,6 +189,51 @@ export class PortResolutionService {
     return result;
   }
 
+  /**
+   * Resolve one port name or code (UN/LOCODE or WPI_*) to a code + coordinates.
+   * Used for itinerary port calls; World Port first, then optional SeaRoute API fallback.
+   */
+  async resolvePort(nameOrCode: string): Promise<ResolvedPort | null> {
+    const query = nameOrCode.trim();
+    if (!query) return null;
+
+    try {
+      const code = query.replace(/\s/g, '').toUpperCase();
+      if (/^[A-Z0-9]{5}$/.test(code) || /^WPI_\d+$/.test(code)) {
+        const entry = await this.worldPortRepo.findByCode(code);
+        if (entry?.coordinates && entry.coordinates.length >= 2) {
+          return { code, name: entry.name, coordinates: [entry.coordinates[0], entry.coordinates[1]] };
+        }
+      }
+
+      const w = await this.worldPortRepo.findByName(query);
+      if (w?.coordinates) {
+        const resolvedCode = (w.code && String(w.code).trim()) ? w.code : w.id;
+        console.log(`✅ [PORT-RESOLUTION] World Port call: ${resolvedCode} (${w.name})`);
+        return { code: resolvedCode, name: w.name, coordinates: [w.coordinates[0], w.coordinates[1]] };
+      }
+
+      if (this.useApiFallback) {
+        const apiCode = await resolvePortNameToCode(query);
+        if (apiCode) {
+          const entry = await this.worldPortRepo.findByCode(apiCode);
+          console.log(`✅ [PORT-RESOLUTION] API fallback call: ${apiCode}`);
+          return {
+            code: apiCode,
+            name: entry?.name,
+            coordinates:
+              entry?.coordinates && entry.coordinates.length >= 2
+                ? [entry.coordinates[0], entry.coordinates[1]]
+                : undefined,
+          };
+        }
+      }
+    } catch (e) {
+      console.warn(`[PORT-RESOLUTION] resolvePort(${query}) failed:`, e instanceof Error ? e.message : e);
+    }
+    return null;
+  }
+
   /**
    * Get coordinates for a port code (UN/LOCODE or WPI_*). Used by route-validator.
    */
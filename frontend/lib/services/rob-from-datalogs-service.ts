@@ -7,13 +7,16 @@
  *
  * Also provides getCurrentStateFromDatalogs(imo) to build VesselCurrentState from
  * the latest data_logs row for use in vessel planning (no Supabase).
+ *
+ * The latest row is the latest one that passes noon report validation against the
+ * vessel's recent reports (noon-report-quality-service); excluded reports are skipped.
  */
 
-import { DatalogsClient, type DatalogRow } from '@/lib/clients/datalogs-client';
+import type { DatalogRow } from '@/lib/clients/datalogs-client';
+import type { NoonReportDataQuality } from '@/lib/engines/noon-report-validation-engine';
 import type { VesselCurrentState } from '@/lib/repositories/types';
 import type { DataPolicyConfig } from '@/lib/types/config';
-
-const datalogsClient = new DatalogsClient();
+import { getLatestValidatedDatalog } from '@/lib/services/noon-report-quality-service';
 
 function toNum(v: unknown): number {
   if (v == null) return 0;
@@ -66,17 +69,29 @@ function toNumber(v: unknown): number | null {
  *
  * @param imo - Vessel IMO (caller should resolve name→IMO via VesselIdentifierService first if needed)
  * @param policy - Data-policy with rob_source, rob_columns, rob_filter
- * @returns Snapshot keyed by fuel type, or null if no datalog row or policy not datalogs
+ * @returns Snapshot keyed by fuel type, or null if no usable datalog row or policy not datalogs
  */
 export async function getRobFromDatalogs(
   imo: string,
   policy: DataPolicyConfig | null | undefined
 ): Promise<RobSnapshot | null> {
-  if (!imo?.trim()) return null;
-  if (!policy || policy.rob_source !== 'datalogs') return null;
+  return (await getValidatedRobFromDatalogs(imo, policy)).rob;
+}
 
-  const row = await datalogsClient.getLatestRawByIMO(imo.trim());
-  if (!row) return null;
+/**
+ * getRobFromDatalogs with the data quality of the vessel's recent noon reports
+ *
+ * @returns rob as getRobFromDatalogs; data_quality null when no reports were validated
+ */
+export async function getValidatedRobFromDatalogs(
+  imo: string,
+  policy: DataPolicyConfig | null | undefined
+): Promise<{ rob: RobSnapshot | null; data_quality: NoonReportDataQuality | null }> {
+  if (!imo?.trim()) return { rob: null, data_quality: null };
+  if (!policy || policy.rob_source !== 'datalogs') return { rob: null, data_quality: null };
+
+  const { row, data_quality } = await getLatestValidatedDatalog(imo.trim());
+  if (!row) return { rob: null, data_quality };
 
   const columns = policy.rob_columns ?? [
     'ROB_VLSFO',
@@ -100,7 +115,7 @@ export async function getRobFromDatalogs(
     snapshot[fuelKey] = value;
   }
 
-  return Object.keys(snapshot).length > 0 ? snapshot : null;
+  return { rob: Object.keys(snapshot).length > 0 ? snapshot : null, data_quality };
 }
 
 /**
@@ -108,14 +123,14 @@ export async function getRobFromDatalogs(
  * Used by VesselService.getVesselForVoyagePlanning so ROB comes from APIs only (no Supabase).
  *
  * @param imo - Vessel IMO
- * @returns VesselCurrentState or null if no datalog row for the IMO
+ * @returns VesselCurrentState or null if no usable datalog row for the IMO
  */
 export async function getCurrentStateFromDatalogs(
   imo: string
 ): Promise<VesselCurrentState | null> {
   if (!imo?.trim()) return null;
 
-  const row = await datalogsClient.getLatestRawByIMO(imo.trim());
+  const { row, data_quality } = await getLatestValidatedDatalog(imo.trim());
   if (!row) return null;
 
   const reportDate = parseReportDate(row);
@@ -152,5 +167,6 @@ export async function getCurrentStateFromDatalogs(
         ? row.LOAD_TYPE.trim()
         : '',
     last_report_date: reportDate,
+    ...(data_quality && { data_quality }),
   };
 }
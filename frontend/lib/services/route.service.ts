@@ -3,20 +3,28 @@
  * 
  * Provides route calculation with ECA zone detection and timeline calculation.
  * Uses PortRepository for port data and SeaRoute API for route calculation.
+ * Falls back to the offline SeaRoutingEngine when the API fails, or uses it directly
+ * when enable_offline_sea_routing is on or passages must be avoided. Route alternatives
+ * (e.g. Suez vs Cape of Good Hope) come from re-routing with each canal avoided.
+ * Multi-port itineraries are routed leg by leg and joined into one route.
  */
 
 import { PortRepository } from '@/lib/repositories/port-repository';
 import { RedisCache } from '@/lib/repositories/cache-client';
-import { SeaRouteAPIClient } from './sea-route-api-client';
+import { SeaRouteAPIClient, type SeaRouteCalculateRouteResult } from './sea-route-api-client';
+import { seaRoutingEngine, CANAL_PASSAGES, SEA_PASSAGE_LABELS, type SeaPassage } from '@/lib/engines/sea-routing-engine';
+import { getConfigManager } from '@/lib/config/config-manager';
 import {
   RouteData,
+  RouteLeg,
+  ItineraryCall,
+  PortCallDeviation,
   Waypoint,
   Timeline,
   TimelineEntry,
   ECASegment,
-  ECAZone,
 } from './types';
-import { ECA_ZONES } from '@/lib/tools/eca-config';
+import { getRegulatoryZoneRegistry, isEmissionControlArea } from '@/lib/config/regulatory-zone-registry';
 import * as turf from '@turf/turf';
 import {
   validateCoordinates,
@@ -104,6 +112,14 @@ export function normalizeCachedRoute(cached: CachedRouteData): RouteData {
 /** Port-like shape for route resolution (Port or WorldPortEntry). */
 type PortLike = (Port | WorldPortEntry) & { coordinates: [number, number] };
 
+/** Passages that name a route alternative (route id suffix and route type) */
+const ROUTE_DEFINING_PASSAGES: SeaPassage[] = ['suez_canal', 'panama_canal', 'cape_of_good_hope', 'cape_horn'];
+
+export type RouteCalculationParams = Parameters<RouteService['calculateRoute']>[0];
+
+/** Downstream waypoints tried as rejoin points per port call (at 1× and 2× the in-leg distance along the route) */
+const PORT_CALL_REJOIN_MULTIPLES = [1, 2];
+
 export class RouteService {
   constructor(
     private portRepo: PortRepository,
@@ -122,27 +138,30 @@ export class RouteService {
     departureDate: Date;
     origin_coordinates?: [number, number]; // Optional coordinates from supervisor
     destination_coordinates?: [number, number]; // Optional coordinates from supervisor
+    avoid?: SeaPassage[]; // Passages to avoid (offline routing only)
   }): Promise<RouteData> {
+    const avoid = params.avoid ?? [];
+
     // Generate cache key
-    const cacheKey = `fuelsense:route:${params.origin}-${params.destination}-${params.speed}`;
+    const avoidKey = avoid.length > 0 ? `:avoid=${[...avoid].sort().join(',')}` : '';
+    const cacheKey = `fuelsense:route:${params.origin}-${params.destination}-${params.speed}${avoidKey}`;
 
     // Try cache
     try {
       const cachedRaw = await this.cache.get<CachedRouteData>(cacheKey);
       if (cachedRaw) {
         const cached = normalizeCachedRoute(cachedRaw);
-        // Adjust timeline dates based on new departure date
+        // Adjust timeline dates based on new departure date; ECAs in force may differ at the new dates
         const timeDiff = params.departureDate.getTime() - cached.timeline[0]?.eta.getTime();
         if (timeDiff !== 0) {
-          cached.timeline = cached.timeline.map((entry) => ({
-            ...entry,
-            eta: new Date(entry.eta.getTime() + timeDiff),
-          }));
-          cached.ecaSegments = cached.ecaSegments.map((segment) => ({
-            ...segment,
-            startTime: new Date(segment.startTime.getTime() + timeDiff),
-            endTime: new Date(segment.endTime.getTime() + timeDiff),
-          }));
+          cached.timeline = this.detectECAZones(
+            cached.timeline.map((entry) => ({
+              ...entry,
+              eta: new Date(entry.eta.getTime() + timeDiff),
+            }))
+          );
+          cached.waypoints = cached.timeline.map((entry) => entry.waypoint);
+          cached.ecaSegments = this.buildECASegments(cached.waypoints, cached.timeline);
         }
         console.log(`[CACHE HIT] route:${params.origin}-${params.destination}`);
         return cached;
@@ -254,50 +273,77 @@ export class RouteService {
       console.log('🚢 [ROUTE-SERVICE] Sending port codes to SeaRoute API');
     }
 
-    let apiResponse!: Awaited<ReturnType<SeaRouteAPIClient['calculateRoute']>>;
+    let apiResponse!: SeaRouteCalculateRouteResult & { passages?: SeaPassage[] };
     const maxRetries = 2;
+    const offlineRoute =
+      avoid.length > 0 || getConfigManager().isFeatureEnabled('enable_offline_sea_routing')
+        ? this.calculateOfflineRoute(originPort, destPort, params.speed, avoid)
+        : null;
+
+    // SeaRoute API has no avoidance options
+    if (!offlineRoute && avoid.length > 0) {
+      throw new Error(
+        `No route from ${params.origin} to ${params.destination} avoiding ` +
+          `${avoid.map((p) => SEA_PASSAGE_LABELS[p]).join(', ')}`
+      );
+    }
 
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (offlineRoute) {
+      apiResponse = offlineRoute;
+    } else {
       try {
-        apiResponse = await this.seaRouteAPI.calculateRoute({
-          from: fromParam,
-          to: toParam,
-          speed: params.speed,
-        });
-        break;
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+          try {
+            apiResponse = await this.seaRouteAPI.calculateRoute({
+              from: fromParam,
+              to: toParam,
+              speed: params.speed,
+            });
+            break;
+          } catch (apiError) {
+            const unknownPort = parseSeaRouteUnknownPortError(apiError instanceof Error ? apiError : new Error(String(apiError)));
+            if (!unknownPort || attempt >= maxRetries) {
+              throw apiError;
+            }
+            // SeaRoute API accepts only (from, to) OR (origin_lon, origin_lat, dest_lon, dest_lat). No mixed mode.
+            // So when one port is unknown we must send BOTH ends as coordinates.
+            const needOriginCoords = unknownPort === params.origin && typeof fromParam === 'string';
+            const needDestCoords = unknownPort === params.destination && typeof toParam === 'string';
+            if (!originPort?.coordinates || !destPort?.coordinates) {
+              throw new Error(
+                `SeaRoute API does not recognize port ${unknownPort}. ` +
+                  `Port not found in local database or World Port Index, or has invalid coordinates. ` +
+                  `Try ports from: SGSIN, NLRTM, AEFJR, GIGIB, USHOU, LKCMB, EGPSD, ESBCN, USNYC, INMUN`
+              );
+            }
+            const [latO, lonO] = originPort.coordinates;
+            const [latD, lonD] = destPort.coordinates;
+            if (
+              Math.abs(latO) < 0.001 && Math.abs(lonO) < 0.001 ||
+              Math.abs(latD) < 0.001 && Math.abs(lonD) < 0.001
+            ) {
+              throw new Error(
+                `SeaRoute API does not recognize port ${unknownPort}. ` +
+                  `Local coordinates are invalid (0,0). Try a different port.`
+              );
+            }
+            if (!validateCoordinates({ lat: latO, lon: lonO }) || !validateCoordinates({ lat: latD, lon: lonD })) {
+              throw new Error(`Invalid coordinates for one or both ports. Cannot fall back to coordinates.`);
+            }
+            console.warn(`⚠️ [ROUTE-SERVICE] Port ${unknownPort} not in SeaRoute API, using coordinates from local DB / World Port Index for both ends`);
+            fromParam = [latO, lonO];
+            toParam = [latD, lonD];
+          }
+        }
       } catch (apiError) {
-        const unknownPort = parseSeaRouteUnknownPortError(apiError instanceof Error ? apiError : new Error(String(apiError)));
-        if (!unknownPort || attempt >= maxRetries) {
+        const fallback = this.calculateOfflineRoute(originPort, destPort, params.speed);
+        if (!fallback) {
           throw apiError;
         }
-        // SeaRoute API accepts only (from, to) OR (origin_lon, origin_lat, dest_lon, dest_lat). No mixed mode.
-        // So when one port is unknown we must send BOTH ends as coordinates.
-        const needOriginCoords = unknownPort === params.origin && typeof fromParam === 'string';
-        const needDestCoords = unknownPort === params.destination && typeof toParam === 'string';
-        if (!originPort?.coordinates || !destPort?.coordinates) {
-          throw new Error(
-            `SeaRoute API does not recognize port ${unknownPort}. ` +
-              `Port not found in local database or World Port Index, or has invalid coordinates. ` +
-              `Try ports from: SGSIN, NLRTM, AEFJR, GIGIB, USHOU, LKCMB, EGPSD, ESBCN, USNYC, INMUN`
-          );
-        }
-        const [latO, lonO] = originPort.coordinates;
-        const [latD, lonD] = destPort.coordinates;
-        if (
-          Math.abs(latO) < 0.001 && Math.abs(lonO) < 0.001 ||
-          Math.abs(latD) < 0.001 && Math.abs(lonD) < 0.001
-        ) {
-          throw new Error(
-            `SeaRoute API does not recognize port ${unknownPort}. ` +
-              `Local coordinates are invalid (0,0). Try a different port.`
-          );
-        }
-        if (!validateCoordinates({ lat: latO, lon: lonO }) || !validateCoordinates({ lat: latD, lon: lonD })) {
-          throw new Error(`Invalid coordinates for one or both ports. Cannot fall back to coordinates.`);
-        }
-        console.warn(`⚠️ [ROUTE-SERVICE] Port ${unknownPort} not in SeaRoute API, using coordinates from local DB / World Port Index for both ends`);
-        fromParam = [latO, lonO];
-        toParam = [latD, lonD];
+        console.warn(
+          `⚠️ [ROUTE-SERVICE] SeaRoute API failed (${apiError instanceof Error ? apiError.message : String(apiError)}), using offline sea routing`
+        );
+        apiResponse = fallback;
       }
     }
 
@@ -374,21 +420,19 @@ export class RouteService {
       console.log('✅ [ROUTE-SERVICE] Waypoint validation passed');
     }
 
-    // Enhance with ECA zones
-    const enhancedWaypoints = await this.detectECAZones(waypoints);
-
-    // Calculate timeline
-    const timeline = this.calculateTimeline(
-      enhancedWaypoints,
-      params.speed,
-      params.departureDate
+    // Calculate timeline, then mark ECA waypoints using the zones in force at each ETA
+    const timeline = this.detectECAZones(
+      this.calculateTimeline(waypoints, params.speed, params.departureDate)
     );
+    const enhancedWaypoints = timeline.map((entry) => entry.waypoint);
 
     // Build ECA segments
     const ecaSegments = this.buildECASegments(enhancedWaypoints, timeline);
 
-    // Determine route type
-    const routeType = this.determineRouteType(enhancedWaypoints);
+    // Passages (canals, straits, capes) and route type
+    const passages = apiResponse.passages ?? seaRoutingEngine.detectPassages(apiResponse.geometry);
+    const routeType = this.determineRouteType(enhancedWaypoints, passages);
+    const routeKey = passages.filter((p) => ROUTE_DEFINING_PASSAGES.includes(p)).join('+') || 'direct';
 
     const originCountry = (originPort as Port)?.country ?? (originPort as WorldPortEntry)?.countryCode ?? 'Unknown';
     const destCountry = (destPort as Port)?.country ?? (destPort as WorldPortEntry)?.countryCode ?? 'Unknown';
@@ -413,6 +457,9 @@ export class RouteService {
       ecaSegments,
       estimatedHours: apiResponse.duration || apiResponse.distance / params.speed,
       routeType,
+      routeId: `${params.origin}-${params.destination}-${routeKey}`,
+      passages,
+      canalTollUsd: seaRoutingEngine.estimateCanalTolls(passages),
     };
 
     // Cache result (1 hour TTL)
@@ -425,6 +472,267 @@ export class RouteService {
     return routeData;
   }
 
+  /**
+   * Calculate route alternatives: the route for the given constraints, plus routes avoiding
+   * each canal it uses (via Suez vs Cape of Good Hope, Panama vs Cape Horn). Alternatives
+   * that cannot be routed are skipped; routes are ordered shortest first.
+   */
+  async calculateRouteAlternatives(params: RouteCalculationParams): Promise<RouteData[]> {
+    const avoid = params.avoid ?? [];
+    const primary = await this.calculateRoute(params);
+    const routes: RouteData[] = [primary];
+    const maxAlternatives = seaRoutingEngine.getParameters().max_alternatives;
+
+    for (const canal of CANAL_PASSAGES) {
+      if (routes.length >= maxAlternatives) break;
+      if (!primary.passages?.includes(canal)) continue;
+      try {
+        const alternative = await this.calculateRoute({ ...params, avoid: [...avoid, canal] });
+        if (!routes.some((route) => route.routeId === alternative.routeId)) {
+          routes.push(alternative);
+        }
+      } catch (error) {
+        console.warn(
+          `⚠️ [ROUTE-SERVICE] No alternative avoiding ${SEA_PASSAGE_LABELS[canal]}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+    }
+
+    console.log(
+      `🔀 [ROUTE-SERVICE] ${routes.length} route alternative(s): ` +
+        routes.map((route) => `${route.routeType} ${route.totalDistanceNm.toFixed(0)}nm`).join(', ')
+    );
+    return routes.sort((a, b) => a.totalDistanceNm - b.totalDistanceNm);
+  }
+
+  /**
+   * Calculate a multi-port itinerary route: one route per pair of consecutive calls, joined
+   * into a single route with per-leg waypoint ranges. Each leg departs after the previous
+   * call's port stay, so the timeline and ECA segment times include time in port.
+   * estimatedHours is sailing time only.
+   *
+   * @throws Error when fewer than two calls are given or any leg cannot be routed
+   */
+  async calculateItineraryRoute(params: {
+    calls: ItineraryCall[];
+    speed: number; // Knots
+    departureDate: Date;
+    avoid?: SeaPassage[];
+  }): Promise<RouteData> {
+    const { calls } = params;
+    if (calls.length < 2) {
+      throw new Error('An itinerary needs at least two port calls');
+    }
+
+    const legs: RouteLeg[] = [];
+    const waypoints: Waypoint[] = [];
+    const timeline: Timeline = [];
+    const ecaSegments: ECASegment[] = [];
+    const passages: SeaPassage[] = [];
+    let departure = params.departureDate;
+    let sailingHours = 0;
+
+    for (let i = 0; i < calls.length - 1; i++) {
+      const from = calls[i];
+      const to = calls[i + 1];
+      const leg = await this.calculateRoute({
+        origin: from.code,
+        destination: to.code,
+        speed: params.speed,
+        departureDate: departure,
+        origin_coordinates: from.coordinates,
+        destination_coordinates: to.coordinates,
+        avoid: params.avoid,
+      });
+
+      // Consecutive legs share the call waypoint: skip the leg's first waypoint after the first leg
+      const skip = i === 0 ? 0 : 1;
+      const offsetIndex = waypoints.length - skip;
+      const offsetNm = waypoints.length > 0 ? waypoints[waypoints.length - 1].distanceFromStartNm : 0;
+      const shift = (wp: Waypoint): Waypoint => ({ ...wp, distanceFromStartNm: wp.distanceFromStartNm + offsetNm });
+
+      waypoints.push(...leg.waypoints.slice(skip).map(shift));
+      timeline.push(
+        ...leg.timeline.slice(skip).map((entry) => ({
+          ...entry,
+          waypoint: shift(entry.waypoint),
+          distanceFromStartNm: entry.distanceFromStartNm + offsetNm,
+        }))
+      );
+      ecaSegments.push(
+        ...leg.ecaSegments.map((seg) => ({
+          ...seg,
+          startWaypointIndex: seg.startWaypointIndex + offsetIndex,
+          endWaypointIndex: seg.endWaypointIndex + offsetIndex,
+        }))
+      );
+      for (const passage of leg.passages ?? []) {
+        if (passages[passages.length - 1] !== passage) passages.push(passage);
+      }
+
+      const portStayHours = i + 1 < calls.length - 1 ? to.portStayHours ?? 0 : 0;
+      legs.push({
+        origin: leg.origin,
+        destination: leg.destination,
+        distanceNm: leg.totalDistanceNm,
+        estimatedHours: leg.estimatedHours,
+        routeType: leg.routeType,
+        passages: leg.passages,
+        startWaypointIndex: offsetIndex,
+        endWaypointIndex: waypoints.length - 1,
+        portStayHours,
+      });
+
+      sailingHours += leg.estimatedHours;
+      departure = new Date(departure.getTime() + (leg.estimatedHours + portStayHours) * 3600000);
+    }
+
+    const routeKey = passages.filter((p) => ROUTE_DEFINING_PASSAGES.includes(p)).join('+') || 'direct';
+    const totalDistanceNm = legs.reduce((sum, leg) => sum + leg.distanceNm, 0);
+    console.log(
+      `🧭 [ROUTE-SERVICE] Itinerary ${calls.map((c) => c.code).join(' → ')}: ` +
+        `${legs.length} legs, ${totalDistanceNm.toFixed(0)}nm, ${sailingHours.toFixed(1)}h sailing`
+    );
+
+    return {
+      origin: legs[0].origin,
+      destination: legs[legs.length - 1].destination,
+      waypoints,
+      totalDistanceNm,
+      timeline,
+      ecaSegments,
+      estimatedHours: sailingHours,
+      routeType: this.determineRouteType(waypoints, passages),
+      routeId: `${calls.map((c) => c.code).join('-')}-${routeKey}`,
+      passages,
+      canalTollUsd: seaRoutingEngine.estimateCanalTolls(passages),
+      legs,
+    };
+  }
+
+  /**
+   * Sea distance (nm) between two positions via the SeaRoute API, falling back to the offline
+   * SeaRoutingEngine (used directly when enable_offline_sea_routing is on). Cached for 24 hours.
+   */
+  async calculateSeaDistance(from: [number, number], to: [number, number]): Promise<number> {
+    const key = (c: [number, number]) => `${c[0].toFixed(3)},${c[1].toFixed(3)}`;
+    const cacheKey = `fuelsense:sea-distance:${key(from)}-${key(to)}`;
+    try {
+      const cached = await this.cache.get<number>(cacheKey);
+      if (typeof cached === 'number') return cached;
+    } catch (error) {
+      console.warn('⚠️ [ROUTE-SERVICE] Sea distance cache read failed:', error);
+    }
+
+    let distance: number;
+    if (getConfigManager().isFeatureEnabled('enable_offline_sea_routing')) {
+      distance = seaRoutingEngine.calculateRoute({ from, to }).distance;
+    } else {
+      try {
+        distance = (await this.seaRouteAPI.calculateRoute({ from, to })).distance;
+      } catch (error) {
+        console.warn(
+          `⚠️ [ROUTE-SERVICE] SeaRoute API failed for sea distance (${error instanceof Error ? error.message : String(error)}), using offline sea routing`
+        );
+        distance = seaRoutingEngine.calculateRoute({ from, to }).distance;
+      }
+    }
+
+    try {
+      await this.cache.set(cacheKey, distance, 86400);
+    } catch (error) {
+      console.warn('⚠️ [ROUTE-SERVICE] Sea distance cache write failed:', error);
+    }
+    return distance;
+  }
+
+  /**
+   * Extra sea distance of a port call: leave the route at the given waypoint, sail to the port
+   * (in leg), then back to the best rejoin waypoint (out leg) — the leaving waypoint itself or a
+   * downstream waypoint — minus the route distance saved between leaving and rejoining.
+   *
+   * @param waypoints - Route waypoints in voyage order
+   * @param port - Port position
+   * @param leaveWaypointIndex - Waypoint where the vessel leaves the route (nearest to the port)
+   */
+  async calculatePortCallDeviation(
+    waypoints: Array<{ lat: number; lon: number }>,
+    port: { lat: number; lon: number },
+    leaveWaypointIndex: number
+  ): Promise<PortCallDeviation> {
+    const position = (i: number): [number, number] => [waypoints[i].lat, waypoints[i].lon];
+    const portPosition: [number, number] = [port.lat, port.lon];
+    const inLegNm = await this.calculateSeaDistance(position(leaveWaypointIndex), portPosition);
+
+    // Returning to the leaving waypoint: out leg mirrors the in leg
+    let best: PortCallDeviation = {
+      deviationNm: inLegNm * 2,
+      inLegNm,
+      outLegNm: inLegNm,
+      directNm: 0,
+      leaveWaypointIndex,
+      rejoinWaypointIndex: leaveWaypointIndex,
+    };
+
+    // Downstream rejoin candidates: first waypoint at least k × in-leg further along the route
+    const candidates = new Map<number, number>();
+    for (const multiple of PORT_CALL_REJOIN_MULTIPLES) {
+      let alongNm = 0;
+      for (let i = leaveWaypointIndex + 1; i < waypoints.length; i++) {
+        alongNm += this.haversineDistance(position(i - 1), position(i));
+        if (alongNm >= inLegNm * multiple || i === waypoints.length - 1) {
+          candidates.set(i, alongNm);
+          break;
+        }
+      }
+    }
+
+    for (const [rejoinIndex, directNm] of candidates) {
+      const outLegNm = await this.calculateSeaDistance(portPosition, position(rejoinIndex));
+      const deviationNm = inLegNm + outLegNm - directNm;
+      if (deviationNm < best.deviationNm) {
+        best = { deviationNm, inLegNm, outLegNm, directNm, leaveWaypointIndex, rejoinWaypointIndex: rejoinIndex };
+      }
+    }
+
+    return { ...best, deviationNm: Math.max(0, best.deviationNm) };
+  }
+
+  /**
+   * Calculate the route with the offline SeaRoutingEngine.
+   * Returns null when either port lacks valid coordinates or the engine cannot route it.
+   */
+  private calculateOfflineRoute(
+    originPort: PortLike | null,
+    destPort: PortLike | null,
+    speed: number,
+    avoid: SeaPassage[] = []
+  ): (SeaRouteCalculateRouteResult & { passages: SeaPassage[] }) | null {
+    if (!originPort?.coordinates || !destPort?.coordinates) {
+      return null;
+    }
+    const [latO, lonO] = originPort.coordinates;
+    const [latD, lonD] = destPort.coordinates;
+    if (
+      (Math.abs(latO) < 0.001 && Math.abs(lonO) < 0.001) ||
+      (Math.abs(latD) < 0.001 && Math.abs(lonD) < 0.001)
+    ) {
+      return null;
+    }
+
+    try {
+      console.log('🧭 [ROUTE-SERVICE] Calculating route offline over sea lanes');
+      return seaRoutingEngine.calculateRoute({ from: [latO, lonO], to: [latD, lonD], speed, avoid });
+    } catch (error) {
+      console.warn(
+        '⚠️ [ROUTE-SERVICE] Offline sea routing failed:',
+        error instanceof Error ? error.message : String(error)
+      );
+      return null;
+    }
+  }
+
   /**
    * Convert API geometry to waypoints with distance calculations
    */
@@ -491,44 +799,18 @@ export class RouteService {
   }
 
   /**
-   * Detect ECA zones for waypoints
+   * Detect ECA zones for timeline waypoints, using the zones in force at each waypoint's ETA
    */
-  private async detectECAZones(waypoints: Waypoint[]): Promise<Waypoint[]> {
-    // Get active ECA zones
-    const activeZones: ECAZone[] = Object.values(ECA_ZONES)
-      .filter((zone) => zone.status === 'ACTIVE')
-      .map((zone) => ({
-        name: zone.name,
-        code: zone.code,
-        boundaries: zone.boundaries,
-      }));
-
-    // Create route line for intersection checks
-    const routeLine = turf.lineString(
-      waypoints.map((wp) => [wp.coordinates[1], wp.coordinates[0]]) // [lon, lat] for Turf
-    );
-
-    return waypoints.map((waypoint) => {
-      const point = turf.point([waypoint.coordinates[1], waypoint.coordinates[0]]); // [lon, lat]
-
-      // Check each ECA zone
-      for (const zone of activeZones) {
-        for (const boundary of zone.boundaries) {
-          // Convert boundary to Turf polygon format
-          const polygon = turf.polygon([boundary]);
-
-          // Check if point is in polygon
-          if (turf.booleanPointInPolygon(point, polygon)) {
-            return {
-              ...waypoint,
-              inECA: true,
-              ecaZoneName: zone.name,
-            };
-          }
-        }
-      }
-
-      return waypoint;
+  private detectECAZones(timeline: Timeline): Timeline {
+    const registry = getRegulatoryZoneRegistry();
+
+    return timeline.map((entry) => {
+      const [lat, lon] = entry.waypoint.coordinates;
+      const [zone] = registry.findZonesAt({ lat, lon }, entry.eta, isEmissionControlArea);
+      const waypoint: Waypoint = zone
+        ? { ...entry.waypoint, inECA: true, ecaZoneName: zone.name }
+        : { ...entry.waypoint, inECA: false, ecaZoneName: undefined };
+      return { ...entry, waypoint };
     });
   }
 
@@ -633,9 +915,9 @@ export class RouteService {
   }
 
   /**
-   * Determine route type based on waypoints
+   * Determine route type based on passages and waypoints
    */
-  private determineRouteType(waypoints: Waypoint[]): string {
+  private determineRouteType(waypoints: Waypoint[], passages: SeaPassage[] = []): string {
     // Check for major canal passages
     const suezCanal = { lat: 30.5852, lon: 32.2656 };
     const panamaCanal = { lat: 9.0, lon: -79.5 };
@@ -652,8 +934,10 @@ export class RouteService {
         Math.abs(wp.coordinates[1] - panamaCanal.lon) < 2
     );
 
-    if (nearSuez) return 'via Suez Canal';
-    if (nearPanama) return 'via Panama Canal';
+    if (nearSuez || passages.includes('suez_canal')) return 'via Suez Canal';
+    if (nearPanama || passages.includes('panama_canal')) return 'via Panama Canal';
+    if (passages.includes('cape_of_good_hope')) return 'via Cape of Good Hope';
+    if (passages.includes('cape_horn')) return 'via Cape Horn';
 
     // Check if route crosses major ocean basins
     const lats = waypoints.map((wp) => wp.coordinates[0]);
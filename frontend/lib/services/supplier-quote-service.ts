@@ -0,0 +1,366 @@
+/**
+ * Supplier Quote Service
+ *
+ * Physical supplier quotes per port and grade (price, min/max stem, delivery mode,
+ * validity window) ingested from buyers as JSON or CSV, evaluated for a stem by the
+ * bunker analyzer, and stem nominations generated from the chosen port and suppliers.
+ * Quotes and nominations are held in memory; repeated analyses update the same draft and
+ * only the latest MAX_DRAFT_NOMINATIONS drafts are kept.
+ */
+
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import type {
+  StemNomination,
+  StemNominationLine,
+  SupplierQuote,
+  SupplierQuoteOption,
+} from '@/lib/types/bunker';
+import { isSameFuelGrade, normalizeFuelType } from '@/lib/utils/fuel-grade';
+
+const LOG_PREFIX = '[SupplierQuoteService]';
+
+/** Draft nominations kept in memory; the oldest are dropped beyond this. */
+const MAX_DRAFT_NOMINATIONS = 100;
+
+/** Typed error for quote ingest and nomination export. */
+export class SupplierQuoteError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string
+  ) {
+    super(message);
+    this.name = 'SupplierQuoteError';
+  }
+}
+
+/** Quote as submitted; ids, currency and timestamps are filled in on ingest. */
+const supplierQuoteInputSchema = z
+  .object({
+    quote_id: z.string().trim().min(1).optional(),
+    supplier: z.string().trim().min(1, 'supplier is required'),
+    port_code: z.string().trim().min(1, 'port_code is required'),
+    port_name: z.string().trim().optional(),
+    fuel_type: z.string().trim().min(1, 'fuel_type is required'),
+    price_per_mt: z.coerce.number().positive('price_per_mt must be positive'),
+    currency: z.string().trim().toUpperCase().default('USD'),
+    min_stem_mt: z.coerce.number().min(0).default(0),
+    max_stem_mt: z.coerce.number().positive('max_stem_mt must be positive'),
+    delivery_mode: z.enum(['barge', 'truck', 'pipe']),
+    delivery_charge_usd: z.coerce.number().min(0).optional(),
+    valid_from: z.string().trim().refine((v) => !Number.isNaN(Date.parse(v)), 'valid_from must be a date'),
+    valid_until: z.string().trim().refine((v) => !Number.isNaN(Date.parse(v)), 'valid_until must be a date'),
+  })
+  .refine((q) => q.max_stem_mt >= q.min_stem_mt, { message: 'max_stem_mt must be at least min_stem_mt' })
+  .refine((q) => Date.parse(q.valid_until) >= Date.parse(q.valid_from), {
+    message: 'valid_until must not be before valid_from',
+  });
+
+export interface QuoteIngestResult {
+  accepted: SupplierQuote[];
+  rejected: Array<{ index: number; reason: string }>;
+}
+
+export interface QuoteFilter {
+  /** Port code or name */
+  port?: string;
+  fuel_type?: string;
+  /** Only quotes whose validity window contains this date */
+  valid_at?: string;
+}
+
+/**
+ * Parse a CSV line respecting quoted fields (commas and doubled quotes inside quotes).
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+/**
+ * Quote a CSV cell. Text starting with =, +, -, @, tab or CR (supplier names and quote ids
+ * come from ingested quotes) is prefixed with ' so spreadsheets do not run it as a formula.
+ */
+function csvField(value: string | number): string {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function samePort(quote: SupplierQuote, port: string): boolean {
+  const key = port.trim().toUpperCase();
+  return quote.port_code.toUpperCase() === key || (quote.port_name ?? '').trim().toUpperCase() === key;
+}
+
+/** Same vessel, port, delivery day and quoted lines: the same stem, whichever analysis drafted it. */
+function nominationKey(nomination: StemNomination): string {
+  return JSON.stringify([
+    nomination.vessel?.imo ?? nomination.vessel?.name ?? '',
+    nomination.port_code,
+    nomination.delivery_date.slice(0, 10),
+    nomination.lines.map((line) => [line.fuel_type, line.quantity_mt, line.quote_id]),
+  ]);
+}
+
+export class SupplierQuoteService {
+  private quotes = new Map<string, SupplierQuote>();
+  private nominations = new Map<string, StemNomination>();
+
+  /**
+   * Validate and store quotes. A quote with an existing quote_id replaces it.
+   */
+  ingestQuotes(rows: unknown[]): QuoteIngestResult {
+    const result: QuoteIngestResult = { accepted: [], rejected: [] };
+    const receivedAt = new Date().toISOString();
+
+    rows.forEach((row, index) => {
+      const parsed = supplierQuoteInputSchema.safeParse(row);
+      if (!parsed.success) {
+        result.rejected.push({
+          index,
+          reason: parsed.error.issues.map((i) => `${i.path.join('.') || 'quote'}: ${i.message}`).join('; '),
+        });
+        return;
+      }
+      const q = parsed.data;
+      const quote: SupplierQuote = {
+        quote_id: q.quote_id ?? randomUUID(),
+        supplier: q.supplier,
+        port_code: q.port_code.toUpperCase(),
+        ...(q.port_name && { port_name: q.port_name }),
+        fuel_type: normalizeFuelType(q.fuel_type).toUpperCase(),
+        price_per_mt: q.price_per_mt,
+        currency: q.currency,
+        min_stem_mt: q.min_stem_mt,
+        max_stem_mt: q.max_stem_mt,
+        delivery_mode: q.delivery_mode,
+        ...(q.delivery_charge_usd !== undefined && { delivery_charge_usd: q.delivery_charge_usd }),
+        valid_from: new Date(q.valid_from).toISOString(),
+        valid_until: new Date(q.valid_until).toISOString(),
+        received_at: receivedAt,
+      };
+      this.quotes.set(quote.quote_id, quote);
+      result.accepted.push(quote);
+    });
+
+    console.log(`${LOG_PREFIX} Ingested ${result.accepted.length} quote(s), rejected ${result.rejected.length}`);
+    return result;
+  }
+
+  /**
+   * Parse CSV (header row with SupplierQuote field names) and ingest the rows.
+   * Blank cells are treated as missing.
+   */
+  ingestCsv(csv: string): QuoteIngestResult {
+    const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== '');
+    if (lines.length < 2) {
+      throw new SupplierQuoteError('CSV must have a header row and at least one quote', 'INVALID_CSV');
+    }
+    const header = parseCsvLine(lines[0]).map((h) => h.toLowerCase().replace(/\s+/g, '_'));
+    const rows = lines.slice(1).map((line) => {
+      const cells = parseCsvLine(line);
+      const row: Record<string, string> = {};
+      header.forEach((key, i) => {
+        if (cells[i] !== undefined && cells[i] !== '') row[key] = cells[i];
+      });
+      return row;
+    });
+    return this.ingestQuotes(rows);
+  }
+
+  getQuotes(filter: QuoteFilter = {}): SupplierQuote[] {
+    const at = filter.valid_at ? Date.parse(filter.valid_at) : null;
+    return [...this.quotes.values()].filter(
+      (q) =>
+        (!filter.port || samePort(q, filter.port)) &&
+        (!filter.fuel_type || isSameFuelGrade(q.fuel_type, filter.fuel_type)) &&
+        (at === null || (Date.parse(q.valid_from) <= at && at <= Date.parse(q.valid_until)))
+    );
+  }
+
+  /**
+   * Remove quotes for a port, or all quotes.
+   * @returns Number of quotes removed
+   */
+  clearQuotes(port?: string): number {
+    let removed = 0;
+    for (const [id, quote] of this.quotes) {
+      if (!port || samePort(quote, port)) {
+        this.quotes.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Evaluate a port's quotes for one grade and stem: eligible options (stem within min/max,
+   * delivery date within validity) first, cheapest delivered cost first.
+   */
+  evaluateQuotes(port: string, fuelType: string, quantityMt: number, deliveryDate: string): SupplierQuoteOption[] {
+    const at = Date.parse(deliveryDate);
+    const options = this.getQuotes({ port, fuel_type: fuelType }).map((q): SupplierQuoteOption => {
+      const deliveryCharge = q.delivery_charge_usd ?? 0;
+      const totalCost = quantityMt * q.price_per_mt + deliveryCharge;
+      let reason: string | undefined;
+      if (q.currency !== 'USD') {
+        reason = `Quoted in ${q.currency}`;
+      } else if (quantityMt < q.min_stem_mt) {
+        reason = `Stem ${quantityMt.toFixed(0)} MT below minimum ${q.min_stem_mt} MT`;
+      } else if (quantityMt > q.max_stem_mt) {
+        reason = `Stem ${quantityMt.toFixed(0)} MT above maximum ${q.max_stem_mt} MT`;
+      } else if (at < Date.parse(q.valid_from) || at > Date.parse(q.valid_until)) {
+        reason = `Delivery ${deliveryDate.slice(0, 10)} outside validity ${q.valid_from.slice(0, 10)} – ${q.valid_until.slice(0, 10)}`;
+      }
+      return {
+        quote_id: q.quote_id,
+        supplier: q.supplier,
+        fuel_type: q.fuel_type,
+        delivery_mode: q.delivery_mode,
+        price_per_mt: q.price_per_mt,
+        delivery_charge_usd: deliveryCharge,
+        delivered_price_per_mt: quantityMt > 0 ? totalCost / quantityMt : q.price_per_mt,
+        total_cost_usd: totalCost,
+        valid_until: q.valid_until,
+        eligible: reason === undefined,
+        ...(reason && { reason }),
+      };
+    });
+    return options.sort((a, b) => Number(b.eligible) - Number(a.eligible) || a.total_cost_usd - b.total_cost_usd);
+  }
+
+  /**
+   * Create and store a draft stem nomination from the chosen port's supplier options.
+   * A draft for the same stem is replaced under its existing id; beyond MAX_DRAFT_NOMINATIONS
+   * the oldest draft is dropped. Returns null when no grade has a chosen supplier.
+   */
+  createNomination(params: {
+    port_code: string;
+    port_name: string;
+    delivery_date: string;
+    grades: Array<{ fuel_type: string; quantity_mt: number; supplier?: SupplierQuoteOption }>;
+    vessel?: { imo?: string; name?: string };
+  }): StemNomination | null {
+    const lines: StemNominationLine[] = params.grades
+      .filter((g) => g.supplier && g.quantity_mt > 0)
+      .map((g) => {
+        const option = g.supplier as SupplierQuoteOption;
+        return {
+          fuel_type: g.fuel_type,
+          quantity_mt: g.quantity_mt,
+          supplier: option.supplier,
+          quote_id: option.quote_id,
+          delivery_mode: option.delivery_mode,
+          price_per_mt: option.price_per_mt,
+          delivery_charge_usd: option.delivery_charge_usd,
+          value_usd: option.total_cost_usd,
+        };
+      });
+    if (lines.length === 0) return null;
+
+    const draft: StemNomination = {
+      nomination_id: randomUUID(),
+      status: 'draft',
+      created_at: new Date().toISOString(),
+      ...(params.vessel && { vessel: params.vessel }),
+      port_code: params.port_code,
+      port_name: params.port_name,
+      delivery_date: params.delivery_date,
+      lines,
+      total_value_usd: lines.reduce((sum, line) => sum + line.value_usd, 0),
+      currency: 'USD',
+      unquoted_grades: params.grades.filter((g) => !g.supplier && g.quantity_mt > 0).map((g) => g.fuel_type),
+    };
+    const key = nominationKey(draft);
+    const existing = [...this.nominations.values()].find((n) => nominationKey(n) === key);
+    const nomination = existing ? { ...draft, nomination_id: existing.nomination_id } : draft;
+    // Re-insert so the map stays in creation order for trimming
+    this.nominations.delete(nomination.nomination_id);
+    this.nominations.set(nomination.nomination_id, nomination);
+    for (const id of this.nominations.keys()) {
+      if (this.nominations.size <= MAX_DRAFT_NOMINATIONS) break;
+      this.nominations.delete(id);
+    }
+    console.log(
+      `${LOG_PREFIX} Nomination ${nomination.nomination_id}: ${nomination.port_name}, ` +
+        lines.map((l) => `${l.quantity_mt.toFixed(0)} MT ${l.fuel_type} from ${l.supplier}`).join(', ')
+    );
+    return nomination;
+  }
+
+  getNomination(nominationId: string): StemNomination | null {
+    return this.nominations.get(nominationId) ?? null;
+  }
+
+  listNominations(): StemNomination[] {
+    return [...this.nominations.values()].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  /**
+   * Export a nomination as CSV, one row per grade.
+   */
+  exportNominationCsv(nominationId: string): string {
+    const nomination = this.getNomination(nominationId);
+    if (!nomination) {
+      throw new SupplierQuoteError(`Nomination ${nominationId} not found`, 'NOT_FOUND');
+    }
+    const header = [
+      'nomination_id',
+      'vessel_imo',
+      'vessel_name',
+      'port_code',
+      'port_name',
+      'delivery_date',
+      'fuel_type',
+      'quantity_mt',
+      'supplier',
+      'quote_id',
+      'delivery_mode',
+      'price_per_mt',
+      'delivery_charge_usd',
+      'value_usd',
+    ];
+    const rows = nomination.lines.map((line) => [
+      nomination.nomination_id,
+      nomination.vessel?.imo ?? '',
+      nomination.vessel?.name ?? '',
+      nomination.port_code,
+      nomination.port_name,
+      nomination.delivery_date,
+      line.fuel_type,
+      line.quantity_mt.toFixed(1),
+      line.supplier,
+      line.quote_id,
+      line.delivery_mode,
+      line.price_per_mt.toFixed(2),
+      line.delivery_charge_usd.toFixed(2),
+      line.value_usd.toFixed(2),
+    ]);
+    return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+  }
+}
+
+/** Singleton instance for use across the app. */
+export const supplierQuoteService = new SupplierQuoteService();
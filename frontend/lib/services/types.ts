@@ -9,6 +9,7 @@ import type {
   VesselConsumptionProfile,
 } from '@/lib/repositories/types';
 import { Port } from '@/lib/types';
+import type { SeaPassage } from '@/lib/engines/sea-routing-engine';
 
 export interface Waypoint {
   coordinates: [number, number]; // [lat, lon]
@@ -44,6 +45,60 @@ export interface RouteData {
   ecaSegments: ECASegment[];
   estimatedHours: number;
   routeType: string;
+  /** Stable id per origin/destination/passages (e.g. "SGSIN-NLRTM-suez_canal") */
+  routeId?: string;
+  /** Canals, straits, sea areas and capes passed, in voyage order */
+  passages?: SeaPassage[];
+  /** Estimated canal tolls (USD) */
+  canalTollUsd?: number;
+  /** Sea legs between consecutive port calls (itinerary routes only) */
+  legs?: RouteLeg[];
+}
+
+/**
+ * One sea leg of an itinerary route
+ */
+export interface RouteLeg {
+  origin: Port;
+  destination: Port;
+  distanceNm: number;
+  /** Sailing time (hours) */
+  estimatedHours: number;
+  routeType: string;
+  passages?: SeaPassage[];
+  /** Leg's first and last waypoint in the itinerary route's waypoints */
+  startWaypointIndex: number;
+  endWaypointIndex: number;
+  /** Time at the destination call before the next leg (hours) */
+  portStayHours: number;
+}
+
+/**
+ * Port call input for itinerary routing
+ */
+export interface ItineraryCall {
+  /** Port code (UN/LOCODE or WPI_*) */
+  code: string;
+  /** [lat, lon] when known */
+  coordinates?: [number, number];
+  /** Time at the call before departing (hours) */
+  portStayHours?: number;
+}
+
+/**
+ * Extra sea distance of calling at a port vs staying on the route
+ */
+export interface PortCallDeviation {
+  /** Route with the port call minus the direct route (nm) */
+  deviationNm: number;
+  /** Sea distance from the leaving waypoint to the port */
+  inLegNm: number;
+  /** Sea distance from the port to the rejoin waypoint */
+  outLegNm: number;
+  /** Route distance between the leaving and rejoin waypoints */
+  directNm: number;
+  leaveWaypointIndex: number;
+  rejoinWaypointIndex: number;
 }
 
 export interface SeaRouteAPIResponse {
@@ -9,6 +9,8 @@ import { VesselRepository } from '@/lib/repositories/vessel-repository';
 import { resolveVesselIdentifier } from '@/lib/services/vessel-identifier-service';
 import { getCurrentStateFromDatalogs } from '@/lib/services/rob-from-datalogs-service';
 import { getConfigManager } from '@/lib/config/config-manager';
+import { getScrubberFitmentDefault } from '@/lib/services/vessel-specs-from-performance';
+import type { ScrubberFitment } from '@/lib/types/bunker';
 import type { VesselPlanningData, ProjectedROB } from './types';
 
 const DEFAULT_CAPACITY_VLSFO = 2000;
@@ -64,12 +66,14 @@ export interface VesselData {
 export interface VesselProfile {
   vessel_name: string;
   vessel_data: VesselData | null;
-  initial_rob: { VLSFO: number; LSMGO: number };
+  /** HSFO is set for scrubber-fitted vessels */
+  initial_rob: { VLSFO: number; LSMGO: number; HSFO?: number };
   capacity: { VLSFO: number; LSMGO: number };
   consumption_vlsfo_per_day: number;
   consumption_lsmgo_per_day: number;
   operational_speed: number;
   fouling_factor: number;
+  scrubber?: ScrubberFitment;
 }
 
 /**
@@ -162,6 +166,7 @@ export async function getVesselProfile(
   const ballast = consumption_profile?.consumption_by_load?.ballast;
   const consumptionVlsfo = ballast?.vlsfo ?? DEFAULT_VLSFO_MT_PER_DAY;
   const consumptionLsmgo = ballast?.lsmgo ?? DEFAULT_LSMGO_MT_PER_DAY;
+  const scrubber = getScrubberFitmentDefault(imo, policy);
 
   return {
     vessel_name: resolved.name ?? current_state.vessel_name ?? vesselName,
@@ -169,6 +174,7 @@ export async function getVesselProfile(
     initial_rob: {
       VLSFO: current_state.current_rob.VLSFO ?? 0,
       LSMGO: current_state.current_rob.LSMGO ?? 0,
+      ...(scrubber.fitted && { HSFO: current_state.current_rob.HSFO ?? 0 }),
     },
     capacity: {
       VLSFO: DEFAULT_CAPACITY_VLSFO,
@@ -178,6 +184,7 @@ export async function getVesselProfile(
     consumption_lsmgo_per_day: consumptionLsmgo,
     operational_speed: operationalSpeed,
     fouling_factor: 1.0,
+    scrubber,
   };
 }
 
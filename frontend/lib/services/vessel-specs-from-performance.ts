@@ -9,7 +9,7 @@
 import { HullPerformanceClient } from '@/lib/api-clients/hull-performance-client';
 import type { VesselPerformanceModelRecord } from '@/lib/api-clients/hull-performance-client';
 import type { DataPolicyConfig } from '@/lib/types/config';
-import type { VesselSpecs } from '@/lib/types/bunker';
+import type { DualFuelCapability, ScrubberFitment, VesselSpecs } from '@/lib/types/bunker';
 
 const hullClient = new HullPerformanceClient();
 
@@ -63,7 +63,7 @@ export async function getBaselineCurvesForVessel(imo: string): Promise<BaselineC
  * Linear interpolation: consumption at speedKnots from sorted curve.
  * Clamps to nearest point if outside range.
  */
-function interpolateConsumption(
+export function interpolateConsumption(
   curve: Array<{ speed: number; consumption: number }>,
   speedKnots: number
 ): number | null {
@@ -108,7 +108,23 @@ export function getTankCapacityDefault(policy?: DataPolicyConfig | null): number
 }
 
 /**
- * Build VesselSpecs for bunker workflow: consumption from performance model, tank from policy.
+ * Scrubber fitment from policy (scrubber_fitment by IMO); unlisted vessels are not fitted.
+ */
+export function getScrubberFitmentDefault(imo: string, policy?: DataPolicyConfig | null): ScrubberFitment {
+  const type = policy?.scrubber_fitment?.[String(imo).trim()];
+  return type ? { fitted: true, type } : { fitted: false };
+}
+
+/**
+ * Dual-fuel capability from policy (dual_fuel_vessels by IMO); unlisted vessels are oil-only.
+ */
+export function getDualFuelCapabilityDefault(imo: string, policy?: DataPolicyConfig | null): DualFuelCapability {
+  const entry = policy?.dual_fuel_vessels?.[String(imo).trim()];
+  return entry ? { ...entry, capable: true } : { capable: false };
+}
+
+/**
+ * Build VesselSpecs for bunker workflow: consumption from performance model, tank, scrubber and dual-fuel from policy.
  */
 export async function buildVesselSpecsFromPerformance(
   imo: string,
@@ -120,12 +136,17 @@ export async function buildVesselSpecsFromPerformance(
   const consumptionRate = await getConsumptionAtSpeed(imo, speedKnots, loadCondition, policy);
   if (consumptionRate == null) return null;
   const tankCapacity = getTankCapacityDefault(policy);
+  const scrubber = getScrubberFitmentDefault(imo, policy);
+  const dualFuel = getDualFuelCapabilityDefault(imo, policy);
+  const fuelCompatibility = scrubber.fitted ? ['VLSFO', 'HSFO'] : ['VLSFO'];
   return {
     vesselId: imo,
     vesselName: vesselName || `IMO ${imo}`,
     vesselType: 'Unknown',
     consumptionRate,
     tankCapacity,
-    fuelCompatibility: ['VLSFO'],
+    fuelCompatibility: dualFuel.capable ? [...fuelCompatibility, 'LNG'] : fuelCompatibility,
+    scrubber,
+    dual_fuel: dualFuel,
   };
 }
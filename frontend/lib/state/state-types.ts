@@ -5,6 +5,8 @@
  * used by schema, validation, and multi-agent state.
  */
 
+import type { NoonReportDataQuality } from '@/lib/engines/noon-report-validation-engine';
+
 /**
  * Hull performance analysis state shape.
  * Matches the structure produced by the Hull Performance Agent and HullPerformanceService.
@@ -63,4 +65,6 @@ export interface HullPerformanceState {
     data_source: string;
     cache_hit: boolean;
   };
+  /** Noon report validation of the records behind the analysis */
+  data_quality?: NoonReportDataQuality;
 }
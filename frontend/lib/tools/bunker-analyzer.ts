@@ -16,6 +16,11 @@
  * - Time impact (additional voyage time)
  * - Fuel consumption during deviation
  * - Price staleness penalties
+ * - Expected price at the port ETA (BunkerPriceForecastEngine) when arrival dates are given
+ * - Physical supplier quotes (SupplierQuoteService): the cheapest eligible supplier per grade
+ *   replaces the index price, so ranking chooses supplier and port together
+ * - Port call cost (PortCallCostEngine): waiting and bunkering time at daily hire/opex,
+ *   port dues and agency fee, from port capabilities and the port table
  */
 
 import { z } from 'zod';
@@ -23,6 +28,11 @@ import { FoundPort } from '@/lib/tools/port-finder';
 import { PriceFetcherOutput, PriceData } from '@/lib/tools/price-fetcher';
 import { FuelType } from '@/lib/types';
 import { ServiceContainer } from '@/lib/repositories/service-container';
+import { scrubberEconomicsEngine } from '@/lib/engines/scrubber-economics-engine';
+import { bunkerPriceForecastEngine, type BunkerPriceForecast } from '@/lib/engines/bunker-price-forecast-engine';
+import { supplierQuoteService } from '@/lib/services/supplier-quote-service';
+import { portCallCostEngine, type PortCallCost } from '@/lib/engines/port-call-cost-engine';
+import type { PortCapabilities, SupplierQuoteOption } from '@/lib/types/bunker';
 
 /**
  * Price staleness thresholds and penalties
@@ -90,12 +100,20 @@ export interface BunkerAnalyzerInput {
   fuel_quantity_mt: number;
   /** LSMGO/MGO quantity needed in metric tons (for auxiliary engines, ECA zones) */
   mgo_quantity_mt?: number;
+  /** HSFO quantity needed in metric tons (scrubber-fitted vessels on the HSFO strategy) */
+  hsfo_quantity_mt?: number;
   /** Type of primary fuel required */
   fuel_type?: FuelType;
   /** Vessel speed in knots */
   vessel_speed_knots?: number;
   /** Vessel fuel consumption in MT per day */
   vessel_consumption_mt_per_day?: number;
+  /** EU ETS allowance cost (USD) per MT of fuel burnt on this voyage; prices deviation fuel emissions */
+  eu_ets_cost_per_mt_usd?: { VLSFO?: number; LSMGO?: number; HSFO?: number };
+  /** Estimated arrival date (ISO 8601) by port code or name; prices are projected to these dates */
+  port_arrival_dates?: Record<string, string>;
+  /** Port capabilities (supply rate, berth availability) by port code or name, for port call cost */
+  port_capabilities?: Record<string, PortCapabilities>;
 }
 
 /**
@@ -103,7 +121,7 @@ export interface BunkerAnalyzerInput {
  */
 export interface FuelBreakdown {
   /** Fuel type identifier */
-  type: 'VLSFO' | 'LSMGO' | 'MGO' | 'LSGO';
+  type: 'VLSFO' | 'LSMGO' | 'MGO' | 'LSGO' | 'HSFO';
   /** Quantity in metric tons */
   quantity: number;
   /** Price per metric ton in USD */
@@ -112,6 +130,12 @@ export interface FuelBreakdown {
   cost: number;
   /** Whether price data was available or estimated */
   is_estimated: boolean;
+  /** Latest quoted price when price_per_mt is projected to the ETA */
+  spot_price_per_mt?: number;
+  /** Price projection to the ETA with confidence band */
+  price_forecast?: BunkerPriceForecast;
+  /** Chosen supplier quote; price_per_mt is then the delivered price (delivery charge included) */
+  supplier?: SupplierQuoteOption;
 }
 
 /**
@@ -126,13 +150,21 @@ export interface BunkerRecommendation {
   rank: number;
 
   // Price data
-  /** Fuel price per metric ton */
+  /** Fuel price per metric ton (expected price at ETA when projected) */
   fuel_price_per_mt: number;
   /** Total fuel cost */
   fuel_cost: number;
+  /** Estimated arrival date at the port (ISO 8601), when prices are projected */
+  arrival_date?: string;
+  /** Primary fuel price projection to the ETA */
+  price_forecast?: BunkerPriceForecast;
+  /** Fuel cost (all grades) at the low and high end of the price confidence bands */
+  fuel_cost_range_usd?: { low: number; high: number };
+  /** Supplier quotes evaluated at this port (all grades), eligible and cheapest first per grade */
+  supplier_options?: SupplierQuoteOption[];
 
   // Deviation data
-  /** Deviation distance in nautical miles (round trip) */
+  /** Extra sea distance of the port call in nautical miles (round trip when estimated) */
   deviation_nm: number;
   /** Deviation time in hours */
   deviation_hours: number;
@@ -144,9 +176,15 @@ export interface BunkerRecommendation {
   deviation_fuel_consumption_mt: number;
   /** Cost of fuel consumed during deviation */
   deviation_fuel_cost: number;
+  /** EU ETS allowance cost of the deviation fuel (0 when the voyage is out of scope) */
+  eu_ets_cost: number;
+
+  // Port call
+  /** Waiting and bunkering time, port dues and agency fee of the call */
+  port_call: PortCallCost;
 
   // Total analysis
-  /** Total cost (fuel cost + deviation cost) */
+  /** Total cost (fuel cost + deviation cost + deviation EU ETS cost + port call cost) */
   total_cost: number;
 
   // Savings comparison
@@ -164,6 +202,12 @@ export interface BunkerRecommendation {
   mgo_cost?: number;
   /** MGO/LSMGO quantity in metric tons */
   mgo_quantity_mt?: number;
+  /** HSFO price per metric ton (scrubber-fitted vessels) */
+  hsfo_price_per_mt?: number;
+  /** HSFO total cost */
+  hsfo_cost?: number;
+  /** HSFO quantity in metric tons */
+  hsfo_quantity_mt?: number;
 
   // Metadata
   /** Hours since price was last updated */
@@ -178,8 +222,12 @@ export interface BunkerRecommendation {
   // State/formatter compatibility aliases (one-way distance, USD-named fields)
   /** One-way distance from route in nautical miles */
   distance_from_route_nm?: number;
-  /** Deviation cost in USD (alias for deviation_fuel_cost) */
+  /** Deviation cost in USD (deviation_fuel_cost + eu_ets_cost) */
   deviation_cost_usd?: number;
+  /** EU ETS cost in USD (alias for eu_ets_cost) */
+  eu_ets_cost_usd?: number;
+  /** Port call cost in USD (port_call.total_cost_usd) */
+  port_call_cost_usd?: number;
   /** Total cost in USD (alias for total_cost) */
   total_cost_usd?: number;
   /** Fuel cost in USD (alias for fuel_cost) */
@@ -228,7 +276,7 @@ export const bunkerAnalyzerInputSchema = z.object({
     .describe('Fuel quantity needed in metric tons'),
 
   fuel_type: z
-    .enum(['VLSFO', 'LSGO', 'MGO'])
+    .enum(['VLSFO', 'LSGO', 'MGO', 'HSFO'])
     .default('VLSFO')
     .optional()
     .describe('Type of fuel required (default: VLSFO)'),
@@ -300,6 +348,14 @@ export async function analyzeBunkerOptions(
 
     // Get MGO quantity from input (not in Zod schema for backwards compatibility)
     const mgo_quantity_mt = (input as any).mgo_quantity_mt || 0;
+    // HSFO quantity for scrubber-fitted vessels (set by the bunker agent from the scrubber comparison)
+    const hsfo_quantity_mt = input.hsfo_quantity_mt || 0;
+    // EU ETS cost per MT of fuel (set by the bunker agent from compliance_data.eu_ets; not exposed to the LLM)
+    const euEtsCostPerMt = input.eu_ets_cost_per_mt_usd;
+    // Port ETAs (set by the bunker agent from the route and vessel timeline; not exposed to the LLM)
+    const portArrivalDates = input.port_arrival_dates;
+    // Port capabilities (set by the bunker agent from the bunker API; not exposed to the LLM)
+    const portCapabilities = input.port_capabilities;
 
     // Get services from container
     const container = ServiceContainer.getInstance();
@@ -310,6 +366,9 @@ export async function analyzeBunkerOptions(
     if (mgo_quantity_mt > 0) {
       console.log(`   LSMGO needed: ${mgo_quantity_mt} MT`);
     }
+    if (hsfo_quantity_mt > 0) {
+      console.log(`   HSFO needed: ${hsfo_quantity_mt} MT`);
+    }
     console.log(`   Vessel consumption: ${vessel_consumption_mt_per_day} MT/day`);
     console.log(`   Vessel speed: ${vessel_speed_knots} knots`);
     console.log(`   Ports to analyze: ${bunker_ports.length}`);
@@ -334,22 +393,25 @@ export async function analyzeBunkerOptions(
           const latestPrices = await priceRepo.getLatestPrices({
             portCode: hasCode ? port.port_code : undefined,
             portName: hasName ? port.name : undefined,
-            fuelTypes: [fuel_type, 'LSGO', 'MGO'],
+            fuelTypes: [fuel_type, 'LSGO', 'MGO', ...(hsfo_quantity_mt > 0 ? ['HSFO'] : [])],
           });
 
           // Use API data only (no Supabase). Bunker API returns latest date; treat as fresh.
           if (latestPrices && (latestPrices[fuel_type] ?? 0) > 0) {
             const portKey = hasCode ? port.port_code : port.name;
-            pricesByPort[portKey] = [{
-              price: {
-                fuel_type: fuel_type,
-                price_per_mt: latestPrices[fuel_type] || 0,
-                currency: 'USD',
-              },
-              hours_since_update: 0,
-              is_fresh: true,
-              formatted_price: `$${(latestPrices[fuel_type] || 0).toFixed(0)}/MT`,
-            }];
+            const gradesToKeep: FuelType[] = hsfo_quantity_mt > 0 && fuel_type !== 'HSFO' ? [fuel_type, 'HSFO'] : [fuel_type];
+            pricesByPort[portKey] = gradesToKeep
+              .filter((grade) => (latestPrices[grade] ?? 0) > 0)
+              .map((grade) => ({
+                price: {
+                  fuel_type: grade,
+                  price_per_mt: latestPrices[grade] || 0,
+                  currency: 'USD',
+                },
+                hours_since_update: 0,
+                is_fresh: true,
+                formatted_price: `$${(latestPrices[grade] || 0).toFixed(0)}/MT`,
+              }));
           }
         } catch (error) {
           console.warn(`   ⚠️  Failed to fetch prices for ${hasCode ? port.port_code : port.name}:`, error);
@@ -367,6 +429,9 @@ export async function analyzeBunkerOptions(
     // 2. Flat format: { port_code, name, distance_from_route_nm, ... }
     let port: any;
     let distanceFromRoute: number;
+    // Extra sea distance of the port call from port finder, when available
+    const seaDeviationNm: number | undefined =
+      typeof portWithDistance.deviation_nm === 'number' ? portWithDistance.deviation_nm : undefined;
     
     if (portWithDistance.port) {
       // FoundPort format
@@ -395,26 +460,55 @@ export async function analyzeBunkerOptions(
       (port.name && pricesByPort[port.name.trim()]);
 
     const portLabel = port.port_code || port.name || 'unknown';
-    if (!portPriceData || portPriceData.length === 0) {
-      console.log(`   ⚠️  No price data for ${portLabel}, skipping`);
-      continue;
-    }
+    const arrivalDate =
+      portArrivalDates?.[port.port_code] ?? (port.name ? portArrivalDates?.[port.name] : undefined);
+
+    // Supplier quotes valid at the delivery date, for the stem of each grade; the cheapest eligible wins
+    const deliveryDate = arrivalDate ?? new Date().toISOString();
+    const supplierOptions: SupplierQuoteOption[] = [];
+    const chooseSupplier = (grade: string, quantityMt: number): SupplierQuoteOption | undefined => {
+      let options = hasCode ? supplierQuoteService.evaluateQuotes(port.port_code, grade, quantityMt, deliveryDate) : [];
+      if (options.length === 0 && hasName) {
+        options = supplierQuoteService.evaluateQuotes(port.name, grade, quantityMt, deliveryDate);
+      }
+      supplierOptions.push(...options);
+      return options.find((o) => o.eligible);
+    };
 
     // Find price for the requested fuel type (VLSFO)
-    const fuelPriceData = portPriceData.find(
+    const fuelSupplier = chooseSupplier(fuel_type, fuel_quantity_mt);
+    const fuelPriceData = (portPriceData || []).find(
       (p: PriceData) => p.price.fuel_type === fuel_type
     );
 
-    if (!fuelPriceData) {
+    if (!fuelSupplier && !fuelPriceData) {
       console.log(
-        `   ⚠️  No ${fuel_type} price for ${portLabel}, skipping`
+        `   ⚠️  No ${fuel_type} price or supplier quote for ${portLabel}, skipping`
       );
       continue;
     }
 
-    const fuelPrice = fuelPriceData.price.price_per_mt;
-    const hoursSinceUpdate = fuelPriceData.hours_since_update;
-    const isPriceStale = !fuelPriceData.is_fresh;
+    // Price at ETA: spot projected to the arrival date when known, else the spot price
+    const priceAtArrival = async (grade: string, spotPrice: number): Promise<BunkerPriceForecast | undefined> => {
+      if (!arrivalDate) return undefined;
+      try {
+        return await bunkerPriceForecastEngine.forecastAtArrival(portLabel, grade, spotPrice, arrivalDate);
+      } catch (error) {
+        console.warn(
+          `   ⚠️  Price forecast failed for ${portLabel} ${grade}:`,
+          error instanceof Error ? error.message : String(error)
+        );
+        return undefined;
+      }
+    };
+
+    const indexPrice = fuelPriceData?.price.price_per_mt;
+    const fuelForecast =
+      !fuelSupplier && indexPrice !== undefined ? await priceAtArrival(fuel_type, indexPrice) : undefined;
+    const fuelPrice = fuelSupplier?.delivered_price_per_mt ?? fuelForecast?.expected_price ?? indexPrice ?? 0;
+    // A supplier quote valid at delivery is firm; index prices carry their age
+    const hoursSinceUpdate = fuelSupplier ? 0 : (fuelPriceData?.hours_since_update ?? 0);
+    const isPriceStale = fuelSupplier ? false : !fuelPriceData?.is_fresh;
 
     // Calculate direct VLSFO fuel cost
     const fuelCost = fuel_quantity_mt * fuelPrice;
@@ -426,22 +520,29 @@ export async function analyzeBunkerOptions(
     let mgoPrice = 0;
     let mgoCost = 0;
     let mgoIsEstimated = false;
+    let mgoForecast: BunkerPriceForecast | undefined;
+    const mgoSupplier = mgo_quantity_mt > 0 ? chooseSupplier('LSMGO', mgo_quantity_mt) : undefined;
     
     if (mgo_quantity_mt > 0) {
-      // Try to find LSGO price first (Low Sulfur Gas Oil = LSMGO)
-      mgoPriceData = portPriceData.find(
-        (p: PriceData) => p.price.fuel_type === 'LSGO'
-      );
-      
-      // Fallback to MGO if LSGO not found
-      if (!mgoPriceData) {
-        mgoPriceData = portPriceData.find(
-          (p: PriceData) => p.price.fuel_type === 'MGO'
+      if (!mgoSupplier) {
+        // Try to find LSGO price first (Low Sulfur Gas Oil = LSMGO)
+        mgoPriceData = (portPriceData || []).find(
+          (p: PriceData) => p.price.fuel_type === 'LSGO'
         );
+
+        // Fallback to MGO if LSGO not found
+        if (!mgoPriceData) {
+          mgoPriceData = (portPriceData || []).find(
+            (p: PriceData) => p.price.fuel_type === 'MGO'
+          );
+        }
       }
       
-      if (mgoPriceData) {
-        mgoPrice = mgoPriceData.price.price_per_mt;
+      if (mgoSupplier) {
+        mgoPrice = mgoSupplier.delivered_price_per_mt;
+      } else if (mgoPriceData) {
+        mgoForecast = await priceAtArrival(mgoPriceData.price.fuel_type, mgoPriceData.price.price_per_mt);
+        mgoPrice = mgoForecast?.expected_price ?? mgoPriceData.price.price_per_mt;
         mgoIsEstimated = false;
       } else {
         // Last resort: estimate MGO as VLSFO * 1.4 (MGO typically 40% more expensive)
@@ -453,9 +554,36 @@ export async function analyzeBunkerOptions(
       mgoCost = mgo_quantity_mt * mgoPrice;
     }
 
+    // HSFO (scrubber-fitted vessels): supplier quote, then quoted index price, else estimated from VLSFO
+    let hsfoPriceData: PriceData | undefined;
+    let hsfoPrice = 0;
+    let hsfoCost = 0;
+    let hsfoIsEstimated = false;
+    let hsfoForecast: BunkerPriceForecast | undefined;
+    const hsfoSupplier = hsfo_quantity_mt > 0 ? chooseSupplier('HSFO', hsfo_quantity_mt) : undefined;
+
+    if (hsfo_quantity_mt > 0) {
+      hsfoPriceData = hsfoSupplier
+        ? undefined
+        : (portPriceData || []).find((p: PriceData) => p.price.fuel_type === 'HSFO');
+
+      if (hsfoSupplier) {
+        hsfoPrice = hsfoSupplier.delivered_price_per_mt;
+      } else if (hsfoPriceData) {
+        hsfoForecast = await priceAtArrival('HSFO', hsfoPriceData.price.price_per_mt);
+        hsfoPrice = hsfoForecast?.expected_price ?? hsfoPriceData.price.price_per_mt;
+      } else {
+        hsfoPrice = scrubberEconomicsEngine.estimateHsfoPrice(fuelPrice);
+        hsfoIsEstimated = true;
+        console.log(`   ℹ️ Estimating HSFO price for ${portLabel}: $${hsfoPrice.toFixed(0)}/MT`);
+      }
+
+      hsfoCost = hsfo_quantity_mt * hsfoPrice;
+    }
+
     // Calculate deviation cost
-    // Deviation is round trip: to port and back to route
-    const deviationDistanceNm = distanceFromRoute * 2;
+    // Deviation is the extra sea distance of the port call; without it, round trip to port and back to route
+    const deviationDistanceNm = seaDeviationNm ?? distanceFromRoute * 2;
     const deviationHours = deviationDistanceNm / vessel_speed_knots;
     const deviationDays = deviationHours / 24;
 
@@ -466,13 +594,30 @@ export async function analyzeBunkerOptions(
     const deviationFuelConsumption = deviationVlsfoConsumption + deviationMgoConsumption;
     const deviationFuelCost = (deviationVlsfoConsumption * fuelPrice) + 
                               (mgo_quantity_mt > 0 ? deviationMgoConsumption * mgoPrice : 0);
+    // EU ETS allowances for the deviation emissions (EU-bound voyages only)
+    const deviationEtsCost = euEtsCostPerMt
+      ? deviationVlsfoConsumption * (euEtsCostPerMt.VLSFO ?? 0) +
+        deviationMgoConsumption * (euEtsCostPerMt.LSMGO ?? 0)
+      : 0;
+
+    // Port call: waiting and bunkering time for the whole stem, port dues and agency fee
+    const portCall = portCallCostEngine.estimate({
+      port_code: portLabel,
+      port_name: port.name,
+      quantity_mt: fuel_quantity_mt + mgo_quantity_mt + hsfo_quantity_mt,
+      capabilities:
+        portCapabilities?.[port.port_code] ?? (port.name ? portCapabilities?.[port.name] : undefined),
+      arrival_date: arrivalDate,
+    });
 
-    // Total cost (VLSFO cost + MGO cost + deviation cost)
-    const totalCost = fuelCost + mgoCost + deviationFuelCost;
+    // Total cost (VLSFO cost + MGO cost + HSFO cost + deviation cost + deviation EU ETS cost + port call cost)
+    const totalCost =
+      fuelCost + mgoCost + hsfoCost + deviationFuelCost + deviationEtsCost + portCall.total_cost_usd;
 
-    // Calculate freshness penalty (use worst of VLSFO and MGO freshness)
+    // Calculate freshness penalty (use worst of VLSFO, MGO and HSFO freshness)
     const mgoHoursSinceUpdate = mgoPriceData?.hours_since_update || hoursSinceUpdate;
-    const maxHoursSinceUpdate = Math.max(hoursSinceUpdate, mgoHoursSinceUpdate);
+    const hsfoHoursSinceUpdate = hsfoPriceData?.hours_since_update || hoursSinceUpdate;
+    const maxHoursSinceUpdate = Math.max(hoursSinceUpdate, mgoHoursSinceUpdate, hsfoHoursSinceUpdate);
     const freshnessPenalty = calculateFreshnessPenalty(maxHoursSinceUpdate);
     const stalenessLevel = getStalenessLevel(maxHoursSinceUpdate);
     
@@ -484,6 +629,8 @@ export async function analyzeBunkerOptions(
         price_per_mt: fuelPrice,
         cost: fuelCost,
         is_estimated: false,
+        ...(fuelForecast && { spot_price_per_mt: fuelForecast.spot_price, price_forecast: fuelForecast }),
+        ...(fuelSupplier && { supplier: fuelSupplier }),
       }
     ];
     
@@ -494,8 +641,33 @@ export async function analyzeBunkerOptions(
         price_per_mt: mgoPrice,
         cost: mgoCost,
         is_estimated: mgoIsEstimated,
+        ...(mgoForecast && { spot_price_per_mt: mgoForecast.spot_price, price_forecast: mgoForecast }),
+        ...(mgoSupplier && { supplier: mgoSupplier }),
+      });
+    }
+
+    if (hsfo_quantity_mt > 0) {
+      fuels.push({
+        type: 'HSFO',
+        quantity: hsfo_quantity_mt,
+        price_per_mt: hsfoPrice,
+        cost: hsfoCost,
+        is_estimated: hsfoIsEstimated,
+        ...(hsfoForecast && { spot_price_per_mt: hsfoForecast.spot_price, price_forecast: hsfoForecast }),
+        ...(hsfoSupplier && { supplier: hsfoSupplier }),
       });
     }
+
+    // Fuel cost range from the price bands (grades without a forecast at their point price)
+    const fuelCostRange = fuels.some((fuel) => fuel.price_forecast)
+      ? fuels.reduce(
+          (range, fuel) => ({
+            low: range.low + fuel.quantity * (fuel.price_forecast?.lower_price ?? fuel.price_per_mt),
+            high: range.high + fuel.quantity * (fuel.price_forecast?.upper_price ?? fuel.price_per_mt),
+          }),
+          { low: 0, high: 0 }
+        )
+      : undefined;
     
     recommendations.push({
       port_code: port.port_code || port.name || portLabel,
@@ -503,11 +675,17 @@ export async function analyzeBunkerOptions(
       rank: 0, // Will be set after sorting
       fuel_price_per_mt: fuelPrice,
       fuel_cost: fuelCost,
+      ...(arrivalDate && { arrival_date: arrivalDate }),
+      ...(fuelForecast && { price_forecast: fuelForecast }),
+      ...(fuelCostRange && { fuel_cost_range_usd: fuelCostRange }),
+      ...(supplierOptions.length > 0 && { supplier_options: supplierOptions }),
       deviation_nm: deviationDistanceNm,
       deviation_hours: deviationHours,
       deviation_days: deviationDays,
       deviation_fuel_consumption_mt: deviationFuelConsumption,
       deviation_fuel_cost: deviationFuelCost,
+      eu_ets_cost: deviationEtsCost,
+      port_call: portCall,
       total_cost: totalCost,
       savings_vs_most_expensive: 0, // Will be calculated
       savings_percentage: 0, // Will be calculated
@@ -515,13 +693,21 @@ export async function analyzeBunkerOptions(
       mgo_price_per_mt: mgo_quantity_mt > 0 ? mgoPrice : undefined,
       mgo_cost: mgo_quantity_mt > 0 ? mgoCost : undefined,
       mgo_quantity_mt: mgo_quantity_mt > 0 ? mgo_quantity_mt : undefined,
+      hsfo_price_per_mt: hsfo_quantity_mt > 0 ? hsfoPrice : undefined,
+      hsfo_cost: hsfo_quantity_mt > 0 ? hsfoCost : undefined,
+      hsfo_quantity_mt: hsfo_quantity_mt > 0 ? hsfo_quantity_mt : undefined,
       data_freshness_hours: maxHoursSinceUpdate,
-      is_price_stale: isPriceStale || (mgoPriceData ? !mgoPriceData.is_fresh : false),
+      is_price_stale:
+        isPriceStale ||
+        (mgoPriceData ? !mgoPriceData.is_fresh : false) ||
+        (hsfoPriceData ? !hsfoPriceData.is_fresh : false),
       staleness_level: stalenessLevel,
       freshness_penalty: freshnessPenalty,
       // State/formatter compatibility: one-way distance and USD-named fields
       distance_from_route_nm: distanceFromRoute,
-      deviation_cost_usd: deviationFuelCost,
+      deviation_cost_usd: deviationFuelCost + deviationEtsCost,
+      eu_ets_cost_usd: deviationEtsCost,
+      port_call_cost_usd: portCall.total_cost_usd,
       total_cost_usd: totalCost,
       fuel_cost_usd: fuelCost,
     });
@@ -535,7 +721,8 @@ export async function analyzeBunkerOptions(
   }
 
   // Sort by adjusted cost (total cost penalized by freshness)
-  // This ensures stale prices rank lower than fresh prices at similar cost levels
+  // This ensures stale prices rank lower than fresh prices at similar cost levels.
+  // With port ETAs, total cost is at the expected price on arrival.
   recommendations.sort((a, b) => {
     // Calculate adjusted costs: higher penalty = higher adjusted cost = ranks lower
     const adjustedCostA = a.total_cost / a.freshness_penalty;
@@ -588,13 +775,26 @@ export async function analyzeBunkerOptions(
     fuelSummaryLines.push(
       `- ${fuel.type}: $${fuel.cost.toLocaleString(undefined, { maximumFractionDigits: 0 })} ` +
       `(${fuel.quantity.toFixed(0)} MT @ $${fuel.price_per_mt.toFixed(0)}/MT)` +
-      (fuel.is_estimated ? ' [estimated]' : '')
+      (fuel.is_estimated ? ' [estimated]' : '') +
+      (fuel.supplier ? ` from ${fuel.supplier.supplier} (${fuel.supplier.delivery_mode})` : '') +
+      (fuel.price_forecast
+        ? ` [spot $${fuel.price_forecast.spot_price.toFixed(0)}/MT; ${fuel.price_forecast.confidence_level_percent}% band ` +
+          `$${fuel.price_forecast.lower_price.toFixed(0)}–$${fuel.price_forecast.upper_price.toFixed(0)}/MT]`
+        : '')
+    );
+  }
+  if (bestOption.price_forecast && bestOption.fuel_cost_range_usd) {
+    fuelSummaryLines.push(
+      `- Prices projected to ETA ${bestOption.price_forecast.target_date.slice(0, 10)} ` +
+      `(${bestOption.price_forecast.horizon_days.toFixed(0)} days, ${bestOption.price_forecast.method}): ` +
+      `fuel cost $${bestOption.fuel_cost_range_usd.low.toLocaleString(undefined, { maximumFractionDigits: 0 })}` +
+      `–$${bestOption.fuel_cost_range_usd.high.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
     );
   }
 
   // Generate human-readable summary
   const analysisSummary = `
-Analyzed ${recommendations.length} bunker ports for ${fuel_quantity_mt} MT of ${fuel_type}${mgo_quantity_mt > 0 ? ` + ${mgo_quantity_mt} MT of LSMGO` : ''}.
+Analyzed ${recommendations.length} bunker ports for ${fuel_quantity_mt} MT of ${fuel_type}${mgo_quantity_mt > 0 ? ` + ${mgo_quantity_mt} MT of LSMGO` : ''}${hsfo_quantity_mt > 0 ? ` + ${hsfo_quantity_mt} MT of HSFO` : ''}.
 
 Best Option: ${bestOption.port_name} (${bestOption.port_code})
 - Total Cost: $${bestOption.total_cost.toLocaleString(undefined, {
@@ -605,13 +805,18 @@ ${fuelSummaryLines.join('\n')}
     undefined,
     { maximumFractionDigits: 0 }
   )} (${bestOption.deviation_nm.toFixed(1)} nm round trip)
+- Port Call Cost: $${bestOption.port_call.total_cost_usd.toLocaleString(undefined, {
+    maximumFractionDigits: 0,
+  })} (${bestOption.port_call.waiting_hours.toFixed(0)}h waiting + ${bestOption.port_call.bunkering_hours.toFixed(1)}h bunkering, dues $${bestOption.port_call.port_dues_usd.toFixed(0)}, agency $${bestOption.port_call.agency_fee_usd.toFixed(0)})
 - Savings vs worst option: $${maxSavings.toLocaleString(undefined, {
     maximumFractionDigits: 0,
   })} (${bestOption.savings_percentage.toFixed(1)}%)
 
 Time Impact: ${bestOption.deviation_hours.toFixed(
     1
-  )} hours (${bestOption.deviation_days.toFixed(2)} days) additional voyage time
+  )} hours (${bestOption.deviation_days.toFixed(2)} days) additional voyage time + ${bestOption.port_call.delay_hours.toFixed(
+    1
+  )} hours in port
   `.trim();
 
   console.log(`\n   ✅ Analysis complete: ${recommendations.length} options ranked`);
@@ -716,7 +921,7 @@ export const bunkerAnalyzerToolSchema = {
       },
       fuel_type: {
         type: 'string',
-        enum: ['VLSFO', 'LSGO', 'MGO'],
+        enum: ['VLSFO', 'LSGO', 'MGO', 'HSFO'],
         description: 'Type of fuel required (default: VLSFO)',
       },
       vessel_speed_knots: {
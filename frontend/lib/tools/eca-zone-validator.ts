@@ -5,27 +5,31 @@
  * and calculates MGO fuel requirements for ECA compliance.
  * 
  * ALGORITHM OVERVIEW:
- * 1. Take route waypoints as input
- * 2. For each active ECA zone:
+ * 1. Take route waypoints (and departure time) as input
+ * 2. For each ECA zone in the regulatory zone registry (config/regulatory-zones):
  *    a. Check if route line intersects ECA polygon
  *    b. Find entry and exit points
  *    c. Calculate distance within ECA
  * 3. Calculate time in ECA (distance / speed)
  * 4. Calculate MGO fuel requirement (time × consumption rate)
- * 5. Add safety margin (10%)
- * 6. Generate fuel switching points
+ * 5. Keep zones whose rules are in force while the ship is in them; zones that only
+ *    come into force later are reported as upcoming
+ * 6. Add safety margin (10%)
+ * 7. Generate fuel switching points
  */
 
 import { z } from 'zod';
 import * as turf from '@turf/turf';
 import { 
-  ECA_ZONES, 
-  getActiveECAZones, 
-  getProposedECAZones,
   CONSUMPTION_CONFIG,
-  SAFETY_MARGIN_CONFIG,
   DISTANCE_CONFIG
 } from './eca-config';
+import {
+  getRegulatoryZoneRegistry,
+  isEmissionControlArea,
+  type RegulatoryZone,
+} from '@/lib/config/regulatory-zone-registry';
+import { safetyMarginEngine } from '@/lib/engines/safety-margin-engine';
 
 // ============================================================================
 // INPUT SCHEMA
@@ -42,6 +46,12 @@ export const ecaZoneValidatorInputSchema = z.object({
   
   vessel_speed_knots: z.number().positive().default(14),
   
+  // Departure time (ISO 8601); zone rules are evaluated when the ship is in each zone (default: now)
+  departure_datetime: z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid departure date')
+    .optional(),
+  
   // Vessel consumption profile (optional - defaults provided)
   vessel_consumption: z.object({
     main_engine_mt_per_day: z.number().positive().default(30),
@@ -58,8 +68,15 @@ export type ECAZoneValidatorInput = z.infer<typeof ecaZoneValidatorInputSchema>;
 export interface ECAZoneCrossing {
   zone_name: string;
   zone_code: string;
-  zone_status: 'ACTIVE' | 'PROPOSED';
+  /** ACTIVE: rules in force during the transit; UPCOMING: rules only apply from a later date */
+  zone_status: 'ACTIVE' | 'UPCOMING';
   sulfur_limit_percent: number;
+  /** First day the zone's rules apply (YYYY-MM-DD) */
+  effective_from: string;
+  /** Sulfur limit at berth in the zone's ports (%) */
+  at_berth_sulfur_limit_percent?: number;
+  /** NOx Tier III applies to ships constructed on or after this date */
+  nox_tier_iii_ships_constructed_from?: string;
   
   // Geographic data
   entry_point: { lat: number; lon: number };
@@ -92,6 +109,7 @@ export interface ECAZoneValidatorOutput {
   
   // Detailed crossings
   eca_zones_crossed: ECAZoneCrossing[];
+  /** Zones crossed whose rules are not yet in force when the ship passes */
   proposed_zones_crossed: ECAZoneCrossing[];
   
   // Fuel requirements
@@ -120,6 +138,8 @@ export async function executeECAZoneValidatorTool(
   console.log(`   Vessel speed: ${input.vessel_speed_knots} knots`);
   
   const { route_waypoints, vessel_speed_knots, vessel_consumption } = input;
+  const departure = input.departure_datetime ? new Date(input.departure_datetime) : new Date();
+  const atHours = (hours: number) => new Date(departure.getTime() + hours * 3600000);
   
   // Default consumption profile
   const consumptionProfile = vessel_consumption || {
@@ -136,9 +156,10 @@ export async function executeECAZoneValidatorTool(
   // Convert waypoints to Turf LineString
   const routeLine = createRouteLineString(route_waypoints);
   
-  // Check active ECA zones
-  const activeZones = getActiveECAZones();
-  for (const [zoneKey, zone] of Object.entries(activeZones)) {
+  // Check every ECA in the registry; whether it applies depends on when the ship is in it
+  const registry = getRegulatoryZoneRegistry();
+  const ecaZones = registry.getAllZones().filter(isEmissionControlArea);
+  for (const zone of ecaZones) {
     console.log(`🔍 [ECA-VALIDATOR] Checking ${zone.name}...`);
     
     const crossing = await checkZoneCrossing(
@@ -148,8 +169,12 @@ export async function executeECAZoneValidatorTool(
       vessel_speed_knots,
       consumptionProfile
     );
+    if (!crossing) continue;
+    
+    const entryTime = atHours(crossing.entry_time_from_start_hours);
+    const exitTime = atHours(crossing.exit_time_from_start_hours);
     
-    if (crossing) {
+    if (registry.isInForceDuring(zone, entryTime, exitTime)) {
       console.log(`   ✅ Route crosses ${zone.name}`);
       console.log(`      Distance in ECA: ${crossing.distance_in_zone_nm.toFixed(1)} nm`);
       console.log(`      MGO required: ${crossing.estimated_mgo_consumption_mt.toFixed(1)} MT`);
@@ -161,7 +186,7 @@ export async function executeECAZoneValidatorTool(
         location: crossing.entry_point,
         time_from_start_hours: crossing.entry_time_from_start_hours,
         distance_from_origin_nm: calculateDistanceToPoint(route_waypoints, crossing.entry_point),
-        reason: `Entering ${zone.name} - switch to MGO (≤${zone.sulfur_limit_percent}% sulfur)`
+        reason: `Entering ${zone.name} - switch to MGO (≤${crossing.sulfur_limit_percent}% sulfur)`
       });
       
       switchingPoints.push({
@@ -171,25 +196,33 @@ export async function executeECAZoneValidatorTool(
         distance_from_origin_nm: calculateDistanceToPoint(route_waypoints, crossing.exit_point),
         reason: `Exiting ${zone.name} - can switch back to VLSFO`
       });
+      
+      if (crossing.nox_tier_iii_ships_constructed_from) {
+        warnings.push(
+          `${zone.name} is a NOx emission control area: Tier III engines required for ships constructed on or after ${crossing.nox_tier_iii_ships_constructed_from}.`
+        );
+      }
+    } else if (registry.isUpcoming(zone, exitTime)) {
+      // Crossed before the zone's rules apply (for warnings)
+      proposedCrossings.push({ ...crossing, zone_status: 'UPCOMING' });
+      warnings.push(
+        `Route will cross ${zone.name} before its rules apply (in force from ${zone.effective_from}). ` +
+        `Estimated MGO requirement: ${crossing.estimated_mgo_consumption_mt.toFixed(1)} MT once in force.`
+      );
     }
   }
   
-  // Check proposed ECA zones (for warnings)
-  const proposedZones = getProposedECAZones();
-  for (const [zoneKey, zone] of Object.entries(proposedZones)) {
-    const crossing = await checkZoneCrossing(
-      zone,
-      routeLine,
-      route_waypoints,
-      vessel_speed_knots,
-      consumptionProfile
-    );
-    
-    if (crossing) {
-      proposedCrossings.push(crossing);
+  // At-berth sulfur rules at the departure and arrival ports
+  const arrival = atHours(turf.length(routeLine, { units: 'nauticalmiles' }) / vessel_speed_knots);
+  const berths = [
+    { label: 'departure', position: route_waypoints[0], at: departure },
+    { label: 'arrival', position: route_waypoints[route_waypoints.length - 1], at: arrival },
+  ];
+  for (const berth of berths) {
+    const zones = registry.findZonesAt(berth.position, berth.at, (zone) => zone.rules.at_berth_sulfur_limit_percent !== undefined);
+    for (const zone of zones) {
       warnings.push(
-        `Route will cross proposed ECA: ${zone.name} (expected enforcement: ${zone.enacted_date}). ` +
-        `Estimated MGO requirement: ${crossing.estimated_mgo_consumption_mt.toFixed(1)} MT when enacted.`
+        `At berth (${berth.label} port) in ${zone.name}: fuel must not exceed ${zone.rules.at_berth_sulfur_limit_percent}% sulfur.`
       );
     }
   }
@@ -199,8 +232,8 @@ export async function executeECAZoneValidatorTool(
   const totalECATime = activeCrossings.reduce((sum, c) => sum + c.time_in_zone_hours, 0);
   const totalMGORequired = activeCrossings.reduce((sum, c) => sum + c.estimated_mgo_consumption_mt, 0);
   
-  // Apply safety margin from config
-  const safetyMarginPercent = SAFETY_MARGIN_CONFIG.OVERALL_MGO_MARGIN_PERCENT;
+  // Apply ECA safety margin from the bunker_safety_margin rule (safety-rules.yaml)
+  const safetyMarginPercent = safetyMarginEngine.getParameters().eca_margin_percentage;
   const mgoWithMargin = totalMGORequired * (1 + safetyMarginPercent / 100);
   
   // Sort switching points by time
@@ -247,7 +280,7 @@ function createRouteLineString(waypoints: Array<{lat: number, lon: number}>) {
  * Check if route crosses an ECA zone
  */
 async function checkZoneCrossing(
-  zone: typeof ECA_ZONES[keyof typeof ECA_ZONES],
+  zone: RegulatoryZone,
   routeLine: ReturnType<typeof turf.lineString>,
   waypoints: Array<{lat: number, lon: number}>,
   vesselSpeed: number,
@@ -355,8 +388,11 @@ async function checkZoneCrossing(
         return {
           zone_name: zone.name,
           zone_code: zone.code,
-          zone_status: zone.status,
-          sulfur_limit_percent: zone.sulfur_limit_percent,
+          zone_status: 'ACTIVE',
+          sulfur_limit_percent: zone.rules.sulfur_limit_percent ?? 0,
+          effective_from: zone.effective_from,
+          at_berth_sulfur_limit_percent: zone.rules.at_berth_sulfur_limit_percent,
+          nox_tier_iii_ships_constructed_from: zone.rules.nox_tier_iii?.ships_constructed_from,
           entry_point: { lat: entryPoint[1], lon: entryPoint[0] },
           exit_point: { lat: exitPoint[1], lon: exitPoint[0] },
           distance_in_zone_nm: distanceInZone,
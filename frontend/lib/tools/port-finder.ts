@@ -5,7 +5,10 @@
  * from route waypoints to available ports using the haversine formula.
  *
  * Bunker port list comes from BunkerPricing API; coordinates from ports.json
- * or World Port Index. Deviation = min haversine distance to any waypoint.
+ * or World Port Index. Ports within max deviation (min haversine distance to any
+ * waypoint) are kept; their deviation is the extra sea distance of calling at the
+ * port vs the direct route (RouteService.calculatePortCallDeviation). Itinerary port calls
+ * need no deviation: the vessel calls there anyway.
  *
  * This tool is useful for:
  * - Finding refueling options along a route
@@ -16,6 +19,7 @@
 import { z } from 'zod';
 import { Coordinates, Port, FuelType } from '@/lib/types';
 import { ServiceContainer } from '@/lib/repositories/service-container';
+import type { RouteService } from '@/lib/services/route.service';
 import { BunkerPricingClient } from '@/lib/clients/bunker-pricing-client';
 
 /**
@@ -26,6 +30,8 @@ export interface PortFinderInput {
   route_waypoints: Coordinates[];
   /** Maximum deviation distance in nautical miles (default: 150) */
   max_deviation_nm?: number;
+  /** Port codes of the voyage's own calls (multi-port itineraries); bunkering there adds no deviation */
+  port_call_codes?: string[];
 }
 
 /**
@@ -40,6 +46,13 @@ export interface FoundPort {
   nearest_waypoint_index: number;
   /** Coordinates of the nearest waypoint */
   nearest_waypoint: Coordinates;
+  /** Extra distance of calling at the port vs the direct route (in + out legs minus route distance saved) */
+  deviation_nm: number;
+  /**
+   * 'sea_route' from sea distances; 'haversine' = 2 × distance_from_route_nm when sea distances are unavailable;
+   * 'port_call' = one of the voyage's own calls (deviation 0)
+   */
+  deviation_method: 'sea_route' | 'haversine' | 'port_call';
 }
 
 /**
@@ -77,6 +90,11 @@ export const portFinderInputSchema = z.object({
     .optional()
     .default(150)
     .describe('Maximum distance in nautical miles from route to consider a port (default: 150 nm)'),
+
+  port_call_codes: z
+    .array(z.string())
+    .optional()
+    .describe('Port codes the voyage calls at anyway (itinerary); bunkering there adds no deviation'),
 });
 
 /**
@@ -194,6 +212,18 @@ const WPI_LOOKUP_CONCURRENCY = 15;
 /** Safety limit: max ports to resolve via WPI after geo-filter (circuit breaker). */
 const MAX_PORTS_TO_RESOLVE = 40;
 
+/** Max ports (nearest first) whose deviation is calculated from sea distances. */
+const MAX_SEA_DEVIATION_PORTS = 20;
+
+/** Ports whose sea deviations are calculated in parallel (each needs up to 3 sea distances). */
+const SEA_DEVIATION_CONCURRENCY = 5;
+
+/**
+ * Sea deviations finish within this long (each call is cut off at the deadline), so port
+ * finder completes within its timeout even when the sea route API hangs.
+ */
+const SEA_DEVIATION_BUDGET_MS = 20000;
+
 /** Coordinate map for geo-filtering (port_code or name -> { lat, lon }). Built from ports.json. */
 let portsJsonCoordMap: Map<string, Coordinates> | null = null;
 
@@ -429,6 +459,76 @@ function findNearestWaypoint(
   };
 }
 
+/**
+ * Reject when the deadline passes first; the timer is cleared once the promise settles
+ */
+function beforeDeadline<T>(promise: Promise<T>, deadline: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error('Sea deviation budget exceeded')),
+      Math.max(0, deadline - Date.now())
+    );
+  });
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Replace the haversine deviation estimate with the extra sea distance of the port call,
+ * for the nearest MAX_SEA_DEVIATION_PORTS ports. Ports whose sea distances fail (or do not
+ * finish within SEA_DEVIATION_BUDGET_MS) keep the haversine estimate.
+ */
+async function applySeaDeviations(foundPorts: FoundPort[], waypoints: Coordinates[]): Promise<void> {
+  const targets = foundPorts.filter((found) => found.deviation_method !== 'port_call').slice(0, MAX_SEA_DEVIATION_PORTS);
+  if (targets.length === 0) return;
+  const start = Date.now();
+  const deadline = start + SEA_DEVIATION_BUDGET_MS;
+
+  let routeService: RouteService;
+  try {
+    routeService = ServiceContainer.getInstance().getRouteService();
+  } catch (error) {
+    console.warn(
+      '   ⚠️ [PORT-FINDER] Route service unavailable; ports keep haversine deviation:',
+      error instanceof Error ? error.message : error
+    );
+    return;
+  }
+
+  for (let i = 0; i < targets.length; i += SEA_DEVIATION_CONCURRENCY) {
+    if (Date.now() >= deadline) {
+      console.warn(`   ⚠️ [PORT-FINDER] Sea deviation budget exceeded; ${targets.length - i} port(s) keep haversine deviation`);
+      break;
+    }
+    const batch = targets.slice(i, i + SEA_DEVIATION_CONCURRENCY);
+    const settled = await Promise.allSettled(
+      batch.map((found) =>
+        beforeDeadline(
+          Promise.resolve().then(() =>
+            routeService.calculatePortCallDeviation(waypoints, found.port.coordinates, found.nearest_waypoint_index)
+          ),
+          deadline
+        )
+      )
+    );
+    settled.forEach((result, k) => {
+      const found = batch[k];
+      if (result.status === 'fulfilled') {
+        found.deviation_nm = result.value.deviationNm;
+        found.deviation_method = 'sea_route';
+      } else {
+        console.warn(
+          `   ⚠️ [PORT-FINDER] Sea deviation failed for ${found.port.port_code}:`,
+          result.reason instanceof Error ? result.reason.message : result.reason
+        );
+      }
+    });
+  }
+
+  const seaCount = targets.filter((found) => found.deviation_method === 'sea_route').length;
+  console.log(`   🧭 [PORT-FINDER] Sea deviation for ${seaCount}/${foundPorts.length} ports in ${Date.now() - start}ms`);
+}
+
 /**
  * Main function to find ports near a route
  * 
@@ -438,7 +538,8 @@ function findNearestWaypoint(
  * 3. For each waypoint, finds ports within max_deviation_nm
  * 4. Removes duplicate ports (same port found near multiple waypoints)
  * 5. Sorts results by distance from route
- * 6. Returns filtered and sorted port list
+ * 6. Calculates each port's deviation from sea distances (via RouteService)
+ * 7. Returns filtered and sorted port list
  * 
  * @param input - Port finder parameters
  * @returns Array of ports found near the route, sorted by distance
@@ -488,6 +589,8 @@ export async function findPortsNearRoute(
               distance_from_route_nm: distance,
               nearest_waypoint_index: waypointIndex,
               nearest_waypoint: waypoint,
+              deviation_nm: distance * 2,
+              deviation_method: 'haversine',
             });
           } else {
             const existing = portMap.get(portKey)!;
@@ -498,6 +601,8 @@ export async function findPortsNearRoute(
                 distance_from_route_nm: distance,
                 nearest_waypoint_index: waypointIndex,
                 nearest_waypoint: waypoint,
+                deviation_nm: distance * 2,
+                deviation_method: 'haversine',
               });
             }
           }
@@ -512,6 +617,16 @@ export async function findPortsNearRoute(
 
     console.log(`   ✅ Found ${foundPorts.length} ports near route`);
 
+    const portCalls = new Set(validatedInput.port_call_codes ?? []);
+    for (const found of foundPorts) {
+      if (portCalls.has(found.port.port_code)) {
+        found.deviation_nm = 0;
+        found.deviation_method = 'port_call';
+      }
+    }
+
+    await applySeaDeviations(foundPorts, route_waypoints);
+
     return {
       ports: foundPorts,
       waypoints_analyzed: route_waypoints.length,
@@ -576,6 +691,11 @@ export const portFinderToolSchema = {
         type: 'number',
         description: 'Maximum distance in nautical miles from route waypoints to consider a port (default: 150 nm)',
       },
+      port_call_codes: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'Port codes the voyage calls at anyway (multi-port itinerary); bunkering there adds no deviation (optional)',
+      },
     },
     required: ['route_waypoints'],
   },
@@ -6,7 +6,7 @@
  * 
  * Features:
  * - Fetch prices for multiple ports at once
- * - Filter by fuel type (VLSFO, LSGO, MGO)
+ * - Filter by fuel type (VLSFO, LSGO, MGO, HSFO for scrubber-fitted vessels, LNG for dual-fuel vessels)
  * - Price freshness validation
  * - Graceful handling of missing data
  * - Currency formatting
@@ -82,7 +82,7 @@ export const priceFetcherInputSchema = z.object({
     .describe('Optional parallel array of port names for name-based API lookup when port_code is empty'),
 
   fuel_types: z
-    .array(z.enum(['VLSFO', 'LSGO', 'MGO']))
+    .array(z.enum(['VLSFO', 'LSGO', 'MGO', 'HSFO', 'LNG']))
     .optional()
     .describe('Optional filter for specific fuel types. If not provided, all fuel types are returned.'),
 });
@@ -201,7 +201,7 @@ export async function fetchPrices(
       const portName = port_names?.[i];
       const identifier = portCode || portName || '';
       try {
-        const fuelTypesToFetch = fuel_types || ['VLSFO', 'LSGO', 'MGO'];
+        const fuelTypesToFetch = fuel_types || ['VLSFO', 'LSGO', 'MGO', 'HSFO', 'LNG'];
         const prices = await priceRepo.getLatestPrices({
           portCode: portCode || undefined,
           portName: portName || undefined,
@@ -303,7 +303,7 @@ export const priceFetcherToolSchema = {
   description: `Fetch current fuel prices for maritime bunker ports.
     Returns prices for specified ports with metadata including price freshness,
     currency formatting, and warnings for stale prices (> 24 hours old).
-    Supports filtering by fuel type (VLSFO, LSGO, MGO).
+    Supports filtering by fuel type (VLSFO, LSGO, MGO, HSFO, LNG).
     Useful for comparing fuel prices across ports or checking current market rates.`,
   input_schema: {
     type: 'object',
@@ -320,7 +320,7 @@ export const priceFetcherToolSchema = {
         description: 'Optional filter for specific fuel types. If not provided, all available fuel types are returned.',
         items: {
           type: 'string',
-          enum: ['VLSFO', 'LSGO', 'MGO'],
+          enum: ['VLSFO', 'LSGO', 'MGO', 'HSFO', 'LNG'],
         },
       },
     },
@@ -6,7 +6,7 @@
  * 
  * This tool:
  * - Validates input parameters
- * - Delegates to RouteService for route calculation
+ * - Delegates to RouteService for route calculation (or route alternatives, or a multi-port itinerary)
  * - Formats output for agent consumption
  */
 
@@ -15,6 +15,9 @@ import { Coordinates } from '@/lib/types';
 import { ServiceContainer } from '@/lib/repositories/service-container';
 import { PortLogger } from '@/lib/utils/debug-logger';
 import { haversineDistance } from '@/lib/utils/coordinate-validator';
+import { SEA_PASSAGES, type SeaPassage } from '@/lib/engines/sea-routing-engine';
+import type { RouteData } from '@/lib/services/types';
+import type { CargoCondition, ItineraryPortCall, ItineraryRouteLeg } from '@/lib/types/itinerary';
 
 /**
  * Input parameters for route calculation
@@ -30,6 +33,8 @@ export interface RouteCalculatorInput {
   origin_coordinates?: [number, number];
   /** Destination coordinates [latitude, longitude] - used for coordinate-based routing */
   destination_coordinates?: [number, number];
+  /** Passages to avoid (e.g. 'red_sea', 'suez_canal') - routed with the offline sea lane graph */
+  avoid_passages?: SeaPassage[];
 }
 
 /**
@@ -56,6 +61,28 @@ export interface RouteCalculatorOutput {
   origin_coordinates?: { lat: number; lon: number };
   /** Destination coordinates for map */
   destination_coordinates?: { lat: number; lon: number };
+  /** Route id, unique per origin/destination/canal or cape passage (e.g. "SGSIN-NLRTM-suez_canal") */
+  route_id?: string;
+  /** Canals, straits, sea areas and capes passed, in voyage order */
+  passages?: SeaPassage[];
+  /** Estimated canal tolls (USD) */
+  canal_toll_usd?: number;
+  /** Sea legs between consecutive port calls (itinerary routes only) */
+  legs?: ItineraryRouteLeg[];
+}
+
+/**
+ * Input parameters for a multi-port itinerary route
+ */
+export interface ItineraryRouteInput {
+  /** Ordered port calls: first is the origin, last the destination */
+  port_calls: ItineraryPortCall[];
+  /** Vessel speed in knots (optional, defaults to 14 knots) */
+  vessel_speed_knots?: number;
+  /** Departure from the first call in ISO 8601 format (optional, defaults to now) */
+  departure_date?: string;
+  /** Passages to avoid on every leg */
+  avoid_passages?: SeaPassage[];
 }
 
 
@@ -94,6 +121,32 @@ export const routeCalculatorInputSchema = z.object({
     .datetime()
     .optional()
     .describe('Departure date in ISO 8601 format (optional, defaults to current date)'),
+
+  avoid_passages: z
+    .array(z.enum(SEA_PASSAGES))
+    .optional()
+    .describe('Passages to avoid, e.g. red_sea, suez_canal, panama_canal (optional)'),
+});
+
+/**
+ * Zod schema for itinerary route input validation
+ */
+export const itineraryRouteInputSchema = z.object({
+  port_calls: z
+    .array(
+      z.object({
+        port_code: portCodeSchema,
+        port_name: z.string().optional(),
+        coordinates: z.tuple([z.number(), z.number()]).optional(),
+        purpose: z.enum(['load', 'discharge', 'canal_transit', 'bunker', 'other']).optional(),
+        port_stay_hours: z.number().min(0, 'Port stay cannot be negative').optional(),
+        departure_condition: z.enum(['laden', 'ballast']).optional(),
+      })
+    )
+    .min(2, 'An itinerary needs at least two port calls'),
+  vessel_speed_knots: routeCalculatorInputSchema.shape.vessel_speed_knots,
+  departure_date: routeCalculatorInputSchema.shape.departure_date,
+  avoid_passages: routeCalculatorInputSchema.shape.avoid_passages,
 });
 
 /**
@@ -111,6 +164,83 @@ export class RouteCalculationError extends Error {
 }
 
 
+/**
+ * Format RouteService output for agent consumption
+ */
+function toRouteCalculatorOutput(routeData: RouteData): RouteCalculatorOutput {
+  // Convert RouteData waypoints ([lat, lon]) to Coordinates format ({lat, lon})
+  const waypoints: Coordinates[] = routeData.waypoints.map((wp) => ({
+    lat: wp.coordinates[0],
+    lon: wp.coordinates[1],
+  }));
+
+  // Normalize coordinates from route service (returns object { lat, lon } or array [lat, lon]) for map/UI
+  const toLatLon = (
+    c: [number, number] | { lat: number; lon: number } | undefined
+  ): { lat: number; lon: number } | undefined => {
+    if (c == null) return undefined;
+    if (Array.isArray(c) && c.length >= 2) return { lat: c[0], lon: c[1] };
+    if (typeof c === 'object' && typeof (c as { lat: number }).lat === 'number' && typeof (c as { lon: number }).lon === 'number') {
+      return { lat: (c as { lat: number }).lat, lon: (c as { lon: number }).lon };
+    }
+    return undefined;
+  };
+
+  // Format output for agent consumption (include names and coordinates for UI/map when using WPI_* etc.)
+  return {
+    distance_nm: routeData.totalDistanceNm,
+    estimated_hours: Math.round(routeData.estimatedHours * 100) / 100, // Round to 2 decimal places
+    waypoints,
+    route_type: routeData.routeType,
+    origin_port_code: routeData.origin.port_code,
+    destination_port_code: routeData.destination.port_code,
+    origin_port_name: routeData.origin.name ?? undefined,
+    destination_port_name: routeData.destination.name ?? undefined,
+    origin_coordinates: toLatLon(routeData.origin.coordinates as [number, number] | { lat: number; lon: number }),
+    destination_coordinates: toLatLon(routeData.destination.coordinates as [number, number] | { lat: number; lon: number }),
+    route_id: routeData.routeId,
+    passages: routeData.passages,
+    canal_toll_usd: routeData.canalTollUsd,
+  };
+}
+
+/**
+ * Map validation and service errors to RouteCalculationError
+ */
+function toRouteCalculationError(error: unknown): RouteCalculationError {
+  // Handle Zod validation errors
+  if (error instanceof z.ZodError) {
+    return new RouteCalculationError(
+      `Input validation failed: ${error.issues.map((e) => e.message).join(', ')}`,
+      'VALIDATION_ERROR'
+    );
+  }
+
+  // Return RouteCalculationError as-is
+  if (error instanceof RouteCalculationError) {
+    return error;
+  }
+
+  // Handle service errors (port not found, API errors, etc.)
+  if (error instanceof Error) {
+    // Check for common error patterns from RouteService
+    if (error.message.includes('not found')) {
+      return new RouteCalculationError(error.message, 'PORT_NOT_FOUND');
+    }
+
+    return new RouteCalculationError(
+      `Route calculation failed: ${error.message}`,
+      'SERVICE_ERROR'
+    );
+  }
+
+  // Handle unexpected errors
+  return new RouteCalculationError(
+    `Unexpected error during route calculation: ${String(error)}`,
+    'UNEXPECTED_ERROR'
+  );
+}
+
 /**
  * Main execute function for route calculation
  * 
@@ -159,6 +289,7 @@ export async function calculateRoute(
       // Pass coordinates if available for coordinate-based routing
       origin_coordinates: input.origin_coordinates,
       destination_coordinates: input.destination_coordinates,
+      avoid: validated.avoid_passages,
     });
 
     // ===== POST-CALCULATION VALIDATION =====
@@ -211,43 +342,13 @@ export async function calculateRoute(
       console.log('✅ [ROUTE-WORKFLOW] Route validation passed - no issues detected');
     }
 
-    // Convert RouteData waypoints ([lat, lon]) to Coordinates format ({lat, lon})
-    const waypoints: Coordinates[] = routeData.waypoints.map((wp) => ({
-      lat: wp.coordinates[0],
-      lon: wp.coordinates[1],
-    }));
-
-    // Normalize coordinates from route service (returns object { lat, lon } or array [lat, lon]) for map/UI
-    const toLatLon = (
-      c: [number, number] | { lat: number; lon: number } | undefined
-    ): { lat: number; lon: number } | undefined => {
-      if (c == null) return undefined;
-      if (Array.isArray(c) && c.length >= 2) return { lat: c[0], lon: c[1] };
-      if (typeof c === 'object' && typeof (c as { lat: number }).lat === 'number' && typeof (c as { lon: number }).lon === 'number') {
-        return { lat: (c as { lat: number }).lat, lon: (c as { lon: number }).lon };
-      }
-      return undefined;
-    };
-
-    // Format output for agent consumption (include names and coordinates for UI/map when using WPI_* etc.)
-    const result: RouteCalculatorOutput = {
-      distance_nm: routeData.totalDistanceNm,
-      estimated_hours: Math.round(routeData.estimatedHours * 100) / 100, // Round to 2 decimal places
-      waypoints,
-      route_type: routeData.routeType,
-      origin_port_code: routeData.origin.port_code,
-      destination_port_code: routeData.destination.port_code,
-      origin_port_name: routeData.origin.name ?? undefined,
-      destination_port_name: routeData.destination.name ?? undefined,
-      origin_coordinates: toLatLon(routeData.origin.coordinates as [number, number] | { lat: number; lon: number }),
-      destination_coordinates: toLatLon(routeData.destination.coordinates as [number, number] | { lat: number; lon: number }),
-    };
+    const result = toRouteCalculatorOutput(routeData);
     
     PortLogger.logRouteCalculation(
       origin_port_code, 
       destination_port_code, 
       result.distance_nm, 
-      waypoints.length
+      result.waypoints.length
     );
     
     return result;
@@ -262,40 +363,121 @@ export async function calculateRoute(
       errorType: error instanceof Error ? error.constructor.name : typeof error,
     });
     
-    // Handle Zod validation errors
-    if (error instanceof z.ZodError) {
+    throw toRouteCalculationError(error);
+  }
+}
+
+/**
+ * Calculate route alternatives between two ports (e.g. via Suez vs via Cape of Good Hope)
+ *
+ * Returns the route for the given constraints plus routes avoiding each canal it uses,
+ * ordered shortest first.
+ *
+ * @param input - Route calculation parameters
+ * @returns One output per alternative, each with a distinct route_id
+ * @throws RouteCalculationError - If validation fails or no route can be calculated
+ */
+export async function calculateRouteAlternatives(
+  input: RouteCalculatorInput
+): Promise<RouteCalculatorOutput[]> {
+  try {
+    const validated = routeCalculatorInputSchema.parse(input);
+
+    if (validated.origin_port_code === validated.destination_port_code) {
       throw new RouteCalculationError(
-        `Input validation failed: ${error.issues.map((e) => e.message).join(', ')}`,
-        'VALIDATION_ERROR'
+        'Origin and destination ports cannot be the same',
+        'INVALID_INPUT'
       );
     }
-    
-    // Re-throw RouteCalculationError as-is
-    if (error instanceof RouteCalculationError) {
-      throw error;
-    }
-    
-    // Handle service errors (port not found, API errors, etc.)
-    if (error instanceof Error) {
-      // Check for common error patterns from RouteService
-      if (error.message.includes('not found')) {
+
+    const routeService = ServiceContainer.getInstance().getRouteService();
+    const routes = await routeService.calculateRouteAlternatives({
+      origin: validated.origin_port_code,
+      destination: validated.destination_port_code,
+      speed: validated.vessel_speed_knots,
+      departureDate: validated.departure_date ? new Date(validated.departure_date) : new Date(),
+      origin_coordinates: input.origin_coordinates,
+      destination_coordinates: input.destination_coordinates,
+      avoid: validated.avoid_passages,
+    });
+
+    return routes.map(toRouteCalculatorOutput);
+  } catch (error) {
+    console.error('[ROUTE-CALC] Route alternatives failed:', error instanceof Error ? error.message : String(error));
+    throw toRouteCalculationError(error);
+  }
+}
+
+/**
+ * Calculate a multi-port itinerary route (e.g. load port → canal transit → discharge ports)
+ *
+ * Routes each leg between consecutive calls and joins them; legs carry the port stay at
+ * their arrival call and the cargo condition (from each call's departure_condition,
+ * carried forward until the next change).
+ *
+ * @param input - Port calls, speed, departure and passages to avoid
+ * @returns Combined route with legs
+ * @throws RouteCalculationError - If validation fails or a leg cannot be routed
+ */
+export async function calculateItineraryRoute(
+  input: ItineraryRouteInput
+): Promise<RouteCalculatorOutput> {
+  try {
+    const validated = itineraryRouteInputSchema.parse(input);
+    const calls = validated.port_calls;
+
+    for (let i = 1; i < calls.length; i++) {
+      if (calls[i].port_code === calls[i - 1].port_code) {
         throw new RouteCalculationError(
-          error.message,
-          'PORT_NOT_FOUND'
+          `Consecutive port calls cannot be the same port (${calls[i].port_code})`,
+          'INVALID_INPUT'
         );
       }
-      
-      throw new RouteCalculationError(
-        `Route calculation failed: ${error.message}`,
-        'SERVICE_ERROR'
-      );
     }
-    
-    // Handle unexpected errors
-    throw new RouteCalculationError(
-      `Unexpected error during route calculation: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      'UNEXPECTED_ERROR'
+
+    const routeService = ServiceContainer.getInstance().getRouteService();
+    const routeData = await routeService.calculateItineraryRoute({
+      calls: calls.map((call) => ({
+        code: call.port_code,
+        coordinates: call.coordinates,
+        portStayHours: call.port_stay_hours,
+      })),
+      speed: validated.vessel_speed_knots,
+      departureDate: validated.departure_date ? new Date(validated.departure_date) : new Date(),
+      avoid: validated.avoid_passages,
+    });
+
+    let condition: CargoCondition | undefined;
+    const legs: ItineraryRouteLeg[] = (routeData.legs ?? []).map((leg, i) => {
+      condition = calls[i].departure_condition ?? condition;
+      return {
+        leg_index: i,
+        from_port_code: leg.origin.port_code,
+        to_port_code: leg.destination.port_code,
+        from_port_name: calls[i].port_name ?? leg.origin.name,
+        to_port_name: calls[i + 1].port_name ?? leg.destination.name,
+        distance_nm: leg.distanceNm,
+        estimated_hours: Math.round(leg.estimatedHours * 100) / 100,
+        start_waypoint_index: leg.startWaypointIndex,
+        end_waypoint_index: leg.endWaypointIndex,
+        route_type: leg.routeType,
+        passages: leg.passages,
+        cargo_condition: condition,
+        port_stay_hours: leg.portStayHours,
+      };
+    });
+
+    const result = { ...toRouteCalculatorOutput(routeData), legs };
+    PortLogger.logRouteCalculation(
+      result.origin_port_code,
+      result.destination_port_code,
+      result.distance_nm,
+      result.waypoints.length
     );
+    return result;
+  } catch (error) {
+    console.error('[ROUTE-CALC] Itinerary route failed:', error instanceof Error ? error.message : String(error));
+    throw toRouteCalculationError(error);
   }
 }
 
@@ -329,6 +511,11 @@ export const routeCalculatorToolSchema = {
         type: 'number',
         description: 'Vessel speed in knots (optional, defaults to 14 knots)',
       },
+      avoid_passages: {
+        type: 'array',
+        items: { type: 'string', enum: [...SEA_PASSAGES] },
+        description: 'Passages to avoid, e.g. red_sea, suez_canal, panama_canal (optional)',
+      },
     },
     required: ['origin_port_code', 'destination_port_code'],
   },
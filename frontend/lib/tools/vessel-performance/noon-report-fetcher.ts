@@ -9,13 +9,15 @@
  * - Weather conditions (if available)
  *
  * Uses FuelSense Datalogs API (NOON_REPORT_API_URL or NEXT_PUBLIC_FUELSENSE_API_URL).
+ * By IMO, reports failing noon report validation are skipped and the data quality is attached.
  * Used by Machinery Performance Agent for real-time vessel status.
  */
 
 import { z } from 'zod';
 import type { NoonReportData } from '@/lib/types/vessel-performance';
 import { ServiceContainer } from '@/lib/repositories/service-container';
-import { DatalogsClient } from '@/lib/clients/datalogs-client';
+import { DatalogsClient, mapRowToNoonReport } from '@/lib/clients/datalogs-client';
+import { getLatestValidatedDatalog } from '@/lib/services/noon-report-quality-service';
 
 // ============================================================================
 // Configuration
@@ -144,7 +146,11 @@ export async function fetchNoonReport(
 
     let data: NoonReportData | null = null;
     if (imo) {
-      data = await datalogsClient.getLatestByIMO(imo);
+      // Latest report that passes validation against the vessel's recent reports
+      const { row, data_quality } = await getLatestValidatedDatalog(imo);
+      if (row) {
+        data = { ...mapRowToNoonReport(row), ...(data_quality && { data_quality }) };
+      }
     }
     if (!data && name) {
       data = await datalogsClient.getLatestByName(name);
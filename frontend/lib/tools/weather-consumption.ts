@@ -12,12 +12,18 @@
  * The tool:
  * - Validates input parameters using Zod
  * - Delegates to WeatherService for weather impact calculation
+ * - Uses WeatherAdjustmentEngine for per-segment, heading-aware factors when a vessel timeline is provided
  * - Formats output for agent consumption
  */
 
 import { z } from 'zod';
 import { Coordinates, FuelType } from '@/lib/types';
 import { ServiceContainer } from '@/lib/repositories/service-container';
+import type { VesselPosition } from '@/lib/multi-agent/state';
+import {
+  weatherAdjustmentEngine,
+  type SegmentWeatherAdjustment,
+} from '@/lib/engines/weather-adjustment-engine';
 
 /**
  * Weather data point from marine weather tool
@@ -55,6 +61,8 @@ export interface WeatherConsumptionInput {
     VLSFO?: number;
     LSGO?: number;
   };
+  /** Optional vessel positions; when set, weather impact is calculated per segment from each leg's heading */
+  vessel_timeline?: VesselPosition[];
 }
 
 /**
@@ -120,6 +128,8 @@ export interface WeatherConsumptionOutput {
   weather_alerts: WeatherAlert[];
   /** Voyage weather summary */
   voyage_weather_summary: VoyageWeatherSummary;
+  /** Per-segment added resistance and consumption (only when a vessel timeline was provided) */
+  segment_breakdown?: SegmentWeatherAdjustment[];
 }
 
 /**
@@ -164,6 +174,18 @@ export const weatherConsumptionInputSchema = z.object({
       LSGO: z.number().positive().optional(),
     })
     .optional(),
+
+  vessel_timeline: z
+    .array(
+      z.object({
+        lat: z.number(),
+        lon: z.number(),
+        datetime: z.string(),
+        distance_from_start_nm: z.number(),
+        segment_index: z.number(),
+      })
+    )
+    .optional(),
 });
 
 /**
@@ -239,8 +261,9 @@ function generateWeatherAlerts(
  * 
  * This function:
  * 1. Validates input parameters using Zod
- * 2. Gets WeatherService from ServiceContainer
- * 3. Calculates weather impact for each data point using WeatherService
+ * 2. With a vessel timeline: calculates per-segment factors with WeatherAdjustmentEngine
+ *    (heading of each leg vs. wind/wave direction) and a consumption-weighted multiplier
+ * 3. Otherwise: calculates weather impact for each data point using WeatherService
  * 4. Computes average multiplier across voyage
  * 5. Applies multiplier to base consumption
  * 6. Generates weather alerts
@@ -263,6 +286,7 @@ export async function calculateWeatherConsumption(
       base_consumption_mt,
       vessel_heading_deg,
       fuel_type_breakdown,
+      vessel_timeline,
     } = validatedInput;
 
     // Handle edge case: empty weather data (shouldn't happen due to validation)
@@ -273,13 +297,23 @@ export async function calculateWeatherConsumption(
       );
     }
 
+    // Per-segment, heading-aware adjustment when the vessel timeline is known
+    const segmentAdjustment =
+      vessel_timeline && vessel_timeline.length >= 2
+        ? weatherAdjustmentEngine.calculateVoyageAdjustment({
+            vessel_timeline,
+            weather_points: weather_data,
+            base_consumption_mt,
+          })
+        : null;
+
     // Get service from container
     const container = ServiceContainer.getInstance();
     const weatherService = container.getWeatherService();
 
     // Calculate weather impact multipliers for each data point
     const multipliers: number[] = [];
-    for (const dataPoint of weather_data) {
+    for (const dataPoint of segmentAdjustment ? [] : weather_data) {
       const impact = await weatherService.calculateWeatherImpact({
         weather: {
           waveHeight: dataPoint.weather.wave_height_m,
@@ -294,12 +328,15 @@ export async function calculateWeatherConsumption(
       multipliers.push(impact.multiplier);
     }
 
-    // Calculate average multiplier
-    const avgMultiplier =
-      multipliers.reduce((sum, m) => sum + m, 0) / multipliers.length;
+    // Calculate average multiplier (consumption-weighted over segments when available)
+    const avgMultiplier = segmentAdjustment
+      ? segmentAdjustment.consumption_factor
+      : multipliers.reduce((sum, m) => sum + m, 0) / multipliers.length;
 
     // Calculate adjusted consumption
-    const weatherAdjustedConsumption = base_consumption_mt * avgMultiplier;
+    const weatherAdjustedConsumption = segmentAdjustment
+      ? segmentAdjustment.adjusted_consumption_mt
+      : base_consumption_mt * avgMultiplier;
     const additionalFuelNeeded = weatherAdjustedConsumption - base_consumption_mt;
     const consumptionIncreasePercent =
       (additionalFuelNeeded / base_consumption_mt) * 100;
@@ -322,6 +359,9 @@ export async function calculateWeatherConsumption(
         worstConditionsDate = weather_data[i]!.datetime;
       }
     }
+    if (segmentAdjustment?.worst_segment_index != null) {
+      worstConditionsDate = segmentAdjustment.segments[segmentAdjustment.worst_segment_index]!.start_datetime;
+    }
 
     const voyageWeatherSummary: VoyageWeatherSummary = {
       avg_wave_height_m: avgWaveHeight,
@@ -364,6 +404,7 @@ export async function calculateWeatherConsumption(
       breakdown_by_fuel_type: breakdownByFuelType,
       weather_alerts: weatherAlerts,
       voyage_weather_summary: voyageWeatherSummary,
+      ...(segmentAdjustment && { segment_breakdown: segmentAdjustment.segments }),
     };
   } catch (error) {
     // Handle Zod validation errors
@@ -460,6 +501,21 @@ export const weatherConsumptionToolSchema = {
         },
         description: 'Optional breakdown by fuel type',
       },
+      vessel_timeline: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            lat: { type: 'number' },
+            lon: { type: 'number' },
+            datetime: { type: 'string' },
+            distance_from_start_nm: { type: 'number' },
+            segment_index: { type: 'number' },
+          },
+          required: ['lat', 'lon', 'datetime', 'distance_from_start_nm', 'segment_index'],
+        },
+        description: 'Optional vessel positions from calculate_weather_timeline for per-segment, heading-aware impact',
+      },
     },
     required: ['weather_data', 'base_consumption_mt', 'vessel_heading_deg'],
   },
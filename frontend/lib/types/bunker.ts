@@ -4,6 +4,7 @@
  *
  * Sections:
  * - Data Access Types (API/service shapes)
+ * - Supplier Quote Types (physical supplier quotes, stem nomination)
  * - Query Types (subtype, constraints)
  * - Calculation Types (ROB, requirements)
  * - Analysis Types (multi-port, vessel comparison)
@@ -41,6 +42,36 @@ export interface PortCapabilities {
   ecaZone: boolean;
 }
 
+/** Exhaust gas scrubber type: open-loop discharges washwater overboard; hybrid can run closed-loop where that is banned. */
+export type ScrubberType = 'open_loop' | 'closed_loop' | 'hybrid';
+
+/** Scrubber fitment; a fitted vessel may burn HSFO where its scrubber type is allowed to operate. */
+export interface ScrubberFitment {
+  fitted: boolean;
+  type?: ScrubberType;
+}
+
+/**
+ * Dual-fuel main engine concept; sets methane slip (low-pressure Otto engines slip most,
+ * high-pressure Diesel-cycle engines least).
+ */
+export type DualFuelEngineType = 'otto_slow_speed' | 'otto_medium_speed' | 'diesel_slow_speed' | 'lbsi';
+
+/** LNG dual-fuel capability; unset figures fall back to config/engine-params/dual-fuel-economics.yaml. */
+export interface DualFuelCapability {
+  capable: boolean;
+  engine_type?: DualFuelEngineType;
+  /** LNG fuel tank capacity (m³) */
+  lng_tank_capacity_m3?: number;
+  /** Pilot oil share (%) of the energy burned in gas mode */
+  pilot_fuel_percent?: number;
+  /** Boil-off (% of LNG on board per day) at sea and at anchor */
+  boil_off_percent_per_day_sea?: number;
+  boil_off_percent_per_day_anchor?: number;
+  /** LNG kept in the tanks to keep them cold (% of tank capacity) */
+  heel_percent?: number;
+}
+
 /** Vessel specifications for bunker planning. */
 export interface VesselSpecs {
   vesselId: string;
@@ -50,6 +81,8 @@ export interface VesselSpecs {
   tankCapacity: number;
   currentPosition?: { lat: number; lon: number };
   fuelCompatibility: string[];
+  scrubber?: ScrubberFitment;
+  dual_fuel?: DualFuelCapability;
 }
 
 /** Remaining on board snapshot for a vessel. */
@@ -60,6 +93,7 @@ export interface ROBSnapshot {
   robLSMGO?: number;
   robMGO?: number;
   robHSFO?: number;
+  robLNG?: number;
   totalROB: number;
   location?: { lat: number; lon: number } | string;
 }
@@ -91,6 +125,82 @@ export interface PriceHistory {
   fuelType: string;
 }
 
+// =============================================================================
+// Supplier Quote Types (SupplierQuoteService, bunker analyzer)
+// =============================================================================
+
+/** How a supplier delivers the stem to the vessel. */
+export type BunkerDeliveryMode = 'barge' | 'truck' | 'pipe';
+
+/** Quote from a physical supplier at a port for one grade, valid for a delivery window. */
+export interface SupplierQuote {
+  quote_id: string;
+  supplier: string;
+  /** UN/LOCODE (or port name when the buyer quotes by name) */
+  port_code: string;
+  port_name?: string;
+  /** Grade; supplier names for HSFO (IFO380, RMG 380) are normalized on ingest */
+  fuel_type: string;
+  price_per_mt: number;
+  currency: string;
+  /** Smallest and largest stem (MT) the supplier will deliver at this price */
+  min_stem_mt: number;
+  max_stem_mt: number;
+  delivery_mode: BunkerDeliveryMode;
+  /** Lump-sum barging/trucking charge on top of the price (USD) */
+  delivery_charge_usd?: number;
+  /** Delivery window the quote is valid for (ISO 8601) */
+  valid_from: string;
+  valid_until: string;
+  received_at: string;
+}
+
+/** A supplier quote evaluated for a stem (quantity, grade and delivery date). */
+export interface SupplierQuoteOption {
+  quote_id: string;
+  supplier: string;
+  fuel_type: string;
+  delivery_mode: BunkerDeliveryMode;
+  price_per_mt: number;
+  delivery_charge_usd: number;
+  /** Price including the delivery charge spread over the stem */
+  delivered_price_per_mt: number;
+  total_cost_usd: number;
+  valid_until: string;
+  /** False when the stem is outside min/max stem or the delivery date outside the validity window */
+  eligible: boolean;
+  reason?: string;
+}
+
+/** One grade of a stem nomination. */
+export interface StemNominationLine {
+  fuel_type: string;
+  quantity_mt: number;
+  supplier: string;
+  quote_id: string;
+  delivery_mode: BunkerDeliveryMode;
+  price_per_mt: number;
+  delivery_charge_usd: number;
+  value_usd: number;
+}
+
+/** Stem nomination generated from the chosen port and supplier(s), for sending to the supplier. */
+export interface StemNomination {
+  nomination_id: string;
+  status: 'draft';
+  created_at: string;
+  vessel?: { imo?: string; name?: string };
+  port_code: string;
+  port_name: string;
+  /** Requested delivery date (ETA at the port) */
+  delivery_date: string;
+  lines: StemNominationLine[];
+  total_value_usd: number;
+  currency: string;
+  /** Grades in the analysis bought at index prices (no supplier quote) */
+  unquoted_grades: string[];
+}
+
 // =============================================================================
 // Query Types (subtype classification, constraints)
 // =============================================================================
@@ -186,6 +296,10 @@ export interface BunkerPortOption {
   price_per_mt: number;
   deviation_nm: number;
   route_position?: number;
+  /** Supply rate and berth availability for the port call cost */
+  port_capabilities?: PortCapabilities | null;
+  /** Estimated arrival (ISO 8601) */
+  arrival_date?: string;
 }
 
 /** Input for multi-port bunkering optimization. */
@@ -196,6 +310,8 @@ export interface MultiPortParams {
   availablePorts: BunkerPortOption[];
   route?: { distance_nm?: number; estimated_hours?: number };
   deviationCostPerNm?: number;
+  /** Add each stop's port call cost (PortCallCostEngine) to the strategy cost and time */
+  includePortCallCost?: boolean;
 }
 
 /** Single port stop in a multi-port strategy. */
@@ -209,6 +325,8 @@ export interface PortBunkerPlan {
   rob_before: number;
   rob_after: number;
   reasoning: string;
+  /** Waiting and bunkering time, port dues and agency fee of this stop */
+  port_call_cost?: number;
 }
 
 /** Multi-port strategy result. */
@@ -217,6 +335,8 @@ export interface MultiPortStrategy {
   ports: PortBunkerPlan[];
   total_bunker_cost: number;
   total_deviation_cost: number;
+  /** Port call cost of all stops (when includePortCallCost) */
+  total_port_call_cost?: number;
   total_cost: number;
   savings_vs_single_port: number;
   time_impact_hours: number;
@@ -5,6 +5,8 @@
  * Supports agents, tools, workflows, business rules, and feature flags.
  */
 
+import type { DualFuelCapability, ScrubberType } from './bunker';
+
 // ============================================================================
 // Agent Configuration
 // ============================================================================
@@ -123,6 +125,21 @@ export interface AgentConfig {
 // Data Policy Configuration (domain-specific data sources)
 // ============================================================================
 
+/** Port call charges and typical service levels for one bunker port */
+export interface PortCallCostTableEntry {
+  port_dues_usd?: number;
+  agency_fee_usd?: number;
+  /** Typical waiting time for a berth or barge (hours) */
+  waiting_hours?: number;
+  supply_rate_mt_per_hour?: number;
+}
+
+/** Typical anchorage waiting (congestion) at one port */
+export interface PortCongestionEntry {
+  /** Hours between arriving off the port and getting a berth */
+  anchorage_waiting_hours: number;
+}
+
 export interface DataPolicyConfig {
   id: string;
   domain: string;
@@ -144,6 +161,16 @@ export interface DataPolicyConfig {
   tank_capacity_default?: number;
   /** Disclaimer text for assumed tank capacity */
   tank_capacity_note?: string;
+  /** Scrubber type by IMO when bunker API specs do not carry fitment; unlisted vessels are not fitted */
+  scrubber_fitment?: Record<string, ScrubberType>;
+  /** Dual-fuel (LNG) vessels by IMO; unlisted vessels are oil-only */
+  dual_fuel_vessels?: Record<string, Omit<DualFuelCapability, 'capable'>>;
+  /** Port dues, agency fee, typical waiting time and supply rate by port code (bunker call costing) */
+  port_call_costs?: Record<string, PortCallCostTableEntry>;
+  /** Anchorage waiting source for JIT arrival: port_table, or port_capabilities (berth availability, table as fallback) */
+  port_congestion_source?: 'port_table' | 'port_capabilities';
+  /** Anchorage waiting by port code (JIT arrival planning) */
+  port_congestion?: Record<string, PortCongestionEntry>;
   instructions?: string;
   systemPromptFragment?: string;
   enabled?: boolean;
@@ -306,7 +333,7 @@ export interface BusinessRule {
 
   // Rule definition
   rule: {
-    condition: string; // JS expression or structured condition
+    condition: string; // Condition expression over rule facts (lib/config/condition-expression.ts)
     action: RuleAction;
     priority: number; // 1 = highest
     severity: RuleSeverity;
@@ -321,6 +348,7 @@ export interface BusinessRule {
 
   // Status
   enabled: boolean;
+  featureFlag?: string; // Rule only runs when this feature flag is enabled
 
   // Metadata
   metadata?: {
@@ -27,6 +27,14 @@ export type {
   VesselComparisonAnalysis,
 } from './vessel-selection';
 
+export type {
+  CargoCondition,
+  PortCallPurpose,
+  ItineraryPortCall,
+  VoyageItinerary,
+  ItineraryRouteLeg,
+} from './itinerary';
+
 /**
  * Geographic coordinates for a location
  */
@@ -40,7 +48,7 @@ export interface Coordinates {
 /**
  * Fuel type available at a port
  */
-export type FuelType = 'VLSFO' | 'LSGO' | 'MGO';
+export type FuelType = 'VLSFO' | 'LSGO' | 'MGO' | 'HSFO' | 'LNG';
 
 /**
  * Represents a maritime port with its capabilities
@@ -80,7 +88,7 @@ export interface Route {
 export interface FuelPrice {
   /** Port code where this fuel price applies */
   port_code: string;
-  /** Type of fuel (Very Low Sulphur Fuel Oil, Low Sulphur Gas Oil, or Marine Gas Oil) */
+  /** Type of fuel (Very Low Sulphur Fuel Oil, Low Sulphur Gas Oil, Marine Gas Oil, High Sulphur Fuel Oil, or LNG) */
   fuel_type: FuelType;
   /** Price per metric ton */
   price_per_mt: number;
@@ -91,12 +99,21 @@ export interface FuelPrice {
 }
 
 export type {
+  BunkerDeliveryMode,
   BunkerPricing,
   DateRange,
+  DualFuelCapability,
+  DualFuelEngineType,
   FleetFilters,
   PortCapabilities,
   PriceHistory,
   ROBSnapshot,
+  ScrubberFitment,
+  ScrubberType,
+  StemNomination,
+  StemNominationLine,
+  SupplierQuote,
+  SupplierQuoteOption,
   VesselSpecs,
   VesselStatus,
 } from './bunker';
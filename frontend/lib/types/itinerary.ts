@@ -0,0 +1,85 @@
+/**
+ * Voyage Itinerary Type Definitions
+ *
+ * Multi-port voyages (liner rotations, tramp voyages with several load/discharge
+ * ports, canal transits and bunker-only calls) as an ordered list of port calls.
+ * The route agent turns an itinerary into one route with a leg per pair of calls.
+ */
+
+import type { SeaPassage } from '@/lib/engines/sea-routing-engine';
+
+// ============================================================================
+// Port Calls
+// ============================================================================
+
+/** Cargo condition of the vessel on a sea leg */
+export type CargoCondition = 'laden' | 'ballast';
+
+/** Why the vessel calls at a port */
+export type PortCallPurpose = 'load' | 'discharge' | 'canal_transit' | 'bunker' | 'other';
+
+/**
+ * One call of a voyage itinerary
+ *
+ * @example
+ * ```ts
+ * const call: ItineraryPortCall = {
+ *   port_code: 'AEJEA',
+ *   purpose: 'discharge',
+ *   port_stay_hours: 48,
+ *   departure_condition: 'ballast',
+ * };
+ * ```
+ */
+export interface ItineraryPortCall {
+  /** Port code (UN/LOCODE like SGSIN or World Port Index id like WPI_710) */
+  port_code: string;
+  /** Display name (e.g. "Jebel Ali") */
+  port_name?: string;
+  /** [latitude, longitude] when resolved */
+  coordinates?: [number, number];
+  purpose?: PortCallPurpose;
+  /** Time alongside or at anchor (hours); ignored for the final call */
+  port_stay_hours?: number;
+  /** Cargo condition on the leg departing this call; defaults to the previous leg's condition */
+  departure_condition?: CargoCondition;
+}
+
+/**
+ * Ordered port calls of a voyage: first call is the origin, last call the destination
+ */
+export interface VoyageItinerary {
+  port_calls: ItineraryPortCall[];
+  /** ISO date string for departure from the first call (YYYY-MM-DD) */
+  departure_date?: string;
+  /** Service speed in knots */
+  speed_knots?: number;
+}
+
+// ============================================================================
+// Route Legs
+// ============================================================================
+
+/**
+ * One sea leg of an itinerary route (between two consecutive port calls)
+ */
+export interface ItineraryRouteLeg {
+  /** Position of the leg in the itinerary (0 = first call → second call) */
+  leg_index: number;
+  from_port_code: string;
+  to_port_code: string;
+  from_port_name?: string;
+  to_port_name?: string;
+  distance_nm: number;
+  /** Sailing time in hours */
+  estimated_hours: number;
+  /** Index of the leg's first waypoint in the itinerary route's waypoints */
+  start_waypoint_index: number;
+  /** Index of the leg's last waypoint (the next call) in the itinerary route's waypoints */
+  end_waypoint_index: number;
+  route_type: string;
+  passages?: SeaPassage[];
+  cargo_condition?: CargoCondition;
+  /** Time at the arrival call before the next leg (hours) */
+  port_stay_hours?: number;
+}
@@ -5,6 +5,8 @@
  * These types support noon report data, consumption profiles, and vessel specifications.
  */
 
+import type { NoonReportDataQuality } from '@/lib/engines/noon-report-validation-engine';
+
 /**
  * Basic vessel information from master database
  */
@@ -21,6 +23,9 @@ export interface VesselBasicInfo {
   /** Deadweight tonnage in metric tons */
   dwt: number;
 
+  /** Optional: Gross tonnage (CII capacity for vehicle carriers, ro-ro passenger and cruise ships) */
+  gt?: number;
+
   /** Flag state (ISO 3166-1 alpha-2 code, e.g., 'SG', 'LR', 'PA') */
   flag: string;
 
@@ -125,6 +130,9 @@ export interface NoonReportData {
 
   /** Optional: Vessel draft information */
   draft?: DraftInfo;
+
+  /** Optional: Data quality of the vessel's recent reports (noon report validation) */
+  data_quality?: NoonReportDataQuality;
 }
 
 /**
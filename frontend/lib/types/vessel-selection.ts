@@ -8,6 +8,8 @@
 
 import type { FuelQuantityMT } from '@/lib/multi-agent/state';
 import type { VesselProfile } from '@/lib/services/vessel-service';
+import type { ItineraryPortCall } from './itinerary';
+import type { VoyageEstimate } from '@/lib/engines/voyage-estimate-engine';
 
 // ============================================================================
 // Input Types
@@ -41,6 +43,8 @@ export interface NextVoyageDetails {
   speed?: number;
   /** Cargo condition: 'ballast' or 'laden' - affects consumption */
   cargo_type?: string;
+  /** All calls in order when the voyage has intermediate calls (first = origin, last = destination) */
+  port_calls?: ItineraryPortCall[];
 }
 
 /**
@@ -114,6 +118,8 @@ export interface CostBreakdown {
   deviation_cost: number;
   /** Time cost (e.g., opportunity cost of delay) */
   time_cost: number;
+  /** EU ETS allowance cost of the voyage's emissions (when enable_eu_ets_agent is on) */
+  eu_ets_cost?: number;
   /** Total voyage cost (sum of all components) */
   total_cost: number;
 }
@@ -172,7 +178,13 @@ export interface VesselAnalysisResult {
   next_voyage_requirements: FuelQuantityMT;
   /** Tentative arrival date at next voyage destination port (computed from current voyage end + voyage duration) */
   next_voyage_destination_eta?: Date | string;
-  /** Whether vessel can complete next voyage without bunkering */
+  /** Safety reserve required on arrival (bunker_safety_margin rule), included in the bunkering check */
+  safety_margin?: {
+    required_mt: FuelQuantityMT;
+    required_days: number;
+    explanation: string;
+  };
+  /** Whether vessel can complete next voyage without bunkering (with safety reserve) */
   can_proceed_without_bunker: boolean;
   /** Bunker plan if bunkering is required */
   bunker_plan?: BunkerPlan;
@@ -180,6 +192,8 @@ export interface VesselAnalysisResult {
   total_voyage_cost: number;
   /** Itemized cost breakdown */
   cost_breakdown: CostBreakdown;
+  /** Voyage P&L and TCE when revenue terms (freight, lumpsum or hire) are given */
+  voyage_estimate?: VoyageEstimate;
   /** Feasibility score 0-100 (100 = fully feasible) */
   feasibility_score: number;
   /** Risk factors (e.g., "Low ROB margin", "Weather delay") */
@@ -201,8 +215,13 @@ export interface VesselRanking {
   score: number;
   /** Human-readable reason for this recommendation */
   recommendation_reason: string;
+  /** Time charter equivalent (USD/day) when ranked on TCE */
+  tce_usd_per_day?: number;
 }
 
+/** Ranking basis: bunker/voyage cost, or time charter equivalent when revenue terms are given */
+export type VesselRankingBasis = 'cost' | 'tce';
+
 /**
  * Complete vessel comparison analysis
  *
@@ -212,8 +231,10 @@ export interface VesselRanking {
 export interface VesselComparisonAnalysis {
   /** Per-vessel analysis results */
   vessels_analyzed: VesselAnalysisResult[];
-  /** Vessels ranked by cost and feasibility */
+  /** Vessels ranked by cost and feasibility, or by TCE */
   rankings: VesselRanking[];
+  /** Basis of the rankings */
+  ranked_by?: VesselRankingBasis;
   /** Recommended vessel name (best option) */
   recommended_vessel: string;
   /** Human-readable summary of the comparison */
@@ -0,0 +1,52 @@
+/**
+ * Extracts a berth / arrival window from a natural language query.
+ * Used by the route agent for just-in-time arrival planning.
+ */
+
+export interface ArrivalWindow {
+  /** ISO 8601; the berth window opens */
+  start: string;
+  /** ISO 8601; latest useful arrival */
+  end?: string;
+}
+
+/** 2026-03-10, 2026-03-10T06:00, 2026-03-10 06:00Z */
+const DATE = String.raw`(\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2})?Z?)?)`;
+
+function toIso(text: string): string | null {
+  const normalised = text.replace(' ', 'T');
+  const withZone = /T\d{2}:\d{2}(:\d{2})?$/.test(normalised) ? `${normalised}Z` : normalised;
+  const ms = Date.parse(withZone);
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+}
+
+/**
+ * Extract an arrival window from a user query.
+ *
+ * Patterns (dates as YYYY-MM-DD with optional time, UTC):
+ * - Window: "berth window 2026-03-10 to 2026-03-12", "arrival window 2026-03-10 - 2026-03-11",
+ *   "arrive between 2026-03-10 and 2026-03-12", "laycan 2026-03-10 to 2026-03-12"
+ * - Opening only: "berth available from 2026-03-10 06:00", "berth free on 2026-03-10"
+ *
+ * @param query - User message text
+ * @returns Window, or null when the query has none
+ */
+export function extractArrivalWindow(query: string): ArrivalWindow | null {
+  const q = query.replace(/\s+/g, ' ').trim();
+
+  const range =
+    q.match(new RegExp(String.raw`\b(?:berth|arrival|laycan)(?: window)?\s*(?:of|is|:)?\s*${DATE}\s*(?:to|until|-|–)\s*${DATE}`, 'i')) ??
+    q.match(new RegExp(String.raw`\barriv(?:e|al|ing) between\s+${DATE}\s+and\s+${DATE}`, 'i'));
+  if (range) {
+    const start = toIso(range[1]);
+    const end = toIso(range[2]);
+    if (start) return { start, ...(end && end > start && { end }) };
+  }
+
+  const opening = q.match(new RegExp(String.raw`\bberth (?:available|free|ready)(?: from| at| on)?\s+${DATE}`, 'i'));
+  if (opening) {
+    const start = toIso(opening[1]);
+    if (start) return { start };
+  }
+  return null;
+}
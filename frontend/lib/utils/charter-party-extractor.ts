@@ -0,0 +1,103 @@
+/**
+ * Extracts charter-party performance terms from a natural language query or CP clause.
+ * Used by the CP performance agent and the /api/cp-performance route.
+ */
+
+import type { CIIFuelGrade } from '@/lib/engines/cii-calculator-engine';
+import type { CPLoadCondition, CPWarranty } from '@/lib/engines/cp-performance-engine';
+import { normalizeFuelType } from './fuel-grade';
+
+export interface CharterPartyTerms {
+  warranty: CPWarranty | null;
+  /** Performance period (ISO 8601) */
+  period?: { start: string; end: string };
+  daily_hire_usd?: number;
+  fuel_price_usd_per_mt?: number;
+}
+
+const NUMBER = String.raw`(\d+(?:\.\d+)?)`;
+const ABOUT = String.raw`(?:about|abt\.?|approx(?:imately|\.)?)`;
+const GRADE = String.raw`(VLSFO|ULSFO|LSMGO|MGO|MDO|LNG|HSFO|HFO|IFO\s*-?\s*380|IFO\s*-?\s*180)`;
+const DATE = String.raw`(\d{4}-\d{2}-\d{2})`;
+
+const GRADE_ALIASES: Record<string, CIIFuelGrade> = {
+  VLSFO: 'VLSFO',
+  ULSFO: 'ULSFO',
+  LSMGO: 'LSMGO',
+  MGO: 'MGO',
+  MDO: 'MDO',
+  LNG: 'LNG',
+  HSFO: 'HSFO',
+};
+
+function toGrade(text: string | undefined): CIIFuelGrade {
+  if (!text) return 'VLSFO';
+  const normalised = normalizeFuelType(text.replace(/\s+/g, '')).toUpperCase();
+  return GRADE_ALIASES[normalised] ?? 'VLSFO';
+}
+
+function toAmount(text: string): number {
+  return parseFloat(text.replace(/,/g, ''));
+}
+
+/**
+ * Extract the CP warranty, performance period, hire and bunker price from a query.
+ *
+ * Patterns:
+ * - Warranty: "about 14 kn on 30 mt VLSFO", "abt 13.5 knots on abt 28 mt/day IFO380 laden",
+ *   "14 kts / 30 mt VLSFO" ("about" anywhere in front of the speed or consumption applies tolerances)
+ * - Period: "from 2026-03-01 to 2026-03-20", "between 2026-03-01 and 2026-03-20"
+ * - Hire: "hire $14,500/day", "hire of 14500 per day", "$14,500 pd hire"
+ * - Price: "VLSFO at $620/mt", "fuel price 620 USD/mt"
+ *
+ * @param query - User message or CP speed and consumption clause
+ */
+export function extractCharterPartyTerms(query: string): CharterPartyTerms {
+  const q = query.replace(/\s+/g, ' ').trim();
+  const terms: CharterPartyTerms = { warranty: null };
+
+  const warranty = q.match(
+    new RegExp(
+      String.raw`(${ABOUT}\s+)?${NUMBER}\s*(?:kn|knots?|kts?)\b\s*(?:on|at|@|/|,|and)?\s*(${ABOUT}\s+)?${NUMBER}\s*` +
+        String.raw`(?:mt|metric tons?|tons?|t)\b(?:\s*(?:/|per)\s*day|\s*pd)?\s*(?:of\s+)?${GRADE}?`,
+      'i'
+    )
+  );
+  if (warranty) {
+    const load = q.match(/\b(laden|ballast)\b/i)?.[1]?.toLowerCase() as CPLoadCondition | undefined;
+    terms.warranty = {
+      speed_knots: parseFloat(warranty[2]),
+      consumption_mt_per_day: parseFloat(warranty[4]),
+      fuel_grade: toGrade(warranty[5]),
+      about: !!(warranty[1] || warranty[3]),
+      ...(load && { load_condition: load }),
+    };
+  }
+
+  const period =
+    q.match(new RegExp(String.raw`\bfrom\s+${DATE}\s+(?:to|until)\s+${DATE}`, 'i')) ??
+    q.match(new RegExp(String.raw`\bbetween\s+${DATE}\s+and\s+${DATE}`, 'i'));
+  if (period) {
+    const start = Date.parse(`${period[1]}T00:00:00Z`);
+    const end = Date.parse(`${period[2]}T00:00:00Z`);
+    if (Number.isFinite(start) && Number.isFinite(end) && end > start) {
+      terms.period = { start: new Date(start).toISOString(), end: new Date(end).toISOString() };
+    }
+  }
+
+  const hire =
+    q.match(/\bhire(?: rate)?(?: of| at| is)?\s*(?:USD|US\$|\$)?\s*([\d,]+(?:\.\d+)?)\s*(?:USD\s*)?(?:\/\s*day|per day|pd|daily)?/i) ??
+    q.match(/(?:USD|US\$|\$)\s*([\d,]+(?:\.\d+)?)\s*(?:\/\s*day|per day|pd|daily)\s*hire/i);
+  if (hire) {
+    const amount = toAmount(hire[1]);
+    if (amount > 0) terms.daily_hire_usd = amount;
+  }
+
+  const price = q.match(/(?:USD|US\$|\$)?\s*([\d,]+(?:\.\d+)?)\s*(?:USD\s*)?(?:\/|per)\s*(?:mt|metric ton|ton)\b/i);
+  if (price) {
+    const amount = toAmount(price[1]);
+    if (amount > 0) terms.fuel_price_usd_per_mt = amount;
+  }
+
+  return terms;
+}
@@ -0,0 +1,37 @@
+/**
+ * Fuel grade names as quoted by bunker price sources.
+ * Suppliers quote high sulphur fuel oil under several names (IFO380, 380 CST, HFO, RMG 380);
+ * these are normalized to 'HSFO' so scrubber-fitted vessels can be priced on one grade.
+ * LNG names (LNG, Liquefied Natural Gas, fossil LNG) are normalized to 'LNG' for dual-fuel vessels.
+ */
+
+/** High sulphur residual fuel names (3.5% S) */
+const HSFO_ALIASES = /^(?:hsfo|hfo|ifo\s*-?\s*(?:180|380|500)|(?:180|380|500)\s*-?\s*cst|rm[egk]\s*-?\s*(?:180|380|500)|hsfo\s*3\.5\s*%?)$/i;
+
+/** Liquefied natural gas names */
+const LNG_ALIASES = /^(?:lng|liquefied\s+natural\s+gas|fossil\s*-?\s*lng)$/i;
+
+/**
+ * Normalize a fuel type from a price source.
+ *
+ * @param fuelType - Fuel type as returned by the API (e.g. 'IFO380', 'VLSFO')
+ * @returns 'HSFO' for high sulphur residual grades, 'LNG' for LNG, otherwise the trimmed input
+ */
+export function normalizeFuelType(fuelType: string): string {
+  const trimmed = fuelType.trim();
+  if (HSFO_ALIASES.test(trimmed)) return 'HSFO';
+  return LNG_ALIASES.test(trimmed) ? 'LNG' : trimmed;
+}
+
+/** Distillate grades quoted interchangeably for ECA / auxiliary use (0.1% S) */
+const DISTILLATE_GRADES = new Set(['LSMGO', 'LSGO', 'MGO', 'DMA', 'ULSMGO']);
+
+/**
+ * Whether two grade names refer to the same fuel for buying purposes:
+ * HSFO aliases match HSFO, and LSMGO/LSGO/MGO match each other.
+ */
+export function isSameFuelGrade(a: string, b: string): boolean {
+  const gradeA = normalizeFuelType(a).toUpperCase().replace(/\s+/g, '');
+  const gradeB = normalizeFuelType(b).toUpperCase().replace(/\s+/g, '');
+  return gradeA === gradeB || (DISTILLATE_GRADES.has(gradeA) && DISTILLATE_GRADES.has(gradeB));
+}
@@ -0,0 +1,34 @@
+/**
+ * Extracts a FuelEU Maritime biofuel blend what-if from a natural language query.
+ * Used by the compliance agent, e.g. "what if I bunker B30 at Rotterdam".
+ */
+
+import type { FuelEUBlendScenario } from '@/lib/engines/fueleu-maritime-engine';
+
+/**
+ * Extract a biofuel blend scenario from a user query.
+ *
+ * Patterns:
+ * - Blend: "B30", "b24", "B100" (biofuel % by mass)
+ * - Bunker port (optional): "at Rotterdam", "in Singapore"
+ *
+ * @param query - User message text
+ * @returns Blend scenario, or null when the query names no blend
+ */
+export function extractFuelEUScenario(query: string): FuelEUBlendScenario | null {
+  const q = query.replace(/\s+/g, ' ').trim();
+
+  const blend = q.match(/\bB(\d{1,3})\b/i);
+  if (!blend) return null;
+  const percent = parseInt(blend[1], 10);
+  if (!Number.isFinite(percent) || percent < 1 || percent > 100) return null;
+
+  const scenario: FuelEUBlendScenario = { blend_percent: percent };
+
+  // Port after the blend: "B30 at Rotterdam", "bunker B24 in Antwerp before departure"
+  const afterBlend = q.slice((blend.index ?? 0) + blend[0].length);
+  const port = afterBlend.match(/\b(?:at|in)\s+([A-Z][A-Za-z'.-]+(?:\s+[A-Z][A-Za-z'.-]+)*)/);
+  if (port) scenario.bunker_port = port[1];
+
+  return scenario;
+}
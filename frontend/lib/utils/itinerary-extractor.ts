@@ -0,0 +1,161 @@
+/**
+ * Extracts a multi-port voyage itinerary from a natural language query.
+ * Used by the route agent, e.g. "Singapore → Colombo (discharge, 2 days) → Rotterdam"
+ * or "from Santos to Qingdao calling at Cape Town for bunkers".
+ */
+
+import type { CargoCondition, PortCallPurpose } from '@/lib/types/itinerary';
+
+export interface ExtractedPortCall {
+  /** Port name or code as written in the query */
+  port: string;
+  purpose?: PortCallPurpose;
+  port_stay_hours?: number;
+  departure_condition?: CargoCondition;
+}
+
+export interface ExtractedItinerary {
+  /** Missing when the query only names the intermediate calls */
+  origin?: ExtractedPortCall;
+  destination?: ExtractedPortCall;
+  /** Intermediate calls in voyage order (at least one) */
+  via: ExtractedPortCall[];
+}
+
+/** Arrow separators between port calls */
+const ARROW = /\s*(?:→|->|=>|➔|⟶)\s*/;
+
+/** Canals, straits and capes are passages, not port calls ("via Suez") */
+const PASSAGE_NAME = /suez|panama|canal\b|\bcape\s+(?:of\s+good\s+hope|horn)\b|^(?:the\s+)?cape$|strait|red sea|gulf of aden|bab[\s-]el[\s-]mandeb|hormuz|malacca|gibraltar|bosphorus|high[\s-]risk/i;
+
+/** Routing and voyage terms that follow "via" without naming a port ("via ECA zones", "via ballast leg") */
+const NON_PORT_TERM = /\b(?:s?eca|emission|zones?|areas?|ballast|laden|legs?|route|routing|weather|speed|knots?)\b/i;
+
+/** Speed clause that ends a port name: "at 14 knots", "12.5 kn" */
+const SPEED_CLAUSE = String.raw`at \d+|\d+(?:\.\d+)?\s*(?:knots?|kn|kts)\b`;
+
+/** Purpose keywords inside a call's parentheses or after "for" */
+const PURPOSE_PATTERNS: Array<{ purpose: PortCallPurpose; pattern: RegExp }> = [
+  { purpose: 'discharge', pattern: /discharg|unload|\bdisch\b/i },
+  { purpose: 'load', pattern: /\bload(?:ing)?\b/i },
+  { purpose: 'bunker', pattern: /bunker/i },
+  { purpose: 'canal_transit', pattern: /transit/i },
+];
+
+/**
+ * Parse one call: "Colombo (discharge, 2 days)", "Fujairah for bunkers", "AEFJR"
+ */
+function parsePortCall(text: string): ExtractedPortCall | null {
+  const notes = [...text.matchAll(/\(([^)]*)\)/g)].map((m) => m[1]).join(' ');
+  let port = text.replace(/\([^)]*\)/g, ' ');
+
+  // Trailing "for bunkers" / "to load" / "to discharge" clause
+  const forClause = port.match(/\s+(?:for|to)\s+(bunkers?|bunkering|loading|load|discharge|discharging|transit)\b.*$/i);
+  const annotations = `${notes} ${forClause?.[1] ?? ''}`;
+  if (forClause) port = port.slice(0, forClause.index);
+
+  port = port.replace(/^(?:the\s+)?(?:port\s+of\s+)/i, '').replace(/\s+/g, ' ').trim();
+  if (!port || PASSAGE_NAME.test(port) || NON_PORT_TERM.test(port)) return null;
+
+  const call: ExtractedPortCall = { port };
+  const purpose = PURPOSE_PATTERNS.find(({ pattern }) => pattern.test(annotations));
+  if (purpose) call.purpose = purpose.purpose;
+
+  const stay = annotations.match(/(\d+(?:\.\d+)?)\s*(days?|d|hours?|hrs?|h)\b/i);
+  if (stay) {
+    const value = parseFloat(stay[1]);
+    call.port_stay_hours = /^d/i.test(stay[2]) ? value * 24 : value;
+  }
+
+  if (/\bballast\b/i.test(annotations)) call.departure_condition = 'ballast';
+  else if (/\bladen\b/i.test(annotations)) call.departure_condition = 'laden';
+  return call;
+}
+
+/**
+ * Fill departure conditions implied by cargo operations: laden after a load port,
+ * ballast after the last discharge port
+ */
+function applyCargoConditions(calls: ExtractedPortCall[]): void {
+  const lastDischarge = calls.map((c) => c.purpose).lastIndexOf('discharge');
+  calls.forEach((call, i) => {
+    if (call.departure_condition) return;
+    if (call.purpose === 'load') call.departure_condition = 'laden';
+    else if (i === lastDischarge && !calls.slice(i + 1).some((c) => c.purpose === 'load')) {
+      call.departure_condition = 'ballast';
+    }
+  });
+}
+
+/**
+ * "A → B → C" chain (at least three calls)
+ */
+function extractArrowChain(query: string): ExtractedItinerary | null {
+  const parts = query.split(ARROW);
+  if (parts.length < 3) return null;
+
+  // Text before the first call and after the last one belongs to the sentence, not the port
+  const first = parts[0].split(/\b(?:from|for|voyage|route|itinerary|rotation)\b|[:,]/i).pop() ?? '';
+  const last = parts[parts.length - 1].split(
+    new RegExp(String.raw`[,;?!]|\.(?:\s|$)|\s(?:(?:with|departing|on|speed|using)\b|${SPEED_CLAUSE})`, 'i')
+  )[0];
+  const calls = [first, ...parts.slice(1, -1), last]
+    .map(parsePortCall)
+    .filter((call): call is ExtractedPortCall => call !== null);
+  if (calls.length < 3) return null;
+
+  applyCargoConditions(calls);
+  return { origin: calls[0], destination: calls[calls.length - 1], via: calls.slice(1, -1) };
+}
+
+/**
+ * "from A to D via B and C", "from A via B, C to D", "A to D calling at B"
+ */
+function extractViaClause(query: string): ExtractedItinerary | null {
+  const viaMatch = query.match(
+    new RegExp(
+      String.raw`\b(?:via|calling at|with (?:port )?calls? (?:at|in)|stopping (?:at|in)|calls? at)\s+(.+?)(?=\s+(?:(?:to|and then to|then to|from|before|departing|on|with|speed)\b|${SPEED_CLAUSE})|[;?!]|\.(?:\s|$)|$)`,
+      'i'
+    )
+  );
+  if (!viaMatch) return null;
+
+  const via = viaMatch[1]
+    .split(/\s*,\s*(?:and\s+|then\s+)?|\s+(?:and|then)\s+/i)
+    .map(parsePortCall)
+    .filter((call): call is ExtractedPortCall => call !== null);
+  if (via.length === 0) return null;
+
+  const rest = query.replace(viaMatch[0], ' ').replace(/\s+/g, ' ');
+  const endpoints = rest.match(
+    new RegExp(
+      String.raw`\bfrom\s+(.+?)\s+to\s+(.+?)(?=\s*[,;?!]|\.(?:\s|$)|\s+(?:(?:with|departing|on|speed|using|and)\b|${SPEED_CLAUSE})|$)`,
+      'i'
+    )
+  );
+  const origin = endpoints ? parsePortCall(endpoints[1]) ?? undefined : undefined;
+  const destination = endpoints ? parsePortCall(endpoints[2]) ?? undefined : undefined;
+
+  const calls = [origin, ...via, destination].filter((call): call is ExtractedPortCall => call !== undefined);
+  applyCargoConditions(calls);
+  return { origin, destination, via };
+}
+
+/**
+ * Extract a multi-port itinerary from a user query.
+ *
+ * Patterns:
+ * - Arrow chains: "SGSIN → LKCMB → NLRTM", "Santos -> Cape Town (bunker) -> Qingdao"
+ * - Intermediate calls: "via Colombo and Jeddah", "calling at Fujairah for bunkers", "stopping at Port Said"
+ * - Per-call notes in parentheses: purpose (load/discharge/bunker/transit), stay ("2 days", "36h"), laden/ballast
+ *
+ * Canals, straits and capes ("via Suez", "via the Cape of Good Hope") are route passages and are
+ * left to extractRouteConstraints.
+ *
+ * @param query - User message text
+ * @returns Itinerary with at least one intermediate call, or null for a single origin → destination voyage
+ */
+export function extractItinerary(query: string): ExtractedItinerary | null {
+  const q = query.replace(/\s+/g, ' ').trim();
+  return extractArrowChain(q) ?? extractViaClause(q);
+}
@@ -0,0 +1,59 @@
+/**
+ * Extracts route constraints from a natural language query.
+ * Used by the route agent, e.g. "avoid the Red Sea" or "compare Suez vs Cape of Good Hope".
+ */
+
+import type { SeaPassage } from '@/lib/engines/sea-routing-engine';
+
+export interface RouteConstraints {
+  /** Passages the route must not use */
+  avoid: SeaPassage[];
+  /** Calculate route alternatives for comparison */
+  compare_alternatives: boolean;
+}
+
+/** Passage name patterns (after "avoid", "avoiding", "not via", "without") */
+const PASSAGE_PATTERNS: Array<{ passage: SeaPassage; pattern: RegExp }> = [
+  { passage: 'red_sea', pattern: /red sea|gulf of aden|bab[\s-]el[\s-]mandeb|high[\s-]risk (?:area|zone)s?|war[\s-]risk (?:area|zone)s?|houthi/ },
+  { passage: 'suez_canal', pattern: /suez/ },
+  { passage: 'panama_canal', pattern: /panama/ },
+  { passage: 'strait_of_hormuz', pattern: /hormuz/ },
+  { passage: 'malacca_strait', pattern: /malacca/ },
+];
+
+/**
+ * Extract route constraints from a user query.
+ *
+ * Patterns:
+ * - Avoidance: "avoid the Red Sea", "avoiding high-risk areas", "not via Suez", "without Panama"
+ * - Cape routing: "via the Cape of Good Hope" (avoids Suez), "via Cape Horn" (avoids Panama)
+ * - Comparison: "route alternatives", "compare routes", "Suez vs Cape", "Panama or Cape Horn"
+ *
+ * @param query - User message text
+ * @returns Passages to avoid and whether to compare alternatives
+ */
+export function extractRouteConstraints(query: string): RouteConstraints {
+  const q = query.replace(/\s+/g, ' ').trim().toLowerCase();
+  const avoid = new Set<SeaPassage>();
+
+  // Text after each avoidance keyword, up to the next clause
+  const avoidClauses = q.matchAll(/\b(?:avoid(?:ing)?|not (?:via|through)|without|bypass(?:ing)?|skip(?:ping)?)\s+([^,.;?!]+)/g);
+  for (const clause of avoidClauses) {
+    for (const { passage, pattern } of PASSAGE_PATTERNS) {
+      if (pattern.test(clause[1])) avoid.add(passage);
+    }
+  }
+
+  // Cape routing implies avoiding the canal it replaces
+  const viaCape = /\b(?:via|around|round|through) (?:the )?cape\b/;
+  if (viaCape.test(q) && !/\bvs\.?\s|versus|compare|\bor\s/.test(q)) {
+    if (/cape horn/.test(q)) avoid.add('panama_canal');
+    else avoid.add('suez_canal');
+  }
+
+  const compareAlternatives =
+    /\balternative routes?|route alternatives?|compare (?:the )?routes?|route comparison|which route/.test(q) ||
+    /(?:suez|panama|canal|cape)\b.*\b(?:vs\.?|versus|or)\s.*\b(?:suez|panama|canal|cape)/.test(q);
+
+  return { avoid: [...avoid], compare_alternatives: compareAlternatives };
+}
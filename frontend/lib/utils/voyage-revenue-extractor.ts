@@ -0,0 +1,81 @@
+/**
+ * Extracts voyage revenue terms (freight rate, cargo quantity, lumpsum, hire, commissions)
+ * from a natural language query. Used by the bunker agent (vessel-specific TCE) and the
+ * vessel selection agent (TCE ranking).
+ */
+
+import type { VoyageRevenueTerms } from '@/lib/engines/voyage-estimate-engine';
+import { extractCharterPartyTerms } from './charter-party-extractor';
+
+const AMOUNT = String.raw`([\d,]+(?:\.\d+)?)`;
+const USD = String.raw`(?:USD|US\$|\$)`;
+const PER_MT = String.raw`(?:\/|per)\s*(?:mt|metric tons?|tonnes?|tons?|t)\b`;
+const MT = String.raw`(?:mt|metric tons?|tonnes?|tons?)\b`;
+
+function toAmount(text: string, multiplier?: string): number {
+  const value = parseFloat(text.replace(/,/g, ''));
+  const unit = multiplier?.toLowerCase();
+  if (unit === 'k') return value * 1_000;
+  if (unit === 'm' || unit === 'mn' || unit === 'million') return value * 1_000_000;
+  return value;
+}
+
+/**
+ * Extract voyage revenue terms from a query; null when it states no freight rate, lumpsum or hire.
+ *
+ * Patterns:
+ * - Freight rate: "at $24.50/mt freight", "freight $24.50 per mt", "freight rate of 24.5 USD/mt"
+ * - Cargo: "cargo of 55,000 mt", "55,000 mt cargo", "55k mt of coal"
+ * - Lumpsum: "lumpsum $1.2m", "lump sum freight of USD 1,200,000"
+ * - Hire: "hire $14,500/day" (as in charter-party terms)
+ * - Commissions: "3.75% address commission", "brokerage 1.25%"
+ *
+ * @param query - User message
+ */
+export function extractVoyageRevenue(query: string): VoyageRevenueTerms | null {
+  const q = query.replace(/\s+/g, ' ').trim();
+  const terms: VoyageRevenueTerms = {};
+
+  const freight =
+    q.match(new RegExp(String.raw`${USD}\s*${AMOUNT}\s*(?:USD\s*)?${PER_MT}\s*(?:of\s+)?freight`, 'i')) ??
+    q.match(new RegExp(String.raw`\bfreight(?: rate)?(?: of| at| is)?\s*${USD}?\s*${AMOUNT}\s*(?:USD\s*)?${PER_MT}`, 'i'));
+  if (freight) {
+    const rate = toAmount(freight[1]);
+    if (rate > 0) terms.freight_usd_per_mt = rate;
+  }
+
+  const lumpsum = q.match(
+    new RegExp(String.raw`\blump\s*-?\s*sum(?: freight)?(?: of| at| is)?\s*${USD}?\s*${AMOUNT}\s*(k|mn|m|million)?\b`, 'i')
+  );
+  if (lumpsum) {
+    const amount = toAmount(lumpsum[1], lumpsum[2]);
+    if (amount > 0) terms.lumpsum_usd = amount;
+  }
+
+  const cargo =
+    q.match(new RegExp(String.raw`\bcargo(?: of| quantity| qty)?\s*:?\s*${AMOUNT}\s*(k)?\s*${MT}`, 'i')) ??
+    q.match(new RegExp(String.raw`${AMOUNT}\s*(k)?\s*${MT}\s*(?:of\s+)?(?:[a-z]+\s+)?cargo\b`, 'i')) ??
+    q.match(new RegExp(String.raw`${AMOUNT}\s*(k)?\s*${MT}\s*of\s+(?!fuel|bunkers?|vlsfo|hsfo|lsmgo|mgo)[a-z]+`, 'i'));
+  if (cargo) {
+    const mt = toAmount(cargo[1], cargo[2]);
+    if (mt > 0) terms.cargo_mt = mt;
+  }
+
+  const hire = extractCharterPartyTerms(q).daily_hire_usd;
+  if (hire != null) terms.daily_hire_usd = hire;
+
+  const addcomm =
+    q.match(/(\d+(?:\.\d+)?)\s*%\s*(?:address commission|add(?:ress)?\.?\s*comm?\.?|adcom)/i) ??
+    q.match(/(?:address commission|adcom)\s*(?:of\s*)?(\d+(?:\.\d+)?)\s*%/i);
+  if (addcomm) terms.address_commission_percent = parseFloat(addcomm[1]);
+
+  const brokerage =
+    q.match(/(\d+(?:\.\d+)?)\s*%\s*(?:brokerage|broker(?:'s)? commission)/i) ??
+    q.match(/(?:brokerage|broker(?:'s)? commission)\s*(?:of\s*)?(\d+(?:\.\d+)?)\s*%/i);
+  if (brokerage) terms.brokerage_percent = parseFloat(brokerage[1]);
+
+  if (terms.freight_usd_per_mt == null && terms.lumpsum_usd == null && terms.daily_hire_usd == null) {
+    return null;
+  }
+  return terms;
+}
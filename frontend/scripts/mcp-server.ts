@@ -0,0 +1,30 @@
+/**
+ * FuelSense Tools MCP Server (stdio)
+ *
+ * Serves the Tool Registry to MCP clients over stdio. Configure the client to launch:
+ *   command: npx, args: ["tsx", "scripts/mcp-server.ts"], cwd: <repo>/frontend
+ *
+ * Run with: npm run mcp:stdio
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+// quiet: stdout is reserved for protocol messages
+config({ path: resolve(process.cwd(), '.env.local'), quiet: true });
+
+import { getToolRegistryMCPServer } from '@/lib/mcp/tool-registry-mcp-server';
+import { serveStdio } from '@/lib/mcp/stdio-transport';
+
+async function main() {
+  // Route startup logs (config and tool registration) to stderr
+  console.log = (...args: unknown[]) => console.error(...args);
+
+  const server = await getToolRegistryMCPServer();
+  console.error('🔌 [MCP-SERVER] FuelSense tools MCP server listening on stdio');
+  await serveStdio(server);
+}
+
+main().catch((error) => {
+  console.error('❌ [MCP-SERVER] Fatal error:', error);
+  process.exit(1);
+});
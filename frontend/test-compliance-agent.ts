@@ -46,7 +46,10 @@ async function testComplianceAgent() {
         correlation_id: 'test-correlation-id',
         next_agent: '',
         route_data: null,
+        route_alternatives: null,
+        itinerary: null,
         vessel_timeline: null,
+        jit_arrival_plan: null,
         weather_forecast: null,
         weather_consumption: null,
         port_weather_status: null,
@@ -72,6 +75,7 @@ async function testComplianceAgent() {
         synthesized_insights: null,
         agent_errors: {},
         agent_status: {},
+        business_rules_trace: [],
         agent_context: null,
         selected_route_id: null,
         weather_agent_partial: false,
@@ -87,6 +91,8 @@ async function testComplianceAgent() {
         vessel_profile: null,
         hull_performance: null,
         hull_performance_charts: null,
+        cii_rating: null,
+        cp_performance: null,
         agent_call_counts: {
           route_agent: 0,
           weather_agent: 0,
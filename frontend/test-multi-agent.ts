@@ -41,7 +41,10 @@ async function testMultiAgent() {
         correlation_id: 'test-correlation-id',
         next_agent: '',
         route_data: null,
+        route_alternatives: null,
+        itinerary: null,
         vessel_timeline: null,
+        jit_arrival_plan: null,
         weather_forecast: null,
         weather_consumption: null,
         port_weather_status: null,
@@ -67,6 +70,7 @@ async function testMultiAgent() {
         synthesized_insights: null,
         agent_errors: {},
         agent_status: {},
+        business_rules_trace: [],
         agent_context: null,
         selected_route_id: null,
         weather_agent_partial: false,
@@ -82,6 +86,8 @@ async function testMultiAgent() {
         vessel_profile: null,
         hull_performance: null,
         hull_performance_charts: null,
+        cii_rating: null,
+        cp_performance: null,
         agent_call_counts: {
           route_agent: 0,
           weather_agent: 0,
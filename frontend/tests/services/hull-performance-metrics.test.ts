@@ -6,6 +6,7 @@
  * - Single point returns that point's value
  * - Two or more points: last y of linear regression
  * - 6-month window filter
+ * - Weighted fit (noon report validation weights)
  */
 
 import { getExcessPowerAndSpeedLossFromBestFit } from '@/lib/services/hull-performance-metrics';
@@ -195,4 +196,24 @@ describe('getExcessPowerAndSpeedLossFromBestFit', () => {
     expect(result.excessPowerPct).toBeLessThan(25);
     expect(result.speedLossPct).toBeLessThan(5);
   });
+
+  it('weights points in the fit and ignores zero-weight records', () => {
+    const [r1, r2, r3] = ['2025-01-10', '2025-01-11', '2025-01-12'].map((date, i) =>
+      buildMockHullPerformanceResponse({
+        report_date: `${date}T00:00:00Z`,
+        hull_roughness_power_loss: i === 2 ? 16 : 10,
+        hull_roughness_speed_loss: 2,
+      })
+    );
+    const unweighted = getExcessPowerAndSpeedLossFromBestFit([r1, r2, r3], { months: 6 });
+    expect(unweighted.excessPowerPct).toBeCloseTo(15, 6);
+
+    const weights = new Map([[r1, 1], [r2, 1], [r3, 0]]);
+    expect(getExcessPowerAndSpeedLossFromBestFit([r1, r2, r3], { months: 6, weights }).excessPowerPct).toBeCloseTo(10, 6);
+
+    weights.set(r3, 0.5);
+    const downWeighted = getExcessPowerAndSpeedLossFromBestFit([r1, r2, r3], { months: 6, weights }).excessPowerPct;
+    expect(downWeighted).toBeGreaterThan(10);
+    expect(downWeighted).toBeLessThan(15);
+  });
 });
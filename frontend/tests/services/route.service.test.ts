@@ -6,6 +6,9 @@
  * - ECA zone detection
  * - Timeline calculation
  * - Error handling
+ * - Route alternatives and passage avoidance
+ * - Port call deviation from sea distances
+ * - Multi-port itinerary routes
  */
 
 import { RouteService } from '@/lib/services/route.service';
@@ -13,7 +16,8 @@ import { PortRepository } from '@/lib/repositories/port-repository';
 import { RedisCache } from '@/lib/repositories/cache-client';
 import { SeaRouteAPIClient } from '@/lib/services/sea-route-api-client';
 import type { RouteData, Waypoint } from '@/lib/services/types';
-import { Port } from '@/lib/repositories/types';
+import { Port, type IWorldPortRepository } from '@/lib/repositories/types';
+import { haversineDistance } from '@/lib/utils/coordinate-validator';
 
 // Mock dependencies
 jest.mock('@/lib/repositories/port-repository');
@@ -314,5 +318,166 @@ describe('RouteService', () => {
         })
       ).rejects.toThrow();
     });
+
+    it('should fall back to offline sea routing when the API fails', async () => {
+      const worldPortRepo = {
+        findByCode: jest.fn(async (code: string) => (code === 'SGSIN' ? mockOriginPort : mockDestPort)),
+      } as unknown as IWorldPortRepository;
+      routeService = new RouteService(mockPortRepo, mockCache, mockSeaRouteAPI, worldPortRepo);
+      mockCache.get.mockResolvedValue(null);
+      mockSeaRouteAPI.calculateRoute.mockRejectedValue(new Error('API error'));
+
+      const result = await routeService.calculateRoute({
+        origin: 'SGSIN',
+        destination: 'NLRTM',
+        speed: 14,
+        departureDate: new Date('2025-01-26T00:00:00Z'),
+      });
+
+      expect(result.totalDistanceNm).toBeGreaterThan(8100);
+      expect(result.totalDistanceNm).toBeLessThan(8600);
+      expect(result.waypoints[0].coordinates).toEqual([1.2897, 103.8501]);
+      expect(result.routeType).toBe('via Suez Canal');
+    });
+  });
+
+  describe('route alternatives', () => {
+    const params = {
+      origin: 'SGSIN',
+      destination: 'NLRTM',
+      speed: 14,
+      departureDate: new Date('2025-01-26T00:00:00Z'),
+    };
+
+    beforeEach(() => {
+      const worldPortRepo = {
+        findByCode: jest.fn(async (code: string) => (code === 'SGSIN' ? mockOriginPort : mockDestPort)),
+      } as unknown as IWorldPortRepository;
+      routeService = new RouteService(mockPortRepo, mockCache, mockSeaRouteAPI, worldPortRepo);
+      mockCache.get.mockResolvedValue(null);
+    });
+
+    it('routes offline around avoided passages without calling the API', async () => {
+      const result = await routeService.calculateRoute({ ...params, avoid: ['red_sea'] });
+
+      expect(mockSeaRouteAPI.calculateRoute).not.toHaveBeenCalled();
+      expect(result.routeType).toBe('via Cape of Good Hope');
+      expect(result.routeId).toBe('SGSIN-NLRTM-cape_of_good_hope');
+      expect(result.passages).not.toContain('red_sea');
+      expect(result.canalTollUsd).toBe(0);
+      expect(mockCache.set).toHaveBeenCalledWith(
+        'fuelsense:route:SGSIN-NLRTM-14:avoid=red_sea',
+        expect.anything(),
+        expect.any(Number)
+      );
+    });
+
+    it('returns the Suez route and the Cape of Good Hope alternative', async () => {
+      mockSeaRouteAPI.calculateRoute.mockRejectedValue(new Error('API error'));
+
+      const routes = await routeService.calculateRouteAlternatives(params);
+
+      expect(routes.map((r) => r.routeId)).toEqual(['SGSIN-NLRTM-suez_canal', 'SGSIN-NLRTM-cape_of_good_hope']);
+      expect(routes[0].canalTollUsd).toBeGreaterThan(0);
+      expect(routes[1].totalDistanceNm).toBeGreaterThan(routes[0].totalDistanceNm + 2500);
+    });
+  });
+
+  describe('itinerary route', () => {
+    const mockFujairah: Port = {
+      id: 'AEFJR',
+      code: 'AEFJR',
+      name: 'Fujairah',
+      country: 'AE',
+      coordinates: [25.1164, 56.3414],
+      bunkerCapable: true,
+      fuelsAvailable: ['VLSFO', 'MGO'],
+      timezone: 'Asia/Dubai',
+    };
+    const ports: Record<string, Port> = { SGSIN: mockOriginPort, AEFJR: mockFujairah, NLRTM: mockDestPort };
+    const departureDate = new Date('2025-01-26T00:00:00Z');
+
+    beforeEach(() => {
+      const worldPortRepo = {
+        findByCode: jest.fn(async (code: string) => ports[code] ?? null),
+      } as unknown as IWorldPortRepository;
+      routeService = new RouteService(mockPortRepo, mockCache, mockSeaRouteAPI, worldPortRepo);
+      mockCache.get.mockResolvedValue(null);
+      mockSeaRouteAPI.calculateRoute.mockRejectedValue(new Error('API error'));
+    });
+
+    it('joins the legs between consecutive calls into one route', async () => {
+      const route = await routeService.calculateItineraryRoute({
+        calls: [{ code: 'SGSIN' }, { code: 'AEFJR', portStayHours: 24 }, { code: 'NLRTM' }],
+        speed: 14,
+        departureDate,
+      });
+
+      const [first, second] = route.legs!;
+      expect(route.legs).toHaveLength(2);
+      expect(first.destination.port_code).toBe('AEFJR');
+      expect(first.endWaypointIndex).toBe(second.startWaypointIndex);
+      expect(second.endWaypointIndex).toBe(route.waypoints.length - 1);
+      expect(first.portStayHours).toBe(24);
+      expect(second.portStayHours).toBe(0);
+      expect(route.totalDistanceNm).toBeCloseTo(first.distanceNm + second.distanceNm, 6);
+      expect(route.estimatedHours).toBeCloseTo(first.estimatedHours + second.estimatedHours, 6);
+      expect(route.waypoints[route.waypoints.length - 1].distanceFromStartNm).toBeCloseTo(route.totalDistanceNm, 0);
+      expect(route.routeId).toBe('SGSIN-AEFJR-NLRTM-suez_canal');
+
+      // Second leg departs after the Fujairah stay
+      const secondLegDeparture = departureDate.getTime() + (first.estimatedHours + 24) * 3600000;
+      expect(route.timeline[second.startWaypointIndex + 1].eta.getTime()).toBeGreaterThanOrEqual(secondLegDeparture);
+    });
+
+    it('requires at least two calls', async () => {
+      await expect(
+        routeService.calculateItineraryRoute({ calls: [{ code: 'SGSIN' }], speed: 14, departureDate })
+      ).rejects.toThrow('at least two port calls');
+    });
+  });
+
+  describe('port call deviation', () => {
+    // Route along the equator, one waypoint per degree (~60nm apart); port 1° north of waypoint 3
+    const waypoints = Array.from({ length: 11 }, (_, i) => ({ lat: 0, lon: i }));
+    const port = { lat: 1, lon: 3 };
+    const greatCircle = (from: [number, number], to: [number, number]) =>
+      haversineDistance({ lat: from[0], lon: from[1] }, { lat: to[0], lon: to[1] });
+
+    beforeEach(() => {
+      mockCache.get.mockResolvedValue(null);
+    });
+
+    it('rejoins at the downstream waypoint that minimises the extra distance', async () => {
+      mockSeaRouteAPI.calculateRoute.mockImplementation(async ({ from, to }) => ({
+        distance: greatCircle(from as [number, number], to as [number, number]),
+        geometry: [],
+        duration: 0,
+      }));
+
+      const deviation = await routeService.calculatePortCallDeviation(waypoints, port, 3);
+
+      expect(deviation.inLegNm).toBeCloseTo(60, 0);
+      expect(deviation.rejoinWaypointIndex).toBe(5);
+      // 60 in + √(60² + 120²) out − 120 along the route, well below the 120nm round trip
+      expect(deviation.deviationNm).toBeCloseTo(74.2, 0);
+      expect(mockCache.set).toHaveBeenCalledWith(
+        'fuelsense:sea-distance:0.000,3.000-1.000,3.000',
+        expect.any(Number),
+        86400
+      );
+    });
+
+    it('returns to the leaving waypoint when downstream legs are longer (e.g. behind an island)', async () => {
+      mockSeaRouteAPI.calculateRoute.mockImplementation(async ({ to }) => {
+        const rejoinDownstream = Array.isArray(to) && to[1] > 3;
+        return { distance: rejoinDownstream ? 400 : 60, geometry: [], duration: 0 };
+      });
+
+      const deviation = await routeService.calculatePortCallDeviation(waypoints, port, 3);
+
+      expect(deviation.rejoinWaypointIndex).toBe(3);
+      expect(deviation.deviationNm).toBe(120);
+    });
   });
 });
@@ -0,0 +1,231 @@
+/**
+ * Supplier Quote Service tests.
+ * - JSON/CSV ingest and validation, quote evaluation for a stem (min/max stem, validity, delivery charge),
+ *   bunker analyzer choosing supplier + port, stem nomination and CSV export.
+ */
+
+import { bunkerDataService } from '@/lib/services/bunker-data-service';
+import { SupplierQuoteService, SupplierQuoteError, supplierQuoteService } from '@/lib/services/supplier-quote-service';
+import { analyzeBunkerOptions } from '@/lib/tools/bunker-analyzer';
+import type { FoundPort } from '@/lib/tools/port-finder';
+import type { PriceData, PriceFetcherOutput } from '@/lib/tools/price-fetcher';
+
+const VALID_FROM = '2026-04-01T00:00:00.000Z';
+const VALID_UNTIL = '2026-04-10T00:00:00.000Z';
+const DELIVERY = '2026-04-05T00:00:00.000Z';
+
+const CSV = [
+  'supplier,port_code,fuel_type,price_per_mt,min_stem_mt,max_stem_mt,delivery_mode,delivery_charge_usd,valid_from,valid_until',
+  `"Alpha Marine, Pte",SGSIN,VLSFO,610,300,3000,barge,2000,${VALID_FROM},${VALID_UNTIL}`,
+  `Bravo Bunkers,SGSIN,VLSFO,605,1500,5000,barge,,${VALID_FROM},${VALID_UNTIL}`,
+  `Charlie Oil,SGSIN,IFO380,450,200,2000,pipe,,${VALID_FROM},${VALID_UNTIL}`,
+  `Delta Fuels,SGSIN,VLSFO,-1,100,1000,truck,,${VALID_FROM},${VALID_UNTIL}`,
+].join('\n');
+
+describe('SupplierQuoteService', () => {
+  let service: SupplierQuoteService;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    service = new SupplierQuoteService();
+  });
+
+  describe('ingest', () => {
+    it('parses CSV with quoted fields, normalizes HSFO grade names and rejects invalid rows', () => {
+      const result = service.ingestCsv(CSV);
+
+      expect(result.accepted.map((q) => q.supplier)).toEqual(['Alpha Marine, Pte', 'Bravo Bunkers', 'Charlie Oil']);
+      expect(result.accepted[0]).toMatchObject({ currency: 'USD', delivery_charge_usd: 2000, delivery_mode: 'barge' });
+      expect(result.accepted[1].delivery_charge_usd).toBeUndefined();
+      expect(result.accepted[2].fuel_type).toBe('HSFO');
+      expect(result.rejected).toEqual([{ index: 3, reason: expect.stringMatching(/price_per_mt/) }]);
+      expect(service.getQuotes({ port: 'sgsin', fuel_type: 'VLSFO' })).toHaveLength(2);
+    });
+
+    it('validates JSON quotes and replaces a quote with the same id', () => {
+      const quote = {
+        quote_id: 'Q1',
+        supplier: 'Echo',
+        port_code: 'aefjr',
+        fuel_type: 'LSGO',
+        price_per_mt: 800,
+        max_stem_mt: 500,
+        delivery_mode: 'barge',
+        valid_from: VALID_FROM,
+        valid_until: VALID_UNTIL,
+      };
+      service.ingestQuotes([quote]);
+      const again = service.ingestQuotes([{ ...quote, price_per_mt: 790 }, { ...quote, quote_id: 'Q2', delivery_mode: 'ship' }]);
+
+      expect(again.accepted).toHaveLength(1);
+      expect(again.rejected[0].reason).toMatch(/delivery_mode/);
+      expect(service.getQuotes({ port: 'AEFJR', fuel_type: 'LSMGO' }).map((q) => q.price_per_mt)).toEqual([790]);
+      expect(() => service.ingestCsv('supplier')).toThrow(SupplierQuoteError);
+    });
+  });
+
+  describe('evaluateQuotes', () => {
+    it('ranks eligible quotes by delivered cost and explains ineligible ones', () => {
+      service.ingestCsv(CSV);
+
+      const small = service.evaluateQuotes('SGSIN', 'VLSFO', 1000, DELIVERY);
+      // Bravo's minimum stem is 1500 MT
+      expect(small.map((o) => [o.supplier, o.eligible])).toEqual([
+        ['Alpha Marine, Pte', true],
+        ['Bravo Bunkers', false],
+      ]);
+      expect(small[0].delivered_price_per_mt).toBeCloseTo(612, 6);
+      expect(small[1].reason).toMatch(/below minimum 1500 MT/);
+
+      // 2000 MT: Bravo 1,210,000 vs Alpha 1,222,000
+      expect(service.evaluateQuotes('SGSIN', 'VLSFO', 2000, DELIVERY)[0].supplier).toBe('Bravo Bunkers');
+
+      const late = service.evaluateQuotes('SGSIN', 'VLSFO', 1000, '2026-04-20T00:00:00.000Z');
+      expect(late.every((o) => !o.eligible)).toBe(true);
+      expect(late.find((o) => o.supplier === 'Alpha Marine, Pte')?.reason).toMatch(/outside validity/);
+    });
+  });
+
+  describe('nominations', () => {
+    it('creates a draft nomination from supplier options and exports CSV', () => {
+      service.ingestCsv(CSV);
+      const [vlsfo] = service.evaluateQuotes('SGSIN', 'VLSFO', 1000, DELIVERY);
+
+      const nomination = service.createNomination({
+        port_code: 'SGSIN',
+        port_name: 'Singapore',
+        delivery_date: DELIVERY,
+        grades: [
+          { fuel_type: 'VLSFO', quantity_mt: 1000, supplier: vlsfo },
+          { fuel_type: 'LSMGO', quantity_mt: 50 },
+        ],
+        vessel: { imo: '9876543', name: 'Ocean Test' },
+      });
+
+      expect(nomination).toMatchObject({ status: 'draft', total_value_usd: 612000, unquoted_grades: ['LSMGO'] });
+      expect(service.listNominations()).toHaveLength(1);
+
+      const csv = service.exportNominationCsv(nomination!.nomination_id).trim().split('\n');
+      expect(csv).toHaveLength(2);
+      expect(csv[1]).toContain('"Alpha Marine, Pte"');
+      expect(csv[1]).toContain('9876543,Ocean Test,SGSIN,Singapore');
+      expect(service.createNomination({ port_code: 'X', port_name: 'X', delivery_date: DELIVERY, grades: [] })).toBeNull();
+      expect(() => service.exportNominationCsv('missing')).toThrow(/not found/);
+    });
+
+    it('exports supplier names and quote ids that look like formulas as text', () => {
+      service.ingestQuotes([
+        {
+          quote_id: '@SUM(A1:A9)',
+          supplier: '=HYPERLINK("http://evil.test","Alpha")',
+          port_code: 'SGSIN',
+          fuel_type: 'VLSFO',
+          price_per_mt: 600,
+          max_stem_mt: 3000,
+          delivery_mode: 'barge',
+          valid_from: VALID_FROM,
+          valid_until: VALID_UNTIL,
+        },
+      ]);
+      const [option] = service.evaluateQuotes('SGSIN', 'VLSFO', 1000, DELIVERY);
+      const nomination = service.createNomination({
+        port_code: 'SGSIN',
+        port_name: 'Singapore',
+        delivery_date: DELIVERY,
+        grades: [{ fuel_type: 'VLSFO', quantity_mt: 1000, supplier: option }],
+        vessel: { name: '-Ocean Test' },
+      });
+
+      const row = service.exportNominationCsv(nomination!.nomination_id).trim().split('\n')[1];
+      expect(row).toContain(`,'-Ocean Test,`);
+      expect(row).toContain(`,"'=HYPERLINK(""http://evil.test"",""Alpha"")",'@SUM(A1:A9),`);
+    });
+
+    it('updates the same draft when an analysis is repeated and keeps at most 100 drafts', () => {
+      service.ingestCsv(CSV);
+      const [vlsfo] = service.evaluateQuotes('SGSIN', 'VLSFO', 1000, DELIVERY);
+      const draft = (quantityMt: number, deliveryDate = DELIVERY) =>
+        service.createNomination({
+          port_code: 'SGSIN',
+          port_name: 'Singapore',
+          delivery_date: deliveryDate,
+          grades: [{ fuel_type: 'VLSFO', quantity_mt: quantityMt, supplier: vlsfo }],
+          vessel: { imo: '9876543' },
+        });
+
+      const first = draft(1000);
+      // No ETA: the analysis falls back to the current time on the same day
+      const second = draft(1000, '2026-04-05T09:30:00.000Z');
+
+      expect(second!.nomination_id).toBe(first!.nomination_id);
+      expect(service.listNominations()).toHaveLength(1);
+
+      for (let i = 1; i <= 120; i++) draft(i);
+      const ids = service.listNominations().map((n) => n.nomination_id);
+      expect(ids).toHaveLength(100);
+      expect(ids).not.toContain(first!.nomination_id);
+    });
+  });
+});
+
+describe('analyzeBunkerOptions with supplier quotes', () => {
+  const foundPort = (code: string, name: string): FoundPort => ({
+    port: { port_code: code, name, country: '', coordinates: { lat: 0, lon: 0 }, fuel_capabilities: ['VLSFO'] },
+    distance_from_route_nm: 0,
+    nearest_waypoint_index: 0,
+    nearest_waypoint: { lat: 0, lon: 0 },
+    deviation_nm: 0,
+    deviation_method: 'port_call',
+  });
+  const price = (price_per_mt: number): PriceData => ({
+    price: { fuel_type: 'VLSFO', price_per_mt, currency: 'USD' },
+    hours_since_update: 48,
+    is_fresh: false,
+    formatted_price: `$${price_per_mt}/MT`,
+  });
+  const portPrices: PriceFetcherOutput = {
+    prices_by_port: { SGSIN: [price(620)], AEFJR: [price(615)] },
+    total_prices: 2,
+    ports_with_prices: 2,
+    ports_not_found: [],
+    stale_price_warnings: [],
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    // No price history: ports without a quote stay at their index price
+    jest.spyOn(bunkerDataService, 'fetchHistoricalBunkerPrices').mockResolvedValue([]);
+  });
+
+  afterAll(() => {
+    supplierQuoteService.clearQuotes();
+    jest.restoreAllMocks();
+  });
+
+  it('chooses the supplier and port from eligible quotes valid at the ETA', async () => {
+    supplierQuoteService.ingestCsv(CSV);
+
+    const result = await analyzeBunkerOptions({
+      bunker_ports: [foundPort('AEFJR', 'Fujairah'), foundPort('SGSIN', 'Singapore')],
+      port_prices: portPrices,
+      fuel_quantity_mt: 1000,
+      port_arrival_dates: { SGSIN: DELIVERY, AEFJR: DELIVERY },
+    });
+
+    const best = result.best_option;
+    expect(best.port_code).toBe('SGSIN');
+    expect(best.fuels[0].supplier?.supplier).toBe('Alpha Marine, Pte');
+    expect(best.fuel_price_per_mt).toBeCloseTo(612, 6);
+    expect(best.is_price_stale).toBe(false);
+    expect(best.supplier_options?.map((o) => o.eligible)).toEqual([true, false]);
+    expect(result.analysis_summary).toMatch(/from Alpha Marine, Pte \(barge\)/);
+  });
+});
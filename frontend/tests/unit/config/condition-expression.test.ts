@@ -0,0 +1,138 @@
+/**
+ * Condition Expression Language Unit Tests
+ *
+ * Tests for:
+ * - Paths with null-safe access, length, comparisons, boolean logic and arithmetic
+ * - some/every predicates over arrays
+ * - Referenced identifiers (business rule facts)
+ * - Syntax errors with position; no access to prototypes or function calls
+ * - Every condition in the shipped YAML config compiles
+ *
+ * Run with: npx jest tests/unit/config/condition-expression.test.ts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import {
+  compileCondition,
+  evaluateCondition,
+  validateCondition,
+  ConditionSyntaxError,
+} from '@/lib/config/condition-expression';
+
+const STATE = {
+  route_data: { waypoints: [{ lat: 1 }, { lat: 2 }], estimated_hours: 520 },
+  bunker_analysis: { recommendations: [{ port_name: 'Singapore' }], alternatives: [] },
+  rob_safety_status: { overall_safe: false, minimum_rob_days: 2.5 },
+  cii_rating: { rating: 'D' },
+  hull_performance_charts: { speedConsumption: null },
+  synthesized_insights: {
+    query_type: 'decision-required',
+    critical_risks: [{ severity: 'high' }, { severity: 'critical' }],
+  },
+  port_weather_status: [{ bunkering_feasible: true }, { bunkering_feasible: false }],
+};
+
+describe('condition expression language', () => {
+  it('evaluates paths, length, comparisons and boolean logic against state', () => {
+    expect(evaluateCondition('route_data && route_data.waypoints && route_data.waypoints.length > 0', STATE)).toBe(true);
+    expect(evaluateCondition('rob_safety_status && !rob_safety_status.overall_safe', STATE)).toBe(true);
+    expect(evaluateCondition("cii_rating && (cii_rating.rating === 'D' || cii_rating.rating === 'E')", STATE)).toBe(true);
+    expect(evaluateCondition('synthesized_insights.query_type === "informational"', STATE)).toBe(false);
+    expect(
+      evaluateCondition('!bunker_analysis || !bunker_analysis.alternatives || bunker_analysis.alternatives.length === 0', STATE)
+    ).toBe(true);
+    expect(evaluateCondition('rob_safety_status.minimum_rob_days >= 0 && rob_safety_status.minimum_rob_days < 3', STATE)).toBe(true);
+    expect(evaluateCondition('hull_performance_charts && hull_performance_charts.speedConsumption != null', STATE)).toBe(false);
+  });
+
+  it('treats missing paths as undefined and relational comparisons with them as false', () => {
+    expect(evaluateCondition('weather_forecast.timeline.length > 0', STATE)).toBe(false);
+    expect(evaluateCondition('bunker_analysis.best_option.deviation_cost_usd < 5000', STATE)).toBe(false);
+    expect(evaluateCondition('!multi_bunker_plan', STATE)).toBe(true);
+    expect(compileCondition('missing * 2').evaluate(STATE)).toBeUndefined();
+  });
+
+  it('does arithmetic with precedence and parentheses', () => {
+    const facts = { fuel_price: 700, average_regional_price: 560, rob_after_bunker: 100, total_consumption: 800 };
+    expect(evaluateCondition('fuel_price > (average_regional_price * 1.2)', facts)).toBe(true);
+    expect(evaluateCondition('rob_after_bunker < (total_consumption * 0.15)', facts)).toBe(true);
+    expect(compileCondition('1 + 2 * 3 - 4 / 2 % 3').evaluate({})).toBe(5);
+    expect(compileCondition('-(fuel_price - 750)').evaluate(facts)).toBe(50);
+  });
+
+  it('evaluates some/every predicates over arrays', () => {
+    expect(evaluateCondition("synthesized_insights.critical_risks.some(r => r.severity === 'critical')", STATE)).toBe(true);
+    expect(evaluateCondition("synthesized_insights.critical_risks.every((r) => r.severity === 'critical')", STATE)).toBe(false);
+    expect(evaluateCondition('port_weather_status.some(port => !port.bunkering_feasible)', STATE)).toBe(true);
+    expect(evaluateCondition('cii_rating.some(r => r)', STATE)).toBe(false);
+  });
+
+  it('lists the root identifiers a condition reads, excluding lambda parameters', () => {
+    expect(compileCondition('eca_transit_distance > 0 && mgo_quantity < required_mgo').identifiers).toEqual([
+      'eca_transit_distance',
+      'mgo_quantity',
+      'required_mgo',
+    ]);
+    expect(compileCondition("risks.some(r => r.severity === limit) && true").identifiers).toEqual(['risks', 'limit']);
+  });
+
+  it('rejects invalid expressions with the position of the error', () => {
+    expect(() => compileCondition('fuel_savings >')).toThrow(ConditionSyntaxError);
+    expect(validateCondition('fuel_savings >')).toMatch(/Unexpected end of condition at position 14/);
+    expect(validateCondition('route_data &&& bunker_analysis')).toMatch(/Unexpected character '&' at position 13/);
+    expect(validateCondition("query_type === 'informational")).toMatch(/Unterminated string/);
+    expect(validateCondition('a = 1')).toMatch(/Unexpected character '='/);
+    expect(validateCondition('')).toMatch(/Empty condition/);
+    expect(validateCondition(42)).toBe('Condition must be a string');
+  });
+
+  it('does not allow function calls or reaching prototypes', () => {
+    expect(validateCondition("process.exit(1)")).toMatch(/Method 'exit' is not supported/);
+    expect(validateCondition('route_data.waypoints.map(w => w)')).toMatch(/Method 'map' is not supported/);
+    expect(validateCondition('eval("1")')).toMatch(/Function calls are not supported/);
+    expect(compileCondition('route_data.constructor').evaluate(STATE)).toBeUndefined();
+    expect(compileCondition('route_data.__proto__').evaluate(STATE)).toBeUndefined();
+    expect(compileCondition('toString').evaluate(STATE)).toBeUndefined();
+  });
+});
+
+describe('shipped YAML conditions', () => {
+  const configDir = path.join(process.cwd(), 'config');
+
+  function collectConditions(node: unknown, found: string[]): void {
+    if (Array.isArray(node)) {
+      node.forEach((item) => collectConditions(item, found));
+    } else if (node && typeof node === 'object') {
+      for (const [key, value] of Object.entries(node)) {
+        if (key === 'condition' && typeof value === 'string') found.push(value);
+        else if (key === 'render_conditions' && Array.isArray(value)) found.push(...value);
+        else collectConditions(value, found);
+      }
+    }
+  }
+
+  function yamlFiles(dir: string): string[] {
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return yamlFiles(fullPath);
+      return entry.name.endsWith('.yaml') && !entry.name.startsWith('_') ? [fullPath] : [];
+    });
+  }
+
+  it('compiles every condition in templates, business rules, insights and the component registry', () => {
+    const files = [
+      ...yamlFiles(path.join(configDir, 'response-templates')),
+      ...yamlFiles(path.join(configDir, 'business-rules')),
+      path.join(configDir, 'insights', 'extraction-rules.yaml'),
+      path.join(process.cwd(), 'lib', 'config', 'component-registry.yaml'),
+    ];
+    const conditions: string[] = [];
+    for (const file of files) collectConditions(yaml.load(fs.readFileSync(file, 'utf8')), conditions);
+
+    expect(conditions.length).toBeGreaterThan(50);
+    const invalid = conditions.filter((condition) => validateCondition(condition) !== null);
+    expect(invalid).toEqual([]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Regulatory Zone Registry Unit Tests
+ *
+ * Tests for:
+ * - Loading and validating the shipped GeoJSON files in config/regulatory-zones
+ * - Zones in force at a date (Mediterranean ECA from 2025-05-01, effective_to inclusive)
+ * - Zones containing a position
+ * - Validation errors for malformed files
+ * - ECA zone validator applying the zones in force during the transit
+ *
+ * Run with: npx jest tests/unit/config/regulatory-zone-registry.test.ts
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  RegulatoryZoneRegistry,
+  isEmissionControlArea,
+  isScrubberDischargeBan,
+  resetRegulatoryZoneRegistry,
+  type RegulatoryZone,
+} from '@/lib/config/regulatory-zone-registry';
+import { executeECAZoneValidatorTool } from '@/lib/tools/eca-zone-validator';
+
+const SQUARE = [
+  [0, 0],
+  [10, 0],
+  [10, 10],
+  [0, 10],
+  [0, 0],
+];
+
+function zoneFile(properties: Record<string, unknown>, coordinates: number[][][] = [SQUARE]) {
+  return {
+    type: 'FeatureCollection',
+    features: [{ type: 'Feature', id: 'TEST_ZONE', properties, geometry: { type: 'Polygon', coordinates } }],
+  };
+}
+
+function writeZoneDir(files: Record<string, unknown>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'regulatory-zones-'));
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), JSON.stringify(content));
+  }
+  return dir;
+}
+
+describe('RegulatoryZoneRegistry', () => {
+  const registry = RegulatoryZoneRegistry.fromDirectory();
+
+  it('loads the shipped emission control areas and scrubber discharge bans', () => {
+    const zones = registry.getAllZones();
+    expect(zones.filter(isEmissionControlArea).map((zone) => zone.id)).toEqual(
+      expect.arrayContaining(['NORTH_SEA_BALTIC', 'NORTH_AMERICA_EAST', 'MEDITERRANEAN'])
+    );
+    expect(zones.filter(isScrubberDischargeBan).length).toBeGreaterThan(0);
+    expect(registry.getZone('NORTH_SEA_BALTIC')?.rules.nox_tier_iii?.ships_constructed_from).toBe('2021-01-01');
+  });
+
+  it('applies the Mediterranean ECA only from its entry into force', () => {
+    const med = registry.getZone('MEDITERRANEAN') as RegulatoryZone;
+    expect(registry.isInForce(med, new Date('2025-04-30T23:00:00Z'))).toBe(false);
+    expect(registry.isInForce(med, new Date('2025-05-01T00:00:00Z'))).toBe(true);
+    expect(registry.isUpcoming(med, new Date('2024-06-01T00:00:00Z'))).toBe(true);
+    expect(registry.getEmissionControlAreas(new Date('2024-06-01')).map((zone) => zone.id)).not.toContain('MEDITERRANEAN');
+    expect(registry.getEmissionControlAreas(new Date('2026-06-01')).map((zone) => zone.id)).toContain('MEDITERRANEAN');
+  });
+
+  it('treats effective_to as the last day in force and checks transits spanning the dates', () => {
+    const zone = {
+      id: 'Z',
+      effective_from: '2026-01-01',
+      effective_to: '2026-12-31',
+      rules: { sulfur_limit_percent: 0.1 },
+    } as RegulatoryZone;
+    expect(registry.isInForce(zone, new Date('2026-12-31T23:59:00Z'))).toBe(true);
+    expect(registry.isInForce(zone, new Date('2027-01-01T00:00:00Z'))).toBe(false);
+    expect(registry.isInForceDuring(zone, new Date('2025-12-30T00:00:00Z'), new Date('2026-01-02T00:00:00Z'))).toBe(true);
+  });
+
+  it('finds the zones containing a position', () => {
+    const at = new Date('2026-06-01');
+    const inNorthSea = registry.findZonesAt({ lat: 55, lon: 3 }, at, isEmissionControlArea);
+    expect(inNorthSea.map((zone) => zone.id)).toEqual(['NORTH_SEA_BALTIC']);
+    expect(registry.findZonesAt({ lat: 0, lon: -30 }, at)).toEqual([]);
+  });
+
+  it('rejects malformed zone files with the file and path of the error', () => {
+    const openRing = writeZoneDir({
+      'bad.geojson': zoneFile(
+        { name: 'Bad', code: 'BAD', description: '', effective_from: '2026-01-01', rules: { sulfur_limit_percent: 0.1 } },
+        [SQUARE.slice(0, 4)]
+      ),
+    });
+    expect(() => RegulatoryZoneRegistry.fromDirectory(openRing)).toThrow(/bad\.geojson.*must be closed/);
+
+    const noRules = writeZoneDir({
+      'empty.geojson': zoneFile({ name: 'Empty', code: 'E', description: '', effective_from: '2026-01-01', rules: {} }),
+    });
+    expect(() => RegulatoryZoneRegistry.fromDirectory(noRules)).toThrow(/at least one rule/);
+
+    const reversed = writeZoneDir({
+      'dates.geojson': zoneFile({
+        name: 'Dates',
+        code: 'D',
+        description: '',
+        effective_from: '2026-01-01',
+        effective_to: '2025-01-01',
+        rules: { sulfur_limit_percent: 0.1 },
+      }),
+    });
+    expect(() => RegulatoryZoneRegistry.fromDirectory(reversed)).toThrow(/effective_to must not be before effective_from/);
+  });
+});
+
+describe('ECA zone validator with voyage dates', () => {
+  // Gibraltar → Port Said through the western and eastern Mediterranean
+  const route_waypoints = [
+    { lat: 36.0, lon: -5.0 },
+    { lat: 37.5, lon: 5.0 },
+    { lat: 35.0, lon: 20.0 },
+    { lat: 31.5, lon: 32.0 },
+  ];
+
+  beforeEach(() => resetRegulatoryZoneRegistry());
+
+  it('reports the Mediterranean ECA as upcoming before 2025-05-01 and active after', async () => {
+    const before = await executeECAZoneValidatorTool({
+      route_waypoints,
+      vessel_speed_knots: 14,
+      departure_datetime: '2024-03-01T00:00:00Z',
+    });
+    expect(before.eca_zones_crossed).toEqual([]);
+    expect(before.proposed_zones_crossed.map((zone) => zone.zone_status)).toEqual(['UPCOMING']);
+    expect(before.compliance_warnings.join(' ')).toMatch(/in force from 2025-05-01/);
+
+    const after = await executeECAZoneValidatorTool({
+      route_waypoints,
+      vessel_speed_knots: 14,
+      departure_datetime: '2026-03-01T00:00:00Z',
+    });
+    expect(after.eca_zones_crossed.map((zone) => zone.zone_code)).toEqual(['MEDECA']);
+    expect(after.proposed_zones_crossed).toEqual([]);
+    expect(after.fuel_requirements.total_mgo_required_mt).toBeGreaterThan(0);
+  });
+});
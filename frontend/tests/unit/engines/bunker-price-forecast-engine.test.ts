@@ -0,0 +1,202 @@
+/**
+ * Bunker Price Forecast Engine Unit Tests
+ *
+ * Tests for:
+ * - Price at arrival from a trending history (model selection, anchoring on spot, confidence band)
+ * - Spot price with a volatility band when history is short
+ * - Port ETAs from route distance or vessel timeline (estimatePortArrivalDates)
+ * - Bunker analyzer ranking on expected price at ETA
+ *
+ * Run with: npx jest tests/unit/engines/bunker-price-forecast-engine.test.ts
+ */
+
+import { BunkerPriceForecastEngine } from '@/lib/engines/bunker-price-forecast-engine';
+import { estimatePortArrivalDates } from '@/lib/multi-agent/helpers/port-eta';
+import { bunkerDataService } from '@/lib/services/bunker-data-service';
+import { analyzeBunkerOptions } from '@/lib/tools/bunker-analyzer';
+import type { FoundPort } from '@/lib/tools/port-finder';
+import type { PriceData, PriceFetcherOutput } from '@/lib/tools/price-fetcher';
+import type { PriceHistory } from '@/lib/types/bunker';
+
+const AS_OF = '2026-03-31T00:00:00.000Z';
+const IN_12_DAYS = '2026-04-12T00:00:00.000Z';
+
+/** Daily prices for the 30 days up to AS_OF, rising by slope USD/MT per day */
+function dailyHistory(port: string, last: number, slope: number): PriceHistory[] {
+  return Array.from({ length: 30 }, (_, i) => ({
+    date: new Date(Date.parse(AS_OF) - (29 - i) * 86_400_000).toISOString(),
+    price: last - (29 - i) * slope,
+    port,
+    fuelType: 'VLSFO',
+  }));
+}
+
+function foundPort(code: string, name: string, waypointIndex: number, distanceFromRoute: number): FoundPort {
+  return {
+    port: { port_code: code, name, country: '', coordinates: { lat: 0, lon: 0 }, fuel_capabilities: ['VLSFO'] },
+    distance_from_route_nm: distanceFromRoute,
+    nearest_waypoint_index: waypointIndex,
+    nearest_waypoint: { lat: 0, lon: waypointIndex },
+    deviation_nm: 2 * distanceFromRoute,
+    deviation_method: 'haversine',
+  };
+}
+
+describe('BunkerPriceForecastEngine', () => {
+  const engine = new BunkerPriceForecastEngine({
+    lookback_days: 90,
+    min_history_points: 8,
+    holdout_points: 5,
+    holt_alpha: 0.5,
+    holt_beta: 0.1,
+    confidence_level_percent: 90,
+    confidence_z: 1.645,
+    fallback_daily_volatility_percent: 1,
+    min_band_percent: 0.5,
+    max_horizon_days: 60,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('projects a rising price to the arrival date from the spot quote', () => {
+    const forecast = engine.forecast({
+      port: 'SGSIN',
+      fuel_type: 'VLSFO',
+      spot_price: 620,
+      as_of: AS_OF,
+      target_date: IN_12_DAYS,
+      history: dailyHistory('SGSIN', 600, 2),
+    });
+
+    expect(forecast.horizon_days).toBeCloseTo(12, 6);
+    expect(forecast.method).not.toBe('last_value');
+    // +2 USD/MT per day for 12 days on top of the spot quote
+    expect(forecast.expected_price).toBeCloseTo(644, 0);
+    expect(forecast.lower_price).toBeLessThan(forecast.expected_price);
+    expect(forecast.upper_price).toBeGreaterThan(forecast.expected_price);
+    // Minimum band: 0.5% of the expected price
+    expect(forecast.upper_price - forecast.expected_price).toBeGreaterThanOrEqual(forecast.expected_price * 0.005 - 1e-9);
+    expect(forecast.history_points).toBe(30);
+  });
+
+  it('keeps a flat series at spot and has no band at zero horizon', () => {
+    const flat = engine.forecast({
+      port: 'NLRTM',
+      fuel_type: 'VLSFO',
+      spot_price: 580,
+      as_of: AS_OF,
+      target_date: AS_OF,
+      history: dailyHistory('NLRTM', 580, 0),
+    });
+    expect(flat.expected_price).toBeCloseTo(580, 6);
+    expect(flat.lower_price).toBeCloseTo(580, 6);
+    expect(flat.upper_price).toBeCloseTo(580, 6);
+  });
+
+  it('uses the spot price with a volatility band when history is short', () => {
+    const forecast = engine.forecast({
+      port: 'AEFJR',
+      fuel_type: 'VLSFO',
+      spot_price: 600,
+      as_of: AS_OF,
+      target_date: '2026-04-04T00:00:00.000Z',
+      history: dailyHistory('AEFJR', 600, 1).slice(-3),
+    });
+
+    expect(forecast.method).toBe('spot_only');
+    expect(forecast.expected_price).toBe(600);
+    // 1.645 × 600 × 1% × √4
+    expect(forecast.upper_price - 600).toBeCloseTo(19.74, 6);
+    expect(forecast.warnings[0]).toMatch(/3 price history point/);
+  });
+});
+
+describe('estimatePortArrivalDates', () => {
+  const waypoints = [
+    { lat: 0, lon: 0 },
+    { lat: 0, lon: 1 },
+    { lat: 0, lon: 2 },
+  ];
+
+  it('adds sailed distance and the run off the route to the departure date', () => {
+    const arrivals = estimatePortArrivalDates({
+      ports: [foundPort('AAAAA', 'Alpha', 2, 12)],
+      waypoints,
+      speed_knots: 12,
+      departure_date: AS_OF,
+    });
+    // Two degrees of longitude on the equator ≈ 120.1 nm → ~10 h, plus 1 h off the route
+    const hours = (Date.parse(arrivals.AAAAA) - Date.parse(AS_OF)) / 3_600_000;
+    expect(hours).toBeCloseTo(120.1 / 12 + 1, 1);
+  });
+
+  it('uses the vessel timeline position nearest the port waypoint', () => {
+    const arrivals = estimatePortArrivalDates({
+      ports: [foundPort('BBBBB', 'Bravo', 1, 0)],
+      waypoints,
+      speed_knots: 12,
+      departure_date: AS_OF,
+      vessel_timeline: [
+        { lat: 0, lon: 0, datetime: AS_OF, distance_from_start_nm: 0, segment_index: 0 },
+        { lat: 0, lon: 1, datetime: IN_12_DAYS, distance_from_start_nm: 60, segment_index: 0 },
+      ],
+    });
+    expect(arrivals.BBBBB).toBe(IN_12_DAYS);
+  });
+});
+
+describe('analyzeBunkerOptions with port arrival dates', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(bunkerDataService, 'fetchHistoricalBunkerPrices').mockImplementation(async (port) =>
+      // Cheaper spot at CCCCC but rising fast; DDDDD flat
+      port === 'CCCCC' ? dailyHistory(port, 600, 5) : dailyHistory(port, 610, 0)
+    );
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('ranks on the expected price at ETA and reports the band', async () => {
+    const price = (fuel_type: 'VLSFO', price_per_mt: number): PriceData => ({
+      price: { fuel_type, price_per_mt, currency: 'USD' },
+      hours_since_update: 0,
+      is_fresh: true,
+      formatted_price: `$${price_per_mt}/MT`,
+    });
+    const ports = [foundPort('CCCCC', 'Charlie', 0, 0), foundPort('DDDDD', 'Delta', 0, 0)];
+    const portPrices: PriceFetcherOutput = {
+      prices_by_port: { CCCCC: [price('VLSFO', 600)], DDDDD: [price('VLSFO', 610)] },
+      total_prices: 2,
+      ports_with_prices: 2,
+      ports_not_found: [],
+      stale_price_warnings: [],
+    };
+    const input = { bunker_ports: ports, port_prices: portPrices, fuel_quantity_mt: 1000 };
+
+    const spotOnly = await analyzeBunkerOptions(input);
+    expect(spotOnly.best_option.port_code).toBe('CCCCC');
+    expect(spotOnly.best_option.price_forecast).toBeUndefined();
+
+    const arrival = new Date(Date.now() + 12 * 86_400_000).toISOString();
+    const atEta = await analyzeBunkerOptions({
+      ...input,
+      port_arrival_dates: { CCCCC: arrival, DDDDD: arrival },
+    });
+    expect(atEta.best_option.port_code).toBe('DDDDD');
+    const charlie = atEta.recommendations.find((r) => r.port_code === 'CCCCC');
+    expect(charlie?.fuel_price_per_mt).toBeGreaterThan(650);
+    expect(charlie?.fuels[0].spot_price_per_mt).toBe(600);
+    expect(charlie?.fuel_cost_range_usd?.low).toBeLessThan(charlie?.fuel_cost as number);
+    expect(charlie?.fuel_cost_range_usd?.high).toBeGreaterThan(charlie?.fuel_cost as number);
+    expect(atEta.analysis_summary).toMatch(/Prices projected to ETA/);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Business Rules Engine Unit Tests
+ *
+ * Tests for:
+ * - getApplicableRules (enabled, featureFlag, appliesTo, timing, priority order)
+ * - evaluate (fired / not fired / missing facts, blocking rules)
+ * - buildFacts (facts derived from bunker, compliance and route state)
+ * - summarize (warnings, infos, approvals)
+ * - withBusinessRules (agent updates carry only their own outcomes)
+ *
+ * Run with: npx jest tests/unit/engines/business-rules-engine.test.ts
+ */
+
+import { BusinessRulesEngine, businessRulesEngine } from '@/lib/engines/business-rules-engine';
+import { withBusinessRules } from '@/lib/multi-agent/helpers/business-rules';
+import type { MultiAgentState } from '@/lib/multi-agent/state';
+import type { BusinessRule } from '@/lib/types/config';
+
+function makeRule(overrides: Partial<BusinessRule> & Pick<BusinessRule, 'id'>): BusinessRule {
+  return {
+    name: overrides.id,
+    description: `Rule ${overrides.id}`,
+    category: 'safety',
+    rule: { condition: 'true', action: 'add_warning', priority: 1, severity: 'warning' },
+    parameters: {},
+    timing: 'post_execution',
+    appliesTo: ['bunker_agent'],
+    enabled: true,
+    ...overrides,
+  };
+}
+
+const bunkerState = {
+  correlation_id: 'test-cid',
+  bunker_analysis: {
+    best_option: { port_code: 'SGSIN', total_cost_usd: 650000, deviation_cost_usd: 12000 },
+    max_savings_usd: 8000,
+    vessel_context: { rob_after_bunkering: 100 },
+    fuel_requirement: { voyageFuelConsumption: 900 },
+  },
+  route_data: { origin_port_code: 'SGSIN', destination_port_code: 'NLRTM' },
+} as unknown as MultiAgentState;
+
+describe('BusinessRulesEngine', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getApplicableRules', () => {
+    it('filters by enabled, feature flag, appliesTo and timing', () => {
+      const engine = new BusinessRulesEngine(
+        [
+          makeRule({ id: 'enabled_rule' }),
+          makeRule({ id: 'disabled_rule', enabled: false }),
+          makeRule({ id: 'flag_off_rule', featureFlag: 'enable_eu_ets_agent' }),
+          makeRule({ id: 'flag_on_rule', featureFlag: 'enable_bunker_agent' }),
+          makeRule({ id: 'other_agent_rule', appliesTo: ['weather_agent'] }),
+          makeRule({ id: 'pre_rule', timing: 'pre_execution' }),
+          makeRule({ id: 'always_rule', timing: 'always' }),
+        ],
+        (flag) => flag === 'enable_bunker_agent'
+      );
+
+      expect(engine.getApplicableRules('bunker_agent', 'post_execution').map((r) => r.id).sort()).toEqual(
+        ['always_rule', 'enabled_rule', 'flag_on_rule'].sort()
+      );
+      expect(engine.getApplicableRules('bunker_agent', 'pre_execution').map((r) => r.id).sort()).toEqual(
+        ['always_rule', 'pre_rule'].sort()
+      );
+    });
+
+    it('orders rules by priority', () => {
+      const engine = new BusinessRulesEngine([
+        makeRule({ id: 'low', rule: { condition: 'true', action: 'add_info', priority: 4, severity: 'info' } }),
+        makeRule({ id: 'high', rule: { condition: 'true', action: 'add_warning', priority: 1, severity: 'warning' } }),
+      ]);
+      expect(engine.getApplicableRules('bunker_agent', 'post_execution').map((r) => r.id)).toEqual(['high', 'low']);
+    });
+  });
+
+  describe('evaluate', () => {
+    it('fires rules whose condition holds and records the facts used', () => {
+      const engine = new BusinessRulesEngine([
+        makeRule({
+          id: 'bunker_safety_margin',
+          rule: {
+            condition: 'rob_after_bunker < (total_consumption * 0.15)',
+            action: 'add_warning',
+            priority: 1,
+            severity: 'warning',
+          },
+        }),
+        makeRule({
+          id: 'deviation_cost_warning',
+          rule: { condition: 'deviation_cost > fuel_savings', action: 'add_warning', priority: 3, severity: 'warning' },
+        }),
+        makeRule({
+          id: 'high_value_bunker_approval',
+          rule: { condition: 'total_bunker_cost > 500000', action: 'require_approval', priority: 2, severity: 'info' },
+        }),
+      ]);
+
+      const result = engine.evaluate('bunker_agent', 'post_execution', bunkerState);
+
+      expect(result.blocked).toBe(false);
+      expect(result.outcomes.map((o) => [o.rule_id, o.status])).toEqual([
+        ['bunker_safety_margin', 'fired'],
+        ['high_value_bunker_approval', 'fired'],
+        ['deviation_cost_warning', 'fired'],
+      ]);
+      expect(result.outcomes[0].facts_used).toEqual({ rob_after_bunker: 100, total_consumption: 900 });
+      expect(result.outcomes[0].correlation_id).toBe('test-cid');
+      expect(result.outcomes[0].message).toContain('rob_after_bunker=100');
+    });
+
+    it('skips rules that reference unavailable facts', () => {
+      const engine = new BusinessRulesEngine([
+        makeRule({
+          id: 'critical_rob_threshold',
+          rule: {
+            condition: 'min_rob_during_voyage < (daily_consumption * 1)',
+            action: 'block_operation',
+            priority: 1,
+            severity: 'blocking',
+          },
+        }),
+      ]);
+
+      const result = engine.evaluate('bunker_agent', 'post_execution', bunkerState);
+
+      expect(result.outcomes[0].status).toBe('skipped_missing_facts');
+      expect(result.outcomes[0].missing_facts).toEqual(['min_rob_during_voyage', 'daily_consumption']);
+      expect(result.blocked).toBe(false);
+    });
+
+    it('blocks when a blocking rule fires', () => {
+      const engine = new BusinessRulesEngine([
+        makeRule({
+          id: 'critical_rob_threshold',
+          timing: 'pre_execution',
+          rule: {
+            condition: 'min_rob_during_voyage < (daily_consumption * 1)',
+            action: 'block_operation',
+            priority: 1,
+            severity: 'blocking',
+          },
+        }),
+      ]);
+      const state = {
+        ...bunkerState,
+        rob_tracking: { minimum_rob_reached: { VLSFO: 10, LSMGO: 2 }, waypoints: [] },
+        vessel_profile: { consumption_vlsfo_per_day: 30, consumption_lsmgo_per_day: 3, initial_rob: { VLSFO: 0, LSMGO: 0 } },
+      } as unknown as MultiAgentState;
+
+      const result = engine.evaluate('bunker_agent', 'pre_execution', state);
+
+      expect(result.blocked).toBe(true);
+      expect(result.block_reason).toContain('critical_rob_threshold');
+    });
+
+    it('records condition errors without throwing', () => {
+      const engine = new BusinessRulesEngine([
+        makeRule({ id: 'broken', rule: { condition: 'fuel_savings >', action: 'add_info', priority: 1, severity: 'info' } }),
+      ]);
+      const result = engine.evaluate('bunker_agent', 'post_execution', bunkerState);
+      expect(result.outcomes[0].status).toBe('error');
+    });
+  });
+
+  describe('buildFacts', () => {
+    it('counts EU/EEA port calls from route port codes', () => {
+      const engine = new BusinessRulesEngine([]);
+      expect(engine.buildFacts(bunkerState).eu_port_calls).toBe(1);
+      expect(engine.buildFacts({} as MultiAgentState).eu_port_calls).toBeUndefined();
+    });
+
+    it('reads projected CII impact from the CII rating projection', () => {
+      const engine = new BusinessRulesEngine([]);
+      const state = { cii_rating: { projection: { impact_percent: -6.2 } } } as unknown as MultiAgentState;
+      expect(engine.buildFacts(state).projected_cii_impact).toBe(-6.2);
+    });
+  });
+
+  describe('summarize', () => {
+    it('groups fired outcomes by action', () => {
+      const engine = new BusinessRulesEngine([
+        makeRule({ id: 'warn', rule: { condition: 'true', action: 'add_warning', priority: 1, severity: 'warning' } }),
+        makeRule({ id: 'info', rule: { condition: 'true', action: 'add_info', priority: 2, severity: 'info' } }),
+        makeRule({ id: 'approve', rule: { condition: 'true', action: 'require_approval', priority: 3, severity: 'info' } }),
+        makeRule({ id: 'quiet', rule: { condition: 'false', action: 'add_warning', priority: 4, severity: 'warning' } }),
+      ]);
+
+      const notices = BusinessRulesEngine.summarize(engine.evaluate('bunker_agent', 'post_execution', bunkerState).outcomes);
+
+      expect(notices.warnings).toEqual(['warn: Rule warn']);
+      expect(notices.infos).toEqual(['info: Rule info']);
+      expect(notices.approvals).toEqual(['approve: Rule approve']);
+    });
+  });
+
+  describe('withBusinessRules', () => {
+    it('returns only the outcomes of this agent so parallel agents do not drop each other', async () => {
+      const engine = new BusinessRulesEngine([
+        makeRule({ id: 'bunker_pre', timing: 'pre_execution' }),
+        makeRule({ id: 'weather_post', appliesTo: ['weather_agent'] }),
+      ]);
+      const evaluate = jest
+        .spyOn(businessRulesEngine, 'evaluate')
+        .mockImplementation((agentId, timing, state) => engine.evaluate(agentId, timing, state));
+      const state = {
+        ...bunkerState,
+        business_rules_trace: engine.evaluate('bunker_agent', 'pre_execution', bunkerState).outcomes,
+      } as MultiAgentState;
+
+      const [bunker, weather] = await Promise.all([
+        withBusinessRules('bunker_agent', async () => ({ agent_status: { bunker_agent: 'success' } }))(state),
+        withBusinessRules('weather_agent', async () => ({ agent_status: { weather_agent: 'success' } }))(state),
+      ]);
+      evaluate.mockRestore();
+
+      expect(bunker.business_rules_trace?.map((o) => o.rule_id)).toEqual(['bunker_pre']);
+      expect(weather.business_rules_trace?.map((o) => o.rule_id)).toEqual(['weather_post']);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Capacity Validation Engine Unit Tests
+ *
+ * Tests for:
+ * - validateBunkerQuantity (within capacity, over fill limit, per-grade capping, unpumpable ROB)
+ * - getAvailableSpace (fill-up quantity at fill limit)
+ * - validateRecommendedPorts (reshaping of BunkerAnalysis.recommended_ports)
+ *
+ * Run with: npx jest tests/unit/engines/capacity-validation-engine.test.ts
+ */
+
+import { CapacityValidationEngine } from '@/lib/engines/capacity-validation-engine';
+
+describe('CapacityValidationEngine', () => {
+  const engine = new CapacityValidationEngine({ max_fill_percent: 98, unpumpable_percent: 2 });
+  const capacity = { VLSFO: 2000, LSMGO: 200 };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('validateBunkerQuantity', () => {
+    it('accepts quantities that fit below the fill limit', () => {
+      const result = engine.validateBunkerQuantity({
+        vessel_capacity: capacity,
+        current_rob: { VLSFO: 500, LSMGO: 50 },
+        requested_quantity: { VLSFO: 1000, LSMGO: 100 },
+      });
+
+      expect(result.within_capacity).toBe(true);
+      expect(result.violations).toHaveLength(0);
+      expect(result.capped_quantity).toEqual({ VLSFO: 1000, LSMGO: 100 });
+      expect(result.limits_applied).toEqual({ max_fill_percent: 98, unpumpable_percent: 2 });
+    });
+
+    it('caps the quantity to the fill limit and reports a violation', () => {
+      const result = engine.validateBunkerQuantity({
+        vessel_capacity: capacity,
+        current_rob: { VLSFO: 500, LSMGO: 50 },
+        requested_quantity: { VLSFO: 1500 },
+        location: 'Singapore',
+      });
+
+      // 98% of 2000 = 1960 → 1460 MT space
+      expect(result.within_capacity).toBe(false);
+      expect(result.capped_quantity.VLSFO).toBeCloseTo(1460, 6);
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0]).toMatchObject({
+        fuel_type: 'VLSFO',
+        location: 'Singapore',
+        requested_mt: 1500,
+      });
+      expect(result.violations[0].excess_mt).toBeCloseTo(40, 6);
+    });
+
+    it('validates each grade independently', () => {
+      const result = engine.validateBunkerQuantity({
+        vessel_capacity: capacity,
+        current_rob: { VLSFO: 100, LSMGO: 150 },
+        requested_quantity: { VLSFO: 800, LSMGO: 100 },
+      });
+
+      expect(result.grades.map((g) => g.fuel_type)).toEqual(['VLSFO', 'LSMGO']);
+      expect(result.violations.map((v) => v.fuel_type)).toEqual(['LSMGO']);
+      expect(result.capped_quantity.VLSFO).toBe(800);
+      expect(result.capped_quantity.LSMGO).toBeCloseTo(46, 6);
+    });
+
+    it('excludes unpumpable fuel from usable ROB after bunkering', () => {
+      const result = engine.validateBunkerQuantity({
+        vessel_capacity: capacity,
+        current_rob: { VLSFO: 200, LSMGO: 0 },
+        requested_quantity: { VLSFO: 300 },
+      });
+
+      const vlsfo = result.grades[0];
+      expect(vlsfo.rob_after_mt).toBe(500);
+      expect(vlsfo.unpumpable_mt).toBe(40);
+      expect(vlsfo.usable_rob_after_mt).toBe(460);
+    });
+
+    it('reports zero space when ROB is already above the fill limit', () => {
+      const result = engine.validateBunkerQuantity({
+        vessel_capacity: capacity,
+        current_rob: { VLSFO: 1990, LSMGO: 0 },
+        requested_quantity: { VLSFO: 10 },
+      });
+
+      expect(result.capped_quantity.VLSFO).toBe(0);
+      expect(result.within_capacity).toBe(false);
+    });
+  });
+
+  describe('getAvailableSpace', () => {
+    it('returns fill-up quantity per grade at the fill limit', () => {
+      const space = engine.getAvailableSpace(capacity, { VLSFO: 960, LSMGO: 96 });
+      expect(space.VLSFO).toBeCloseTo(1000, 6);
+      expect(space.LSMGO).toBeCloseTo(100, 6);
+    });
+  });
+
+  describe('validateRecommendedPorts', () => {
+    it('caps over-capacity ports and recomputes ROB after bunkering', () => {
+      const result = engine.validateRecommendedPorts(
+        [
+          {
+            port_code: 'SGSIN',
+            port_name: 'Singapore',
+            total_cost_usd: 900000,
+            bunker_quantity_mt: 1200,
+            rob_before_mt: 300,
+            rob_after_mt: 1500,
+            deviation_nm: 5,
+          },
+          {
+            port_code: 'AEFJR',
+            port_name: 'Fujairah',
+            total_cost_usd: 1200000,
+            bunker_quantity_mt: 1800,
+            rob_before_mt: 300,
+            rob_after_mt: 2100,
+            deviation_nm: 12,
+          },
+        ],
+        capacity,
+        'VLSFO'
+      );
+
+      expect(result.within_capacity).toBe(false);
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].location).toBe('Fujairah');
+      expect(result.ports[0].bunker_quantity_mt).toBe(1200);
+      expect(result.ports[0].capacity_capped).toBeUndefined();
+      expect(result.ports[1].bunker_quantity_mt).toBeCloseTo(1660, 6);
+      expect(result.ports[1].rob_after_mt).toBeCloseTo(1960, 6);
+      expect(result.ports[1].capacity_capped).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * CII Calculator Engine Unit Tests
+ *
+ * Tests for:
+ * - normalizeShipType / calculateCO2 / getReductionFactor
+ * - calculateRequiredCII and rating boundaries (reference line, size bands, capacity cap, vehicle carriers on GT)
+ * - calculateRating (attained AER, rating letter, missing history)
+ * - End-of-year projection with and without the planned voyage
+ *
+ * Run with: npx jest tests/unit/engines/cii-calculator-engine.test.ts
+ */
+
+import { CIICalculatorEngine, type CIIReportRecord } from '@/lib/engines/cii-calculator-engine';
+
+describe('CIICalculatorEngine', () => {
+  const engine = new CIICalculatorEngine({
+    reduction_factors: { 2023: 5, 2024: 7, 2025: 9, 2026: 11 },
+    min_days_for_extrapolation: 30,
+  });
+
+  // 60,000 nm and 5,000 t VLSFO + 300 t LSMGO between 1 Jan and 2 Jul (182 days)
+  const reports: CIIReportRecord[] = [
+    { date: '2025-01-01T00:00:00Z', distance_nm: 0, fuel_consumed_mt: {} },
+    { date: '2025-04-01T00:00:00Z', distance_nm: 30000, fuel_consumed_mt: { VLSFO: 2500, LSMGO: 150 } },
+    { date: '2025-07-02T00:00:00Z', distance_nm: 30000, fuel_consumed_mt: { VLSFO: 2500, LSMGO: 150 } },
+  ];
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('inputs', () => {
+    it('maps vessel master data types to CII ship types', () => {
+      expect(engine.normalizeShipType('Bulk Carrier')).toBe('bulk_carrier');
+      expect(engine.normalizeShipType('Container Ship')).toBe('container_ship');
+      expect(engine.normalizeShipType('LNG Carrier')).toBe('lng_carrier');
+      expect(engine.normalizeShipType('Oil Tanker')).toBe('tanker');
+      expect(engine.normalizeShipType('Ro-Ro Cargo')).toBe('ro_ro_cargo');
+      expect(engine.normalizeShipType('Ro-Ro Cargo (Vehicle Carrier)')).toBe('ro_ro_vehicle');
+      expect(engine.normalizeShipType('PCTC')).toBe('ro_ro_vehicle');
+      expect(engine.normalizeShipType('Tug')).toBeNull();
+    });
+
+    it('converts fuel by grade to CO2', () => {
+      expect(engine.calculateCO2({ HSFO: 100, VLSFO: 100, LSMGO: 100, LNG: 100 })).toBeCloseTo(1222.1, 6);
+    });
+
+    it('uses the last known reduction factor after the table ends', () => {
+      expect(engine.getReductionFactor(2025)).toBe(9);
+      expect(engine.getReductionFactor(2031)).toBe(11);
+      expect(engine.getReductionFactor(2019)).toBe(0);
+    });
+  });
+
+  describe('calculateRequiredCII', () => {
+    it('applies the reference line and reduction factor', () => {
+      // Bulk carrier: 4745 × 80000^-0.622 = 4.2317; × (1 − 0.09) = 3.8508
+      const required = engine.calculateRequiredCII('bulk_carrier', 80000, 2025);
+      expect(required.reference_cii).toBeCloseTo(4.2317, 4);
+      expect(required.required_cii).toBeCloseTo(3.8508, 4);
+    });
+
+    it('caps bulk carrier capacity at 279,000 DWT and picks size bands', () => {
+      const capped = engine.calculateRequiredCII('bulk_carrier', 400000, 2025);
+      const atCap = engine.calculateRequiredCII('bulk_carrier', 279000, 2025);
+      expect(capped.required_cii).toBeCloseTo(atCap.required_cii, 10);
+
+      expect(engine.calculateRequiredCII('general_cargo', 30000, 2025).a).toBe(31948);
+      expect(engine.calculateRequiredCII('general_cargo', 10000, 2025).a).toBe(588);
+    });
+
+    it('rates vehicle carriers on their own GT reference line', () => {
+      // 3627 × 57,700^-0.59 = 5.6293 (capped at 57,700 GT); × (1 − 0.09) = 5.1227
+      const large = engine.calculateRequiredCII('ro_ro_vehicle', 70000, 2025);
+      expect(large.reference_cii).toBeCloseTo(5.6293, 4);
+      expect(large.required_cii).toBeCloseTo(5.1227, 4);
+      expect(engine.calculateRequiredCII('ro_ro_vehicle', 20000, 2025).a).toBe(330);
+
+      // Capacity is GT, not DWT
+      expect(() =>
+        engine.calculateRating({ ship_type: 'Vehicle Carrier', dwt: 20000, year: 2025, reports })
+      ).toThrow(/GT/);
+      const rating = engine.calculateRating({ ship_type: 'Vehicle Carrier', dwt: 20000, gt: 60000, year: 2025, reports });
+      expect(rating).toMatchObject({ ship_type: 'ro_ro_vehicle', capacity_metric: 'gt', capacity: 60000 });
+    });
+  });
+
+  describe('calculateRating', () => {
+    it('rates attained AER against the boundaries', () => {
+      const result = engine.calculateRating({ ship_type: 'Bulk Carrier', dwt: 80000, year: 2025, reports });
+
+      // CO2 = 5000 × 3.151 + 300 × 3.206 = 16,716.8 t → 16,716.8e6 / (80,000 × 60,000) = 3.4827
+      expect(result.metric).toBe('AER');
+      expect(result.annual_co2_tonnes).toBeCloseTo(16716.8, 6);
+      expect(result.annual_distance_nm).toBe(60000);
+      expect(result.attained_cii).toBeCloseTo(3.4827, 4);
+      expect(result.rating_boundaries.A).toBeCloseTo(3.3117, 4);
+      expect(result.rating_boundaries.B).toBeCloseTo(3.6198, 4);
+      expect(result.rating).toBe('B');
+      expect(result.improvement_needed).toBe(false);
+      expect(result.projection).toBeUndefined();
+    });
+
+    it('rejects ship types outside CII scope and missing capacity', () => {
+      expect(() => engine.calculateRating({ ship_type: 'Tug', dwt: 500, year: 2025, reports })).toThrow(
+        /not covered/
+      );
+      expect(() => engine.calculateRating({ ship_type: 'Cruise Ship', dwt: 8000, year: 2025, reports })).toThrow(
+        /GT/
+      );
+    });
+
+    it('warns when there is no sailed distance', () => {
+      const result = engine.calculateRating({ ship_type: 'Tanker', dwt: 50000, year: 2025, reports: [] });
+      expect(result.attained_cii).toBe(0);
+      expect(result.warnings).toHaveLength(1);
+    });
+  });
+
+  describe('end-of-year projection', () => {
+    it('projects the rating with and without the planned voyage', () => {
+      const result = engine.calculateRating({
+        ship_type: 'Bulk Carrier',
+        dwt: 80000,
+        year: 2025,
+        reports,
+        planned_voyage: { distance_nm: 5000, duration_days: 20, fuel_consumed_mt: { VLSFO: 1000 } },
+      });
+      const projection = result.projection!;
+
+      // Rest of year (183 days) at the year-to-date rate keeps the CII unchanged without the voyage
+      expect(projection.remaining_days).toBe(183);
+      expect(projection.extrapolated).toBe(true);
+      expect(projection.without_voyage.attained_cii).toBeCloseTo(3.4827, 4);
+      expect(projection.without_voyage.rating).toBe('B');
+
+      // The voyage (6.30 g/t·nm) replaces 20 days of average trading and pushes the year into C
+      expect(projection.planned_voyage.co2_tonnes).toBeCloseTo(3151, 6);
+      expect(projection.with_voyage.attained_cii).toBeCloseTo(3.6677, 4);
+      expect(projection.with_voyage.rating).toBe('C');
+      expect(projection.impact_percent).toBeCloseTo(-5.314, 3);
+      expect(projection.rating_changed).toBe(true);
+    });
+
+    it('does not extrapolate short histories', () => {
+      const result = engine.calculateRating({
+        ship_type: 'Bulk Carrier',
+        dwt: 80000,
+        year: 2025,
+        reports: reports.slice(0, 1).concat({ ...reports[1]!, date: '2025-01-10T00:00:00Z' }),
+        planned_voyage: { distance_nm: 5000, duration_days: 20, fuel_consumed_mt: { VLSFO: 1000 } },
+      });
+
+      expect(result.projection!.extrapolated).toBe(false);
+      expect(result.projection!.with_voyage.annual_distance_nm).toBe(35000);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * CP Performance Engine Unit Tests
+ *
+ * Tests for:
+ * - Good-weather speed and consumption applied to the whole voyage distance
+ * - Time lost and over-consumption after the "about" tolerances, valued at hire and fuel price
+ * - Speed correction when the vessel sailed faster than warranted
+ * - Too little good weather for a claim; good-weather criteria (Beaufort, wave height, load condition)
+ * - Warranty, period, hire and price extraction from a query
+ *
+ * Run with: npx jest tests/unit/engines/cp-performance-engine.test.ts
+ */
+
+import {
+  CPPerformanceEngine,
+  beaufortFromWindKnots,
+  type CPPerformanceReport,
+  type CPWarranty,
+} from '@/lib/engines/cp-performance-engine';
+import { extractCharterPartyTerms } from '@/lib/utils/charter-party-extractor';
+
+const PARAMETERS = {
+  max_beaufort: 4,
+  max_wave_height_m: 1.25,
+  about_speed_tolerance_knots: 0.5,
+  about_consumption_tolerance_percent: 5,
+  min_good_weather_hours: 24,
+  default_daily_hire_usd: 15000,
+  default_fuel_price_usd_per_mt: 600,
+};
+
+const WARRANTY: CPWarranty = { speed_knots: 14, consumption_mt_per_day: 30, fuel_grade: 'VLSFO', about: true };
+
+function report(day: number, distance: number, consumption: number, beaufort?: number, wave?: number): CPPerformanceReport {
+  return {
+    date: `2026-03-0${day}T12:00:00.000Z`,
+    steaming_hours: 24,
+    distance_nm: distance,
+    consumption_mt: consumption,
+    ...(beaufort !== undefined && { beaufort }),
+    ...(wave !== undefined && { wave_height_m: wave }),
+  };
+}
+
+describe('CPPerformanceEngine', () => {
+  const engine = new CPPerformanceEngine(PARAMETERS);
+  // Two good-weather days at 13 kn on 33 MT/day, two bad-weather days
+  const reports = [report(1, 312, 33, 3), report(2, 312, 33, 4, 1.0), report(3, 264, 36, 6), report(4, 288, 34, 5)];
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('calculates time lost and over-consumption from good-weather performance', () => {
+    const result = engine.evaluate({ warranty: WARRANTY, reports, daily_hire_usd: 15000, fuel_price_usd_per_mt: 600 });
+
+    expect(result.good_weather_report_count).toBe(2);
+    expect(result.good_weather?.speed_knots).toBeCloseTo(13, 6);
+    expect(result.good_weather?.consumption_mt_per_day).toBeCloseTo(33, 6);
+    expect(result.voyage.distance_nm).toBe(1176);
+
+    // 1176 nm at 13 kn vs at 14 - 0.5 kn
+    const performanceHours = 1176 / 13;
+    expect(result.time_lost_hours).toBeCloseTo(performanceHours - 1176 / 13.5, 6);
+    // 33 MT/day vs 30 + 5% over the same sea time
+    expect(result.over_consumption_mt).toBeCloseTo((performanceHours / 24) * (33 - 31.5), 6);
+
+    expect(result.summary.verdict).toBe('claim');
+    expect(result.summary.time_lost_cost_usd).toBeCloseTo((result.time_lost_hours / 24) * 15000, 6);
+    expect(result.summary.over_consumption_cost_usd).toBeCloseTo(result.over_consumption_mt * 600, 6);
+    expect(result.summary.claim_points.join(' ')).toMatch(/below about 14 kn less 0.5 kn/);
+    expect(result.prices_assumed).toBe(false);
+    expect(result.period).toEqual({ start: '2026-03-01T12:00:00.000Z', end: '2026-03-04T12:00:00.000Z' });
+  });
+
+  it('applies no tolerance to a warranty without "about"', () => {
+    const result = engine.evaluate({ warranty: { ...WARRANTY, about: false }, reports });
+
+    expect(result.speed_tolerance_knots).toBe(0);
+    expect(result.time_lost_hours).toBeCloseTo(1176 / 13 - 1176 / 14, 6);
+    expect(result.over_consumption_mt).toBeCloseTo((1176 / 13 / 24) * 3, 6);
+    expect(result.prices_assumed).toBe(true);
+    expect(result.warnings.join(' ')).toMatch(/assumed hire \$15,000\/day/);
+  });
+
+  it('compares consumption at the warranted speed when the vessel sailed faster', () => {
+    // 15 kn on 36 MT/day in good weather
+    const fast = [report(1, 360, 36, 2), report(2, 360, 36, 3)];
+    const result = engine.evaluate({ warranty: WARRANTY, reports: fast });
+
+    expect(result.time_lost_hours).toBe(0);
+    expect(result.speed_corrected_consumption_mt_per_day).toBeCloseTo(36 * Math.pow(14 / 15, 3), 6);
+    expect(result.over_consumption_mt).toBe(0);
+    expect(result.summary.verdict).toBe('no_claim');
+    expect(result.summary.defence_points.join(' ')).toMatch(/faster than warranted/);
+  });
+
+  it('does not support a claim on too little good weather', () => {
+    const rough = [{ ...report(1, 156, 16, 3), steaming_hours: 12 }, report(2, 264, 36, 7), report(3, 264, 36, 6)];
+    const result = engine.evaluate({ warranty: WARRANTY, reports: rough });
+
+    expect(result.summary.verdict).toBe('insufficient_data');
+    expect(result.time_lost_hours).toBe(0);
+    expect(result.summary.total_claim_usd).toBe(0);
+    expect(result.summary.defence_points[0]).toMatch(/Only 12 h of good weather/);
+  });
+
+  it('applies wave height, missing wind force and load condition to good-weather selection', () => {
+    const criteria = { max_beaufort: 4, max_wave_height_m: 1.25 };
+    expect(engine.isGoodWeather(report(1, 312, 33, 3, 2.0), criteria)).toBe(false);
+    expect(engine.isGoodWeather(report(1, 312, 33, 3), criteria)).toBe(true);
+    expect(engine.isGoodWeather(report(1, 312, 33), criteria)).toBe(false);
+
+    const mixed = [
+      { ...report(1, 312, 33, 3), load_condition: 'laden' as const },
+      { ...report(2, 312, 33, 3), load_condition: 'ballast' as const },
+      { ...report(3, 312, 33), load_condition: 'laden' as const },
+    ];
+    const result = engine.evaluate({ warranty: { ...WARRANTY, load_condition: 'laden' }, reports: mixed });
+    expect(result.report_count).toBe(2);
+    expect(result.no_weather_report_count).toBe(1);
+    expect(result.good_weather_report_count).toBe(1);
+
+    expect(() => engine.evaluate({ warranty: WARRANTY, reports: [] })).toThrow(/noon reports with steaming hours/);
+    expect(beaufortFromWindKnots(0)).toBe(0);
+    expect(beaufortFromWindKnots(12)).toBe(4);
+    expect(beaufortFromWindKnots(70)).toBe(12);
+  });
+});
+
+describe('extractCharterPartyTerms', () => {
+  it('reads the warranty, period, hire and fuel price', () => {
+    expect(
+      extractCharterPartyTerms(
+        'Check IMO 9123456 against about 14 kn on 30 mt VLSFO from 2026-03-01 to 2026-03-20, hire $14,500/day, VLSFO at $620/mt'
+      )
+    ).toEqual({
+      warranty: { speed_knots: 14, consumption_mt_per_day: 30, fuel_grade: 'VLSFO', about: true },
+      period: { start: '2026-03-01T00:00:00.000Z', end: '2026-03-20T00:00:00.000Z' },
+      daily_hire_usd: 14500,
+      fuel_price_usd_per_mt: 620,
+    });
+    expect(extractCharterPartyTerms('CP 13.5 knots / abt 28 mt per day IFO380 laden').warranty).toEqual({
+      speed_knots: 13.5,
+      consumption_mt_per_day: 28,
+      fuel_grade: 'HSFO',
+      about: true,
+      load_condition: 'laden',
+    });
+    expect(extractCharterPartyTerms('12 kts on 25 tons').warranty?.about).toBe(false);
+    expect(extractCharterPartyTerms('what is the hull condition of MV Pacific Star').warranty).toBeNull();
+  });
+});
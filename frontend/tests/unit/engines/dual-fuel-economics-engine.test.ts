@@ -0,0 +1,220 @@
+/**
+ * Dual-Fuel Economics Engine Unit Tests
+ *
+ * Tests for:
+ * - Gas-mode consumption curve and LNG / pilot fuel factors
+ * - Gas vs oil comparison (LNG bunker quantity to finish on heel, boil-off, cheapest LNG port)
+ * - Gas mode limited to LNG on board when no LNG port is on the route
+ * - Methane slip in EU ETS (from the year ETS covers methane) and FuelEU intensity
+ * - ECA engine gas mode and ROB tracking of LNG against the tank heel
+ * - LNG price grade names (normalizeFuelType)
+ *
+ * Run with: npx jest tests/unit/engines/dual-fuel-economics-engine.test.ts
+ */
+
+import { DualFuelEconomicsEngine } from '@/lib/engines/dual-fuel-economics-engine';
+import { ECAConsumptionEngine, type RouteSegment } from '@/lib/engines/eca-consumption-engine';
+import { ROBTrackingEngine } from '@/lib/engines/rob-tracking-engine';
+import { normalizeFuelType } from '@/lib/utils/fuel-grade';
+
+const BASE_CONSUMPTION = { main_engine_mt_per_day: 40, auxiliary_mt_per_day: 0, total_mt_per_day: 40 };
+
+// 14 knots → 336 nm per day: 9 days outside ECA, 1 day inside
+const SEGMENTS: RouteSegment[] = [
+  { segment_id: 'seg_0', from: 'SGSIN', to: 'Boundary 1', distance_nm: 3024, is_eca: false },
+  { segment_id: 'seg_1', from: 'Boundary 1', to: 'NLRTM', distance_nm: 336, is_eca: true, eca_zone_name: 'North Sea' },
+];
+
+// LNG per MT of diesel-mode fuel at ratio 1.0 and 1% pilot (VLSFO 41, LNG 49.1, LSMGO 42.7 MJ/kg)
+const LNG_PER_OIL = (41 * 0.99) / 49.1;
+const PILOT_PER_OIL = (41 * 0.01) / 42.7;
+
+// 3,000 m³ × 0.45 t/m³ = 1,350 MT; heel 10% = 135 MT; 95% fill = 1,282.5 MT
+const VESSEL = {
+  capable: true,
+  engine_type: 'otto_slow_speed' as const,
+  lng_tank_capacity_m3: 3000,
+  pilot_fuel_percent: 1,
+  boil_off_percent_per_day_sea: 0.15,
+  boil_off_percent_per_day_anchor: 0.1,
+  heel_percent: 10,
+};
+
+/** EU ETS at $80 per t CO2 with full coverage */
+const ETS_COST = { VLSFO: 3.151 * 80, LSMGO: 3.206 * 80, LNG: 2.75 * 80 };
+
+describe('DualFuelEconomicsEngine', () => {
+  const engine = new DualFuelEconomicsEngine({
+    gas_mode_energy_ratio_by_load: { 25: 1.08, 50: 1.03, 75: 1.0, 100: 0.99 },
+    default_engine_load_percent: 75,
+    lng_max_fill_percent: 95,
+    lng_density_t_per_m3: 0.45,
+    methane_slip_percent: { otto_slow_speed: 1.7, otto_medium_speed: 3.1, diesel_slow_speed: 0.2, lbsi: 2.6 },
+    eu_ets_methane_from_year: 2026,
+    eu_ets_methane_gwp: 28,
+    lng_vlsfo_energy_price_ratio: 1.0,
+    lsmgo_vlsfo_price_ratio: 1.4,
+  });
+
+  const compare = (overrides: Partial<Parameters<typeof engine.compareStrategies>[0]> = {}) =>
+    engine.compareStrategies({
+      dual_fuel: VESSEL,
+      base_consumption: BASE_CONSUMPTION,
+      route_segments: SEGMENTS,
+      speed_knots: 14,
+      lng_rob_mt: 135,
+      prices: { VLSFO: 600, LSMGO: 800 },
+      lng_ports: [
+        { port_code: 'SGSIN', port_name: 'Singapore', price_usd_per_mt: 650 },
+        { port_code: 'MYTPP', port_name: 'Tanjung Pelepas', price_usd_per_mt: 550 },
+      ],
+      ...overrides,
+    });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('interpolates the gas-mode curve by engine load and splits gas energy into LNG and pilot fuel', () => {
+    expect(engine.getGasModeEnergyRatio(60)).toBeCloseTo(1.03 - 0.03 * (10 / 25), 10);
+    expect(engine.getGasModeEnergyRatio(10)).toBe(1.08);
+    expect(engine.getGasModeEnergyRatio(110)).toBe(0.99);
+
+    const factors = engine.getGasModeFactors(75, 1);
+    expect(factors.lng_per_oil_mt).toBeCloseTo(LNG_PER_OIL, 10);
+    expect(factors.pilot_per_oil_mt).toBeCloseTo(PILOT_PER_OIL, 10);
+  });
+
+  it('bunkers LNG at the cheapest port to sail in gas mode and arrive on heel', () => {
+    const result = compare();
+    const lngBurn = 400 * LNG_PER_OIL;
+
+    expect(result.lng_available).toBe(true);
+    expect(result.lng_bunker_port).toMatchObject({ port_code: 'MYTPP', price_usd_per_mt: 550 });
+    expect(result.lng_heel_mt).toBeCloseTo(135, 6);
+
+    // Boil-off at sea stays below the gas burn, so nothing is lost and the bunker is the burn
+    expect(result.gas.gas_mode_percent).toBeCloseTo(100, 6);
+    expect(result.gas.boil_off_loss_mt).toBe(0);
+    expect(result.gas.lng_bunker_mt).toBeCloseTo(lngBurn, 1);
+    expect(result.gas.lng_rob_on_arrival_mt).toBeCloseTo(135, 1);
+    expect(result.gas.consumption_mt.VLSFO).toBe(0);
+    expect(result.gas.pilot_fuel_mt).toBeCloseTo(400 * PILOT_PER_OIL, 6);
+    expect(result.gas.fuel_cost_usd).toBeCloseTo(400 * PILOT_PER_OIL * 800 + lngBurn * 550, 6);
+
+    // On oil the LNG on board boils off into the GCU and drops below the heel
+    expect(result.oil.consumption_mt).toMatchObject({ VLSFO: 360, LSMGO: 40 });
+    expect(result.oil.boil_off_loss_mt).toBeCloseTo(135 * 0.0015 * 9 + 135 * (1 - 0.0015 * 9) * 0.0015, 6);
+    expect(result.warnings.some((w) => w.includes('below the tank heel'))).toBe(true);
+
+    expect(result.recommended).toBe('GAS');
+    expect(result.savings_usd).toBeCloseTo(result.oil.total_cost_usd - result.gas.total_cost_usd, 6);
+    // At the breakeven LNG price both strategies cost the same
+    const atBreakeven = compare({
+      lng_ports: [{ port_code: 'MYTPP', price_usd_per_mt: result.breakeven_lng_price_usd_per_mt! }],
+    });
+    expect(atBreakeven.savings_usd).toBeCloseTo(0, 0);
+  });
+
+  it('limits gas mode to the LNG on board when no LNG port is on the route', () => {
+    const result = compare({ lng_rob_mt: 235, lng_ports: [] });
+
+    expect(result.lng_available).toBe(false);
+    expect(result.lng_bunker_port).toBeNull();
+    expect(result.lng_price_estimated).toBe(true);
+    expect(result.prices_usd_per_mt.LNG).toBeCloseTo((600 * 49.1) / 41, 6);
+    expect(result.gas.lng_bunker_mt).toBe(0);
+    // 100 MT above heel covers part of the first segment
+    expect(result.gas.gas_mode_percent).toBeGreaterThan(0);
+    expect(result.gas.gas_mode_percent).toBeLessThan(40);
+    expect(result.gas.consumption_mt.VLSFO).toBeGreaterThan(0);
+    expect(result.warnings).toEqual(
+      expect.arrayContaining(['No LNG bunkering on the route; gas mode limited to the LNG on board'])
+    );
+  });
+
+  it('charges methane slip under EU ETS from 2026 and in the FuelEU intensity by engine type', () => {
+    const before = compare({ year: 2025, eu_ets_cost_per_mt_usd: ETS_COST });
+    const after = compare({ year: 2026, eu_ets_cost_per_mt_usd: ETS_COST });
+    const slip = after.gas.methane_slip_t;
+
+    expect(slip).toBeCloseTo(400 * LNG_PER_OIL * 0.017, 6);
+    expect(before.gas.eu_ets_methane_cost_usd).toBe(0);
+    expect(after.gas.eu_ets_methane_cost_usd).toBeCloseTo(slip * 28 * 80, 6);
+    expect(after.oil.methane_slip_t).toBe(0);
+
+    const ottoMediumSpeed = compare({ dual_fuel: { ...VESSEL, engine_type: 'otto_medium_speed' } });
+    const dieselCycle = compare({ dual_fuel: { ...VESSEL, engine_type: 'diesel_slow_speed' } });
+    expect(ottoMediumSpeed.gas.fueleu_ghg_intensity_gco2e_per_mj).toBeGreaterThan(
+      after.gas.fueleu_ghg_intensity_gco2e_per_mj
+    );
+    expect(dieselCycle.gas.fueleu_ghg_intensity_gco2e_per_mj).toBeLessThan(
+      after.gas.fueleu_ghg_intensity_gco2e_per_mj
+    );
+
+    // 2030 target (91.16 × 0.94): LNG on a slow-speed Otto engine is in surplus, oil in deficit
+    const fuelEU = compare({ year: 2030, fueleu_coverage_percent: 100 });
+    expect(fuelEU.gas.fueleu_balance_tco2e).toBeGreaterThan(0);
+    expect(fuelEU.gas.fueleu_penalty_usd).toBe(0);
+    expect(fuelEU.oil.fueleu_balance_tco2e).toBeLessThan(0);
+    expect(fuelEU.oil.fueleu_penalty_usd).toBeGreaterThan(0);
+    expect(compare().oil.fueleu_balance_tco2e).toBeNull();
+  });
+});
+
+describe('ECAConsumptionEngine gas mode', () => {
+  it('burns LNG plus pilot LSMGO on the main engine inside and outside ECA', () => {
+    const eca = new ECAConsumptionEngine();
+    const result = eca.calculateConsumption({
+      base_consumption: { main_engine_mt_per_day: 40, auxiliary_mt_per_day: 2, total_mt_per_day: 42 },
+      route_segments: SEGMENTS,
+      speed_knots: 14,
+      gas_mode: { lng_per_oil_mt: 0.8, pilot_per_oil_mt: 0.01 },
+      scrubber: { fitted: true, type: 'open_loop' },
+    });
+
+    expect(result.segments.every((seg) => seg.gas_mode && !seg.scrubber_in_use)).toBe(true);
+    expect(result.total_consumption_mt).toMatchObject({ VLSFO: 0, HSFO: 0 });
+    expect(result.total_consumption_mt.LNG).toBeCloseTo(10 * 40 * 0.8, 6);
+    expect(result.total_consumption_mt.LSMGO).toBeCloseTo(10 * (40 * 0.01 + 2), 6);
+    expect(eca.validateECALogic(result).is_valid).toBe(true);
+  });
+});
+
+describe('ROBTrackingEngine LNG', () => {
+  it('tracks LNG when an input carries it and flags LNG below the tank heel', () => {
+    const rob = new ROBTrackingEngine().calculateROBTracking({
+      initial_rob: { VLSFO: 500, LSMGO: 100, LNG: 300 },
+      vessel_capacity: { VLSFO: 2000, LSMGO: 300, LNG: 1282.5 },
+      segments: [
+        { from: 'SGSIN', to: 'LKCMB', distance_nm: 1600, duration_days: 5, consumption_mt_per_day: { VLSFO: 0, LSMGO: 0.5, LNG: 30 } },
+      ],
+      safety_margin_days: 3,
+      lng_heel_mt: 200,
+    });
+
+    expect(rob.final_rob.LNG).toBeCloseTo(150, 6);
+    expect(rob.safety_violations.map((v) => v.issue)).toContain('LNG below tank heel (150.0 of 200.0 MT)');
+
+    const oilOnly = new ROBTrackingEngine().calculateROBTracking({
+      initial_rob: { VLSFO: 500, LSMGO: 100 },
+      vessel_capacity: { VLSFO: 2000, LSMGO: 300 },
+      segments: [{ from: 'SGSIN', to: 'LKCMB', distance_nm: 1600, duration_days: 5, consumption_mt_per_day: { VLSFO: 30, LSMGO: 2 } }],
+      safety_margin_days: 3,
+    });
+    expect(oilOnly.final_rob).not.toHaveProperty('LNG');
+  });
+});
+
+describe('normalizeFuelType LNG', () => {
+  it('maps LNG names to LNG', () => {
+    expect(normalizeFuelType('Liquefied Natural Gas')).toBe('LNG');
+    expect(normalizeFuelType(' lng ')).toBe('LNG');
+    expect(normalizeFuelType('IFO380')).toBe('HSFO');
+    expect(normalizeFuelType('VLSFO')).toBe('VLSFO');
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * EU ETS Engine Unit Tests
+ *
+ * Tests for:
+ * - isEUETSPort / classifyLeg (intra-EU, extra-EU, at berth, out of scope)
+ * - getPhaseInPercent (phase-in table, before and after)
+ * - calculateVoyage (CO2, coverage, allowances, EUR/USD cost, per-MT fuel cost)
+ *
+ * Run with: npx jest tests/unit/engines/eu-ets-engine.test.ts
+ */
+
+import { EUETSEngine, isEUETSPort } from '@/lib/engines/eu-ets-engine';
+
+describe('EUETSEngine', () => {
+  const engine = new EUETSEngine({
+    phase_in_percent: { 2024: 40, 2025: 70, 2026: 100 },
+    intra_eu_coverage_percent: 100,
+    extra_eu_coverage_percent: 50,
+    at_berth_coverage_percent: 100,
+    eua_price_eur: 80,
+    eur_usd_rate: 1.1,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('classifyLeg', () => {
+    it('recognises EU/EEA ports by UN/LOCODE country prefix', () => {
+      expect(isEUETSPort('NLRTM')).toBe(true);
+      expect(isEUETSPort('noosl')).toBe(true);
+      expect(isEUETSPort('SGSIN')).toBe(false);
+      expect(isEUETSPort('')).toBe(false);
+      expect(isEUETSPort(undefined)).toBe(false);
+    });
+
+    it('classifies legs by their port calls', () => {
+      expect(engine.classifyLeg({ from_port_code: 'NLRTM', to_port_code: 'DEHAM' })).toEqual({
+        leg_type: 'intra_eu',
+        coverage_percent: 100,
+      });
+      expect(engine.classifyLeg({ from_port_code: 'SGSIN', to_port_code: 'NLRTM' })).toEqual({
+        leg_type: 'extra_eu',
+        coverage_percent: 50,
+      });
+      expect(engine.classifyLeg({ from_port_code: 'NLRTM', at_berth: true })).toEqual({
+        leg_type: 'at_berth',
+        coverage_percent: 100,
+      });
+      expect(engine.classifyLeg({ from_port_code: 'SGSIN', to_port_code: 'AEFJR' }).leg_type).toBe('out_of_scope');
+      expect(engine.classifyLeg({ from_port_code: 'SGSIN', at_berth: true }).coverage_percent).toBe(0);
+    });
+  });
+
+  describe('getPhaseInPercent', () => {
+    it('applies the phase-in for the reporting year', () => {
+      expect(engine.getPhaseInPercent(2023)).toBe(0);
+      expect(engine.getPhaseInPercent(2024)).toBe(40);
+      expect(engine.getPhaseInPercent(2025)).toBe(70);
+      expect(engine.getPhaseInPercent(2030)).toBe(100);
+    });
+  });
+
+  describe('calculateVoyage', () => {
+    it('prices an extra-EU voyage with an at-berth stay', () => {
+      const result = engine.calculateVoyage({
+        year: 2025,
+        legs: [
+          { from_port_code: 'SGSIN', to_port_code: 'NLRTM', fuel_consumed_mt: { VLSFO: 1000, LSMGO: 50 } },
+          { from_port_code: 'NLRTM', at_berth: true, fuel_consumed_mt: { LSMGO: 5 } },
+        ],
+      });
+
+      // Sea: (1000 × 3.151 + 50 × 3.206) = 3311.3 t CO2 × 50% × 70% = 1158.955 EUA
+      const [sea, berth] = result.legs;
+      expect(sea!.leg_type).toBe('extra_eu');
+      expect(sea!.co2_tonnes).toBeCloseTo(3311.3, 6);
+      expect(sea!.allowances).toBeCloseTo(1158.955, 6);
+      // Berth: 5 × 3.206 = 16.03 t CO2 × 100% × 70% = 11.221 EUA
+      expect(berth!.leg_type).toBe('at_berth');
+      expect(berth!.allowances).toBeCloseTo(11.221, 6);
+
+      expect(result.in_scope).toBe(true);
+      expect(result.phase_in_percent).toBe(70);
+      expect(result.allowances_required).toBeCloseTo(1170.176, 6);
+      expect(result.total_cost_eur).toBeCloseTo(1170.176 * 80, 6);
+      expect(result.total_cost_usd).toBeCloseTo(1170.176 * 80 * 1.1, 6);
+      expect(result.price_source).toBe('config');
+
+      // One extra tonne of VLSFO on the sea passage: 3.151 × 50% × 70% × €80 × 1.1
+      expect(result.voyage_cost_per_mt_fuel_usd.VLSFO).toBeCloseTo(97.0508, 4);
+    });
+
+    it('uses the supplied EUA price and reports out-of-scope voyages at zero cost', () => {
+      const result = engine.calculateVoyage({
+        year: 2026,
+        legs: [{ from_port_code: 'SGSIN', to_port_code: 'AEFJR', fuel_consumed_mt: { VLSFO: 500 } }],
+        eua_price_eur: 95,
+        price_source: 'api',
+      });
+
+      expect(result.in_scope).toBe(false);
+      expect(result.total_co2_tonnes).toBeCloseTo(1575.5, 6);
+      expect(result.allowances_required).toBe(0);
+      expect(result.total_cost_usd).toBe(0);
+      expect(result.eua_price_eur).toBe(95);
+      expect(result.price_source).toBe('api');
+      expect(result.voyage_cost_per_mt_fuel_usd.VLSFO).toBe(0);
+    });
+
+    it('warns when the year is before maritime EU ETS applies', () => {
+      const result = engine.calculateVoyage({
+        year: 2023,
+        legs: [{ from_port_code: 'NLRTM', to_port_code: 'DEHAM', fuel_consumed_mt: { VLSFO: 100 } }],
+      });
+      expect(result.in_scope).toBe(false);
+      expect(result.total_cost_eur).toBe(0);
+      expect(result.warnings).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * FuelEU Maritime Engine Unit Tests
+ *
+ * Tests for:
+ * - getWtWIntensity / calculateIntensity (fuel pathways incl. LNG slip and biofuel)
+ * - getTargetIntensity (reduction steps)
+ * - calculateVoyage (energy scope by leg, compliance balance, penalty)
+ * - Biofuel blend scenario (applyBiofuelBlend, extractFuelEUScenario)
+ *
+ * Run with: npx jest tests/unit/engines/fueleu-maritime-engine.test.ts
+ */
+
+import { FuelEUMaritimeEngine } from '@/lib/engines/fueleu-maritime-engine';
+import { extractFuelEUScenario } from '@/lib/utils/fueleu-scenario-extractor';
+
+describe('FuelEUMaritimeEngine', () => {
+  const engine = new FuelEUMaritimeEngine({
+    reference_ghg_intensity: 91.16,
+    reduction_percent: { 2025: 2, 2030: 6 },
+    intra_eu_coverage_percent: 100,
+    extra_eu_coverage_percent: 50,
+    at_berth_coverage_percent: 100,
+    penalty_eur_per_t_vlsfo_eq: 2400,
+    vlsfo_energy_mj_per_t: 41000,
+    biofuel_wtt_gco2e_per_mj: 14,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('intensity', () => {
+    it('computes well-to-wake intensity per fuel', () => {
+      // VLSFO: 13.2 + (3.151 + 0.00005 × 25 + 0.00018 × 298) / 0.041
+      expect(engine.getWtWIntensity('VLSFO')).toBeCloseTo(91.3924, 4);
+      expect(engine.getWtWIntensity('LSMGO')).toBeCloseTo(90.7674, 4);
+      // LNG with 3.1% methane slip
+      expect(engine.getWtWIntensity('LNG')).toBeCloseTo(89.2029, 4);
+      // FAME: biogenic CO2, WtT from params
+      expect(engine.getWtWIntensity('B100')).toBeCloseTo(15.4835, 4);
+    });
+
+    it('energy-weights the intensity of a fuel mix', () => {
+      const mix = engine.calculateIntensity({ VLSFO: 1000, LSMGO: 100 });
+      expect(mix.energy_mj).toBeCloseTo(41_000_000 + 4_270_000, 0);
+      expect(mix.ghg_intensity_gco2e_per_mj).toBeCloseTo(91.3335, 4);
+    });
+
+    it('steps the target by reduction period', () => {
+      expect(engine.getTargetIntensity(2024)).toBeCloseTo(91.16, 6);
+      expect(engine.getTargetIntensity(2027)).toBeCloseTo(89.3368, 4);
+      expect(engine.getTargetIntensity(2031)).toBeCloseTo(85.6904, 4);
+    });
+  });
+
+  describe('calculateVoyage', () => {
+    it('estimates deficit and penalty for an extra-EU voyage', () => {
+      const result = engine.calculateVoyage({
+        year: 2025,
+        legs: [{ from_port_code: 'SGSIN', to_port_code: 'NLRTM', fuel_consumed_mt: { VLSFO: 1000 } }],
+      });
+
+      // 50% of 41,000,000 MJ in scope; (89.3368 − 91.3924) × 20,500,000 MJ
+      expect(result.in_scope).toBe(true);
+      expect(result.energy_in_scope_mj).toBeCloseTo(20_500_000, 0);
+      expect(result.compliance_balance_tco2e).toBeCloseTo(-42.14, 2);
+      expect(result.compliant).toBe(false);
+      // |CB| / (91.3924 × 41,000) × 2,400
+      expect(result.penalty_eur).toBeCloseTo(26991, 0);
+    });
+
+    it('shows the intensity change of a biofuel blend scenario', () => {
+      const result = engine.calculateVoyage({
+        year: 2025,
+        legs: [
+          { from_port_code: 'SGSIN', to_port_code: 'NLRTM', fuel_consumed_mt: { VLSFO: 1000, LSMGO: 50 } },
+          { from_port_code: 'NLRTM', at_berth: true, fuel_consumed_mt: { LSMGO: 5 } },
+        ],
+        scenario: { blend_percent: 30, bunker_port: 'Rotterdam' },
+      });
+      const scenario = result.scenario!;
+
+      expect(scenario.blend_label).toBe('B30');
+      expect(scenario.fuel_mix_mt).toEqual({ VLSFO: 700, LSMGO: 55, B100: 300 });
+      expect(scenario.intensity_change_gco2e_per_mj).toBeLessThan(-15);
+      expect(scenario.compliance_balance_gco2e).toBeGreaterThan(0);
+      expect(scenario.penalty_eur).toBe(0);
+      expect(scenario.penalty_change_eur).toBeCloseTo(-result.penalty_eur, 6);
+    });
+
+    it('reports voyages without EU port calls as out of scope', () => {
+      const result = engine.calculateVoyage({
+        year: 2025,
+        legs: [{ from_port_code: 'SGSIN', to_port_code: 'AEFJR', fuel_consumed_mt: { VLSFO: 1000 } }],
+        scenario: { blend_percent: 30 },
+      });
+      expect(result.in_scope).toBe(false);
+      expect(result.penalty_eur).toBe(0);
+      expect(result.ghg_intensity_gco2e_per_mj).toBeCloseTo(91.3924, 4);
+      expect(result.scenario).toBeUndefined();
+    });
+  });
+
+  describe('blend scenarios', () => {
+    it('replaces the blend share of residual fuel only', () => {
+      expect(engine.applyBiofuelBlend({ HSFO: 100, VLSFO: 100, LSMGO: 20 }, 24)).toEqual({
+        HSFO: 76,
+        VLSFO: 76,
+        LSMGO: 20,
+        B100: 48,
+      });
+    });
+
+    it('extracts the blend and bunker port from a query', () => {
+      expect(extractFuelEUScenario('What if I bunker B30 at Rotterdam?')).toEqual({
+        blend_percent: 30,
+        bunker_port: 'Rotterdam',
+      });
+      expect(extractFuelEUScenario('FuelEU penalty with b24')).toEqual({ blend_percent: 24 });
+      expect(extractFuelEUScenario('FuelEU penalty Singapore to Rotterdam')).toBeNull();
+      expect(extractFuelEUScenario('use B0 fuel')).toBeNull();
+    });
+  });
+});
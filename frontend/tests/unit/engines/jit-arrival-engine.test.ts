@@ -0,0 +1,130 @@
+/**
+ * JIT Arrival Engine Unit Tests
+ *
+ * Tests for:
+ * - Slow steaming to arrive when the berth is free (window + anchorage waiting)
+ * - Fuel and CO2 saved vs arriving early and waiting at anchor
+ * - Postponed departure below the minimum speed; fixed departure waits at anchor instead
+ * - Target not reachable at service speed
+ * - Timeline re-timing and arrival window extraction from the query
+ *
+ * Run with: npx jest tests/unit/engines/jit-arrival-engine.test.ts
+ */
+
+import { JitArrivalEngine, type JitArrivalInput } from '@/lib/engines/jit-arrival-engine';
+import type { VesselPosition } from '@/lib/multi-agent/state';
+import { extractArrivalWindow } from '@/lib/utils/arrival-window-extractor';
+
+const PARAMETERS = {
+  min_speed_knots: 10,
+  anchorage_consumption_mt_per_day: 3,
+  default_service_consumption_mt_per_day: 35,
+};
+
+describe('JitArrivalEngine', () => {
+  const engine = new JitArrivalEngine(PARAMETERS);
+  // 3600 nm at 14 kn = 257.1 h
+  const base: JitArrivalInput = {
+    distance_nm: 3600,
+    planned_departure: '2026-04-01T00:00:00.000Z',
+    service_speed_knots: 14,
+    window_start: '2026-04-13T00:00:00.000Z',
+    anchorage_waiting_hours: 24,
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('slows down to arrive when the berth is expected to be free', () => {
+    const plan = engine.plan(base);
+
+    // Window opens at 288 h, plus 24 h congestion
+    expect(plan.target_arrival).toBe('2026-04-14T00:00:00.000Z');
+    expect(plan.recommended.speed_knots).toBeCloseTo(3600 / 312, 6);
+    expect(plan.recommended.departure).toBe(base.planned_departure);
+    expect(plan.recommended.arrival).toBe(plan.target_arrival);
+    expect(plan.recommended.anchorage_hours).toBeCloseTo(0, 6);
+    expect(plan.departure_delay_hours).toBe(0);
+
+    expect(plan.arrive_early.anchorage_hours).toBeCloseTo(312 - 3600 / 14, 6);
+    const earlyFuel = ((3600 / 14) / 24) * 35 + (plan.arrive_early.anchorage_hours / 24) * 3;
+    const jitFuel = (312 / 24) * 35 * Math.pow(3600 / 312 / 14, 3);
+    expect(plan.arrive_early.fuel_mt).toBeCloseTo(earlyFuel, 6);
+    expect(plan.recommended.fuel_mt).toBeCloseTo(jitFuel, 6);
+    expect(plan.fuel_saved_mt).toBeCloseTo(earlyFuel - jitFuel, 6);
+    // VLSFO Cf 3.151
+    expect(plan.co2_reduction_t).toBeCloseTo((earlyFuel - jitFuel) * 3.151, 6);
+    expect(plan.late).toBe(false);
+  });
+
+  it('postpones departure when even the minimum speed would arrive early', () => {
+    const plan = engine.plan({ ...base, window_start: '2026-04-20T00:00:00.000Z', anchorage_waiting_hours: 0 });
+
+    expect(plan.recommended.speed_knots).toBe(10);
+    expect(plan.departure_delay_hours).toBeCloseTo(456 - 360, 6);
+    expect(plan.recommended.departure).toBe('2026-04-05T00:00:00.000Z');
+    expect(plan.recommended.arrival).toBe('2026-04-20T00:00:00.000Z');
+    expect(plan.fuel_saved_mt).toBeGreaterThan(0);
+
+    const fixed = engine.plan({
+      ...base,
+      window_start: '2026-04-20T00:00:00.000Z',
+      anchorage_waiting_hours: 0,
+      departure_flexible: false,
+    });
+    expect(fixed.recommended.speed_knots).toBe(10);
+    expect(fixed.recommended.anchorage_hours).toBeCloseTo(96, 6);
+    expect(fixed.warnings[0]).toMatch(/still arrives early/);
+  });
+
+  it('keeps service speed and flags the plan when the target cannot be reached', () => {
+    const plan = engine.plan({
+      ...base,
+      window_start: '2026-04-08T00:00:00.000Z',
+      window_end: '2026-04-08T12:00:00.000Z',
+    });
+
+    expect(plan.late).toBe(true);
+    expect(plan.recommended).toEqual(plan.arrive_early);
+    expect(plan.fuel_saved_mt).toBe(0);
+    expect(plan.warnings.join(' ')).toMatch(/runs past the berth window end/);
+    expect(plan.warnings.join(' ')).toMatch(/cannot be reached at 14 kn/);
+  });
+
+  it('re-times the timeline from the recommended departure at the recommended speed', () => {
+    const plan = engine.plan({ ...base, window_start: '2026-04-20T00:00:00.000Z', anchorage_waiting_hours: 0 });
+    const timeline: VesselPosition[] = [0, 1800, 3600].map((nm, i) => ({
+      lat: 0,
+      lon: nm / 60,
+      datetime: '2026-04-01T00:00:00.000Z',
+      distance_from_start_nm: nm,
+      segment_index: i,
+    }));
+
+    expect(engine.retimeTimeline(timeline, plan, 3600).map((p) => p.datetime)).toEqual([
+      '2026-04-05T00:00:00.000Z',
+      '2026-04-12T12:00:00.000Z',
+      '2026-04-20T00:00:00.000Z',
+    ]);
+  });
+});
+
+describe('extractArrivalWindow', () => {
+  it('reads berth windows, arrival ranges and berth openings', () => {
+    expect(extractArrivalWindow('JIT from Singapore to Shanghai, berth window 2026-04-13 to 2026-04-15')).toEqual({
+      start: '2026-04-13T00:00:00.000Z',
+      end: '2026-04-15T00:00:00.000Z',
+    });
+    expect(extractArrivalWindow('arrive between 2026-04-13 06:00 and 2026-04-13 18:00')).toEqual({
+      start: '2026-04-13T06:00:00.000Z',
+      end: '2026-04-13T18:00:00.000Z',
+    });
+    expect(extractArrivalWindow('berth available from 2026-04-13T08:00')).toEqual({ start: '2026-04-13T08:00:00.000Z' });
+    expect(extractArrivalWindow('route from Singapore to Rotterdam')).toBeNull();
+  });
+});
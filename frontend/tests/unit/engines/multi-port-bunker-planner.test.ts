@@ -0,0 +1,153 @@
+/**
+ * Multi-Port Bunker Planner Unit Tests
+ *
+ * Tests for:
+ * - N-stop plans when one fill cannot cover the voyage (stop set, quantities, ROB checks)
+ * - Filling up at a cheap port and taking just enough elsewhere
+ * - Stop limit and deviation limit
+ * - Ranked alternatives keep the MultiBunkerAnalysis shape
+ *
+ * Run with: npx jest tests/unit/engines/multi-port-bunker-planner.test.ts
+ */
+
+import { planMultiPortBunker, type MultiPortPlannerInput } from '@/lib/engines/multi-port-bunker-planner';
+import type { RouteData } from '@/lib/multi-agent/state';
+import type { VesselProfile } from '@/lib/services/vessel-service';
+import type { FoundPort } from '@/lib/tools/port-finder';
+import type { PriceData, PriceFetcherOutput } from '@/lib/tools/price-fetcher';
+
+// Along the equator: 10° of longitude ≈ 600 nm; 6000 nm at 12 kn
+const ROUTE: RouteData = {
+  distance_nm: 6000,
+  estimated_hours: 500,
+  waypoints: Array.from({ length: 11 }, (_, i) => ({ lat: 0, lon: i * 10 })),
+  route_type: 'direct route',
+  origin_port_code: 'ORIGN',
+  destination_port_code: 'DESTN',
+};
+
+const VESSEL: VesselProfile = {
+  vessel_name: 'Long Ballast',
+  vessel_data: null,
+  initial_rob: { VLSFO: 60, LSMGO: 50 },
+  capacity: { VLSFO: 400, LSMGO: 100 },
+  consumption_vlsfo_per_day: 30,
+  consumption_lsmgo_per_day: 2,
+  operational_speed: 12,
+  fouling_factor: 1,
+};
+
+function foundPort(code: string, waypointIndex: number, distanceFromRoute = 0): FoundPort {
+  return {
+    port: { port_code: code, name: code, country: '', coordinates: { lat: 0, lon: waypointIndex * 10 }, fuel_capabilities: ['VLSFO'] },
+    distance_from_route_nm: distanceFromRoute,
+    nearest_waypoint_index: waypointIndex,
+    nearest_waypoint: { lat: 0, lon: waypointIndex * 10 },
+    deviation_nm: 2 * distanceFromRoute,
+    deviation_method: 'haversine',
+  };
+}
+
+function prices(byPort: Record<string, number>): PriceFetcherOutput {
+  const price = (price_per_mt: number): PriceData => ({
+    price: { fuel_type: 'VLSFO', price_per_mt, currency: 'USD' },
+    hours_since_update: 0,
+    is_fresh: true,
+    formatted_price: `$${price_per_mt}/MT`,
+  });
+  return {
+    prices_by_port: Object.fromEntries(Object.entries(byPort).map(([code, p]) => [code, [price(p)]])),
+    total_prices: Object.keys(byPort).length,
+    ports_with_prices: Object.keys(byPort).length,
+    ports_not_found: [],
+    stale_price_warnings: [],
+  };
+}
+
+describe('planMultiPortBunker', () => {
+  const ports = [foundPort('PORTA', 0), foundPort('PORTB', 2), foundPort('PORTC', 4), foundPort('PORTD', 6), foundPort('PORTE', 8)];
+  const input: MultiPortPlannerInput = {
+    route_data: ROUTE,
+    vessel_profile: VESSEL,
+    // 20.8 days at 30 + 2 MT/day
+    voyage_consumption: { VLSFO: 625, LSMGO: 41.7 },
+    candidate_ports: ports,
+    port_prices: prices({ PORTA: 700, PORTB: 500, PORTC: 700, PORTD: 690, PORTE: 700 }),
+    safety_margin_days: 1,
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('plans more than two stops with safe ROB at every arrival', () => {
+    const analysis = planMultiPortBunker(input);
+
+    expect(analysis.required).toBe(true);
+    const best = analysis.best_plan!;
+    expect(best.stops.length).toBeGreaterThanOrEqual(3);
+
+    // Stops in route order, ROB at or above the 1-day buffer (30 MT VLSFO) on every arrival
+    const along = best.stops.map((s) => s.distance_along_route_nm);
+    expect(along).toEqual([...along].sort((a, b) => a - b));
+    for (const stop of best.stops) {
+      expect(stop.arrival_rob.VLSFO).toBeGreaterThanOrEqual(30 - 1e-6);
+      expect(stop.departure_rob.VLSFO).toBeCloseTo(stop.arrival_rob.VLSFO + stop.bunker_quantity.VLSFO, 6);
+      expect(stop.port_call_cost_usd).toBeGreaterThan(0);
+    }
+    expect(best.final_rob.VLSFO).toBeGreaterThanOrEqual(30 - 1e-6);
+    expect(best.is_safe).toBe(true);
+
+    // Total = fuel at each stop + port calls
+    const total = best.stops.reduce((sum, s) => sum + s.estimated_cost_usd + (s.port_call_cost_usd ?? 0), 0);
+    expect(best.total_cost_usd).toBeCloseTo(total, 6);
+  });
+
+  it('fills up at the cheap port and buys just enough at dearer ones', () => {
+    const best = planMultiPortBunker(input).best_plan!;
+
+    const cheap = best.stops.find((s) => s.port_code === 'PORTB');
+    expect(cheap).toBeDefined();
+    const fullest = Math.max(...best.stops.map((s) => s.departure_rob.VLSFO));
+    expect(cheap!.departure_rob.VLSFO).toBeCloseTo(fullest, 6);
+
+    // The last stop only covers the run to the destination plus the buffer
+    const last = best.stops[best.stops.length - 1];
+    expect(best.final_rob.VLSFO).toBeCloseTo(30, 3);
+    expect(last.port_code).not.toBe('PORTB');
+  });
+
+  it('returns ranked alternatives in the MultiBunkerAnalysis shape', () => {
+    const analysis = planMultiPortBunker(input);
+
+    expect(analysis.plans.length).toBeGreaterThan(1);
+    expect(analysis.plans.map((p) => p.rank)).toEqual(analysis.plans.map((_, i) => i + 1));
+    const costs = analysis.plans.map((p) => p.total_cost_usd);
+    expect(costs).toEqual([...costs].sort((a, b) => a - b));
+    expect(analysis.best_plan).toBe(analysis.plans[0]);
+    expect(analysis.best_plan?.stops[0].position_on_route).toBe('departure');
+    expect(analysis.best_plan?.limitation_note).toMatch(/stop plan over 5 candidate ports/);
+  });
+
+  it('reports no plan when the stop limit is too low and skips ports far off the route', () => {
+    const limited = planMultiPortBunker({ ...input, max_stops: 2 });
+    expect(limited.plans).toHaveLength(0);
+    expect(limited.error_message).toMatch(/up to 2 stops/);
+
+    const farOff = planMultiPortBunker({
+      ...input,
+      candidate_ports: [...ports.filter((p) => p.port.port_code !== 'PORTB'), foundPort('PORTB', 2, 150)],
+    });
+    expect(farOff.best_plan?.stops.some((s) => s.port_code === 'PORTB')).toBe(false);
+  });
+
+  it('does not plan when a single fill covers the voyage', () => {
+    const analysis = planMultiPortBunker({ ...input, voyage_consumption: { VLSFO: 150, LSMGO: 10 } });
+    expect(analysis.required).toBe(false);
+    expect(analysis.plans).toHaveLength(0);
+  });
+});
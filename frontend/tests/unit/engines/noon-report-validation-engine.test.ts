@@ -0,0 +1,221 @@
+/**
+ * Noon Report Validation Engine Unit Tests
+ *
+ * Tests for:
+ * - Consistent reports (GOOD badge)
+ * - ROB rising without bunkering (excluded; next report checked against the last usable one)
+ * - Unreported bunkering confirmed by the next report (suspect; later reports checked against it)
+ * - ROB vs consumption, impossible speed, position jump, distance / time mismatch
+ * - Consumption vs performance model and vs the vessel's history
+ * - Badge levels and hull record weighting (validateHullRecords)
+ *
+ * Run with: npx jest tests/unit/engines/noon-report-validation-engine.test.ts
+ */
+
+import {
+  NoonReportValidationEngine,
+  type NoonReportObservation,
+} from '@/lib/engines/noon-report-validation-engine';
+import { validateHullRecords } from '@/lib/services/noon-report-quality-service';
+import { buildMockHullPerformanceResponse } from '@/tests/utils/hull-performance-test-utils';
+
+/** 14 kn along the equator: 336 nm = 5.6° of longitude per day, 30 MT VLSFO per day */
+function series(days: number): NoonReportObservation[] {
+  return Array.from({ length: days }, (_, i) => ({
+    date: new Date(Date.UTC(2025, 2, 1 + i, 12)).toISOString(),
+    event: 'Noon at Sea',
+    latitude: 0,
+    longitude: 60 + 5.6 * i,
+    speed_knots: 14,
+    steaming_hours: 24,
+    distance_nm: 336,
+    rob_mt: { VLSFO: 900 - 30 * i, LSMGO: 100 },
+    consumption_mt: { VLSFO: 30, LSMGO: 0 },
+  }));
+}
+
+describe('NoonReportValidationEngine', () => {
+  const engine = new NoonReportValidationEngine({
+    max_speed_knots: 30,
+    rob_increase_tolerance_mt: 1,
+    rob_balance_tolerance_mt: 2,
+    rob_balance_tolerance_percent: 10,
+    distance_speed_tolerance_percent: 15,
+    steaming_interval_tolerance_hours: 1,
+    model_deviation_percent: 30,
+    history_z_score: 3.5,
+    history_min_reports: 5,
+    penalty_high: 60,
+    penalty_medium: 25,
+    penalty_low: 10,
+    exclude_below_score: 50,
+    good_score: 85,
+    fair_score: 60,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rates consistent reports GOOD', () => {
+    const result = engine.validate(series(6));
+
+    expect(result.reports.every((r) => r.status === 'valid' && r.weight === 1)).toBe(true);
+    expect(result.data_quality).toMatchObject({
+      level: 'GOOD',
+      indicator: '🟢',
+      score: 100,
+      valid_count: 6,
+      latest_excluded: false,
+      latest_usable_date: '2025-03-06T12:00:00.000Z',
+    });
+    expect(engine.formatBadge(result.data_quality)).toBe(
+      '🟢 Noon report data quality: GOOD (score 100/100). All 6 noon report(s) consistent.'
+    );
+  });
+
+  it('excludes ROB rising without bunkering and checks the next report against the last usable one', () => {
+    const reports = series(5);
+    reports[2]!.rob_mt = { VLSFO: 1200, LSMGO: 100 };
+
+    const result = engine.validate(reports);
+
+    expect(result.reports[2]).toMatchObject({ status: 'excluded', weight: 0, score: 40 });
+    expect(result.reports[2]!.anomalies[0]).toMatchObject({
+      code: 'rob_increase_without_bunkering',
+      severity: 'high',
+      message: 'VLSFO ROB rose 330.0 MT (870.0 → 1200.0) without a bunkering report',
+    });
+    // 840 → 810 over two days against 870 with 30 MT consumed is a ROB balance mismatch, not an increase
+    expect(result.reports[3]!.anomalies.map((a) => a.code)).toEqual(['rob_consumption_mismatch']);
+    expect(result.reports[4]!.status).toBe('valid');
+
+    // A bunkering report may raise ROB
+    const bunkered = series(3);
+    bunkered[2] = { ...bunkered[2]!, event: 'Bunkering', rob_mt: { VLSFO: 1500, LSMGO: 100 } };
+    expect(engine.validate(bunkered).reports[2]!.status).toBe('valid');
+  });
+
+  it('treats a rise the next reports carry on from as an unreported bunkering', () => {
+    const rob = [480, 450, 420, 900, 870, 840, 810];
+    const events = ['Noon at Sea', 'Noon at Sea', 'Arrival', 'In Port', 'Noon at Sea', 'Noon at Sea', 'Noon at Sea'];
+    const reports = series(7).map((r, i) => ({
+      ...r,
+      latitude: undefined,
+      longitude: undefined,
+      event: events[i],
+      rob_mt: { VLSFO: rob[i]! },
+    }));
+
+    const result = engine.validate(reports);
+
+    expect(result.reports[3]).toMatchObject({ status: 'suspect', weight: 0.75 });
+    expect(result.reports[3]!.anomalies).toEqual([
+      expect.objectContaining({
+        code: 'unreported_bunkering',
+        severity: 'medium',
+        message: 'VLSFO ROB rose 480.0 MT (420.0 → 900.0) outside a bunkering report; next report confirms the new level',
+      }),
+    ]);
+    expect(result.reports.slice(4).every((r) => r.status === 'valid')).toBe(true);
+    expect(result.data_quality).toMatchObject({
+      excluded_count: 0,
+      latest_usable_date: '2025-03-07T12:00:00.000Z',
+    });
+  });
+
+  it('flags impossible speed, position jumps and distance / time mismatches', () => {
+    const reports = series(4).map((r) => ({ ...r, rob_mt: undefined }));
+    reports[1]!.speed_knots = 45;
+    reports[1]!.distance_nm = 1080;
+    reports[2]!.longitude = 120;
+    reports[3]!.distance_nm = 250;
+
+    const result = engine.validate(reports);
+
+    expect(result.reports[1]!.anomalies.map((a) => a.code)).toEqual(['impossible_speed']);
+    expect(result.reports[1]!.status).toBe('excluded');
+    // Checked against day 1: 60° of longitude in 48 h
+    expect(result.reports[2]!.anomalies.map((a) => a.code)).toEqual(['position_jump']);
+    expect(result.reports[2]!.status).toBe('excluded');
+    // Checked against day 1: 16.8° in 72 h is 14 kn, but 250 nm in 24 h is not
+    expect(result.reports[3]!.anomalies).toEqual([
+      expect.objectContaining({ code: 'distance_time_mismatch', severity: 'medium' }),
+    ]);
+    expect(result.reports[3]!.status).toBe('suspect');
+    expect(result.reports[3]!.weight).toBe(0.75);
+  });
+
+  it('flags consumption far from the performance model and the vessel history', () => {
+    const reports = series(8).map((r) => ({ ...r, rob_mt: undefined, predicted_consumption_mt_per_day: 30 }));
+    reports.forEach((r, i) => (r.consumption_mt = { VLSFO: 29 + (i % 3) }));
+    reports[5]!.consumption_mt = { VLSFO: 55 };
+
+    const result = engine.validate(reports);
+
+    expect(result.reports[5]!.anomalies.map((a) => a.code)).toEqual(['consumption_vs_model', 'consumption_vs_history']);
+    expect(result.reports[5]!.score).toBe(65);
+    expect(result.data_quality.anomaly_counts).toEqual({ consumption_vs_model: 1, consumption_vs_history: 1 });
+    expect(result.reports.filter((r) => r.status === 'valid')).toHaveLength(7);
+  });
+
+  it('downgrades the badge when the latest report is excluded or none is usable', () => {
+    const reports = series(10);
+    reports[9]!.speed_knots = 60;
+    reports[9]!.distance_nm = 1440;
+    reports[9]!.longitude = 150;
+
+    const quality = engine.validate(reports).data_quality;
+    expect(quality).toMatchObject({
+      level: 'FAIR',
+      latest_excluded: true,
+      excluded_count: 1,
+      latest_usable_date: '2025-03-09T12:00:00.000Z',
+    });
+    expect(quality.message).toContain('Latest report excluded; using 2025-03-09T12:00:00.000Z.');
+
+    const single = engine.validate([{ ...series(1)[0]!, speed_knots: -3 }]).data_quality;
+    expect(single).toMatchObject({ level: 'POOR', indicator: '🔴', latest_usable_date: null });
+    expect(engine.validate([]).data_quality.level).toBe('POOR');
+  });
+});
+
+describe('validateHullRecords', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('drops excluded hull records and weights suspect ones', () => {
+    const day = (d: number) => `2025-01-${String(d).padStart(2, '0')}T00:00:00Z`;
+    const good = buildMockHullPerformanceResponse({ id: 1, report_date: day(1), utc_date_time: day(1) });
+    const suspect = buildMockHullPerformanceResponse({
+      id: 2,
+      report_date: day(2),
+      utc_date_time: day(2),
+      distance_travelled_actual: 250,
+    });
+    const impossible = buildMockHullPerformanceResponse({
+      id: 3,
+      report_date: day(3),
+      utc_date_time: day(3),
+      speed: 38,
+      distance_travelled_actual: 912,
+    });
+
+    const { records, weights, data_quality } = validateHullRecords([good, suspect, impossible]);
+
+    expect(records).toEqual([good, suspect]);
+    expect(weights.get(good)).toBe(1);
+    expect(weights.get(suspect)).toBe(0.75);
+    expect(weights.has(impossible)).toBe(false);
+    expect(data_quality).toMatchObject({ excluded_count: 1, suspect_count: 1, latest_excluded: true });
+  });
+});
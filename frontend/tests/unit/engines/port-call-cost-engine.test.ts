@@ -0,0 +1,183 @@
+/**
+ * Port Call Cost Engine Unit Tests
+ *
+ * Tests for:
+ * - Bunkering duration from supply rate (port capabilities, port table, default) and hose handling
+ * - Waiting time from berth availability text or date, port table and default
+ * - Delay cost at daily hire/opex plus port dues and agency fee
+ * - Bunker analyzer: a cheap port with long anchorage waiting no longer wins
+ * - Multi-port optimizer: each stop pays its port call
+ *
+ * Run with: npx jest tests/unit/engines/port-call-cost-engine.test.ts
+ */
+
+import { PortCallCostEngine, parseBerthAvailabilityHours } from '@/lib/engines/port-call-cost-engine';
+import { optimizeMultiPortBunkering } from '@/lib/engines/multi-port-optimizer';
+import { bunkerDataService } from '@/lib/services/bunker-data-service';
+import { analyzeBunkerOptions } from '@/lib/tools/bunker-analyzer';
+import type { FoundPort } from '@/lib/tools/port-finder';
+import type { PriceData, PriceFetcherOutput } from '@/lib/tools/price-fetcher';
+
+const PARAMETERS = {
+  default_supply_rate_mt_per_hour: 300,
+  hose_handling_hours: 3,
+  default_waiting_hours: 6,
+  daily_hire_usd: 15000,
+  daily_opex_usd: 6000,
+  default_port_dues_usd: 4000,
+  default_agency_fee_usd: 2000,
+};
+
+const PORT_TABLE = {
+  SGSIN: { port_dues_usd: 3500, agency_fee_usd: 1500, waiting_hours: 12, supply_rate_mt_per_hour: 400 },
+};
+
+describe('PortCallCostEngine', () => {
+  const engine = new PortCallCostEngine(PARAMETERS, PORT_TABLE);
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('costs waiting and bunkering time at daily hire + opex plus port charges', () => {
+    const call = engine.estimate({ port_code: 'sgsin', quantity_mt: 2000 });
+
+    expect(call.supply_rate_source).toBe('port_table');
+    // 3 h hose handling + 2000 MT / 400 MT/h
+    expect(call.bunkering_hours).toBeCloseTo(8, 6);
+    expect(call.waiting_hours).toBe(12);
+    expect(call.waiting_source).toBe('port_table');
+    // 20 h × 21,000 USD/day
+    expect(call.delay_cost_usd).toBeCloseTo((20 / 24) * 21000, 6);
+    expect(call.total_cost_usd).toBeCloseTo(17500 + 3500 + 1500, 6);
+  });
+
+  it('prefers port capabilities over the port table and falls back to defaults', () => {
+    const withCapabilities = engine.estimate({
+      port_code: 'SGSIN',
+      quantity_mt: 1000,
+      capabilities: {
+        portCode: 'SGSIN',
+        availableFuelTypes: ['VLSFO'],
+        maxSupplyRate: 500,
+        berthAvailability: '2 days',
+        ecaZone: false,
+      },
+    });
+    expect(withCapabilities.supply_rate_mt_per_hour).toBe(500);
+    expect(withCapabilities.supply_rate_source).toBe('port_capabilities');
+    expect(withCapabilities.waiting_hours).toBe(48);
+    expect(withCapabilities.berth_availability).toBe('2 days');
+
+    const unknown = engine.estimate({ port_code: 'XXXXX', quantity_mt: 600 });
+    expect(unknown.supply_rate_source).toBe('default');
+    expect(unknown.bunkering_hours).toBeCloseTo(5, 6);
+    expect(unknown.waiting_source).toBe('default');
+    expect(unknown.port_dues_usd + unknown.agency_fee_usd).toBe(6000);
+  });
+
+  it('parses berth availability as text, duration or date', () => {
+    expect(parseBerthAvailabilityHours('Immediate')).toBe(0);
+    expect(parseBerthAvailabilityHours('36 hours')).toBe(36);
+    expect(parseBerthAvailabilityHours('1.5d')).toBe(36);
+    expect(parseBerthAvailabilityHours('2026-04-03T12:00:00.000Z', '2026-04-02T00:00:00.000Z')).toBeCloseTo(36, 6);
+    expect(parseBerthAvailabilityHours('2026-04-01T00:00:00.000Z', '2026-04-02T00:00:00.000Z')).toBe(0);
+    expect(parseBerthAvailabilityHours('ask agent')).toBeUndefined();
+  });
+});
+
+describe('analyzeBunkerOptions with port call cost', () => {
+  const foundPort = (code: string, name: string): FoundPort => ({
+    port: { port_code: code, name, country: '', coordinates: { lat: 0, lon: 0 }, fuel_capabilities: ['VLSFO'] },
+    distance_from_route_nm: 0,
+    nearest_waypoint_index: 0,
+    nearest_waypoint: { lat: 0, lon: 0 },
+    deviation_nm: 0,
+    deviation_method: 'port_call',
+  });
+  const price = (price_per_mt: number): PriceData => ({
+    price: { fuel_type: 'VLSFO', price_per_mt, currency: 'USD' },
+    hours_since_update: 0,
+    is_fresh: true,
+    formatted_price: `$${price_per_mt}/MT`,
+  });
+  const portPrices: PriceFetcherOutput = {
+    prices_by_port: { CHEAP: [price(600)], QUICK: [price(605)] },
+    total_prices: 2,
+    ports_with_prices: 2,
+    ports_not_found: [],
+    stale_price_warnings: [],
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(bunkerDataService, 'fetchHistoricalBunkerPrices').mockResolvedValue([]);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('ranks a cheap port with two days of anchorage waiting below a quick one', async () => {
+    const input = {
+      bunker_ports: [foundPort('CHEAP', 'Cheap Anchorage'), foundPort('QUICK', 'Quick Berth')],
+      port_prices: portPrices,
+      fuel_quantity_mt: 1000,
+    };
+
+    // Same default waiting at both ports: the 5 USD/MT cheaper port wins
+    const noCapabilities = await analyzeBunkerOptions(input);
+    expect(noCapabilities.best_option.port_code).toBe('CHEAP');
+
+    const result = await analyzeBunkerOptions({
+      ...input,
+      port_capabilities: {
+        CHEAP: { portCode: 'CHEAP', availableFuelTypes: ['VLSFO'], berthAvailability: '2 days', ecaZone: false },
+        QUICK: { portCode: 'QUICK', availableFuelTypes: ['VLSFO'], berthAvailability: 'immediate', ecaZone: false },
+      },
+    });
+
+    const cheap = result.recommendations.find((r) => r.port_code === 'CHEAP');
+    expect(result.best_option.port_code).toBe('QUICK');
+    expect(cheap?.port_call.waiting_hours).toBe(48);
+    expect(cheap?.total_cost).toBeCloseTo((cheap?.fuel_cost ?? 0) + (cheap?.port_call_cost_usd ?? 0), 6);
+    expect(result.analysis_summary).toMatch(/Port Call Cost: \$[\d,]+ \(0h waiting/);
+  });
+});
+
+describe('optimizeMultiPortBunkering with port call cost', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('adds each stop’s port call to the strategy cost and time', () => {
+    const params = {
+      totalFuelRequired: 1500,
+      tankCapacity: 1000,
+      currentROB: 0,
+      availablePorts: [
+        { port_code: 'AAAAA', port_name: 'Alpha', price_per_mt: 600, deviation_nm: 0 },
+        { port_code: 'BBBBB', port_name: 'Bravo', price_per_mt: 610, deviation_nm: 0 },
+      ],
+    };
+
+    const withoutCalls = optimizeMultiPortBunkering(params);
+    const withCalls = optimizeMultiPortBunkering({ ...params, includePortCallCost: true });
+
+    expect(withoutCalls?.total_port_call_cost).toBeUndefined();
+    const portCallCost = withCalls?.ports.reduce((sum, stop) => sum + (stop.port_call_cost ?? 0), 0) ?? 0;
+    expect(portCallCost).toBeGreaterThan(0);
+    expect(withCalls?.total_port_call_cost).toBeCloseTo(portCallCost, 6);
+    expect(withCalls?.total_cost).toBeCloseTo((withoutCalls?.total_cost ?? 0) + portCallCost, 6);
+    expect(withCalls?.time_impact_hours).toBeGreaterThan(withoutCalls?.time_impact_hours ?? 0);
+  });
+});
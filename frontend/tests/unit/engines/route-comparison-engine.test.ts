@@ -0,0 +1,114 @@
+/**
+ * Route Comparison Engine Unit Tests
+ *
+ * Tests for:
+ * - calculateRouteCost (fuel, canal toll, EU ETS, FuelEU penalty, time cost)
+ * - compareRoutes (cheapest flag, cost vs cheapest, ordering)
+ * - Route constraints from queries (extractRouteConstraints)
+ *
+ * Run with: npx jest tests/unit/engines/route-comparison-engine.test.ts
+ */
+
+import { RouteComparisonEngine, type RouteCostInput } from '@/lib/engines/route-comparison-engine';
+import { extractRouteConstraints } from '@/lib/utils/route-constraint-extractor';
+
+describe('RouteComparisonEngine', () => {
+  const engine = new RouteComparisonEngine({
+    daily_vessel_cost_usd: 25000,
+    default_fuel_price_usd_per_mt: 600,
+  });
+
+  const viaSuez: RouteCostInput = {
+    route_id: 'SGSIN-NLRTM-suez_canal',
+    route_type: 'via Suez Canal',
+    distance_nm: 8400,
+    estimated_hours: 600,
+    fuel_consumption_mt: 875,
+    fuel_price_usd_per_mt: 620,
+    canal_toll_usd: 450000,
+    eu_ets_cost_usd: 60000,
+  };
+  const viaCape: RouteCostInput = {
+    route_id: 'SGSIN-NLRTM-cape_of_good_hope',
+    route_type: 'via Cape of Good Hope',
+    distance_nm: 11960,
+    estimated_hours: 854.4,
+    fuel_consumption_mt: 1246,
+    fuel_price_usd_per_mt: 620,
+    eu_ets_cost_usd: 85000,
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('calculateRouteCost', () => {
+    it('sums fuel, toll, EU ETS, FuelEU and time cost', () => {
+      const cost = engine.calculateRouteCost({ ...viaSuez, fueleu_penalty_usd: 20000 });
+
+      expect(cost.voyage_days).toBeCloseTo(25, 6);
+      expect(cost.fuel_cost_usd).toBeCloseTo(542500, 6);
+      expect(cost.time_cost_usd).toBeCloseTo(625000, 6);
+      // 542,500 + 450,000 + 60,000 + 20,000 + 625,000
+      expect(cost.total_cost_usd).toBeCloseTo(1697500, 6);
+    });
+
+    it('uses the default fuel price and zero for missing costs', () => {
+      const cost = engine.calculateRouteCost({
+        route_id: 'r1',
+        route_type: 'direct route',
+        distance_nm: 1000,
+        estimated_hours: 48,
+        fuel_consumption_mt: 100,
+      });
+      expect(cost.fuel_cost_usd).toBe(60000);
+      expect(cost.canal_toll_usd).toBe(0);
+      expect(cost.eu_ets_cost_usd).toBe(0);
+      expect(cost.total_cost_usd).toBeCloseTo(110000, 6);
+    });
+  });
+
+  describe('compareRoutes', () => {
+    it('ranks alternatives cheapest first', () => {
+      const result = engine.compareRoutes([viaCape, viaSuez]);
+
+      expect(result.routes.map((r) => r.route_id)).toEqual([viaSuez.route_id, viaCape.route_id]);
+      expect(result.cheapest_route_id).toBe(viaSuez.route_id);
+      expect(result.routes[0].cheapest).toBe(true);
+      expect(result.routes[1].cheapest).toBe(false);
+      expect(result.routes[0].cost_vs_cheapest_usd).toBe(0);
+      expect(result.routes[1].cost_vs_cheapest_usd).toBeCloseTo(result.max_savings_usd, 6);
+      expect(result.max_savings_usd).toBeGreaterThan(0);
+    });
+
+    it('favours the Cape when the canal toll outweighs the extra days', () => {
+      const result = engine.compareRoutes([{ ...viaSuez, canal_toll_usd: 2_000_000 }, viaCape]);
+      expect(result.cheapest_route_id).toBe(viaCape.route_id);
+    });
+
+    it('requires at least one alternative', () => {
+      expect(() => engine.compareRoutes([])).toThrow('At least one route alternative');
+    });
+  });
+
+  describe('route constraints', () => {
+    it('extracts passages to avoid', () => {
+      expect(extractRouteConstraints('Singapore to Rotterdam avoiding the Red Sea').avoid).toEqual(['red_sea']);
+      expect(extractRouteConstraints('Route SGSIN-NLRTM, avoid high-risk areas').avoid).toEqual(['red_sea']);
+      expect(extractRouteConstraints('New York to LA not via Panama').avoid).toEqual(['panama_canal']);
+      expect(extractRouteConstraints('Fujairah to Rotterdam via the Cape of Good Hope').avoid).toEqual(['suez_canal']);
+      expect(extractRouteConstraints('Singapore to Rotterdam').avoid).toEqual([]);
+    });
+
+    it('detects route comparison requests', () => {
+      const suezVsCape = extractRouteConstraints('Singapore to Rotterdam: Suez vs Cape of Good Hope?');
+      expect(suezVsCape).toEqual({ avoid: [], compare_alternatives: true });
+      expect(extractRouteConstraints('Show route alternatives from Shanghai to Hamburg').compare_alternatives).toBe(true);
+      expect(extractRouteConstraints('Compare vessel A vs vessel B').compare_alternatives).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Safety Margin Engine Unit Tests
+ *
+ * Tests for:
+ * - calculateSafetyMargin (days rule vs percentage rule, weather risk extra days, ECA addition)
+ * - assessWeatherRisk (consumption increase and wave height thresholds)
+ * - getParameters (overrides over defaults)
+ *
+ * Run with: npx jest tests/unit/engines/safety-margin-engine.test.ts
+ */
+
+import { SafetyMarginEngine } from '@/lib/engines/safety-margin-engine';
+import type { WeatherConsumption } from '@/lib/multi-agent/state';
+
+describe('SafetyMarginEngine', () => {
+  const engine = new SafetyMarginEngine({
+    min_safety_days: 3,
+    min_safety_percentage: 15,
+    critical_threshold_days: 1,
+    weather_risk_extra_days: { low: 0, medium: 0.5, high: 1 },
+    eca_margin_percentage: 12,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('calculateSafetyMargin', () => {
+    it('uses the days rule on short voyages', () => {
+      const result = engine.calculateSafetyMargin({
+        voyage_days: 10,
+        daily_consumption: { VLSFO: 30, LSMGO: 0 },
+      });
+
+      // 3 days × 30 = 90 MT > 15% × 300 = 45 MT
+      expect(result.driving_rule).toBe('min_safety_days');
+      expect(result.required_mt.VLSFO).toBeCloseTo(90, 6);
+      expect(result.required_days).toBeCloseTo(3, 6);
+      expect(result.required_fraction).toBeCloseTo(0.3, 6);
+      expect(result.explanation).toContain('min_safety_days');
+    });
+
+    it('uses the percentage rule on long voyages', () => {
+      const result = engine.calculateSafetyMargin({
+        voyage_days: 40,
+        daily_consumption: { VLSFO: 30, LSMGO: 0 },
+      });
+
+      // 15% × 1200 = 180 MT > 3 days × 30 = 90 MT
+      expect(result.driving_rule).toBe('min_safety_percentage');
+      expect(result.required_mt.VLSFO).toBeCloseTo(180, 6);
+      expect(result.required_days).toBeCloseTo(6, 6);
+      expect(result.required_fraction).toBeCloseTo(0.15, 6);
+    });
+
+    it('adds extra reserve days for weather risk', () => {
+      const result = engine.calculateSafetyMargin({
+        voyage_days: 10,
+        daily_consumption: { VLSFO: 30, LSMGO: 0 },
+        weather_risk: 'high',
+      });
+
+      expect(result.weather_risk).toBe('high');
+      expect(result.required_days).toBeCloseTo(4, 6);
+      expect(result.required_mt.VLSFO).toBeCloseTo(120, 6);
+      expect(result.explanation).toContain('high weather risk');
+    });
+
+    it('adds the ECA margin to the LSMGO reserve', () => {
+      const result = engine.calculateSafetyMargin({
+        voyage_days: 10,
+        daily_consumption: { VLSFO: 30, LSMGO: 5 },
+        eca_consumption_mt: 50,
+      });
+
+      // LSMGO: 3 days × 5 = 15 MT + 12% × 50 = 6 MT
+      expect(result.by_grade.LSMGO.eca_addition_mt).toBeCloseTo(6, 6);
+      expect(result.required_mt.LSMGO).toBeCloseTo(21, 6);
+      expect(result.by_grade.LSMGO.required_days).toBeCloseTo(4.2, 6);
+      expect(result.required_days).toBeCloseTo(4.2, 6);
+    });
+
+    it('reports the critical threshold in MT per grade', () => {
+      const result = engine.calculateSafetyMargin({
+        voyage_days: 10,
+        daily_consumption: { VLSFO: 30, LSMGO: 5 },
+      });
+
+      expect(result.critical_mt).toEqual({ VLSFO: 30, LSMGO: 5 });
+      expect(result.critical_threshold_days).toBe(1);
+    });
+  });
+
+  describe('assessWeatherRisk', () => {
+    const weather = (increase: number, maxWave: number) =>
+      ({
+        consumption_increase_percent: increase,
+        voyage_weather_summary: { max_wave_height_m: maxWave },
+      }) as unknown as WeatherConsumption;
+
+    it('classifies risk from consumption increase and wave height', () => {
+      expect(engine.assessWeatherRisk(null)).toBe('low');
+      expect(engine.assessWeatherRisk(weather(2, 1.5))).toBe('low');
+      expect(engine.assessWeatherRisk(weather(6, 1.5))).toBe('medium');
+      expect(engine.assessWeatherRisk(weather(2, 4.5))).toBe('high');
+      expect(engine.assessWeatherRisk(weather(20, 1))).toBe('high');
+    });
+  });
+
+  describe('getParameters', () => {
+    it('applies overrides on top of defaults', () => {
+      const params = new SafetyMarginEngine({ min_safety_days: 5 }).getParameters();
+      expect(params.min_safety_days).toBe(5);
+      expect(params.min_safety_percentage).toBe(15);
+      expect(params.weather_risk_extra_days.medium).toBe(0.5);
+    });
+  });
+});
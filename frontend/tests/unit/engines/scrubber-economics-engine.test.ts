@@ -0,0 +1,208 @@
+/**
+ * Scrubber Economics Engine Unit Tests
+ *
+ * Tests for:
+ * - HSFO + scrubber vs VLSFO comparison (savings, breakeven spread, HSFO price estimate)
+ * - Route segments by ECA and discharge-ban area (buildRouteSegments)
+ * - ECA engine scrubber fuel selection (discharge bans by scrubber type)
+ * - ROB tracking of HSFO
+ * - HSFO price grade names (normalizeFuelType)
+ *
+ * Run with: npx jest tests/unit/engines/scrubber-economics-engine.test.ts
+ */
+
+import { ECAConsumptionEngine, type RouteSegment } from '@/lib/engines/eca-consumption-engine';
+import { ROBTrackingEngine } from '@/lib/engines/rob-tracking-engine';
+import { ScrubberEconomicsEngine } from '@/lib/engines/scrubber-economics-engine';
+import { normalizeFuelType } from '@/lib/utils/fuel-grade';
+
+const BASE_CONSUMPTION = { main_engine_mt_per_day: 40, auxiliary_mt_per_day: 0, total_mt_per_day: 40 };
+
+// 14 knots → 336 nm per day
+const SEGMENTS: RouteSegment[] = [
+  {
+    segment_id: 'seg_0',
+    from: 'SGSIN',
+    to: 'Boundary 1',
+    distance_nm: 33.6,
+    is_eca: false,
+    scrubber_discharge_ban: { area: 'Singapore port limits', applies_to: ['open_loop'] },
+  },
+  { segment_id: 'seg_1', from: 'Boundary 1', to: 'Boundary 2', distance_nm: 3024, is_eca: false },
+  { segment_id: 'seg_2', from: 'Boundary 2', to: 'NLRTM', distance_nm: 336, is_eca: true, eca_zone_name: 'North Sea' },
+];
+
+describe('ScrubberEconomicsEngine', () => {
+  const engine = new ScrubberEconomicsEngine({
+    scrubber_power_penalty_percent: 2,
+    open_loop_opex_usd_per_day: 250,
+    closed_loop_opex_usd_per_day: 900,
+    hybrid_opex_usd_per_day: 400,
+    hsfo_discount_usd_per_mt: 110,
+    lsmgo_vlsfo_price_ratio: 1.4,
+    sample_interval_nm: 10,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('compareStrategies', () => {
+    it('prices both strategies and recommends HSFO when the spread covers the scrubber cost', () => {
+      const result = engine.compareStrategies({
+        scrubber: { fitted: true, type: 'open_loop' },
+        base_consumption: BASE_CONSUMPTION,
+        route_segments: SEGMENTS,
+        speed_knots: 14,
+        prices: { VLSFO: 600, HSFO: 450, LSMGO: 800 },
+      });
+
+      // Open loop: banned in Singapore (0.1 day on VLSFO), runs 9 days outside and 1 day in the ECA
+      expect(result.hsfo_scrubber.consumption_mt.HSFO).toBeCloseTo(400 * 1.02, 6);
+      expect(result.hsfo_scrubber.consumption_mt.VLSFO).toBeCloseTo(4, 6);
+      expect(result.hsfo_scrubber.scrubber_days).toBeCloseTo(10, 6);
+      expect(result.vlsfo.consumption_mt).toMatchObject({ HSFO: 0 });
+      expect(result.vlsfo.consumption_mt.VLSFO).toBeCloseTo(364, 6);
+      expect(result.vlsfo.consumption_mt.LSMGO).toBeCloseTo(40, 6);
+
+      // VLSFO: 364 × 600 + 40 × 800 = 250,400; scrubber: 408 × 450 + 4 × 600 + 10 × 250 = 188,500
+      expect(result.vlsfo.total_cost_usd).toBeCloseTo(250400, 6);
+      expect(result.hsfo_scrubber.total_cost_usd).toBeCloseTo(188500, 6);
+      expect(result.savings_usd).toBeCloseTo(61900, 6);
+      expect(result.recommended).toBe('HSFO_SCRUBBER');
+      expect(result.restricted_areas).toEqual(['Singapore port limits']);
+      expect(result.restricted_distance_nm).toBeCloseTo(33.6, 6);
+
+      // Breakeven: the spread at which both strategies cost the same
+      const atBreakeven = engine.compareStrategies({
+        scrubber: { fitted: true, type: 'open_loop' },
+        base_consumption: BASE_CONSUMPTION,
+        route_segments: SEGMENTS,
+        speed_knots: 14,
+        prices: { VLSFO: 600, HSFO: 600 - (result.breakeven_spread_usd_per_mt as number), LSMGO: 800 },
+      });
+      expect(atBreakeven.savings_usd).toBeCloseTo(0, 4);
+    });
+
+    it('estimates HSFO from VLSFO and stays on VLSFO when the scrubber cannot run', () => {
+      const result = engine.compareStrategies({
+        scrubber: { fitted: true, type: 'open_loop' },
+        base_consumption: BASE_CONSUMPTION,
+        route_segments: [SEGMENTS[0]],
+        speed_knots: 14,
+        prices: { VLSFO: 600 },
+      });
+
+      expect(result.hsfo_price_estimated).toBe(true);
+      expect(result.prices_usd_per_mt).toEqual({ VLSFO: 600, LSMGO: 840, HSFO: 490 });
+      expect(result.breakeven_spread_usd_per_mt).toBeNull();
+      expect(result.savings_usd).toBeCloseTo(0, 6);
+      expect(result.recommended).toBe('VLSFO');
+    });
+  });
+
+  describe('buildRouteSegments', () => {
+    it('splits the route at discharge-ban and ECA boundaries', () => {
+      const segments = engine.buildRouteSegments(
+        [
+          { lat: 1.26, lon: 103.85 },
+          { lat: 1.26, lon: 104.6 },
+        ],
+        'SGSIN',
+        'WPI_X'
+      );
+
+      expect(segments.map((s) => s.scrubber_discharge_ban?.area)).toEqual(['Singapore port limits', undefined]);
+      expect(segments[0]).toMatchObject({ from: 'SGSIN', to: 'Boundary 1', is_eca: false });
+      expect(segments[1].to).toBe('WPI_X');
+      expect(segments[0].distance_nm + segments[1].distance_nm).toBeCloseTo(45, 0);
+    });
+  });
+});
+
+describe('ECAConsumptionEngine with scrubber', () => {
+  const engine = new ECAConsumptionEngine();
+
+  it('burns HSFO where the scrubber type may operate, compliant fuel elsewhere', () => {
+    const input = {
+      base_consumption: { main_engine_mt_per_day: 30, auxiliary_mt_per_day: 3, total_mt_per_day: 33 },
+      route_segments: SEGMENTS,
+      speed_knots: 14,
+    };
+
+    const openLoop = engine.calculateConsumption({ ...input, scrubber: { fitted: true, type: 'open_loop' } });
+    expect(openLoop.segments.map((s) => s.main_engine.fuel_type)).toEqual(['VLSFO', 'HSFO', 'HSFO']);
+    expect(openLoop.segments[2].consumption_mt_per_day).toMatchObject({ HSFO: 30, LSMGO: 3, VLSFO: 0 });
+
+    const closedLoop = engine.calculateConsumption({ ...input, scrubber: { fitted: true, type: 'closed_loop' } });
+    expect(closedLoop.segments.every((s) => s.scrubber_in_use)).toBe(true);
+
+    const notFitted = engine.calculateConsumption(input);
+    expect(notFitted.segments.map((s) => s.main_engine.fuel_type)).toEqual(['VLSFO', 'VLSFO', 'LSMGO']);
+    expect(notFitted.total_consumption_mt.HSFO).toBe(0);
+    expect(engine.validateECALogic(openLoop).is_valid).toBe(true);
+  });
+});
+
+describe('ROBTrackingEngine with HSFO', () => {
+  const engine = new ROBTrackingEngine();
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('tracks HSFO bunkering and consumption when set on the inputs', () => {
+    const result = engine.calculateROBTracking({
+      initial_rob: { VLSFO: 200, LSMGO: 50, HSFO: 100 },
+      vessel_capacity: { VLSFO: 1500, LSMGO: 200, HSFO: 1200 },
+      segments: [
+        { from: 'SGSIN', to: 'NLRTM', distance_nm: 3360, consumption_mt_per_day: { VLSFO: 0, LSMGO: 3, HSFO: 30 }, duration_days: 10 },
+      ],
+      bunker_stops: [{ port_name: 'Singapore', quantity_to_bunker: { VLSFO: 0, LSMGO: 0, HSFO: 400 }, segment_index: -1 }],
+      safety_margin_days: 3,
+    });
+
+    expect(result.final_rob).toEqual({ VLSFO: 200, LSMGO: 20, HSFO: 200 });
+    expect(result.overall_safe).toBe(true);
+  });
+
+  it('flags negative HSFO and leaves VLSFO/LSMGO-only voyages without HSFO', () => {
+    const short = engine.calculateROBTracking({
+      initial_rob: { VLSFO: 200, LSMGO: 50, HSFO: 100 },
+      vessel_capacity: { VLSFO: 1500, LSMGO: 200 },
+      segments: [
+        { from: 'SGSIN', to: 'NLRTM', distance_nm: 3360, consumption_mt_per_day: { VLSFO: 0, LSMGO: 3, HSFO: 30 }, duration_days: 10 },
+      ],
+      safety_margin_days: 3,
+    });
+    expect(short.safety_violations[0].issue).toMatch(/Negative ROB/);
+
+    const plain = engine.calculateROBTracking({
+      initial_rob: { VLSFO: 500, LSMGO: 50 },
+      vessel_capacity: { VLSFO: 1500, LSMGO: 200 },
+      segments: [
+        { from: 'SGSIN', to: 'NLRTM', distance_nm: 3360, consumption_mt_per_day: { VLSFO: 30, LSMGO: 3 }, duration_days: 10 },
+      ],
+      safety_margin_days: 3,
+    });
+    expect(plain.final_rob).toEqual({ VLSFO: 200, LSMGO: 20 });
+  });
+});
+
+describe('normalizeFuelType', () => {
+  it('maps high sulphur residual grade names to HSFO', () => {
+    expect(['IFO380', 'IFO 380', '380CST', 'RMG 380', 'HFO', 'hsfo'].map(normalizeFuelType)).toEqual(
+      Array(6).fill('HSFO')
+    );
+    expect(normalizeFuelType(' VLSFO ')).toBe('VLSFO');
+    expect(normalizeFuelType('LSGO')).toBe('LSGO');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Sea Routing Engine Unit Tests
+ *
+ * Tests for:
+ * - findNearestNode / findPath (A* over the sea lane graph)
+ * - calculateRoute (canal and cape passages, geometry, duration, snapping limits)
+ * - Passage avoidance, passage detection and canal tolls
+ *
+ * Run with: npx jest tests/unit/engines/sea-routing-engine.test.ts
+ */
+
+import { SeaRoutingEngine } from '@/lib/engines/sea-routing-engine';
+import { haversineDistance } from '@/lib/utils/coordinate-validator';
+
+const SINGAPORE: [number, number] = [1.2897, 103.8501];
+const ROTTERDAM: [number, number] = [51.9225, 4.4792];
+const NEW_YORK: [number, number] = [40.67, -74.04];
+const LOS_ANGELES: [number, number] = [33.74, -118.27];
+
+const passesNear = (geometry: [number, number][], lat: number, lon: number, withinNm = 60) =>
+  geometry.some(([pLon, pLat]) => haversineDistance({ lat: pLat, lon: pLon }, { lat, lon }) < withinNm);
+
+describe('SeaRoutingEngine', () => {
+  const engine = new SeaRoutingEngine({
+    max_snap_distance_nm: 800,
+    geometry_step_nm: 100,
+    default_speed_knots: 14,
+    passage_detection_radius_nm: 100,
+    suez_canal_toll_usd: 450000,
+    panama_canal_toll_usd: 350000,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('findPath', () => {
+    it('snaps positions to the nearest lane node', () => {
+      expect(engine.findNearestNode({ lat: SINGAPORE[0], lon: SINGAPORE[1] }).node.id).toBe('SINGAPORE');
+      expect(engine.findNearestNode({ lat: ROTTERDAM[0], lon: ROTTERDAM[1] }).node.id).toBe('MAAS');
+    });
+
+    it('finds the shortest lane path through the Suez Canal', () => {
+      const path = engine.findPath('SINGAPORE', 'MAAS')!;
+      const ids = path.nodes.map((n) => n.id);
+      expect(ids[0]).toBe('SINGAPORE');
+      expect(ids[ids.length - 1]).toBe('MAAS');
+      expect(ids).toEqual(expect.arrayContaining(['MALACCA_S', 'BAB_EL_MANDEB', 'SUEZ', 'PORT_SAID', 'GIBRALTAR', 'DOVER']));
+      expect(ids).not.toContain('CAPE_GOOD_HOPE');
+    });
+
+    it('uses a custom graph and reports disconnected nodes', () => {
+      const small = new SeaRoutingEngine(undefined, {
+        nodes: [
+          { id: 'A', name: 'A', lat: 0, lon: 10 },
+          { id: 'B', name: 'B', lat: 0, lon: 11 },
+          { id: 'C', name: 'C', lat: 10, lon: 10 },
+        ],
+        edges: [['A', 'B']],
+      });
+      expect(small.findPath('A', 'B')!.distance_nm).toBeCloseTo(60.04, 1);
+      expect(small.findPath('A', 'C')).toBeNull();
+      expect(() => small.findPath('A', 'X')).toThrow('Unknown sea lane node: X');
+    });
+  });
+
+  describe('calculateRoute', () => {
+    it('routes Singapore to Rotterdam via Suez with GeoJSON geometry', () => {
+      const route = engine.calculateRoute({ from: SINGAPORE, to: ROTTERDAM, speed: 14 });
+
+      // Published port-to-port distance is ~8,300nm
+      expect(route.distance).toBeGreaterThan(8100);
+      expect(route.distance).toBeLessThan(8600);
+      expect(route.duration).toBeCloseTo(route.distance / 14, 1);
+      expect(route.geometry[0]).toEqual([SINGAPORE[1], SINGAPORE[0]]);
+      expect(route.geometry[route.geometry.length - 1]).toEqual([ROTTERDAM[1], ROTTERDAM[0]]);
+      expect(passesNear(route.geometry, 30.5852, 32.2656, 120)).toBe(true);
+    });
+
+    it('routes New York to Los Angeles via Panama and spaces geometry points', () => {
+      const route = engine.calculateRoute({ from: NEW_YORK, to: LOS_ANGELES });
+
+      expect(passesNear(route.geometry, 9.1, -79.7)).toBe(true);
+      expect(route.distance).toBeGreaterThan(4800);
+      expect(route.distance).toBeLessThan(5400);
+      expect(route.duration).toBeCloseTo(route.distance / 14, 1);
+      for (let i = 1; i < route.geometry.length; i++) {
+        const [lon1, lat1] = route.geometry[i - 1];
+        const [lon2, lat2] = route.geometry[i];
+        expect(haversineDistance({ lat: lat1, lon: lon1 }, { lat: lat2, lon: lon2 })).toBeLessThanOrEqual(100.5);
+      }
+    });
+
+    it('is deterministic', () => {
+      const a = engine.calculateRoute({ from: SINGAPORE, to: ROTTERDAM, speed: 12 });
+      const b = engine.calculateRoute({ from: SINGAPORE, to: ROTTERDAM, speed: 12 });
+      expect(a).toEqual(b);
+    });
+
+    it('rejects positions far from any sea lane', () => {
+      expect(() => engine.calculateRoute({ from: [-60, -150], to: ROTTERDAM })).toThrow(/nearest sea lane/);
+    });
+  });
+
+  describe('passages', () => {
+    it('lists passages in voyage order', () => {
+      const route = engine.calculateRoute({ from: SINGAPORE, to: ROTTERDAM });
+      expect(route.passages).toEqual(['malacca_strait', 'red_sea', 'suez_canal']);
+    });
+
+    it('routes around the Cape of Good Hope when avoiding the Red Sea', () => {
+      const viaSuez = engine.calculateRoute({ from: SINGAPORE, to: ROTTERDAM });
+      const viaCape = engine.calculateRoute({ from: SINGAPORE, to: ROTTERDAM, avoid: ['red_sea'] });
+
+      expect(viaCape.passages).toContain('cape_of_good_hope');
+      expect(viaCape.passages).not.toContain('suez_canal');
+      // Published Cape routing is ~11,700nm
+      expect(viaCape.distance).toBeGreaterThan(11400);
+      expect(viaCape.distance).toBeLessThan(12300);
+      expect(viaCape.distance).toBeGreaterThan(viaSuez.distance);
+    });
+
+    it('routes around Cape Horn when avoiding the Panama Canal', () => {
+      const route = engine.calculateRoute({ from: NEW_YORK, to: LOS_ANGELES, avoid: ['panama_canal'] });
+      expect(route.passages).toContain('cape_horn');
+      expect(route.distance).toBeGreaterThan(12500);
+    });
+
+    it('rejects origins inside an avoided passage', () => {
+      expect(() =>
+        engine.calculateRoute({ from: [29.95, 32.55], to: ROTTERDAM, avoid: ['suez_canal'] })
+      ).toThrow(/avoided passage: Suez Canal/);
+    });
+
+    it('detects passages along external route geometry', () => {
+      const geometry: [number, number][] = [
+        [103.85, 1.29],
+        [43.4, 12.6],
+        [32.55, 29.95],
+        [32.3, 31.3],
+        [4.48, 51.92],
+      ];
+      expect(engine.detectPassages(geometry)).toEqual(['red_sea', 'suez_canal']);
+      expect(engine.detectPassages([[103.85, 1.29], [151.2, -33.86]])).toEqual([]);
+    });
+
+    it('estimates canal tolls from passages', () => {
+      expect(engine.estimateCanalTolls(['red_sea', 'suez_canal'])).toBe(450000);
+      expect(engine.estimateCanalTolls(['panama_canal'])).toBe(350000);
+      expect(engine.estimateCanalTolls(['cape_of_good_hope'])).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Speed Optimizer Engine Unit Tests
+ *
+ * Tests for:
+ * - Cost-minimising speed from the fuel vs hire trade-off (cubic curve)
+ * - Slower in ECA legs (dearer LSMGO) when speed varies per leg
+ * - Required arrival: binding, and unreachable even at maximum speed
+ * - One speed for the voyage, curve range clamping
+ * - Re-timing the vessel timeline for the optimised leg speeds
+ *
+ * Run with: npx jest tests/unit/engines/speed-optimizer-engine.test.ts
+ */
+
+import { SpeedOptimizerEngine, type SpeedOptimizerInput } from '@/lib/engines/speed-optimizer-engine';
+import type { VesselPosition } from '@/lib/multi-agent/state';
+
+const PARAMETERS = {
+  min_speed_knots: 10,
+  max_speed_knots: 16,
+  speed_step_knots: 0.5,
+  daily_hire_usd: 15000,
+  lsmgo_vlsfo_price_ratio: 1.4,
+};
+
+// 35 MT/day at 14 kn, cubic in speed
+const K = 35 / Math.pow(14, 3);
+const VLSFO_PRICE = 600;
+// Fuel + hire per nm is K·v²·price + hire/v (per 24 nm); the optimum is v* = (hire / (2·K·price))^(1/3)
+const HIRE_FOR_12_KN = 2 * K * VLSFO_PRICE * Math.pow(12, 3);
+
+describe('SpeedOptimizerEngine', () => {
+  const engine = new SpeedOptimizerEngine(PARAMETERS);
+  const curve = engine.buildCubicCurve(14, 35);
+  const base: SpeedOptimizerInput = {
+    legs: [{ distance_nm: 4800, is_eca: false }],
+    consumption_curve: curve,
+    prices: { VLSFO: VLSFO_PRICE },
+    daily_hire_usd: HIRE_FOR_12_KN,
+    reference_speed_knots: 14,
+    departure_date: '2026-03-01T00:00:00.000Z',
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('slows to the speed where saved fuel balances extra hire', () => {
+    const result = engine.optimize(base);
+
+    expect(result.legs[0].speed_knots).toBe(12);
+    expect(result.total_hours).toBeCloseTo(400, 6);
+    expect(result.estimated_arrival).toBe('2026-03-17T16:00:00.000Z');
+    expect(result.fuel_mt.VLSFO).toBeCloseTo((400 / 24) * K * Math.pow(12, 3), 6);
+    expect(result.reference?.speed_knots).toBe(14);
+    expect(result.savings_vs_reference_usd).toBeGreaterThan(0);
+    expect(result.arrival_constraint_binding).toBe(false);
+
+    // Dearer time pays for speed
+    const faster = engine.optimize({ ...base, daily_hire_usd: HIRE_FOR_12_KN * 2 });
+    expect(faster.average_speed_knots).toBeGreaterThan(result.average_speed_knots);
+  });
+
+  it('sails slower in ECA legs where LSMGO is dearer', () => {
+    const result = engine.optimize({
+      ...base,
+      legs: [
+        { distance_nm: 3000, is_eca: false, label: 'Open sea' },
+        { distance_nm: 600, is_eca: true, label: 'North Sea ECA' },
+      ],
+    });
+
+    const [open, eca] = result.legs;
+    expect(open.fuel_grade).toBe('VLSFO');
+    expect(eca.fuel_grade).toBe('LSMGO');
+    expect(result.prices_usd_per_mt.LSMGO).toBeCloseTo(VLSFO_PRICE * 1.4, 6);
+    expect(eca.speed_knots).toBeLessThan(open.speed_knots);
+    expect(result.fuel_mt.LSMGO).toBeCloseTo(eca.fuel_mt, 6);
+
+    const uniform = engine.optimize({ ...base, legs: result.legs, vary_speed_per_leg: false });
+    expect(new Set(uniform.legs.map((leg) => leg.speed_knots)).size).toBe(1);
+    expect(uniform.total_cost_usd).toBeGreaterThanOrEqual(result.total_cost_usd - 1e-6);
+  });
+
+  it('speeds up to meet a required arrival and warns when it cannot', () => {
+    // 4800 nm in 360 h needs 13.33 kn on average
+    const constrained = engine.optimize({ ...base, required_arrival_date: '2026-03-16T00:00:00.000Z' });
+    expect(constrained.total_hours).toBeLessThanOrEqual(360 + 1e-6);
+    expect(constrained.meets_arrival_constraint).toBe(true);
+    expect(constrained.arrival_constraint_binding).toBe(true);
+    expect(constrained.average_speed_knots).toBeGreaterThan(13);
+
+    // 4800 nm in 240 h needs 20 kn
+    const impossible = engine.optimize({ ...base, required_arrival_date: '2026-03-11T00:00:00.000Z' });
+    expect(impossible.meets_arrival_constraint).toBe(false);
+    expect(impossible.legs[0].speed_knots).toBe(16);
+    expect(impossible.warnings[0]).toMatch(/cannot be met even at 16 kn/);
+  });
+
+  it('only considers speeds the vessel curve covers', () => {
+    const result = engine.optimize({
+      ...base,
+      consumption_curve: curve.filter((p) => p.speed >= 12.5 && p.speed <= 15),
+    });
+
+    expect(result.speed_range_knots).toEqual({ min: 12.5, max: 15 });
+    expect(result.legs[0].speed_knots).toBe(12.5);
+  });
+
+  it('re-times timeline positions for the leg speeds', () => {
+    const result = engine.optimize({
+      ...base,
+      legs: [
+        { distance_nm: 2400, is_eca: false },
+        { distance_nm: 2400, is_eca: false },
+      ],
+    });
+    const timeline: VesselPosition[] = [0, 2400, 4800].map((nm, i) => ({
+      lat: 0,
+      lon: nm / 60,
+      datetime: '2026-03-01T00:00:00.000Z',
+      distance_from_start_nm: nm,
+      segment_index: i,
+    }));
+
+    const retimed = engine.retimeTimeline(timeline, result);
+    expect(retimed.map((p) => p.datetime)).toEqual([
+      '2026-03-01T00:00:00.000Z',
+      '2026-03-09T08:00:00.000Z',
+      '2026-03-17T16:00:00.000Z',
+    ]);
+  });
+});
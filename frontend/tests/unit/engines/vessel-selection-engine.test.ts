@@ -369,6 +369,27 @@ describe('VesselSelectionEngine.rankVessels', () => {
     expect(rankings[0].recommendation_reason).toBeDefined();
     expect(rankings[0].recommendation_reason.length).toBeGreaterThan(0);
   });
+
+  it('should rank by TCE when voyage estimates are present', () => {
+    const withTce = (analysis: VesselAnalysisResult, tce: number) =>
+      ({
+        ...analysis,
+        voyage_estimate: { tce_usd_per_day: tce, net_result_usd: 0, duration: { total_days: 24 } },
+      }) as VesselAnalysisResult;
+    const analyses = [
+      withTce(createAnalysis('MV Sufficient ROB', true, 0), 14000),
+      withTce(createAnalysis('MV Fast Earner', false, 150000, 40), 21000),
+      createAnalysis('MV No Estimate', true, 0),
+    ];
+
+    const rankings = VesselSelectionEngine.rankVessels(analyses, 'tce');
+
+    expect(rankings.map((r) => r.vessel_name)).toEqual(['MV Fast Earner', 'MV Sufficient ROB', 'MV No Estimate']);
+    expect(rankings[0].tce_usd_per_day).toBe(21000);
+    expect(rankings[0].score).toBe(100);
+    expect(rankings[0].recommendation_reason).toContain('TCE $21,000/day');
+    expect(rankings[2].tce_usd_per_day).toBeUndefined();
+  });
 });
 
 // ============================================================================
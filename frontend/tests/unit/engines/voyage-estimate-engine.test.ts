@@ -0,0 +1,131 @@
+/**
+ * Voyage Estimate Engine Unit Tests
+ *
+ * Tests for:
+ * - Freight voyage: commissions, bunkers (sea and port fuel), port costs, canal tolls, EU ETS, TCE and breakeven freight
+ * - Defaults: port time, port costs, bunker prices and cargo intake from deadweight
+ * - Hire: voyage costs for charterers' account; lumpsum freight
+ * - Missing revenue, sea time or cargo quantity
+ * - Revenue term extraction from a query
+ *
+ * Run with: npx jest tests/unit/engines/voyage-estimate-engine.test.ts
+ */
+
+import { VoyageEstimateEngine, type VoyageEstimateInput } from '@/lib/engines/voyage-estimate-engine';
+import { extractVoyageRevenue } from '@/lib/utils/voyage-revenue-extractor';
+
+const PARAMETERS = {
+  address_commission_percent: 3.75,
+  brokerage_percent: 1.25,
+  default_port_days: 4,
+  default_port_calls: 2,
+  default_port_cost_usd_per_call: 40000,
+  port_consumption_mt_per_day: 3,
+  default_fuel_price_usd_per_mt: 600,
+  default_distillate_price_usd_per_mt: 800,
+  cargo_intake_percent_of_dwt: 95,
+  daily_vessel_cost_usd: 25000,
+};
+
+const FREIGHT_VOYAGE: VoyageEstimateInput = {
+  revenue: { freight_usd_per_mt: 25, cargo_mt: 50000 },
+  sea_days: 20,
+  port_days: 4,
+  sea_consumption_mt: { VLSFO: 600 },
+  fuel_prices_usd_per_mt: { VLSFO: 620, LSMGO: 850 },
+  port_costs_usd: 80000,
+  bunker_call_cost_usd: 5000,
+  canal_tolls_usd: 150000,
+  eu_ets_cost_usd: 20000,
+};
+
+describe('VoyageEstimateEngine', () => {
+  const engine = new VoyageEstimateEngine(PARAMETERS);
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('calculates TCE, net result and breakeven freight for a freight voyage', () => {
+    const result = engine.estimate(FREIGHT_VOYAGE);
+
+    expect(result.revenue_basis).toBe('freight');
+    expect(result.gross_revenue_usd).toBe(1250000);
+    expect(result.commission_percent).toBe(5);
+    expect(result.net_revenue_usd).toBeCloseTo(1187500, 6);
+
+    // 600 MT VLSFO at sea + 4 days × 3 MT LSMGO in port
+    expect(result.fuel_consumption_mt).toEqual({ VLSFO: 600, LSMGO: 12 });
+    expect(result.costs.bunkers_usd).toBeCloseTo(600 * 620 + 12 * 850, 6);
+    expect(result.costs.total_usd).toBeCloseTo(382200 + 80000 + 5000 + 150000 + 20000, 6);
+
+    expect(result.duration.total_days).toBe(24);
+    expect(result.tce_usd_per_day).toBeCloseTo((1187500 - 637200) / 24, 6);
+    expect(result.net_result_usd).toBeCloseTo(1187500 - 637200 - 25000 * 24, 6);
+    expect(result.breakeven_freight_usd_per_mt).toBeCloseTo((637200 + 25000 * 24) / 0.95 / 50000, 6);
+    expect(result.defaults_applied).toBe(false);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('applies default port time, port costs, prices and cargo intake', () => {
+    const result = engine.estimate({
+      revenue: { freight_usd_per_mt: 20, address_commission_percent: 2.5, brokerage_percent: 0 },
+      sea_days: 10,
+      sea_consumption_mt: { VLSFO: 300 },
+      deadweight_mt: 60000,
+    });
+
+    expect(result.cargo_mt).toBe(57000);
+    expect(result.commissions_usd).toBeCloseTo(57000 * 20 * 0.025, 6);
+    expect(result.duration.port_days).toBe(4);
+    expect(result.costs.port_costs_usd).toBe(80000);
+    expect(result.costs.bunkers_usd).toBeCloseTo(300 * 600 + 12 * 800, 6);
+    expect(result.defaults_applied).toBe(true);
+    expect(result.warnings.join(' ')).toMatch(/Port time not given; assumed 4 days/);
+    expect(result.warnings.join(' ')).toMatch(/No price for VLSFO, LSMGO/);
+    expect(result.warnings.join(' ')).toMatch(/95% of 60,000 DWT/);
+  });
+
+  it('leaves voyage costs to charterers on hire and takes lumpsum freight as gross revenue', () => {
+    const hire = engine.estimate({ ...FREIGHT_VOYAGE, revenue: { daily_hire_usd: 18000 } });
+    expect(hire.revenue_basis).toBe('hire');
+    expect(hire.gross_revenue_usd).toBe(18000 * 24);
+    expect(hire.costs.total_usd).toBe(0);
+    expect(hire.tce_usd_per_day).toBeCloseTo(18000 * 0.95, 6);
+    expect(hire.breakeven_freight_usd_per_mt).toBeUndefined();
+
+    const lumpsum = engine.estimate({ ...FREIGHT_VOYAGE, revenue: { lumpsum_usd: 1200000 } });
+    expect(lumpsum.revenue_basis).toBe('lumpsum');
+    expect(lumpsum.tce_usd_per_day).toBeCloseTo((1200000 * 0.95 - 637200) / 24, 6);
+  });
+
+  it('rejects estimates without revenue, sea time or cargo quantity', () => {
+    expect(() => engine.estimate({ ...FREIGHT_VOYAGE, revenue: {} })).toThrow(/freight rate, lumpsum freight or daily hire/);
+    expect(() => engine.estimate({ ...FREIGHT_VOYAGE, sea_days: 0 })).toThrow(/sea passage time/);
+    expect(() => engine.estimate({ ...FREIGHT_VOYAGE, revenue: { freight_usd_per_mt: 25 } })).toThrow(
+      /cargo quantity/
+    );
+  });
+});
+
+describe('extractVoyageRevenue', () => {
+  it('reads freight rate, cargo, lumpsum, hire and commissions', () => {
+    expect(
+      extractVoyageRevenue(
+        "What's the TCE for MV Pacific Star on this voyage at $24.50/mt freight, 55,000 mt cargo, 2.5% address commission"
+      )
+    ).toEqual({ freight_usd_per_mt: 24.5, cargo_mt: 55000, address_commission_percent: 2.5 });
+    expect(extractVoyageRevenue('freight rate of 18 USD per mt on a cargo of 60k mt, brokerage 1%')).toEqual({
+      freight_usd_per_mt: 18,
+      cargo_mt: 60000,
+      brokerage_percent: 1,
+    });
+    expect(extractVoyageRevenue('TCE on a lumpsum of $1.2m')).toEqual({ lumpsum_usd: 1200000 });
+    expect(extractVoyageRevenue('TCE if fixed on hire $14,500/day')).toEqual({ daily_hire_usd: 14500 });
+    expect(extractVoyageRevenue('Bunker 500 mt of VLSFO at $620/mt in Singapore')).toBeNull();
+  });
+});
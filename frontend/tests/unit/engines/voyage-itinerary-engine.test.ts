@@ -0,0 +1,125 @@
+/**
+ * Voyage Itinerary Engine Unit Tests
+ *
+ * Tests for:
+ * - applyDefaultPortStays (defaults by call purpose, intermediate calls only)
+ * - buildSegments (sea legs with ballast factor, port stays on auxiliaries)
+ * - Itineraries from queries (extractItinerary)
+ *
+ * Run with: npx jest tests/unit/engines/voyage-itinerary-engine.test.ts
+ */
+
+import { VoyageItineraryEngine } from '@/lib/engines/voyage-itinerary-engine';
+import type { ItineraryRouteLeg } from '@/lib/types/itinerary';
+import { extractItinerary } from '@/lib/utils/itinerary-extractor';
+
+describe('VoyageItineraryEngine', () => {
+  const engine = new VoyageItineraryEngine({
+    ballast_consumption_factor: 0.8,
+    port_stay_hours_discharge: 48,
+    port_stay_hours_bunker: 12,
+    port_stay_hours_other: 24,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('applyDefaultPortStays', () => {
+    it('fills stays for intermediate calls by purpose', () => {
+      const { port_calls } = engine.applyDefaultPortStays({
+        port_calls: [
+          { port_code: 'SGSIN', purpose: 'load' },
+          { port_code: 'AEFJR', purpose: 'bunker' },
+          { port_code: 'LKCMB', purpose: 'discharge', port_stay_hours: 36 },
+          { port_code: 'EGPSD' },
+          { port_code: 'NLRTM', purpose: 'discharge' },
+        ],
+      });
+
+      expect(port_calls.map((c) => c.port_stay_hours)).toEqual([undefined, 12, 36, 24, undefined]);
+    });
+  });
+
+  describe('buildSegments', () => {
+    const legs: ItineraryRouteLeg[] = [
+      {
+        leg_index: 0,
+        from_port_code: 'SGSIN',
+        to_port_code: 'LKCMB',
+        distance_nm: 1560,
+        estimated_hours: 120,
+        start_waypoint_index: 0,
+        end_waypoint_index: 10,
+        route_type: 'direct',
+        cargo_condition: 'laden',
+        port_stay_hours: 48,
+      },
+      {
+        leg_index: 1,
+        from_port_code: 'LKCMB',
+        to_port_code: 'NLRTM',
+        distance_nm: 6720,
+        estimated_hours: 480,
+        start_waypoint_index: 10,
+        end_waypoint_index: 42,
+        route_type: 'via Suez Canal',
+        cargo_condition: 'ballast',
+        port_stay_hours: 0,
+      },
+    ];
+
+    it('builds sea legs and port stays in voyage order', () => {
+      const segments = engine.buildSegments(legs, { main_engine_mt_per_day: 40, auxiliary_mt_per_day: 3 });
+
+      expect(segments.map((s) => `${s.type}:${s.from_port_code}-${s.to_port_code}`)).toEqual([
+        'sea:SGSIN-LKCMB',
+        'port:LKCMB-LKCMB',
+        'sea:LKCMB-NLRTM',
+      ]);
+      expect(segments[0]).toMatchObject({ duration_days: 5, main_engine_mt_per_day: 40, auxiliary_mt_per_day: 3 });
+      expect(segments[1]).toMatchObject({ duration_days: 2, distance_nm: 0, main_engine_mt_per_day: 0 });
+      expect(segments[2].main_engine_mt_per_day).toBeCloseTo(32, 6);
+    });
+  });
+
+  describe('extractItinerary', () => {
+    it('parses arrow chains with per-call notes', () => {
+      const itinerary = extractItinerary(
+        'Voyage Singapore (load) → Colombo (discharge, 2 days) → Fujairah (bunker, 18h) → Rotterdam'
+      );
+
+      expect(itinerary?.origin).toEqual({ port: 'Singapore', purpose: 'load', departure_condition: 'laden' });
+      expect(itinerary?.via).toEqual([
+        { port: 'Colombo', purpose: 'discharge', port_stay_hours: 48, departure_condition: 'ballast' },
+        { port: 'Fujairah', purpose: 'bunker', port_stay_hours: 18 },
+      ]);
+      expect(itinerary?.destination).toEqual({ port: 'Rotterdam' });
+    });
+
+    it('parses intermediate calls and ignores passages', () => {
+      const itinerary = extractItinerary('Plan bunkers from Santos to Qingdao calling at Cape Town for bunkers');
+      expect(itinerary?.origin?.port).toBe('Santos');
+      expect(itinerary?.destination?.port).toBe('Qingdao');
+      expect(itinerary?.via).toEqual([{ port: 'Cape Town', purpose: 'bunker' }]);
+
+      expect(extractItinerary('Singapore to Rotterdam via Suez')).toBeNull();
+      expect(extractItinerary('Fujairah to Rotterdam via the Cape of Good Hope')).toBeNull();
+      expect(extractItinerary('Singapore to Rotterdam')).toBeNull();
+    });
+
+    it('ends a call at speed and "from" clauses and ignores non-port text after "via"', () => {
+      expect(extractItinerary('Singapore to Rotterdam via Colombo at 14 knots')?.via).toEqual([{ port: 'Colombo' }]);
+      expect(extractItinerary('route via ECA zones from Rotterdam to Hamburg')).toBeNull();
+      expect(extractItinerary('Singapore to Rotterdam at 12 knots via ballast leg')).toBeNull();
+
+      const itinerary = extractItinerary('from Santos to Qingdao at 12.5 knots via Cape Town for bunkers');
+      expect(itinerary?.destination?.port).toBe('Qingdao');
+      expect(itinerary?.via).toEqual([{ port: 'Cape Town', purpose: 'bunker' }]);
+    });
+  });
+});
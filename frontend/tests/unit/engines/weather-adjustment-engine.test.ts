@@ -0,0 +1,125 @@
+/**
+ * Weather Adjustment Engine Unit Tests
+ *
+ * Tests for:
+ * - calculateHeading / relativeDirection / classifyEncounter
+ * - calculateAddedResistance (head vs beam vs following seas, calm threshold, factor cap)
+ * - calculateVoyageAdjustment (per-segment factors, nearest forecast matching, weighted totals)
+ *
+ * Run with: npx jest tests/unit/engines/weather-adjustment-engine.test.ts
+ */
+
+import { WeatherAdjustmentEngine, type WeatherObservation } from '@/lib/engines/weather-adjustment-engine';
+import type { VesselPosition } from '@/lib/multi-agent/state';
+
+describe('WeatherAdjustmentEngine', () => {
+  const engine = new WeatherAdjustmentEngine({
+    wave_coefficient: 0.01,
+    wind_coefficient: 0.01,
+    wind_calm_threshold_knots: 10,
+    head_weight: 1.0,
+    beam_weight: 0.5,
+    following_weight: 0.15,
+    max_consumption_factor: 1.6,
+  });
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('geometry', () => {
+    it('calculates headings along meridians and the equator', () => {
+      expect(engine.calculateHeading({ lat: 0, lon: 0 }, { lat: 1, lon: 0 })).toBeCloseTo(0, 6);
+      expect(engine.calculateHeading({ lat: 0, lon: 0 }, { lat: 0, lon: 1 })).toBeCloseTo(90, 6);
+      expect(engine.calculateHeading({ lat: 0, lon: 1 }, { lat: 0, lon: 0 })).toBeCloseTo(270, 6);
+    });
+
+    it('classifies encounters from heading and weather direction', () => {
+      expect(engine.classifyEncounter(engine.relativeDirection(90, 90))).toBe('head');
+      expect(engine.classifyEncounter(engine.relativeDirection(90, 180))).toBe('beam');
+      expect(engine.classifyEncounter(engine.relativeDirection(90, 270))).toBe('following');
+      expect(engine.relativeDirection(350, 20)).toBeCloseTo(30, 6);
+    });
+  });
+
+  describe('calculateAddedResistance', () => {
+    const rough = { wave_height_m: 4, wind_speed_knots: 30, wind_direction_deg: 0 };
+
+    it('penalises head seas more than beam and following seas', () => {
+      const head = engine.calculateAddedResistance(0, rough);
+      const beam = engine.calculateAddedResistance(90, rough);
+      const following = engine.calculateAddedResistance(180, rough);
+
+      // Head: 0.01 × 16 + 0.01 × 4 = 0.20
+      expect(head.encounter).toBe('head');
+      expect(head.wave_added_resistance_percent).toBeCloseTo(16, 6);
+      expect(head.wind_added_resistance_percent).toBeCloseTo(4, 6);
+      expect(head.consumption_factor).toBeCloseTo(1.2, 6);
+      expect(beam.consumption_factor).toBeCloseTo(1.1, 6);
+      expect(following.consumption_factor).toBeCloseTo(1.03, 6);
+    });
+
+    it('ignores wind below the calm threshold', () => {
+      const result = engine.calculateAddedResistance(0, { wave_height_m: 0, wind_speed_knots: 8, wind_direction_deg: 0 });
+      expect(result.wind_added_resistance_percent).toBe(0);
+      expect(result.consumption_factor).toBe(1);
+    });
+
+    it('caps the consumption factor', () => {
+      const result = engine.calculateAddedResistance(0, { wave_height_m: 9, wind_speed_knots: 50, wind_direction_deg: 0 });
+      expect(result.consumption_factor).toBe(1.6);
+    });
+  });
+
+  describe('calculateVoyageAdjustment', () => {
+    // Two equal legs: eastbound, then northbound
+    const timeline: VesselPosition[] = [
+      { lat: 0, lon: 0, datetime: '2025-01-01T00:00:00Z', distance_from_start_nm: 0, segment_index: 0 },
+      { lat: 0, lon: 1, datetime: '2025-01-01T12:00:00Z', distance_from_start_nm: 60, segment_index: 0 },
+      { lat: 1, lon: 1, datetime: '2025-01-02T00:00:00Z', distance_from_start_nm: 120, segment_index: 1 },
+    ];
+    // Easterly 4m sea during the first leg (head sea), calm during the second
+    const weather: WeatherObservation[] = [
+      { datetime: '2025-01-01T06:00:00Z', weather: { wave_height_m: 4, wind_speed_knots: 10, wind_direction_deg: 90 } },
+      { datetime: '2025-01-01T18:00:00Z', weather: { wave_height_m: 0.5, wind_speed_knots: 5, wind_direction_deg: 90 } },
+    ];
+
+    it('applies factors where the weather is met on each segment', () => {
+      const result = engine.calculateVoyageAdjustment({
+        vessel_timeline: timeline,
+        weather_points: weather,
+        base_consumption_mt: 100,
+      });
+
+      expect(result.segments).toHaveLength(2);
+      const [first, second] = result.segments;
+      expect(first.encounter).toBe('head');
+      expect(first.heading_deg).toBeCloseTo(90, 6);
+      expect(first.duration_hours).toBe(12);
+      expect(first.base_consumption_mt).toBeCloseTo(50, 6);
+      expect(first.consumption_factor).toBeCloseTo(1.16, 6);
+      expect(second.encounter).toBe('beam');
+      expect(second.consumption_factor).toBeCloseTo(1.00125, 6);
+
+      expect(result.adjusted_consumption_mt).toBeCloseTo(50 * 1.16 + 50 * 1.00125, 6);
+      expect(result.consumption_factor).toBeCloseTo(1.080625, 6);
+      expect(result.consumption_increase_percent).toBeCloseTo(8.0625, 6);
+      expect(result.worst_segment_index).toBe(0);
+    });
+
+    it('treats a voyage without forecasts as calm', () => {
+      const result = engine.calculateVoyageAdjustment({
+        vessel_timeline: timeline,
+        weather_points: [],
+        base_consumption_mt: 100,
+      });
+
+      expect(result.consumption_factor).toBe(1);
+      expect(result.adjusted_consumption_mt).toBeCloseTo(100, 6);
+    });
+  });
+});
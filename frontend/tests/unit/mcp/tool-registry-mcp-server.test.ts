@@ -0,0 +1,190 @@
+/**
+ * Tool Registry MCP Server Unit Tests
+ *
+ * Tests for:
+ * - initialize / ping and protocol version negotiation
+ * - tools/list: enabled, non-deprecated tools with their schemas; requiresAuth tools only when authenticated
+ * - tools/call: execution with registry metrics, isError results, unknown and unauthorized tools
+ * - tools/list and tools/call refused while the YAML configs are not loaded
+ * - stdio transport framing
+ *
+ * Run with: npx jest tests/unit/mcp/tool-registry-mcp-server.test.ts
+ */
+
+import { PassThrough } from 'stream';
+import { ToolRegistry } from '@/lib/registry/tool-registry';
+import { createToolTemplate } from '@/lib/registry/tool-loader';
+import { getConfigManager } from '@/lib/config/config-manager';
+import { ToolRegistryMCPServer } from '@/lib/mcp/tool-registry-mcp-server';
+import { serveStdio } from '@/lib/mcp/stdio-transport';
+import { JSONRPC_ERROR_CODES, type JSONRPCSuccessResponse, type MCPTool } from '@/lib/mcp/types';
+import type { ToolDefinition } from '@/lib/types/tool-registry';
+import type { ToolConfig } from '@/lib/types/config';
+
+function makeTool(id: string, overrides: Partial<ToolDefinition> = {}): ToolDefinition {
+  return {
+    ...createToolTemplate(id, `Tool ${id}`, async (input: { value: number }) => ({ doubled: input.value * 2 })),
+    description: `Test tool ${id}`,
+    inputSchema: {
+      type: 'object',
+      properties: { value: { type: 'number', description: 'Value to double' } },
+      required: ['value'],
+    },
+    outputSchema: { type: 'object', properties: { doubled: { type: 'number' } } },
+    ...overrides,
+  } as ToolDefinition;
+}
+
+const PUBLIC = { authenticated: false };
+const AUTHENTICATED = { authenticated: true };
+
+describe('ToolRegistryMCPServer', () => {
+  const registry = ToolRegistry.getInstance();
+  let server: ToolRegistryMCPServer;
+
+  beforeEach(() => {
+    registry.clear();
+    registry.register(makeTool('double_value'));
+    registry.register(makeTool('private_tool', { requiresAuth: true }));
+    registry.register(makeTool('old_tool', { deprecated: true, replacedBy: 'double_value' }));
+    registry.register(makeTool('disabled_tool'));
+    registry.register(
+      makeTool('failing_tool', {
+        implementation: async () => {
+          throw new Error('upstream exploded');
+        },
+      })
+    );
+    jest.spyOn(getConfigManager(), 'isLoaded').mockReturnValue(true);
+    jest
+      .spyOn(getConfigManager(), 'getToolConfig')
+      .mockImplementation((id) => (id === 'disabled_tool' ? ({ enabled: false } as ToolConfig) : undefined));
+    server = new ToolRegistryMCPServer(registry);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    registry.clear();
+  });
+
+  it('answers initialize with a supported protocol version and the tools capability', async () => {
+    const response = await server.handleMessage(
+      { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26' } },
+      PUBLIC
+    );
+    expect(response).toMatchObject({
+      id: 1,
+      result: { protocolVersion: '2025-03-26', capabilities: { tools: {} }, serverInfo: { name: 'fuelsense-tools' } },
+    });
+
+    const unknownVersion = await server.handleMessage(
+      { jsonrpc: '2.0', id: 2, method: 'initialize', params: { protocolVersion: '1999-01-01' } },
+      PUBLIC
+    );
+    expect(unknownVersion).toMatchObject({ result: { protocolVersion: '2025-06-18' } });
+
+    expect(await server.handleMessage({ jsonrpc: '2.0', id: 3, method: 'ping' }, PUBLIC)).toEqual({
+      jsonrpc: '2.0',
+      id: 3,
+      result: {},
+    });
+    expect(await server.handleMessage({ jsonrpc: '2.0', method: 'notifications/initialized' }, PUBLIC)).toBeNull();
+  });
+
+  it('lists enabled tools with schemas and hides requiresAuth tools from unauthenticated sessions', async () => {
+    const response = await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, PUBLIC);
+    const tools = (response as JSONRPCSuccessResponse).result.tools as MCPTool[];
+    expect(tools.map((tool) => tool.name)).toEqual(['double_value', 'failing_tool']);
+    expect(tools[0]).toMatchObject({
+      title: 'Tool double_value',
+      inputSchema: { type: 'object', required: ['value'] },
+      outputSchema: { properties: { doubled: { type: 'number' } } },
+    });
+
+    expect(server.listTools(AUTHENTICATED).map((tool) => tool.name)).toEqual([
+      'double_value',
+      'private_tool',
+      'failing_tool',
+    ]);
+  });
+
+  it('calls tools through the registry with metrics and returns text and structured content', async () => {
+    const response = await server.handleMessage(
+      { jsonrpc: '2.0', id: 7, method: 'tools/call', params: { name: 'double_value', arguments: { value: 21 } } },
+      PUBLIC
+    );
+    expect(response).toEqual({
+      jsonrpc: '2.0',
+      id: 7,
+      result: { content: [{ type: 'text', text: '{"doubled":42}' }], structuredContent: { doubled: 42 } },
+    });
+    expect(registry.getById('double_value')?.metrics).toMatchObject({ totalCalls: 1, successCalls: 1 });
+  });
+
+  it('returns tool failures and missing arguments as isError results', async () => {
+    const missing = await server.callTool('double_value', {}, PUBLIC);
+    expect(missing).toEqual({
+      content: [{ type: 'text', text: 'Missing required argument(s): value' }],
+      isError: true,
+    });
+
+    const failed = await server.callTool('failing_tool', { value: 1 }, PUBLIC);
+    expect(failed.isError).toBe(true);
+    expect(registry.getById('failing_tool')?.metrics.totalCalls).toBe(1);
+  });
+
+  it('refuses unknown, disabled and unauthorized tools with JSON-RPC errors', async () => {
+    const call = (name: string, session = PUBLIC) =>
+      server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: { value: 1 } } }, session);
+
+    expect(await call('no_such_tool')).toMatchObject({ error: { code: JSONRPC_ERROR_CODES.INVALID_PARAMS } });
+    expect(await call('disabled_tool')).toMatchObject({ error: { code: JSONRPC_ERROR_CODES.INVALID_PARAMS } });
+    expect(await call('private_tool')).toMatchObject({
+      error: { code: JSONRPC_ERROR_CODES.UNAUTHORIZED, message: 'Tool private_tool requires authentication' },
+    });
+    expect(await call('private_tool', AUTHENTICATED)).toMatchObject({ result: { structuredContent: { doubled: 2 } } });
+    expect(await server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'resources/list' }, PUBLIC)).toMatchObject({
+      error: { code: JSONRPC_ERROR_CODES.METHOD_NOT_FOUND },
+    });
+    expect(await server.handleMessage({ id: 3, method: 'ping' }, PUBLIC)).toMatchObject({
+      id: 3,
+      error: { code: JSONRPC_ERROR_CODES.INVALID_REQUEST },
+    });
+  });
+
+  it('refuses tools/list and tools/call until the tool configurations are loaded', async () => {
+    jest.spyOn(getConfigManager(), 'isLoaded').mockReturnValue(false);
+
+    const list = await server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, PUBLIC);
+    const call = await server.handleMessage(
+      { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'disabled_tool', arguments: { value: 1 } } },
+      AUTHENTICATED
+    );
+
+    expect(list).toMatchObject({ error: { code: JSONRPC_ERROR_CODES.INTERNAL_ERROR } });
+    expect(call).toMatchObject({ error: { code: JSONRPC_ERROR_CODES.INTERNAL_ERROR } });
+    expect(await server.handleMessage({ jsonrpc: '2.0', id: 3, method: 'ping' }, PUBLIC)).toMatchObject({ result: {} });
+  });
+
+  it('serves newline-delimited JSON-RPC over stdio', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    let written = '';
+    output.on('data', (chunk) => (written += chunk.toString()));
+
+    const serving = serveStdio(server, { input, output, session: PUBLIC });
+    input.write('{"jsonrpc":"2.0","id":1,"method":"ping"}\n');
+    input.write('not json\n');
+    input.end('{"jsonrpc":"2.0","id":2,"method":"tools/call","params":{"name":"double_value","arguments":{"value":2}}}\n');
+    await serving;
+
+    const responses = written.trim().split('\n').map((line) => JSON.parse(line));
+    expect(responses).toEqual(
+      expect.arrayContaining([
+        { jsonrpc: '2.0', id: 1, result: {} },
+        { jsonrpc: '2.0', id: null, error: { code: JSONRPC_ERROR_CODES.PARSE_ERROR, message: 'Parse error' } },
+        expect.objectContaining({ id: 2, result: expect.objectContaining({ structuredContent: { doubled: 4 } }) }),
+      ])
+    );
+  });
+});
@@ -1,6 +1,7 @@
 /**
  * Unit tests for rob-from-datalogs-service.
- * getCurrentStateFromDatalogs: maps DatalogRow to VesselCurrentState with correct current_rob.
+ * getCurrentStateFromDatalogs: maps DatalogRow to VesselCurrentState with correct current_rob,
+ * skipping recent reports that fail noon report validation.
  */
 
 import type { DatalogRow } from '@/lib/clients/datalogs-client';
@@ -18,7 +19,7 @@ jest.mock('@/lib/clients/datalogs-client', () => {
   global.__datalogsMockGetLatest = fn;
   return {
     DatalogsClient: jest.fn().mockImplementation(() => ({
-      getLatestRawByIMO: fn,
+      getRecentRawByIMO: fn,
     })),
   };
 });
@@ -40,12 +41,12 @@ describe('rob-from-datalogs-service', () => {
     });
 
     it('returns null when API returns no row', async () => {
-      getMock().mockResolvedValueOnce(null);
+      getMock().mockResolvedValueOnce([]);
 
       const result = await getCurrentStateFromDatalogs('1234567');
 
       expect(result).toBeNull();
-      expect(getMock()).toHaveBeenCalledWith('1234567');
+      expect(getMock()).toHaveBeenCalledWith('1234567', 30);
     });
 
     it('maps DatalogRow to VesselCurrentState with correct current_rob', async () => {
@@ -62,7 +63,7 @@ describe('rob-from-datalogs-service', () => {
         LONGITUDE: 103.85,
         DISTANCETOGO: 1200,
       };
-      getMock().mockResolvedValueOnce(mockRow);
+      getMock().mockResolvedValueOnce([mockRow]);
 
       const result = await getCurrentStateFromDatalogs('9123456');
 
@@ -90,7 +91,7 @@ describe('rob-from-datalogs-service', () => {
         ROB_MDO: 5,
         ROB_HSFO: 10,
       };
-      getMock().mockResolvedValueOnce(mockRow);
+      getMock().mockResolvedValueOnce([mockRow]);
 
       const result = await getCurrentStateFromDatalogs('9123456');
 
@@ -101,6 +102,25 @@ describe('rob-from-datalogs-service', () => {
         HSFO: 10,
       });
     });
+
+    it('skips a latest report whose ROB rose without bunkering and reports the data quality', async () => {
+      const base = { VESSEL_IMO: '9123456', VESSEL_NAME: 'Test', ROB_LSMGO: 80 };
+      getMock().mockResolvedValueOnce([
+        { ...base, REPORT_DATE: '2025-02-16T12:00:00Z', ROB_VLSFO: 900 },
+        { ...base, REPORT_DATE: '2025-02-15T12:00:00Z', ROB_VLSFO: 420 },
+        { ...base, REPORT_DATE: '2025-02-14T12:00:00Z', ROB_VLSFO: 450 },
+      ] as DatalogRow[]);
+
+      const result = await getCurrentStateFromDatalogs('9123456');
+
+      expect(result!.current_rob.VLSFO).toBe(420);
+      expect(result!.last_report_date).toEqual(new Date('2025-02-15T12:00:00Z'));
+      expect(result!.data_quality).toMatchObject({
+        excluded_count: 1,
+        latest_excluded: true,
+        anomaly_counts: { rob_increase_without_bunkering: 1 },
+      });
+    });
   });
 
   describe('getRobFromDatalogs', () => {
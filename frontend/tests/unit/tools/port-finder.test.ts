@@ -0,0 +1,78 @@
+/**
+ * Port Finder Tool Unit Tests
+ *
+ * Tests for:
+ * - Sea deviation budget: a hanging route service cannot hold up port finding
+ * - Route service unavailable: ports keep haversine deviation
+ *
+ * Run with: npx jest tests/unit/tools/port-finder.test.ts
+ */
+
+import { findPortsNearRoute } from '@/lib/tools/port-finder';
+
+const mockCalculatePortCallDeviation = jest.fn();
+const mockGetRouteService = jest.fn();
+
+jest.mock('@/lib/clients/bunker-pricing-client', () => ({
+  BunkerPricingClient: jest.fn().mockImplementation(() => ({
+    getAll: jest.fn().mockResolvedValue([
+      { portName: '', portCode: 'AEFJR', fuelType: 'VLSFO' },
+      { portName: '', portCode: 'AEFJR', fuelType: 'MGO' },
+    ]),
+  })),
+}));
+
+jest.mock('@/lib/repositories/service-container', () => ({
+  ServiceContainer: {
+    getInstance: jest.fn(() => ({
+      getPortRepository: () => ({ findByCode: jest.fn(), findByName: jest.fn() }),
+      getRouteService: mockGetRouteService,
+    })),
+  },
+}));
+
+/** Passes about 30 nm off Fujairah */
+const ROUTE_WAYPOINTS = [
+  { lat: 25.5, lon: 56.9 },
+  { lat: 24.5, lon: 58.5 },
+];
+
+describe('port-finder sea deviations', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockCalculatePortCallDeviation.mockReset();
+    mockGetRouteService.mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('returns ports with haversine deviation when sea route calls never resolve', async () => {
+    jest.useFakeTimers();
+    mockCalculatePortCallDeviation.mockReturnValue(new Promise(() => {}));
+    mockGetRouteService.mockReturnValue({ calculatePortCallDeviation: mockCalculatePortCallDeviation });
+
+    const pending = findPortsNearRoute({ route_waypoints: ROUTE_WAYPOINTS, max_deviation_nm: 150 });
+    await jest.advanceTimersByTimeAsync(20000);
+    const result = await pending;
+
+    expect(mockCalculatePortCallDeviation).toHaveBeenCalledTimes(1);
+    expect(result.ports).toHaveLength(1);
+    expect(result.ports[0]).toMatchObject({ deviation_method: 'haversine' });
+    expect(result.ports[0]!.port.port_code).toBe('AEFJR');
+    expect(result.ports[0]!.deviation_nm).toBeCloseTo(result.ports[0]!.distance_from_route_nm * 2);
+  });
+
+  it('keeps haversine deviation when the route service cannot be created', async () => {
+    mockGetRouteService.mockImplementation(() => {
+      throw new Error('SeaRoute API not configured');
+    });
+
+    const result = await findPortsNearRoute({ route_waypoints: ROUTE_WAYPOINTS, max_deviation_nm: 150 });
+
+    expect(result.ports.map((p) => p.deviation_method)).toEqual(['haversine']);
+  });
+});